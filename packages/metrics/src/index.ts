@@ -0,0 +1,6 @@
+import startMetricsServer from './startMetricsServer';
+import trackQueueBacklog from './trackQueueBacklog';
+
+export type { MetricsLogger } from './types/MetricsLogger.interface';
+
+export { startMetricsServer, trackQueueBacklog };
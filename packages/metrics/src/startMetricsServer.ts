@@ -0,0 +1,44 @@
+import { createServer } from 'http';
+import { collectDefaultMetrics, register } from 'prom-client';
+import { MetricsLogger } from './types/MetricsLogger.interface';
+
+interface Options {
+  port: number
+  logger: MetricsLogger
+}
+
+/**
+ * Serves the Prometheus exposition of the default registry on a dedicated port, so that metrics
+ * are never exposed through a public API and are available for services that do not run one.
+ */
+const startMetricsServer = ({ port, logger }: Options) => {
+  collectDefaultMetrics();
+
+  const server = createServer(async (req, res) => {
+    if (req.method !== 'GET' || req.url !== '/metrics') {
+      res.writeHead(404).end();
+
+      return;
+    }
+
+    try {
+      const metrics = await register.metrics();
+
+      res.writeHead(200, { 'Content-Type': register.contentType }).end(metrics);
+    } catch (err) {
+      logger.error('Failed to collect metrics', {
+        stack: (err as Error).stack,
+      });
+
+      res.writeHead(500).end();
+    }
+  });
+
+  server.listen(port, '0.0.0.0', () => {
+    logger.info(`Metrics server listening on port ${port}`);
+  });
+
+  return server;
+};
+
+export default startMetricsServer;
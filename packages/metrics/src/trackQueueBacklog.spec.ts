@@ -0,0 +1,55 @@
+import { register } from 'prom-client';
+import trackQueueBacklog from './trackQueueBacklog';
+
+describe('trackQueueBacklog', () => {
+  const logger = {
+    info: jest.fn(),
+    error: jest.fn(),
+  };
+
+  afterEach(() => {
+    register.clear();
+    jest.resetAllMocks();
+  });
+
+  it('reports the message count of every queue', async () => {
+    const channel = {
+      checkQueue: jest.fn().mockImplementation(async (queue: string) => ({
+        messageCount: queue === 'queue-a' ? 1 : 2,
+      })),
+    };
+
+    trackQueueBacklog({
+      name: 'test_queue_messages',
+      channel,
+      queues: ['queue-a', 'queue-b'],
+      logger,
+    });
+
+    const metrics = await register.metrics();
+
+    expect(metrics).toContain('test_queue_messages{queue="queue-a"} 1');
+    expect(metrics).toContain('test_queue_messages{queue="queue-b"} 2');
+  });
+
+  it('logs queues that failed to be checked', async () => {
+    const channel = {
+      checkQueue: jest.fn().mockRejectedValue(new Error('failed')),
+    };
+
+    trackQueueBacklog({
+      name: 'test_queue_messages',
+      channel,
+      queues: ['queue-a'],
+      logger,
+    });
+
+    await expect(register.metrics()).resolves.not.toContain(
+      'test_queue_messages{queue="queue-a"}',
+    );
+    expect(logger.error).toHaveBeenCalledWith(
+      'Failed to check backlog of queue queue-a',
+      expect.objectContaining({ stack: expect.any(String) }),
+    );
+  });
+});
@@ -0,0 +1,44 @@
+import { Gauge } from 'prom-client';
+import { MetricsLogger } from './types/MetricsLogger.interface';
+
+interface Options {
+  /**
+   * The name of the gauge, prefixed by the service name (such as user_feeds_queue_messages)
+   */
+  name: string
+  /**
+   * The broker channel, such as the channel of an AmqpConnection
+   */
+  channel: {
+    checkQueue: (queue: string) => Promise<{ messageCount: number }>
+  }
+  queues: string[]
+  logger: MetricsLogger
+}
+
+/**
+ * Reports the number of messages waiting in each queue, labelled by queue, whenever metrics are
+ * scraped.
+ */
+const trackQueueBacklog = ({
+  name, channel, queues, logger,
+}: Options) => new Gauge({
+  name,
+  help: 'Number of messages waiting to be consumed in a broker queue',
+  labelNames: ['queue'],
+  async collect() {
+    await Promise.all(queues.map(async (queue) => {
+      try {
+        const { messageCount } = await channel.checkQueue(queue);
+
+        this.set({ queue }, messageCount);
+      } catch (err) {
+        logger.error(`Failed to check backlog of queue ${queue}`, {
+          stack: (err as Error).stack,
+        });
+      }
+    }));
+  },
+});
+
+export default trackQueueBacklog;
@@ -0,0 +1,4 @@
+export interface MetricsLogger {
+  info: (message: string, meta?: Record<string, any>) => void
+  error: (message: string, meta?: Record<string, any>) => void
+}
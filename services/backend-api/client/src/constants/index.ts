@@ -2,6 +2,7 @@ export * from "./pages";
 export * from "./dateFormat";
 export * from "./userFeedManagerStatus";
 export * from "./userFeedManagerInviteType";
+export * from "./userFeedManagerRole";
 export * from "./blockableFeature";
 export * from "./supporterTier";
 export * from "./productKey";
@@ -0,0 +1,25 @@
+export enum UserFeedManagerRole {
+  Viewer = "VIEWER",
+  Editor = "EDITOR",
+  Admin = "ADMIN",
+}
+
+export const USER_FEED_MANAGER_ROLE_DETAILS: Record<
+  UserFeedManagerRole,
+  { label: string; description: string }
+> = {
+  [UserFeedManagerRole.Viewer]: {
+    label: "Viewer",
+    description: "Can view the feed, its articles and its logs, but cannot change anything.",
+  },
+  [UserFeedManagerRole.Editor]: {
+    label: "Editor",
+    description:
+      "Can change messages, filters and other settings, but cannot change the feed URL or where connections deliver to.",
+  },
+  [UserFeedManagerRole.Admin]: {
+    label: "Admin",
+    description:
+      "Can change everything, including adding and removing connections. Cannot delete the feed.",
+  },
+};
@@ -5,3 +5,4 @@ export * from "./getDiscordAuthStatus";
 export * from "./getDiscordUser";
 export * from "./getUserMe";
 export * from "./updateUserMe";
+export * from "./updateUserAlertSettings";
@@ -0,0 +1,37 @@
+import { InferType, object } from "yup";
+import fetchRest from "../../../utils/fetchRest";
+import { AlertSettingsSchema } from "../types";
+
+export interface UpdateUserAlertSettingsInput {
+  details: {
+    destinations: Array<{
+      type: string;
+      channelId?: string;
+      webhookUrl?: string;
+      alertTypes?: string[];
+    }>;
+    consecutiveFailedFetches?: number;
+    noNewArticlesDays?: number;
+    approachingArticleDailyLimit?: boolean;
+  };
+}
+
+const UpdateUserAlertSettingsOutputSchema = object({
+  result: AlertSettingsSchema,
+});
+
+export type UpdateUserAlertSettingsOutput = InferType<typeof UpdateUserAlertSettingsOutputSchema>;
+
+export const updateUserAlertSettings = async ({
+  details,
+}: UpdateUserAlertSettingsInput): Promise<UpdateUserAlertSettingsOutput> => {
+  const res = await fetchRest("/api/v1/users/@me/alert-settings", {
+    requestOptions: {
+      method: "PUT",
+      body: JSON.stringify(details),
+    },
+    validateSchema: UpdateUserAlertSettingsOutputSchema,
+  });
+
+  return res as UpdateUserAlertSettingsOutput;
+};
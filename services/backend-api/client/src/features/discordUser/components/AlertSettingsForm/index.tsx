@@ -0,0 +1,309 @@
+import {
+  Button,
+  Checkbox,
+  CheckboxGroup,
+  FormControl,
+  FormErrorMessage,
+  FormHelperText,
+  FormLabel,
+  HStack,
+  IconButton,
+  Input,
+  NumberInput,
+  NumberInputField,
+  Select,
+  Stack,
+  Switch,
+  Text,
+  Wrap,
+} from "@chakra-ui/react";
+import { AddIcon, DeleteIcon } from "@chakra-ui/icons";
+import { yupResolver } from "@hookform/resolvers/yup";
+import { useEffect } from "react";
+import { Controller, useFieldArray, useForm, useWatch } from "react-hook-form";
+import { InferType, array, bool, number, object, string } from "yup";
+import { AlertDestinationType, AlertSettings, AlertType } from "../../types";
+import { UpdateUserAlertSettingsInput } from "../../api";
+
+const MAX_DESTINATIONS = 10;
+
+const DISCORD_WEBHOOK_URL_REGEX =
+  /^https:\/\/(?:(?:canary|ptb)\.)?discord(?:app)?\.com\/api(?:\/v\d+)?\/webhooks\/\d+\/[\w-]+$/;
+
+const destinationTypeLabels: Record<AlertDestinationType, string> = {
+  [AlertDestinationType.DiscordDirectMessage]: "Direct message to me",
+  [AlertDestinationType.DiscordChannel]: "Discord channel",
+  [AlertDestinationType.DiscordWebhook]: "Discord webhook",
+};
+
+const alertTypeLabels: Record<AlertType, string> = {
+  [AlertType.DisabledFeed]: "Disabled feeds",
+  [AlertType.DisabledConnection]: "Disabled connections",
+  [AlertType.ConsecutiveFailedFetches]: "Failed requests",
+  [AlertType.NoNewArticles]: "No new articles",
+  [AlertType.ApproachingArticleDailyLimit]: "Daily article limit",
+};
+
+const formSchema = object({
+  destinations: array(
+    object({
+      type: string().oneOf(Object.values(AlertDestinationType)).required(),
+      channelId: string().when("type", {
+        is: AlertDestinationType.DiscordChannel,
+        then: (schema) => schema.required("Channel ID is required"),
+      }),
+      webhookUrl: string().when("type", {
+        is: AlertDestinationType.DiscordWebhook,
+        then: (schema) =>
+          schema
+            .required("Webhook URL is required")
+            .matches(DISCORD_WEBHOOK_URL_REGEX, "Must be a Discord webhook URL"),
+      }),
+      alertTypes: array(string().oneOf(Object.values(AlertType)).required()).required(),
+    }).required()
+  )
+    .max(MAX_DESTINATIONS)
+    .required(),
+  consecutiveFailedFetches: number()
+    .transform((value) => (Number.isNaN(value) ? undefined : value))
+    .integer()
+    .min(1)
+    .max(100),
+  noNewArticlesDays: number()
+    .transform((value) => (Number.isNaN(value) ? undefined : value))
+    .integer()
+    .min(1)
+    .max(365),
+  approachingArticleDailyLimit: bool(),
+});
+
+type FormData = InferType<typeof formSchema>;
+
+const convertToFormData = (alertSettings?: AlertSettings): FormData => ({
+  destinations: (alertSettings?.destinations || []).map((destination) => ({
+    type: destination.type,
+    channelId: destination.channelId || "",
+    webhookUrl: destination.webhookUrl || "",
+    alertTypes: destination.alertTypes?.length ? destination.alertTypes : Object.values(AlertType),
+  })),
+  consecutiveFailedFetches: alertSettings?.consecutiveFailedFetches ?? undefined,
+  noNewArticlesDays: alertSettings?.noNewArticlesDays ?? undefined,
+  approachingArticleDailyLimit: !!alertSettings?.approachingArticleDailyLimit,
+});
+
+interface Props {
+  alertSettings?: AlertSettings;
+  isDisabled?: boolean;
+  onSave: (details: UpdateUserAlertSettingsInput["details"]) => Promise<void>;
+}
+
+export const AlertSettingsForm = ({ alertSettings, isDisabled, onSave }: Props) => {
+  const {
+    control,
+    handleSubmit,
+    reset,
+    register,
+    formState: { errors, isDirty, isSubmitting },
+  } = useForm<FormData>({
+    resolver: yupResolver(formSchema),
+    mode: "all",
+    defaultValues: convertToFormData(alertSettings),
+  });
+  const { fields, append, remove } = useFieldArray({
+    control,
+    name: "destinations",
+  });
+  const destinations = useWatch({ control, name: "destinations" });
+
+  useEffect(() => {
+    reset(convertToFormData(alertSettings));
+  }, [alertSettings]);
+
+  const onSubmit = async ({
+    destinations: formDestinations,
+    consecutiveFailedFetches,
+    noNewArticlesDays,
+    approachingArticleDailyLimit,
+  }: FormData) => {
+    await onSave({
+      destinations: formDestinations.map(({ type, channelId, webhookUrl, alertTypes }) => ({
+        type,
+        channelId: type === AlertDestinationType.DiscordChannel ? channelId : undefined,
+        webhookUrl: type === AlertDestinationType.DiscordWebhook ? webhookUrl : undefined,
+        alertTypes,
+      })),
+      consecutiveFailedFetches,
+      noNewArticlesDays,
+      approachingArticleDailyLimit,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)}>
+      <Stack spacing={6}>
+        <Stack spacing={4}>
+          {!fields.length && <Text color="whiteAlpha.700">No destinations have been added.</Text>}
+          {fields.map((field, index) => {
+            const type = destinations?.[index]?.type;
+            const destinationErrors = errors.destinations?.[index];
+
+            return (
+              <Stack key={field.id} bg="gray.700" padding={4} borderRadius="md" spacing={4}>
+                <HStack alignItems="flex-end">
+                  <FormControl>
+                    <FormLabel>Destination</FormLabel>
+                    <Select isDisabled={isDisabled} {...register(`destinations.${index}.type`)}>
+                      {Object.values(AlertDestinationType).map((value) => (
+                        <option key={value} value={value}>
+                          {destinationTypeLabels[value]}
+                        </option>
+                      ))}
+                    </Select>
+                  </FormControl>
+                  <IconButton
+                    aria-label="Remove destination"
+                    icon={<DeleteIcon />}
+                    variant="ghost"
+                    isDisabled={isDisabled}
+                    onClick={() => remove(index)}
+                  />
+                </HStack>
+                {type === AlertDestinationType.DiscordChannel && (
+                  <FormControl isInvalid={!!destinationErrors?.channelId}>
+                    <FormLabel>Channel ID</FormLabel>
+                    <Input
+                      isDisabled={isDisabled}
+                      {...register(`destinations.${index}.channelId`)}
+                    />
+                    <FormErrorMessage>{destinationErrors?.channelId?.message}</FormErrorMessage>
+                    <FormHelperText>
+                      You must have Manage Channels permission in the channel&apos;s server, and the
+                      bot must be able to send messages in it.
+                    </FormHelperText>
+                  </FormControl>
+                )}
+                {type === AlertDestinationType.DiscordWebhook && (
+                  <FormControl isInvalid={!!destinationErrors?.webhookUrl}>
+                    <FormLabel>Webhook URL</FormLabel>
+                    <Input
+                      isDisabled={isDisabled}
+                      {...register(`destinations.${index}.webhookUrl`)}
+                    />
+                    <FormErrorMessage>{destinationErrors?.webhookUrl?.message}</FormErrorMessage>
+                  </FormControl>
+                )}
+                <FormControl>
+                  <FormLabel>Alerts to send</FormLabel>
+                  <Controller
+                    name={`destinations.${index}.alertTypes`}
+                    control={control}
+                    render={({ field: alertTypesField }) => (
+                      <CheckboxGroup
+                        value={alertTypesField.value}
+                        onChange={(values) => alertTypesField.onChange(values)}
+                        isDisabled={isDisabled}
+                      >
+                        <Wrap spacing={4}>
+                          {Object.values(AlertType).map((value) => (
+                            <Checkbox key={value} value={value}>
+                              {alertTypeLabels[value]}
+                            </Checkbox>
+                          ))}
+                        </Wrap>
+                      </CheckboxGroup>
+                    )}
+                  />
+                </FormControl>
+              </Stack>
+            );
+          })}
+          <Button
+            leftIcon={<AddIcon fontSize={13} />}
+            alignSelf="flex-start"
+            isDisabled={isDisabled || fields.length >= MAX_DESTINATIONS}
+            onClick={() =>
+              append({
+                type: AlertDestinationType.DiscordDirectMessage,
+                channelId: "",
+                webhookUrl: "",
+                alertTypes: Object.values(AlertType),
+              })
+            }
+          >
+            Add destination
+          </Button>
+        </Stack>
+        <FormControl isInvalid={!!errors.consecutiveFailedFetches}>
+          <FormLabel>Alert after this many consecutive failed requests</FormLabel>
+          <Controller
+            name="consecutiveFailedFetches"
+            control={control}
+            render={({ field }) => (
+              <NumberInput
+                maxWidth={32}
+                min={1}
+                max={100}
+                isDisabled={isDisabled}
+                value={field.value ?? ""}
+                onChange={(_, value) => field.onChange(Number.isNaN(value) ? undefined : value)}
+              >
+                <NumberInputField />
+              </NumberInput>
+            )}
+          />
+          <FormErrorMessage>{errors.consecutiveFailedFetches?.message}</FormErrorMessage>
+          <FormHelperText>Leave empty to disable this alert.</FormHelperText>
+        </FormControl>
+        <FormControl isInvalid={!!errors.noNewArticlesDays}>
+          <FormLabel>Alert when a feed has had no new articles for this many days</FormLabel>
+          <Controller
+            name="noNewArticlesDays"
+            control={control}
+            render={({ field }) => (
+              <NumberInput
+                maxWidth={32}
+                min={1}
+                max={365}
+                isDisabled={isDisabled}
+                value={field.value ?? ""}
+                onChange={(_, value) => field.onChange(Number.isNaN(value) ? undefined : value)}
+              >
+                <NumberInputField />
+              </NumberInput>
+            )}
+          />
+          <FormErrorMessage>{errors.noNewArticlesDays?.message}</FormErrorMessage>
+          <FormHelperText>Leave empty to disable this alert.</FormHelperText>
+        </FormControl>
+        <FormControl as={HStack} justifyContent="space-between">
+          <FormLabel htmlFor="approaching-article-daily-limit" mb={0}>
+            Alert when a feed is close to its daily article limit
+          </FormLabel>
+          <Controller
+            name="approachingArticleDailyLimit"
+            control={control}
+            render={({ field }) => (
+              <Switch
+                id="approaching-article-daily-limit"
+                size="lg"
+                isDisabled={isDisabled}
+                isChecked={!!field.value}
+                onChange={(e) => field.onChange(e.target.checked)}
+              />
+            )}
+          />
+        </FormControl>
+        <HStack justifyContent="flex-end">
+          <Button
+            type="submit"
+            colorScheme="blue"
+            isLoading={isSubmitting}
+            isDisabled={isDisabled || !isDirty || isSubmitting}
+          >
+            Save alert settings
+          </Button>
+        </HStack>
+      </Stack>
+    </form>
+  );
+};
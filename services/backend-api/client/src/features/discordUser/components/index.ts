@@ -1,2 +1,3 @@
 export * from "./UserStatusTag";
 export * from "./DiscordUsername";
+export * from "./AlertSettingsForm";
@@ -4,3 +4,4 @@ export * from "./useDiscordAuthStatus";
 export * from "./useDiscordUser";
 export * from "./useUserMe";
 export * from "./useUpdateUserMe";
+export * from "./useUpdateUserAlertSettings";
@@ -0,0 +1,26 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import ApiAdapterError from "@/utils/ApiAdapterError";
+import {
+  UpdateUserAlertSettingsInput,
+  UpdateUserAlertSettingsOutput,
+  updateUserAlertSettings,
+} from "../api";
+
+export const useUpdateUserAlertSettings = () => {
+  const queryClient = useQueryClient();
+  const { mutateAsync, status, error } = useMutation<
+    UpdateUserAlertSettingsOutput,
+    ApiAdapterError,
+    UpdateUserAlertSettingsInput
+  >((details) => updateUserAlertSettings(details), {
+    onSuccess: () => {
+      return queryClient.invalidateQueries(["user-me"]);
+    },
+  });
+
+  return {
+    mutateAsync,
+    status,
+    error,
+  };
+};
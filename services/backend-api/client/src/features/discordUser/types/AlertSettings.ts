@@ -0,0 +1,33 @@
+import { InferType, array, bool, number, object, string } from "yup";
+
+export enum AlertDestinationType {
+  DiscordChannel = "discord-channel",
+  DiscordDirectMessage = "discord-dm",
+  DiscordWebhook = "discord-webhook",
+}
+
+export enum AlertType {
+  DisabledFeed = "DISABLED_FEED",
+  DisabledConnection = "DISABLED_CONNECTION",
+  ConsecutiveFailedFetches = "CONSECUTIVE_FAILED_FETCHES",
+  NoNewArticles = "NO_NEW_ARTICLES",
+  ApproachingArticleDailyLimit = "APPROACHING_ARTICLE_DAILY_LIMIT",
+}
+
+export const AlertDestinationSchema = object({
+  type: string().oneOf(Object.values(AlertDestinationType)).required(),
+  channelId: string(),
+  discordUserId: string(),
+  webhookUrl: string(),
+  alertTypes: array(string().oneOf(Object.values(AlertType)).required()),
+});
+
+export const AlertSettingsSchema = object({
+  destinations: array(AlertDestinationSchema.required()).required(),
+  consecutiveFailedFetches: number().nullable(),
+  noNewArticlesDays: number().nullable(),
+  approachingArticleDailyLimit: bool().nullable(),
+});
+
+export type AlertDestination = InferType<typeof AlertDestinationSchema>;
+export type AlertSettings = InferType<typeof AlertSettingsSchema>;
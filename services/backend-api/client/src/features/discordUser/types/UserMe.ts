@@ -1,4 +1,5 @@
 import { InferType, bool, object, string } from "yup";
+import { AlertSettingsSchema } from "./AlertSettings";
 
 export const UserMeSchema = object({
   id: string().required(),
@@ -8,6 +9,7 @@ export const UserMeSchema = object({
     dateFormat: string().nullable(),
     dateLocale: string().nullable(),
     dateTimezone: string().nullable(),
+    alertSettings: AlertSettingsSchema.optional().default(undefined),
   }).default({}),
   subscription: object({
     product: object({
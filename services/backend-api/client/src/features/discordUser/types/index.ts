@@ -2,3 +2,4 @@ export * from "./DiscordMeUser";
 export * from "./DiscordBot";
 export * from "./DiscordUser";
 export * from "./UserMe";
+export * from "./AlertSettings";
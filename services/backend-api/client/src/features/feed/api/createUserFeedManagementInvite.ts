@@ -1,12 +1,13 @@
 import { InferType, object, string } from "yup";
 import fetchRest from "../../../utils/fetchRest";
-import { UserFeedManagerInviteType } from "../../../constants";
+import { UserFeedManagerInviteType, UserFeedManagerRole } from "../../../constants";
 
 export interface CreateUserFeedManagementInviteInput {
   data: {
     feedId: string;
     discordUserId: string;
     type: UserFeedManagerInviteType;
+    role?: UserFeedManagerRole;
     connections: Array<{ connectionId: string }>;
   };
 }
@@ -0,0 +1,35 @@
+import { InferType, object } from "yup";
+import qs from "qs";
+import fetchRest from "../../../utils/fetchRest";
+import { UserFeedAnalyticsInterval, UserFeedAnalyticsSchema } from "../types";
+
+export interface GetUserFeedAnalyticsInput {
+  feedId: string;
+  data: {
+    startDate: string;
+    endDate: string;
+    interval: UserFeedAnalyticsInterval;
+  };
+}
+
+const GetUserFeedAnalyticsOutputSchema = object({
+  result: UserFeedAnalyticsSchema.required(),
+}).required();
+
+export type GetUserFeedAnalyticsOutput = InferType<typeof GetUserFeedAnalyticsOutputSchema>;
+
+export const getUserFeedAnalytics = async ({
+  feedId,
+  data,
+}: GetUserFeedAnalyticsInput): Promise<GetUserFeedAnalyticsOutput> => {
+  const query = qs.stringify(data);
+
+  const res = await fetchRest(`/api/v1/user-feeds/${feedId}/analytics?${query}`, {
+    requestOptions: {
+      method: "GET",
+    },
+    validateSchema: GetUserFeedAnalyticsOutputSchema,
+  });
+
+  return res as GetUserFeedAnalyticsOutput;
+};
@@ -0,0 +1,38 @@
+import { array, InferType, object } from "yup";
+import qs from "qs";
+import fetchRest from "../../../utils/fetchRest";
+import { UserFeedAuditLogEntrySchema } from "../types";
+
+export interface GetUserFeedAuditLogInput {
+  feedId: string;
+  data: {
+    limit: number;
+    skip: number;
+  };
+}
+
+const GetUserFeedAuditLogOutputSchema = object({
+  result: object()
+    .shape({
+      entries: array(UserFeedAuditLogEntrySchema).required(),
+    })
+    .required(),
+}).required();
+
+export type GetUserFeedAuditLogOutput = InferType<typeof GetUserFeedAuditLogOutputSchema>;
+
+export const getUserFeedAuditLog = async ({
+  feedId,
+  data,
+}: GetUserFeedAuditLogInput): Promise<GetUserFeedAuditLogOutput> => {
+  const query = qs.stringify(data);
+
+  const res = await fetchRest(`/api/v1/user-feeds/${feedId}/audit-log?${query}`, {
+    requestOptions: {
+      method: "GET",
+    },
+    validateSchema: GetUserFeedAuditLogOutputSchema,
+  });
+
+  return res as GetUserFeedAuditLogOutput;
+};
@@ -16,6 +16,10 @@ const GetUserFeedRequestsOutputSchema = object({
     .shape({
       requests: array(UserFeedRequestSchema).required(),
       nextRetryTimestamp: number().nullable().default(null),
+      conditionalRequestSavings: object({
+        notModifiedCount: number().required(),
+        bytesSaved: number().required(),
+      }).optional(),
     })
     .required(),
 }).required();
@@ -8,6 +8,10 @@ export interface GetUserFeedsInput {
   offset?: number;
   search?: string;
   sort?: string;
+  /**
+   * Only list the feeds of this workspace instead of personal feeds
+   */
+  workspaceId?: string;
   filters?: {
     computedStatuses?: UserFeedComputedStatus[];
   };
@@ -27,6 +31,7 @@ export const getUserFeeds = async (options: GetUserFeedsInput): Promise<GetUserF
       offset: options.offset?.toString() || "0",
       search: options.search || "",
       sort: options.sort || "",
+      workspaceId: options.workspaceId,
       filters: options.filters,
     },
     {
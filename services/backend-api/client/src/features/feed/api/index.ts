@@ -40,3 +40,5 @@ export * from "./createUserFeedDatePreview";
 export * from "./updateUserFeedManagementInvite";
 export * from "./getUserFeedDeliveryLogs";
 export * from "./createUserFeedManualRequest";
+export * from "./getUserFeedAuditLog";
+export * from "./getUserFeedAnalytics";
@@ -1,6 +1,7 @@
 import { InferType, object } from "yup";
 import fetchRest from "../../../utils/fetchRest";
-import { UserFeedDisabledCode, UserFeedSchema } from "../types";
+import { UserFeedCredentialProfileType, UserFeedDisabledCode, UserFeedSchema } from "../types";
+import { UpdateUserAlertSettingsInput } from "../../discordUser/api/updateUserAlertSettings";
 
 export interface UpdateUserFeedInput {
   feedId: string;
@@ -24,6 +25,13 @@ export interface UpdateUserFeedInput {
       }>;
     };
     userRefreshRateSeconds?: number;
+    alertSettings?: UpdateUserAlertSettingsInput["details"] | null;
+    credentialProfile?: {
+      type: UserFeedCredentialProfileType;
+      username?: string;
+      headerName?: string;
+      secret: string;
+    } | null;
   };
 }
 
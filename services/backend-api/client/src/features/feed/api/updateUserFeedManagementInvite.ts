@@ -1,4 +1,5 @@
 import fetchRest from "../../../utils/fetchRest";
+import { UserFeedManagerRole } from "../../../constants";
 
 export interface UpdateUserFeedManagementInviteInput {
   id: string;
@@ -6,6 +7,7 @@ export interface UpdateUserFeedManagementInviteInput {
     connections?: Array<{
       connectionId: string;
     }> | null;
+    role?: UserFeedManagerRole;
   };
 }
 
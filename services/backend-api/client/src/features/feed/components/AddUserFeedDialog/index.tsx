@@ -35,6 +35,7 @@ import { useDiscordUserMe } from "../../../discordUser";
 import { notifySuccess } from "../../../../utils/notifySuccess";
 import { pages } from "../../../../constants";
 import getChakraColor from "../../../../utils/getChakraColor";
+import { useWorkspace } from "../../../workspaces";
 
 const formSchema = object({
   title: string().required(),
@@ -48,9 +49,13 @@ type FormData = InferType<typeof formSchema>;
 
 interface Props {
   trigger?: React.ReactElement;
+  /**
+   * The workspace that should own the new feed. Defaults to the user.
+   */
+  workspaceId?: string;
 }
 
-export const AddUserFeedDialog = ({ trigger }: Props) => {
+export const AddUserFeedDialog = ({ trigger, workspaceId }: Props) => {
   const { isOpen, onOpen, onClose } = useDisclosure();
   const { t } = useTranslation();
   const {
@@ -67,6 +72,9 @@ export const AddUserFeedDialog = ({ trigger }: Props) => {
     limit: 1,
     offset: 0,
   });
+  const { data: workspace, fetchStatus: workspaceFetchStatus } = useWorkspace({
+    workspaceId,
+  });
   const navigate = useNavigate();
   const initialFocusRef = useRef<HTMLInputElement>(null);
 
@@ -76,6 +84,7 @@ export const AddUserFeedDialog = ({ trigger }: Props) => {
         details: {
           title,
           url,
+          workspaceId,
         },
       });
 
@@ -92,14 +101,15 @@ export const AddUserFeedDialog = ({ trigger }: Props) => {
     reset();
   }, [isOpen]);
 
-  const totalFeeds = userFeeds?.total;
+  const totalFeeds = workspaceId ? workspace?.result.feedCount : userFeeds?.total;
+  const maxFeeds = workspaceId ? workspace?.result.maxFeeds : discordUserMe?.maxUserFeeds;
 
-  const isUnderLimit =
-    totalFeeds !== undefined &&
-    discordUserMe?.maxUserFeeds !== undefined &&
-    totalFeeds < discordUserMe.maxUserFeeds;
+  const isUnderLimit = totalFeeds !== undefined && maxFeeds !== undefined && totalFeeds < maxFeeds;
 
-  const isLoading = discordUserStatus === "loading" || userFeedsStatus === "loading";
+  const isLoading =
+    discordUserStatus === "loading" ||
+    userFeedsStatus === "loading" ||
+    workspaceFetchStatus === "fetching";
 
   return (
     <>
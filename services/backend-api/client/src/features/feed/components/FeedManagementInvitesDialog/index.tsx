@@ -31,7 +31,12 @@ import { useUpdateUserFeedManagementInviteStatus, useUserFeedManagementInvites }
 import { InlineErrorAlert } from "../../../../components/InlineErrorAlert";
 import { DiscordUsername } from "../../../discordUser";
 import { UserFeedManagementInvite } from "../../types";
-import { UserFeedManagerInviteType, UserFeedManagerStatus } from "../../../../constants";
+import {
+  USER_FEED_MANAGER_ROLE_DETAILS,
+  UserFeedManagerInviteType,
+  UserFeedManagerRole,
+  UserFeedManagerStatus,
+} from "../../../../constants";
 import { notifySuccess } from "../../../../utils/notifySuccess";
 import { notifyError } from "../../../../utils/notifyError";
 
@@ -46,6 +51,7 @@ const FeedManagementInviteRow = ({
     id,
     feed: { ownerDiscordUserId, title, url },
     type,
+    role,
   },
 }: {
   currentNumberOfInvites: number;
@@ -104,7 +110,18 @@ const FeedManagementInviteRow = ({
   return (
     <Tr key={id}>
       <Td>
-        {(!type || type === UserFeedManagerInviteType.CoManage) && <Text>Co-manage</Text>}
+        {(!type || type === UserFeedManagerInviteType.CoManage) && (
+          <Stack spacing={0}>
+            <Text>Co-manage</Text>
+            <Text fontSize="sm" color="whiteAlpha.700">
+              {
+                USER_FEED_MANAGER_ROLE_DETAILS[
+                  (role as UserFeedManagerRole) || UserFeedManagerRole.Admin
+                ].label
+              }
+            </Text>
+          </Stack>
+        )}
         {type === UserFeedManagerInviteType.Transfer && <Text>Ownership transfer</Text>}
       </Td>
       <Td>
@@ -160,7 +177,7 @@ export const FeedManagementInvitesDialog = ({ trigger }: Props) => {
               <Text>
                 You have been invited to either co-manage or own one or more feeds owned by someone
                 else. Once you accept the invite, you&apos;ll be able to see those feeds in your
-                feed list.
+                feed list. Co-managers are limited to what their role allows.
               </Text>
               {!error && data && (
                 <Alert status="warning">
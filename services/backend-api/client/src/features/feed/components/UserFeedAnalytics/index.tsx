@@ -0,0 +1,389 @@
+import {
+  Box,
+  Center,
+  HStack,
+  Heading,
+  Select,
+  SimpleGrid,
+  Spinner,
+  Stack,
+  Table,
+  TableContainer,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tooltip,
+  Tr,
+} from "@chakra-ui/react";
+import dayjs from "dayjs";
+import { useMemo, useState } from "react";
+import { useUserFeed, useUserFeedAnalytics } from "../../hooks";
+import { UserFeedAnalyticsCategory, UserFeedAnalyticsInterval } from "../../types";
+import { InlineErrorAlert } from "../../../../components";
+
+interface Props {
+  feedId?: string;
+}
+
+enum AnalyticsRange {
+  Day = "day",
+  Week = "week",
+  Month = "month",
+}
+
+const RANGE_OPTIONS: Record<
+  AnalyticsRange,
+  { label: string; amount: number; unit: "hour" | "day"; interval: UserFeedAnalyticsInterval }
+> = {
+  [AnalyticsRange.Day]: {
+    label: "Last 24 hours",
+    amount: 24,
+    unit: "hour",
+    interval: UserFeedAnalyticsInterval.Hour,
+  },
+  [AnalyticsRange.Week]: {
+    label: "Last 7 days",
+    amount: 7,
+    unit: "day",
+    interval: UserFeedAnalyticsInterval.Day,
+  },
+  [AnalyticsRange.Month]: {
+    label: "Last 30 days",
+    amount: 30,
+    unit: "day",
+    interval: UserFeedAnalyticsInterval.Day,
+  },
+};
+
+const CATEGORIES: Array<{ key: UserFeedAnalyticsCategory; label: string; color: string }> = [
+  { key: UserFeedAnalyticsCategory.Sent, label: "Sent", color: "green.400" },
+  { key: UserFeedAnalyticsCategory.PendingDelivery, label: "Pending", color: "blue.400" },
+  { key: UserFeedAnalyticsCategory.FilteredOut, label: "Filtered Out", color: "gray.400" },
+  { key: UserFeedAnalyticsCategory.RateLimited, label: "Rate Limited", color: "orange.400" },
+  { key: UserFeedAnalyticsCategory.Failed, label: "Failed", color: "red.400" },
+];
+
+const ERROR_CODE_LABELS: Record<string, string> = {
+  "user-feeds/internal-error": "Internal error",
+  "user-feeds/no-channel-or-webhook": "Connection destination does not exist",
+  "user-feeds/third-party-internal": "Connection target service was experiencing internal errors",
+  "user-feeds/third-party-bad-request": "Invalid message format",
+  "user-feeds/third-party-forbidden": "Missing permissions to send to connection destination",
+  "user-feeds/third-party-not-found": "Connection destination does not exist",
+  "user-feeds/article-processing-error":
+    "Failed to parse article content with current configuration",
+};
+
+type CategoryCounts = Record<UserFeedAnalyticsCategory, number>;
+
+const createEmptyCounts = (): CategoryCounts => ({
+  [UserFeedAnalyticsCategory.Sent]: 0,
+  [UserFeedAnalyticsCategory.PendingDelivery]: 0,
+  [UserFeedAnalyticsCategory.FilteredOut]: 0,
+  [UserFeedAnalyticsCategory.RateLimited]: 0,
+  [UserFeedAnalyticsCategory.Failed]: 0,
+});
+
+const addCounts = (a: CategoryCounts, b: CategoryCounts): CategoryCounts =>
+  CATEGORIES.reduce(
+    (counts, { key }) => ({
+      ...counts,
+      [key]: a[key] + b[key],
+    }),
+    createEmptyCounts()
+  );
+
+const sumCounts = (counts: CategoryCounts) =>
+  CATEGORIES.reduce((total, { key }) => total + counts[key], 0);
+
+const formatLatency = (ms?: number | null) => {
+  if (ms === null || ms === undefined) {
+    return "-";
+  }
+
+  if (ms < 1000) {
+    return `${ms} ms`;
+  }
+
+  if (ms < 60 * 1000) {
+    return `${(ms / 1000).toFixed(1)} s`;
+  }
+
+  return `${(ms / 1000 / 60).toFixed(1)} min`;
+};
+
+export const UserFeedAnalytics = ({ feedId }: Props) => {
+  const [range, setRange] = useState(AnalyticsRange.Week);
+  const [mediumId, setMediumId] = useState("");
+  const { feed } = useUserFeed({ feedId });
+  const rangeOption = RANGE_OPTIONS[range];
+  const dates = useMemo(() => {
+    const end = dayjs.utc();
+
+    return {
+      startDate: end
+        .subtract(rangeOption.amount - 1, rangeOption.unit)
+        .startOf(rangeOption.unit)
+        .toISOString(),
+      endDate: end.toISOString(),
+    };
+  }, [range]);
+  const { data, status, error, fetchStatus } = useUserFeedAnalytics({
+    feedId,
+    data: {
+      ...dates,
+      interval: rangeOption.interval,
+    },
+  });
+
+  const analytics = data?.result;
+
+  const timeline = useMemo(() => {
+    const countsByTimestamp = new Map<string, CategoryCounts>();
+
+    for (let i = rangeOption.amount - 1; i >= 0; i -= 1) {
+      const timestamp = dayjs
+        .utc(dates.endDate)
+        .subtract(i, rangeOption.unit)
+        .startOf(rangeOption.unit)
+        .toISOString();
+      countsByTimestamp.set(timestamp, createEmptyCounts());
+    }
+
+    analytics?.buckets
+      .filter((bucket) => !mediumId || bucket.mediumId === mediumId)
+      .forEach((bucket) => {
+        const timestamp = dayjs.utc(bucket.timestamp).toISOString();
+        const counts = countsByTimestamp.get(timestamp) || createEmptyCounts();
+        countsByTimestamp.set(timestamp, addCounts(counts, bucket.counts));
+      });
+
+    return Array.from(countsByTimestamp.entries()).map(([timestamp, counts]) => ({
+      timestamp,
+      counts,
+    }));
+  }, [analytics, mediumId]);
+
+  const countsByMedium = useMemo(() => {
+    const map = new Map<string, CategoryCounts>();
+
+    analytics?.buckets.forEach((bucket) => {
+      const counts = map.get(bucket.mediumId) || createEmptyCounts();
+      map.set(bucket.mediumId, addCounts(counts, bucket.counts));
+    });
+
+    return map;
+  }, [analytics]);
+
+  const totals = timeline.reduce((sum, { counts }) => addCounts(sum, counts), createEmptyCounts());
+  const maxBucketTotal = Math.max(1, ...timeline.map(({ counts }) => sumCounts(counts)));
+  const medianLatency = mediumId
+    ? analytics?.latency.mediums.find((m) => m.mediumId === mediumId)?.medianMs
+    : analytics?.latency.medianMs;
+  const getConnectionName = (id: string) =>
+    feed?.connections.find((c) => c.id === id)?.name || "(deleted connection)";
+
+  return (
+    <Stack spacing={8} mb={16}>
+      <HStack justifyContent="space-between" flexWrap="wrap" gap={4}>
+        <Heading size="md">Delivery Analytics</Heading>
+        <HStack>
+          {fetchStatus === "fetching" && <Spinner size="sm" />}
+          <Select
+            aria-label="Connection"
+            value={mediumId}
+            onChange={(e) => setMediumId(e.target.value)}
+            width="auto"
+          >
+            <option value="">All connections</option>
+            {feed?.connections.map((connection) => (
+              <option key={connection.id} value={connection.id}>
+                {connection.name}
+              </option>
+            ))}
+          </Select>
+          <Select
+            aria-label="Time range"
+            value={range}
+            onChange={(e) => setRange(e.target.value as AnalyticsRange)}
+            width="auto"
+          >
+            {Object.values(AnalyticsRange).map((value) => (
+              <option key={value} value={value}>
+                {RANGE_OPTIONS[value].label}
+              </option>
+            ))}
+          </Select>
+        </HStack>
+      </HStack>
+      {status === "loading" && (
+        <Center>
+          <Spinner />
+        </Center>
+      )}
+      {error && <InlineErrorAlert title="Failed to get analytics" description={error.message} />}
+      {analytics && (
+        <Stack spacing={8}>
+          <SimpleGrid columns={[2, 3, 6]} spacing={4}>
+            {CATEGORIES.map(({ key, label, color }) => (
+              <Stack key={key} spacing={1} bg="gray.700" borderRadius="md" padding={4}>
+                <Text fontSize="sm" color="whiteAlpha.700">
+                  {label}
+                </Text>
+                <Text fontSize="2xl" fontWeight="bold" color={color}>
+                  {totals[key]}
+                </Text>
+              </Stack>
+            ))}
+            <Stack spacing={1} bg="gray.700" borderRadius="md" padding={4}>
+              <Text fontSize="sm" color="whiteAlpha.700">
+                Median Latency
+              </Text>
+              <Tooltip label="Median time between the feed being fetched and an article being sent">
+                <Text fontSize="2xl" fontWeight="bold">
+                  {formatLatency(medianLatency)}
+                </Text>
+              </Tooltip>
+            </Stack>
+          </SimpleGrid>
+          <Stack spacing={4}>
+            <HStack
+              alignItems="flex-end"
+              height="200px"
+              spacing={1}
+              borderBottom="solid 1px"
+              borderColor="gray.600"
+            >
+              {timeline.map(({ timestamp, counts }) => {
+                const total = sumCounts(counts);
+                const label = dayjs(timestamp).format(
+                  rangeOption.interval === UserFeedAnalyticsInterval.Hour
+                    ? "DD MMM, HH:mm"
+                    : "DD MMM YYYY"
+                );
+
+                return (
+                  <Tooltip
+                    key={timestamp}
+                    label={
+                      <Stack spacing={0}>
+                        <Text fontWeight="semibold">{label}</Text>
+                        {CATEGORIES.map(({ key, label: categoryLabel }) => (
+                          <Text key={key}>
+                            {categoryLabel}: {counts[key]}
+                          </Text>
+                        ))}
+                      </Stack>
+                    }
+                  >
+                    <Stack
+                      flex={1}
+                      height={`${(total / maxBucketTotal) * 100}%`}
+                      minHeight="2px"
+                      spacing={0}
+                      direction="column-reverse"
+                      borderTopRadius="sm"
+                      overflow="hidden"
+                      bg={total ? undefined : "gray.700"}
+                      aria-label={`${label}: ${total} deliveries`}
+                    >
+                      {CATEGORIES.filter(({ key }) => counts[key] > 0).map(({ key, color }) => (
+                        <Box key={key} bg={color} height={`${(counts[key] / total) * 100}%`} />
+                      ))}
+                    </Stack>
+                  </Tooltip>
+                );
+              })}
+            </HStack>
+            <HStack flexWrap="wrap" spacing={4}>
+              {CATEGORIES.map(({ key, label, color }) => (
+                <HStack key={key} spacing={2}>
+                  <Box width={3} height={3} borderRadius="sm" bg={color} />
+                  <Text fontSize="sm">{label}</Text>
+                </HStack>
+              ))}
+            </HStack>
+          </Stack>
+          <Stack spacing={4}>
+            <Heading size="sm">Connections</Heading>
+            {!countsByMedium.size && (
+              <Text color="whiteAlpha.700">
+                There have been no delivery attempts within this time range.
+              </Text>
+            )}
+            {!!countsByMedium.size && (
+              <Box border="solid 1px" borderColor="gray.600" borderRadius="md">
+                <TableContainer>
+                  <Table size="sm">
+                    <Thead>
+                      <Tr>
+                        <Th>Connection</Th>
+                        {CATEGORIES.map(({ key, label }) => (
+                          <Th key={key} isNumeric>
+                            {label}
+                          </Th>
+                        ))}
+                        <Th isNumeric>Median Latency</Th>
+                      </Tr>
+                    </Thead>
+                    <Tbody>
+                      {Array.from(countsByMedium.entries()).map(([id, counts]) => (
+                        <Tr key={id}>
+                          <Td>{getConnectionName(id)}</Td>
+                          {CATEGORIES.map(({ key }) => (
+                            <Td key={key} isNumeric>
+                              {counts[key]}
+                            </Td>
+                          ))}
+                          <Td isNumeric>
+                            {formatLatency(
+                              analytics.latency.mediums.find((m) => m.mediumId === id)?.medianMs
+                            )}
+                          </Td>
+                        </Tr>
+                      ))}
+                    </Tbody>
+                  </Table>
+                </TableContainer>
+              </Box>
+            )}
+          </Stack>
+          <Stack spacing={4}>
+            <Heading size="sm">Top Rejection Reasons</Heading>
+            {!analytics.topRejectionReasons.length && (
+              <Text color="whiteAlpha.700">There were no failed deliveries.</Text>
+            )}
+            {!!analytics.topRejectionReasons.length && (
+              <Box border="solid 1px" borderColor="gray.600" borderRadius="md">
+                <TableContainer>
+                  <Table size="sm">
+                    <Thead>
+                      <Tr>
+                        <Th>Reason</Th>
+                        <Th isNumeric>Count</Th>
+                      </Tr>
+                    </Thead>
+                    <Tbody>
+                      {analytics.topRejectionReasons.map((reason) => (
+                        <Tr key={`${reason.category}-${reason.errorCode}`}>
+                          <Td>
+                            {(reason.errorCode && ERROR_CODE_LABELS[reason.errorCode]) ||
+                              reason.errorCode ||
+                              "Unknown"}
+                          </Td>
+                          <Td isNumeric>{reason.count}</Td>
+                        </Tr>
+                      ))}
+                    </Tbody>
+                  </Table>
+                </TableContainer>
+              </Box>
+            )}
+          </Stack>
+        </Stack>
+      )}
+    </Stack>
+  );
+};
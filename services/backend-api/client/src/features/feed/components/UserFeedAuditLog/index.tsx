@@ -0,0 +1,202 @@
+import {
+  Badge,
+  Box,
+  Button,
+  Center,
+  Code,
+  Flex,
+  HStack,
+  Heading,
+  IconButton,
+  Link as ChakraLink,
+  Modal,
+  ModalBody,
+  ModalCloseButton,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  Skeleton,
+  Spinner,
+  Stack,
+  Table,
+  TableContainer,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+  chakra,
+} from "@chakra-ui/react";
+import dayjs from "dayjs";
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Search2Icon } from "@chakra-ui/icons";
+import { useUserFeed, useUserFeedAuditLogWithPagination } from "../../hooks";
+import { UserFeedAuditLogEntry } from "../../types";
+import { InlineErrorAlert } from "../../../../components";
+import { pages } from "../../../../constants";
+import { FeedConnectionType } from "../../../../types";
+import { DiscordUsername } from "../../../discordUser";
+
+interface Props {
+  feedId?: string;
+}
+
+export const UserFeedAuditLog = ({ feedId }: Props) => {
+  const [selectedEntry, setSelectedEntry] = useState<UserFeedAuditLogEntry | null>(null);
+  const { feed, error: feedError } = useUserFeed({ feedId });
+  const { data, status, error, skip, nextPage, prevPage, fetchStatus } =
+    useUserFeedAuditLogWithPagination({
+      feedId,
+    });
+
+  const onFirstPage = skip === 0;
+  const hasNoData = data?.result.entries.length === 0 && skip === 0;
+
+  return (
+    <Stack spacing={4} mb={16}>
+      <Modal isOpen={!!selectedEntry} onClose={() => setSelectedEntry(null)} size="6xl">
+        <ModalOverlay />
+        <ModalContent>
+          <ModalHeader>Changes</ModalHeader>
+          <ModalCloseButton />
+          <ModalBody>
+            <Stack spacing={6}>
+              {selectedEntry?.changes.map((change) => (
+                <Stack key={change.path}>
+                  <Code width="fit-content">{change.path}</Code>
+                  <Text fontWeight="semibold">Before</Text>
+                  <chakra.pre overflow="auto" padding={2} bg="gray.800">
+                    {JSON.stringify(change.before, null, 2) ?? "(empty)"}
+                  </chakra.pre>
+                  <Text fontWeight="semibold">After</Text>
+                  <chakra.pre overflow="auto" padding={2} bg="gray.800">
+                    {JSON.stringify(change.after, null, 2) ?? "(empty)"}
+                  </chakra.pre>
+                </Stack>
+              ))}
+            </Stack>
+          </ModalBody>
+          <ModalFooter>
+            <Button onClick={() => setSelectedEntry(null)}>Close</Button>
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
+      <Stack>
+        <Heading size="md">Audit Log</Heading>
+        <Text color="whiteAlpha.700">
+          Changes made to this feed and its connections by the owner and any co-managers.
+        </Text>
+      </Stack>
+      {status === "loading" && (
+        <Center>
+          <Spinner />
+        </Center>
+      )}
+      {error && <InlineErrorAlert title="Failed to get audit log" description={error.message} />}
+      {hasNoData && <Text color="whiteAlpha.700">No changes have been recorded yet.</Text>}
+      {data?.result && !hasNoData && (
+        <Stack>
+          <Box border="solid 1px" borderColor="gray.600" borderRadius="md">
+            <TableContainer>
+              <Table size="sm">
+                <Thead>
+                  <Tr>
+                    <Th>Date</Th>
+                    <Th>Changed By</Th>
+                    <Th>Target</Th>
+                    <Th>Changed Fields</Th>
+                  </Tr>
+                </Thead>
+                <Tbody>
+                  {data.result.entries.map((entry) => {
+                    const connection = entry.connectionId
+                      ? feed?.connections.find((c) => c.id === entry.connectionId)
+                      : undefined;
+
+                    return (
+                      <Tr key={entry.id}>
+                        <Td>
+                          <Skeleton isLoaded={fetchStatus === "idle"}>
+                            {dayjs(entry.createdAt).format("DD MMM YYYY, HH:mm:ss")}
+                          </Skeleton>
+                        </Td>
+                        <Td>
+                          <Skeleton isLoaded={fetchStatus === "idle"}>
+                            <HStack>
+                              <DiscordUsername userId={entry.actorDiscordUserId} />
+                              {entry.viaPersonalAccessToken && <Badge fontSize="xs">API</Badge>}
+                            </HStack>
+                          </Skeleton>
+                        </Td>
+                        <Td>
+                          <Skeleton isLoaded={!!(feed || feedError) && fetchStatus === "idle"}>
+                            {!entry.connectionId && <Text>Feed</Text>}
+                            {entry.connectionId && !connection && (
+                              <Text color="whiteAlpha.700" fontStyle="italic">
+                                (deleted connection)
+                              </Text>
+                            )}
+                            {entry.connectionId && connection && (
+                              <ChakraLink
+                                as={Link}
+                                fontWeight="semibold"
+                                to={pages.userFeedConnection({
+                                  feedId: feedId as string,
+                                  connectionType: connection.key as FeedConnectionType,
+                                  connectionId: connection.id,
+                                })}
+                                color="blue.300"
+                              >
+                                {connection.name}
+                              </ChakraLink>
+                            )}
+                          </Skeleton>
+                        </Td>
+                        <Td>
+                          <Skeleton isLoaded={fetchStatus === "idle"}>
+                            {entry.changes.map((c) => c.path).join(", ")}
+                            <IconButton
+                              aria-label="View changes"
+                              ml={1}
+                              icon={<Search2Icon />}
+                              size="xs"
+                              variant="link"
+                              onClick={() => setSelectedEntry(entry)}
+                            />
+                          </Skeleton>
+                        </Td>
+                      </Tr>
+                    );
+                  })}
+                </Tbody>
+              </Table>
+            </TableContainer>
+          </Box>
+          <Flex justifyContent="flex-end">
+            <HStack>
+              <Button
+                width="min-content"
+                size="sm"
+                onClick={prevPage}
+                isDisabled={onFirstPage || fetchStatus === "fetching"}
+              >
+                Previous
+              </Button>
+              <Button
+                width="min-content"
+                size="sm"
+                onClick={nextPage}
+                isDisabled={fetchStatus === "fetching" || data?.result.entries.length === 0}
+              >
+                Next
+              </Button>
+            </HStack>
+          </Flex>
+        </Stack>
+      )}
+    </Stack>
+  );
+};
@@ -17,6 +17,7 @@ import {
   TableContainer,
   Tbody,
   Td,
+  Text,
   Th,
   Thead,
   Tr,
@@ -70,6 +71,13 @@ const createStatusLabel = (
           {status}
         </Badge>
       );
+    case UserFeedRequestStatus.THROTTLED_BY_HOST:
+      return (
+        <Badge fontSize="sm" colorScheme="orange">
+          {status}
+          {response.statusCode ? ` (${response.statusCode})` : ""}
+        </Badge>
+      );
     default:
       return "Unknown";
   }
@@ -86,6 +94,7 @@ export const RequestHistory = ({ feedId }: Props) => {
 
   const onFirstPage = skip === 0;
   const nextRetryTimestamp = data?.result.nextRetryTimestamp;
+  const conditionalRequestSavings = data?.result.conditionalRequestSavings;
 
   const handleManualAttempt = async () => {
     if (!feedId) {
@@ -120,6 +129,14 @@ export const RequestHistory = ({ feedId }: Props) => {
   return (
     <Stack spacing={4} mb={8}>
       <Heading size="md">{t("features.userFeeds.components.requestsTable.title")}</Heading>
+      {onFirstPage && !!conditionalRequestSavings?.notModifiedCount && (
+        <Text color="whiteAlpha.700">
+          {t("features.userFeeds.components.requestsTable.conditionalRequestSavings", {
+            count: conditionalRequestSavings.notModifiedCount,
+            kilobytesSaved: Math.round(conditionalRequestSavings.bytesSaved / 1024),
+          })}
+        </Text>
+      )}
       {onFirstPage && typeof nextRetryTimestamp === "number" && (
         <Alert status="warning" borderRadius="md">
           <AlertIcon />
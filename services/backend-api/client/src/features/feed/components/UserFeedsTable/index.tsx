@@ -66,6 +66,7 @@ import { UserFeedStatusFilterContext } from "../../../../contexts";
 
 interface Props {
   onSelectedFeedId?: (feedId: string, openNewTab?: boolean) => void;
+  workspaceId?: string;
 }
 
 const DEFAULT_MAX_PER_PAGE = 20;
@@ -99,7 +100,7 @@ const STATUS_FILTERS = [
   },
 ];
 
-export const UserFeedsTable: React.FC<Props> = ({ onSelectedFeedId }) => {
+export const UserFeedsTable: React.FC<Props> = ({ onSelectedFeedId, workspaceId }) => {
   const { t } = useTranslation();
   const { ref: scrollRef, inView } = useInView();
   const [searchParams, setSearchParams] = useSearchParams();
@@ -121,6 +122,7 @@ export const UserFeedsTable: React.FC<Props> = ({ onSelectedFeedId }) => {
   } = useUserFeedsInfinite({
     limit: maxPerPage,
     sort: convertSortStateToSortKey(sorting),
+    workspaceId,
     filters: {
       computedStatuses: statusFilters,
     },
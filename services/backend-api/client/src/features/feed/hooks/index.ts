@@ -37,4 +37,6 @@ export * from "./useCreateUserFeedManagementInviteResend";
 export * from "./useCreateUserFeedClone";
 export * from "./useUpdateUserFeedManagementInvite";
 export * from "./useUserFeedDeliveryLogsWithPagination";
+export * from "./useUserFeedAuditLogWithPagination";
 export * from "./useCreateUserFeedManualRequest";
+export * from "./useUserFeedAnalytics";
@@ -15,6 +15,10 @@ export const useCreateUserFeed = () => {
         queryKey: ["user-feeds"],
         exact: false,
       });
+      queryClient.invalidateQueries({
+        queryKey: ["workspace"],
+        exact: false,
+      });
     },
   });
 
@@ -0,0 +1,50 @@
+import { useQuery } from "@tanstack/react-query";
+import ApiAdapterError from "../../../utils/ApiAdapterError";
+import {
+  GetUserFeedAnalyticsInput,
+  GetUserFeedAnalyticsOutput,
+  getUserFeedAnalytics,
+} from "../api";
+
+interface Props {
+  feedId?: string;
+  data: GetUserFeedAnalyticsInput["data"];
+}
+
+export const useUserFeedAnalytics = ({ feedId, data: inputData }: Props) => {
+  const queryKey = [
+    "user-feed-analytics",
+    {
+      feedId,
+      data: inputData,
+    },
+  ];
+
+  const { data, status, error, fetchStatus } = useQuery<
+    GetUserFeedAnalyticsOutput,
+    ApiAdapterError | Error
+  >(
+    queryKey,
+    async () => {
+      if (!feedId) {
+        throw new Error("Feed ID is required to fetch feed analytics");
+      }
+
+      return getUserFeedAnalytics({
+        feedId,
+        data: inputData,
+      });
+    },
+    {
+      enabled: !!feedId,
+      keepPreviousData: true,
+    }
+  );
+
+  return {
+    data,
+    status,
+    error,
+    fetchStatus,
+  };
+};
@@ -0,0 +1,46 @@
+import { useQuery } from "@tanstack/react-query";
+import ApiAdapterError from "../../../utils/ApiAdapterError";
+import { GetUserFeedAuditLogInput, GetUserFeedAuditLogOutput, getUserFeedAuditLog } from "../api";
+
+interface Props {
+  feedId?: string;
+  data: GetUserFeedAuditLogInput["data"];
+}
+
+export const useUserFeedAuditLog = ({ feedId, data: inputData }: Props) => {
+  const queryKey = [
+    "user-feed-audit-log",
+    {
+      feedId,
+      data: inputData,
+    },
+  ];
+
+  const { data, status, error, fetchStatus } = useQuery<
+    GetUserFeedAuditLogOutput,
+    ApiAdapterError | Error
+  >(
+    queryKey,
+    async () => {
+      if (!feedId) {
+        throw new Error("Feed ID is required to fetch feed audit log");
+      }
+
+      return getUserFeedAuditLog({
+        feedId,
+        data: inputData,
+      });
+    },
+    {
+      enabled: !!feedId,
+      keepPreviousData: true,
+    }
+  );
+
+  return {
+    data,
+    status,
+    error,
+    fetchStatus,
+  };
+};
@@ -0,0 +1,39 @@
+import { useState } from "react";
+import { useUserFeedAuditLog } from "./useUserFeedAuditLog";
+
+interface Props {
+  feedId?: string;
+  limit?: number;
+}
+
+export const useUserFeedAuditLogWithPagination = ({ feedId, limit }: Props) => {
+  const [skip, setSkip] = useState(0);
+  const useLimit = limit || 10;
+
+  const { error, data, status, fetchStatus } = useUserFeedAuditLog({
+    feedId,
+    data: {
+      skip,
+      limit: useLimit,
+    },
+  });
+
+  const nextPage = () => {
+    setSkip(skip + useLimit);
+  };
+
+  const prevPage = () => {
+    setSkip(skip - useLimit);
+  };
+
+  return {
+    data,
+    error,
+    status,
+    fetchStatus,
+    nextPage,
+    prevPage,
+    skip,
+    limit: useLimit,
+  };
+};
@@ -2,7 +2,14 @@ import { array, bool, InferType, number, object, string } from "yup";
 import { ArticleInjectionSchema, FeedConnectionSchema } from "../../../types";
 import { UserFeedDisabledCode } from "./UserFeedDisabledCode";
 import { UserFeedHealthStatus } from "./UserFeedHealthStatus";
-import { UserFeedManagerInviteType, UserFeedManagerStatus } from "../../../constants";
+import { UserFeedActivityLevel } from "./UserFeedActivityLevel";
+import { UserFeedCredentialProfileType } from "./UserFeedCredentialProfileType";
+import { AlertSettingsSchema } from "../../discordUser/types/AlertSettings";
+import {
+  UserFeedManagerInviteType,
+  UserFeedManagerRole,
+  UserFeedManagerStatus,
+} from "../../../constants";
 
 export const UserFeedSchema = object({
   id: string().required(),
@@ -11,6 +18,7 @@ export const UserFeedSchema = object({
   url: string().required(),
   sharedAccessDetails: object({
     inviteId: string().required(),
+    role: string().oneOf(Object.values(UserFeedManagerRole)).required(),
   }).optional(),
   passingComparisons: array(string().required()).optional().default(undefined),
   blockingComparisons: array(string().required()).optional().default(undefined),
@@ -30,6 +38,8 @@ export const UserFeedSchema = object({
   connections: array(FeedConnectionSchema).required(),
   refreshRateSeconds: number().required(),
   userRefreshRateSeconds: number(),
+  effectiveRefreshRateSeconds: number(),
+  activityLevel: string().oneOf(Object.values(UserFeedActivityLevel)).optional(),
   formatOptions: object({
     dateFormat: string().optional().default(undefined),
     dateTimezone: string().optional().default(undefined),
@@ -42,12 +52,21 @@ export const UserFeedSchema = object({
     oldArticleDateDiffMsThreshold: number().optional().default(undefined),
   }).optional(),
   isLegacyFeed: bool(),
+  alertSettings: AlertSettingsSchema.optional().default(undefined),
+  credentialProfile: object({
+    type: string().oneOf(Object.values(UserFeedCredentialProfileType)).required(),
+    username: string().nullable().optional(),
+    headerName: string().nullable().optional(),
+  })
+    .optional()
+    .default(undefined),
   shareManageOptions: object({
     invites: array(
       object({
         id: string().required(),
         discordUserId: string().required(),
         type: string().oneOf(Object.values(UserFeedManagerInviteType)).optional(),
+        role: string().oneOf(Object.values(UserFeedManagerRole)).optional().nullable(),
         status: string().oneOf(Object.values(UserFeedManagerStatus)).optional().nullable(),
         createdAt: string()
           .transform((value) => (value ? new Date(value).toISOString() : value))
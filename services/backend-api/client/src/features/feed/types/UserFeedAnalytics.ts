@@ -0,0 +1,49 @@
+import { array, InferType, number, object, string } from "yup";
+
+export enum UserFeedAnalyticsCategory {
+  Sent = "SENT",
+  PendingDelivery = "PENDING_DELIVERY",
+  FilteredOut = "FILTERED_OUT",
+  RateLimited = "RATE_LIMITED",
+  Failed = "FAILED",
+}
+
+export enum UserFeedAnalyticsInterval {
+  Hour = "hour",
+  Day = "day",
+}
+
+export const UserFeedAnalyticsSchema = object({
+  interval: string().oneOf(Object.values(UserFeedAnalyticsInterval)).required(),
+  buckets: array(
+    object({
+      timestamp: string().required(),
+      mediumId: string().required(),
+      counts: object({
+        [UserFeedAnalyticsCategory.Sent]: number().required(),
+        [UserFeedAnalyticsCategory.PendingDelivery]: number().required(),
+        [UserFeedAnalyticsCategory.FilteredOut]: number().required(),
+        [UserFeedAnalyticsCategory.RateLimited]: number().required(),
+        [UserFeedAnalyticsCategory.Failed]: number().required(),
+      }).required(),
+    }).required()
+  ).required(),
+  latency: object({
+    medianMs: number().nullable(),
+    mediums: array(
+      object({
+        mediumId: string().required(),
+        medianMs: number().nullable(),
+      }).required()
+    ).required(),
+  }).required(),
+  topRejectionReasons: array(
+    object({
+      category: string().oneOf(Object.values(UserFeedAnalyticsCategory)).required(),
+      errorCode: string().nullable(),
+      count: number().required(),
+    }).required()
+  ).required(),
+});
+
+export type UserFeedAnalytics = InferType<typeof UserFeedAnalyticsSchema>;
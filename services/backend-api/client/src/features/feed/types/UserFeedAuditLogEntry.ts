@@ -0,0 +1,19 @@
+import { array, boolean, InferType, mixed, object, string } from "yup";
+
+export const UserFeedAuditLogEntrySchema = object({
+  id: string().required(),
+  connectionId: string().nullable(),
+  actorDiscordUserId: string().required(),
+  viaPersonalAccessToken: boolean().required(),
+  route: string().required(),
+  changes: array(
+    object({
+      path: string().required(),
+      before: mixed().optional(),
+      after: mixed().optional(),
+    }).required()
+  ).required(),
+  createdAt: string().required(),
+});
+
+export type UserFeedAuditLogEntry = InferType<typeof UserFeedAuditLogEntrySchema>;
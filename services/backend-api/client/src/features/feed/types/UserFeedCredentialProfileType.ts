@@ -0,0 +1,6 @@
+export enum UserFeedCredentialProfileType {
+  HttpBasic = "http-basic",
+  BearerToken = "bearer-token",
+  Cookie = "cookie",
+  CustomHeader = "custom-header",
+}
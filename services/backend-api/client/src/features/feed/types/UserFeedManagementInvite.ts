@@ -1,5 +1,5 @@
 import { InferType, object, string } from "yup";
-import { UserFeedManagerInviteType } from "../../../constants";
+import { UserFeedManagerInviteType, UserFeedManagerRole } from "../../../constants";
 
 export const UserFeedManagementInviteSchema = object({
   id: string().required(),
@@ -10,6 +10,7 @@ export const UserFeedManagementInviteSchema = object({
     ownerDiscordUserId: string().required(),
   }).required(),
   type: string().oneOf(Object.values(UserFeedManagerInviteType)).optional().nullable(),
+  role: string().oneOf(Object.values(UserFeedManagerRole)).optional().nullable(),
 });
 
 export type UserFeedManagementInvite = InferType<typeof UserFeedManagementInviteSchema>;
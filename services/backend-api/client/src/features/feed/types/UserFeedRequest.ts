@@ -8,6 +8,7 @@ export enum UserFeedRequestStatus {
   FETCH_TIMEOUT = "FETCH_TIMEOUT",
   PARSE_ERROR = "PARSE_ERROR",
   TIMED_OUT = "TIMED_OUT",
+  THROTTLED_BY_HOST = "THROTTLED_BY_HOST",
 }
 
 export const UserFeedRequestSchema = object({
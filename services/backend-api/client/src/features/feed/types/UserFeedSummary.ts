@@ -15,6 +15,7 @@ export const UserFeedSummarySchema = object({
   computedStatus: string().oneOf(Object.values(UserFeedComputedStatus)).required(),
   isLegacyFeed: bool().required(),
   ownedByUser: bool().required(),
+  workspaceId: string().optional(),
 });
 
 export type UserFeedSummary = InferType<typeof UserFeedSummarySchema>;
@@ -4,9 +4,13 @@ export * from "./FeedCloneProperties";
 export * from "./UserFeed";
 export * from "./UserFeedDisabledCode";
 export * from "./UserFeedHealthStatus";
+export * from "./UserFeedActivityLevel";
 export * from "./UserFeedRequest";
 export * from "./UserFeedArticleRequestStatus";
 export * from "./UserFeedSummary";
 export * from "./UserFeedComputedStatus";
 export * from "./UserFeedManagementInvite";
 export * from "./UserFeedDeliveryLog";
+export * from "./UserFeedAuditLogEntry";
+export * from "./UserFeedAnalytics";
+export * from "./UserFeedCredentialProfileType";
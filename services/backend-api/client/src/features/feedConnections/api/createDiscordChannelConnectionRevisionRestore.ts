@@ -0,0 +1,20 @@
+import fetchRest from "../../../utils/fetchRest";
+
+export interface CreateDiscordChannelConnectionRevisionRestoreInput {
+  feedId: string;
+  connectionId: string;
+  revisionId: string;
+}
+
+export const createDiscordChannelConnectionRevisionRestore = async (
+  options: CreateDiscordChannelConnectionRevisionRestoreInput
+): Promise<void> => {
+  await fetchRest(
+    `/api/v1/user-feeds/${options.feedId}/connections/discord-channels/${options.connectionId}/revisions/${options.revisionId}/restore`,
+    {
+      requestOptions: {
+        method: "POST",
+      },
+    }
+  );
+};
@@ -0,0 +1,59 @@
+import { array, InferType, object, string } from "yup";
+import fetchRest from "../../../utils/fetchRest";
+import { CreateDiscordChannelConnectionPreviewInput } from "./createDiscordChannelConnectionPreview";
+
+export interface GetDiscordChannelConnectionRevisionsInput {
+  feedId: string;
+  connectionId: string;
+}
+
+const DiscordChannelConnectionRevisionSchema = object({
+  id: string().required(),
+  createdAt: string().required(),
+  replacedByDiscordUserId: string().nullable(),
+  template: object().required(),
+});
+
+const GetDiscordChannelConnectionRevisionsOutputSchema = object({
+  results: array(DiscordChannelConnectionRevisionSchema.required()).required(),
+}).required();
+
+type PreviewData = CreateDiscordChannelConnectionPreviewInput["data"];
+
+export type DiscordChannelConnectionRevision = Omit<
+  InferType<typeof DiscordChannelConnectionRevisionSchema>,
+  "template"
+> & {
+  template: Pick<
+    PreviewData,
+    | "content"
+    | "embeds"
+    | "componentRows"
+    | "splitOptions"
+    | "mentions"
+    | "customPlaceholders"
+    | "placeholderLimits"
+    | "enablePlaceholderFallback"
+    | "forumThreadTitle"
+    | "forumThreadTags"
+  > & {
+    formatter?: PreviewData["connectionFormatOptions"];
+  };
+};
+
+export type GetDiscordChannelConnectionRevisionsOutput = {
+  results: DiscordChannelConnectionRevision[];
+};
+
+export const getDiscordChannelConnectionRevisions = async (
+  options: GetDiscordChannelConnectionRevisionsInput
+): Promise<GetDiscordChannelConnectionRevisionsOutput> => {
+  const res = await fetchRest(
+    `/api/v1/user-feeds/${options.feedId}/connections/discord-channels/${options.connectionId}/revisions`,
+    {
+      validateSchema: GetDiscordChannelConnectionRevisionsOutputSchema,
+    }
+  );
+
+  return res as GetDiscordChannelConnectionRevisionsOutput;
+};
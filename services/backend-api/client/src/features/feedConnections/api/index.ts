@@ -6,3 +6,5 @@ export * from "./createDiscordChannelConnectionTestArticle";
 export * from "./createDiscordChannelConnectionPreview";
 export * from "./createDiscordChannelConnectionClone";
 export * from "./createDiscordChannelConnectionCopySettings";
+export * from "./getDiscordChannelConnectionRevisions";
+export * from "./createDiscordChannelConnectionRevisionRestore";
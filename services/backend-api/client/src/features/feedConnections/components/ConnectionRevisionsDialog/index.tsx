@@ -0,0 +1,172 @@
+import {
+  Box,
+  Button,
+  Center,
+  HStack,
+  Modal,
+  ModalBody,
+  ModalCloseButton,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  Spinner,
+  Stack,
+  Text,
+  useDisclosure,
+} from "@chakra-ui/react";
+import dayjs from "dayjs";
+import { cloneElement, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import {
+  useCreateDiscordChannelConnectionRevisionRestore,
+  useDiscordChannelConnectionRevisions,
+} from "../../hooks";
+import { DiscordChannelConnectionPreview } from "../DiscordMessageForm/DiscordChannelConnectionPreview";
+import { InlineErrorAlert } from "../../../../components";
+import { DiscordUsername } from "../../../discordUser";
+import { notifyError } from "../../../../utils/notifyError";
+import { notifySuccess } from "../../../../utils/notifySuccess";
+
+interface Props {
+  feedId: string;
+  connectionId: string;
+  articleIdToPreview?: string;
+  trigger: React.ReactElement;
+  onRestored?: () => void;
+}
+
+export const ConnectionRevisionsDialog = ({
+  feedId,
+  connectionId,
+  articleIdToPreview,
+  trigger,
+  onRestored,
+}: Props) => {
+  const { isOpen, onOpen, onClose } = useDisclosure();
+  const [selectedRevisionId, setSelectedRevisionId] = useState<string | undefined>();
+  const { data, status, error } = useDiscordChannelConnectionRevisions({
+    feedId,
+    connectionId,
+    disabled: !isOpen,
+  });
+  const { mutateAsync, status: restoreStatus } = useCreateDiscordChannelConnectionRevisionRestore();
+  const { t } = useTranslation();
+
+  const revisions = data?.results || [];
+  const selectedRevision = revisions.find((r) => r.id === selectedRevisionId);
+
+  useEffect(() => {
+    if (isOpen && !selectedRevisionId && revisions.length) {
+      setSelectedRevisionId(revisions[0].id);
+    }
+  }, [isOpen, revisions.length]);
+
+  const onClickRestore = async () => {
+    if (!selectedRevisionId) {
+      return;
+    }
+
+    try {
+      await mutateAsync({ feedId, connectionId, revisionId: selectedRevisionId });
+      notifySuccess(t("common.success.savedChanges"));
+      setSelectedRevisionId(undefined);
+      onClose();
+      onRestored?.();
+    } catch (err) {
+      notifyError(t("common.errors.somethingWentWrong"), err as Error);
+    }
+  };
+
+  return (
+    <>
+      {cloneElement(trigger, { onClick: onOpen })}
+      <Modal isOpen={isOpen} onClose={onClose} size="6xl">
+        <ModalOverlay />
+        <ModalContent>
+          <ModalHeader>Message History</ModalHeader>
+          <ModalCloseButton />
+          <ModalBody>
+            <Stack spacing={4}>
+              <Text color="whiteAlpha.700">
+                Previous versions of this connection&apos;s message are saved every time it is
+                changed. Select a version to preview it with the currently-selected article, and
+                restore it if needed.
+              </Text>
+              {status === "loading" && (
+                <Center>
+                  <Spinner />
+                </Center>
+              )}
+              {error && (
+                <InlineErrorAlert
+                  title="Failed to get message history"
+                  description={error.message}
+                />
+              )}
+              {data && !revisions.length && (
+                <Text color="whiteAlpha.700">No previous versions have been saved yet.</Text>
+              )}
+              {!!revisions.length && (
+                <HStack alignItems="flex-start" spacing={4}>
+                  <Stack minWidth="250px" maxHeight="lg" overflow="auto">
+                    {revisions.map((revision) => (
+                      <Button
+                        key={revision.id}
+                        variant={revision.id === selectedRevisionId ? "solid" : "ghost"}
+                        justifyContent="flex-start"
+                        height="auto"
+                        py={2}
+                        onClick={() => setSelectedRevisionId(revision.id)}
+                      >
+                        <Stack alignItems="flex-start" spacing={1}>
+                          <Text>{dayjs(revision.createdAt).format("DD MMM YYYY, HH:mm:ss")}</Text>
+                          {revision.replacedByDiscordUserId && (
+                            <HStack fontSize="sm" fontWeight="normal" color="whiteAlpha.700">
+                              <Text>Replaced by</Text>
+                              <DiscordUsername userId={revision.replacedByDiscordUserId} />
+                            </HStack>
+                          )}
+                        </Stack>
+                      </Button>
+                    ))}
+                  </Stack>
+                  <Box flex={1}>
+                    {selectedRevision && (
+                      <DiscordChannelConnectionPreview
+                        feedId={feedId}
+                        connectionId={connectionId}
+                        data={{
+                          article: {
+                            id: articleIdToPreview as string,
+                          },
+                          ...selectedRevision.template,
+                          connectionFormatOptions: selectedRevision.template.formatter,
+                        }}
+                      />
+                    )}
+                  </Box>
+                </HStack>
+              )}
+            </Stack>
+          </ModalBody>
+          <ModalFooter>
+            <HStack>
+              <Button variant="ghost" onClick={onClose}>
+                {t("common.buttons.cancel")}
+              </Button>
+              <Button
+                colorScheme="blue"
+                onClick={onClickRestore}
+                isDisabled={!selectedRevision}
+                isLoading={restoreStatus === "loading"}
+              >
+                Restore
+              </Button>
+            </HStack>
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
+    </>
+  );
+};
@@ -17,11 +17,40 @@ import {
 } from "../../types";
 // import { ArticlePropertySelect } from "./ArticlePropertySelect";
 import { ConditionInput } from "./ConditionInput";
+import { ConditionListInput } from "./ConditionListInput";
 import { GetUserFeedArticlesInput } from "../../../feed/api";
 import { ArticlePropertySelect } from "../ArticlePropertySelect";
 import { getNestedField } from "../../../../utils/getNestedField";
 
-const { Equals, Contains, Matches } = RelationalExpressionOperator;
+const {
+  Equals,
+  Contains,
+  Matches,
+  GreaterThan,
+  GreaterThanOrEqual,
+  LessThan,
+  LessThanOrEqual,
+  InList,
+} = RelationalExpressionOperator;
+
+const ORDERED_OPERATORS = [GreaterThan, GreaterThanOrEqual, LessThan, LessThanOrEqual];
+
+const getRightOperandTypeForOperator = (
+  op: RelationalExpressionOperator,
+  currentType: RelationalExpressionRightOperandType
+) => {
+  if (op === InList) {
+    return RelationalExpressionRightOperandType.List;
+  }
+
+  if (ORDERED_OPERATORS.includes(op)) {
+    return currentType === RelationalExpressionRightOperandType.Date
+      ? RelationalExpressionRightOperandType.Date
+      : RelationalExpressionRightOperandType.Number;
+  }
+
+  return RelationalExpressionRightOperandType.String;
+};
 
 interface Props {
   onDelete: () => void;
@@ -37,6 +66,8 @@ export const Condition = ({ onDelete, prefix = "", deletable, data, articleForma
   const {
     control,
     watch,
+    setValue,
+    getValues,
     formState: { errors },
   } = useFormContext();
 
@@ -44,6 +75,28 @@ export const Condition = ({ onDelete, prefix = "", deletable, data, articleForma
   const leftOperandType = watch(`${prefix}left.type`) as
     | RelationalExpressionLeftOperandType
     | RelationalExpressionRightOperandType;
+  const rightOperandType = watch(`${prefix}right.type`) as RelationalExpressionRightOperandType;
+  const isDateOperand = rightOperandType === RelationalExpressionRightOperandType.Date;
+
+  const onOperatorChange = (op: RelationalExpressionOperator) => {
+    const newRightOperandType = getRightOperandTypeForOperator(op, rightOperandType);
+
+    if (newRightOperandType === rightOperandType) {
+      return;
+    }
+
+    const currentRightValue = getValues(`${prefix}right.value`) as string | string[];
+    let newRightValue = currentRightValue;
+
+    if (newRightOperandType === RelationalExpressionRightOperandType.List) {
+      newRightValue = Array.isArray(currentRightValue) ? currentRightValue : [currentRightValue];
+    } else if (Array.isArray(currentRightValue)) {
+      newRightValue = currentRightValue[0] || "";
+    }
+
+    setValue(`${prefix}right.type`, newRightOperandType, { shouldDirty: true });
+    setValue(`${prefix}right.value`, newRightValue, { shouldDirty: true });
+  };
 
   let leftOperandElement: React.ReactElement = (
     <ConditionInput
@@ -119,7 +172,15 @@ export const Condition = ({ onDelete, prefix = "", deletable, data, articleForma
             control={control}
             render={({ field }) => {
               return (
-                <Select flexShrink={1} minWidth={150} {...field}>
+                <Select
+                  flexShrink={1}
+                  minWidth={150}
+                  {...field}
+                  onChange={(e) => {
+                    field.onChange(e);
+                    onOperatorChange(e.target.value as RelationalExpressionOperator);
+                  }}
+                >
                   <option value={Equals}>
                     {t("features.feedConnections.components.filtersForm.relationalOpEquals")}
                   </option>
@@ -129,15 +190,79 @@ export const Condition = ({ onDelete, prefix = "", deletable, data, articleForma
                   <option value={Matches}>
                     {t("features.feedConnections.components.filtersForm.relationalOpMatches")}
                   </option>
+                  <option value={GreaterThan}>
+                    {isDateOperand
+                      ? t("features.feedConnections.components.filtersForm.relationalOpDateAfter")
+                      : t(
+                          "features.feedConnections.components.filtersForm.relationalOpGreaterThan"
+                        )}
+                  </option>
+                  <option value={GreaterThanOrEqual}>
+                    {isDateOperand
+                      ? t(
+                          "features.feedConnections.components.filtersForm.relationalOpDateAfterOrOn"
+                        )
+                      : t(
+                          "features.feedConnections.components.filtersForm.relationalOpGreaterThanOrEqual"
+                        )}
+                  </option>
+                  <option value={LessThan}>
+                    {isDateOperand
+                      ? t("features.feedConnections.components.filtersForm.relationalOpDateBefore")
+                      : t("features.feedConnections.components.filtersForm.relationalOpLessThan")}
+                  </option>
+                  <option value={LessThanOrEqual}>
+                    {isDateOperand
+                      ? t(
+                          "features.feedConnections.components.filtersForm.relationalOpDateBeforeOrOn"
+                        )
+                      : t(
+                          "features.feedConnections.components.filtersForm.relationalOpLessThanOrEqual"
+                        )}
+                  </option>
+                  <option value={InList}>
+                    {t("features.feedConnections.components.filtersForm.relationalOpInList")}
+                  </option>
                 </Select>
               );
             }}
           />
         </FormControl>
-        <ConditionInput
-          controllerName={`${prefix}right.value`}
-          placeholder={t("features.feedConnections.components.filtersForm.placeholderArticleValue")}
-        />
+        {(rightOperandType === RelationalExpressionRightOperandType.Number ||
+          rightOperandType === RelationalExpressionRightOperandType.Date) && (
+          <FormControl width="min-content">
+            <Controller
+              name={`${prefix}right.type`}
+              control={control}
+              render={({ field }) => (
+                <Select flexShrink={1} minWidth={120} {...field}>
+                  <option value={RelationalExpressionRightOperandType.Number}>
+                    {t("features.feedConnections.components.filtersForm.rightOperandTypeNumber")}
+                  </option>
+                  <option value={RelationalExpressionRightOperandType.Date}>
+                    {t("features.feedConnections.components.filtersForm.rightOperandTypeDate")}
+                  </option>
+                </Select>
+              )}
+            />
+          </FormControl>
+        )}
+        {rightOperandType === RelationalExpressionRightOperandType.List && (
+          <ConditionListInput
+            controllerName={`${prefix}right.value`}
+            placeholder={t("features.feedConnections.components.filtersForm.placeholderListValues")}
+          />
+        )}
+        {rightOperandType !== RelationalExpressionRightOperandType.List && (
+          <ConditionInput
+            controllerName={`${prefix}right.value`}
+            placeholder={
+              isDateOperand
+                ? t("features.feedConnections.components.filtersForm.placeholderDateValue")
+                : t("features.feedConnections.components.filtersForm.placeholderArticleValue")
+            }
+          />
+        )}
       </HStack>
       {deletable && (
         <Flex>
@@ -0,0 +1,53 @@
+import { FormControl, FormErrorMessage, Textarea } from "@chakra-ui/react";
+import { Controller, FieldError, useFormContext } from "react-hook-form";
+import { useTranslation } from "react-i18next";
+import { getNestedField } from "../../../../utils/getNestedField";
+
+interface Props {
+  controllerName: string;
+  placeholder?: string;
+}
+
+export const ConditionListInput = ({ controllerName, placeholder }: Props) => {
+  const { t } = useTranslation();
+  const {
+    control,
+    formState: { errors },
+  } = useFormContext();
+  // Using bracket notation on the errors object will not work since the prefix is a string
+  const error = getNestedField<FieldError>(errors, controllerName);
+
+  return (
+    <FormControl isInvalid={!!error}>
+      <Controller
+        name={controllerName}
+        control={control}
+        rules={{
+          validate: (value: string[] | undefined) =>
+            !!value?.some((item) => !!item.trim()) || "required",
+        }}
+        render={({ field: { value, onChange, ...field } }) => (
+          <>
+            <Textarea
+              flexGrow={1}
+              placeholder={placeholder}
+              minWidth={150}
+              rows={3}
+              _placeholder={{
+                color: "gray.400",
+              }}
+              {...field}
+              value={Array.isArray(value) ? value.join("\n") : value || ""}
+              onChange={(e) => onChange(e.target.value.split("\n"))}
+            />
+            {error && (
+              <FormErrorMessage>
+                {t("features.feedConnections.components.filtersForm.valueIsRequired")}
+              </FormErrorMessage>
+            )}
+          </>
+        )}
+      />
+    </FormControl>
+  );
+};
@@ -36,7 +36,7 @@ import {
 import { useTranslation } from "react-i18next";
 import { FiMousePointer } from "react-icons/fi";
 import { useState } from "react";
-import { FaExpandAlt } from "react-icons/fa";
+import { FaExpandAlt, FaHistory } from "react-icons/fa";
 import { DiscordMessageFormData } from "../../../../types/discord";
 import { notifyError } from "../../../../utils/notifyError";
 import { GetUserFeedArticlesInput } from "../../../feed/api";
@@ -48,6 +48,7 @@ import { FeedConnectionType } from "../../../../types";
 import { DiscordMessageForm } from "../DiscordMessageForm";
 import { ArticleSelectDialog } from "../../../feed/components";
 import getChakraColor from "../../../../utils/getChakraColor";
+import { ConnectionRevisionsDialog } from "../ConnectionRevisionsDialog";
 
 interface Props {
   feedId: string;
@@ -80,6 +81,7 @@ export const MessageTabSection = ({
   const [selectedArticleId, setSelectedArticleId] = useState<string | undefined>();
   const [placeholderTableSearch, setPlaceholderTableSearch] = useState<string>("");
   const [hideEmptyPlaceholders, setHideEmptyPlaceholders] = useState<boolean>(false);
+  const [messageFormKey, setMessageFormKey] = useState(0);
   const {
     data: userFeedArticles,
     refetch: refetchUserFeedArticle,
@@ -343,15 +345,29 @@ export const MessageTabSection = ({
           </Card>
         )}
       </Stack>
-      <DiscordMessageForm
-        onClickSave={onMessageUpdated}
-        defaultValues={defaultMessageValues}
-        connection={connection}
-        feedId={feedId}
-        articleIdToPreview={firstArticle?.id}
-        include={include}
-        guildId={guildId}
-      />
+      <Stack spacing={4}>
+        {connection.type === FeedConnectionType.DiscordChannel && (
+          <HStack justifyContent="flex-end">
+            <ConnectionRevisionsDialog
+              feedId={feedId}
+              connectionId={connection.id}
+              articleIdToPreview={firstArticle?.id}
+              onRestored={() => setMessageFormKey((key) => key + 1)}
+              trigger={<Button leftIcon={<FaHistory />}>Message History</Button>}
+            />
+          </HStack>
+        )}
+        <DiscordMessageForm
+          key={messageFormKey}
+          onClickSave={onMessageUpdated}
+          defaultValues={defaultMessageValues}
+          connection={connection}
+          feedId={feedId}
+          articleIdToPreview={firstArticle?.id}
+          include={include}
+          guildId={guildId}
+        />
+      </Stack>
     </Stack>
   );
 };
@@ -0,0 +1,51 @@
+import { Heading, Link, Stack, Text } from "@chakra-ui/react";
+import { Link as RouterLink } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { pages } from "../../../../constants";
+import { notifyError } from "../../../../utils/notifyError";
+import { notifySuccess } from "../../../../utils/notifySuccess";
+import { useUpdateUserFeed, useUserFeed } from "../../../feed/hooks";
+import { AlertSettingsForm, UpdateUserAlertSettingsInput } from "../../../discordUser";
+
+interface Props {
+  feedId: string;
+}
+
+export const UserFeedAlertSettingsSection = ({ feedId }: Props) => {
+  const { t } = useTranslation();
+  const { feed } = useUserFeed({ feedId });
+  const { mutateAsync } = useUpdateUserFeed();
+
+  const onSave = async (alertSettings: UpdateUserAlertSettingsInput["details"]) => {
+    try {
+      await mutateAsync({
+        feedId,
+        data: {
+          alertSettings,
+        },
+      });
+      notifySuccess(t("common.success.savedChanges"));
+    } catch (error) {
+      notifyError(t("common.errors.somethingWentWrong"), error as Error);
+    }
+  };
+
+  return (
+    <Stack spacing={4} marginBottom={16}>
+      <Stack>
+        <Heading size="md" as="h3">
+          Discord Alerts
+        </Heading>
+        <Text>
+          If you&apos;ve configured Discord alerts in your{" "}
+          <Link as={RouterLink} to={pages.userSettings()} color="blue.300">
+            Account Settings
+          </Link>
+          , they will be overridden by the settings here. Destinations from your Account Settings
+          are used if none are added here.
+        </Text>
+      </Stack>
+      <AlertSettingsForm alertSettings={feed?.alertSettings} isDisabled={!feed} onSave={onSave} />
+    </Stack>
+  );
+};
@@ -0,0 +1,248 @@
+import {
+  Alert,
+  AlertDescription,
+  Button,
+  FormControl,
+  FormErrorMessage,
+  FormHelperText,
+  FormLabel,
+  Heading,
+  HStack,
+  Input,
+  Select,
+  Stack,
+  Text,
+} from "@chakra-ui/react";
+import { yupResolver } from "@hookform/resolvers/yup";
+import { Controller, useForm } from "react-hook-form";
+import { useTranslation } from "react-i18next";
+import { InferType, object, string } from "yup";
+import { ConfirmModal } from "../../../../components";
+import { notifyError } from "../../../../utils/notifyError";
+import { notifySuccess } from "../../../../utils/notifySuccess";
+import { useUpdateUserFeed, useUserFeed } from "../../../feed/hooks";
+import { UserFeedCredentialProfileType } from "../../../feed/types";
+
+interface Props {
+  feedId: string;
+}
+
+const CREDENTIAL_TYPE_LABELS: Record<UserFeedCredentialProfileType, string> = {
+  [UserFeedCredentialProfileType.HttpBasic]: "HTTP Basic (username and password)",
+  [UserFeedCredentialProfileType.BearerToken]: "Bearer token",
+  [UserFeedCredentialProfileType.Cookie]: "Cookie",
+  [UserFeedCredentialProfileType.CustomHeader]: "Custom header",
+};
+
+const SECRET_LABELS: Record<UserFeedCredentialProfileType, string> = {
+  [UserFeedCredentialProfileType.HttpBasic]: "Password",
+  [UserFeedCredentialProfileType.BearerToken]: "Token",
+  [UserFeedCredentialProfileType.Cookie]: "Cookie",
+  [UserFeedCredentialProfileType.CustomHeader]: "Header Value",
+};
+
+const FormSchema = object({
+  type: string().oneOf(Object.values(UserFeedCredentialProfileType)).required(),
+  username: string().when("type", {
+    is: UserFeedCredentialProfileType.HttpBasic,
+    then: (schema) => schema.required("Username is required"),
+  }),
+  headerName: string().when("type", {
+    is: UserFeedCredentialProfileType.CustomHeader,
+    then: (schema) =>
+      schema
+        .required("Header name is required")
+        .matches(/^[!#$%&'*+.^_`|~0-9a-zA-Z-]+$/, "Must be a valid header name"),
+  }),
+  secret: string().required("This is required"),
+});
+
+type FormValues = InferType<typeof FormSchema>;
+
+export const UserFeedCredentialsSection = ({ feedId }: Props) => {
+  const { t } = useTranslation();
+  const { feed } = useUserFeed({ feedId });
+  const { mutateAsync, status: updateStatus } = useUpdateUserFeed();
+  const credentialProfile = feed?.credentialProfile;
+
+  const {
+    handleSubmit,
+    control,
+    reset,
+    watch,
+    formState: { isDirty, isSubmitting, errors },
+  } = useForm<FormValues>({
+    resolver: yupResolver(FormSchema),
+    defaultValues: {
+      type: UserFeedCredentialProfileType.HttpBasic,
+      username: "",
+      headerName: "",
+      secret: "",
+    },
+  });
+
+  const type = watch("type") as UserFeedCredentialProfileType;
+
+  const onSave = async (values: FormValues) => {
+    try {
+      await mutateAsync({
+        feedId,
+        data: {
+          credentialProfile: {
+            type: values.type as UserFeedCredentialProfileType,
+            username:
+              values.type === UserFeedCredentialProfileType.HttpBasic ? values.username : undefined,
+            headerName:
+              values.type === UserFeedCredentialProfileType.CustomHeader
+                ? values.headerName
+                : undefined,
+            secret: values.secret,
+          },
+        },
+      });
+      // Secrets are never sent back, so they must be entered again for any further changes
+      reset();
+      notifySuccess(t("common.success.savedChanges"));
+    } catch (error) {
+      notifyError(t("common.errors.somethingWentWrong"), error as Error);
+    }
+  };
+
+  const onRemove = async () => {
+    try {
+      await mutateAsync({
+        feedId,
+        data: {
+          credentialProfile: null,
+        },
+      });
+      notifySuccess(t("common.success.savedChanges"));
+    } catch (error) {
+      notifyError(t("common.errors.somethingWentWrong"), error as Error);
+    }
+  };
+
+  return (
+    <Stack spacing={4} marginBottom={16}>
+      <Stack>
+        <Heading size="md" as="h3">
+          Credentials
+        </Heading>
+        <Text>
+          Feeds that require authentication can be requested with credentials. Credentials are
+          encrypted when stored and are never shown again after saving.
+        </Text>
+      </Stack>
+      {credentialProfile && (
+        <Alert status="info">
+          <AlertDescription>
+            <HStack justifyContent="space-between" flexWrap="wrap" gap={2}>
+              <Text>
+                This feed is requested with{" "}
+                <strong>{CREDENTIAL_TYPE_LABELS[credentialProfile.type]}</strong> credentials
+                {credentialProfile.username && ` for the user ${credentialProfile.username}`}
+                {credentialProfile.headerName && ` in the header ${credentialProfile.headerName}`}.
+              </Text>
+              <ConfirmModal
+                title="Remove credentials"
+                description="This feed will be requested without credentials. Are you sure you want to remove them?"
+                colorScheme="red"
+                okText="Remove"
+                onConfirm={onRemove}
+                trigger={
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    isLoading={updateStatus === "loading"}
+                    isDisabled={updateStatus === "loading"}
+                  >
+                    Remove
+                  </Button>
+                }
+              />
+            </HStack>
+          </AlertDescription>
+        </Alert>
+      )}
+      <form onSubmit={handleSubmit(onSave)}>
+        <Stack spacing={4}>
+          <Controller
+            name="type"
+            control={control}
+            render={({ field }) => (
+              <FormControl isInvalid={!!errors.type}>
+                <FormLabel>Type</FormLabel>
+                <Select {...field} isDisabled={!feed}>
+                  {Object.values(UserFeedCredentialProfileType).map((value) => (
+                    <option key={value} value={value}>
+                      {CREDENTIAL_TYPE_LABELS[value]}
+                    </option>
+                  ))}
+                </Select>
+              </FormControl>
+            )}
+          />
+          {type === UserFeedCredentialProfileType.HttpBasic && (
+            <Controller
+              name="username"
+              control={control}
+              render={({ field }) => (
+                <FormControl isInvalid={!!errors.username} isRequired>
+                  <FormLabel>Username</FormLabel>
+                  <Input spellCheck={false} autoComplete="off" {...field} />
+                  {errors.username && (
+                    <FormErrorMessage>{errors.username.message}</FormErrorMessage>
+                  )}
+                </FormControl>
+              )}
+            />
+          )}
+          {type === UserFeedCredentialProfileType.CustomHeader && (
+            <Controller
+              name="headerName"
+              control={control}
+              render={({ field }) => (
+                <FormControl isInvalid={!!errors.headerName} isRequired>
+                  <FormLabel>Header Name</FormLabel>
+                  <Input spellCheck={false} autoComplete="off" placeholder="X-Api-Key" {...field} />
+                  {errors.headerName && (
+                    <FormErrorMessage>{errors.headerName.message}</FormErrorMessage>
+                  )}
+                </FormControl>
+              )}
+            />
+          )}
+          <Controller
+            name="secret"
+            control={control}
+            render={({ field }) => (
+              <FormControl isInvalid={!!errors.secret} isRequired>
+                <FormLabel>{SECRET_LABELS[type]}</FormLabel>
+                <Input type="password" spellCheck={false} autoComplete="new-password" {...field} />
+                {!errors.secret && type === UserFeedCredentialProfileType.Cookie && (
+                  <FormHelperText>
+                    The full value of the Cookie header, such as <code>session=abc; token=xyz</code>
+                  </FormHelperText>
+                )}
+                {errors.secret && <FormErrorMessage>{errors.secret.message}</FormErrorMessage>}
+              </FormControl>
+            )}
+          />
+          <HStack justifyContent="flex-end">
+            <Button isDisabled={!isDirty || isSubmitting} onClick={() => reset()} variant="ghost">
+              {t("common.buttons.reset")}
+            </Button>
+            <Button
+              type="submit"
+              colorScheme="blue"
+              isLoading={isSubmitting}
+              isDisabled={!feed || isSubmitting || !isDirty}
+            >
+              {credentialProfile ? "Replace credentials" : t("common.buttons.save")}
+            </Button>
+          </HStack>
+        </Stack>
+      </form>
+    </Stack>
+  );
+};
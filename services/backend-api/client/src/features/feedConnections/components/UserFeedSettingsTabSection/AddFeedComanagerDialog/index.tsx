@@ -34,6 +34,8 @@ import {
 import { ConnectionsCheckboxList } from "../../ConnectionsCheckboxList";
 import { useUserFeed } from "../../../../feed/hooks";
 import { UserFeed } from "../../../../feed/types";
+import { UserFeedManagerRole } from "@/constants";
+import { UserFeedManagerRoleRadioGroup } from "../UserFeedManagerRoleRadioGroup";
 
 interface OptionData {
   id: string;
@@ -42,7 +44,11 @@ interface OptionData {
 }
 
 interface Props {
-  onAdded: (data: { id: string; connections: Array<{ connectionId: string }> }) => Promise<void>;
+  onAdded: (data: {
+    id: string;
+    role: UserFeedManagerRole;
+    connections: Array<{ connectionId: string }>;
+  }) => Promise<void>;
   trigger: React.ReactElement;
   description?: React.ReactNode;
   title?: React.ReactNode;
@@ -66,6 +72,7 @@ export const AddFeedComanagerDialog = ({
   const { isOpen, onOpen, onClose } = useDisclosure();
   const { data: discordUserMe } = useDiscordUserMe();
   const [checkedConnections, setCheckedConnections] = useState<string[]>([]);
+  const [role, setRole] = useState(UserFeedManagerRole.Editor);
   const debouncedSearch = useDebounce(currentInput, 500);
   const { data: serverAccessData } = useDiscordServerAccessStatus({ serverId: guildId });
   const {
@@ -96,6 +103,7 @@ export const AddFeedComanagerDialog = ({
         setSaving(true);
         await onAdded({
           id: selectedMention.id,
+          role,
           connections: checkedConnections.map((id) => ({
             connectionId: id,
           })),
@@ -119,6 +127,7 @@ export const AddFeedComanagerDialog = ({
   useEffect(() => {
     setSelectedMention(undefined);
     setGuildId("");
+    setRole(UserFeedManagerRole.Editor);
   }, [isOpen]);
 
   const options: Array<{
@@ -196,6 +205,10 @@ export const AddFeedComanagerDialog = ({
                 {usersError && (
                   <InlineErrorAlert title="Failed to get users" description={usersError.message} />
                 )}
+                <FormControl>
+                  <FormLabel>Role</FormLabel>
+                  <UserFeedManagerRoleRadioGroup value={role} onChange={setRole} />
+                </FormControl>
                 <Stack>
                   <Box>
                     <FormLabel>Connections</FormLabel>
@@ -19,6 +19,8 @@ import { ConnectionsCheckboxList } from "../../ConnectionsCheckboxList";
 import { UserFeed } from "../../../../feed/types";
 import { notifySuccess } from "../../../../../utils/notifySuccess";
 import { notifyError } from "../../../../../utils/notifyError";
+import { UserFeedManagerRole } from "../../../../../constants";
+import { UserFeedManagerRoleRadioGroup } from "../UserFeedManagerRoleRadioGroup";
 
 interface Props {
   feedId?: string;
@@ -38,13 +40,16 @@ export const ManageUserFeedManagementInviteSettingsDialog = ({
   const { mutateAsync, status } = useUpdateUserFeedManagementInvite({ feedId });
   const { t } = useTranslation();
   const { feed, status: feedStatus } = useUserFeed({ feedId });
-  const currentConnectionIds = feed?.shareManageOptions?.invites
-    ?.find((i) => i.id === inviteId)
-    ?.connections?.map((c) => c.connectionId);
+  const currentInvite = feed?.shareManageOptions?.invites?.find((i) => i.id === inviteId);
+  const currentConnectionIds = currentInvite?.connections?.map((c) => c.connectionId);
+  const currentRole = (currentInvite?.role as UserFeedManagerRole) || UserFeedManagerRole.Admin;
   const allConnectionIds = feed?.connections.map((c) => c.id) || [];
   const [checkedConnections, setCheckedConnections] = useState<string[]>([]);
+  const [role, setRole] = useState(currentRole);
 
   const resetState = () => {
+    setRole(currentRole);
+
     if (currentConnectionIds?.length) {
       setCheckedConnections(currentConnectionIds);
     } else {
@@ -73,6 +78,7 @@ export const ManageUserFeedManagementInviteSettingsDialog = ({
       await mutateAsync({
         id: inviteId,
         data: {
+          role,
           connections: everyConnectionIsChecked
             ? null
             : checkedConnections.map((id) => ({
@@ -108,6 +114,13 @@ export const ManageUserFeedManagementInviteSettingsDialog = ({
         <ModalCloseButton />
         <ModalBody>
           <Stack spacing={6}>
+            <Stack spacing={2}>
+              <Heading size="sm" as="h2">
+                Role
+              </Heading>
+              <Text>What the invitee is allowed to do with this feed.</Text>
+              <UserFeedManagerRoleRadioGroup value={role} onChange={setRole} />
+            </Stack>
             <Stack spacing={2}>
               <Heading size="sm" as="h2">
                 Shared Connections
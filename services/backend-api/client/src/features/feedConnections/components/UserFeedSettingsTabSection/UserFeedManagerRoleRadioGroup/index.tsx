@@ -0,0 +1,26 @@
+import { Radio, RadioGroup, Stack, Text } from "@chakra-ui/react";
+import { USER_FEED_MANAGER_ROLE_DETAILS, UserFeedManagerRole } from "@/constants";
+
+interface Props {
+  value: UserFeedManagerRole;
+  onChange: (role: UserFeedManagerRole) => void;
+}
+
+export const UserFeedManagerRoleRadioGroup = ({ value, onChange }: Props) => {
+  return (
+    <RadioGroup value={value} onChange={(v) => onChange(v as UserFeedManagerRole)}>
+      <Stack spacing={3}>
+        {Object.values(UserFeedManagerRole).map((role) => (
+          <Radio key={role} value={role} alignItems="flex-start">
+            <Stack spacing={0}>
+              <Text>{USER_FEED_MANAGER_ROLE_DETAILS[role].label}</Text>
+              <Text fontSize="sm" color="whiteAlpha.700">
+                {USER_FEED_MANAGER_ROLE_DETAILS[role].description}
+              </Text>
+            </Stack>
+          </Radio>
+        ))}
+      </Stack>
+    </RadioGroup>
+  );
+};
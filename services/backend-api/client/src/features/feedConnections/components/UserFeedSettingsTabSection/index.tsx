@@ -56,7 +56,13 @@ import {
   useUserFeed,
 } from "../../../feed/hooks";
 import { DiscordUsername, useDiscordUserMe } from "../../../discordUser";
-import { pages, UserFeedManagerInviteType, UserFeedManagerStatus } from "../../../../constants";
+import {
+  pages,
+  USER_FEED_MANAGER_ROLE_DETAILS,
+  UserFeedManagerInviteType,
+  UserFeedManagerRole,
+  UserFeedManagerStatus,
+} from "../../../../constants";
 import { ResendUserFeedManagementInviteButton } from "./ResendUserFeedManagementInviteButton";
 import { SelectUserDialog } from "./SelectUserDialog";
 import DATE_LOCALES from "../../../../constants/dateLocales";
@@ -208,10 +214,12 @@ export const UserFeedSettingsTabSection = ({ feedId }: Props) => {
   const onAddUser = async ({
     id,
     type,
+    role,
     connections,
   }: {
     id: string;
     type: UserFeedManagerInviteType;
+    role?: UserFeedManagerRole;
     connections: Array<{ connectionId: string }>;
   }) => {
     try {
@@ -220,6 +228,7 @@ export const UserFeedSettingsTabSection = ({ feedId }: Props) => {
           feedId,
           discordUserId: id,
           type,
+          role,
           connections,
         },
       });
@@ -312,7 +321,15 @@ export const UserFeedSettingsTabSection = ({ feedId }: Props) => {
                           </Td>
                           <Td>
                             {(!u.type || u.type === UserFeedManagerInviteType.CoManage) && (
-                              <Text>Co-manage</Text>
+                              <Text>
+                                Co-manage (
+                                {
+                                  USER_FEED_MANAGER_ROLE_DETAILS[
+                                    (u.role as UserFeedManagerRole) || UserFeedManagerRole.Admin
+                                  ].label
+                                }
+                                )
+                              </Text>
                             )}
                             {u.type === UserFeedManagerInviteType.Transfer && (
                               <Text>Ownership transfer</Text>
@@ -397,15 +414,15 @@ export const UserFeedSettingsTabSection = ({ feedId }: Props) => {
                   trigger={<MenuItem>Co-manage feed</MenuItem>}
                   description={
                     <Text>
-                      This user will have access to manage the settings and the existing connections
-                      of this feed. You will retain ownership of this feed after they accept the
-                      invite. They must accept the invite by logging in.
+                      This user will have access to the existing connections of this feed, with
+                      permissions based on the role you select. You will retain ownership of this
+                      feed after they accept the invite. They must accept the invite by logging in.
                     </Text>
                   }
                   title="Invite User to Co-manage Feed"
                   okButtonText="Invite"
-                  onAdded={({ id, connections }) =>
-                    onAddUser({ id, type: UserFeedManagerInviteType.CoManage, connections })
+                  onAdded={({ id, role, connections }) =>
+                    onAddUser({ id, type: UserFeedManagerInviteType.CoManage, role, connections })
                   }
                 />
                 <SelectUserDialog
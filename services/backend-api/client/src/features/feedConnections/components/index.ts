@@ -11,8 +11,11 @@ export * from "./ArticleFilterResults/ArticleFilterResultsView";
 export * from "./ConnectionDisabledAlert";
 export * from "./ComparisonsTabSection";
 export * from "./UserFeedSettingsTabSection";
+export * from "./UserFeedAlertSettingsSection";
+export * from "./UserFeedCredentialsSection";
 export * from "./DiscordMessageForm";
 export * from "./ArticlePropertySelect";
 export * from "./CloneDiscordConnectionCloneDialog";
 export * from "./ConnectionCard";
 export * from "./EditDiscordChannelWebhookConnectionButton";
+export * from "./ConnectionRevisionsDialog";
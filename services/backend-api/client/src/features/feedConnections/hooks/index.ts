@@ -10,3 +10,5 @@ export * from "./useConnection";
 export * from "./useUpdateConnection";
 export * from "./useGetUserFeedArticlesError";
 export * from "./useCreateDiscordChannelConnectionCopySettings";
+export * from "./useDiscordChannelConnectionRevisions";
+export * from "./useCreateDiscordChannelConnectionRevisionRestore";
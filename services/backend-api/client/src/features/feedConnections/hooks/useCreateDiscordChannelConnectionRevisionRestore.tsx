@@ -0,0 +1,44 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import ApiAdapterError from "@/utils/ApiAdapterError";
+import {
+  createDiscordChannelConnectionRevisionRestore,
+  CreateDiscordChannelConnectionRevisionRestoreInput,
+} from "../api";
+
+export const useCreateDiscordChannelConnectionRevisionRestore = () => {
+  const queryClient = useQueryClient();
+  const { mutateAsync, status, error, reset } = useMutation<
+    void,
+    ApiAdapterError,
+    CreateDiscordChannelConnectionRevisionRestoreInput
+  >((details) => createDiscordChannelConnectionRevisionRestore(details), {
+    onSuccess: (data, inputData) =>
+      Promise.all([
+        queryClient.invalidateQueries({
+          queryKey: [
+            "user-feed",
+            {
+              feedId: inputData.feedId,
+            },
+          ],
+          refetchType: "all",
+        }),
+        queryClient.invalidateQueries({
+          queryKey: [
+            "discord-channel-connection-revisions",
+            {
+              feedId: inputData.feedId,
+              connectionId: inputData.connectionId,
+            },
+          ],
+        }),
+      ]),
+  });
+
+  return {
+    mutateAsync,
+    status,
+    error,
+    reset,
+  };
+};
@@ -0,0 +1,38 @@
+import { useQuery } from "@tanstack/react-query";
+import ApiAdapterError from "@/utils/ApiAdapterError";
+import {
+  getDiscordChannelConnectionRevisions,
+  GetDiscordChannelConnectionRevisionsOutput,
+} from "../api";
+
+interface Props {
+  feedId: string;
+  connectionId: string;
+  disabled?: boolean;
+}
+
+export const useDiscordChannelConnectionRevisions = ({ feedId, connectionId, disabled }: Props) => {
+  const { data, status, error, fetchStatus } = useQuery<
+    GetDiscordChannelConnectionRevisionsOutput,
+    ApiAdapterError
+  >(
+    [
+      "discord-channel-connection-revisions",
+      {
+        feedId,
+        connectionId,
+      },
+    ],
+    async () => getDiscordChannelConnectionRevisions({ feedId, connectionId }),
+    {
+      enabled: !disabled,
+    }
+  );
+
+  return {
+    data,
+    status,
+    error,
+    fetchStatus,
+  };
+};
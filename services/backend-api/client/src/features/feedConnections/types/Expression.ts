@@ -20,7 +20,10 @@ export interface RelationalFilterExpression {
   not?: boolean;
   right: {
     type: RelationalExpressionRightOperandType;
-    value: string;
+    /**
+     * An array of values for list operands, otherwise a string.
+     */
+    value: string | string[];
   };
 }
 
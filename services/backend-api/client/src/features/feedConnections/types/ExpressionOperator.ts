@@ -4,6 +4,11 @@ export enum RelationalExpressionOperator {
   NotContain = "NOT_CONTAIN",
   NotEqual = "NOT_EQ",
   Matches = "MATCHES",
+  GreaterThan = "GT",
+  GreaterThanOrEqual = "GTE",
+  LessThan = "LT",
+  LessThanOrEqual = "LTE",
+  InList = "IN_LIST",
 }
 
 export enum RelationalExpressionLeftOperandType {
@@ -12,6 +17,9 @@ export enum RelationalExpressionLeftOperandType {
 
 export enum RelationalExpressionRightOperandType {
   String = "STRING",
+  Number = "NUMBER",
+  Date = "DATE",
+  List = "LIST",
 }
 
 export enum LogicalExpressionOperator {
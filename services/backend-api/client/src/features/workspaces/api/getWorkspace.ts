@@ -0,0 +1,23 @@
+import { InferType, object } from "yup";
+import fetchRest from "../../../utils/fetchRest";
+import { WorkspaceSchema } from "../types";
+
+export interface GetWorkspaceInput {
+  workspaceId: string;
+}
+
+const GetWorkspaceOutputSchema = object({
+  result: WorkspaceSchema.required(),
+}).required();
+
+export type GetWorkspaceOutput = InferType<typeof GetWorkspaceOutputSchema>;
+
+export const getWorkspace = async ({
+  workspaceId,
+}: GetWorkspaceInput): Promise<GetWorkspaceOutput> => {
+  const res = await fetchRest(`/api/v1/workspaces/${workspaceId}`, {
+    validateSchema: GetWorkspaceOutputSchema,
+  });
+
+  return res as GetWorkspaceOutput;
+};
@@ -0,0 +1,3 @@
+export * from "./getWorkspaces";
+export * from "./getWorkspace";
+export * from "./createWorkspace";
@@ -0,0 +1,121 @@
+import {
+  Button,
+  FormControl,
+  FormErrorMessage,
+  FormHelperText,
+  FormLabel,
+  Input,
+  Modal,
+  ModalBody,
+  ModalCloseButton,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  Stack,
+  useDisclosure,
+} from "@chakra-ui/react";
+import { yupResolver } from "@hookform/resolvers/yup";
+import { Controller, useForm } from "react-hook-form";
+import { useTranslation } from "react-i18next";
+import { InferType, object, string } from "yup";
+import React, { useEffect, useRef } from "react";
+import { useCreateWorkspace } from "../../hooks";
+import { notifyError } from "../../../../utils/notifyError";
+import { notifySuccess } from "../../../../utils/notifySuccess";
+
+const formSchema = object({
+  name: string().required("Name is required").max(100),
+});
+
+type FormData = InferType<typeof formSchema>;
+
+interface Props {
+  trigger: React.ReactElement;
+  onCreated?: (workspaceId: string) => void;
+}
+
+export const CreateWorkspaceDialog = ({ trigger, onCreated }: Props) => {
+  const { isOpen, onOpen, onClose } = useDisclosure();
+  const { t } = useTranslation();
+  const initialFocusRef = useRef<HTMLInputElement>(null);
+  const { mutateAsync } = useCreateWorkspace();
+  const {
+    handleSubmit,
+    control,
+    reset,
+    formState: { isDirty, errors, isSubmitting },
+  } = useForm<FormData>({
+    resolver: yupResolver(formSchema),
+  });
+
+  const onSubmit = async ({ name }: FormData) => {
+    try {
+      const {
+        result: { id },
+      } = await mutateAsync({
+        details: {
+          name,
+        },
+      });
+
+      onClose();
+      notifySuccess("Successfully created workspace");
+      onCreated?.(id);
+    } catch (err) {
+      notifyError(t("common.errors.somethingWentWrong"), err as Error);
+    }
+  };
+
+  useEffect(() => {
+    reset();
+  }, [isOpen]);
+
+  return (
+    <>
+      {React.cloneElement(trigger, { onClick: onOpen })}
+      <Modal isOpen={isOpen} onClose={onClose} initialFocusRef={initialFocusRef}>
+        <ModalOverlay />
+        <ModalContent>
+          <ModalHeader>Create Workspace</ModalHeader>
+          <ModalCloseButton />
+          <ModalBody>
+            <form id="create-workspace" onSubmit={handleSubmit(onSubmit)}>
+              <Stack spacing={4}>
+                <FormControl isInvalid={!!errors.name}>
+                  <FormLabel>Name</FormLabel>
+                  <Controller
+                    name="name"
+                    control={control}
+                    render={({ field }) => (
+                      <Input {...field} value={field.value || ""} ref={initialFocusRef} />
+                    )}
+                  />
+                  {errors.name && <FormErrorMessage>{errors.name.message}</FormErrorMessage>}
+                  <FormHelperText>
+                    Feeds within a workspace are owned by the workspace instead of a single user,
+                    and share the combined feed limits of every member.
+                  </FormHelperText>
+                </FormControl>
+              </Stack>
+            </form>
+          </ModalBody>
+          <ModalFooter>
+            <Button variant="ghost" mr={3} onClick={onClose} isDisabled={isSubmitting}>
+              {t("common.buttons.cancel")}
+            </Button>
+            <Button
+              colorScheme="blue"
+              type="submit"
+              form="create-workspace"
+              isLoading={isSubmitting}
+              isDisabled={!isDirty || isSubmitting}
+            >
+              Create
+            </Button>
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
+    </>
+  );
+};
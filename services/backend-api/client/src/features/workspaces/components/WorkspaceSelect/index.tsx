@@ -0,0 +1,31 @@
+import { Select } from "@chakra-ui/react";
+import { useWorkspaces } from "../../hooks";
+
+interface Props {
+  /**
+   * Undefined if the personal feeds of the user are selected
+   */
+  value?: string;
+  onChange: (workspaceId?: string) => void;
+}
+
+export const WorkspaceSelect = ({ value, onChange }: Props) => {
+  const { data, status } = useWorkspaces();
+
+  return (
+    <Select
+      aria-label="Workspace"
+      width="auto"
+      isDisabled={status === "loading"}
+      value={value || ""}
+      onChange={(e) => onChange(e.target.value || undefined)}
+    >
+      <option value="">Personal feeds</option>
+      {data?.results.map((workspace) => (
+        <option key={workspace.id} value={workspace.id}>
+          {workspace.name}
+        </option>
+      ))}
+    </Select>
+  );
+};
@@ -0,0 +1,2 @@
+export * from "./CreateWorkspaceDialog";
+export * from "./WorkspaceSelect";
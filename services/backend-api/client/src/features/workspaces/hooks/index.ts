@@ -0,0 +1,3 @@
+export * from "./useWorkspaces";
+export * from "./useWorkspace";
+export * from "./useCreateWorkspace";
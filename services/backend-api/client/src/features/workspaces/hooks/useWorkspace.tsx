@@ -0,0 +1,37 @@
+import { useQuery } from "@tanstack/react-query";
+import ApiAdapterError from "@/utils/ApiAdapterError";
+import { getWorkspace, GetWorkspaceOutput } from "../api";
+
+interface Props {
+  workspaceId?: string;
+}
+
+export const useWorkspace = ({ workspaceId }: Props) => {
+  const { data, status, error, fetchStatus } = useQuery<GetWorkspaceOutput, ApiAdapterError>(
+    [
+      "workspace",
+      {
+        workspaceId,
+      },
+    ],
+    async () => {
+      if (!workspaceId) {
+        throw new Error("Missing workspace ID when getting workspace");
+      }
+
+      return getWorkspace({
+        workspaceId,
+      });
+    },
+    {
+      enabled: !!workspaceId,
+    }
+  );
+
+  return {
+    data,
+    status,
+    fetchStatus,
+    error,
+  };
+};
@@ -0,0 +1,16 @@
+import { useQuery } from "@tanstack/react-query";
+import ApiAdapterError from "@/utils/ApiAdapterError";
+import { getWorkspaces, GetWorkspacesOutput } from "../api";
+
+export const useWorkspaces = () => {
+  const { data, status, error } = useQuery<GetWorkspacesOutput, ApiAdapterError>(
+    ["workspaces"],
+    async () => getWorkspaces()
+  );
+
+  return {
+    data,
+    status,
+    error,
+  };
+};
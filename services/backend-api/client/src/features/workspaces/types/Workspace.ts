@@ -0,0 +1,22 @@
+import { array, InferType, number, object, string } from "yup";
+import { WorkspaceMemberRole } from "./WorkspaceMemberRole";
+
+export const WorkspaceMemberSchema = object({
+  discordUserId: string().required(),
+  role: string().oneOf(Object.values(WorkspaceMemberRole)).required(),
+  createdAt: string().optional(),
+});
+
+export const WorkspaceSchema = object({
+  id: string().required(),
+  name: string().required(),
+  role: string().oneOf(Object.values(WorkspaceMemberRole)).required(),
+  members: array(WorkspaceMemberSchema.required()).required(),
+  createdAt: string().required(),
+  feedCount: number().optional(),
+  maxFeeds: number().optional(),
+  refreshRateSeconds: number().optional(),
+  maxDailyArticles: number().optional(),
+});
+
+export type Workspace = InferType<typeof WorkspaceSchema>;
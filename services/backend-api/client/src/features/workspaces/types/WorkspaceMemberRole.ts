@@ -0,0 +1,6 @@
+export enum WorkspaceMemberRole {
+  Owner = "OWNER",
+  Admin = "ADMIN",
+  Editor = "EDITOR",
+  Viewer = "VIEWER",
+}
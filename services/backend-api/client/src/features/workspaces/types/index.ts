@@ -0,0 +1,2 @@
+export * from "./Workspace";
+export * from "./WorkspaceMemberRole";
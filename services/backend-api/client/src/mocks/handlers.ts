@@ -721,6 +721,10 @@ const handlers = [
         result: {
           requests: mockUserFeedRequests,
           nextRetryTimestamp: Math.floor(new Date(2020).getTime() / 1000),
+          conditionalRequestSavings: {
+            notModifiedCount: 12,
+            bytesSaved: 1024 * 300,
+          },
         },
       })
     )
@@ -33,7 +33,12 @@ import {
   Tooltip,
   SimpleGrid,
 } from "@chakra-ui/react";
-import { useParams, Link as RouterLink, useNavigate, useLocation } from "react-router-dom";
+import {
+  useParams,
+  Link as RouterLink,
+  useNavigate,
+  useLocation,
+} from "react-router-dom";
 import { useTranslation } from "react-i18next";
 import { AddIcon, ArrowLeftIcon, ChevronDownIcon } from "@chakra-ui/icons";
 import { useContext, useEffect, useRef, useState } from "react";
@@ -57,6 +62,8 @@ import {
   AddConnectionDialog,
   ComparisonsTabSection,
   UserFeedSettingsTabSection,
+  UserFeedAlertSettingsSection,
+  UserFeedCredentialsSection,
   ConnectionCard,
 } from "../features/feedConnections";
 
@@ -64,6 +71,8 @@ import { notifySuccess } from "../utils/notifySuccess";
 import { notifyError } from "../utils/notifyError";
 import { UserFeedManagerStatus, pages } from "../constants";
 import { UserFeedLogs } from "../features/feed/components/UserFeedLogs";
+import { UserFeedAuditLog } from "../features/feed/components/UserFeedAuditLog";
+import { UserFeedAnalytics } from "../features/feed/components/UserFeedAnalytics";
 import { useUserMe } from "../features/discordUser";
 import { PricingDialogContext } from "../contexts";
 import { FeedConnectionDisabledCode } from "../types";
@@ -74,6 +83,8 @@ enum TabSearchParam {
   Comparisons = "?view=comparisons",
   Logs = "?view=logs",
   Settings = "?view=settings",
+  AuditLog = "?view=audit-log",
+  Analytics = "?view=analytics",
 }
 
 const tabIndexBySearchParam = new Map<string, number>([
@@ -81,11 +92,17 @@ const tabIndexBySearchParam = new Map<string, number>([
   [TabSearchParam.Comparisons, 1],
   [TabSearchParam.Settings, 2],
   [TabSearchParam.Logs, 3],
+  [TabSearchParam.AuditLog, 4],
+  [TabSearchParam.Analytics, 5],
 ]);
 
 export const UserFeed: React.FC = () => {
   const { feedId } = useParams<RouteParams>();
-  const { isOpen: editIsOpen, onClose: editOnClose, onOpen: editOnOpen } = useDisclosure();
+  const {
+    isOpen: editIsOpen,
+    onClose: editOnClose,
+    onOpen: editOnOpen,
+  } = useDisclosure();
   const { onOpen: onOpenPricingDialog } = useContext(PricingDialogContext);
   const { t } = useTranslation();
   const navigate = useNavigate();
@@ -93,7 +110,8 @@ export const UserFeed: React.FC = () => {
   const { isOpen, onClose, onOpen } = useDisclosure();
   const menuButtonRef = useRef<HTMLButtonElement>(null);
   const [addConnectionType, setAddConnectionType] = useState<
-    { type: "discord-channel" | "discord-webhook"; isChannelThread?: boolean } | undefined
+    | { type: "discord-channel" | "discord-webhook"; isChannelThread?: boolean }
+    | undefined
   >(undefined);
   const { data: dailyLimit } = useArticleDailyLimit({
     feedId,
@@ -103,11 +121,13 @@ export const UserFeed: React.FC = () => {
   });
   const { data: userMe } = useUserMe();
   const feedTitle = feed?.title;
-  const { mutateAsync: mutateAsyncUserFeed, status: updatingStatus } = useUpdateUserFeed();
+  const { mutateAsync: mutateAsyncUserFeed, status: updatingStatus } =
+    useUpdateUserFeed();
 
   const { mutateAsync, status: deleteingStatus } = useDeleteUserFeed();
   const { mutateAsync: restoreLegacyFeed } = useCreateUserFeedLegacyRestore();
-  const { mutateAsync: updateInvite } = useUpdateUserFeedManagementInviteStatus();
+  const { mutateAsync: updateInvite } =
+    useUpdateUserFeedManagementInviteStatus();
   const isSharedWithMe = !!feed?.sharedAccessDetails?.inviteId;
 
   const onAddConnection = (
@@ -126,6 +146,20 @@ export const UserFeed: React.FC = () => {
 
   const isAtLimit = dailyLimit ? dailyLimit.current >= dailyLimit.max : false;
 
+  const configuredRefreshRateSeconds =
+    feed?.userRefreshRateSeconds || feed?.refreshRateSeconds;
+  let refreshRateAdaptedHint: string | undefined;
+
+  if (
+    feed?.effectiveRefreshRateSeconds &&
+    configuredRefreshRateSeconds &&
+    feed.effectiveRefreshRateSeconds !== configuredRefreshRateSeconds
+  ) {
+    refreshRateAdaptedHint = t("pages.feed.refreshRateAdaptedSlowerHint", {
+      configuredRate: formatRefreshRateSeconds(configuredRefreshRateSeconds),
+    });
+  }
+
   const onDeleteFeed = async () => {
     if (!feedId) {
       return;
@@ -142,7 +176,10 @@ export const UserFeed: React.FC = () => {
     }
   };
 
-  const onUpdateFeed = async ({ url, ...rest }: UpdateUserFeedInput["data"]) => {
+  const onUpdateFeed = async ({
+    url,
+    ...rest
+  }: UpdateUserFeedInput["data"]) => {
     if (!feedId) {
       return;
     }
@@ -246,7 +283,11 @@ export const UserFeed: React.FC = () => {
         }}
         onUpdate={onUpdateFeed}
       />
-      <Tabs isLazy isFitted defaultIndex={tabIndexBySearchParam.get(urlSearch) || 0}>
+      <Tabs
+        isLazy
+        isFitted
+        defaultIndex={tabIndexBySearchParam.get(urlSearch) || 0}
+      >
         <Stack
           width="100%"
           minWidth="100%"
@@ -254,7 +295,12 @@ export const UserFeed: React.FC = () => {
           background="gray.700"
           alignItems="center"
         >
-          <Stack maxWidth="1400px" width="100%" paddingX={{ base: 4, lg: 12 }} spacing={6}>
+          <Stack
+            maxWidth="1400px"
+            width="100%"
+            paddingX={{ base: 4, lg: 12 }}
+            spacing={6}
+          >
             <Stack spacing={6}>
               <Stack spacing={4}>
                 {/* <HStack justifyContent="space-between"> */}
@@ -270,7 +316,10 @@ export const UserFeed: React.FC = () => {
                     </BreadcrumbItem>
                   </Breadcrumb>
                   <Stack flex={1}>
-                    <HStack alignItems="flex-start" justifyContent="space-between">
+                    <HStack
+                      alignItems="flex-start"
+                      justifyContent="space-between"
+                    >
                       <Stack>
                         <Flex alignItems="center" gap={0}>
                           <Heading size="lg" marginRight={4}>
@@ -326,7 +375,9 @@ export const UserFeed: React.FC = () => {
                               title="Remove my shared access"
                               description="Are you sure you want to remove your access to this feed? You will no longer be able to view or manage this feed."
                               trigger={
-                                <MenuItem isDisabled={updatingStatus === "loading"}>
+                                <MenuItem
+                                  isDisabled={updatingStatus === "loading"}
+                                >
                                   Remove my shared access
                                 </MenuItem>
                               }
@@ -337,10 +388,16 @@ export const UserFeed: React.FC = () => {
                           )}
                           {feed && !feed.disabledCode && (
                             <ConfirmModal
-                              title={t("pages.userFeed.disableFeedConfirmTitle")}
-                              description={t("pages.userFeed.disableFeedConfirmDescription")}
+                              title={t(
+                                "pages.userFeed.disableFeedConfirmTitle"
+                              )}
+                              description={t(
+                                "pages.userFeed.disableFeedConfirmDescription"
+                              )}
                               trigger={
-                                <MenuItem isDisabled={updatingStatus === "loading"}>
+                                <MenuItem
+                                  isDisabled={updatingStatus === "loading"}
+                                >
                                   {t("pages.userFeed.disableFeedButtonText")}
                                 </MenuItem>
                               }
@@ -365,19 +422,21 @@ export const UserFeed: React.FC = () => {
                                   </Text>
                                   <Stack>
                                     <Text>
-                                      If you are currently facing issues with converting to personal
-                                      feeds, you may convert this feed back to a legacy feed until a
-                                      fix is applied.
+                                      If you are currently facing issues with
+                                      converting to personal feeds, you may
+                                      convert this feed back to a legacy feed
+                                      until a fix is applied.
                                     </Text>
                                     <Text>
-                                      Legacy feeds are still permanently disabled. If you are facing
-                                      issues, please reach out to Support for remediation so that
-                                      you can convert this back to a personal feed as soon as
-                                      possible.
+                                      Legacy feeds are still permanently
+                                      disabled. If you are facing issues, please
+                                      reach out to Support for remediation so
+                                      that you can convert this back to a
+                                      personal feed as soon as possible.
                                     </Text>
                                     <Text>
-                                      After this feed has been restored, this personal feed will be
-                                      deleted.
+                                      After this feed has been restored, this
+                                      personal feed will be deleted.
                                     </Text>
                                     <Wrap mt={4}>
                                       <Button
@@ -410,9 +469,13 @@ export const UserFeed: React.FC = () => {
                           {feedId && (
                             <ConfirmModal
                               title={t("pages.userFeed.deleteConfirmTitle")}
-                              description={t("pages.userFeed.deleteConfirmDescription")}
+                              description={t(
+                                "pages.userFeed.deleteConfirmDescription"
+                              )}
                               trigger={
-                                <MenuItem isDisabled={deleteingStatus === "loading"}>
+                                <MenuItem
+                                  isDisabled={deleteingStatus === "loading"}
+                                >
                                   {t("common.buttons.delete")}
                                 </MenuItem>
                               }
@@ -437,10 +500,19 @@ export const UserFeed: React.FC = () => {
                 columnGap="20"
                 rowGap={{ base: "8", lg: "14" }}
               >
-                <CategoryText title={t("pages.feed.refreshRateLabel")}>
+                <CategoryText
+                  title={t("pages.feed.refreshRateLabel")}
+                  helpTooltip={
+                    refreshRateAdaptedHint
+                      ? { description: refreshRateAdaptedHint }
+                      : undefined
+                  }
+                >
                   {feed
                     ? formatRefreshRateSeconds(
-                        feed.userRefreshRateSeconds || feed.refreshRateSeconds
+                        feed.effectiveRefreshRateSeconds ||
+                          feed.userRefreshRateSeconds ||
+                          feed.refreshRateSeconds
                       )
                     : null}
                 </CategoryText>
@@ -522,6 +594,24 @@ export const UserFeed: React.FC = () => {
               >
                 {t("pages.userFeeds.tabLogs")}
               </Tab>
+              <Tab
+                onClick={() =>
+                  navigate({
+                    search: TabSearchParam.AuditLog,
+                  })
+                }
+              >
+                {t("pages.userFeeds.tabAuditLog")}
+              </Tab>
+              <Tab
+                onClick={() =>
+                  navigate({
+                    search: TabSearchParam.Analytics,
+                  })
+                }
+              >
+                {t("pages.userFeeds.tabAnalytics")}
+              </Tab>
             </TabList>
           </Stack>
         </Stack>
@@ -536,39 +626,66 @@ export const UserFeed: React.FC = () => {
               <BoxConstrained.Container>
                 <Stack spacing={6} mb={16}>
                   <Stack spacing={3}>
-                    <Flex justifyContent="space-between" alignItems="flex-start">
+                    <Flex
+                      justifyContent="space-between"
+                      alignItems="flex-start"
+                    >
                       <Heading size="md" as="h3">
                         {t("pages.userFeeds.tabConnections")}
                       </Heading>
                       <Menu placement="bottom-end">
-                        <MenuButton colorScheme="blue" as={Button} rightIcon={<ChevronDownIcon />}>
+                        <MenuButton
+                          colorScheme="blue"
+                          as={Button}
+                          rightIcon={<ChevronDownIcon />}
+                        >
                           Add new
                         </MenuButton>
                         <MenuList maxWidth="300px">
-                          <MenuItem onClick={() => onAddConnection("discord-channel")}>
+                          <MenuItem
+                            onClick={() => onAddConnection("discord-channel")}
+                          >
                             <Stack spacing={1}>
-                              <Text>{t("pages.feed.discordChannelMenuItem")}</Text>
-                              <Text fontSize={13} color="whiteAlpha.600" whiteSpace="normal">
-                                Send articles as messages authored by the bot to a Discord channel,
-                                or as a thread in a forum channel.
+                              <Text>
+                                {t("pages.feed.discordChannelMenuItem")}
+                              </Text>
+                              <Text
+                                fontSize={13}
+                                color="whiteAlpha.600"
+                                whiteSpace="normal"
+                              >
+                                Send articles as messages authored by the bot to
+                                a Discord channel, or as a thread in a forum
+                                channel.
                               </Text>
                             </Stack>
                           </MenuItem>
-                          <MenuItem onClick={() => onAddConnection("discord-channel", true)}>
+                          <MenuItem
+                            onClick={() =>
+                              onAddConnection("discord-channel", true)
+                            }
+                          >
                             <Stack spacing={1}>
-                              <Text>{t("pages.feed.discordThreadMenuItem")}</Text>
+                              <Text>
+                                {t("pages.feed.discordThreadMenuItem")}
+                              </Text>
                               <Text fontSize={13} color="whiteAlpha.600">
-                                Send articles authored by the bot as a message to an existing
-                                thread.
+                                Send articles authored by the bot as a message
+                                to an existing thread.
                               </Text>
                             </Stack>
                           </MenuItem>
-                          <MenuItem onClick={() => onAddConnection("discord-webhook")}>
+                          <MenuItem
+                            onClick={() => onAddConnection("discord-webhook")}
+                          >
                             <Stack spacing={1}>
-                              <Text>{t("pages.feed.discordWebhookMenuItem")}</Text>
+                              <Text>
+                                {t("pages.feed.discordWebhookMenuItem")}
+                              </Text>
                               <Text fontSize={13} color="whiteAlpha.600">
-                                Send articles authored by a webhook with a custom name and avatar as
-                                a message to a Discord channel
+                                Send articles authored by a webhook with a
+                                custom name and avatar as a message to a Discord
+                                channel
                               </Text>
                             </Stack>
                           </MenuItem>
@@ -582,12 +699,15 @@ export const UserFeed: React.FC = () => {
                       <Alert status="warning" rounded="md">
                         <AlertIcon />
                         <Box>
-                          <AlertTitle>You have no connections set up!</AlertTitle>
+                          <AlertTitle>
+                            You have no connections set up!
+                          </AlertTitle>
                           <AlertDescription>
                             <Stack>
                               <Text>
-                                You&apos;ll need to set up at least one connection to tell the bot
-                                where to send new articles!
+                                You&apos;ll need to set up at least one
+                                connection to tell the bot where to send new
+                                articles!
                               </Text>
                               {addConnectionButtons}
                             </Stack>
@@ -597,9 +717,15 @@ export const UserFeed: React.FC = () => {
                     </Stack>
                   )}
                   {feed?.connections.length && (
-                    <SimpleGrid spacing={4} templateColumns="repeat(auto-fill, minmax(320px, 1fr))">
+                    <SimpleGrid
+                      spacing={4}
+                      templateColumns="repeat(auto-fill, minmax(320px, 1fr))"
+                    >
                       {feed?.connections
-                        ?.filter((c) => c.disabledCode !== FeedConnectionDisabledCode.Manual)
+                        ?.filter(
+                          (c) =>
+                            c.disabledCode !== FeedConnectionDisabledCode.Manual
+                        )
                         ?.map((connection) => {
                           return (
                             <ConnectionCard
@@ -613,7 +739,12 @@ export const UserFeed: React.FC = () => {
                   )}
                   {disabledConnections?.length ? (
                     <Stack spacing={4} mt={2}>
-                      <Heading size="xs" as="h3" fontWeight={600} color="whiteAlpha.800">
+                      <Heading
+                        size="xs"
+                        as="h3"
+                        fontWeight={600}
+                        color="whiteAlpha.800"
+                      >
                         Disabled Conections
                       </Heading>
                       <SimpleGrid
@@ -657,7 +788,11 @@ export const UserFeed: React.FC = () => {
           <TabPanel width="100%">
             <BoxConstrained.Wrapper>
               <BoxConstrained.Container>
-                <UserFeedSettingsTabSection feedId={feedId as string} />
+                <Stack spacing={12}>
+                  <UserFeedSettingsTabSection feedId={feedId as string} />
+                  <UserFeedAlertSettingsSection feedId={feedId as string} />
+                  <UserFeedCredentialsSection feedId={feedId as string} />
+                </Stack>
               </BoxConstrained.Container>
             </BoxConstrained.Wrapper>
           </TabPanel>
@@ -668,6 +803,20 @@ export const UserFeed: React.FC = () => {
               </BoxConstrained.Container>
             </BoxConstrained.Wrapper>
           </TabPanel>
+          <TabPanel width="100%">
+            <BoxConstrained.Wrapper>
+              <BoxConstrained.Container>
+                <UserFeedAuditLog feedId={feedId} />
+              </BoxConstrained.Container>
+            </BoxConstrained.Wrapper>
+          </TabPanel>
+          <TabPanel width="100%">
+            <BoxConstrained.Wrapper>
+              <BoxConstrained.Container>
+                <UserFeedAnalytics feedId={feedId} />
+              </BoxConstrained.Container>
+            </BoxConstrained.Wrapper>
+          </TabPanel>
         </TabPanels>
       </Tabs>
     </DashboardContentV2>
@@ -18,7 +18,7 @@ import {
 import { Link, useNavigate } from "react-router-dom";
 import { useTranslation } from "react-i18next";
 import { AddIcon, ArrowLeftIcon } from "@chakra-ui/icons";
-import { useCallback, useContext, useEffect } from "react";
+import { useCallback, useContext, useEffect, useState } from "react";
 import { FaRegNewspaper } from "react-icons/fa6";
 import { useDiscordUserMe, useUserMe } from "../features/discordUser";
 import {
@@ -34,6 +34,7 @@ import { BoxConstrained } from "../components";
 import { PricingDialogContext, UserFeedStatusFilterContext } from "../contexts";
 import { notifySuccess } from "../utils/notifySuccess";
 import { notifyInfo } from "../utils/notifyInfo";
+import { CreateWorkspaceDialog, useWorkspace, WorkspaceSelect } from "../features/workspaces";
 
 export const UserFeeds: React.FC = () => {
   const { t } = useTranslation();
@@ -41,9 +42,12 @@ export const UserFeeds: React.FC = () => {
   const { data: discordUserMe } = useDiscordUserMe();
   const { data: userMeData } = useUserMe();
   const { onOpen: onOpenPricingDialog } = useContext(PricingDialogContext);
+  const [workspaceId, setWorkspaceId] = useState<string | undefined>();
+  const { data: workspaceData } = useWorkspace({ workspaceId });
   const { data: userFeedsRequireAttentionResults } = useUserFeeds({
     limit: 1,
     offset: 0,
+    workspaceId,
     filters: {
       computedStatuses: [UserFeedComputedStatus.RequiresAttention],
     },
@@ -52,6 +56,7 @@ export const UserFeeds: React.FC = () => {
   const { data: userFeedsResults } = useUserFeeds({
     limit: 1,
     offset: 0,
+    workspaceId,
   });
   const { statusFilters, setStatusFilters } = useContext(UserFeedStatusFilterContext);
 
@@ -138,40 +143,67 @@ export const UserFeeds: React.FC = () => {
             </Alert>
           )}
           <Flex justifyContent="space-between" alignItems="center" gap="4" flexWrap="wrap">
-            <Flex alignItems="center" gap={4}>
+            <Flex alignItems="center" gap={4} flexWrap="wrap">
               <Heading size="lg">{t("pages.userFeeds.title")}</Heading>
+              <WorkspaceSelect value={workspaceId} onChange={setWorkspaceId} />
+              <CreateWorkspaceDialog
+                trigger={
+                  <Button variant="outline" size="sm" leftIcon={<AddIcon fontSize={10} />}>
+                    New workspace
+                  </Button>
+                }
+                onCreated={setWorkspaceId}
+              />
             </Flex>
             <Flex alignItems="center">
-              {discordUserMe?.maxUserFeeds !== undefined && userFeedsResults?.total !== undefined && (
+              {workspaceId && workspaceData && (
                 <HStack>
                   <Text fontSize="xl" fontWeight={600}>
-                    {userFeedsResults.total}
+                    {workspaceData.result.feedCount}
                   </Text>
                   <Text fontSize="xl" fontWeight={600}>
                     /
                   </Text>
-                  {discordUserMe.maxUserFeedsComposition.legacy ? (
-                    <Tooltip
-                      label={
-                        <Box>
-                          <Text>+{discordUserMe.maxUserFeedsComposition.base}: Base Amount</Text>
-                          <Text>
-                            +{discordUserMe.maxUserFeedsComposition.legacy}: Legacy feed conversions
-                          </Text>
-                        </Box>
-                      }
-                    >
-                      <Text fontSize="xl" fontWeight={600}>
-                        {discordUserMe.maxUserFeeds}
-                      </Text>
-                    </Tooltip>
-                  ) : (
+                  <Tooltip label="The combined feed limits of every supporter in this workspace">
                     <Text fontSize="xl" fontWeight={600}>
-                      {discordUserMe.maxUserFeeds}
+                      {workspaceData.result.maxFeeds}
                     </Text>
-                  )}
+                  </Tooltip>
                 </HStack>
               )}
+              {!workspaceId &&
+                discordUserMe?.maxUserFeeds !== undefined &&
+                userFeedsResults?.total !== undefined && (
+                  <HStack>
+                    <Text fontSize="xl" fontWeight={600}>
+                      {userFeedsResults.total}
+                    </Text>
+                    <Text fontSize="xl" fontWeight={600}>
+                      /
+                    </Text>
+                    {discordUserMe.maxUserFeedsComposition.legacy ? (
+                      <Tooltip
+                        label={
+                          <Box>
+                            <Text>+{discordUserMe.maxUserFeedsComposition.base}: Base Amount</Text>
+                            <Text>
+                              +{discordUserMe.maxUserFeedsComposition.legacy}: Legacy feed
+                              conversions
+                            </Text>
+                          </Box>
+                        }
+                      >
+                        <Text fontSize="xl" fontWeight={600}>
+                          {discordUserMe.maxUserFeeds}
+                        </Text>
+                      </Tooltip>
+                    ) : (
+                      <Text fontSize="xl" fontWeight={600}>
+                        {discordUserMe.maxUserFeeds}
+                      </Text>
+                    )}
+                  </HStack>
+                )}
               {!userMeData?.result.enableBilling && (
                 <IconButton
                   as="a"
@@ -231,6 +263,7 @@ export const UserFeeds: React.FC = () => {
                 </Text>
               </Stack>
               <AddUserFeedDialog
+                workspaceId={workspaceId}
                 trigger={
                   <Button colorScheme="blue" leftIcon={<AddIcon fontSize={12} />}>
                     Add a new feed
@@ -241,7 +274,7 @@ export const UserFeeds: React.FC = () => {
           </Center>
         )}
         {userFeedsResults && userFeedsResults.total > 0 ? (
-          <UserFeedsTable onSelectedFeedId={onSelectedFeed} />
+          <UserFeedsTable onSelectedFeedId={onSelectedFeed} workspaceId={workspaceId} />
         ) : null}
       </BoxConstrained.Container>
     </BoxConstrained.Wrapper>
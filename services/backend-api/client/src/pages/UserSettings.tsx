@@ -32,7 +32,14 @@ import { useTranslation } from "react-i18next";
 import { useContext, useEffect } from "react";
 import { useSearchParams } from "react-router-dom";
 import dayjs from "dayjs";
-import { GetUserMeOutput, useUpdateUserMe, useUserMe } from "../features/discordUser";
+import {
+  AlertSettingsForm,
+  GetUserMeOutput,
+  UpdateUserAlertSettingsInput,
+  useUpdateUserAlertSettings,
+  useUpdateUserMe,
+  useUserMe,
+} from "../features/discordUser";
 import {
   BoxConstrained,
   ConfirmModal,
@@ -147,6 +154,7 @@ export const UserSettings = () => {
   const { status, error, data, refetch } = useUserMe();
   const { t } = useTranslation();
   const { mutateAsync } = useUpdateUserMe();
+  const { mutateAsync: updateAlertSettings } = useUpdateUserAlertSettings();
   const { onOpen: onOpenPricingDialog } = useContext(PricingDialogContext);
   const { redirectToLogin } = useLogin();
   const { mutateAsync: resumeSubscription } = useCreateSubscriptionResume();
@@ -197,6 +205,15 @@ export const UserSettings = () => {
     }
   };
 
+  const onSaveAlertSettings = async (details: UpdateUserAlertSettingsInput["details"]) => {
+    try {
+      await updateAlertSettings({ details });
+      notifySuccess(t("common.success.savedChanges"));
+    } catch (err) {
+      notifyError(t("common.errors.somethingWentWrong"), (err as Error).message);
+    }
+  };
+
   const onClickResumeSubscription = async () => {
     try {
       await resumeSubscription();
@@ -613,6 +630,21 @@ export const UserSettings = () => {
                 </Stack>
               </form>
             </FormProvider>
+            <Divider />
+            <Stack spacing={4}>
+              <Stack>
+                <Heading size="md">Discord Alerts</Heading>
+                <Text>
+                  Send alerts about the health of your feeds to Discord. Individual feeds may
+                  override these settings in their own settings page.
+                </Text>
+              </Stack>
+              <AlertSettingsForm
+                alertSettings={data?.result.preferences.alertSettings}
+                isDisabled={!hasLoaded}
+                onSave={onSaveAlertSettings}
+              />
+            </Stack>
           </Stack>
         </BoxConstrained.Container>
       </BoxConstrained.Wrapper>
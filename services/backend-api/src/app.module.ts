@@ -17,6 +17,9 @@ import { ServeStaticModule } from "@nestjs/serve-static";
 import { ScheduleEmitterModule } from "./features/schedule-emitter/schedule-emitter.module";
 import { FeedConnectionsDiscordChannelsModule } from "./features/feed-connections/feed-connections-discord-channels.module";
 import { FeedConnectionsDiscordWebhooksModule } from "./features/feed-connections/feed-connections-discord-webhooks.module";
+import { FeedConnectionsSlackChannelsModule } from "./features/feed-connections/feed-connections-slack-channels.module";
+import { FeedConnectionsMatrixRoomsModule } from "./features/feed-connections/feed-connections-matrix-rooms.module";
+import { FeedConnectionsHttpWebhooksModule } from "./features/feed-connections/feed-connections-http-webhooks.module";
 import { ScheduleHandlerModule } from "./features/schedule-handler/schedule-handler.module";
 import { LegacyFeedConversionModule } from "./features/legacy-feed-conversion/legacy-feed-conversion.module";
 import { UserFeedManagementInvitesModule } from "./features/user-feed-management-invites/user-feed-management-invites.module";
@@ -24,6 +27,8 @@ import { ErrorReportsController } from "./error-reports.controller";
 import { MessageBrokerEventsModule } from "./features/message-broker-events/message-broker-events.module";
 import { SupporterSubscriptionsModule } from "./features/supporter-subscriptions/supporter-subscriptions.module";
 import { MongoMigrationsModule } from "./features/mongo-migrations/mongo-migrations.module";
+import { PersonalAccessTokensModule } from "./features/personal-access-tokens/personal-access-tokens.module";
+import { WorkspacesModule } from "./features/workspaces/workspaces.module";
 
 @Module({
   imports: [
@@ -57,7 +62,12 @@ export class AppModule {
         }),
         FeedConnectionsDiscordWebhooksModule.forRoot(),
         FeedConnectionsDiscordChannelsModule.forRoot(),
+        FeedConnectionsSlackChannelsModule.forRoot(),
+        FeedConnectionsMatrixRoomsModule.forRoot(),
+        FeedConnectionsHttpWebhooksModule.forRoot(),
         SupporterSubscriptionsModule.forRoot(),
+        PersonalAccessTokensModule.forRoot(),
+        WorkspacesModule.forRoot(),
         ConfigModule.forRoot({
           isGlobal: true,
           cache: true,
@@ -41,6 +41,18 @@ export enum ApiErrorCode {
   INSUFFICIENT_SUPPORTER_LEVEL = "INSUFFICIENT_SUPPORTER_LEVEL",
   INVALID_CUSTOM_PLACEHOLDERS_REGEX_PREVIEW_INPUT = "INVALID_CUSTOM_PLACEHOLDERS_REGEX_PREVIEW_INPUT",
   INVALID_FILTERS_REGEX = "INVALID_FILTERS_REGEX",
+  DELIVERY_MESSAGE_NOT_FOUND = "DELIVERY_MESSAGE_NOT_FOUND",
+  INVALID_OPML = "INVALID_OPML",
+  PERSONAL_ACCESS_TOKEN_NOT_FOUND = "PERSONAL_ACCESS_TOKEN_NOT_FOUND",
+  FEED_CONNECTION_REVISION_NOT_FOUND = "FEED_CONNECTION_REVISION_NOT_FOUND",
+  WORKSPACE_NOT_FOUND = "WORKSPACE_NOT_FOUND",
+  WORKSPACE_MEMBER_EXISTS = "WORKSPACE_MEMBER_EXISTS",
+  WORKSPACE_MEMBER_NOT_FOUND = "WORKSPACE_MEMBER_NOT_FOUND",
+  WORKSPACE_OWNER_IMMUTABLE = "WORKSPACE_OWNER_IMMUTABLE",
+  WORKSPACE_HAS_FEEDS = "WORKSPACE_HAS_FEEDS",
+  WORKSPACE_INVITE_NOT_FOUND = "WORKSPACE_INVITE_NOT_FOUND",
+  WORKSPACE_OWNER_REQUIRED = "WORKSPACE_OWNER_REQUIRED",
+  FEED_CREDENTIALS_UNAVAILABLE = "FEED_CREDENTIALS_UNAVAILABLE",
 }
 
 // Create a package for the frontend?
@@ -99,5 +111,23 @@ export const API_ERROR_MESSAGES: Record<ApiErrorCode, string> = {
   INVALID_CUSTOM_PLACEHOLDERS_REGEX_PREVIEW_INPUT:
     "Invalid preview input in regex search for custom placeholders",
   INVALID_FILTERS_REGEX: "Invalid filters regex",
+  DELIVERY_MESSAGE_NOT_FOUND:
+    "No Discord message was recorded for this delivery, or it was already deleted",
+  INVALID_OPML: "Invalid OPML file",
+  PERSONAL_ACCESS_TOKEN_NOT_FOUND: "Personal access token not found",
+  FEED_CONNECTION_REVISION_NOT_FOUND: "Connection revision was not found",
+  WORKSPACE_NOT_FOUND: "Workspace not found",
+  WORKSPACE_MEMBER_EXISTS:
+    "This user is already a member of the workspace or has already been invited",
+  WORKSPACE_MEMBER_NOT_FOUND: "This user is not a member of the workspace",
+  WORKSPACE_OWNER_IMMUTABLE:
+    "The owner of a workspace cannot be removed or have their role changed",
+  WORKSPACE_HAS_FEEDS:
+    "All feeds must be removed from the workspace before it can be deleted",
+  WORKSPACE_INVITE_NOT_FOUND: "Workspace invite not found",
+  WORKSPACE_OWNER_REQUIRED:
+    "Only the owner of a workspace can change the role of or remove its admins",
   FEED_INVALID_SSL_CERT: "Invalid SSL certificate on feed site",
+  FEED_CREDENTIALS_UNAVAILABLE:
+    "Feed credentials are not enabled on this instance",
 };
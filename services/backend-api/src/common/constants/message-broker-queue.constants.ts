@@ -1,11 +1,16 @@
 export enum MessageBrokerQueue {
   UrlFetchCompleted = "url.fetch.completed",
+  UrlPushReceived = "url.push.received",
   UrlFetchBatch = "url.fetch-batch",
   UrlFailedDisableFeeds = "url.failed.disable-feeds",
+  UrlFetchFailed = "url.fetch.failed",
   UrlRejectedDisableFeeds = "url.rejected.disable-feeds",
   FeedRejectedArticleDisableConnection = "feed.rejected-article.disable-connection",
   FeedDeliverArticles = "feed.deliver-articles",
   FeedDeleted = "feed.deleted",
+  FeedArticleIdsReset = "feed.article-ids-reset",
   FeedRejectedDisableFeed = "feed.rejected.disable-feed",
+  FeedArticleDailyLimitApproaching = "feed.article-daily-limit-approaching",
+  FeedActivityLevelChanged = "feed.activity-level-changed",
   SyncSupporterDiscordRoles = "sync-supporter-discord-roles",
 }
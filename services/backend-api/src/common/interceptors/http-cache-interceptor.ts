@@ -2,6 +2,7 @@
 import { CacheInterceptor, ExecutionContext, Injectable } from "@nestjs/common";
 import { FastifyRequest } from "fastify";
 import { getAccessTokenFromRequest } from "../../features/discord-auth/utils/get-access-token-from-session";
+import { getPersonalAccessTokenFromRequest } from "../../features/personal-access-tokens/utils";
 
 @Injectable()
 export class HttpCacheInterceptor extends CacheInterceptor {
@@ -14,7 +15,11 @@ export class HttpCacheInterceptor extends CacheInterceptor {
       return request.url;
     }
 
-    const accessTokenString = accessToken.access_token;
+    const personalAccessToken = getPersonalAccessTokenFromRequest(request);
+
+    const accessTokenString = personalAccessToken
+      ? personalAccessToken.id
+      : accessToken.access_token;
 
     return accessTokenString + request.url;
   }
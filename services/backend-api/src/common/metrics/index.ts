@@ -0,0 +1,2 @@
+export * from "./metrics";
+export * from "./nack-and-count-error-handler";
@@ -0,0 +1,7 @@
+import { Counter } from "prom-client";
+
+export const messageHandlerErrorsCounter = new Counter({
+  name: "backend_api_message_handler_errors_total",
+  help: "Number of errors thrown while handling broker messages",
+  labelNames: ["queue"],
+});
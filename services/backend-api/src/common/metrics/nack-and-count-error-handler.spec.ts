@@ -0,0 +1,45 @@
+import { register } from "prom-client";
+import { MessageBrokerQueue } from "../constants/message-broker-queue.constants";
+import { nackAndCountErrorHandler } from "./nack-and-count-error-handler";
+
+describe("nackAndCountErrorHandler", () => {
+  const channel = {
+    nack: jest.fn(),
+  };
+  const msg = {
+    fields: {
+      routingKey: MessageBrokerQueue.UrlFetchCompleted,
+    },
+  };
+
+  afterEach(() => {
+    register.resetMetrics();
+    jest.resetAllMocks();
+  });
+
+  it("counts the error labelled by the queue of the message", async () => {
+    await nackAndCountErrorHandler(
+      channel as never,
+      msg as never,
+      new Error("failed")
+    );
+
+    await expect(
+      register.getSingleMetricAsString(
+        "backend_api_message_handler_errors_total"
+      )
+    ).resolves.toContain(
+      `backend_api_message_handler_errors_total{queue="${MessageBrokerQueue.UrlFetchCompleted}"} 1`
+    );
+  });
+
+  it("nacks the message without requeueing it", async () => {
+    await nackAndCountErrorHandler(
+      channel as never,
+      msg as never,
+      new Error("failed")
+    );
+
+    expect(channel.nack).toHaveBeenCalledWith(msg, false, false);
+  });
+});
@@ -0,0 +1,18 @@
+import {
+  defaultNackErrorHandler,
+  MessageErrorHandler,
+} from "@golevelup/nestjs-rabbitmq";
+import { messageHandlerErrorsCounter } from "./metrics";
+
+/**
+ * Behaves the same as the default NACK error behavior, but records the error in metrics first
+ */
+export const nackAndCountErrorHandler: MessageErrorHandler = (
+  channel,
+  msg,
+  error
+) => {
+  messageHandlerErrorsCounter.inc({ queue: msg.fields.routingKey });
+
+  return defaultNackErrorHandler(channel, msg, error);
+};
@@ -0,0 +1,67 @@
+import { Type } from "class-transformer";
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from "class-validator";
+import { AlertDestinationType } from "../../features/notifications/constants/alert-destination-type.constants";
+import { NotificationDeliveryAttemptType } from "../../features/notifications/constants/notification-delivery-attempt-type.constants";
+
+const DISCORD_WEBHOOK_URL_REGEX =
+  /^https:\/\/(?:(?:canary|ptb)\.)?discord(?:app)?\.com\/api(?:\/v\d+)?\/webhooks\/\d+\/[\w-]+$/;
+
+export class AlertDestinationDto {
+  @IsIn(Object.values(AlertDestinationType))
+  type: AlertDestinationType;
+
+  @ValidateIf((o) => o.type === AlertDestinationType.DiscordChannel)
+  @IsString()
+  @IsNotEmpty()
+  channelId?: string;
+
+  @ValidateIf((o) => o.type === AlertDestinationType.DiscordWebhook)
+  @IsString()
+  @Matches(DISCORD_WEBHOOK_URL_REGEX, {
+    message: "webhookUrl must be a Discord webhook URL",
+  })
+  webhookUrl?: string;
+
+  @IsArray()
+  @IsIn(Object.values(NotificationDeliveryAttemptType), { each: true })
+  @IsOptional()
+  alertTypes?: NotificationDeliveryAttemptType[];
+}
+
+export class AlertSettingsDto {
+  @IsArray()
+  @ArrayMaxSize(10)
+  @Type(() => AlertDestinationDto)
+  @ValidateNested({ each: true })
+  destinations: AlertDestinationDto[];
+
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  consecutiveFailedFetches?: number;
+
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  @IsOptional()
+  noNewArticlesDays?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  approachingArticleDailyLimit?: boolean;
+}
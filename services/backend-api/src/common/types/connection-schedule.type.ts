@@ -0,0 +1,76 @@
+import { Type } from "class-transformer";
+import {
+  IsBoolean,
+  IsInt,
+  IsObject,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Matches,
+  Max,
+  Validate,
+  ValidateIf,
+  ValidateNested,
+} from "class-validator";
+import { IsValidTimezone } from "../validations/is-valid-timezone";
+
+const TIME_OF_DAY_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+class ConnectionScheduleQuietHoursDto {
+  @IsString()
+  @Matches(TIME_OF_DAY_REGEX)
+  start: string;
+
+  @IsString()
+  @Matches(TIME_OF_DAY_REGEX)
+  end: string;
+}
+
+class ConnectionScheduleDigestDto {
+  @IsString()
+  @IsOptional()
+  @ValidateIf((v) => v.template !== null)
+  template?: string | null;
+
+  @IsString()
+  @IsOptional()
+  @ValidateIf((v) => v.articleTemplate !== null)
+  articleTemplate?: string | null;
+
+  @IsInt()
+  @IsPositive()
+  @Max(50)
+  @Type(() => Number)
+  @IsOptional()
+  maxArticles?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  asEmbed?: boolean;
+}
+
+export class ConnectionScheduleDto {
+  @IsString()
+  @IsOptional()
+  @Validate(IsValidTimezone)
+  @ValidateIf((v) => !!v.timezone)
+  timezone?: string | null;
+
+  @IsObject()
+  @IsOptional()
+  @Type(() => ConnectionScheduleQuietHoursDto)
+  @ValidateNested()
+  @ValidateIf((v) => v.quietHours !== null)
+  quietHours?: ConnectionScheduleQuietHoursDto | null;
+
+  @IsBoolean()
+  @IsOptional()
+  weekdaysOnly?: boolean;
+
+  @IsObject()
+  @IsOptional()
+  @Type(() => ConnectionScheduleDigestDto)
+  @ValidateNested()
+  @ValidateIf((v) => v.digest !== null)
+  digest?: ConnectionScheduleDigestDto | null;
+}
@@ -0,0 +1,34 @@
+import { CustomPlaceholderDto } from "./custom-placeholder.type";
+import { CustomRateLimitDto } from "./custom-rate-limit.type";
+
+export interface HttpWebhookMediumEvent {
+  id: string;
+  key: "http-webhook";
+  filters: {
+    expression: Record<string, unknown>;
+  } | null;
+  rateLimits?: CustomRateLimitDto[];
+  details: {
+    url: string;
+    method?: "POST" | "PUT" | "PATCH";
+    headers?: Array<{
+      key: string;
+      value: string;
+    }> | null;
+    bodyTemplate?: string | null;
+    signingSecret?: string | null;
+    retries?: number;
+    formatter: {
+      stripImages?: boolean;
+      formatTables?: boolean;
+      disableImageLinkPreviews?: boolean;
+    };
+    customPlaceholders?: CustomPlaceholderDto[] | null;
+    placeholderLimits?: Array<{
+      placeholder: string;
+      characterCount: number;
+      appendString?: string | null;
+    }> | null;
+    enablePlaceholderFallback?: boolean;
+  };
+}
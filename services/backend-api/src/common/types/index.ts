@@ -5,6 +5,9 @@ export * from "./discord-guild-channel.type";
 export * from "./session";
 export * from "./discord-embed.type";
 export * from "./discord-medium.type";
+export * from "./slack-medium.type";
+export * from "./matrix-medium.type";
+export * from "./http-webhook-medium.type";
 export * from "./discord-split-options.type";
 export * from "./discord-connection-formatter-options.type";
 export * from "./user-feed-format-options.type";
@@ -13,8 +16,15 @@ export * from "./filters.type";
 export * from "./discord-mention-options.type";
 export * from "./discord-placeholder-limit-options.type";
 export * from "./user-feed-date-check-options.type";
+export * from "./user-feed-json-options.type";
+export * from "./user-feed-html-scrape-options.type";
+export * from "./user-feed-edit-tracking-options.type";
+export * from "./user-feed-article-id-options.type";
+export * from "./user-feed-credential-profile.type";
 export * from "./user-feed-share-manage-options.type";
 export * from "./custom-placeholder.type";
 export * from "./custom-rate-limit.type";
+export * from "./connection-schedule.type";
 export * from "./forum-thread-tag.type";
 export * from "./user-auth-details.type";
+export * from "./alert-settings.type";
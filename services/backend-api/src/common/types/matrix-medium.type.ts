@@ -0,0 +1,30 @@
+import { CustomPlaceholderDto } from "./custom-placeholder.type";
+import { CustomRateLimitDto } from "./custom-rate-limit.type";
+
+export interface MatrixMediumEvent {
+  id: string;
+  key: "matrix";
+  filters: {
+    expression: Record<string, unknown>;
+  } | null;
+  rateLimits?: CustomRateLimitDto[];
+  details: {
+    homeserverUrl: string;
+    roomId: string;
+    accessToken: string;
+    msgtype?: "m.text" | "m.notice";
+    content: string;
+    formatter: {
+      stripImages?: boolean;
+      formatTables?: boolean;
+      disableImageLinkPreviews?: boolean;
+    };
+    customPlaceholders?: CustomPlaceholderDto[] | null;
+    placeholderLimits?: Array<{
+      placeholder: string;
+      characterCount: number;
+      appendString?: string | null;
+    }> | null;
+    enablePlaceholderFallback?: boolean;
+  };
+}
@@ -0,0 +1,29 @@
+import { CustomPlaceholderDto } from "./custom-placeholder.type";
+import { CustomRateLimitDto } from "./custom-rate-limit.type";
+
+export interface SlackMediumEvent {
+  id: string;
+  key: "slack";
+  filters: {
+    expression: Record<string, unknown>;
+  } | null;
+  rateLimits?: CustomRateLimitDto[];
+  details: {
+    webhookUrl: string;
+    headerText?: string | null;
+    content: string;
+    imageUrl?: string | null;
+    formatter: {
+      stripImages?: boolean;
+      formatTables?: boolean;
+      disableImageLinkPreviews?: boolean;
+    };
+    customPlaceholders?: CustomPlaceholderDto[] | null;
+    placeholderLimits?: Array<{
+      placeholder: string;
+      characterCount: number;
+      appendString?: string | null;
+    }> | null;
+    enablePlaceholderFallback?: boolean;
+  };
+}
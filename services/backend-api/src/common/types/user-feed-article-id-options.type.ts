@@ -0,0 +1,26 @@
+import {
+  ArrayMinSize,
+  IsArray,
+  IsIn,
+  IsNotEmpty,
+  IsString,
+  ValidateIf,
+} from "class-validator";
+import { UserFeedArticleIdType } from "../../features/user-feeds/types/user-feed-article-id-type.type";
+
+export class UserFeedArticleIdOptions {
+  @IsIn(Object.values(UserFeedArticleIdType))
+  type: UserFeedArticleIdType;
+
+  @IsString()
+  @IsNotEmpty()
+  @ValidateIf((v) => v.type === UserFeedArticleIdType.Field)
+  field?: string | null;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  @ValidateIf((v) => v.type === UserFeedArticleIdType.Placeholders)
+  placeholders?: string[] | null;
+}
@@ -0,0 +1,32 @@
+import {
+  IsIn,
+  IsNotEmpty,
+  IsString,
+  Matches,
+  ValidateIf,
+} from "class-validator";
+import { UserFeedCredentialProfileType } from "../../features/user-feeds/types/user-feed-credential-profile-type.type";
+
+export class UserFeedCredentialProfileInput {
+  @IsIn(Object.values(UserFeedCredentialProfileType))
+  type: UserFeedCredentialProfileType;
+
+  @IsString()
+  @IsNotEmpty()
+  @ValidateIf((v) => v.type === UserFeedCredentialProfileType.HttpBasic)
+  username?: string | null;
+
+  @IsString()
+  @Matches(/^[!#$%&'*+.^_`|~0-9a-zA-Z-]+$/, {
+    message: "headerName must be a valid HTTP header name",
+  })
+  @ValidateIf((v) => v.type === UserFeedCredentialProfileType.CustomHeader)
+  headerName?: string | null;
+
+  /**
+   * The password, token, cookie or header value
+   */
+  @IsString()
+  @IsNotEmpty()
+  secret: string;
+}
@@ -0,0 +1,26 @@
+import {
+  ArrayMinSize,
+  IsArray,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  ValidateIf,
+} from "class-validator";
+import { UserFeedEditTrackingMode } from "../../features/user-feeds/types/user-feed-edit-tracking-mode.type";
+
+export class UserFeedEditTrackingOptions {
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  fields: string[];
+
+  @IsIn(Object.values(UserFeedEditTrackingMode))
+  mode: UserFeedEditTrackingMode;
+
+  @IsString()
+  @IsOptional()
+  @ValidateIf((v) => v.template !== null)
+  template?: string | null;
+}
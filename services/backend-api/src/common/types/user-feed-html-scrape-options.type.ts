@@ -0,0 +1,27 @@
+import { IsNotEmpty, IsOptional, IsString, ValidateIf } from "class-validator";
+
+export class UserFeedHtmlScrapeOptions {
+  @IsString()
+  @IsNotEmpty()
+  itemSelector: string;
+
+  @IsString()
+  @IsOptional()
+  @ValidateIf((v) => v.titleSelector !== null)
+  titleSelector?: string | null;
+
+  @IsString()
+  @IsOptional()
+  @ValidateIf((v) => v.linkSelector !== null)
+  linkSelector?: string | null;
+
+  @IsString()
+  @IsOptional()
+  @ValidateIf((v) => v.dateSelector !== null)
+  dateSelector?: string | null;
+
+  @IsString()
+  @IsOptional()
+  @ValidateIf((v) => v.descriptionSelector !== null)
+  descriptionSelector?: string | null;
+}
@@ -0,0 +1,8 @@
+import { IsOptional, IsString, ValidateIf } from "class-validator";
+
+export class UserFeedJsonOptions {
+  @IsString()
+  @IsOptional()
+  @ValidateIf((v) => v.itemsPath !== null)
+  itemsPath?: string | null;
+}
@@ -7,7 +7,10 @@ export function getCommonFeedAggregateStages({
   feedRequestLookupKey,
   withLookupKeys,
 }: {
-  refreshRateSeconds: number;
+  /**
+   * If omitted, feeds of every refresh rate are matched
+   */
+  refreshRateSeconds?: number;
   url?: string;
   feedRequestLookupKey?: string;
   withLookupKeys?: boolean;
@@ -50,6 +53,42 @@ export function getCommonFeedAggregateStages({
           },
         },
       },
+      {
+        "connections.slackChannels.0": {
+          $exists: true,
+        },
+        "connections.slackChannels": {
+          $elemMatch: {
+            disabledCode: {
+              $exists: false,
+            },
+          },
+        },
+      },
+      {
+        "connections.matrixRooms.0": {
+          $exists: true,
+        },
+        "connections.matrixRooms": {
+          $elemMatch: {
+            disabledCode: {
+              $exists: false,
+            },
+          },
+        },
+      },
+      {
+        "connections.httpWebhooks.0": {
+          $exists: true,
+        },
+        "connections.httpWebhooks": {
+          $elemMatch: {
+            disabledCode: {
+              $exists: false,
+            },
+          },
+        },
+      },
     ],
   };
 
@@ -57,28 +96,37 @@ export function getCommonFeedAggregateStages({
     {
       $match: query,
     },
-    {
+  ];
+
+  if (refreshRateSeconds !== undefined) {
+    pipelineStages.push({
       $match: {
         $or: [
           {
+            adaptiveRefreshRateSeconds: null,
             userRefreshRateSeconds: null,
             refreshRateSeconds: refreshRateSeconds,
           },
           {
+            adaptiveRefreshRateSeconds: null,
             userRefreshRateSeconds: refreshRateSeconds,
           },
+          {
+            adaptiveRefreshRateSeconds: refreshRateSeconds,
+          },
         ],
       },
+    });
+  }
+
+  pipelineStages.push({
+    $lookup: {
+      from: "users",
+      localField: "user.discordUserId",
+      foreignField: "discordUserId",
+      as: "users",
     },
-    {
-      $lookup: {
-        from: "users",
-        localField: "user.discordUserId",
-        foreignField: "discordUserId",
-        as: "users",
-      },
-    },
-  ];
+  });
 
   return pipelineStages;
 }
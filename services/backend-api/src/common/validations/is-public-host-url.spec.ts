@@ -0,0 +1,40 @@
+import { IsPublicHostUrl } from "./is-public-host-url";
+
+describe("IsPublicHostUrl", () => {
+  let constraint: IsPublicHostUrl;
+
+  beforeEach(() => {
+    constraint = new IsPublicHostUrl();
+  });
+
+  describe("validate", () => {
+    it("returns false for private and reserved hosts", () => {
+      [
+        "https://localhost/hook",
+        "https://app.localhost/hook",
+        "https://metadata.google.internal/computeMetadata/v1",
+        "https://127.0.0.1/hook",
+        "https://10.0.0.1/hook",
+        "https://192.168.1.1/hook",
+        "https://169.254.169.254/latest/meta-data",
+        "https://[::1]/hook",
+        "https://[fd00::1]/hook",
+        "https://[::ffff:127.0.0.1]/hook",
+      ].forEach((url) => {
+        expect(constraint.validate(url)).toBe(false);
+      });
+    });
+
+    it("returns true for public hosts", () => {
+      ["https://example.com/hook", "https://1.1.1.1/hook"].forEach((url) => {
+        expect(constraint.validate(url)).toBe(true);
+      });
+    });
+  });
+
+  describe("defaultMessage", () => {
+    it("returns a string", () => {
+      expect(typeof constraint.defaultMessage()).toBe("string");
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import {
+  ValidatorConstraint,
+  ValidatorConstraintInterface,
+} from "class-validator";
+import { BlockList, isIP } from "net";
+
+const blockList = new BlockList();
+
+[
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+].forEach(([address, prefix]) =>
+  blockList.addSubnet(address as string, prefix as number, "ipv4")
+);
+
+[
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["2001:db8::", 32],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+].forEach(([address, prefix]) =>
+  blockList.addSubnet(address as string, prefix as number, "ipv6")
+);
+
+const RESERVED_HOSTNAME_REGEX = /(^|\.)(localhost|local|internal)$/i;
+
+/**
+ * Rejects urls of loopback, private, link-local (which includes cloud metadata endpoints) and
+ * other reserved hosts. Hostnames are only resolved by the user-feeds service right before
+ * sending requests, which checks the resolved addresses too.
+ */
+@ValidatorConstraint({ name: "IsPublicHostUrl", async: false })
+export class IsPublicHostUrl implements ValidatorConstraintInterface {
+  validate(text: string) {
+    let hostname: string;
+
+    try {
+      hostname = new URL(text).hostname
+        .replace(/^\[|\]$/g, "")
+        .replace(/\.$/, "");
+    } catch (err) {
+      return false;
+    }
+
+    if (RESERVED_HOSTNAME_REGEX.test(hostname)) {
+      return false;
+    }
+
+    const family = isIP(hostname);
+
+    if (!family) {
+      return true;
+    }
+
+    return !blockList.check(hostname, family === 6 ? "ipv6" : "ipv4");
+  }
+
+  defaultMessage() {
+    return "URL must not point to a private or reserved host";
+  }
+}
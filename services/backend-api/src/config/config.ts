@@ -27,6 +27,10 @@ export default function config(options?: {
   skipValidation?: boolean;
 }): EnvironmentVariables {
   const port = parseInt(process.env.BACKEND_API_PORT as string, 10);
+  const metricsPort = parseInt(
+    process.env.BACKEND_API_METRICS_PORT as string,
+    10
+  );
 
   const configVals = {
     NODE_ENV: (process.env.NODE_ENV as Environment) || Environment.Local,
@@ -68,6 +72,8 @@ export default function config(options?: {
     BACKEND_API_FEED_USER_AGENT: process.env
       .BACKEND_API_FEED_USER_AGENT as string,
     BACKEND_API_DATADOG_API_KEY: process.env.BACKEND_API_DATADOG_API_KEY,
+    BACKEND_API_FEED_CREDENTIALS_ENCRYPTION_KEY:
+      process.env.BACKEND_API_FEED_CREDENTIALS_ENCRYPTION_KEY,
     BACKEND_API_FEED_REQUESTS_API_HOST: process.env
       .BACKEND_API_FEED_REQUESTS_API_HOST as string,
     BACKEND_API_FEED_REQUESTS_API_KEY: process.env
@@ -106,6 +112,7 @@ export default function config(options?: {
     BACKEND_API_SUPPORTER_ROLE_ID: process.env.BACKEND_API_SUPPORTER_ROLE_ID,
     BACKEND_API_SUPPORTER_SUBROLE_IDS:
       process.env.BACKEND_API_SUPPORTER_SUBROLE_IDS,
+    BACKEND_API_METRICS_PORT: isNaN(metricsPort) ? undefined : metricsPort,
   } as const;
 
   if (!options?.skipValidation) {
@@ -78,6 +78,13 @@ export class EnvironmentVariables {
   @IsOptional()
   BACKEND_API_DATADOG_API_KEY?: string;
 
+  /**
+   * Used to encrypt the credentials of feeds at rest. Feed credentials cannot be saved if unset.
+   */
+  @IsString()
+  @IsOptional()
+  BACKEND_API_FEED_CREDENTIALS_ENCRYPTION_KEY?: string;
+
   @IsString()
   @IsOptional()
   BACKEND_API_AWS_ACCESS_KEY_ID?: string;
@@ -181,6 +188,10 @@ export class EnvironmentVariables {
   @IsString()
   @IsOptional()
   BACKEND_API_SUPPORTER_SUBROLE_IDS?: string;
+
+  @IsNumber()
+  @IsOptional()
+  BACKEND_API_METRICS_PORT?: number;
 }
 
 export function validateConfig(
@@ -23,6 +23,7 @@ export default (): ReturnType<typeof config> => {
     BACKEND_API_RABBITMQ_BROKER_URL: "amqp://rabbitmq-broker-url.com:5672",
     BACKEND_API_DEFAULT_MAX_USER_FEEDS: 1000,
     BACKEND_API_DEFAULT_MAX_SUPPORTER_USER_FEEDS: 1000,
+    BACKEND_API_FEED_CREDENTIALS_ENCRYPTION_KEY: "feed-credentials-key",
   };
 
   validateConfig(configVals);
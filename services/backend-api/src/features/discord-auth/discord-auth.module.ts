@@ -1,14 +1,23 @@
 import { Module } from "@nestjs/common";
 import { DiscordApiModule } from "../../services/apis/discord/discord-api.module";
+import { PersonalAccessTokensModule } from "../personal-access-tokens/personal-access-tokens.module";
 import { UsersModule } from "../users/users.module";
 import { DiscordAuthController } from "./discord-auth.controller";
 import { DiscordAuthService } from "./discord-auth.service";
 import { DiscordPermissionsService } from "./discord-permissions.service";
 
 @Module({
-  imports: [DiscordApiModule, UsersModule.forRoot()],
+  imports: [
+    DiscordApiModule,
+    UsersModule.forRoot(),
+    PersonalAccessTokensModule,
+  ],
   controllers: [DiscordAuthController],
   providers: [DiscordAuthService, DiscordPermissionsService],
-  exports: [DiscordAuthService, DiscordPermissionsService],
+  exports: [
+    DiscordAuthService,
+    DiscordPermissionsService,
+    PersonalAccessTokensModule,
+  ],
 })
 export class DiscordAuthModule {}
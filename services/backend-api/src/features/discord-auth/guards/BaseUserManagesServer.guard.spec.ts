@@ -9,7 +9,10 @@ import { FastifyRequest } from "fastify";
 import { getAccessTokenFromRequest } from "../utils/get-access-token-from-session";
 import { DiscordAuthService } from "../discord-auth.service";
 
-jest.mock("../utils/get-access-token-from-session");
+jest.mock("../utils/get-access-token-from-session", () => ({
+  ...jest.requireActual("../utils/get-access-token-from-session"),
+  getAccessTokenFromRequest: jest.fn(),
+}));
 
 const mockedGetAccessTokenFromRequest = mocked(getAccessTokenFromRequest);
 
@@ -74,6 +77,18 @@ describe("BaseUserManagesServerGuard", () => {
     await expect(guard.canActivate(context)).rejects.toThrow();
   });
 
+  it("throws forbidden for personal access tokens", async () => {
+    mockedGetAccessTokenFromRequest.mockReturnValue({
+      access_token: "",
+      isPersonalAccessToken: true,
+    } as never);
+
+    await expect(guard.canActivate(context)).rejects.toThrow(
+      ForbiddenException
+    );
+    expect(discordAuthService.userManagesGuild).not.toHaveBeenCalled();
+  });
+
   it("throws unauthorized if access token was not found", async () => {
     mockedGetAccessTokenFromRequest.mockReturnValue(undefined);
     await expect(guard.canActivate(context)).rejects.toThrow(
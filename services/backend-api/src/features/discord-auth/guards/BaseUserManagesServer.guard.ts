@@ -7,7 +7,10 @@ import {
 } from "@nestjs/common";
 import { FastifyRequest } from "fastify";
 import { DiscordAuthService } from "../discord-auth.service";
-import { getAccessTokenFromRequest } from "../utils/get-access-token-from-session";
+import {
+  getAccessTokenFromRequest,
+  getDiscordOAuthAccessToken,
+} from "../utils/get-access-token-from-session";
 
 @Injectable()
 export abstract class BaseUserManagesServerGuard implements CanActivate {
@@ -46,6 +49,6 @@ export abstract class BaseUserManagesServerGuard implements CanActivate {
       throw new UnauthorizedException();
     }
 
-    return accessToken.access_token;
+    return getDiscordOAuthAccessToken(accessToken);
   }
 }
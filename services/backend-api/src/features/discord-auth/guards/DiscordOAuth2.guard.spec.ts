@@ -1,13 +1,23 @@
-import { ExecutionContext, UnauthorizedException } from "@nestjs/common";
+import {
+  ExecutionContext,
+  ForbiddenException,
+  HttpException,
+  UnauthorizedException,
+} from "@nestjs/common";
+import { PersonalAccessTokenScope } from "../../personal-access-tokens/constants";
+import { PersonalAccessTokensService } from "../../personal-access-tokens/personal-access-tokens.service";
+import { getPersonalAccessTokenFromRequest } from "../../personal-access-tokens/utils";
 import { DiscordAuthService } from "../discord-auth.service";
 import { DiscordOAuth2Guard } from "./DiscordOAuth2.guard";
 
 describe("DiscordOAuth2 Guard", () => {
   let guard: DiscordOAuth2Guard;
   let discordAuthService: DiscordAuthService;
+  let personalAccessTokensService: PersonalAccessTokensService;
   const sessionGet = jest.fn();
   const sessionSet = jest.fn();
   let executionContext: ExecutionContext;
+  let request: Record<string, unknown>;
 
   beforeEach(() => {
     jest.resetAllMocks();
@@ -17,18 +27,30 @@ describe("DiscordOAuth2 Guard", () => {
       refreshToken: jest.fn(),
     } as never;
 
+    personalAccessTokensService = {
+      authenticate: jest.fn(),
+      consumeRateLimit: jest.fn(),
+    } as never;
+
+    request = {
+      method: "GET",
+      headers: {},
+      session: {
+        get: sessionGet,
+        set: sessionSet,
+      },
+    };
+
     executionContext = {
       switchToHttp: () => ({
-        getRequest: () => ({
-          session: {
-            get: sessionGet,
-            set: sessionSet,
-          },
-        }),
+        getRequest: () => request,
       }),
     } as never;
 
-    guard = new DiscordOAuth2Guard(discordAuthService);
+    guard = new DiscordOAuth2Guard(
+      discordAuthService,
+      personalAccessTokensService
+    );
   });
 
   it("rejects with unauthorized if the request session has no access token", async () => {
@@ -59,4 +81,71 @@ describe("DiscordOAuth2 Guard", () => {
     expect(discordAuthService.refreshToken).toHaveBeenCalledWith(currentToken);
     expect(sessionSet).toHaveBeenCalledWith("accessToken", newToken);
   });
+
+  describe("personal access tokens", () => {
+    const token = {
+      id: "token-id",
+      discordUserId: "discord-user-id",
+      scopes: [PersonalAccessTokenScope.Read],
+    };
+
+    beforeEach(() => {
+      request.headers = {
+        authorization: "Bearer mrss_token",
+      };
+      jest
+        .spyOn(personalAccessTokensService, "consumeRateLimit")
+        .mockReturnValue(true);
+    });
+
+    it("attaches the token to the request if it is valid", async () => {
+      jest
+        .spyOn(personalAccessTokensService, "authenticate")
+        .mockResolvedValue(token);
+
+      await expect(guard.canActivate(executionContext)).resolves.toEqual(true);
+
+      expect(personalAccessTokensService.authenticate).toHaveBeenCalledWith(
+        "mrss_token"
+      );
+      expect(getPersonalAccessTokenFromRequest(request as never)).toEqual(
+        token
+      );
+      expect(sessionGet).not.toHaveBeenCalled();
+    });
+
+    it("rejects with unauthorized if the token is invalid", async () => {
+      jest
+        .spyOn(personalAccessTokensService, "authenticate")
+        .mockResolvedValue(null);
+
+      await expect(guard.canActivate(executionContext)).rejects.toThrowError(
+        UnauthorizedException
+      );
+    });
+
+    it("rejects with forbidden if the token is missing the write scope on changes", async () => {
+      request.method = "PATCH";
+      jest
+        .spyOn(personalAccessTokensService, "authenticate")
+        .mockResolvedValue(token);
+
+      await expect(guard.canActivate(executionContext)).rejects.toThrowError(
+        ForbiddenException
+      );
+    });
+
+    it("rejects if the token is rate limited", async () => {
+      jest
+        .spyOn(personalAccessTokensService, "authenticate")
+        .mockResolvedValue(token);
+      jest
+        .spyOn(personalAccessTokensService, "consumeRateLimit")
+        .mockReturnValue(false);
+
+      await expect(guard.canActivate(executionContext)).rejects.toThrowError(
+        HttpException
+      );
+    });
+  });
 });
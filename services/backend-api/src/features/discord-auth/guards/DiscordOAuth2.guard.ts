@@ -2,19 +2,41 @@ import {
   Injectable,
   CanActivate,
   ExecutionContext,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
   UnauthorizedException,
 } from "@nestjs/common";
 import { FastifyRequest } from "fastify";
+import { PersonalAccessTokenScope } from "../../personal-access-tokens/constants";
+import { PersonalAccessTokensService } from "../../personal-access-tokens/personal-access-tokens.service";
+import {
+  getBearerTokenFromRequest,
+  setPersonalAccessTokenOnRequest,
+} from "../../personal-access-tokens/utils";
 import { DiscordAuthService } from "../discord-auth.service";
 import { SessionAccessToken } from "../types/SessionAccessToken.type";
 
+const READ_ONLY_METHODS = ["GET", "HEAD", "OPTIONS"];
+
 @Injectable()
 export class DiscordOAuth2Guard implements CanActivate {
-  constructor(private readonly discordAuthService: DiscordAuthService) {}
+  constructor(
+    private readonly discordAuthService: DiscordAuthService,
+    private readonly personalAccessTokensService: PersonalAccessTokensService
+  ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
     const request = context.switchToHttp().getRequest() as FastifyRequest;
 
+    const bearerToken = getBearerTokenFromRequest(request);
+
+    if (bearerToken) {
+      await this.authenticatePersonalAccessToken(request, bearerToken);
+
+      return true;
+    }
+
     let token = request.session.get("accessToken") as
       | SessionAccessToken
       | undefined;
@@ -30,4 +52,34 @@ export class DiscordOAuth2Guard implements CanActivate {
 
     return true;
   }
+
+  private async authenticatePersonalAccessToken(
+    request: FastifyRequest,
+    value: string
+  ) {
+    const token = await this.personalAccessTokensService.authenticate(value);
+
+    if (!token) {
+      throw new UnauthorizedException();
+    }
+
+    const requiredScope = READ_ONLY_METHODS.includes(request.method)
+      ? PersonalAccessTokenScope.Read
+      : PersonalAccessTokenScope.Write;
+
+    if (!token.scopes.includes(requiredScope)) {
+      throw new ForbiddenException(
+        `Personal access token is missing the ${requiredScope} scope`
+      );
+    }
+
+    if (!this.personalAccessTokensService.consumeRateLimit(token.id)) {
+      throw new HttpException(
+        "Too many requests",
+        HttpStatus.TOO_MANY_REQUESTS
+      );
+    }
+
+    setPersonalAccessTokenOnRequest(request, token);
+  }
 }
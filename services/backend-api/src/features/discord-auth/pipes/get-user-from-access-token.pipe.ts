@@ -2,6 +2,7 @@ import { Injectable, PipeTransform } from "@nestjs/common";
 import { DiscordUser } from "../../discord-users/types/DiscordUser.type";
 import { DiscordAuthService } from "../discord-auth.service";
 import { SessionAccessToken } from "../types/SessionAccessToken.type";
+import { getDiscordOAuthAccessToken } from "../utils/get-access-token-from-session";
 
 export interface GetDiscordUserFromAccessTokenOutput {
   accessToken: SessionAccessToken;
@@ -16,7 +17,7 @@ export class GetDiscordUserFromAccessTokenPipe implements PipeTransform {
     token: SessionAccessToken
   ): Promise<GetDiscordUserFromAccessTokenOutput> {
     const discordUser = await this.discordAuthService.getUser(
-      token.access_token
+      getDiscordOAuthAccessToken(token)
     );
 
     return {
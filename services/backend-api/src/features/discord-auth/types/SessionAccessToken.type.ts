@@ -9,4 +9,9 @@ export type SessionAccessToken = DiscordAuthToken & {
     id: string;
     email?: string;
   };
+  /**
+   * Set if the request was authenticated with a personal access token instead of a session, in
+   * which case there is no Discord OAuth token
+   */
+  isPersonalAccessToken?: boolean;
 };
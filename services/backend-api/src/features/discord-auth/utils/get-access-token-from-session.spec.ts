@@ -0,0 +1,62 @@
+import { ForbiddenException } from "@nestjs/common";
+import { setPersonalAccessTokenOnRequest } from "../../personal-access-tokens/utils";
+import {
+  getAccessTokenFromRequest,
+  getDiscordOAuthAccessToken,
+} from "./get-access-token-from-session";
+
+describe("get-access-token-from-session", () => {
+  describe("getAccessTokenFromRequest", () => {
+    it("returns the session access token", () => {
+      const sessionToken = {
+        access_token: "access-token",
+        discord: { id: "discord-user-id" },
+      };
+      const request = {
+        session: {
+          get: jest.fn().mockReturnValue(sessionToken),
+        },
+      };
+
+      expect(getAccessTokenFromRequest(request as never)).toBe(sessionToken);
+    });
+
+    it("marks tokens of personal access tokens", () => {
+      const request = {
+        session: {
+          get: jest.fn(),
+        },
+      };
+
+      setPersonalAccessTokenOnRequest(request as never, {
+        id: "token-id",
+        discordUserId: "discord-user-id",
+        scopes: [],
+      });
+
+      expect(getAccessTokenFromRequest(request as never)).toMatchObject({
+        discord: { id: "discord-user-id" },
+        isPersonalAccessToken: true,
+      });
+    });
+  });
+
+  describe("getDiscordOAuthAccessToken", () => {
+    it("returns the discord access token", () => {
+      expect(
+        getDiscordOAuthAccessToken({
+          access_token: "access-token",
+        } as never)
+      ).toEqual("access-token");
+    });
+
+    it("throws forbidden for personal access tokens", () => {
+      expect(() =>
+        getDiscordOAuthAccessToken({
+          access_token: "",
+          isPersonalAccessToken: true,
+        } as never)
+      ).toThrow(ForbiddenException);
+    });
+  });
+});
@@ -1,8 +1,44 @@
+import { ForbiddenException } from "@nestjs/common";
 import { FastifyRequest } from "fastify";
+import { getPersonalAccessTokenFromRequest } from "../../personal-access-tokens/utils";
 import { SessionAccessToken } from "../types/SessionAccessToken.type";
 
 export const getAccessTokenFromRequest = (
   request: FastifyRequest
 ): SessionAccessToken | undefined => {
+  const personalAccessToken = getPersonalAccessTokenFromRequest(request);
+
+  if (personalAccessToken) {
+    /**
+     * Personal access tokens are not tied to a Discord OAuth token, so routes that call the
+     * Discord API on behalf of the user must use getDiscordOAuthAccessToken
+     */
+    return {
+      access_token: "",
+      token_type: "Bearer",
+      expires_in: 0,
+      refresh_token: "",
+      scope: "",
+      expiresAt: 0,
+      discord: {
+        id: personalAccessToken.discordUserId,
+      },
+      isPersonalAccessToken: true,
+    };
+  }
+
   return request.session.get("accessToken") as SessionAccessToken | undefined;
 };
+
+/**
+ * Returns the token to call the Discord API with on behalf of the user
+ */
+export const getDiscordOAuthAccessToken = (token: SessionAccessToken) => {
+  if (token.isPersonalAccessToken) {
+    throw new ForbiddenException(
+      "This is not available with personal access tokens. Sign in with Discord instead."
+    );
+  }
+
+  return token.access_token;
+};
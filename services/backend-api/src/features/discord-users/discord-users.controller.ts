@@ -18,7 +18,10 @@ import { DiscordAccessToken } from "../discord-auth/decorators/DiscordAccessToke
 import { DiscordAuthService } from "../discord-auth/discord-auth.service";
 import { DiscordOAuth2Guard } from "../discord-auth/guards/DiscordOAuth2.guard";
 import { SessionAccessToken } from "../discord-auth/types/SessionAccessToken.type";
-import { getAccessTokenFromRequest } from "../discord-auth/utils/get-access-token-from-session";
+import {
+  getAccessTokenFromRequest,
+  getDiscordOAuthAccessToken,
+} from "../discord-auth/utils/get-access-token-from-session";
 import { DiscordUsersService } from "./discord-users.service";
 import {
   GetMeAuthStatusOutputDto,
@@ -63,7 +66,7 @@ export class DiscordUsersController {
   @UseGuards(DiscordOAuth2Guard)
   async getMe(@DiscordAccessToken() accessToken: SessionAccessToken) {
     const user = await this.discordUsersService.getUser(
-      accessToken.access_token
+      getDiscordOAuthAccessToken(accessToken)
     );
 
     return {
@@ -134,7 +137,7 @@ export class DiscordUsersController {
     @DiscordAccessToken() accessToken: SessionAccessToken
   ): Promise<GetMyServersOutputDto> {
     const guilds = await this.discordUsersService.getGuilds(
-      accessToken.access_token
+      getDiscordOAuthAccessToken(accessToken)
     );
 
     const data = guilds.map((guild) => ({
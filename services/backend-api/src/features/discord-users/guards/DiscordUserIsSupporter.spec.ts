@@ -2,7 +2,12 @@ import { UnauthorizedException } from "@nestjs/common";
 import { getAccessTokenFromRequest } from "../../discord-auth/utils/get-access-token-from-session";
 import { DiscordUserIsSupporterGuard } from "./DiscordUserIsSupporter";
 
-jest.mock("../../discord-auth/utils/get-access-token-from-session");
+jest.mock("../../discord-auth/utils/get-access-token-from-session", () => ({
+  ...jest.requireActual(
+    "../../discord-auth/utils/get-access-token-from-session"
+  ),
+  getAccessTokenFromRequest: jest.fn(),
+}));
 
 const mockGetAccessToken = getAccessTokenFromRequest as jest.Mock;
 
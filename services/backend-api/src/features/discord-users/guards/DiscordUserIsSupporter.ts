@@ -5,7 +5,10 @@ import {
   UnauthorizedException,
 } from "@nestjs/common";
 import { FastifyRequest } from "fastify";
-import { getAccessTokenFromRequest } from "../../discord-auth/utils/get-access-token-from-session";
+import {
+  getAccessTokenFromRequest,
+  getDiscordOAuthAccessToken,
+} from "../../discord-auth/utils/get-access-token-from-session";
 import { SupportersService } from "../../supporters/supporters.service";
 import { DiscordUsersService } from "../discord-users.service";
 
@@ -25,7 +28,9 @@ export class DiscordUserIsSupporterGuard implements CanActivate {
       throw new UnauthorizedException();
     }
 
-    const user = await this.usersService.getUser(token.access_token);
+    const user = await this.usersService.getUser(
+      getDiscordOAuthAccessToken(token)
+    );
 
     const benefits = await this.supportersService.getBenefitsOfDiscordUser(
       user.id
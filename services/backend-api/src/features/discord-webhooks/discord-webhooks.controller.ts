@@ -20,6 +20,7 @@ import { HttpCacheInterceptor } from "../../common/interceptors/http-cache-inter
 import { WebhookExceptionFilter } from "./filters/webhook-exception.filter";
 import { DiscordAccessToken } from "../discord-auth/decorators/DiscordAccessToken";
 import { SessionAccessToken } from "../discord-auth/types/SessionAccessToken.type";
+import { getDiscordOAuthAccessToken } from "../discord-auth/utils/get-access-token-from-session";
 import { DiscordAuthService } from "../discord-auth/discord-auth.service";
 import { DiscordAPIError } from "../../common/errors/DiscordAPIError";
 import { WebhookMissingPermissionsException } from "./exceptions";
@@ -57,8 +58,11 @@ export class DiscordWebhooksController {
     @Param("id")
     webhookId: string,
     @DiscordAccessToken()
-    { access_token, discord: { id: discordUserId } }: SessionAccessToken
+    accessToken: SessionAccessToken
   ) {
+    const discordUserId = accessToken.discord.id;
+    const userAccessToken = getDiscordOAuthAccessToken(accessToken);
+
     try {
       const webhook = await this.discordWebhooksService.getWebhook(webhookId);
 
@@ -69,7 +73,7 @@ export class DiscordWebhooksController {
       }
 
       const managesGuild = await this.discordAuthService.userManagesGuild(
-        access_token,
+        userAccessToken,
         webhook.guild_id
       );
 
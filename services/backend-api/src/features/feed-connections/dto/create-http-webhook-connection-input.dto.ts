@@ -0,0 +1,62 @@
+import { Type } from "class-transformer";
+import {
+  IsArray,
+  IsIn,
+  IsInt,
+  IsJSON,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Max,
+  Min,
+  Validate,
+  ValidateNested,
+} from "class-validator";
+import { IsPublicHostUrl } from "../../../common/validations/is-public-host-url";
+
+export class HttpWebhookHeaderDto {
+  @IsString()
+  @IsNotEmpty()
+  key: string;
+
+  @IsString()
+  value: string;
+}
+
+export class CreateHttpWebhookConnectionInputDto {
+  @IsString()
+  name: string;
+
+  @IsUrl({
+    protocols: ["https"],
+    require_protocol: true,
+  })
+  @Validate(IsPublicHostUrl)
+  url: string;
+
+  @IsIn(["POST", "PUT", "PATCH"])
+  @IsOptional()
+  method?: "POST" | "PUT" | "PATCH";
+
+  @IsArray()
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @Type(() => HttpWebhookHeaderDto)
+  headers?: HttpWebhookHeaderDto[];
+
+  @IsJSON()
+  @IsOptional()
+  bodyTemplate?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  signingSecret?: string;
+
+  @IsInt()
+  @Min(0)
+  @Max(2)
+  @IsOptional()
+  retries?: number;
+}
@@ -0,0 +1,101 @@
+import { Type } from "class-transformer";
+import {
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsObject,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from "class-validator";
+import {
+  ConnectionScheduleDto,
+  CustomPlaceholderDto,
+  CustomRateLimitDto,
+  DiscordConnectionFormatterOptions,
+  FiltersDto,
+} from "../../../common";
+import {
+  FeedConnectionDisabledCode,
+  FeedConnectionType,
+} from "../../feeds/constants";
+
+class DetailsDto {
+  @IsString()
+  url: string;
+
+  @IsIn(["POST", "PUT", "PATCH"])
+  @IsOptional()
+  method?: "POST" | "PUT" | "PATCH";
+
+  @IsArray()
+  @IsString({ each: true })
+  headerKeys: string[];
+
+  @IsString()
+  @IsOptional()
+  bodyTemplate?: string | null;
+
+  @IsBoolean()
+  hasSigningSecret: boolean;
+
+  @IsInt()
+  @IsOptional()
+  retries?: number;
+
+  @IsObject()
+  @IsOptional()
+  @Type(() => DiscordConnectionFormatterOptions)
+  @ValidateNested()
+  formatter?: DiscordConnectionFormatterOptions | null;
+}
+
+/**
+ * Header values and the signing secret are omitted since they are commonly used to authenticate
+ * requests to the receiving server.
+ */
+export class CreateHttpWebhookConnectionOutputDto {
+  @IsString()
+  id: string;
+
+  @IsString()
+  name: string;
+
+  @IsString()
+  @IsIn([FeedConnectionType.HttpWebhook])
+  key: FeedConnectionType.HttpWebhook;
+
+  @IsString()
+  @IsOptional()
+  disabledCode?: FeedConnectionDisabledCode;
+
+  @IsObject()
+  @Type(() => FiltersDto)
+  @ValidateNested()
+  @IsOptional()
+  filters?: FiltersDto | null;
+
+  @IsArray()
+  @Type(() => CustomRateLimitDto)
+  @ValidateNested({ each: true })
+  @IsOptional()
+  rateLimits?: CustomRateLimitDto[];
+
+  @IsObject()
+  @Type(() => ConnectionScheduleDto)
+  @ValidateNested()
+  @IsOptional()
+  schedule?: ConnectionScheduleDto | null;
+
+  @IsArray()
+  @Type(() => CustomPlaceholderDto)
+  @ValidateNested({ each: true })
+  @IsOptional()
+  customPlaceholders?: CustomPlaceholderDto[];
+
+  @IsObject()
+  @Type(() => DetailsDto)
+  @ValidateNested()
+  details: DetailsDto;
+}
@@ -0,0 +1,28 @@
+import { IsIn, IsNotEmpty, IsOptional, IsString, IsUrl } from "class-validator";
+
+export class CreateMatrixRoomConnectionInputDto {
+  @IsString()
+  name: string;
+
+  @IsUrl({
+    protocols: ["https"],
+    require_protocol: true,
+  })
+  homeserverUrl: string;
+
+  @IsString()
+  @IsNotEmpty()
+  roomId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  accessToken: string;
+
+  @IsIn(["m.text", "m.notice"])
+  @IsOptional()
+  msgtype?: "m.text" | "m.notice";
+
+  @IsString()
+  @IsOptional()
+  content?: string;
+}
@@ -0,0 +1,90 @@
+import { Type } from "class-transformer";
+import {
+  IsArray,
+  IsIn,
+  IsObject,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from "class-validator";
+import {
+  ConnectionScheduleDto,
+  CustomPlaceholderDto,
+  CustomRateLimitDto,
+  DiscordConnectionFormatterOptions,
+  FiltersDto,
+} from "../../../common";
+import {
+  FeedConnectionDisabledCode,
+  FeedConnectionType,
+} from "../../feeds/constants";
+
+class DetailsDto {
+  @IsString()
+  homeserverUrl: string;
+
+  @IsString()
+  roomId: string;
+
+  @IsIn(["m.text", "m.notice"])
+  @IsOptional()
+  msgtype?: "m.text" | "m.notice";
+
+  @IsString()
+  @IsOptional()
+  content?: string;
+
+  @IsObject()
+  @IsOptional()
+  @Type(() => DiscordConnectionFormatterOptions)
+  @ValidateNested()
+  formatter?: DiscordConnectionFormatterOptions | null;
+}
+
+/**
+ * The access token is omitted since it grants full access to the Matrix account.
+ */
+export class CreateMatrixRoomConnectionOutputDto {
+  @IsString()
+  id: string;
+
+  @IsString()
+  name: string;
+
+  @IsString()
+  @IsIn([FeedConnectionType.MatrixRoom])
+  key: FeedConnectionType.MatrixRoom;
+
+  @IsString()
+  @IsOptional()
+  disabledCode?: FeedConnectionDisabledCode;
+
+  @IsObject()
+  @Type(() => FiltersDto)
+  @ValidateNested()
+  @IsOptional()
+  filters?: FiltersDto | null;
+
+  @IsArray()
+  @Type(() => CustomRateLimitDto)
+  @ValidateNested({ each: true })
+  @IsOptional()
+  rateLimits?: CustomRateLimitDto[];
+
+  @IsObject()
+  @Type(() => ConnectionScheduleDto)
+  @ValidateNested()
+  @IsOptional()
+  schedule?: ConnectionScheduleDto | null;
+
+  @IsArray()
+  @Type(() => CustomPlaceholderDto)
+  @ValidateNested({ each: true })
+  @IsOptional()
+  customPlaceholders?: CustomPlaceholderDto[];
+
+  @IsObject()
+  @Type(() => DetailsDto)
+  @ValidateNested()
+  details: DetailsDto;
+}
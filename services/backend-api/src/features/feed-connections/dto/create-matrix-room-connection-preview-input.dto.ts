@@ -0,0 +1,75 @@
+import { Type } from "class-transformer";
+import {
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  ValidateIf,
+  ValidateNested,
+} from "class-validator";
+import {
+  CustomPlaceholderDto,
+  DiscordConnectionFormatterOptions,
+  DiscordPlaceholderLimitOptions,
+  UserFeedFormatOptions,
+} from "../../../common";
+
+class Article {
+  @IsString()
+  @IsNotEmpty()
+  id: string;
+}
+
+export class CreateMatrixRoomConnectionPreviewInputDto {
+  @IsObject()
+  @Type(() => Article)
+  @ValidateNested()
+  article: Article;
+
+  @IsIn(["m.text", "m.notice"])
+  @IsOptional()
+  msgtype?: "m.text" | "m.notice";
+
+  @IsString()
+  @IsOptional()
+  content?: string;
+
+  @IsObject({ each: true })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CustomPlaceholderDto)
+  customPlaceholders?: CustomPlaceholderDto[] | undefined | null;
+
+  @IsOptional()
+  @Type(() => DiscordPlaceholderLimitOptions)
+  @ValidateNested({ each: true })
+  @IsArray()
+  placeholderLimits?: DiscordPlaceholderLimitOptions[];
+
+  @IsOptional()
+  @Type(() => DiscordConnectionFormatterOptions)
+  @ValidateNested()
+  @IsObject()
+  @ValidateIf((v) => v !== null)
+  connectionFormatOptions?: DiscordConnectionFormatterOptions | null;
+
+  @IsOptional()
+  @Type(() => UserFeedFormatOptions)
+  @ValidateNested()
+  @IsObject()
+  @ValidateIf((v) => v !== null)
+  userFeedFormatOptions?: UserFeedFormatOptions | null;
+
+  @IsOptional()
+  @Type(() => Boolean)
+  @IsBoolean()
+  enablePlaceholderFallback?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  includeCustomPlaceholderPreviews?: boolean;
+}
@@ -0,0 +1,4 @@
+/* eslint-disable max-len */
+import { CreateMatrixRoomConnectionPreviewInputDto } from "./create-matrix-room-connection-preview-input.dto";
+
+export class CreateMatrixRoomConnectionTestArticleInputDto extends CreateMatrixRoomConnectionPreviewInputDto {}
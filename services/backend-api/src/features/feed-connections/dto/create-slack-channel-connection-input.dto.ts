@@ -0,0 +1,24 @@
+import { IsOptional, IsString, IsUrl } from "class-validator";
+
+export class CreateSlackChannelConnectionInputDto {
+  @IsString()
+  name: string;
+
+  @IsUrl({
+    protocols: ["https"],
+    require_protocol: true,
+  })
+  webhookUrl: string;
+
+  @IsString()
+  @IsOptional()
+  headerText?: string;
+
+  @IsString()
+  @IsOptional()
+  content?: string;
+
+  @IsString()
+  @IsOptional()
+  imageUrl?: string;
+}
@@ -0,0 +1,88 @@
+import { Type } from "class-transformer";
+import {
+  IsArray,
+  IsIn,
+  IsObject,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from "class-validator";
+import {
+  ConnectionScheduleDto,
+  CustomPlaceholderDto,
+  CustomRateLimitDto,
+  DiscordConnectionFormatterOptions,
+  FiltersDto,
+} from "../../../common";
+import {
+  FeedConnectionDisabledCode,
+  FeedConnectionType,
+} from "../../feeds/constants";
+
+class DetailsDto {
+  @IsString()
+  @IsOptional()
+  headerText?: string | null;
+
+  @IsString()
+  @IsOptional()
+  content?: string;
+
+  @IsString()
+  @IsOptional()
+  imageUrl?: string | null;
+
+  @IsObject()
+  @IsOptional()
+  @Type(() => DiscordConnectionFormatterOptions)
+  @ValidateNested()
+  formatter?: DiscordConnectionFormatterOptions | null;
+}
+
+/**
+ * The webhook URL is omitted since anyone with it is able to post to the channel.
+ */
+export class CreateSlackChannelConnectionOutputDto {
+  @IsString()
+  id: string;
+
+  @IsString()
+  name: string;
+
+  @IsString()
+  @IsIn([FeedConnectionType.SlackChannel])
+  key: FeedConnectionType.SlackChannel;
+
+  @IsString()
+  @IsOptional()
+  disabledCode?: FeedConnectionDisabledCode;
+
+  @IsObject()
+  @Type(() => FiltersDto)
+  @ValidateNested()
+  @IsOptional()
+  filters?: FiltersDto | null;
+
+  @IsArray()
+  @Type(() => CustomRateLimitDto)
+  @ValidateNested({ each: true })
+  @IsOptional()
+  rateLimits?: CustomRateLimitDto[];
+
+  @IsObject()
+  @Type(() => ConnectionScheduleDto)
+  @ValidateNested()
+  @IsOptional()
+  schedule?: ConnectionScheduleDto | null;
+
+  @IsArray()
+  @Type(() => CustomPlaceholderDto)
+  @ValidateNested({ each: true })
+  @IsOptional()
+  customPlaceholders?: CustomPlaceholderDto[];
+
+  @IsObject()
+  @Type(() => DetailsDto)
+  @ValidateNested()
+  details: DetailsDto;
+}
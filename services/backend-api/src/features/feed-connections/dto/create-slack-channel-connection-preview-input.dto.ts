@@ -0,0 +1,80 @@
+import { Type } from "class-transformer";
+import {
+  IsArray,
+  IsBoolean,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  ValidateIf,
+  ValidateNested,
+} from "class-validator";
+import {
+  CustomPlaceholderDto,
+  DiscordConnectionFormatterOptions,
+  DiscordPlaceholderLimitOptions,
+  UserFeedFormatOptions,
+} from "../../../common";
+
+class Article {
+  @IsString()
+  @IsNotEmpty()
+  id: string;
+}
+
+export class CreateSlackChannelConnectionPreviewInputDto {
+  @IsObject()
+  @Type(() => Article)
+  @ValidateNested()
+  article: Article;
+
+  @IsString()
+  @IsOptional()
+  @ValidateIf((v) => v !== null)
+  headerText?: string | null;
+
+  @IsString()
+  @IsOptional()
+  content?: string;
+
+  @IsString()
+  @IsOptional()
+  @ValidateIf((v) => v !== null)
+  imageUrl?: string | null;
+
+  @IsObject({ each: true })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CustomPlaceholderDto)
+  customPlaceholders?: CustomPlaceholderDto[] | undefined | null;
+
+  @IsOptional()
+  @Type(() => DiscordPlaceholderLimitOptions)
+  @ValidateNested({ each: true })
+  @IsArray()
+  placeholderLimits?: DiscordPlaceholderLimitOptions[];
+
+  @IsOptional()
+  @Type(() => DiscordConnectionFormatterOptions)
+  @ValidateNested()
+  @IsObject()
+  @ValidateIf((v) => v !== null)
+  connectionFormatOptions?: DiscordConnectionFormatterOptions | null;
+
+  @IsOptional()
+  @Type(() => UserFeedFormatOptions)
+  @ValidateNested()
+  @IsObject()
+  @ValidateIf((v) => v !== null)
+  userFeedFormatOptions?: UserFeedFormatOptions | null;
+
+  @IsOptional()
+  @Type(() => Boolean)
+  @IsBoolean()
+  enablePlaceholderFallback?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  includeCustomPlaceholderPreviews?: boolean;
+}
@@ -0,0 +1,11 @@
+import { TestDeliveryStatus } from "../../../services/feed-handler/constants";
+
+class ResultDto {
+  status: TestDeliveryStatus;
+  messages?: Array<Record<string, unknown>>;
+  customPlaceholderPreviews: string[][];
+}
+
+export class CreateSlackChannelConnectionPreviewOutputDto {
+  result: ResultDto;
+}
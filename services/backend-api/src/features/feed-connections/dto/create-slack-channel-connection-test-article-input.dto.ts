@@ -0,0 +1,4 @@
+/* eslint-disable max-len */
+import { CreateSlackChannelConnectionPreviewInputDto } from "./create-slack-channel-connection-preview-input.dto";
+
+export class CreateSlackChannelConnectionTestArticleInputDto extends CreateSlackChannelConnectionPreviewInputDto {}
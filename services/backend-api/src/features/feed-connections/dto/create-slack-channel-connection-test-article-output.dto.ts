@@ -0,0 +1,11 @@
+import { TestDeliveryStatus } from "../../../services/feed-handler/constants";
+
+class ResultDto {
+  status: TestDeliveryStatus;
+  apiResponse?: Record<string, unknown>;
+  apiPayload?: Record<string, unknown>;
+}
+
+export class CreateSlackChannelConnectionTestArticleOutputDto {
+  result: ResultDto;
+}
@@ -17,3 +17,23 @@ export * from "./create-discord-webhook-connection-preview-output.dto";
 export * from "./create-discord-channel-connection-clone-input.dto";
 export * from "./create-discord-webhook-connection-clone-input.dto";
 export * from "./create-discord-channel-connection-copy-connection-settings-input.dto";
+export * from "./create-slack-channel-connection-input.dto";
+export * from "./create-slack-channel-connection-output.dto";
+export * from "./update-slack-channel-connection-input.dto";
+export * from "./update-slack-channel-connection-output.dto";
+export * from "./create-slack-channel-connection-preview-input.dto";
+export * from "./create-slack-channel-connection-preview-output.dto";
+export * from "./create-slack-channel-connection-test-article-input.dto";
+export * from "./create-slack-channel-connection-test-article-output.dto";
+export * from "./create-matrix-room-connection-input.dto";
+export * from "./create-matrix-room-connection-output.dto";
+export * from "./update-matrix-room-connection-input.dto";
+export * from "./update-matrix-room-connection-output.dto";
+export * from "./create-matrix-room-connection-preview-input.dto";
+export * from "./create-matrix-room-connection-preview-output.dto";
+export * from "./create-matrix-room-connection-test-article-input.dto";
+export * from "./create-matrix-room-connection-test-article-output.dto";
+export * from "./create-http-webhook-connection-input.dto";
+export * from "./create-http-webhook-connection-output.dto";
+export * from "./update-http-webhook-connection-input.dto";
+export * from "./update-http-webhook-connection-output.dto";
@@ -20,6 +20,7 @@ import {
   MentionsOptionsDto,
   DiscordPlaceholderLimitOptions,
   CustomPlaceholderDto,
+  ConnectionScheduleDto,
   CustomRateLimitDto,
   ForumThreadTagDto,
 } from "../../../common";
@@ -159,4 +160,11 @@ export class UpdateDiscordChannelConnectionInputDto {
   @ValidateNested({ each: true })
   @Type(() => CustomRateLimitDto)
   rateLimits?: CustomRateLimitDto[];
+
+  @IsObject()
+  @IsOptional()
+  @Type(() => ConnectionScheduleDto)
+  @ValidateNested()
+  @ValidateIf((v) => v.schedule !== null)
+  schedule?: ConnectionScheduleDto | null;
 }
@@ -12,6 +12,7 @@ import {
 } from "class-validator";
 import {
   CustomPlaceholderDto,
+  ConnectionScheduleDto,
   CustomRateLimitDto,
   DiscordEmbed,
   DiscordPlaceholderLimitOptions,
@@ -150,4 +151,11 @@ export class UpdateDiscordWebhookConnectionInputDto {
   @ValidateNested({ each: true })
   @Type(() => CustomRateLimitDto)
   rateLimits?: CustomRateLimitDto[];
+
+  @IsObject()
+  @IsOptional()
+  @Type(() => ConnectionScheduleDto)
+  @ValidateNested()
+  @ValidateIf((v) => v.schedule !== null)
+  schedule?: ConnectionScheduleDto | null;
 }
@@ -0,0 +1,118 @@
+import { Type } from "class-transformer";
+import {
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsJSON,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Max,
+  Min,
+  Validate,
+  ValidateIf,
+  ValidateNested,
+} from "class-validator";
+import { IsPublicHostUrl } from "../../../common/validations/is-public-host-url";
+import {
+  CustomPlaceholderDto,
+  ConnectionScheduleDto,
+  CustomRateLimitDto,
+  DiscordConnectionFormatterOptions,
+  DiscordPlaceholderLimitOptions,
+  FiltersDto,
+} from "../../../common";
+import { FeedConnectionDisabledCode } from "../../feeds/constants";
+import { HttpWebhookHeaderDto } from "./create-http-webhook-connection-input.dto";
+
+export class UpdateHttpWebhookConnectionInputDto {
+  @IsString()
+  @IsOptional()
+  name?: string;
+
+  @IsUrl({
+    protocols: ["https"],
+    require_protocol: true,
+  })
+  @Validate(IsPublicHostUrl)
+  @IsOptional()
+  url?: string;
+
+  @IsIn(["POST", "PUT", "PATCH"])
+  @IsOptional()
+  method?: "POST" | "PUT" | "PATCH";
+
+  @IsArray()
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @Type(() => HttpWebhookHeaderDto)
+  headers?: HttpWebhookHeaderDto[];
+
+  @IsJSON()
+  @IsOptional()
+  @ValidateIf((v) => v !== null)
+  bodyTemplate?: string | null;
+
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  @ValidateIf((v) => v !== null)
+  signingSecret?: string | null;
+
+  @IsInt()
+  @Min(0)
+  @Max(2)
+  @IsOptional()
+  retries?: number;
+
+  @IsObject()
+  @IsOptional()
+  @Type(() => FiltersDto)
+  @ValidateNested({ each: true })
+  filters?: FiltersDto;
+
+  @IsArray()
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @Type(() => DiscordPlaceholderLimitOptions)
+  placeholderLimits?: DiscordPlaceholderLimitOptions[];
+
+  @IsIn([FeedConnectionDisabledCode.Manual, null])
+  @IsOptional()
+  disabledCode?: FeedConnectionDisabledCode.Manual | null;
+
+  @IsOptional()
+  @Type(() => DiscordConnectionFormatterOptions)
+  @ValidateNested()
+  @IsObject()
+  @ValidateIf((v) => v !== null)
+  formatter?: DiscordConnectionFormatterOptions | null;
+
+  @IsOptional()
+  @Type(() => Boolean)
+  @IsBoolean()
+  enablePlaceholderFallback?: boolean;
+
+  @IsObject({ each: true })
+  @IsArray()
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @Type(() => CustomPlaceholderDto)
+  customPlaceholders?: CustomPlaceholderDto[];
+
+  @IsArray()
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @Type(() => CustomRateLimitDto)
+  rateLimits?: CustomRateLimitDto[];
+
+  @IsObject()
+  @IsOptional()
+  @Type(() => ConnectionScheduleDto)
+  @ValidateNested()
+  @ValidateIf((v) => v.schedule !== null)
+  schedule?: ConnectionScheduleDto | null;
+}
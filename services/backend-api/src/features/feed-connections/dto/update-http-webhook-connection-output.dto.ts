@@ -0,0 +1,4 @@
+import { CreateHttpWebhookConnectionOutputDto } from "./create-http-webhook-connection-output.dto";
+
+// eslint-disable-next-line max-len
+export class UpdateHttpWebhookConnectionOutputDto extends CreateHttpWebhookConnectionOutputDto {}
@@ -0,0 +1,101 @@
+import { Type } from "class-transformer";
+import {
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUrl,
+  ValidateIf,
+  ValidateNested,
+} from "class-validator";
+import {
+  CustomPlaceholderDto,
+  ConnectionScheduleDto,
+  CustomRateLimitDto,
+  DiscordConnectionFormatterOptions,
+  DiscordPlaceholderLimitOptions,
+  FiltersDto,
+} from "../../../common";
+import { FeedConnectionDisabledCode } from "../../feeds/constants";
+
+export class UpdateMatrixRoomConnectionInputDto {
+  @IsString()
+  @IsOptional()
+  name?: string;
+
+  @IsUrl({
+    protocols: ["https"],
+    require_protocol: true,
+  })
+  @IsOptional()
+  homeserverUrl?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  roomId?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  accessToken?: string;
+
+  @IsIn(["m.text", "m.notice"])
+  @IsOptional()
+  msgtype?: "m.text" | "m.notice";
+
+  @IsString()
+  @IsOptional()
+  content?: string;
+
+  @IsObject()
+  @IsOptional()
+  @Type(() => FiltersDto)
+  @ValidateNested({ each: true })
+  filters?: FiltersDto;
+
+  @IsArray()
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @Type(() => DiscordPlaceholderLimitOptions)
+  placeholderLimits?: DiscordPlaceholderLimitOptions[];
+
+  @IsIn([FeedConnectionDisabledCode.Manual, null])
+  @IsOptional()
+  disabledCode?: FeedConnectionDisabledCode.Manual | null;
+
+  @IsOptional()
+  @Type(() => DiscordConnectionFormatterOptions)
+  @ValidateNested()
+  @IsObject()
+  @ValidateIf((v) => v !== null)
+  formatter?: DiscordConnectionFormatterOptions | null;
+
+  @IsOptional()
+  @Type(() => Boolean)
+  @IsBoolean()
+  enablePlaceholderFallback?: boolean;
+
+  @IsObject({ each: true })
+  @IsArray()
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @Type(() => CustomPlaceholderDto)
+  customPlaceholders?: CustomPlaceholderDto[];
+
+  @IsArray()
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @Type(() => CustomRateLimitDto)
+  rateLimits?: CustomRateLimitDto[];
+
+  @IsObject()
+  @IsOptional()
+  @Type(() => ConnectionScheduleDto)
+  @ValidateNested()
+  @ValidateIf((v) => v.schedule !== null)
+  schedule?: ConnectionScheduleDto | null;
+}
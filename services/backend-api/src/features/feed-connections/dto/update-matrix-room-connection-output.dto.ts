@@ -0,0 +1,4 @@
+import { CreateMatrixRoomConnectionOutputDto } from "./create-matrix-room-connection-output.dto";
+
+// eslint-disable-next-line max-len
+export class UpdateMatrixRoomConnectionOutputDto extends CreateMatrixRoomConnectionOutputDto {}
@@ -0,0 +1,4 @@
+import { CreateSlackChannelConnectionOutputDto } from "./create-slack-channel-connection-output.dto";
+
+// eslint-disable-next-line max-len
+export class UpdateSlackChannelConnectionOutputDto extends CreateSlackChannelConnectionOutputDto {}
@@ -0,0 +1,78 @@
+import { ModelDefinition, Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Document, Model, Schema as MongooseSchema, Types } from "mongoose";
+import { DiscordChannelConnection } from "../../feeds/entities/feed-connections";
+
+/**
+ * The parts of a connection that control what is delivered and how it looks
+ */
+export type DiscordChannelConnectionTemplate = Pick<
+  DiscordChannelConnection,
+  "filters" | "splitOptions" | "mentions" | "customPlaceholders"
+> &
+  Pick<
+    DiscordChannelConnection["details"],
+    | "content"
+    | "embeds"
+    | "componentRows"
+    | "formatter"
+    | "forumThreadTitle"
+    | "forumThreadTags"
+    | "placeholderLimits"
+    | "enablePlaceholderFallback"
+  >;
+
+/**
+ * A previous version of a connection's template, saved before it was changed
+ */
+@Schema({
+  timestamps: {
+    createdAt: true,
+    updatedAt: false,
+  },
+})
+export class DiscordChannelConnectionRevision {
+  _id: Types.ObjectId;
+
+  @Prop({
+    type: MongooseSchema.Types.ObjectId,
+    required: true,
+  })
+  feedId: Types.ObjectId;
+
+  @Prop({
+    type: MongooseSchema.Types.ObjectId,
+    required: true,
+  })
+  connectionId: Types.ObjectId;
+
+  /**
+   * The user whose change replaced this revision
+   */
+  @Prop({
+    required: false,
+  })
+  replacedByDiscordUserId?: string;
+
+  @Prop({
+    type: MongooseSchema.Types.Mixed,
+    required: true,
+  })
+  template: DiscordChannelConnectionTemplate;
+
+  createdAt: Date;
+}
+
+export type DiscordChannelConnectionRevisionDocument =
+  DiscordChannelConnectionRevision & Document;
+export type DiscordChannelConnectionRevisionModel =
+  Model<DiscordChannelConnectionRevisionDocument>;
+export const DiscordChannelConnectionRevisionSchema =
+  SchemaFactory.createForClass(DiscordChannelConnectionRevision);
+DiscordChannelConnectionRevisionSchema.index({
+  connectionId: 1,
+  createdAt: -1,
+});
+export const DiscordChannelConnectionRevisionFeature: ModelDefinition = {
+  name: DiscordChannelConnectionRevision.name,
+  schema: DiscordChannelConnectionRevisionSchema,
+};
@@ -0,0 +1 @@
+export * from "./discord-channel-connection-revision.entity";
@@ -2,3 +2,4 @@ export * from "./discord-channel-permissions.exception";
 export * from "./missing-discord-channel.exception";
 export * from "./feed-connection-not-found.exception";
 export * from "./invalid-discord-channel.exception";
+export * from "./connection-revision-not-found.exception";
@@ -76,7 +76,11 @@ describe("FeedConnectionsDiscordChannelsController", () => {
         },
         {
           access_token: accessToken,
-        } as never
+        } as never,
+        {
+          discordUserId: "discordUserId",
+          route: "POST /user-feeds/:feedId/connections/discord-channels",
+        }
       );
 
       expect(result).toEqual({
@@ -143,6 +147,11 @@ describe("FeedConnectionsDiscordChannelsController", () => {
     const connectionId = new Types.ObjectId();
     const guildId = "guildId";
     const channelId = "channelId";
+    const actor = {
+      discordUserId: "discordUserId",
+      route:
+        "PATCH /user-feeds/:feedId/connections/discord-channels/:connectionId",
+    };
     const connection = {
       id: new Types.ObjectId(),
       name,
@@ -224,7 +233,8 @@ describe("FeedConnectionsDiscordChannelsController", () => {
         },
         {
           access_token: "accessToken",
-        } as never
+        } as never,
+        actor
       );
 
       const expectedEmbed: FeedEmbed = {
@@ -254,6 +264,7 @@ describe("FeedConnectionsDiscordChannelsController", () => {
         connectionId.toHexString(),
         {
           accessToken: "accessToken",
+          actor,
           updates: {
             name: undefined,
             filters: undefined,
@@ -284,7 +295,8 @@ describe("FeedConnectionsDiscordChannelsController", () => {
         },
         {
           access_token: "accessToken",
-        } as never
+        } as never,
+        actor
       );
 
       expect(updateSpy).toHaveBeenCalledWith(
@@ -292,6 +304,7 @@ describe("FeedConnectionsDiscordChannelsController", () => {
         connectionId.toHexString(),
         {
           accessToken: "accessToken",
+          actor,
           updates: {
             name: undefined,
             filters: undefined,
@@ -328,7 +341,8 @@ describe("FeedConnectionsDiscordChannelsController", () => {
         },
         {
           access_token: "accessToken",
-        } as never
+        } as never,
+        actor
       );
 
       expect(updateSpy).toHaveBeenCalledWith(
@@ -336,6 +350,7 @@ describe("FeedConnectionsDiscordChannelsController", () => {
         connectionId.toHexString(),
         {
           accessToken: "accessToken",
+          actor,
           updates: {
             name: undefined,
             filters: undefined,
@@ -375,7 +390,8 @@ describe("FeedConnectionsDiscordChannelsController", () => {
           },
           {
             access_token: "accessToken",
-          } as never
+          } as never,
+          actor
         )
       ).rejects.toThrow(CannotEnableAutoDisabledConnection);
     });
@@ -398,7 +414,8 @@ describe("FeedConnectionsDiscordChannelsController", () => {
           },
           {
             access_token: "accessToken",
-          } as never
+          } as never,
+          actor
         )
       ).rejects.toThrowError(CannotEnableAutoDisabledConnection);
     });
@@ -420,7 +437,8 @@ describe("FeedConnectionsDiscordChannelsController", () => {
         },
         {
           access_token: "accessToken",
-        } as never
+        } as never,
+        actor
       );
 
       expect(updateSpy).toHaveBeenCalledWith(
@@ -428,6 +446,7 @@ describe("FeedConnectionsDiscordChannelsController", () => {
         connectionId.toHexString(),
         {
           accessToken: "accessToken",
+          actor,
           updates: {
             name: undefined,
             filters: undefined,
@@ -458,7 +477,8 @@ describe("FeedConnectionsDiscordChannelsController", () => {
         },
         {
           access_token: "accessToken",
-        } as never
+        } as never,
+        actor
       );
 
       expect(updateSpy).toHaveBeenCalledWith(
@@ -466,6 +486,7 @@ describe("FeedConnectionsDiscordChannelsController", () => {
         connectionId.toHexString(),
         {
           accessToken: "accessToken",
+          actor,
           updates: {
             name: undefined,
             filters: undefined,
@@ -492,18 +513,31 @@ describe("FeedConnectionsDiscordChannelsController", () => {
         id: connectionId,
       },
     };
+    const actor = {
+      discordUserId: "discordUserId",
+      route:
+        "DELETE /user-feeds/:feedId/connections/discord-channels/:connectionId",
+    };
 
     it("calls the service to delete the connection", async () => {
-      await controller.deleteDiscordChannelConnection(pipeOutput as never);
+      await controller.deleteDiscordChannelConnection(
+        pipeOutput as never,
+        actor
+      );
 
       expect(
         feedConnectionsDiscordChannelsService.deleteConnection
-      ).toHaveBeenCalledWith(feedId.toHexString(), connectionId.toHexString());
+      ).toHaveBeenCalledWith(
+        feedId.toHexString(),
+        connectionId.toHexString(),
+        actor
+      );
     });
 
     it("returns undefined", async () => {
       const result = await controller.deleteDiscordChannelConnection(
-        pipeOutput as never
+        pipeOutput as never,
+        actor
       );
 
       expect(result).toBeUndefined();
@@ -2,6 +2,8 @@ import {
   Body,
   Controller,
   Delete,
+  ForbiddenException,
+  Get,
   HttpCode,
   HttpStatus,
   Param,
@@ -13,16 +15,23 @@ import {
 } from "@nestjs/common";
 import { CannotEnableAutoDisabledConnection } from "../../common/exceptions";
 import { convertToFlatDiscordEmbeds } from "../../utils/convert-to-flat-discord-embed";
+import { convertToNestedDiscordEmbed } from "../../utils/convert-to-nested-discord-embed";
 import { DiscordAccessToken } from "../discord-auth/decorators/DiscordAccessToken";
 import { DiscordOAuth2Guard } from "../discord-auth/guards/DiscordOAuth2.guard";
 import { SessionAccessToken } from "../discord-auth/types/SessionAccessToken.type";
+import { getDiscordOAuthAccessToken } from "../discord-auth/utils/get-access-token-from-session";
 import {
   FeedConnectionDisabledCode,
   FeedConnectionType,
 } from "../feeds/constants";
-import { UserFeedManagerType } from "../user-feed-management-invites/constants";
+import {
+  UserFeedManagerRole,
+  UserFeedManagerType,
+} from "../user-feed-management-invites/constants";
+import { hasSharedManagerRole } from "../user-feed-management-invites/utils";
 import { GetUserFeedsPipe, GetUserFeedsPipeOutput } from "../user-feeds/pipes";
 import {
+  CopyableSetting,
   CreateDiscordChannelConnectionCloneInputDto,
   CreateDiscordChannelConnectionCopyConnectionSettingsInputDto,
   CreateDiscordChannelConnectionOutputDto,
@@ -45,6 +54,8 @@ import {
   GetFeedDiscordChannelConnectionPipe,
   GetFeedDiscordChannelConnectionPipeOutput,
 } from "./pipes";
+import { AuditActor } from "../user-feed-audit-logs/decorators";
+import { UserFeedAuditActor } from "../user-feed-audit-logs/types";
 
 @Controller("user-feeds/:feedId/connections")
 @UseGuards(DiscordOAuth2Guard)
@@ -74,17 +85,19 @@ export class FeedConnectionsDiscordChannelsController {
       applicationWebhook,
     }: CreateDiscordChnnnelConnectionInputDto,
     @DiscordAccessToken()
-    { access_token, discord: { id: discordUserId } }: SessionAccessToken
+    accessToken: SessionAccessToken,
+    @AuditActor() actor: UserFeedAuditActor
   ): Promise<CreateDiscordChannelConnectionOutputDto> {
     const createdConnection = await this.service.createDiscordChannelConnection(
       {
         feed,
         name,
         channelId,
-        userAccessToken: access_token,
+        userAccessToken: getDiscordOAuthAccessToken(accessToken),
         webhook,
         applicationWebhook,
-        userDiscordUserId: discordUserId,
+        userDiscordUserId: accessToken.discord.id,
+        actor,
       }
     );
 
@@ -119,6 +132,7 @@ export class FeedConnectionsDiscordChannelsController {
     @Param(
       "feedId",
       GetUserFeedsPipe({
+        sharedManagerRole: UserFeedManagerRole.Editor,
         userTypes: [
           UserFeedManagerType.Creator,
           UserFeedManagerType.SharedManager,
@@ -155,6 +169,7 @@ export class FeedConnectionsDiscordChannelsController {
     @Param(
       "feedId",
       GetUserFeedsPipe({
+        sharedManagerRole: UserFeedManagerRole.Editor,
         userTypes: [
           UserFeedManagerType.Creator,
           UserFeedManagerType.SharedManager,
@@ -162,13 +177,25 @@ export class FeedConnectionsDiscordChannelsController {
       }),
       GetFeedDiscordChannelConnectionPipe
     )
-    [{ feed, connection }]: GetFeedDiscordChannelConnectionPipeOutput[],
+    [
+      { feed, connection, sharedManagerRole },
+    ]: GetFeedDiscordChannelConnectionPipeOutput[],
     @Body(ValidationPipe)
     {
       properties,
       targetDiscordChannelConnectionIds,
     }: CreateDiscordChannelConnectionCopyConnectionSettingsInputDto
   ) {
+    if (
+      !hasSharedManagerRole(sharedManagerRole, UserFeedManagerRole.Admin) &&
+      (properties.includes(CopyableSetting.Channel) ||
+        properties.includes(CopyableSetting.WebhookThread))
+    ) {
+      throw new ForbiddenException(
+        "Only admins may copy the channel or thread of a connection"
+      );
+    }
+
     await this.service.copySettings(feed, connection, {
       properties,
       targetDiscordChannelConnectionIds,
@@ -191,14 +218,19 @@ export class FeedConnectionsDiscordChannelsController {
     @Body(ValidationPipe)
     data: CreateDiscordChannelConnectionCloneInputDto,
     @DiscordAccessToken()
-    { access_token, discord: { id: discordUserId } }: SessionAccessToken
+    accessToken: SessionAccessToken,
+    @AuditActor() actor: UserFeedAuditActor
   ) {
     const result = await this.service.cloneConnection(
       feed,
       connection,
       data,
-      access_token,
-      discordUserId
+      // Only needed to check the permissions of a different channel
+      data.channelId
+        ? getDiscordOAuthAccessToken(accessToken)
+        : accessToken.access_token,
+      accessToken.discord.id,
+      actor
     );
 
     return {
@@ -212,6 +244,7 @@ export class FeedConnectionsDiscordChannelsController {
     @Param(
       "feedId",
       GetUserFeedsPipe({
+        sharedManagerRole: UserFeedManagerRole.Viewer,
         userTypes: [
           UserFeedManagerType.Creator,
           UserFeedManagerType.SharedManager,
@@ -265,8 +298,14 @@ export class FeedConnectionsDiscordChannelsController {
   @Patch("/discord-channels/:connectionId")
   @UseFilters(UpdateDiscordChannelConnectionFilter)
   async updateDiscordChannelConnection(
-    @Param("feedId", GetUserFeedsPipe(), GetFeedDiscordChannelConnectionPipe)
-    [{ feed, connection }]: GetFeedDiscordChannelConnectionPipeOutput[],
+    @Param(
+      "feedId",
+      GetUserFeedsPipe({ sharedManagerRole: UserFeedManagerRole.Editor }),
+      GetFeedDiscordChannelConnectionPipe
+    )
+    [
+      { feed, connection, sharedManagerRole },
+    ]: GetFeedDiscordChannelConnectionPipeOutput[],
     @Body(ValidationPipe)
     {
       channelId,
@@ -285,11 +324,22 @@ export class FeedConnectionsDiscordChannelsController {
       enablePlaceholderFallback,
       customPlaceholders,
       rateLimits,
+      schedule,
       componentRows,
       applicationWebhook,
     }: UpdateDiscordChannelConnectionInputDto,
-    @DiscordAccessToken() { access_token }: SessionAccessToken
+    @DiscordAccessToken() accessToken: SessionAccessToken,
+    @AuditActor() actor: UserFeedAuditActor
   ): Promise<UpdateDiscordChannelConnectionOutputDto> {
+    if (
+      !hasSharedManagerRole(sharedManagerRole, UserFeedManagerRole.Admin) &&
+      (channelId || webhook || applicationWebhook)
+    ) {
+      throw new ForbiddenException(
+        "Only admins may change where a connection delivers to"
+      );
+    }
+
     let useDisableCode: FeedConnectionDisabledCode | undefined | null =
       undefined;
     let useChannelId: string | undefined = channelId;
@@ -329,7 +379,12 @@ export class FeedConnectionsDiscordChannelsController {
       feed._id.toHexString(),
       connection.id.toHexString(),
       {
-        accessToken: access_token,
+        // Only needed to check the permissions of a different channel or webhook
+        accessToken:
+          useChannelId || webhook || applicationWebhook
+            ? getDiscordOAuthAccessToken(accessToken)
+            : accessToken.access_token,
+        actor,
         feed,
         oldConnection: connection,
         updates: {
@@ -340,6 +395,7 @@ export class FeedConnectionsDiscordChannelsController {
           mentions,
           customPlaceholders,
           rateLimits,
+          schedule,
           details: {
             placeholderLimits,
             componentRows,
@@ -386,16 +442,72 @@ export class FeedConnectionsDiscordChannelsController {
     };
   }
 
+  @Get("/discord-channels/:connectionId/revisions")
+  async getRevisions(
+    @Param(
+      "feedId",
+      GetUserFeedsPipe({ sharedManagerRole: UserFeedManagerRole.Viewer }),
+      GetFeedDiscordChannelConnectionPipe
+    )
+    [{ feed, connection }]: GetFeedDiscordChannelConnectionPipeOutput[]
+  ) {
+    const revisions = await this.service.getConnectionRevisions(
+      feed._id.toHexString(),
+      connection.id.toHexString()
+    );
+
+    return {
+      results: revisions.map((revision) => ({
+        id: revision._id.toHexString(),
+        createdAt: revision.createdAt.toISOString(),
+        replacedByDiscordUserId: revision.replacedByDiscordUserId || null,
+        template: {
+          ...revision.template,
+          embeds: convertToNestedDiscordEmbed(revision.template.embeds),
+        },
+      })),
+    };
+  }
+
+  @Post("/discord-channels/:connectionId/revisions/:revisionId/restore")
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseFilters(UpdateDiscordChannelConnectionFilter)
+  async restoreRevision(
+    @Param(
+      "feedId",
+      GetUserFeedsPipe({ sharedManagerRole: UserFeedManagerRole.Editor }),
+      GetFeedDiscordChannelConnectionPipe
+    )
+    [{ feed, connection }]: GetFeedDiscordChannelConnectionPipeOutput[],
+    @Param("revisionId") revisionId: string,
+    @DiscordAccessToken() accessToken: SessionAccessToken,
+    @AuditActor() actor: UserFeedAuditActor
+  ) {
+    await this.service.restoreConnectionRevision(
+      feed._id.toHexString(),
+      connection.id.toHexString(),
+      revisionId,
+      {
+        accessToken: getDiscordOAuthAccessToken(accessToken),
+        actor,
+        feed,
+        oldConnection: connection,
+      }
+    );
+  }
+
   @Delete("/discord-channels/:connectionId")
   @HttpCode(HttpStatus.NO_CONTENT)
   @UseFilters(DeleteDiscordChannelConnectionFilter)
   async deleteDiscordChannelConnection(
     @Param("feedId", GetUserFeedsPipe(), GetFeedDiscordChannelConnectionPipe)
-    [{ feed, connection }]: GetFeedDiscordChannelConnectionPipeOutput[]
+    [{ feed, connection }]: GetFeedDiscordChannelConnectionPipeOutput[],
+    @AuditActor() actor: UserFeedAuditActor
   ): Promise<void> {
     await this.service.deleteConnection(
       feed._id.toHexString(),
-      connection.id.toHexString()
+      connection.id.toHexString(),
+      actor
     );
   }
 }
@@ -6,12 +6,15 @@ import { FeedConnectionsDiscordChannelsService } from "./feed-connections-discor
 import { FeedConnectionsDiscordChannelsController } from "./feed-connections-discord-channels.controller";
 import { FeedHandlerModule } from "../../services/feed-handler/feed-fetcher.module";
 import { SupportersModule } from "../supporters/supporters.module";
+import { WorkspacesModule } from "../workspaces/workspaces.module";
 import { DiscordWebhooksModule } from "../discord-webhooks/discord-webhooks.module";
 import { DiscordApiModule } from "../../services/apis/discord/discord-api.module";
 import { UserFeedFeature } from "../user-feeds/entities";
 import { MongooseModule } from "@nestjs/mongoose";
 import { UserFeedConnectionEventsModule } from "../user-feed-connection-events/user-feed-connection-events.module";
 import { UserFeature } from "../users/entities/user.entity";
+import { DiscordChannelConnectionRevisionFeature } from "./entities";
+import { UserFeedAuditLogsModule } from "../user-feed-audit-logs/user-feed-audit-logs.module";
 
 @Module({
   controllers: [FeedConnectionsDiscordChannelsController],
@@ -21,10 +24,16 @@ import { UserFeature } from "../users/entities/user.entity";
     DiscordAuthModule,
     FeedHandlerModule,
     SupportersModule,
+    WorkspacesModule,
     DiscordWebhooksModule,
     DiscordApiModule,
-    MongooseModule.forFeature([UserFeedFeature, UserFeature]),
+    MongooseModule.forFeature([
+      UserFeedFeature,
+      UserFeature,
+      DiscordChannelConnectionRevisionFeature,
+    ]),
     UserFeedConnectionEventsModule,
+    UserFeedAuditLogsModule,
   ],
   exports: [FeedConnectionsDiscordChannelsService],
 })
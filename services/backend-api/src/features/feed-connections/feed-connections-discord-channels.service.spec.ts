@@ -26,6 +26,7 @@ import { SupportersService } from "../supporters/supporters.service";
 import { UserFeed, UserFeedFeature } from "../user-feeds/entities";
 import { CopyableSetting } from "./dto";
 import {
+  ConnectionRevisionNotFoundException,
   DiscordChannelPermissionsException,
   MissingDiscordChannelException,
 } from "./exceptions";
@@ -33,10 +34,17 @@ import {
   FeedConnectionsDiscordChannelsService,
   UpdateDiscordChannelConnectionInput,
 } from "./feed-connections-discord-channels.service";
+import {
+  DiscordChannelConnectionRevision,
+  DiscordChannelConnectionRevisionFeature,
+  DiscordChannelConnectionRevisionModel,
+} from "./entities";
+import { UserFeedAuditLogsService } from "../user-feed-audit-logs/user-feed-audit-logs.service";
 
 describe("FeedConnectionsDiscordChannelsService", () => {
   let service: FeedConnectionsDiscordChannelsService;
   let userFeedsModel: Model<UserFeed>;
+  let connectionRevisionModel: DiscordChannelConnectionRevisionModel;
   const feedsService = {
     canUseChannel: jest.fn(),
   };
@@ -57,6 +65,9 @@ describe("FeedConnectionsDiscordChannelsService", () => {
   const discordAuthService = {
     userManagesGuild: jest.fn(),
   };
+  const userFeedAuditLogsService = {
+    recordDocumentChanges: jest.fn(),
+  };
 
   beforeAll(async () => {
     const { init } = await setupIntegrationTests({
@@ -86,10 +97,17 @@ describe("FeedConnectionsDiscordChannelsService", () => {
           provide: DiscordAuthService,
           useValue: discordAuthService,
         },
+        {
+          provide: UserFeedAuditLogsService,
+          useValue: userFeedAuditLogsService,
+        },
       ],
       imports: [
         MongooseTestModule.forRoot(),
-        MongooseModule.forFeature([UserFeedFeature]),
+        MongooseModule.forFeature([
+          UserFeedFeature,
+          DiscordChannelConnectionRevisionFeature,
+        ]),
       ],
     });
 
@@ -97,6 +115,9 @@ describe("FeedConnectionsDiscordChannelsService", () => {
 
     service = module.get(FeedConnectionsDiscordChannelsService);
     userFeedsModel = module.get(getModelToken(UserFeed.name));
+    connectionRevisionModel = module.get(
+      getModelToken(DiscordChannelConnectionRevision.name)
+    );
   });
 
   beforeEach(() => {
@@ -111,6 +132,7 @@ describe("FeedConnectionsDiscordChannelsService", () => {
 
   afterEach(async () => {
     await userFeedsModel.deleteMany({});
+    await connectionRevisionModel.deleteMany({});
   });
 
   afterAll(async () => {
@@ -526,6 +548,65 @@ describe("FeedConnectionsDiscordChannelsService", () => {
         )
       ).rejects.toThrow(InvalidFilterExpressionException);
     });
+
+    it("saves the previous template as a revision", async () => {
+      await service.updateDiscordChannelConnection(
+        createdFeed._id.toHexString(),
+        connectionIdToUse.toHexString(),
+        {
+          ...updateInput,
+          updates: {
+            details: {
+              content: "new content",
+            },
+          },
+        }
+      );
+
+      const revisions = await service.getConnectionRevisions(
+        createdFeed._id.toHexString(),
+        connectionIdToUse.toHexString()
+      );
+
+      expect(revisions).toHaveLength(1);
+      expect(revisions[0].template.splitOptions).toEqual(
+        oldConnection.splitOptions
+      );
+      expect(revisions[0].template.content).toBeUndefined();
+    });
+
+    it("does not save a revision if the template is unchanged", async () => {
+      await service.updateDiscordChannelConnection(
+        createdFeed._id.toHexString(),
+        connectionIdToUse.toHexString(),
+        {
+          ...updateInput,
+          updates: {
+            name: "new name",
+          },
+        }
+      );
+
+      const revisions = await service.getConnectionRevisions(
+        createdFeed._id.toHexString(),
+        connectionIdToUse.toHexString()
+      );
+
+      expect(revisions).toHaveLength(0);
+    });
+  });
+
+  describe("restoreConnectionRevision", () => {
+    it("throws if the revision does not exist", async () => {
+      await expect(
+        service.restoreConnectionRevision(
+          new Types.ObjectId().toHexString(),
+          new Types.ObjectId().toHexString(),
+          new Types.ObjectId().toHexString(),
+          {} as never
+        )
+      ).rejects.toThrow(ConnectionRevisionNotFoundException);
+    });
   });
 
   describe("copySettings", () => {
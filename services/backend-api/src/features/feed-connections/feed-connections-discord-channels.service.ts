@@ -1,4 +1,5 @@
 import { HttpStatus, Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
 import { InjectModel } from "@nestjs/mongoose";
 import { Types } from "mongoose";
 import {
@@ -37,12 +38,17 @@ import { NoDiscordChannelPermissionOverwritesException } from "../feeds/exceptio
 import { FeedsService } from "../feeds/feeds.service";
 import { SupportersService } from "../supporters/supporters.service";
 import { UserFeed, UserFeedModel } from "../user-feeds/entities";
+import {
+  getUserFeedHtmlScrapeOptions,
+  getUserFeedRequestLookupDetails,
+} from "../user-feeds/utils";
 import {
   CopyableSetting,
   CreateDiscordChannelConnectionCloneInputDto,
   CreateDiscordChannelConnectionCopyConnectionSettingsInputDto,
 } from "./dto";
 import {
+  ConnectionRevisionNotFoundException,
   DiscordChannelPermissionsException,
   InvalidDiscordChannelException,
   MissingDiscordChannelException,
@@ -56,9 +62,33 @@ import logger from "../../utils/logger";
 import { WebhookMissingPermissionsException } from "../discord-webhooks/exceptions";
 import { UserFeedConnectionEventsService } from "../user-feed-connection-events/user-feed-connection-events.service";
 import { User, UserModel } from "../users/entities/user.entity";
+import { UserFeedAuditLogsService } from "../user-feed-audit-logs/user-feed-audit-logs.service";
+import { UserFeedAuditActor } from "../user-feed-audit-logs/types";
+import {
+  DiscordChannelConnectionRevision,
+  DiscordChannelConnectionRevisionModel,
+  DiscordChannelConnectionTemplate,
+} from "./entities";
+import { isEqual } from "lodash";
+
+const AUDITED_CONNECTION_FIELDS = [
+  "name",
+  "disabledCode",
+  "filters",
+  "splitOptions",
+  "mentions",
+  "customPlaceholders",
+  "rateLimits",
+  "schedule",
+  "details",
+];
 
 export interface UpdateDiscordChannelConnectionInput {
   accessToken: string;
+  /**
+   * If set, the changes are recorded in the feed's audit log
+   */
+  actor?: UserFeedAuditActor;
   feed: {
     user: {
       discordUserId: string;
@@ -73,6 +103,7 @@ export interface UpdateDiscordChannelConnectionInput {
     splitOptions?: DiscordChannelConnection["splitOptions"] | null;
     mentions?: DiscordChannelConnection["mentions"] | null;
     rateLimits?: CustomRateLimitDto[] | null;
+    schedule?: DiscordChannelConnection["schedule"];
     customPlaceholders?: CustomPlaceholderDto[] | null;
     details?: {
       embeds?: DiscordChannelConnection["details"]["embeds"];
@@ -134,18 +165,27 @@ interface CreatePreviewInput {
   includeCustomPlaceholderPreviews?: boolean;
 }
 
+/**
+ * How many previous templates are kept for every connection
+ */
+const MAX_CONNECTION_REVISIONS = 20;
+
 @Injectable()
 export class FeedConnectionsDiscordChannelsService {
   constructor(
     private readonly feedsService: FeedsService,
     @InjectModel(UserFeed.name) private readonly userFeedModel: UserFeedModel,
     @InjectModel(User.name) private readonly userModel: UserModel,
+    @InjectModel(DiscordChannelConnectionRevision.name)
+    private readonly connectionRevisionModel: DiscordChannelConnectionRevisionModel,
     private readonly feedHandlerService: FeedHandlerService,
     private readonly supportersService: SupportersService,
     private readonly discordWebhooksService: DiscordWebhooksService,
     private readonly discordApiService: DiscordAPIService,
     private readonly discordAuthService: DiscordAuthService,
-    private readonly connectionEventsService: UserFeedConnectionEventsService
+    private readonly connectionEventsService: UserFeedConnectionEventsService,
+    private readonly userFeedAuditLogsService: UserFeedAuditLogsService,
+    private readonly configService: ConfigService
   ) {}
 
   async createDiscordChannelConnection({
@@ -156,6 +196,7 @@ export class FeedConnectionsDiscordChannelsService {
     applicationWebhook,
     userAccessToken,
     userDiscordUserId,
+    actor,
   }: {
     feed: UserFeed;
     name: string;
@@ -174,6 +215,10 @@ export class FeedConnectionsDiscordChannelsService {
     };
     userAccessToken: string;
     userDiscordUserId: string;
+    /**
+     * If set, the creation is recorded in the feed's audit log
+     */
+    actor?: UserFeedAuditActor;
   }): Promise<DiscordChannelConnection> {
     const connectionId = new Types.ObjectId();
     let channelToAdd: DiscordChannelConnection["details"]["channel"];
@@ -306,6 +351,17 @@ export class FeedConnectionsDiscordChannelsService {
         },
       });
 
+      if (actor) {
+        await this.userFeedAuditLogsService.recordDocumentChanges({
+          feedId: feed._id.toHexString(),
+          connectionId: createdConnection.id.toHexString(),
+          actor,
+          before: null,
+          after: createdConnection,
+          fields: AUDITED_CONNECTION_FIELDS,
+        });
+      }
+
       return createdConnection;
     } catch (err) {
       if (webhookToAdd?.isApplicationOwned) {
@@ -324,7 +380,8 @@ export class FeedConnectionsDiscordChannelsService {
       channelId: newChannelId,
     }: CreateDiscordChannelConnectionCloneInputDto,
     userAccessToken: string,
-    userDiscordUserId: string
+    userDiscordUserId: string,
+    actor?: UserFeedAuditActor
   ) {
     const newId = new Types.ObjectId();
     let channelDetailsToUse: DiscordChannelConnection["details"]["channel"] =
@@ -359,7 +416,7 @@ export class FeedConnectionsDiscordChannelsService {
     }
 
     try {
-      await this.userFeedModel.findOneAndUpdate(
+      const updated = await this.userFeedModel.findOneAndUpdate(
         {
           _id: userFeed._id,
         },
@@ -383,6 +440,9 @@ export class FeedConnectionsDiscordChannelsService {
               },
             },
           },
+        },
+        {
+          new: true,
         }
       );
 
@@ -393,6 +453,21 @@ export class FeedConnectionsDiscordChannelsService {
           discordUserId: userDiscordUserId,
         },
       });
+
+      const createdConnection = updated?.connections.discordChannels.find((c) =>
+        c.id.equals(newId)
+      );
+
+      if (actor && createdConnection) {
+        await this.userFeedAuditLogsService.recordDocumentChanges({
+          feedId: userFeed._id.toHexString(),
+          connectionId: newId.toHexString(),
+          actor,
+          before: null,
+          after: createdConnection,
+          fields: AUDITED_CONNECTION_FIELDS,
+        });
+      }
     } catch (err) {
       if (newWebhookId) {
         await this.cleanupWebhook(newWebhookId);
@@ -547,6 +622,7 @@ export class FeedConnectionsDiscordChannelsService {
     connectionId: string,
     {
       accessToken,
+      actor,
       feed,
       oldConnection,
       updates,
@@ -723,6 +799,9 @@ export class FeedConnectionsDiscordChannelsService {
         ...(updates.rateLimits && {
           [`connections.discordChannels.$.rateLimits`]: updates.rateLimits,
         }),
+        ...(updates.schedule && {
+          [`connections.discordChannels.$.schedule`]: updates.schedule,
+        }),
       },
       $unset: {
         ...(updates.filters === null && {
@@ -735,6 +814,9 @@ export class FeedConnectionsDiscordChannelsService {
         ...(updates.splitOptions === null && {
           [`connections.discordChannels.$.splitOptions`]: "",
         }),
+        ...(updates.schedule === null && {
+          [`connections.discordChannels.$.schedule`]: "",
+        }),
       },
     };
 
@@ -758,6 +840,25 @@ export class FeedConnectionsDiscordChannelsService {
         );
       }
 
+      await this.recordConnectionRevision({
+        feedId,
+        connectionId,
+        actor,
+        before: oldConnection,
+        after: updatedConnection,
+      });
+
+      if (actor) {
+        await this.userFeedAuditLogsService.recordDocumentChanges({
+          feedId,
+          connectionId,
+          actor,
+          before: oldConnection,
+          after: updatedConnection,
+          fields: AUDITED_CONNECTION_FIELDS,
+        });
+      }
+
       if (
         createdApplicationWebhookId &&
         oldConnection.details.webhook?.isApplicationOwned
@@ -783,7 +884,72 @@ export class FeedConnectionsDiscordChannelsService {
     }
   }
 
-  async deleteConnection(feedId: string, connectionId: string) {
+  async getConnectionRevisions(feedId: string, connectionId: string) {
+    return this.connectionRevisionModel
+      .find({
+        feedId: new Types.ObjectId(feedId),
+        connectionId: new Types.ObjectId(connectionId),
+      })
+      .sort({ createdAt: -1 })
+      .limit(MAX_CONNECTION_REVISIONS)
+      .lean();
+  }
+
+  /**
+   * Applies a previous template onto the connection. The current template is saved as a revision
+   * so that the restore itself can be undone.
+   */
+  async restoreConnectionRevision(
+    feedId: string,
+    connectionId: string,
+    revisionId: string,
+    input: Omit<UpdateDiscordChannelConnectionInput, "updates">
+  ) {
+    if (!Types.ObjectId.isValid(revisionId)) {
+      throw new ConnectionRevisionNotFoundException();
+    }
+
+    const revision = await this.connectionRevisionModel
+      .findOne({
+        _id: new Types.ObjectId(revisionId),
+        feedId: new Types.ObjectId(feedId),
+        connectionId: new Types.ObjectId(connectionId),
+      })
+      .lean();
+
+    if (!revision) {
+      throw new ConnectionRevisionNotFoundException();
+    }
+
+    const { template } = revision;
+
+    return this.updateDiscordChannelConnection(feedId, connectionId, {
+      ...input,
+      updates: {
+        filters: template.filters || null,
+        splitOptions: template.splitOptions || null,
+        mentions: template.mentions || { targets: [] },
+        customPlaceholders: (template.customPlaceholders ||
+          []) as CustomPlaceholderDto[],
+        details: {
+          content: template.content || "",
+          embeds: template.embeds || [],
+          componentRows: template.componentRows || [],
+          formatter: template.formatter || {},
+          forumThreadTitle: template.forumThreadTitle || "",
+          forumThreadTags: template.forumThreadTags || [],
+          placeholderLimits: template.placeholderLimits || [],
+          enablePlaceholderFallback: !!template.enablePlaceholderFallback,
+        },
+      },
+    });
+  }
+
+  async deleteConnection(
+    feedId: string,
+    connectionId: string,
+    actor?: UserFeedAuditActor
+  ) {
     const userFeed = await this.userFeedModel
       .findById(feedId)
       .select("connections")
@@ -823,6 +989,17 @@ export class FeedConnectionsDiscordChannelsService {
       deletedConnectionIds: [new Types.ObjectId(connectionId)],
     });
 
+    if (actor) {
+      await this.userFeedAuditLogsService.recordDocumentChanges({
+        feedId,
+        connectionId,
+        actor,
+        before: connectionToDelete,
+        after: null,
+        fields: AUDITED_CONNECTION_FIELDS,
+      });
+    }
+
     try {
       if (connectionToDelete.details.webhook?.isApplicationOwned) {
         await this.cleanupWebhook(connectionToDelete.details.webhook.id);
@@ -845,6 +1022,77 @@ export class FeedConnectionsDiscordChannelsService {
       previewInput?: CreatePreviewInput;
     }
   ): Promise<SendTestArticleResult> {
+    const payload = await this.getTestArticlePayload(
+      userFeed,
+      connection,
+      details
+    );
+
+    return this.feedHandlerService.sendTestArticle({
+      details: payload,
+    });
+  }
+
+  /**
+   * Edit a message that was previously delivered for this connection to reflect the current
+   * article content and connection settings
+   */
+  async rerenderDeliveryMessage(
+    userFeed: UserFeed,
+    connection: DiscordChannelConnection,
+    deliveryId: string
+  ): Promise<SendTestArticleResult> {
+    const { feed, mediumDetails } = await this.getTestArticlePayload(
+      userFeed,
+      connection
+    );
+
+    return this.feedHandlerService.rerenderDeliveryMessage({
+      feedId: userFeed._id.toHexString(),
+      deliveryId,
+      details: {
+        mediumId: connection.id.toHexString(),
+        feed: {
+          ...feed,
+          articleIdOptions: userFeed.articleIdOptions,
+        },
+        mediumDetails,
+      },
+    });
+  }
+
+  async deleteDeliveryMessage(
+    userFeed: UserFeed,
+    connection: DiscordChannelConnection,
+    deliveryId: string
+  ) {
+    const { webhook } = connection.details;
+
+    return this.feedHandlerService.deleteDeliveryMessage({
+      feedId: userFeed._id.toHexString(),
+      deliveryId,
+      details: {
+        mediumId: connection.id.toHexString(),
+        webhook: webhook
+          ? {
+              id: webhook.id,
+              token: webhook.token,
+            }
+          : null,
+      },
+    });
+  }
+
+  private async getTestArticlePayload(
+    userFeed: UserFeed,
+    connection: DiscordChannelConnection,
+    details?: {
+      article?: {
+        id: string;
+      };
+      previewInput?: CreatePreviewInput;
+    }
+  ): Promise<SendTestDiscordChannelArticleInput["details"]> {
     const previewInput = details?.previewInput;
 
     let useCustomPlaceholders =
@@ -898,6 +1146,14 @@ export class FeedConnectionsDiscordChannelsService {
       type: "discord",
       feed: {
         url: userFeed.url,
+        jsonOptions: userFeed.jsonOptions,
+        htmlScrapeOptions: getUserFeedHtmlScrapeOptions(userFeed),
+        requestLookupDetails: getUserFeedRequestLookupDetails(
+          userFeed,
+          this.configService.get<string>(
+            "BACKEND_API_FEED_CREDENTIALS_ENCRYPTION_KEY"
+          )
+        ),
         formatOptions: {
           ...userFeed.formatOptions,
           ...previewInput?.feedFormatOptions,
@@ -964,9 +1220,7 @@ export class FeedConnectionsDiscordChannelsService {
       },
     } as const;
 
-    return this.feedHandlerService.sendTestArticle({
-      details: payload,
-    });
+    return payload;
   }
 
   async createPreview({
@@ -1001,6 +1255,14 @@ export class FeedConnectionsDiscordChannelsService {
       includeCustomPlaceholderPreviews,
       feed: {
         url: userFeed.url,
+        jsonOptions: userFeed.jsonOptions,
+        htmlScrapeOptions: getUserFeedHtmlScrapeOptions(userFeed),
+        requestLookupDetails: getUserFeedRequestLookupDetails(
+          userFeed,
+          this.configService.get<string>(
+            "BACKEND_API_FEED_CREDENTIALS_ENCRYPTION_KEY"
+          )
+        ),
         formatOptions: {
           ...feedFormatOptions,
           dateFormat:
@@ -1198,6 +1460,84 @@ export class FeedConnectionsDiscordChannelsService {
     }
   }
 
+  private getConnectionTemplate(
+    connection: DiscordChannelConnection
+  ): DiscordChannelConnectionTemplate {
+    // Round trip through JSON to strip subdocument metadata and undefined values
+    return JSON.parse(
+      JSON.stringify({
+        filters: connection.filters,
+        splitOptions: connection.splitOptions,
+        mentions: connection.mentions,
+        customPlaceholders: connection.customPlaceholders,
+        content: connection.details.content,
+        embeds: connection.details.embeds,
+        componentRows: connection.details.componentRows,
+        formatter: connection.details.formatter,
+        forumThreadTitle: connection.details.forumThreadTitle,
+        forumThreadTags: connection.details.forumThreadTags,
+        placeholderLimits: connection.details.placeholderLimits,
+        enablePlaceholderFallback: connection.details.enablePlaceholderFallback,
+      })
+    );
+  }
+
+  /**
+   * Saves the template from before an update if the update changed it
+   */
+  private async recordConnectionRevision({
+    feedId,
+    connectionId,
+    actor,
+    before,
+    after,
+  }: {
+    feedId: string;
+    connectionId: string;
+    actor?: UserFeedAuditActor;
+    before: DiscordChannelConnection;
+    after: DiscordChannelConnection;
+  }) {
+    const template = this.getConnectionTemplate(before);
+
+    if (isEqual(template, this.getConnectionTemplate(after))) {
+      return;
+    }
+
+    try {
+      await this.connectionRevisionModel.create({
+        feedId: new Types.ObjectId(feedId),
+        connectionId: new Types.ObjectId(connectionId),
+        replacedByDiscordUserId: actor?.discordUserId,
+        template,
+      });
+
+      const expiredRevisions = await this.connectionRevisionModel
+        .find({
+          connectionId: new Types.ObjectId(connectionId),
+        })
+        .sort({ createdAt: -1 })
+        .skip(MAX_CONNECTION_REVISIONS)
+        .select("_id")
+        .lean();
+
+      if (expiredRevisions.length) {
+        await this.connectionRevisionModel.deleteMany({
+          _id: {
+            $in: expiredRevisions.map((r) => r._id),
+          },
+        });
+      }
+    } catch (err) {
+      logger.error(
+        `Failed to record revision for feed ${feedId}, discord channel connection ${connectionId}`,
+        {
+          stack: (err as Error).stack,
+        }
+      );
+    }
+  }
+
   private async cleanupWebhook(webhookId: string) {
     const existingFeedUseCount = await this.userFeedModel.countDocuments({
       "connections.discordChannels.details.webhook.id": webhookId,
@@ -1,4 +1,5 @@
 import { Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
 import { InjectModel } from "@nestjs/mongoose";
 import { Types } from "mongoose";
 import {
@@ -13,6 +14,10 @@ import { DiscordWebhooksService } from "../discord-webhooks/discord-webhooks.ser
 import { DiscordWebhookConnection } from "../feeds/entities/feed-connections";
 import _ from "lodash";
 import { UserFeed, UserFeedModel } from "../user-feeds/entities";
+import {
+  getUserFeedHtmlScrapeOptions,
+  getUserFeedRequestLookupDetails,
+} from "../user-feeds/utils";
 import {
   FeedConnectionDisabledCode,
   FeedConnectionDiscordWebhookType,
@@ -50,6 +55,7 @@ export interface UpdateDiscordWebhookConnectionInput {
   updates: {
     filters?: DiscordWebhookConnection["filters"] | null;
     rateLimits?: CustomRateLimitDto[] | null;
+    schedule?: DiscordWebhookConnection["schedule"];
     name?: string;
     customPlaceholders?: CustomPlaceholderDto[] | null;
     disabledCode?: FeedConnectionDisabledCode | null;
@@ -101,7 +107,8 @@ export class FeedConnectionsDiscordWebhooksService {
     private readonly discordAuthService: DiscordAuthService,
     private readonly feedHandlerService: FeedHandlerService,
     private readonly discordApiService: DiscordAPIService,
-    private readonly supportersService: SupportersService
+    private readonly supportersService: SupportersService,
+    private readonly configService: ConfigService
   ) {}
 
   async createDiscordWebhookConnection({
@@ -230,6 +237,7 @@ export class FeedConnectionsDiscordWebhooksService {
       mentions,
       customPlaceholders,
       rateLimits,
+      schedule,
     },
     accessToken,
     feed: {
@@ -338,6 +346,9 @@ export class FeedConnectionsDiscordWebhooksService {
         ...(rateLimits && {
           "connections.discordWebhooks.$.rateLimits": rateLimits,
         }),
+        ...(schedule && {
+          "connections.discordWebhooks.$.schedule": schedule,
+        }),
       },
       $unset: {
         ...(filters === null && {
@@ -349,6 +360,9 @@ export class FeedConnectionsDiscordWebhooksService {
         ...(splitOptions === null && {
           "connections.discordWebhooks.$.splitOptions": "",
         }),
+        ...(schedule === null && {
+          "connections.discordWebhooks.$.schedule": "",
+        }),
       },
     };
 
@@ -446,6 +460,14 @@ export class FeedConnectionsDiscordWebhooksService {
       type: "discord",
       feed: {
         url: userFeed.url,
+        jsonOptions: userFeed.jsonOptions,
+        htmlScrapeOptions: getUserFeedHtmlScrapeOptions(userFeed),
+        requestLookupDetails: getUserFeedRequestLookupDetails(
+          userFeed,
+          this.configService.get<string>(
+            "BACKEND_API_FEED_CREDENTIALS_ENCRYPTION_KEY"
+          )
+        ),
         formatOptions: {
           ...userFeed.formatOptions,
           ...previewInput?.feedFormatOptions,
@@ -522,6 +544,14 @@ export class FeedConnectionsDiscordWebhooksService {
       type: "discord",
       feed: {
         url: userFeed.url,
+        jsonOptions: userFeed.jsonOptions,
+        htmlScrapeOptions: getUserFeedHtmlScrapeOptions(userFeed),
+        requestLookupDetails: getUserFeedRequestLookupDetails(
+          userFeed,
+          this.configService.get<string>(
+            "BACKEND_API_FEED_CREDENTIALS_ENCRYPTION_KEY"
+          )
+        ),
         formatOptions: {
           dateFormat: feedFormatOptions?.dateFormat,
           ...feedFormatOptions,
@@ -0,0 +1,238 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  ForbiddenException,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  UseFilters,
+  UseGuards,
+  ValidationPipe,
+} from "@nestjs/common";
+import { CannotEnableAutoDisabledConnection } from "../../common/exceptions";
+import { DiscordAccessToken } from "../discord-auth/decorators/DiscordAccessToken";
+import { DiscordOAuth2Guard } from "../discord-auth/guards/DiscordOAuth2.guard";
+import { SessionAccessToken } from "../discord-auth/types/SessionAccessToken.type";
+import { AuditActor } from "../user-feed-audit-logs/decorators";
+import { UserFeedAuditActor } from "../user-feed-audit-logs/types";
+import {
+  FeedConnectionDisabledCode,
+  FeedConnectionType,
+} from "../feeds/constants";
+import { HttpWebhookConnection } from "../feeds/entities/feed-connections";
+import {
+  UserFeedManagerRole,
+  UserFeedManagerType,
+} from "../user-feed-management-invites/constants";
+import { hasSharedManagerRole } from "../user-feed-management-invites/utils";
+import { GetUserFeedsPipe, GetUserFeedsPipeOutput } from "../user-feeds/pipes";
+import {
+  CreateHttpWebhookConnectionInputDto,
+  CreateHttpWebhookConnectionOutputDto,
+  UpdateHttpWebhookConnectionInputDto,
+  UpdateHttpWebhookConnectionOutputDto,
+} from "./dto";
+import { FeedConnectionsHttpWebhooksService } from "./feed-connections-http-webhooks.service";
+import {
+  DeleteChatConnectionFilter,
+  UpdateChatConnectionFilter,
+} from "./filters";
+import {
+  GetFeedHttpWebhookConnectionPipe,
+  GetFeedHttpWebhookConnectionPipeOutput,
+} from "./pipes";
+
+@Controller("user-feeds/:feedId/connections")
+@UseGuards(DiscordOAuth2Guard)
+export class FeedConnectionsHttpWebhooksController {
+  constructor(private readonly service: FeedConnectionsHttpWebhooksService) {}
+
+  @Post("/http-webhooks")
+  async createHttpWebhookConnection(
+    @Param(
+      "feedId",
+      GetUserFeedsPipe({
+        userTypes: [
+          UserFeedManagerType.Creator,
+          UserFeedManagerType.SharedManager,
+        ],
+      })
+    )
+    [{ feed }]: GetUserFeedsPipeOutput,
+    @Body(ValidationPipe)
+    {
+      name,
+      url,
+      method,
+      headers,
+      bodyTemplate,
+      signingSecret,
+      retries,
+    }: CreateHttpWebhookConnectionInputDto,
+    @DiscordAccessToken()
+    { discord: { id: discordUserId } }: SessionAccessToken,
+    @AuditActor() actor: UserFeedAuditActor
+  ): Promise<CreateHttpWebhookConnectionOutputDto> {
+    const createdConnection = await this.service.createConnection({
+      feed,
+      name,
+      url,
+      method,
+      headers,
+      bodyTemplate,
+      signingSecret,
+      retries,
+      userDiscordUserId: discordUserId,
+      actor,
+    });
+
+    return this.formatConnection(createdConnection);
+  }
+
+  @Patch("/http-webhooks/:connectionId")
+  @UseFilters(UpdateChatConnectionFilter)
+  async updateHttpWebhookConnection(
+    @Param(
+      "feedId",
+      GetUserFeedsPipe({ sharedManagerRole: UserFeedManagerRole.Editor }),
+      GetFeedHttpWebhookConnectionPipe
+    )
+    [
+      { feed, connection, sharedManagerRole },
+    ]: GetFeedHttpWebhookConnectionPipeOutput[],
+    @Body(ValidationPipe)
+    {
+      name,
+      url,
+      method,
+      headers,
+      bodyTemplate,
+      signingSecret,
+      retries,
+      filters,
+      disabledCode,
+      formatter,
+      placeholderLimits,
+      enablePlaceholderFallback,
+      customPlaceholders,
+      rateLimits,
+      schedule,
+    }: UpdateHttpWebhookConnectionInputDto,
+    @AuditActor() actor: UserFeedAuditActor
+  ): Promise<UpdateHttpWebhookConnectionOutputDto> {
+    if (
+      !hasSharedManagerRole(sharedManagerRole, UserFeedManagerRole.Admin) &&
+      url
+    ) {
+      throw new ForbiddenException(
+        "Only admins may change where a connection delivers to"
+      );
+    }
+
+    let useDisableCode: FeedConnectionDisabledCode | undefined | null =
+      undefined;
+
+    if (connection.disabledCode) {
+      if (connection.disabledCode === FeedConnectionDisabledCode.BadFormat) {
+        if (disabledCode === null) {
+          throw new CannotEnableAutoDisabledConnection();
+        }
+
+        if (bodyTemplate !== undefined) {
+          useDisableCode = null;
+        }
+      } else if (
+        connection.disabledCode === FeedConnectionDisabledCode.MissingMedium
+      ) {
+        if (url) {
+          useDisableCode = null;
+        } else if (disabledCode === null) {
+          throw new CannotEnableAutoDisabledConnection();
+        }
+      } else if (
+        connection.disabledCode === FeedConnectionDisabledCode.Manual
+      ) {
+        if (disabledCode === null) {
+          useDisableCode = null;
+        }
+      } else if (disabledCode === null) {
+        throw new CannotEnableAutoDisabledConnection();
+      }
+    } else if (disabledCode === FeedConnectionDisabledCode.Manual) {
+      useDisableCode = FeedConnectionDisabledCode.Manual;
+    }
+
+    const updatedConnection = await this.service.updateConnection(
+      feed._id.toHexString(),
+      connection.id.toHexString(),
+      {
+        actor,
+        feed,
+        oldConnection: connection,
+        updates: {
+          name,
+          filters,
+          disabledCode: useDisableCode,
+          customPlaceholders,
+          rateLimits,
+          schedule,
+          details: {
+            url,
+            method,
+            headers,
+            bodyTemplate,
+            signingSecret,
+            retries,
+            formatter,
+            placeholderLimits,
+            enablePlaceholderFallback,
+          },
+        },
+      }
+    );
+
+    return this.formatConnection(updatedConnection);
+  }
+
+  @Delete("/http-webhooks/:connectionId")
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseFilters(DeleteChatConnectionFilter)
+  async deleteHttpWebhookConnection(
+    @Param("feedId", GetUserFeedsPipe(), GetFeedHttpWebhookConnectionPipe)
+    [{ feed, connection }]: GetFeedHttpWebhookConnectionPipeOutput[],
+    @AuditActor() actor: UserFeedAuditActor
+  ): Promise<void> {
+    await this.service.deleteConnection(
+      feed._id.toHexString(),
+      connection.id.toHexString(),
+      actor
+    );
+  }
+
+  private formatConnection(
+    connection: HttpWebhookConnection
+  ): CreateHttpWebhookConnectionOutputDto {
+    return {
+      id: connection.id.toHexString(),
+      name: connection.name,
+      key: FeedConnectionType.HttpWebhook,
+      disabledCode: connection.disabledCode,
+      filters: connection.filters,
+      rateLimits: connection.rateLimits,
+      schedule: connection.schedule,
+      customPlaceholders: connection.customPlaceholders,
+      details: {
+        url: connection.details.url,
+        method: connection.details.method,
+        headerKeys: (connection.details.headers || []).map(({ key }) => key),
+        bodyTemplate: connection.details.bodyTemplate,
+        hasSigningSecret: !!connection.details.signingSecret,
+        retries: connection.details.retries,
+        formatter: connection.details.formatter,
+      },
+    };
+  }
+}
@@ -0,0 +1,37 @@
+/* eslint-disable max-len */
+import { DynamicModule, Module } from "@nestjs/common";
+import { MongooseModule } from "@nestjs/mongoose";
+import { FeedHandlerModule } from "../../services/feed-handler/feed-fetcher.module";
+import { DiscordAuthModule } from "../discord-auth/discord-auth.module";
+import { FeedsModule } from "../feeds/feeds.module";
+import { SupportersModule } from "../supporters/supporters.module";
+import { WorkspacesModule } from "../workspaces/workspaces.module";
+import { UserFeedAuditLogsModule } from "../user-feed-audit-logs/user-feed-audit-logs.module";
+import { UserFeedConnectionEventsModule } from "../user-feed-connection-events/user-feed-connection-events.module";
+import { UserFeedFeature } from "../user-feeds/entities";
+import { UserFeature } from "../users/entities/user.entity";
+import { FeedConnectionsHttpWebhooksController } from "./feed-connections-http-webhooks.controller";
+import { FeedConnectionsHttpWebhooksService } from "./feed-connections-http-webhooks.service";
+
+@Module({
+  controllers: [FeedConnectionsHttpWebhooksController],
+  providers: [FeedConnectionsHttpWebhooksService],
+  imports: [
+    FeedsModule,
+    DiscordAuthModule,
+    FeedHandlerModule,
+    SupportersModule,
+    WorkspacesModule,
+    MongooseModule.forFeature([UserFeedFeature, UserFeature]),
+    UserFeedConnectionEventsModule,
+    UserFeedAuditLogsModule,
+  ],
+  exports: [FeedConnectionsHttpWebhooksService],
+})
+export class FeedConnectionsHttpWebhooksModule {
+  static forRoot(): DynamicModule {
+    return {
+      module: FeedConnectionsHttpWebhooksModule,
+    };
+  }
+}
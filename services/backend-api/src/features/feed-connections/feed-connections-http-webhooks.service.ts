@@ -0,0 +1,327 @@
+import { Injectable } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import _ from "lodash";
+import { Types } from "mongoose";
+import { CustomPlaceholderDto, CustomRateLimitDto } from "../../common";
+import {
+  InsufficientSupporterLevelException,
+  InvalidFilterExpressionException,
+} from "../../common/exceptions";
+import { FeedHandlerService } from "../../services/feed-handler/feed-handler.service";
+import { FeedConnectionDisabledCode } from "../feeds/constants";
+import { HttpWebhookConnection } from "../feeds/entities/feed-connections";
+import { SupportersService } from "../supporters/supporters.service";
+import { UserFeedAuditLogsService } from "../user-feed-audit-logs/user-feed-audit-logs.service";
+import { UserFeedAuditActor } from "../user-feed-audit-logs/types";
+import { UserFeedConnectionEventsService } from "../user-feed-connection-events/user-feed-connection-events.service";
+import { UserFeed, UserFeedModel } from "../user-feeds/entities";
+
+const AUDITED_CONNECTION_FIELDS = [
+  "name",
+  "disabledCode",
+  "filters",
+  "customPlaceholders",
+  "rateLimits",
+  "schedule",
+  "details",
+];
+
+export interface UpdateHttpWebhookConnectionInput {
+  /**
+   * If set, the changes are recorded in the feed's audit log
+   */
+  actor?: UserFeedAuditActor;
+  feed: {
+    user: {
+      discordUserId: string;
+    };
+  };
+  oldConnection: HttpWebhookConnection;
+  updates: {
+    filters?: HttpWebhookConnection["filters"] | null;
+    name?: string;
+    disabledCode?: FeedConnectionDisabledCode | null;
+    rateLimits?: CustomRateLimitDto[] | null;
+    schedule?: HttpWebhookConnection["schedule"];
+    customPlaceholders?: CustomPlaceholderDto[] | null;
+    details?: {
+      url?: string;
+      method?: HttpWebhookConnection["details"]["method"];
+      headers?: HttpWebhookConnection["details"]["headers"];
+      bodyTemplate?: string | null;
+      signingSecret?: string | null;
+      retries?: number;
+      formatter?: HttpWebhookConnection["details"]["formatter"] | null;
+      placeholderLimits?:
+        | HttpWebhookConnection["details"]["placeholderLimits"]
+        | null;
+      enablePlaceholderFallback?: boolean;
+    };
+  };
+}
+
+@Injectable()
+export class FeedConnectionsHttpWebhooksService {
+  constructor(
+    @InjectModel(UserFeed.name) private readonly userFeedModel: UserFeedModel,
+    private readonly feedHandlerService: FeedHandlerService,
+    private readonly supportersService: SupportersService,
+    private readonly connectionEventsService: UserFeedConnectionEventsService,
+    private readonly userFeedAuditLogsService: UserFeedAuditLogsService
+  ) {}
+
+  async createConnection({
+    feed,
+    name,
+    url,
+    method,
+    headers,
+    bodyTemplate,
+    signingSecret,
+    retries,
+    userDiscordUserId,
+    actor,
+  }: {
+    feed: UserFeed;
+    name: string;
+    url: string;
+    method?: HttpWebhookConnection["details"]["method"];
+    headers?: HttpWebhookConnection["details"]["headers"];
+    bodyTemplate?: string;
+    signingSecret?: string;
+    retries?: number;
+    userDiscordUserId: string;
+    /**
+     * If set, the creation is recorded in the feed's audit log
+     */
+    actor?: UserFeedAuditActor;
+  }): Promise<HttpWebhookConnection> {
+    const connectionId = new Types.ObjectId();
+
+    const updated = await this.userFeedModel.findOneAndUpdate(
+      {
+        _id: feed._id,
+      },
+      {
+        $push: {
+          "connections.httpWebhooks": {
+            id: connectionId,
+            name,
+            details: {
+              url,
+              method,
+              headers,
+              bodyTemplate,
+              signingSecret,
+              retries,
+            },
+          },
+        },
+      },
+      {
+        new: true,
+      }
+    );
+
+    const createdConnection = updated?.connections.httpWebhooks.find(
+      (connection) => connection.id.equals(connectionId)
+    );
+
+    if (!createdConnection) {
+      throw new Error(
+        "Connection was not successfuly created. Check insertion statement and schemas are correct."
+      );
+    }
+
+    await this.connectionEventsService.handleCreatedEvent({
+      feed,
+      connectionId: createdConnection.id,
+      creator: {
+        discordUserId: userDiscordUserId,
+      },
+    });
+
+    if (actor) {
+      await this.userFeedAuditLogsService.recordDocumentChanges({
+        feedId: feed._id.toHexString(),
+        connectionId: createdConnection.id.toHexString(),
+        actor,
+        before: null,
+        after: createdConnection,
+        fields: AUDITED_CONNECTION_FIELDS,
+      });
+    }
+
+    return createdConnection;
+  }
+
+  async updateConnection(
+    feedId: string,
+    connectionId: string,
+    {
+      actor,
+      feed: {
+        user: { discordUserId },
+      },
+      oldConnection,
+      updates: {
+        details,
+        filters,
+        name,
+        disabledCode,
+        customPlaceholders,
+        rateLimits,
+        schedule,
+      },
+    }: UpdateHttpWebhookConnectionInput
+  ): Promise<HttpWebhookConnection> {
+    if (customPlaceholders?.length) {
+      const { allowCustomPlaceholders } =
+        await this.supportersService.getBenefitsOfDiscordUser(discordUserId);
+
+      if (!allowCustomPlaceholders) {
+        throw new InsufficientSupporterLevelException(
+          "User must be a supporter of a sufficient tier to use custom placeholders"
+        );
+      }
+    }
+
+    if (filters) {
+      const results = await this.feedHandlerService.validateFilters({
+        expression: filters.expression,
+      });
+
+      if (results.errors.length) {
+        throw new InvalidFilterExpressionException(
+          results.errors.map(
+            (message) => new InvalidFilterExpressionException(message)
+          )
+        );
+      }
+    }
+
+    const setRecordDetails: Record<string, unknown> = _.omitBy(
+      Object.entries(details || {}).reduce(
+        (acc, [key, value]) => ({
+          ...acc,
+          [`connections.httpWebhooks.$.details.${key}`]: value,
+        }),
+        {}
+      ),
+      _.isUndefined
+    );
+
+    const updated = await this.userFeedModel.findOneAndUpdate(
+      {
+        _id: feedId,
+        "connections.httpWebhooks.id": connectionId,
+      },
+      {
+        $set: {
+          ...setRecordDetails,
+          ...(filters && {
+            "connections.httpWebhooks.$.filters": filters,
+          }),
+          ...(name && {
+            "connections.httpWebhooks.$.name": name,
+          }),
+          ...(disabledCode && {
+            "connections.httpWebhooks.$.disabledCode": disabledCode,
+          }),
+          ...(customPlaceholders && {
+            "connections.httpWebhooks.$.customPlaceholders": customPlaceholders,
+          }),
+          ...(rateLimits && {
+            "connections.httpWebhooks.$.rateLimits": rateLimits,
+          }),
+          ...(schedule && {
+            "connections.httpWebhooks.$.schedule": schedule,
+          }),
+        },
+        $unset: {
+          ...(filters === null && {
+            "connections.httpWebhooks.$.filters": "",
+          }),
+          ...(disabledCode === null && {
+            "connections.httpWebhooks.$.disabledCode": "",
+            "connections.httpWebhooks.$.disabledDetail": "",
+          }),
+          ...(schedule === null && {
+            "connections.httpWebhooks.$.schedule": "",
+          }),
+        },
+      },
+      {
+        new: true,
+      }
+    );
+
+    const updatedConnection = updated?.connections.httpWebhooks.find(
+      (connection) => connection.id.equals(connectionId)
+    );
+
+    if (!updatedConnection) {
+      throw new Error(
+        "Connection was not successfuly updated. Check insertion statement and schemas are correct."
+      );
+    }
+
+    if (actor) {
+      await this.userFeedAuditLogsService.recordDocumentChanges({
+        feedId,
+        connectionId,
+        actor,
+        before: oldConnection,
+        after: updatedConnection,
+        fields: AUDITED_CONNECTION_FIELDS,
+      });
+    }
+
+    return updatedConnection;
+  }
+
+  async deleteConnection(
+    feedId: string,
+    connectionId: string,
+    actor?: UserFeedAuditActor
+  ) {
+    const updated = await this.userFeedModel.findOneAndUpdate(
+      {
+        _id: feedId,
+      },
+      {
+        $pull: {
+          "connections.httpWebhooks": {
+            id: connectionId,
+          },
+        },
+      }
+    );
+
+    if (!updated) {
+      throw new Error(
+        `Connection ${connectionId} on feed ${feedId} does not exist to be deleted`
+      );
+    }
+
+    await this.connectionEventsService.handleDeletedEvent({
+      feed: updated,
+      deletedConnectionIds: [new Types.ObjectId(connectionId)],
+    });
+
+    const deletedConnection = updated.connections.httpWebhooks.find((c) =>
+      c.id.equals(connectionId)
+    );
+
+    if (actor && deletedConnection) {
+      await this.userFeedAuditLogsService.recordDocumentChanges({
+        feedId,
+        connectionId,
+        actor,
+        before: deletedConnection,
+        after: null,
+        fields: AUDITED_CONNECTION_FIELDS,
+      });
+    }
+  }
+}
@@ -0,0 +1,325 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  ForbiddenException,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  UseFilters,
+  UseGuards,
+  ValidationPipe,
+} from "@nestjs/common";
+import { CannotEnableAutoDisabledConnection } from "../../common/exceptions";
+import { DiscordAccessToken } from "../discord-auth/decorators/DiscordAccessToken";
+import { DiscordOAuth2Guard } from "../discord-auth/guards/DiscordOAuth2.guard";
+import { SessionAccessToken } from "../discord-auth/types/SessionAccessToken.type";
+import { AuditActor } from "../user-feed-audit-logs/decorators";
+import { UserFeedAuditActor } from "../user-feed-audit-logs/types";
+import {
+  FeedConnectionDisabledCode,
+  FeedConnectionType,
+} from "../feeds/constants";
+import { MatrixRoomConnection } from "../feeds/entities/feed-connections";
+import {
+  UserFeedManagerRole,
+  UserFeedManagerType,
+} from "../user-feed-management-invites/constants";
+import { hasSharedManagerRole } from "../user-feed-management-invites/utils";
+import { GetUserFeedsPipe, GetUserFeedsPipeOutput } from "../user-feeds/pipes";
+import {
+  CreateMatrixRoomConnectionInputDto,
+  CreateMatrixRoomConnectionOutputDto,
+  CreateMatrixRoomConnectionPreviewInputDto,
+  CreateMatrixRoomConnectionPreviewOutputDto,
+  CreateMatrixRoomConnectionTestArticleInputDto,
+  CreateMatrixRoomConnectionTestArticleOutputDto,
+  UpdateMatrixRoomConnectionInputDto,
+  UpdateMatrixRoomConnectionOutputDto,
+} from "./dto";
+import { FeedConnectionsMatrixRoomsService } from "./feed-connections-matrix-rooms.service";
+import {
+  CreateChatConnectionTestArticleFilter,
+  DeleteChatConnectionFilter,
+  UpdateChatConnectionFilter,
+} from "./filters";
+import {
+  GetFeedMatrixRoomConnectionPipe,
+  GetFeedMatrixRoomConnectionPipeOutput,
+} from "./pipes";
+
+@Controller("user-feeds/:feedId/connections")
+@UseGuards(DiscordOAuth2Guard)
+export class FeedConnectionsMatrixRoomsController {
+  constructor(private readonly service: FeedConnectionsMatrixRoomsService) {}
+
+  @Post("/matrix-rooms")
+  async createMatrixRoomConnection(
+    @Param(
+      "feedId",
+      GetUserFeedsPipe({
+        userTypes: [
+          UserFeedManagerType.Creator,
+          UserFeedManagerType.SharedManager,
+        ],
+      })
+    )
+    [{ feed }]: GetUserFeedsPipeOutput,
+    @Body(ValidationPipe)
+    {
+      name,
+      homeserverUrl,
+      roomId,
+      accessToken,
+      msgtype,
+      content,
+    }: CreateMatrixRoomConnectionInputDto,
+    @DiscordAccessToken()
+    { discord: { id: discordUserId } }: SessionAccessToken,
+    @AuditActor() actor: UserFeedAuditActor
+  ): Promise<CreateMatrixRoomConnectionOutputDto> {
+    const createdConnection = await this.service.createConnection({
+      feed,
+      name,
+      homeserverUrl,
+      roomId,
+      accessToken,
+      msgtype,
+      content,
+      userDiscordUserId: discordUserId,
+      actor,
+    });
+
+    return this.formatConnection(createdConnection);
+  }
+
+  @Post("/matrix-rooms/:connectionId/test")
+  @UseFilters(CreateChatConnectionTestArticleFilter)
+  async sendTestArticle(
+    @Param(
+      "feedId",
+      GetUserFeedsPipe({
+        sharedManagerRole: UserFeedManagerRole.Editor,
+        userTypes: [
+          UserFeedManagerType.Creator,
+          UserFeedManagerType.SharedManager,
+        ],
+      }),
+      GetFeedMatrixRoomConnectionPipe
+    )
+    [{ feed, connection }]: GetFeedMatrixRoomConnectionPipeOutput[],
+    @Body(ValidationPipe)
+    data: CreateMatrixRoomConnectionTestArticleInputDto
+  ): Promise<CreateMatrixRoomConnectionTestArticleOutputDto> {
+    const result = await this.service.sendTestArticle(feed, connection, {
+      article: data.article,
+      previewInput: {
+        ...data,
+        userFeed: feed,
+        connection,
+        feedFormatOptions: data.userFeedFormatOptions || null,
+      },
+    });
+
+    return {
+      result: {
+        status: result.status,
+        apiPayload: result.apiPayload,
+        apiResponse: result.apiResponse,
+      },
+    };
+  }
+
+  @Post("/matrix-rooms/:connectionId/preview")
+  @UseFilters(CreateChatConnectionTestArticleFilter)
+  async createPreview(
+    @Param(
+      "feedId",
+      GetUserFeedsPipe({
+        sharedManagerRole: UserFeedManagerRole.Viewer,
+        userTypes: [
+          UserFeedManagerType.Creator,
+          UserFeedManagerType.SharedManager,
+        ],
+      }),
+      GetFeedMatrixRoomConnectionPipe
+    )
+    [{ feed, connection }]: GetFeedMatrixRoomConnectionPipeOutput[],
+    @Body(ValidationPipe)
+    {
+      article,
+      msgtype,
+      content,
+      userFeedFormatOptions,
+      connectionFormatOptions,
+      placeholderLimits,
+      enablePlaceholderFallback,
+      customPlaceholders,
+      includeCustomPlaceholderPreviews,
+    }: CreateMatrixRoomConnectionPreviewInputDto
+  ): Promise<CreateMatrixRoomConnectionPreviewOutputDto> {
+    const result = await this.service.createPreview({
+      connection,
+      userFeed: feed,
+      feedFormatOptions: { ...feed.formatOptions, ...userFeedFormatOptions },
+      connectionFormatOptions,
+      articleId: article.id,
+      msgtype,
+      content,
+      placeholderLimits,
+      enablePlaceholderFallback,
+      customPlaceholders,
+      includeCustomPlaceholderPreviews,
+    });
+
+    return {
+      result: {
+        status: result.status,
+        messages: result.messages,
+        customPlaceholderPreviews: result.customPlaceholderPreviews,
+      },
+    };
+  }
+
+  @Patch("/matrix-rooms/:connectionId")
+  @UseFilters(UpdateChatConnectionFilter)
+  async updateMatrixRoomConnection(
+    @Param(
+      "feedId",
+      GetUserFeedsPipe({ sharedManagerRole: UserFeedManagerRole.Editor }),
+      GetFeedMatrixRoomConnectionPipe
+    )
+    [
+      { feed, connection, sharedManagerRole },
+    ]: GetFeedMatrixRoomConnectionPipeOutput[],
+    @Body(ValidationPipe)
+    {
+      name,
+      homeserverUrl,
+      roomId,
+      accessToken,
+      msgtype,
+      content,
+      filters,
+      disabledCode,
+      formatter,
+      placeholderLimits,
+      enablePlaceholderFallback,
+      customPlaceholders,
+      rateLimits,
+      schedule,
+    }: UpdateMatrixRoomConnectionInputDto,
+    @AuditActor() actor: UserFeedAuditActor
+  ): Promise<UpdateMatrixRoomConnectionOutputDto> {
+    if (
+      !hasSharedManagerRole(sharedManagerRole, UserFeedManagerRole.Admin) &&
+      (homeserverUrl || roomId || accessToken)
+    ) {
+      throw new ForbiddenException(
+        "Only admins may change where a connection delivers to"
+      );
+    }
+
+    let useDisableCode: FeedConnectionDisabledCode | undefined | null =
+      undefined;
+
+    if (connection.disabledCode) {
+      if (connection.disabledCode === FeedConnectionDisabledCode.BadFormat) {
+        if (disabledCode === null) {
+          throw new CannotEnableAutoDisabledConnection();
+        }
+
+        if (msgtype || content) {
+          useDisableCode = null;
+        }
+      } else if (
+        connection.disabledCode === FeedConnectionDisabledCode.MissingMedium
+      ) {
+        if (homeserverUrl || roomId || accessToken) {
+          useDisableCode = null;
+        } else if (disabledCode === null) {
+          throw new CannotEnableAutoDisabledConnection();
+        }
+      } else if (
+        connection.disabledCode === FeedConnectionDisabledCode.Manual
+      ) {
+        if (disabledCode === null) {
+          useDisableCode = null;
+        }
+      } else if (disabledCode === null) {
+        throw new CannotEnableAutoDisabledConnection();
+      }
+    } else if (disabledCode === FeedConnectionDisabledCode.Manual) {
+      useDisableCode = FeedConnectionDisabledCode.Manual;
+    }
+
+    const updatedConnection = await this.service.updateConnection(
+      feed._id.toHexString(),
+      connection.id.toHexString(),
+      {
+        actor,
+        feed,
+        oldConnection: connection,
+        updates: {
+          name,
+          filters,
+          disabledCode: useDisableCode,
+          customPlaceholders,
+          rateLimits,
+          schedule,
+          details: {
+            homeserverUrl,
+            roomId,
+            accessToken,
+            msgtype,
+            content,
+            formatter,
+            placeholderLimits,
+            enablePlaceholderFallback,
+          },
+        },
+      }
+    );
+
+    return this.formatConnection(updatedConnection);
+  }
+
+  @Delete("/matrix-rooms/:connectionId")
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseFilters(DeleteChatConnectionFilter)
+  async deleteMatrixRoomConnection(
+    @Param("feedId", GetUserFeedsPipe(), GetFeedMatrixRoomConnectionPipe)
+    [{ feed, connection }]: GetFeedMatrixRoomConnectionPipeOutput[],
+    @AuditActor() actor: UserFeedAuditActor
+  ): Promise<void> {
+    await this.service.deleteConnection(
+      feed._id.toHexString(),
+      connection.id.toHexString(),
+      actor
+    );
+  }
+
+  private formatConnection(
+    connection: MatrixRoomConnection
+  ): CreateMatrixRoomConnectionOutputDto {
+    return {
+      id: connection.id.toHexString(),
+      name: connection.name,
+      key: FeedConnectionType.MatrixRoom,
+      disabledCode: connection.disabledCode,
+      filters: connection.filters,
+      rateLimits: connection.rateLimits,
+      schedule: connection.schedule,
+      customPlaceholders: connection.customPlaceholders,
+      details: {
+        homeserverUrl: connection.details.homeserverUrl,
+        roomId: connection.details.roomId,
+        msgtype: connection.details.msgtype,
+        content: connection.details.content,
+        formatter: connection.details.formatter,
+      },
+    };
+  }
+}
@@ -0,0 +1,37 @@
+/* eslint-disable max-len */
+import { DynamicModule, Module } from "@nestjs/common";
+import { MongooseModule } from "@nestjs/mongoose";
+import { FeedHandlerModule } from "../../services/feed-handler/feed-fetcher.module";
+import { DiscordAuthModule } from "../discord-auth/discord-auth.module";
+import { FeedsModule } from "../feeds/feeds.module";
+import { SupportersModule } from "../supporters/supporters.module";
+import { WorkspacesModule } from "../workspaces/workspaces.module";
+import { UserFeedAuditLogsModule } from "../user-feed-audit-logs/user-feed-audit-logs.module";
+import { UserFeedConnectionEventsModule } from "../user-feed-connection-events/user-feed-connection-events.module";
+import { UserFeedFeature } from "../user-feeds/entities";
+import { UserFeature } from "../users/entities/user.entity";
+import { FeedConnectionsMatrixRoomsController } from "./feed-connections-matrix-rooms.controller";
+import { FeedConnectionsMatrixRoomsService } from "./feed-connections-matrix-rooms.service";
+
+@Module({
+  controllers: [FeedConnectionsMatrixRoomsController],
+  providers: [FeedConnectionsMatrixRoomsService],
+  imports: [
+    FeedsModule,
+    DiscordAuthModule,
+    FeedHandlerModule,
+    SupportersModule,
+    WorkspacesModule,
+    MongooseModule.forFeature([UserFeedFeature, UserFeature]),
+    UserFeedConnectionEventsModule,
+    UserFeedAuditLogsModule,
+  ],
+  exports: [FeedConnectionsMatrixRoomsService],
+})
+export class FeedConnectionsMatrixRoomsModule {
+  static forRoot(): DynamicModule {
+    return {
+      module: FeedConnectionsMatrixRoomsModule,
+    };
+  }
+}
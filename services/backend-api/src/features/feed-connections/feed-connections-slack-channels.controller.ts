@@ -0,0 +1,322 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  ForbiddenException,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  UseFilters,
+  UseGuards,
+  ValidationPipe,
+} from "@nestjs/common";
+import { CannotEnableAutoDisabledConnection } from "../../common/exceptions";
+import { DiscordAccessToken } from "../discord-auth/decorators/DiscordAccessToken";
+import { DiscordOAuth2Guard } from "../discord-auth/guards/DiscordOAuth2.guard";
+import { SessionAccessToken } from "../discord-auth/types/SessionAccessToken.type";
+import { AuditActor } from "../user-feed-audit-logs/decorators";
+import { UserFeedAuditActor } from "../user-feed-audit-logs/types";
+import {
+  FeedConnectionDisabledCode,
+  FeedConnectionType,
+} from "../feeds/constants";
+import { SlackChannelConnection } from "../feeds/entities/feed-connections";
+import {
+  UserFeedManagerRole,
+  UserFeedManagerType,
+} from "../user-feed-management-invites/constants";
+import { hasSharedManagerRole } from "../user-feed-management-invites/utils";
+import { GetUserFeedsPipe, GetUserFeedsPipeOutput } from "../user-feeds/pipes";
+import {
+  CreateSlackChannelConnectionInputDto,
+  CreateSlackChannelConnectionOutputDto,
+  CreateSlackChannelConnectionPreviewInputDto,
+  CreateSlackChannelConnectionPreviewOutputDto,
+  CreateSlackChannelConnectionTestArticleInputDto,
+  CreateSlackChannelConnectionTestArticleOutputDto,
+  UpdateSlackChannelConnectionInputDto,
+  UpdateSlackChannelConnectionOutputDto,
+} from "./dto";
+import { FeedConnectionsSlackChannelsService } from "./feed-connections-slack-channels.service";
+import {
+  CreateChatConnectionTestArticleFilter,
+  DeleteChatConnectionFilter,
+  UpdateChatConnectionFilter,
+} from "./filters";
+import {
+  GetFeedSlackChannelConnectionPipe,
+  GetFeedSlackChannelConnectionPipeOutput,
+} from "./pipes";
+
+@Controller("user-feeds/:feedId/connections")
+@UseGuards(DiscordOAuth2Guard)
+export class FeedConnectionsSlackChannelsController {
+  constructor(private readonly service: FeedConnectionsSlackChannelsService) {}
+
+  @Post("/slack-channels")
+  async createSlackChannelConnection(
+    @Param(
+      "feedId",
+      GetUserFeedsPipe({
+        userTypes: [
+          UserFeedManagerType.Creator,
+          UserFeedManagerType.SharedManager,
+        ],
+      })
+    )
+    [{ feed }]: GetUserFeedsPipeOutput,
+    @Body(ValidationPipe)
+    {
+      name,
+      webhookUrl,
+      headerText,
+      content,
+      imageUrl,
+    }: CreateSlackChannelConnectionInputDto,
+    @DiscordAccessToken()
+    { discord: { id: discordUserId } }: SessionAccessToken,
+    @AuditActor() actor: UserFeedAuditActor
+  ): Promise<CreateSlackChannelConnectionOutputDto> {
+    const createdConnection = await this.service.createConnection({
+      feed,
+      name,
+      webhookUrl,
+      headerText,
+      content,
+      imageUrl,
+      userDiscordUserId: discordUserId,
+      actor,
+    });
+
+    return this.formatConnection(createdConnection);
+  }
+
+  @Post("/slack-channels/:connectionId/test")
+  @UseFilters(CreateChatConnectionTestArticleFilter)
+  async sendTestArticle(
+    @Param(
+      "feedId",
+      GetUserFeedsPipe({
+        sharedManagerRole: UserFeedManagerRole.Editor,
+        userTypes: [
+          UserFeedManagerType.Creator,
+          UserFeedManagerType.SharedManager,
+        ],
+      }),
+      GetFeedSlackChannelConnectionPipe
+    )
+    [{ feed, connection }]: GetFeedSlackChannelConnectionPipeOutput[],
+    @Body(ValidationPipe)
+    data: CreateSlackChannelConnectionTestArticleInputDto
+  ): Promise<CreateSlackChannelConnectionTestArticleOutputDto> {
+    const result = await this.service.sendTestArticle(feed, connection, {
+      article: data.article,
+      previewInput: {
+        ...data,
+        userFeed: feed,
+        connection,
+        feedFormatOptions: data.userFeedFormatOptions || null,
+      },
+    });
+
+    return {
+      result: {
+        status: result.status,
+        apiPayload: result.apiPayload,
+        apiResponse: result.apiResponse,
+      },
+    };
+  }
+
+  @Post("/slack-channels/:connectionId/preview")
+  @UseFilters(CreateChatConnectionTestArticleFilter)
+  async createPreview(
+    @Param(
+      "feedId",
+      GetUserFeedsPipe({
+        sharedManagerRole: UserFeedManagerRole.Viewer,
+        userTypes: [
+          UserFeedManagerType.Creator,
+          UserFeedManagerType.SharedManager,
+        ],
+      }),
+      GetFeedSlackChannelConnectionPipe
+    )
+    [{ feed, connection }]: GetFeedSlackChannelConnectionPipeOutput[],
+    @Body(ValidationPipe)
+    {
+      article,
+      headerText,
+      content,
+      imageUrl,
+      userFeedFormatOptions,
+      connectionFormatOptions,
+      placeholderLimits,
+      enablePlaceholderFallback,
+      customPlaceholders,
+      includeCustomPlaceholderPreviews,
+    }: CreateSlackChannelConnectionPreviewInputDto
+  ): Promise<CreateSlackChannelConnectionPreviewOutputDto> {
+    const result = await this.service.createPreview({
+      connection,
+      userFeed: feed,
+      feedFormatOptions: { ...feed.formatOptions, ...userFeedFormatOptions },
+      connectionFormatOptions,
+      articleId: article.id,
+      headerText,
+      content,
+      imageUrl,
+      placeholderLimits,
+      enablePlaceholderFallback,
+      customPlaceholders,
+      includeCustomPlaceholderPreviews,
+    });
+
+    return {
+      result: {
+        status: result.status,
+        messages: result.messages,
+        customPlaceholderPreviews: result.customPlaceholderPreviews,
+      },
+    };
+  }
+
+  @Patch("/slack-channels/:connectionId")
+  @UseFilters(UpdateChatConnectionFilter)
+  async updateSlackChannelConnection(
+    @Param(
+      "feedId",
+      GetUserFeedsPipe({ sharedManagerRole: UserFeedManagerRole.Editor }),
+      GetFeedSlackChannelConnectionPipe
+    )
+    [
+      { feed, connection, sharedManagerRole },
+    ]: GetFeedSlackChannelConnectionPipeOutput[],
+    @Body(ValidationPipe)
+    {
+      name,
+      webhookUrl,
+      headerText,
+      content,
+      imageUrl,
+      filters,
+      disabledCode,
+      formatter,
+      placeholderLimits,
+      enablePlaceholderFallback,
+      customPlaceholders,
+      rateLimits,
+      schedule,
+    }: UpdateSlackChannelConnectionInputDto,
+    @AuditActor() actor: UserFeedAuditActor
+  ): Promise<UpdateSlackChannelConnectionOutputDto> {
+    if (
+      !hasSharedManagerRole(sharedManagerRole, UserFeedManagerRole.Admin) &&
+      webhookUrl
+    ) {
+      throw new ForbiddenException(
+        "Only admins may change where a connection delivers to"
+      );
+    }
+
+    let useDisableCode: FeedConnectionDisabledCode | undefined | null =
+      undefined;
+
+    if (connection.disabledCode) {
+      if (connection.disabledCode === FeedConnectionDisabledCode.BadFormat) {
+        if (disabledCode === null) {
+          throw new CannotEnableAutoDisabledConnection();
+        }
+
+        if (headerText !== undefined || content || imageUrl !== undefined) {
+          useDisableCode = null;
+        }
+      } else if (
+        connection.disabledCode === FeedConnectionDisabledCode.MissingMedium
+      ) {
+        if (webhookUrl) {
+          useDisableCode = null;
+        } else if (disabledCode === null) {
+          throw new CannotEnableAutoDisabledConnection();
+        }
+      } else if (
+        connection.disabledCode === FeedConnectionDisabledCode.Manual
+      ) {
+        if (disabledCode === null) {
+          useDisableCode = null;
+        }
+      } else if (disabledCode === null) {
+        throw new CannotEnableAutoDisabledConnection();
+      }
+    } else if (disabledCode === FeedConnectionDisabledCode.Manual) {
+      useDisableCode = FeedConnectionDisabledCode.Manual;
+    }
+
+    const updatedConnection = await this.service.updateConnection(
+      feed._id.toHexString(),
+      connection.id.toHexString(),
+      {
+        actor,
+        feed,
+        oldConnection: connection,
+        updates: {
+          name,
+          filters,
+          disabledCode: useDisableCode,
+          customPlaceholders,
+          rateLimits,
+          schedule,
+          details: {
+            webhookUrl,
+            headerText,
+            content,
+            imageUrl,
+            formatter,
+            placeholderLimits,
+            enablePlaceholderFallback,
+          },
+        },
+      }
+    );
+
+    return this.formatConnection(updatedConnection);
+  }
+
+  @Delete("/slack-channels/:connectionId")
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseFilters(DeleteChatConnectionFilter)
+  async deleteSlackChannelConnection(
+    @Param("feedId", GetUserFeedsPipe(), GetFeedSlackChannelConnectionPipe)
+    [{ feed, connection }]: GetFeedSlackChannelConnectionPipeOutput[],
+    @AuditActor() actor: UserFeedAuditActor
+  ): Promise<void> {
+    await this.service.deleteConnection(
+      feed._id.toHexString(),
+      connection.id.toHexString(),
+      actor
+    );
+  }
+
+  private formatConnection(
+    connection: SlackChannelConnection
+  ): CreateSlackChannelConnectionOutputDto {
+    return {
+      id: connection.id.toHexString(),
+      name: connection.name,
+      key: FeedConnectionType.SlackChannel,
+      disabledCode: connection.disabledCode,
+      filters: connection.filters,
+      rateLimits: connection.rateLimits,
+      schedule: connection.schedule,
+      customPlaceholders: connection.customPlaceholders,
+      details: {
+        headerText: connection.details.headerText,
+        content: connection.details.content,
+        imageUrl: connection.details.imageUrl,
+        formatter: connection.details.formatter,
+      },
+    };
+  }
+}
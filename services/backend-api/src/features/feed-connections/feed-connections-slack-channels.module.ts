@@ -0,0 +1,37 @@
+/* eslint-disable max-len */
+import { DynamicModule, Module } from "@nestjs/common";
+import { MongooseModule } from "@nestjs/mongoose";
+import { FeedHandlerModule } from "../../services/feed-handler/feed-fetcher.module";
+import { DiscordAuthModule } from "../discord-auth/discord-auth.module";
+import { FeedsModule } from "../feeds/feeds.module";
+import { SupportersModule } from "../supporters/supporters.module";
+import { WorkspacesModule } from "../workspaces/workspaces.module";
+import { UserFeedAuditLogsModule } from "../user-feed-audit-logs/user-feed-audit-logs.module";
+import { UserFeedConnectionEventsModule } from "../user-feed-connection-events/user-feed-connection-events.module";
+import { UserFeedFeature } from "../user-feeds/entities";
+import { UserFeature } from "../users/entities/user.entity";
+import { FeedConnectionsSlackChannelsController } from "./feed-connections-slack-channels.controller";
+import { FeedConnectionsSlackChannelsService } from "./feed-connections-slack-channels.service";
+
+@Module({
+  controllers: [FeedConnectionsSlackChannelsController],
+  providers: [FeedConnectionsSlackChannelsService],
+  imports: [
+    FeedsModule,
+    DiscordAuthModule,
+    FeedHandlerModule,
+    SupportersModule,
+    WorkspacesModule,
+    MongooseModule.forFeature([UserFeedFeature, UserFeature]),
+    UserFeedConnectionEventsModule,
+    UserFeedAuditLogsModule,
+  ],
+  exports: [FeedConnectionsSlackChannelsService],
+})
+export class FeedConnectionsSlackChannelsModule {
+  static forRoot(): DynamicModule {
+    return {
+      module: FeedConnectionsSlackChannelsModule,
+    };
+  }
+}
@@ -0,0 +1,275 @@
+import { getModelToken, MongooseModule } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import { InvalidFilterExpressionException } from "../../common/exceptions";
+import { FeedHandlerService } from "../../services/feed-handler/feed-handler.service";
+import {
+  setupIntegrationTests,
+  teardownIntegrationTests,
+} from "../../utils/integration-tests";
+import { MongooseTestModule } from "../../utils/mongoose-test.module";
+import { FeedConnectionDisabledCode } from "../feeds/constants";
+import { SupportersService } from "../supporters/supporters.service";
+import { UserFeedAuditLogsService } from "../user-feed-audit-logs/user-feed-audit-logs.service";
+import { UserFeedConnectionEventsService } from "../user-feed-connection-events/user-feed-connection-events.service";
+import { UserFeed, UserFeedFeature } from "../user-feeds/entities";
+import { FeedConnectionsSlackChannelsService } from "./feed-connections-slack-channels.service";
+
+describe("FeedConnectionsSlackChannelsService", () => {
+  let service: FeedConnectionsSlackChannelsService;
+  let userFeedModel: Model<UserFeed>;
+  const feedHandlerService = {
+    sendTestArticle: jest.fn(),
+    validateFilters: jest.fn(),
+  };
+  const supportersService = {
+    getBenefitsOfDiscordUser: jest.fn(),
+  };
+  const connectionEventsService = {
+    handleCreatedEvent: jest.fn(),
+    handleDeletedEvent: jest.fn(),
+  };
+  const userFeedAuditLogsService = {
+    recordDocumentChanges: jest.fn(),
+  };
+
+  beforeAll(async () => {
+    const { init } = await setupIntegrationTests({
+      providers: [
+        FeedConnectionsSlackChannelsService,
+        {
+          provide: FeedHandlerService,
+          useValue: feedHandlerService,
+        },
+        {
+          provide: SupportersService,
+          useValue: supportersService,
+        },
+        {
+          provide: UserFeedConnectionEventsService,
+          useValue: connectionEventsService,
+        },
+        {
+          provide: UserFeedAuditLogsService,
+          useValue: userFeedAuditLogsService,
+        },
+      ],
+      imports: [
+        MongooseTestModule.forRoot(),
+        MongooseModule.forFeature([UserFeedFeature]),
+      ],
+    });
+
+    const { module } = await init();
+
+    service = module.get(FeedConnectionsSlackChannelsService);
+    userFeedModel = module.get(getModelToken(UserFeed.name));
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    feedHandlerService.validateFilters.mockResolvedValue({
+      errors: [],
+    });
+    supportersService.getBenefitsOfDiscordUser.mockResolvedValue({
+      allowCustomPlaceholders: true,
+    });
+  });
+
+  afterEach(async () => {
+    await userFeedModel.deleteMany({});
+  });
+
+  afterAll(async () => {
+    teardownIntegrationTests();
+  });
+
+  const createFeed = () =>
+    userFeedModel.create({
+      title: "my feed",
+      url: "url",
+      user: {
+        discordUserId: "discord-user-id",
+      },
+    });
+
+  describe("createConnection", () => {
+    it("saves the new connection", async () => {
+      const feed = await createFeed();
+
+      const created = await service.createConnection({
+        feed,
+        name: "name",
+        webhookUrl: "https://hooks.slack.com/services/a/b/c",
+        content: "{{title}}",
+        userDiscordUserId: "discord-user-id",
+      });
+
+      const updatedFeed = await userFeedModel.findById(feed._id).lean();
+
+      expect(updatedFeed?.connections.slackChannels).toHaveLength(1);
+      expect(updatedFeed?.connections.slackChannels[0]).toMatchObject({
+        id: created.id,
+        name: "name",
+        details: {
+          webhookUrl: "https://hooks.slack.com/services/a/b/c",
+          content: "{{title}}",
+        },
+      });
+    });
+  });
+
+  describe("updateConnection", () => {
+    it("updates the connection", async () => {
+      const feed = await createFeed();
+      const created = await service.createConnection({
+        feed,
+        name: "name",
+        webhookUrl: "https://hooks.slack.com/services/a/b/c",
+        userDiscordUserId: "discord-user-id",
+      });
+
+      const updated = await service.updateConnection(
+        feed._id.toHexString(),
+        created.id.toHexString(),
+        {
+          feed,
+          oldConnection: created,
+          updates: {
+            name: "new name",
+            disabledCode: FeedConnectionDisabledCode.Manual,
+            details: {
+              headerText: "{{title}}",
+            },
+          },
+        }
+      );
+
+      expect(updated).toMatchObject({
+        name: "new name",
+        disabledCode: FeedConnectionDisabledCode.Manual,
+        details: {
+          webhookUrl: "https://hooks.slack.com/services/a/b/c",
+          headerText: "{{title}}",
+        },
+      });
+    });
+
+    it("records the changes in the audit log", async () => {
+      const feed = await createFeed();
+      const created = await service.createConnection({
+        feed,
+        name: "name",
+        webhookUrl: "https://hooks.slack.com/services/a/b/c",
+        userDiscordUserId: "discord-user-id",
+      });
+      const actor = {
+        discordUserId: "discord-user-id",
+        route:
+          "PATCH /user-feeds/:feedId/connections/slack-channels/:connectionId",
+      };
+
+      const updated = await service.updateConnection(
+        feed._id.toHexString(),
+        created.id.toHexString(),
+        {
+          actor,
+          feed,
+          oldConnection: created,
+          updates: {
+            name: "new name",
+          },
+        }
+      );
+
+      expect(
+        userFeedAuditLogsService.recordDocumentChanges
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({
+          feedId: feed._id.toHexString(),
+          connectionId: created.id.toHexString(),
+          actor,
+          before: created,
+          after: updated,
+        })
+      );
+    });
+
+    it("throws if the filters are invalid", async () => {
+      const feed = await createFeed();
+      const created = await service.createConnection({
+        feed,
+        name: "name",
+        webhookUrl: "https://hooks.slack.com/services/a/b/c",
+        userDiscordUserId: "discord-user-id",
+      });
+      feedHandlerService.validateFilters.mockResolvedValue({
+        errors: ["error"],
+      });
+
+      await expect(
+        service.updateConnection(
+          feed._id.toHexString(),
+          created.id.toHexString(),
+          {
+            feed,
+            oldConnection: created,
+            updates: {
+              filters: {
+                expression: {},
+              },
+            },
+          }
+        )
+      ).rejects.toThrow(InvalidFilterExpressionException);
+    });
+  });
+
+  describe("deleteConnection", () => {
+    it("removes the connection", async () => {
+      const feed = await createFeed();
+      const created = await service.createConnection({
+        feed,
+        name: "name",
+        webhookUrl: "https://hooks.slack.com/services/a/b/c",
+        userDiscordUserId: "discord-user-id",
+      });
+
+      await service.deleteConnection(
+        feed._id.toHexString(),
+        created.id.toHexString()
+      );
+
+      const updatedFeed = await userFeedModel.findById(feed._id).lean();
+
+      expect(updatedFeed?.connections.slackChannels).toHaveLength(0);
+    });
+  });
+
+  describe("sendTestArticle", () => {
+    it("sends the slack medium details to the feed handler", async () => {
+      const feed = await createFeed();
+      const created = await service.createConnection({
+        feed,
+        name: "name",
+        webhookUrl: "https://hooks.slack.com/services/a/b/c",
+        content: "{{title}}",
+        userDiscordUserId: "discord-user-id",
+      });
+      feedHandlerService.sendTestArticle.mockResolvedValue({
+        status: "SUCCESS",
+      });
+
+      await service.sendTestArticle(feed, created);
+
+      expect(feedHandlerService.sendTestArticle).toHaveBeenCalledWith({
+        details: expect.objectContaining({
+          type: "slack",
+          mediumDetails: expect.objectContaining({
+            webhookUrl: "https://hooks.slack.com/services/a/b/c",
+            content: "{{title}}",
+          }),
+        }),
+      });
+    });
+  });
+});
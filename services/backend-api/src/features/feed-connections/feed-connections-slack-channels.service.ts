@@ -0,0 +1,482 @@
+import { Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { InjectModel } from "@nestjs/mongoose";
+import _ from "lodash";
+import { Types } from "mongoose";
+import { CustomPlaceholderDto, CustomRateLimitDto } from "../../common";
+import {
+  InsufficientSupporterLevelException,
+  InvalidFilterExpressionException,
+} from "../../common/exceptions";
+import { FeedHandlerService } from "../../services/feed-handler/feed-handler.service";
+import {
+  CreateChatPreviewOutput,
+  SendTestArticleResult,
+  SendTestSlackArticleInput,
+} from "../../services/feed-handler/types";
+import { FeedConnectionDisabledCode } from "../feeds/constants";
+import { SlackChannelConnection } from "../feeds/entities/feed-connections";
+import { SupportersService } from "../supporters/supporters.service";
+import { UserFeedAuditLogsService } from "../user-feed-audit-logs/user-feed-audit-logs.service";
+import { UserFeedAuditActor } from "../user-feed-audit-logs/types";
+import { UserFeedConnectionEventsService } from "../user-feed-connection-events/user-feed-connection-events.service";
+import { UserFeed, UserFeedModel } from "../user-feeds/entities";
+import {
+  getUserFeedHtmlScrapeOptions,
+  getUserFeedRequestLookupDetails,
+} from "../user-feeds/utils";
+
+const AUDITED_CONNECTION_FIELDS = [
+  "name",
+  "disabledCode",
+  "filters",
+  "customPlaceholders",
+  "rateLimits",
+  "schedule",
+  "details",
+];
+
+export interface UpdateSlackChannelConnectionInput {
+  /**
+   * If set, the changes are recorded in the feed's audit log
+   */
+  actor?: UserFeedAuditActor;
+  feed: {
+    user: {
+      discordUserId: string;
+    };
+  };
+  oldConnection: SlackChannelConnection;
+  updates: {
+    filters?: SlackChannelConnection["filters"] | null;
+    name?: string;
+    disabledCode?: FeedConnectionDisabledCode | null;
+    rateLimits?: CustomRateLimitDto[] | null;
+    schedule?: SlackChannelConnection["schedule"];
+    customPlaceholders?: CustomPlaceholderDto[] | null;
+    details?: {
+      webhookUrl?: string;
+      headerText?: string | null;
+      content?: string;
+      imageUrl?: string | null;
+      formatter?: SlackChannelConnection["details"]["formatter"] | null;
+      placeholderLimits?:
+        | SlackChannelConnection["details"]["placeholderLimits"]
+        | null;
+      enablePlaceholderFallback?: boolean;
+    };
+  };
+}
+
+interface CreatePreviewInput {
+  userFeed: UserFeed;
+  connection: SlackChannelConnection;
+  headerText?: string | null;
+  content?: string;
+  imageUrl?: string | null;
+  customPlaceholders?: CustomPlaceholderDto[] | null;
+  feedFormatOptions: UserFeed["formatOptions"] | null;
+  connectionFormatOptions?:
+    | SlackChannelConnection["details"]["formatter"]
+    | null;
+  placeholderLimits?:
+    | SlackChannelConnection["details"]["placeholderLimits"]
+    | null;
+  articleId?: string;
+  enablePlaceholderFallback?: boolean;
+  includeCustomPlaceholderPreviews?: boolean;
+}
+
+@Injectable()
+export class FeedConnectionsSlackChannelsService {
+  constructor(
+    @InjectModel(UserFeed.name) private readonly userFeedModel: UserFeedModel,
+    private readonly feedHandlerService: FeedHandlerService,
+    private readonly supportersService: SupportersService,
+    private readonly connectionEventsService: UserFeedConnectionEventsService,
+    private readonly userFeedAuditLogsService: UserFeedAuditLogsService,
+    private readonly configService: ConfigService
+  ) {}
+
+  async createConnection({
+    feed,
+    name,
+    webhookUrl,
+    headerText,
+    content,
+    imageUrl,
+    userDiscordUserId,
+    actor,
+  }: {
+    feed: UserFeed;
+    name: string;
+    webhookUrl: string;
+    headerText?: string;
+    content?: string;
+    imageUrl?: string;
+    userDiscordUserId: string;
+    /**
+     * If set, the creation is recorded in the feed's audit log
+     */
+    actor?: UserFeedAuditActor;
+  }): Promise<SlackChannelConnection> {
+    const connectionId = new Types.ObjectId();
+
+    const updated = await this.userFeedModel.findOneAndUpdate(
+      {
+        _id: feed._id,
+      },
+      {
+        $push: {
+          "connections.slackChannels": {
+            id: connectionId,
+            name,
+            details: {
+              webhookUrl,
+              headerText,
+              content,
+              imageUrl,
+            },
+          },
+        },
+      },
+      {
+        new: true,
+      }
+    );
+
+    const createdConnection = updated?.connections.slackChannels.find(
+      (connection) => connection.id.equals(connectionId)
+    );
+
+    if (!createdConnection) {
+      throw new Error(
+        "Connection was not successfuly created. Check insertion statement and schemas are correct."
+      );
+    }
+
+    await this.connectionEventsService.handleCreatedEvent({
+      feed,
+      connectionId: createdConnection.id,
+      creator: {
+        discordUserId: userDiscordUserId,
+      },
+    });
+
+    if (actor) {
+      await this.userFeedAuditLogsService.recordDocumentChanges({
+        feedId: feed._id.toHexString(),
+        connectionId: createdConnection.id.toHexString(),
+        actor,
+        before: null,
+        after: createdConnection,
+        fields: AUDITED_CONNECTION_FIELDS,
+      });
+    }
+
+    return createdConnection;
+  }
+
+  async updateConnection(
+    feedId: string,
+    connectionId: string,
+    {
+      actor,
+      feed: {
+        user: { discordUserId },
+      },
+      oldConnection,
+      updates: {
+        details,
+        filters,
+        name,
+        disabledCode,
+        customPlaceholders,
+        rateLimits,
+        schedule,
+      },
+    }: UpdateSlackChannelConnectionInput
+  ): Promise<SlackChannelConnection> {
+    if (customPlaceholders?.length) {
+      const { allowCustomPlaceholders } =
+        await this.supportersService.getBenefitsOfDiscordUser(discordUserId);
+
+      if (!allowCustomPlaceholders) {
+        throw new InsufficientSupporterLevelException(
+          "User must be a supporter of a sufficient tier to use custom placeholders"
+        );
+      }
+    }
+
+    if (filters) {
+      const results = await this.feedHandlerService.validateFilters({
+        expression: filters.expression,
+      });
+
+      if (results.errors.length) {
+        throw new InvalidFilterExpressionException(
+          results.errors.map(
+            (message) => new InvalidFilterExpressionException(message)
+          )
+        );
+      }
+    }
+
+    const setRecordDetails: Record<string, unknown> = _.omitBy(
+      Object.entries(details || {}).reduce(
+        (acc, [key, value]) => ({
+          ...acc,
+          [`connections.slackChannels.$.details.${key}`]: value,
+        }),
+        {}
+      ),
+      _.isUndefined
+    );
+
+    const updated = await this.userFeedModel.findOneAndUpdate(
+      {
+        _id: feedId,
+        "connections.slackChannels.id": connectionId,
+      },
+      {
+        $set: {
+          ...setRecordDetails,
+          ...(filters && {
+            "connections.slackChannels.$.filters": filters,
+          }),
+          ...(name && {
+            "connections.slackChannels.$.name": name,
+          }),
+          ...(disabledCode && {
+            "connections.slackChannels.$.disabledCode": disabledCode,
+          }),
+          ...(customPlaceholders && {
+            "connections.slackChannels.$.customPlaceholders":
+              customPlaceholders,
+          }),
+          ...(rateLimits && {
+            "connections.slackChannels.$.rateLimits": rateLimits,
+          }),
+          ...(schedule && {
+            "connections.slackChannels.$.schedule": schedule,
+          }),
+        },
+        $unset: {
+          ...(filters === null && {
+            "connections.slackChannels.$.filters": "",
+          }),
+          ...(disabledCode === null && {
+            "connections.slackChannels.$.disabledCode": "",
+            "connections.slackChannels.$.disabledDetail": "",
+          }),
+          ...(schedule === null && {
+            "connections.slackChannels.$.schedule": "",
+          }),
+        },
+      },
+      {
+        new: true,
+      }
+    );
+
+    const updatedConnection = updated?.connections.slackChannels.find(
+      (connection) => connection.id.equals(connectionId)
+    );
+
+    if (!updatedConnection) {
+      throw new Error(
+        "Connection was not successfuly updated. Check insertion statement and schemas are correct."
+      );
+    }
+
+    if (actor) {
+      await this.userFeedAuditLogsService.recordDocumentChanges({
+        feedId,
+        connectionId,
+        actor,
+        before: oldConnection,
+        after: updatedConnection,
+        fields: AUDITED_CONNECTION_FIELDS,
+      });
+    }
+
+    return updatedConnection;
+  }
+
+  async deleteConnection(
+    feedId: string,
+    connectionId: string,
+    actor?: UserFeedAuditActor
+  ) {
+    const updated = await this.userFeedModel.findOneAndUpdate(
+      {
+        _id: feedId,
+      },
+      {
+        $pull: {
+          "connections.slackChannels": {
+            id: connectionId,
+          },
+        },
+      }
+    );
+
+    if (!updated) {
+      throw new Error(
+        `Connection ${connectionId} on feed ${feedId} does not exist to be deleted`
+      );
+    }
+
+    await this.connectionEventsService.handleDeletedEvent({
+      feed: updated,
+      deletedConnectionIds: [new Types.ObjectId(connectionId)],
+    });
+
+    const deletedConnection = updated.connections.slackChannels.find((c) =>
+      c.id.equals(connectionId)
+    );
+
+    if (actor && deletedConnection) {
+      await this.userFeedAuditLogsService.recordDocumentChanges({
+        feedId,
+        connectionId,
+        actor,
+        before: deletedConnection,
+        after: null,
+        fields: AUDITED_CONNECTION_FIELDS,
+      });
+    }
+  }
+
+  async sendTestArticle(
+    userFeed: UserFeed,
+    connection: SlackChannelConnection,
+    details?: {
+      article?: {
+        id: string;
+      };
+      previewInput?: CreatePreviewInput;
+    }
+  ): Promise<SendTestArticleResult> {
+    const previewInput = details?.previewInput;
+
+    const payload: SendTestSlackArticleInput["details"] = {
+      type: "slack",
+      feed: {
+        url: userFeed.url,
+        jsonOptions: userFeed.jsonOptions,
+        htmlScrapeOptions: getUserFeedHtmlScrapeOptions(userFeed),
+        requestLookupDetails: getUserFeedRequestLookupDetails(
+          userFeed,
+          this.configService.get<string>(
+            "BACKEND_API_FEED_CREDENTIALS_ENCRYPTION_KEY"
+          )
+        ),
+        formatOptions: {
+          ...userFeed.formatOptions,
+          ...previewInput?.feedFormatOptions,
+        },
+      },
+      article: details?.article ? details.article : undefined,
+      mediumDetails: {
+        webhookUrl: connection.details.webhookUrl,
+        headerText:
+          previewInput?.headerText === undefined
+            ? connection.details.headerText
+            : previewInput.headerText,
+        content: previewInput?.content ?? connection.details.content ?? "",
+        imageUrl:
+          previewInput?.imageUrl === undefined
+            ? connection.details.imageUrl
+            : previewInput.imageUrl,
+        formatter: {
+          ...(previewInput?.connectionFormatOptions ||
+            connection.details.formatter),
+        },
+        customPlaceholders: await this.getAllowedCustomPlaceholders(
+          userFeed,
+          previewInput?.customPlaceholders || connection.customPlaceholders
+        ),
+        placeholderLimits:
+          previewInput?.placeholderLimits ||
+          connection.details.placeholderLimits,
+        enablePlaceholderFallback:
+          previewInput?.enablePlaceholderFallback ??
+          connection.details.enablePlaceholderFallback,
+      },
+    };
+
+    return this.feedHandlerService.sendTestArticle({
+      details: payload,
+    });
+  }
+
+  async createPreview({
+    connection,
+    userFeed,
+    feedFormatOptions,
+    connectionFormatOptions,
+    articleId,
+    headerText,
+    content,
+    imageUrl,
+    customPlaceholders,
+    placeholderLimits,
+    enablePlaceholderFallback,
+    includeCustomPlaceholderPreviews,
+  }: CreatePreviewInput): Promise<CreateChatPreviewOutput> {
+    return this.feedHandlerService.createChatPreview({
+      details: {
+        type: "slack",
+        includeCustomPlaceholderPreviews,
+        feed: {
+          url: userFeed.url,
+          jsonOptions: userFeed.jsonOptions,
+          htmlScrapeOptions: getUserFeedHtmlScrapeOptions(userFeed),
+          requestLookupDetails: getUserFeedRequestLookupDetails(
+            userFeed,
+            this.configService.get<string>(
+              "BACKEND_API_FEED_CREDENTIALS_ENCRYPTION_KEY"
+            )
+          ),
+          formatOptions: {
+            ...feedFormatOptions,
+            ...userFeed.formatOptions,
+          },
+        },
+        article: articleId ? { id: articleId } : undefined,
+        mediumDetails: {
+          webhookUrl: connection.details.webhookUrl,
+          headerText,
+          content: content || "",
+          imageUrl,
+          formatter: {
+            ...connectionFormatOptions,
+          },
+          customPlaceholders: await this.getAllowedCustomPlaceholders(
+            userFeed,
+            customPlaceholders
+          ),
+          placeholderLimits,
+          enablePlaceholderFallback,
+        },
+      },
+    });
+  }
+
+  private async getAllowedCustomPlaceholders(
+    userFeed: UserFeed,
+    customPlaceholders?: CustomPlaceholderDto[] | null
+  ) {
+    if (!customPlaceholders?.length) {
+      return [];
+    }
+
+    const { allowCustomPlaceholders } =
+      await this.supportersService.getBenefitsOfDiscordUser(
+        userFeed.user.discordUserId
+      );
+
+    return allowCustomPlaceholders ? customPlaceholders : [];
+  }
+}
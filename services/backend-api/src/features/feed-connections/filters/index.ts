@@ -6,3 +6,6 @@ export * from "./update-discord-webhook-connection.filter";
 export * from "./delete-discord-webhook-connection.filter";
 export * from "./create-discord-channel-test-article.filter";
 export * from "./create-discord-webhook-test-article.filter";
+export * from "./update-chat-connection.filter";
+export * from "./delete-chat-connection.filter";
+export * from "./create-chat-connection-test-article.filter";
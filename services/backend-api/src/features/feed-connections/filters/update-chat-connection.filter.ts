@@ -0,0 +1,39 @@
+import { Catch, HttpStatus } from "@nestjs/common";
+import { ApiErrorCode } from "../../../common/constants/api-errors";
+import {
+  CannotEnableAutoDisabledConnection,
+  InsufficientSupporterLevelException,
+  InvalidFilterExpressionException,
+} from "../../../common/exceptions";
+import { StandardException } from "../../../common/exceptions/standard-exception.exception";
+import { StandardBaseExceptionFilter } from "../../../common/filters/standard-exception-filter";
+import { FeedConnectionNotFoundException } from "../exceptions";
+
+const ERROR_CODES: Record<string, { status: HttpStatus; code: ApiErrorCode }> =
+  {
+    [FeedConnectionNotFoundException.name]: {
+      status: HttpStatus.NOT_FOUND,
+      code: ApiErrorCode.FEED_CONNECTION_NOT_FOUND,
+    },
+    [InvalidFilterExpressionException.name]: {
+      status: HttpStatus.BAD_REQUEST,
+      code: ApiErrorCode.FEED_INVALID_FILTER_EXPRESSION,
+    },
+    [CannotEnableAutoDisabledConnection.name]: {
+      status: HttpStatus.BAD_REQUEST,
+      code: ApiErrorCode.FEED_CONNECTION_CANNOT_ENABLE_AUTO_DISABLED,
+    },
+    [InsufficientSupporterLevelException.name]: {
+      status: HttpStatus.BAD_REQUEST,
+      code: ApiErrorCode.INSUFFICIENT_SUPPORTER_LEVEL,
+    },
+  };
+
+/**
+ * Shared by the Slack, Matrix and HTTP webhook connections, which have no
+ * platform-specific validation.
+ */
+@Catch(StandardException)
+export class UpdateChatConnectionFilter extends StandardBaseExceptionFilter {
+  exceptions = ERROR_CODES;
+}
@@ -13,6 +13,7 @@ import {
   UserMissingManageGuildException,
 } from "../../feeds/exceptions";
 import {
+  ConnectionRevisionNotFoundException,
   DiscordChannelPermissionsException,
   FeedConnectionNotFoundException,
   MissingDiscordChannelException,
@@ -56,6 +57,10 @@ const ERROR_CODES: Record<string, { status: HttpStatus; code: ApiErrorCode }> =
       status: HttpStatus.FORBIDDEN,
       code: ApiErrorCode.WEBHOOKS_MANAGE_MISSING_PERMISSIONS,
     },
+    [ConnectionRevisionNotFoundException.name]: {
+      status: HttpStatus.NOT_FOUND,
+      code: ApiErrorCode.FEED_CONNECTION_REVISION_NOT_FOUND,
+    },
   };
 
 @Catch(StandardException)
@@ -4,11 +4,13 @@ import { FastifyRequest } from "fastify";
 import { DiscordChannelConnection } from "../../feeds/entities/feed-connections";
 import { UserFeed } from "../../user-feeds/entities";
 import type { GetUserFeedsPipeOutput } from "../../user-feeds/pipes";
+import { UserFeedManagerRole } from "../../user-feed-management-invites/constants";
 import { FeedConnectionNotFoundException } from "../exceptions";
 
 export interface GetFeedDiscordChannelConnectionPipeOutput {
   feed: UserFeed;
   connection: DiscordChannelConnection;
+  sharedManagerRole?: UserFeedManagerRole;
 }
 
 @Injectable({
@@ -26,7 +28,7 @@ export class GetFeedDiscordChannelConnectionPipe implements PipeTransform {
       throw new Error("connectionId is missing in request params");
     }
 
-    return feeds.map(({ feed }) => {
+    return feeds.map(({ feed, sharedManagerRole }) => {
       const connection = feed.connections.discordChannels.find((connection) =>
         connection.id.equals(connectionId)
       );
@@ -37,7 +39,7 @@ export class GetFeedDiscordChannelConnectionPipe implements PipeTransform {
         );
       }
 
-      return { feed, connection };
+      return { feed, connection, sharedManagerRole };
     });
   }
 }
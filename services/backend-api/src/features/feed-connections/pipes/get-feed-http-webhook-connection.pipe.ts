@@ -0,0 +1,45 @@
+import { PipeTransform, Injectable, Inject, Scope } from "@nestjs/common";
+import { REQUEST } from "@nestjs/core";
+import { FastifyRequest } from "fastify";
+import { HttpWebhookConnection } from "../../feeds/entities/feed-connections";
+import { UserFeed } from "../../user-feeds/entities";
+import type { GetUserFeedsPipeOutput } from "../../user-feeds/pipes";
+import { UserFeedManagerRole } from "../../user-feed-management-invites/constants";
+import { FeedConnectionNotFoundException } from "../exceptions";
+
+export interface GetFeedHttpWebhookConnectionPipeOutput {
+  feed: UserFeed;
+  connection: HttpWebhookConnection;
+  sharedManagerRole?: UserFeedManagerRole;
+}
+
+@Injectable({
+  scope: Scope.REQUEST,
+})
+export class GetFeedHttpWebhookConnectionPipe implements PipeTransform {
+  constructor(@Inject(REQUEST) private readonly request: FastifyRequest) {}
+
+  transform(
+    feeds: GetUserFeedsPipeOutput
+  ): Array<GetFeedHttpWebhookConnectionPipeOutput> {
+    const { connectionId } = this.request.params as Record<string, string>;
+
+    if (!connectionId) {
+      throw new Error("connectionId is missing in request params");
+    }
+
+    return feeds.map(({ feed, sharedManagerRole }) => {
+      const connection = feed.connections.httpWebhooks.find((connection) =>
+        connection.id.equals(connectionId)
+      );
+
+      if (!connection) {
+        throw new FeedConnectionNotFoundException(
+          `Connection ${connectionId} not found`
+        );
+      }
+
+      return { feed, connection, sharedManagerRole };
+    });
+  }
+}
@@ -1,2 +1,5 @@
 export * from "./get-feed-discord-channel-connection.pipe";
 export * from "./get-feed-discord-webhook-connection.pipe";
+export * from "./get-feed-slack-channel-connection.pipe";
+export * from "./get-feed-matrix-room-connection.pipe";
+export * from "./get-feed-http-webhook-connection.pipe";
@@ -1,4 +1,7 @@
 export enum FeedConnectionTypeEntityKey {
   DiscordChannels = "discordChannels",
   DiscordWebhooks = "discordWebhooks",
+  SlackChannels = "slackChannels",
+  MatrixRooms = "matrixRooms",
+  HttpWebhooks = "httpWebhooks",
 }
@@ -1,4 +1,7 @@
 export enum FeedConnectionType {
   DiscordChannel = "DISCORD_CHANNEL",
   DiscordWebhook = "DISCORD_WEBHOOK",
+  SlackChannel = "SLACK_CHANNEL",
+  MatrixRoom = "MATRIX_ROOM",
+  HttpWebhook = "HTTP_WEBHOOK",
 }
@@ -5,6 +5,12 @@ import {
   DiscordChannelConnectionSchema,
   DiscordWebhookConnection,
   DiscordWebhookConnectionSchema,
+  HttpWebhookConnection,
+  HttpWebhookConnectionSchema,
+  MatrixRoomConnection,
+  MatrixRoomConnectionSchema,
+  SlackChannelConnection,
+  SlackChannelConnectionSchema,
 } from "./feed-connections";
 
 @Schema({
@@ -24,6 +30,24 @@ export class FeedConnections {
     default: [],
   })
   [FeedConnectionTypeEntityKey.DiscordWebhooks]: DiscordWebhookConnection[];
+
+  @Prop({
+    type: [SlackChannelConnectionSchema],
+    default: [],
+  })
+  [FeedConnectionTypeEntityKey.SlackChannels]: SlackChannelConnection[];
+
+  @Prop({
+    type: [MatrixRoomConnectionSchema],
+    default: [],
+  })
+  [FeedConnectionTypeEntityKey.MatrixRooms]: MatrixRoomConnection[];
+
+  @Prop({
+    type: [HttpWebhookConnectionSchema],
+    default: [],
+  })
+  [FeedConnectionTypeEntityKey.HttpWebhooks]: HttpWebhookConnection[];
 }
 
 export const FeedConnectionSchema =
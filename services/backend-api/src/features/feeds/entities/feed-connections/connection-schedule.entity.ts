@@ -0,0 +1,88 @@
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+
+@Schema({
+  _id: false,
+  timestamps: false,
+  versionKey: false,
+})
+class ConnectionScheduleQuietHours {
+  @Prop({
+    required: true,
+  })
+  start: string;
+
+  @Prop({
+    required: true,
+  })
+  end: string;
+}
+
+const ConnectionScheduleQuietHoursSchema = SchemaFactory.createForClass(
+  ConnectionScheduleQuietHours
+);
+
+@Schema({
+  _id: false,
+  timestamps: false,
+  versionKey: false,
+})
+class ConnectionScheduleDigest {
+  @Prop({
+    required: false,
+    type: String,
+  })
+  template?: string | null;
+
+  @Prop({
+    required: false,
+    type: String,
+  })
+  articleTemplate?: string | null;
+
+  @Prop({
+    required: false,
+  })
+  maxArticles?: number;
+
+  @Prop({
+    required: false,
+  })
+  asEmbed?: boolean;
+}
+
+const ConnectionScheduleDigestSchema = SchemaFactory.createForClass(
+  ConnectionScheduleDigest
+);
+
+@Schema({
+  _id: false,
+  timestamps: false,
+  versionKey: false,
+})
+export class ConnectionSchedule {
+  @Prop({
+    required: false,
+    type: String,
+  })
+  timezone?: string | null;
+
+  @Prop({
+    required: false,
+    type: ConnectionScheduleQuietHoursSchema,
+  })
+  quietHours?: ConnectionScheduleQuietHours | null;
+
+  @Prop({
+    required: false,
+  })
+  weekdaysOnly?: boolean;
+
+  @Prop({
+    required: false,
+    type: ConnectionScheduleDigestSchema,
+  })
+  digest?: ConnectionScheduleDigest | null;
+}
+
+export const ConnectionScheduleSchema =
+  SchemaFactory.createForClass(ConnectionSchedule);
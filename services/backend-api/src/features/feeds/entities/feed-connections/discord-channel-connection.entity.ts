@@ -6,6 +6,10 @@ import {
   FeedConnectionMentionType,
 } from "../../constants";
 import { FeedEmbed, FeedEmbedSchema } from "../feed-embed.entity";
+import {
+  ConnectionSchedule,
+  ConnectionScheduleSchema,
+} from "./connection-schedule.entity";
 import {
   CustomPlaceholder,
   CustomPlaceholderSchema,
@@ -275,6 +279,12 @@ export class DiscordChannelConnection {
   })
   rateLimits?: CustomRateLimit[];
 
+  @Prop({
+    type: ConnectionScheduleSchema,
+    required: false,
+  })
+  schedule?: ConnectionSchedule | null;
+
   @Prop({
     type: MentionsSchema,
     required: false,
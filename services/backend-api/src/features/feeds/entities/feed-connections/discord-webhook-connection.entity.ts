@@ -5,6 +5,10 @@ import {
   FeedConnectionMentionType,
 } from "../../constants";
 import { FeedEmbed, FeedEmbedSchema } from "../feed-embed.entity";
+import {
+  ConnectionSchedule,
+  ConnectionScheduleSchema,
+} from "./connection-schedule.entity";
 import {
   CustomPlaceholder,
   CustomPlaceholderSchema,
@@ -221,6 +225,12 @@ export class DiscordWebhookConnection {
   })
   rateLimits?: CustomRateLimit[];
 
+  @Prop({
+    type: ConnectionScheduleSchema,
+    required: false,
+  })
+  schedule?: ConnectionSchedule | null;
+
   @Prop({
     type: MentionsSchema,
     required: false,
@@ -0,0 +1,196 @@
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Types, Schema as MongooseSchema } from "mongoose";
+import { FeedConnectionDisabledCode } from "../../constants";
+import {
+  ConnectionSchedule,
+  ConnectionScheduleSchema,
+} from "./connection-schedule.entity";
+import {
+  CustomPlaceholder,
+  CustomPlaceholderSchema,
+} from "./custom-placeholder.entity";
+import {
+  CustomRateLimit,
+  CustomRateLimitSchema,
+} from "./custom-rate-limit.entity";
+import {
+  DiscordFormatter,
+  DiscordFormatterSchema,
+} from "./discord-formatter.entity";
+import { Filters, FiltersSchema } from "./filters.entity";
+
+@Schema({
+  timestamps: false,
+  _id: false,
+})
+class PlaceholderLimit {
+  @Prop({
+    required: true,
+  })
+  placeholder: string;
+
+  @Prop({
+    required: true,
+  })
+  characterCount: number;
+
+  @Prop({
+    required: false,
+    type: String,
+  })
+  appendString?: string | null;
+}
+
+const PlaceholderLimitSchema = SchemaFactory.createForClass(PlaceholderLimit);
+
+@Schema({
+  _id: false,
+  timestamps: false,
+  versionKey: false,
+})
+class Header {
+  @Prop({
+    required: true,
+  })
+  key: string;
+
+  @Prop({
+    required: true,
+  })
+  value: string;
+}
+
+const HeaderSchema = SchemaFactory.createForClass(Header);
+
+@Schema({
+  _id: false,
+  timestamps: false,
+  versionKey: false,
+})
+class Details {
+  @Prop({
+    required: true,
+  })
+  url: string;
+
+  @Prop({
+    enum: ["POST", "PUT", "PATCH"],
+    required: false,
+    type: String,
+  })
+  method?: "POST" | "PUT" | "PATCH";
+
+  @Prop({
+    type: [HeaderSchema],
+    required: false,
+    default: [],
+  })
+  headers?: Header[];
+
+  @Prop({
+    type: String,
+    required: false,
+  })
+  bodyTemplate?: string | null;
+
+  @Prop({
+    type: String,
+    required: false,
+  })
+  signingSecret?: string | null;
+
+  @Prop({
+    type: Number,
+    required: false,
+    min: 0,
+    max: 2,
+  })
+  retries?: number;
+
+  @Prop({
+    type: DiscordFormatterSchema,
+    required: false,
+  })
+  formatter?: DiscordFormatter;
+
+  @Prop({
+    type: [PlaceholderLimitSchema],
+    required: false,
+    default: [],
+  })
+  placeholderLimits?: PlaceholderLimit[];
+
+  @Prop({
+    required: false,
+    type: Boolean,
+  })
+  enablePlaceholderFallback?: boolean;
+}
+
+const DetailsSchema = SchemaFactory.createForClass(Details);
+
+@Schema({
+  versionKey: false,
+  timestamps: true,
+  _id: false,
+})
+export class HttpWebhookConnection {
+  @Prop({
+    type: MongooseSchema.Types.ObjectId,
+    default: () => new Types.ObjectId(),
+  })
+  id: Types.ObjectId;
+
+  @Prop({
+    required: true,
+  })
+  name: string;
+
+  @Prop({
+    enum: Object.values(FeedConnectionDisabledCode),
+    required: false,
+  })
+  disabledCode?: FeedConnectionDisabledCode;
+
+  @Prop({
+    required: false,
+  })
+  disabledDetail?: string;
+
+  @Prop({
+    type: FiltersSchema,
+    required: false,
+  })
+  filters?: Filters;
+
+  @Prop({
+    type: [CustomRateLimitSchema],
+    required: false,
+  })
+  rateLimits?: CustomRateLimit[];
+
+  @Prop({
+    type: ConnectionScheduleSchema,
+    required: false,
+  })
+  schedule?: ConnectionSchedule | null;
+
+  @Prop({
+    type: DetailsSchema,
+    required: true,
+  })
+  details: Details;
+
+  @Prop({
+    required: false,
+    type: [CustomPlaceholderSchema],
+  })
+  customPlaceholders?: CustomPlaceholder[];
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const HttpWebhookConnectionSchema = SchemaFactory.createForClass(
+  HttpWebhookConnection
+);
@@ -1,2 +1,5 @@
 export * from "./discord-channel-connection.entity";
 export * from "./discord-webhook-connection.entity";
+export * from "./slack-channel-connection.entity";
+export * from "./matrix-room-connection.entity";
+export * from "./http-webhook-connection.entity";
@@ -17,6 +17,7 @@ import {
 } from "../../../services/feed-fetcher/exceptions";
 import { FeedTooLargeException } from "../../../services/feed-fetcher/exceptions/FeedTooLargeException";
 import { FeedLimitReachedException } from "../exceptions";
+import { FeedCredentialsUnavailableException } from "../../user-feeds/exceptions";
 
 const ERROR_CODES: Record<string, { status: HttpStatus; code: ApiErrorCode }> =
   {
@@ -76,6 +77,10 @@ const ERROR_CODES: Record<string, { status: HttpStatus; code: ApiErrorCode }> =
       status: HttpStatus.BAD_REQUEST,
       code: ApiErrorCode.FEED_TOO_LARGE,
     },
+    [FeedCredentialsUnavailableException.name]: {
+      status: HttpStatus.BAD_REQUEST,
+      code: ApiErrorCode.FEED_CREDENTIALS_UNAVAILABLE,
+    },
   };
 
 @Catch(StandardException)
@@ -561,6 +561,9 @@ export class LegacyFeedConversionService {
       connections: {
         discordChannels: [],
         discordWebhooks: [],
+        slackChannels: [],
+        matrixRooms: [],
+        httpWebhooks: [],
       },
       createdAt: feed.createdAt || new Date(),
       updatedAt: feed.updatedAt || new Date(),
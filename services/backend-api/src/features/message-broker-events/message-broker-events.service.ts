@@ -1,10 +1,17 @@
 /* eslint-disable @typescript-eslint/no-non-null-assertion */
 import { AmqpConnection, RabbitSubscribe } from "@golevelup/nestjs-rabbitmq";
 import { Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
 import { InjectModel } from "@nestjs/mongoose";
 import { Aggregate, Cursor } from "mongoose";
-import { DiscordMediumEvent } from "../../common";
+import {
+  DiscordMediumEvent,
+  HttpWebhookMediumEvent,
+  MatrixMediumEvent,
+  SlackMediumEvent,
+} from "../../common";
 import { MessageBrokerQueue } from "../../common/constants/message-broker-queue.constants";
+import { nackAndCountErrorHandler } from "../../common/metrics";
 import {
   castDiscordContentForMedium,
   castDiscordEmbedsForMedium,
@@ -33,10 +40,16 @@ import {
   UserFeedModel,
 } from "../user-feeds/entities";
 import {
+  UserFeedActivityLevel,
   UserFeedConnection,
   UserFeedDisabledCode,
   UserFeedHealthStatus,
 } from "../user-feeds/types";
+import {
+  getAdaptiveRefreshRateSeconds,
+  getUserFeedHtmlScrapeOptions,
+  getUserFeedRequestLookupDetails,
+} from "../user-feeds/utils";
 import { User, UserDocument } from "../users/entities/user.entity";
 
 @Injectable()
@@ -45,13 +58,15 @@ export class MessageBrokerEventsService {
     @InjectModel(UserFeed.name) private readonly userFeedModel: UserFeedModel,
     private readonly amqpConnection: AmqpConnection,
     private readonly supportersService: SupportersService,
-    private readonly notificationsService: NotificationsService
+    private readonly notificationsService: NotificationsService,
+    private readonly configService: ConfigService
   ) {}
 
   @RabbitSubscribe({
     exchange: "",
     queue: MessageBrokerQueue.SyncSupporterDiscordRoles,
     createQueueIfNotExists: true,
+    errorHandler: nackAndCountErrorHandler,
   })
   async handleSyncSupporterDiscordRoles({
     data: { userId },
@@ -66,6 +81,7 @@ export class MessageBrokerEventsService {
     exchange: "",
     queue: MessageBrokerQueue.UrlFetchCompleted,
     createQueueIfNotExists: true,
+    errorHandler: nackAndCountErrorHandler,
   })
   async handleUrlFetchCompletedEvent({
     data: { url, lookupKey, rateSeconds },
@@ -86,6 +102,40 @@ export class MessageBrokerEventsService {
       }).cursor();
     }
 
+    await this.emitDeliverArticlesForFeeds(feedCursor);
+  }
+
+  /**
+   * Pushed content is stored by feed requests regardless of refresh rates, so every feed of the
+   * url is processed immediately instead of waiting for its next scheduled fetch.
+   */
+  @RabbitSubscribe({
+    exchange: "",
+    queue: MessageBrokerQueue.UrlPushReceived,
+    createQueueIfNotExists: true,
+    errorHandler: nackAndCountErrorHandler,
+  })
+  async handleUrlPushReceivedEvent({
+    data: { url },
+  }: {
+    data: { url: string };
+  }) {
+    logger.debug(`Handling url push received event for url ${url}`);
+
+    const feedCursor = this.userFeedModel
+      .aggregate<UserFeedDocument & { users: UserDocument[] }>(
+        getCommonFeedAggregateStages({
+          url,
+        })
+      )
+      .cursor();
+
+    await this.emitDeliverArticlesForFeeds(feedCursor);
+  }
+
+  private async emitDeliverArticlesForFeeds(
+    feedCursor: Cursor<UserFeedDocument & { users: UserDocument[] }>
+  ) {
     for await (const feed of feedCursor) {
       try {
         if (feed.debug) {
@@ -136,6 +186,7 @@ export class MessageBrokerEventsService {
     exchange: "",
     queue: MessageBrokerQueue.UrlRejectedDisableFeeds,
     createQueueIfNotExists: true,
+    errorHandler: nackAndCountErrorHandler,
   })
   async handleUrlRejectedDisableFeedsEvent({
     data: { url, status },
@@ -172,6 +223,7 @@ export class MessageBrokerEventsService {
   @RabbitSubscribe({
     exchange: "",
     queue: MessageBrokerQueue.UrlFailedDisableFeeds,
+    errorHandler: nackAndCountErrorHandler,
   })
   async handleUrlRequestFailureEvent({
     data: { url, lookupKey },
@@ -219,9 +271,155 @@ export class MessageBrokerEventsService {
     }
   }
 
+  @RabbitSubscribe({
+    exchange: "",
+    queue: MessageBrokerQueue.UrlFetchFailed,
+    createQueueIfNotExists: true,
+    errorHandler: nackAndCountErrorHandler,
+  })
+  async handleUrlFetchFailedEvent({
+    data: { url, lookupKey, failedAttemptsCount },
+  }: {
+    data: { url: string; lookupKey?: string; failedAttemptsCount: number };
+  }) {
+    const relevantFeeds = await this.userFeedModel
+      .find({
+        ...(lookupKey ? { feedRequestLookupKey: lookupKey } : { url }),
+        disabledCode: {
+          $exists: false,
+        },
+      })
+      .select("_id title url user alertSettings")
+      .lean();
+
+    try {
+      await this.notificationsService.sendConsecutiveFailedFetchesAlerts(
+        relevantFeeds,
+        {
+          failedAttemptsCount,
+        }
+      );
+    } catch (err) {
+      logger.error(`Failed to send consecutive failed fetches alerts`, {
+        stack: (err as Error).stack,
+      });
+    }
+  }
+
+  @RabbitSubscribe({
+    exchange: "",
+    queue: MessageBrokerQueue.FeedArticleDailyLimitApproaching,
+    createQueueIfNotExists: true,
+    errorHandler: nackAndCountErrorHandler,
+  })
+  async handleFeedArticleDailyLimitApproaching({
+    data: {
+      feed: { id: feedId },
+      articleDayLimit,
+      deliveriesInPastDay,
+    },
+  }: {
+    data: {
+      feed: {
+        id: string;
+      };
+      articleDayLimit: number;
+      deliveriesInPastDay: number;
+    };
+  }) {
+    const foundFeed = await this.userFeedModel
+      .findById(feedId)
+      .select("_id title url user alertSettings")
+      .lean();
+
+    if (!foundFeed) {
+      return;
+    }
+
+    try {
+      await this.notificationsService.sendApproachingArticleDailyLimitAlert(
+        foundFeed,
+        {
+          articleDayLimit,
+          deliveriesInPastDay,
+        }
+      );
+    } catch (err) {
+      logger.error(`Failed to send approaching article daily limit alert`, {
+        stack: (err as Error).stack,
+      });
+    }
+  }
+
+  @RabbitSubscribe({
+    exchange: "",
+    queue: MessageBrokerQueue.FeedActivityLevelChanged,
+    createQueueIfNotExists: true,
+    errorHandler: nackAndCountErrorHandler,
+  })
+  async handleFeedActivityLevelChanged({
+    data: {
+      feed: { id: feedId },
+      activityLevel,
+      unchangedFetchStreak,
+      lastNewArticleAt,
+    },
+  }: {
+    data: {
+      feed: {
+        id: string;
+      };
+      activityLevel: UserFeedActivityLevel;
+      unchangedFetchStreak: number;
+      lastNewArticleAt: string | null;
+    };
+  }) {
+    const foundFeed = await this.userFeedModel
+      .findById(feedId)
+      .select("_id refreshRateSeconds userRefreshRateSeconds")
+      .lean();
+
+    if (!foundFeed) {
+      return;
+    }
+
+    const adaptiveRefreshRateSeconds = getAdaptiveRefreshRateSeconds({
+      activityLevel,
+      refreshRateSeconds: foundFeed.refreshRateSeconds,
+      userRefreshRateSeconds: foundFeed.userRefreshRateSeconds,
+    });
+
+    await this.userFeedModel.updateOne(
+      {
+        _id: foundFeed._id,
+      },
+      {
+        $set: {
+          publishCadence: {
+            activityLevel,
+            unchangedFetchStreak,
+            lastNewArticleAt: lastNewArticleAt
+              ? new Date(lastNewArticleAt)
+              : null,
+            updatedAt: new Date(),
+          },
+          ...(adaptiveRefreshRateSeconds ? { adaptiveRefreshRateSeconds } : {}),
+        },
+        ...(adaptiveRefreshRateSeconds
+          ? {}
+          : {
+              $unset: {
+                adaptiveRefreshRateSeconds: "",
+              },
+            }),
+      }
+    );
+  }
+
   @RabbitSubscribe({
     exchange: "",
     queue: MessageBrokerQueue.FeedRejectedDisableFeed,
+    errorHandler: nackAndCountErrorHandler,
   })
   async handleFeedRejectedDisableFeed({
     data: {
@@ -280,6 +478,7 @@ export class MessageBrokerEventsService {
   @RabbitSubscribe({
     exchange: "",
     queue: MessageBrokerQueue.FeedRejectedArticleDisableConnection,
+    errorHandler: nackAndCountErrorHandler,
   })
   async handleRejectedArticleDisableConnection({
     data: {
@@ -393,6 +592,7 @@ export class MessageBrokerEventsService {
           ? { expression: con.filters.expression }
           : null,
         rateLimits: con.rateLimits,
+        schedule: con.schedule,
         details: {
           guildId: con.details.channel?.guildId || con.details.webhook!.guildId,
           channel: con.details.channel
@@ -446,6 +646,7 @@ export class MessageBrokerEventsService {
           ? { expression: con.filters.expression }
           : null,
         rateLimits: con.rateLimits,
+        schedule: con.schedule,
         details: {
           guildId: con.details.webhook.guildId,
           webhook: {
@@ -476,7 +677,103 @@ export class MessageBrokerEventsService {
         },
       }));
 
-    const allMediums = discordChannelMediums.concat(discordWebhookMediums);
+    const slackChannelMediums = userFeed.connections.slackChannels
+      .filter((c) => !c.disabledCode)
+      .map<SlackMediumEvent>((con) => ({
+        id: con.id.toHexString(),
+        key: "slack",
+        filters: con.filters?.expression
+          ? { expression: con.filters.expression }
+          : null,
+        rateLimits: con.rateLimits,
+        schedule: con.schedule,
+        details: {
+          webhookUrl: con.details.webhookUrl,
+          headerText: con.details.headerText,
+          content: con.details.content || "",
+          imageUrl: con.details.imageUrl,
+          formatter: {
+            formatTables: con.details.formatter?.formatTables,
+            stripImages: con.details.formatter?.stripImages,
+            disableImageLinkPreviews:
+              con.details.formatter?.disableImageLinkPreviews,
+          },
+          customPlaceholders: parseCustomPlaceholders
+            ? con.customPlaceholders
+            : [],
+          placeholderLimits: con.details.placeholderLimits,
+          enablePlaceholderFallback: con.details.enablePlaceholderFallback,
+        },
+      }));
+
+    const matrixRoomMediums = userFeed.connections.matrixRooms
+      .filter((c) => !c.disabledCode)
+      .map<MatrixMediumEvent>((con) => ({
+        id: con.id.toHexString(),
+        key: "matrix",
+        filters: con.filters?.expression
+          ? { expression: con.filters.expression }
+          : null,
+        rateLimits: con.rateLimits,
+        schedule: con.schedule,
+        details: {
+          homeserverUrl: con.details.homeserverUrl,
+          roomId: con.details.roomId,
+          accessToken: con.details.accessToken,
+          msgtype: con.details.msgtype,
+          content: con.details.content || "",
+          formatter: {
+            formatTables: con.details.formatter?.formatTables,
+            stripImages: con.details.formatter?.stripImages,
+            disableImageLinkPreviews:
+              con.details.formatter?.disableImageLinkPreviews,
+          },
+          customPlaceholders: parseCustomPlaceholders
+            ? con.customPlaceholders
+            : [],
+          placeholderLimits: con.details.placeholderLimits,
+          enablePlaceholderFallback: con.details.enablePlaceholderFallback,
+        },
+      }));
+
+    const httpWebhookMediums = userFeed.connections.httpWebhooks
+      .filter((c) => !c.disabledCode)
+      .map<HttpWebhookMediumEvent>((con) => ({
+        id: con.id.toHexString(),
+        key: "http-webhook",
+        filters: con.filters?.expression
+          ? { expression: con.filters.expression }
+          : null,
+        rateLimits: con.rateLimits,
+        schedule: con.schedule,
+        details: {
+          url: con.details.url,
+          method: con.details.method,
+          headers: con.details.headers,
+          bodyTemplate: con.details.bodyTemplate,
+          signingSecret: con.details.signingSecret,
+          retries: con.details.retries,
+          formatter: {
+            formatTables: con.details.formatter?.formatTables,
+            stripImages: con.details.formatter?.stripImages,
+            disableImageLinkPreviews:
+              con.details.formatter?.disableImageLinkPreviews,
+          },
+          customPlaceholders: parseCustomPlaceholders
+            ? con.customPlaceholders
+            : [],
+          placeholderLimits: con.details.placeholderLimits,
+          enablePlaceholderFallback: con.details.enablePlaceholderFallback,
+        },
+      }));
+
+    const allMediums = [
+      ...discordChannelMediums,
+      ...discordWebhookMediums,
+      ...slackChannelMediums,
+      ...matrixRoomMediums,
+      ...httpWebhookMediums,
+    ];
 
     const publishData = {
       articleDayLimit: maxDailyArticles,
@@ -496,13 +793,30 @@ export class MessageBrokerEventsService {
         },
         articleInjections: userFeed.articleInjections,
         dateChecks: userFeed.dateCheckOptions,
+        jsonOptions: userFeed.jsonOptions,
+        htmlScrapeOptions: getUserFeedHtmlScrapeOptions(userFeed),
+        editTracking: userFeed.editTracking,
+        articleIdOptions: userFeed.articleIdOptions,
+        retractRemovedArticles: userFeed.retractRemovedArticles,
+        requestLookupDetails: getUserFeedRequestLookupDetails(
+          userFeed,
+          this.configService.get<string>(
+            "BACKEND_API_FEED_CREDENTIALS_ENCRYPTION_KEY"
+          )
+        ),
       },
       mediums: allMediums,
     };
 
     if (userFeed.debug) {
       logger.info(`DEBUG ${userFeed._id}: Emitting event`, {
-        data: publishData,
+        data: {
+          ...publishData,
+          feed: {
+            ...publishData.feed,
+            requestLookupDetails: undefined,
+          },
+        },
       });
     }
 
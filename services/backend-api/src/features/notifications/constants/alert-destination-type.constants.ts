@@ -0,0 +1,5 @@
+export enum AlertDestinationType {
+  DiscordChannel = "discord-channel",
+  DiscordDirectMessage = "discord-dm",
+  DiscordWebhook = "discord-webhook",
+}
@@ -1,4 +1,7 @@
 export enum NotificationDeliveryAttemptType {
   DisabledFeed = "DISABLED_FEED",
   DisabledConnection = "DISABLED_CONNECTION",
+  ConsecutiveFailedFetches = "CONSECUTIVE_FAILED_FETCHES",
+  NoNewArticles = "NO_NEW_ARTICLES",
+  ApproachingArticleDailyLimit = "APPROACHING_ARTICLE_DAILY_LIMIT",
 }
@@ -0,0 +1,76 @@
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { AlertDestinationType } from "../constants/alert-destination-type.constants";
+import { NotificationDeliveryAttemptType } from "../constants/notification-delivery-attempt-type.constants";
+
+@Schema({
+  timestamps: false,
+  _id: false,
+})
+export class AlertDestination {
+  @Prop({
+    required: true,
+    enum: Object.values(AlertDestinationType),
+    type: String,
+  })
+  type: AlertDestinationType;
+
+  @Prop({
+    required: false,
+  })
+  channelId?: string;
+
+  /**
+   * The user to direct message. Always the user that configured the destination.
+   */
+  @Prop({
+    required: false,
+  })
+  discordUserId?: string;
+
+  @Prop({
+    required: false,
+  })
+  webhookUrl?: string;
+
+  /**
+   * If empty, every alert type is sent to this destination
+   */
+  @Prop({
+    required: false,
+    type: [String],
+    enum: Object.values(NotificationDeliveryAttemptType),
+  })
+  alertTypes?: NotificationDeliveryAttemptType[];
+}
+
+export const AlertDestinationSchema =
+  SchemaFactory.createForClass(AlertDestination);
+
+@Schema({
+  timestamps: false,
+  _id: false,
+})
+export class AlertSettings {
+  @Prop({
+    type: [AlertDestinationSchema],
+    default: [],
+  })
+  destinations: AlertDestination[];
+
+  @Prop({
+    required: false,
+  })
+  consecutiveFailedFetches?: number;
+
+  @Prop({
+    required: false,
+  })
+  noNewArticlesDays?: number;
+
+  @Prop({
+    required: false,
+  })
+  approachingArticleDailyLimit?: boolean;
+}
+
+export const AlertSettingsSchema = SchemaFactory.createForClass(AlertSettings);
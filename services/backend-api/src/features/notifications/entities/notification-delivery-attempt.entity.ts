@@ -1,5 +1,6 @@
 import { ModelDefinition, Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
 import { Document, Types, Model } from "mongoose";
+import { AlertDestinationType } from "../constants/alert-destination-type.constants";
 import { NotificationDeliveryAttemptStatus } from "../constants/notification-delivery-attempt-status.constants";
 import { NotificationDeliveryAttemptType } from "../constants/notification-delivery-attempt-type.constants";
 
@@ -10,10 +11,31 @@ import { NotificationDeliveryAttemptType } from "../constants/notification-deliv
 export class NotificationDeliveryAttempt {
   _id: Types.ObjectId;
 
+  /**
+   * Only set for email alerts
+   */
   @Prop({
-    required: true,
+    required: false,
+  })
+  email?: string;
+
+  /**
+   * Only set for alerts sent to Discord
+   */
+  @Prop({
+    required: false,
+    enum: Object.values(AlertDestinationType),
+    type: String,
   })
-  email: string;
+  destinationType?: AlertDestinationType;
+
+  /**
+   * The channel, user or webhook ID that a Discord alert was sent to
+   */
+  @Prop({
+    required: false,
+  })
+  destinationId?: string;
 
   @Prop({
     required: true,
@@ -53,6 +75,12 @@ export type NotificationDeliveryAttemptModel =
 export const NotificationDeliveryAttemptSchema = SchemaFactory.createForClass(
   NotificationDeliveryAttempt
 );
+NotificationDeliveryAttemptSchema.index({
+  feedId: 1,
+  type: 1,
+  createdAt: -1,
+});
+
 export const NotificationDeliveryAttemptFeature: ModelDefinition = {
   name: NotificationDeliveryAttempt.name,
   schema: NotificationDeliveryAttemptSchema,
@@ -0,0 +1,47 @@
+import {
+  Body,
+  Controller,
+  NotFoundException,
+  Put,
+  ValidationPipe,
+} from "@nestjs/common";
+import { AlertSettingsDto } from "../../common";
+import { DiscordAccessToken } from "../discord-auth/decorators/DiscordAccessToken";
+import { SessionAccessToken } from "../discord-auth/types/SessionAccessToken.type";
+import { UsersService } from "../users/users.service";
+import { NotificationsService } from "./notifications.service";
+
+@Controller("users/@me/alert-settings")
+export class NotificationsController {
+  constructor(
+    private readonly notificationsService: NotificationsService,
+    private readonly usersService: UsersService
+  ) {}
+
+  @Put()
+  async updateAlertSettings(
+    @DiscordAccessToken()
+    accessToken: SessionAccessToken,
+    @Body(ValidationPipe) input: AlertSettingsDto
+  ) {
+    const discordUserId = accessToken.discord.id;
+    const alertSettings =
+      await this.notificationsService.formatAlertSettingsForSave(input, {
+        accessToken,
+      });
+
+    const user = await this.usersService.updateUserByDiscordId(discordUserId, {
+      preferences: {
+        alertSettings,
+      },
+    });
+
+    if (!user) {
+      throw new NotFoundException("User not found");
+    }
+
+    return {
+      result: alertSettings,
+    };
+  }
+}
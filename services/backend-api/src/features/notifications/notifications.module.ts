@@ -7,8 +7,14 @@ import { UsersModule } from "../users/users.module";
 import { MongooseModule } from "@nestjs/mongoose";
 import { UserFeedFeature } from "../user-feeds/entities";
 import { NotificationDeliveryAttemptFeature } from "./entities/notification-delivery-attempt.entity";
+import { UserFeature } from "../users/entities/user.entity";
+import { DiscordApiModule } from "../../services/apis/discord/discord-api.module";
+import { FeedHandlerModule } from "../../services/feed-handler/feed-fetcher.module";
+import { FeedsModule } from "../feeds/feeds.module";
+import { NotificationsController } from "./notifications.controller";
 
 @Module({
+  controllers: [NotificationsController],
   providers: [
     NotificationsService,
     {
@@ -40,8 +46,12 @@ import { NotificationDeliveryAttemptFeature } from "./entities/notification-deli
     UsersModule.forRoot(),
     MongooseModule.forFeature([
       UserFeedFeature,
+      UserFeature,
       NotificationDeliveryAttemptFeature,
     ]),
+    DiscordApiModule,
+    FeedHandlerModule,
+    FeedsModule,
   ],
 })
 export class NotificationsModule {
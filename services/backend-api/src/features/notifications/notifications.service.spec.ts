@@ -0,0 +1,388 @@
+import { ForbiddenException } from "@nestjs/common";
+import { Types } from "mongoose";
+import { UserMissingManageGuildException } from "../feeds/exceptions";
+import { AlertDestinationType } from "./constants/alert-destination-type.constants";
+import { NotificationDeliveryAttemptStatus } from "./constants/notification-delivery-attempt-status.constants";
+import { NotificationDeliveryAttemptType } from "./constants/notification-delivery-attempt-type.constants";
+import { NotificationsService } from "./notifications.service";
+
+jest.mock("../../utils/logger");
+
+describe("NotificationsService", () => {
+  let service: NotificationsService;
+  const userModel = {
+    findOne: jest.fn(),
+  };
+  const notificationDeliveryAttemptModel = {
+    create: jest.fn(),
+    updateOne: jest.fn(),
+    exists: jest.fn(),
+  };
+  const configService = {
+    get: jest.fn(),
+  };
+  const discordApiService = {
+    sendChannelMessage: jest.fn(),
+    createDirectMessageChannel: jest.fn(),
+    executeWebhook: jest.fn(),
+  };
+  const feedsService = {
+    canUseChannel: jest.fn(),
+  };
+  const feed = {
+    _id: new Types.ObjectId(),
+    title: "feed title",
+    url: "https://example.com/feed.xml",
+    user: {
+      discordUserId: "owner-id",
+    },
+  };
+  const attemptId = new Types.ObjectId();
+
+  const mockOwner = (owner: unknown) => {
+    userModel.findOne.mockReturnValue({
+      select: () => ({
+        lean: async () => owner,
+      }),
+    });
+  };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    service = new NotificationsService(
+      null,
+      {} as never,
+      {} as never,
+      notificationDeliveryAttemptModel as never,
+      userModel as never,
+      configService as never,
+      discordApiService as never,
+      feedsService as never,
+      {} as never
+    );
+    notificationDeliveryAttemptModel.create.mockResolvedValue({
+      _id: attemptId,
+    });
+  });
+
+  describe("getAlertSettingsOfFeed", () => {
+    it("returns null if neither the feed nor the owner has settings", async () => {
+      mockOwner({ preferences: {} });
+
+      const result = await service.getAlertSettingsOfFeed(feed as never);
+
+      expect(result).toBeNull();
+    });
+
+    it("prefers the destinations and thresholds of the feed", async () => {
+      mockOwner({
+        preferences: {
+          alertSettings: {
+            destinations: [
+              {
+                type: AlertDestinationType.DiscordDirectMessage,
+                discordUserId: "owner-id",
+              },
+            ],
+            consecutiveFailedFetches: 3,
+            noNewArticlesDays: 7,
+          },
+        },
+      });
+
+      const feedDestinations = [
+        {
+          type: AlertDestinationType.DiscordChannel,
+          channelId: "channel-id",
+        },
+      ];
+
+      const result = await service.getAlertSettingsOfFeed({
+        ...feed,
+        alertSettings: {
+          destinations: feedDestinations,
+          consecutiveFailedFetches: 5,
+        },
+      } as never);
+
+      expect(result).toEqual({
+        destinations: feedDestinations,
+        consecutiveFailedFetches: 5,
+        noNewArticlesDays: 7,
+        approachingArticleDailyLimit: undefined,
+      });
+    });
+
+    it("falls back to the owner destinations if the feed has none", async () => {
+      const ownerDestinations = [
+        {
+          type: AlertDestinationType.DiscordDirectMessage,
+          discordUserId: "owner-id",
+        },
+      ];
+
+      mockOwner({
+        preferences: {
+          alertSettings: {
+            destinations: ownerDestinations,
+          },
+        },
+      });
+
+      const result = await service.getAlertSettingsOfFeed({
+        ...feed,
+        alertSettings: {
+          destinations: [],
+          approachingArticleDailyLimit: true,
+        },
+      } as never);
+
+      expect(result?.destinations).toEqual(ownerDestinations);
+      expect(result?.approachingArticleDailyLimit).toBe(true);
+    });
+  });
+
+  describe("sendConsecutiveFailedFetchesAlerts", () => {
+    it("does not alert if the failure count is not the threshold", async () => {
+      mockOwner({
+        preferences: {
+          alertSettings: {
+            destinations: [
+              {
+                type: AlertDestinationType.DiscordChannel,
+                channelId: "channel-id",
+              },
+            ],
+            consecutiveFailedFetches: 3,
+          },
+        },
+      });
+
+      await service.sendConsecutiveFailedFetchesAlerts([feed as never], {
+        failedAttemptsCount: 2,
+      });
+
+      expect(discordApiService.sendChannelMessage).not.toHaveBeenCalled();
+      expect(notificationDeliveryAttemptModel.create).not.toHaveBeenCalled();
+    });
+
+    it("sends to every destination that accepts the alert type", async () => {
+      mockOwner({
+        preferences: {
+          alertSettings: {
+            destinations: [
+              {
+                type: AlertDestinationType.DiscordChannel,
+                channelId: "channel-id",
+              },
+              {
+                type: AlertDestinationType.DiscordDirectMessage,
+                discordUserId: "owner-id",
+                alertTypes: [NotificationDeliveryAttemptType.DisabledFeed],
+              },
+              {
+                type: AlertDestinationType.DiscordWebhook,
+                webhookUrl: "https://discord.com/api/webhooks/123/token",
+              },
+            ],
+            consecutiveFailedFetches: 3,
+          },
+        },
+      });
+
+      await service.sendConsecutiveFailedFetchesAlerts([feed as never], {
+        failedAttemptsCount: 3,
+      });
+
+      expect(discordApiService.sendChannelMessage).toHaveBeenCalledWith(
+        "channel-id",
+        expect.objectContaining({
+          embeds: [expect.any(Object)],
+        })
+      );
+      expect(
+        discordApiService.createDirectMessageChannel
+      ).not.toHaveBeenCalled();
+      expect(discordApiService.executeWebhook).toHaveBeenCalledWith(
+        "https://discord.com/api/webhooks/123/token",
+        expect.any(Object)
+      );
+      expect(notificationDeliveryAttemptModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: NotificationDeliveryAttemptType.ConsecutiveFailedFetches,
+          destinationType: AlertDestinationType.DiscordWebhook,
+          destinationId: "123",
+        })
+      );
+      expect(notificationDeliveryAttemptModel.updateOne).toHaveBeenCalledWith(
+        { _id: attemptId },
+        {
+          $set: {
+            status: NotificationDeliveryAttemptStatus.Success,
+          },
+        }
+      );
+    });
+
+    it("records failed deliveries", async () => {
+      mockOwner({
+        preferences: {
+          alertSettings: {
+            destinations: [
+              {
+                type: AlertDestinationType.DiscordChannel,
+                channelId: "channel-id",
+              },
+            ],
+            consecutiveFailedFetches: 3,
+          },
+        },
+      });
+      discordApiService.sendChannelMessage.mockRejectedValue(
+        new Error("Missing access")
+      );
+
+      await service.sendConsecutiveFailedFetchesAlerts([feed as never], {
+        failedAttemptsCount: 3,
+      });
+
+      expect(notificationDeliveryAttemptModel.updateOne).toHaveBeenCalledWith(
+        { _id: attemptId },
+        {
+          $set: {
+            status: NotificationDeliveryAttemptStatus.Failure,
+            failReasonInternal: "Missing access",
+          },
+        }
+      );
+    });
+  });
+
+  describe("sendApproachingArticleDailyLimitAlert", () => {
+    beforeEach(() => {
+      mockOwner({
+        preferences: {
+          alertSettings: {
+            destinations: [
+              {
+                type: AlertDestinationType.DiscordDirectMessage,
+                discordUserId: "owner-id",
+              },
+            ],
+            approachingArticleDailyLimit: true,
+          },
+        },
+      });
+      discordApiService.createDirectMessageChannel.mockResolvedValue({
+        id: "dm-channel-id",
+      });
+    });
+
+    it("sends a direct message if not alerted in the past day", async () => {
+      notificationDeliveryAttemptModel.exists.mockResolvedValue(null);
+
+      await service.sendApproachingArticleDailyLimitAlert(feed as never, {
+        articleDayLimit: 100,
+        deliveriesInPastDay: 85,
+      });
+
+      expect(discordApiService.createDirectMessageChannel).toHaveBeenCalledWith(
+        "owner-id"
+      );
+      expect(discordApiService.sendChannelMessage).toHaveBeenCalledWith(
+        "dm-channel-id",
+        expect.any(Object)
+      );
+    });
+
+    it("does not alert again within a day", async () => {
+      notificationDeliveryAttemptModel.exists.mockResolvedValue({
+        _id: attemptId,
+      });
+
+      await service.sendApproachingArticleDailyLimitAlert(feed as never, {
+        articleDayLimit: 100,
+        deliveriesInPastDay: 85,
+      });
+
+      expect(discordApiService.sendChannelMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("formatAlertSettingsForSave", () => {
+    const accessToken = {
+      access_token: "access-token",
+      discord: {
+        id: "user-id",
+      },
+    } as never;
+    it("sends direct messages to the user who saved the settings", async () => {
+      const result = await service.formatAlertSettingsForSave(
+        {
+          destinations: [
+            {
+              type: AlertDestinationType.DiscordDirectMessage,
+            },
+          ],
+        },
+        {
+          accessToken,
+        }
+      );
+
+      expect(result.destinations).toEqual([
+        {
+          type: AlertDestinationType.DiscordDirectMessage,
+          discordUserId: "user-id",
+        },
+      ]);
+    });
+
+    it("rejects channels that cannot be used", async () => {
+      feedsService.canUseChannel.mockRejectedValue(
+        new UserMissingManageGuildException()
+      );
+
+      await expect(
+        service.formatAlertSettingsForSave(
+          {
+            destinations: [
+              {
+                type: AlertDestinationType.DiscordChannel,
+                channelId: "channel-id",
+              },
+            ],
+          },
+          {
+            accessToken,
+          }
+        )
+      ).rejects.toThrow(/cannot be used for alerts/);
+    });
+
+    it("rejects channels for personal access tokens", async () => {
+      await expect(
+        service.formatAlertSettingsForSave(
+          {
+            destinations: [
+              {
+                type: AlertDestinationType.DiscordChannel,
+                channelId: "channel-id",
+              },
+            ],
+          },
+          {
+            accessToken: {
+              access_token: "",
+              discord: {
+                id: "user-id",
+              },
+              isPersonalAccessToken: true,
+            } as never,
+          }
+        )
+      ).rejects.toThrow(ForbiddenException);
+      expect(feedsService.canUseChannel).not.toHaveBeenCalled();
+    });
+  });
+});
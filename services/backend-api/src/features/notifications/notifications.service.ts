@@ -1,4 +1,4 @@
-import { Inject, Injectable } from "@nestjs/common";
+import { BadRequestException, Inject, Injectable } from "@nestjs/common";
 import { SmtpTransport } from "./constants/smtp-transport.constants";
 import nodemailer from "nodemailer";
 import SMTPTransport from "nodemailer/lib/smtp-transport";
@@ -8,14 +8,10 @@ import { UserFeed, UserFeedModel } from "../user-feeds/entities";
 import { Types } from "mongoose";
 import { UsersService } from "../users/users.service";
 import logger from "../../utils/logger";
-import {
-  DiscordChannelConnection,
-  DiscordWebhookConnection,
-} from "../feeds/entities/feed-connections";
 import fs from "fs";
 import { join } from "path";
 import Handlebars from "handlebars";
-import { UserFeedDisabledCode } from "../user-feeds/types";
+import { UserFeedConnection, UserFeedDisabledCode } from "../user-feeds/types";
 import { FeedConnectionDisabledCode } from "../feeds/constants";
 import {
   NotificationDeliveryAttempt,
@@ -24,6 +20,21 @@ import {
 import { NotificationDeliveryAttemptStatus } from "./constants/notification-delivery-attempt-status.constants";
 import { NotificationDeliveryAttemptType } from "./constants/notification-delivery-attempt-type.constants";
 import { ConfigService } from "@nestjs/config";
+import dayjs from "dayjs";
+import { DiscordAPIService } from "../../services/apis/discord/discord-api.service";
+import { FeedHandlerService } from "../../services/feed-handler/feed-handler.service";
+import { FeedsService } from "../feeds/feeds.service";
+import { SessionAccessToken } from "../discord-auth/types/SessionAccessToken.type";
+import { getDiscordOAuthAccessToken } from "../discord-auth/utils/get-access-token-from-session";
+import { User, UserModel } from "../users/entities/user.entity";
+import { AlertSettingsDto } from "../../common";
+import { StandardException } from "../../common/exceptions";
+import { DiscordAPIError } from "../../common/errors/DiscordAPIError";
+import {
+  AlertDestination,
+  AlertSettings,
+} from "./entities/alert-settings.entity";
+import { AlertDestinationType } from "./constants/alert-destination-type.constants";
 
 const disabledFeedHandlebarsText = fs.readFileSync(
   join(__dirname, "handlebars-templates", "disabled-feed.hbs"),
@@ -60,6 +71,23 @@ const USER_FEED_DISABLED_REASONS: Partial<
   },
 };
 
+/**
+ * Discord's red
+ */
+const DISCORD_ALERT_EMBED_COLOR = 15548997;
+
+interface DiscordAlert {
+  type: NotificationDeliveryAttemptType;
+  title: string;
+  description: string;
+  connectionId?: string;
+}
+
+type AlertableFeed = Pick<
+  UserFeed,
+  "_id" | "title" | "url" | "user" | "alertSettings"
+>;
+
 const USER_FEED_CONNECTION_DISABLED_REASONS: Partial<
   Record<FeedConnectionDisabledCode, { reason: string; action: string }>
 > = {
@@ -95,7 +123,11 @@ export class NotificationsService {
     @InjectModel(UserFeed.name) private readonly userFeedModel: UserFeedModel,
     @InjectModel(NotificationDeliveryAttempt.name)
     private readonly notificationDeliveryAttemptModel: NotificationDeliveryAttemptModel,
-    private readonly configService: ConfigService
+    @InjectModel(User.name) private readonly userModel: UserModel,
+    private readonly configService: ConfigService,
+    private readonly discordApiService: DiscordAPIService,
+    private readonly feedsService: FeedsService,
+    private readonly feedHandlerService: FeedHandlerService
   ) {
     const smtpFrom = this.configService.get<string>("BACKEND_API_SMTP_FROM");
 
@@ -114,12 +146,25 @@ export class NotificationsService {
           $in: feedIds,
         },
       })
-      .select("_id title user shareManageOptions url")
+      .select("_id title user shareManageOptions url alertSettings")
       .lean();
 
     await Promise.all(
       feeds.map(async (feed) => {
         try {
+          const disabledReason = USER_FEED_DISABLED_REASONS[data.disabledCode];
+
+          await this.sendDiscordAlerts(feed, {
+            type: NotificationDeliveryAttemptType.DisabledFeed,
+            title: `Feed has been disabled: ${feed.title}`,
+            description: [
+              disabledReason?.reason || data.disabledCode,
+              disabledReason?.action,
+            ]
+              .filter(Boolean)
+              .join("\n\n"),
+          });
+
           const discordUserIdsToAlert = [
             ...(feed.shareManageOptions?.invites
               .filter((i) => i.status === UserFeedManagerStatus.Accepted)
@@ -260,7 +305,7 @@ export class NotificationsService {
 
   async sendDisabledFeedConnectionAlert(
     feed: UserFeed,
-    connection: DiscordChannelConnection | DiscordWebhookConnection,
+    connection: UserFeedConnection,
     {
       disabledCode,
       articleId,
@@ -271,6 +316,20 @@ export class NotificationsService {
       rejectedMessage?: string;
     }
   ) {
+    const disabledReason = USER_FEED_CONNECTION_DISABLED_REASONS[disabledCode];
+
+    await this.sendDiscordAlerts(feed, {
+      type: NotificationDeliveryAttemptType.DisabledConnection,
+      title: `Feed connection has been disabled: ${connection.name} (feed: ${feed.title})`,
+      description: [
+        disabledReason?.reason || disabledCode,
+        disabledReason?.action,
+      ]
+        .filter(Boolean)
+        .join("\n\n"),
+      connectionId: connection.id.toHexString(),
+    });
+
     const discordUserIdsToAlert = [
       ...(feed.shareManageOptions?.invites
         .filter((i) => i.status === UserFeedManagerStatus.Accepted)
@@ -421,4 +480,433 @@ export class NotificationsService {
       throw err;
     }
   }
+
+  async sendConsecutiveFailedFetchesAlerts(
+    feeds: AlertableFeed[],
+    { failedAttemptsCount }: { failedAttemptsCount: number }
+  ) {
+    await Promise.all(
+      feeds.map(async (feed) => {
+        const settings = await this.getAlertSettingsOfFeed(feed);
+
+        if (settings?.consecutiveFailedFetches !== failedAttemptsCount) {
+          return;
+        }
+
+        await this.sendDiscordAlerts(
+          feed,
+          {
+            type: NotificationDeliveryAttemptType.ConsecutiveFailedFetches,
+            title: `Feed is failing to be fetched: ${feed.title}`,
+            description:
+              `The feed has failed to be fetched ${failedAttemptsCount} times in a row.` +
+              ` It will be disabled if requests continue to fail.`,
+          },
+          settings
+        );
+      })
+    );
+  }
+
+  async sendApproachingArticleDailyLimitAlert(
+    feed: AlertableFeed,
+    {
+      articleDayLimit,
+      deliveriesInPastDay,
+    }: { articleDayLimit: number; deliveriesInPastDay: number }
+  ) {
+    const settings = await this.getAlertSettingsOfFeed(feed);
+
+    if (!settings?.approachingArticleDailyLimit) {
+      return;
+    }
+
+    const alreadySent = await this.hasAlertBeenSentSince(
+      feed._id,
+      NotificationDeliveryAttemptType.ApproachingArticleDailyLimit,
+      dayjs().subtract(1, "day").toDate()
+    );
+
+    if (alreadySent) {
+      return;
+    }
+
+    await this.sendDiscordAlerts(
+      feed,
+      {
+        type: NotificationDeliveryAttemptType.ApproachingArticleDailyLimit,
+        title: `Feed is approaching its daily article limit: ${feed.title}`,
+        description:
+          `${deliveriesInPastDay} of the ${articleDayLimit} articles allowed in a 24-hour period` +
+          ` have been delivered. Articles beyond the limit will not be delivered.`,
+      },
+      settings
+    );
+  }
+
+  /**
+   * Checks every feed with a "no new articles" alert threshold, and alerts on the ones whose most
+   * recent new article is older than the threshold. Only one alert is sent per threshold period.
+   */
+  async sendNoNewArticlesAlerts() {
+    const discordUserIdsWithThreshold: string[] = await this.userModel
+      .find({
+        "preferences.alertSettings.noNewArticlesDays": {
+          $gt: 0,
+        },
+      })
+      .distinct("discordUserId");
+
+    const feedCursor = this.userFeedModel
+      .find({
+        disabledCode: {
+          $exists: false,
+        },
+        $or: [
+          {
+            "alertSettings.noNewArticlesDays": {
+              $gt: 0,
+            },
+          },
+          {
+            "user.discordUserId": {
+              $in: discordUserIdsWithThreshold,
+            },
+          },
+        ],
+      })
+      .select("_id title url user alertSettings")
+      .lean()
+      .cursor();
+
+    for await (const feed of feedCursor) {
+      try {
+        const settings = await this.getAlertSettingsOfFeed(feed);
+        const days = settings?.noNewArticlesDays;
+
+        if (!settings || !days || !settings.destinations.length) {
+          continue;
+        }
+
+        const thresholdDate = dayjs().subtract(days, "day").toDate();
+
+        const alreadySent = await this.hasAlertBeenSentSince(
+          feed._id,
+          NotificationDeliveryAttemptType.NoNewArticles,
+          thresholdDate
+        );
+
+        if (alreadySent) {
+          continue;
+        }
+
+        const latestArticleDate =
+          await this.feedHandlerService.getLatestArticleDate(
+            feed._id.toHexString()
+          );
+
+        if (!latestArticleDate || latestArticleDate > thresholdDate) {
+          continue;
+        }
+
+        await this.sendDiscordAlerts(
+          feed,
+          {
+            type: NotificationDeliveryAttemptType.NoNewArticles,
+            title: `Feed has had no new articles: ${feed.title}`,
+            description:
+              `No new articles have been found in this feed for at least ${days} days.` +
+              ` The feed may have stopped publishing, or its URL may have changed.`,
+          },
+          settings
+        );
+      } catch (err) {
+        logger.error(
+          `Failed to check for no new articles alert of feed ${feed._id}`,
+          {
+            stack: (err as Error).stack,
+          }
+        );
+      }
+    }
+  }
+
+  /**
+   * Validates alert settings input from a user, and converts it into the form that is stored.
+   * Direct messages are always sent to the user who configured them.
+   */
+  async formatAlertSettingsForSave(
+    input: AlertSettingsDto,
+    { accessToken }: { accessToken: SessionAccessToken }
+  ): Promise<AlertSettings> {
+    const discordUserId = accessToken.discord.id;
+
+    const destinations = await Promise.all(
+      input.destinations.map(
+        async ({
+          type,
+          channelId,
+          webhookUrl,
+          alertTypes,
+        }): Promise<AlertDestination> => {
+          if (type === AlertDestinationType.DiscordChannel) {
+            await this.assertAlertChannelCanBeUsed(
+              channelId as string,
+              getDiscordOAuthAccessToken(accessToken)
+            );
+
+            return { type, channelId, alertTypes };
+          }
+
+          if (type === AlertDestinationType.DiscordDirectMessage) {
+            return { type, discordUserId, alertTypes };
+          }
+
+          return { type, webhookUrl, alertTypes };
+        }
+      )
+    );
+
+    return {
+      destinations,
+      consecutiveFailedFetches: input.consecutiveFailedFetches,
+      noNewArticlesDays: input.noNewArticlesDays,
+      approachingArticleDailyLimit: input.approachingArticleDailyLimit,
+    };
+  }
+
+  /**
+   * Feed alert settings take precedence over the owner's, field by field. Destinations are
+   * only inherited from the owner if the feed has none of its own.
+   */
+  async getAlertSettingsOfFeed(
+    feed: Pick<UserFeed, "user" | "alertSettings">
+  ): Promise<AlertSettings | null> {
+    const owner = await this.userModel
+      .findOne({
+        discordUserId: feed.user.discordUserId,
+      })
+      .select("preferences.alertSettings")
+      .lean();
+
+    const userSettings = owner?.preferences?.alertSettings;
+    const feedSettings = feed.alertSettings;
+
+    if (!userSettings && !feedSettings) {
+      return null;
+    }
+
+    return {
+      destinations: feedSettings?.destinations?.length
+        ? feedSettings.destinations
+        : userSettings?.destinations || [],
+      consecutiveFailedFetches:
+        feedSettings?.consecutiveFailedFetches ??
+        userSettings?.consecutiveFailedFetches,
+      noNewArticlesDays:
+        feedSettings?.noNewArticlesDays ?? userSettings?.noNewArticlesDays,
+      approachingArticleDailyLimit:
+        feedSettings?.approachingArticleDailyLimit ??
+        userSettings?.approachingArticleDailyLimit,
+    };
+  }
+
+  private async sendDiscordAlerts(
+    feed: AlertableFeed,
+    alert: DiscordAlert,
+    alertSettings?: AlertSettings | null
+  ) {
+    try {
+      const settings =
+        alertSettings === undefined
+          ? await this.getAlertSettingsOfFeed(feed)
+          : alertSettings;
+
+      const destinations = (settings?.destinations || []).filter(
+        (d) => !d.alertTypes?.length || d.alertTypes.includes(alert.type)
+      );
+
+      await Promise.all(
+        destinations.map((destination) =>
+          this.sendDiscordAlert(feed, destination, alert)
+        )
+      );
+    } catch (err) {
+      logger.error(
+        `Failed to send ${alert.type} Discord alerts for feed ${feed._id}`,
+        {
+          stack: (err as Error).stack,
+        }
+      );
+    }
+  }
+
+  private async sendDiscordAlert(
+    feed: AlertableFeed,
+    destination: AlertDestination,
+    alert: DiscordAlert
+  ) {
+    let attemptId: Types.ObjectId | undefined;
+
+    try {
+      const created = await this.notificationDeliveryAttemptModel.create({
+        status: NotificationDeliveryAttemptStatus.Pending,
+        type: alert.type,
+        feedId: feed._id,
+        connectionId: alert.connectionId,
+        destinationType: destination.type,
+        destinationId: this.getAlertDestinationId(destination),
+      });
+
+      attemptId = created._id;
+    } catch (err) {
+      logger.error(
+        `Failed to create notification delivery attempt in notifications service for feed ${feed._id} for ${alert.type}`,
+        {
+          stack: (err as Error).stack,
+        }
+      );
+    }
+
+    const controlPanelUrl = `https://my.monitorss.xyz/feeds/${feed._id}`;
+
+    const payload = {
+      embeds: [
+        {
+          title: alert.title.slice(0, 256),
+          description: alert.description,
+          url: controlPanelUrl,
+          color: DISCORD_ALERT_EMBED_COLOR,
+          fields: [
+            {
+              name: "Feed URL",
+              value: feed.url.slice(0, 1024),
+            },
+          ],
+        },
+      ],
+    };
+
+    try {
+      if (destination.type === AlertDestinationType.DiscordChannel) {
+        await this.discordApiService.sendChannelMessage(
+          destination.channelId as string,
+          payload
+        );
+      } else if (
+        destination.type === AlertDestinationType.DiscordDirectMessage
+      ) {
+        const dmChannel =
+          await this.discordApiService.createDirectMessageChannel(
+            destination.discordUserId as string
+          );
+
+        await this.discordApiService.sendChannelMessage(dmChannel.id, payload);
+      } else {
+        await this.discordApiService.executeWebhook(
+          destination.webhookUrl as string,
+          payload
+        );
+      }
+
+      await this.updateAttemptStatus(attemptId, {
+        status: NotificationDeliveryAttemptStatus.Success,
+      });
+    } catch (err) {
+      logger.error(
+        `Failed to send ${alert.type} alert to ${destination.type} for feed ${feed._id}`,
+        {
+          stack: (err as Error).stack,
+        }
+      );
+
+      await this.updateAttemptStatus(attemptId, {
+        status: NotificationDeliveryAttemptStatus.Failure,
+        failReasonInternal: (err as Error).message,
+      });
+    }
+  }
+
+  private async updateAttemptStatus(
+    attemptId: Types.ObjectId | undefined,
+    update: {
+      status: NotificationDeliveryAttemptStatus;
+      failReasonInternal?: string;
+    }
+  ) {
+    if (!attemptId) {
+      return;
+    }
+
+    try {
+      await this.notificationDeliveryAttemptModel.updateOne(
+        {
+          _id: attemptId,
+        },
+        {
+          $set: update,
+        }
+      );
+    } catch (err) {
+      logger.error(
+        `Failed to update notification delivery attempt ${attemptId} in notifications service`,
+        {
+          stack: (err as Error).stack,
+        }
+      );
+    }
+  }
+
+  private async hasAlertBeenSentSince(
+    feedId: Types.ObjectId,
+    type: NotificationDeliveryAttemptType,
+    since: Date
+  ) {
+    const found = await this.notificationDeliveryAttemptModel.exists({
+      feedId: feedId.toHexString(),
+      type,
+      createdAt: {
+        $gte: since,
+      },
+    });
+
+    return !!found;
+  }
+
+  private getAlertDestinationId(destination: AlertDestination) {
+    if (destination.type === AlertDestinationType.DiscordChannel) {
+      return destination.channelId;
+    }
+
+    if (destination.type === AlertDestinationType.DiscordDirectMessage) {
+      return destination.discordUserId;
+    }
+
+    // Webhook URLs are in the form of .../webhooks/{id}/{token}
+    return destination.webhookUrl?.split("/").slice(-2)[0];
+  }
+
+  private async assertAlertChannelCanBeUsed(
+    channelId: string,
+    accessToken: string
+  ) {
+    try {
+      await this.feedsService.canUseChannel({
+        channelId,
+        userAccessToken: accessToken,
+      });
+    } catch (err) {
+      if (
+        err instanceof StandardException ||
+        (err instanceof DiscordAPIError && err.statusCode < 500)
+      ) {
+        throw new BadRequestException(
+          `Discord channel ${channelId} cannot be used for alerts. Make sure that you manage` +
+            ` its server, and that the bot can view and send messages in it.`
+        );
+      }
+
+      throw err;
+    }
+  }
 }
@@ -0,0 +1 @@
+export * from "./personal-access-token-scope.constants";
@@ -0,0 +1,7 @@
+export enum PersonalAccessTokenScope {
+  /**
+   * Only allows requests that do not change any data
+   */
+  Read = "read",
+  Write = "write",
+}
@@ -0,0 +1,31 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from "class-validator";
+import { PersonalAccessTokenScope } from "../constants";
+
+export class CreatePersonalAccessTokenInputDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(Object.values(PersonalAccessTokenScope), { each: true })
+  scopes: PersonalAccessTokenScope[];
+
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  @IsOptional()
+  expiresInDays?: number;
+}
@@ -0,0 +1,2 @@
+export * from "./create-personal-access-token-input.dto";
+export * from "./get-personal-access-token-audit-entries-input.dto";
@@ -0,0 +1,2 @@
+export * from "./personal-access-token.entity";
+export * from "./personal-access-token-audit-entry.entity";
@@ -0,0 +1,57 @@
+import { ModelDefinition, Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Document, Model, Schema as MongooseSchema, Types } from "mongoose";
+
+/**
+ * A change that was made through the API with a personal access token
+ */
+@Schema({
+  timestamps: true,
+})
+export class PersonalAccessTokenAuditEntry {
+  _id: Types.ObjectId;
+
+  @Prop({
+    type: MongooseSchema.Types.ObjectId,
+    required: true,
+    index: true,
+  })
+  tokenId: Types.ObjectId;
+
+  @Prop({
+    required: true,
+  })
+  discordUserId: string;
+
+  @Prop({
+    required: true,
+  })
+  method: string;
+
+  /**
+   * The route pattern, such as /user-feeds/:feedId
+   */
+  @Prop({
+    required: true,
+  })
+  route: string;
+
+  @Prop({
+    required: true,
+  })
+  url: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type PersonalAccessTokenAuditEntryDocument =
+  PersonalAccessTokenAuditEntry & Document;
+export type PersonalAccessTokenAuditEntryModel =
+  Model<PersonalAccessTokenAuditEntryDocument>;
+export const PersonalAccessTokenAuditEntrySchema = SchemaFactory.createForClass(
+  PersonalAccessTokenAuditEntry
+);
+export const PersonalAccessTokenAuditEntryFeature: ModelDefinition = {
+  name: PersonalAccessTokenAuditEntry.name,
+  schema: PersonalAccessTokenAuditEntrySchema,
+};
@@ -0,0 +1,72 @@
+import { ModelDefinition, Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Document, Model, Types } from "mongoose";
+import { PersonalAccessTokenScope } from "../constants";
+
+@Schema({
+  timestamps: true,
+})
+export class PersonalAccessToken {
+  _id: Types.ObjectId;
+
+  @Prop({
+    required: true,
+    index: true,
+  })
+  discordUserId: string;
+
+  @Prop({
+    required: true,
+  })
+  name: string;
+
+  /**
+   * SHA-256 hash of the token. The token itself is only shown once upon creation.
+   */
+  @Prop({
+    required: true,
+    unique: true,
+  })
+  tokenHash: string;
+
+  /**
+   * The first few characters of the token so that users may identify it
+   */
+  @Prop({
+    required: true,
+  })
+  tokenPrefix: string;
+
+  @Prop({
+    type: [String],
+    enum: Object.values(PersonalAccessTokenScope),
+    required: true,
+  })
+  scopes: PersonalAccessTokenScope[];
+
+  @Prop({
+    required: false,
+  })
+  lastUsedAt?: Date;
+
+  @Prop({
+    required: false,
+  })
+  expiresAt?: Date;
+
+  @Prop({
+    required: false,
+  })
+  revokedAt?: Date;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type PersonalAccessTokenDocument = PersonalAccessToken & Document;
+export type PersonalAccessTokenModel = Model<PersonalAccessTokenDocument>;
+export const PersonalAccessTokenSchema =
+  SchemaFactory.createForClass(PersonalAccessToken);
+export const PersonalAccessTokenFeature: ModelDefinition = {
+  name: PersonalAccessToken.name,
+  schema: PersonalAccessTokenSchema,
+};
@@ -0,0 +1,18 @@
+import { Catch, HttpStatus } from "@nestjs/common";
+import { ApiErrorCode } from "../../../common/constants/api-errors";
+import { StandardException } from "../../../common/exceptions";
+import { StandardBaseExceptionFilter } from "../../../common/filters/standard-exception-filter";
+import { PersonalAccessTokenNotFoundException } from "../exceptions";
+
+const ERROR_CODES: Record<string, { status: HttpStatus; code: ApiErrorCode }> =
+  {
+    [PersonalAccessTokenNotFoundException.name]: {
+      status: HttpStatus.NOT_FOUND,
+      code: ApiErrorCode.PERSONAL_ACCESS_TOKEN_NOT_FOUND,
+    },
+  };
+
+@Catch(StandardException)
+export class PersonalAccessTokenExceptionFilter extends StandardBaseExceptionFilter {
+  exceptions = ERROR_CODES;
+}
@@ -0,0 +1,27 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from "@nestjs/common";
+import { FastifyRequest } from "fastify";
+import { getBearerTokenFromRequest } from "../utils";
+
+/**
+ * Rejects requests authenticated with a personal access token so that tokens
+ * cannot be used to manage other tokens.
+ */
+@Injectable()
+export class SessionOnlyGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest() as FastifyRequest;
+
+    if (getBearerTokenFromRequest(request)) {
+      throw new ForbiddenException(
+        "Personal access tokens cannot be used for this route"
+      );
+    }
+
+    return true;
+  }
+}
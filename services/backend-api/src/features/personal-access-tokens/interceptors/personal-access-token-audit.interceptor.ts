@@ -0,0 +1,50 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from "@nestjs/common";
+import { FastifyRequest } from "fastify";
+import { Observable, tap } from "rxjs";
+import logger from "../../../utils/logger";
+import { PersonalAccessTokensService } from "../personal-access-tokens.service";
+import { getPersonalAccessTokenFromRequest } from "../utils";
+
+const READ_ONLY_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+/**
+ * Records every successful change that was made with a personal access token.
+ */
+@Injectable()
+export class PersonalAccessTokenAuditInterceptor implements NestInterceptor {
+  constructor(
+    private readonly personalAccessTokensService: PersonalAccessTokensService
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const request = context.switchToHttp().getRequest() as FastifyRequest;
+
+    return next.handle().pipe(
+      tap(() => {
+        const token = getPersonalAccessTokenFromRequest(request);
+
+        if (!token || READ_ONLY_METHODS.includes(request.method)) {
+          return;
+        }
+
+        this.personalAccessTokensService
+          .recordAuditEntry({
+            token,
+            method: request.method,
+            route: request.routerPath,
+            url: request.url,
+          })
+          .catch((err) => {
+            logger.error(`Failed to record personal access token audit entry`, {
+              stack: (err as Error).stack,
+            });
+          });
+      })
+    );
+  }
+}
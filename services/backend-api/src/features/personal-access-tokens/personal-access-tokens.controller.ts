@@ -0,0 +1,116 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  UseFilters,
+  UseGuards,
+  ValidationPipe,
+} from "@nestjs/common";
+import { NestedQuery } from "../../common/decorators/NestedQuery";
+import { TransformValidationPipe } from "../../common/pipes/TransformValidationPipe";
+import { DiscordAccessToken } from "../discord-auth/decorators/DiscordAccessToken";
+import { DiscordOAuth2Guard } from "../discord-auth/guards/DiscordOAuth2.guard";
+import { SessionAccessToken } from "../discord-auth/types/SessionAccessToken.type";
+import {
+  CreatePersonalAccessTokenInputDto,
+  GetPersonalAccessTokenAuditEntriesInputDto,
+} from "./dto";
+import { PersonalAccessToken } from "./entities";
+import { PersonalAccessTokenExceptionFilter } from "./filters";
+import { SessionOnlyGuard } from "./guards";
+import { PersonalAccessTokensService } from "./personal-access-tokens.service";
+
+@Controller("personal-access-tokens")
+@UseGuards(SessionOnlyGuard, DiscordOAuth2Guard)
+export class PersonalAccessTokensController {
+  constructor(private readonly service: PersonalAccessTokensService) {}
+
+  @Get()
+  async getTokens(
+    @DiscordAccessToken()
+    { discord: { id: discordUserId } }: SessionAccessToken
+  ) {
+    const tokens = await this.service.getTokensOfUser(discordUserId);
+
+    return {
+      results: tokens.map((token) => this.formatToken(token)),
+    };
+  }
+
+  @Post()
+  async createToken(
+    @DiscordAccessToken()
+    { discord: { id: discordUserId } }: SessionAccessToken,
+    @Body(ValidationPipe)
+    { name, scopes, expiresInDays }: CreatePersonalAccessTokenInputDto
+  ) {
+    const { token, value } = await this.service.createToken({
+      discordUserId,
+      name,
+      scopes,
+      expiresInDays,
+    });
+
+    return {
+      result: {
+        ...this.formatToken(token),
+        token: value,
+      },
+    };
+  }
+
+  @Delete("/:id")
+  @UseFilters(PersonalAccessTokenExceptionFilter)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async revokeToken(
+    @DiscordAccessToken()
+    { discord: { id: discordUserId } }: SessionAccessToken,
+    @Param("id") tokenId: string
+  ) {
+    await this.service.revokeToken({ discordUserId, tokenId });
+  }
+
+  @Get("/:id/audit-entries")
+  @UseFilters(PersonalAccessTokenExceptionFilter)
+  async getAuditEntries(
+    @DiscordAccessToken()
+    { discord: { id: discordUserId } }: SessionAccessToken,
+    @Param("id") tokenId: string,
+    @NestedQuery(TransformValidationPipe)
+    { limit, skip }: GetPersonalAccessTokenAuditEntriesInputDto
+  ) {
+    const entries = await this.service.getAuditEntries({
+      discordUserId,
+      tokenId,
+      limit,
+      skip,
+    });
+
+    return {
+      results: entries.map((entry) => ({
+        id: entry._id.toHexString(),
+        method: entry.method,
+        route: entry.route,
+        url: entry.url,
+        createdAt: entry.createdAt.toISOString(),
+      })),
+    };
+  }
+
+  private formatToken(token: PersonalAccessToken) {
+    return {
+      id: token._id.toHexString(),
+      name: token.name,
+      tokenPrefix: token.tokenPrefix,
+      scopes: token.scopes,
+      lastUsedAt: token.lastUsedAt?.toISOString() || null,
+      expiresAt: token.expiresAt?.toISOString() || null,
+      createdAt: token.createdAt.toISOString(),
+    };
+  }
+}
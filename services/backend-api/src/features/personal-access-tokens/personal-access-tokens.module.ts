@@ -0,0 +1,42 @@
+/* eslint-disable max-len */
+import { DynamicModule, Module } from "@nestjs/common";
+import { APP_INTERCEPTOR } from "@nestjs/core";
+import { MongooseModule } from "@nestjs/mongoose";
+import { DiscordAuthModule } from "../discord-auth/discord-auth.module";
+import {
+  PersonalAccessTokenAuditEntryFeature,
+  PersonalAccessTokenFeature,
+} from "./entities";
+import { PersonalAccessTokenAuditInterceptor } from "./interceptors";
+import { PersonalAccessTokensController } from "./personal-access-tokens.controller";
+import { PersonalAccessTokensService } from "./personal-access-tokens.service";
+
+@Module({
+  providers: [PersonalAccessTokensService],
+  imports: [
+    MongooseModule.forFeature([
+      PersonalAccessTokenFeature,
+      PersonalAccessTokenAuditEntryFeature,
+    ]),
+  ],
+  exports: [PersonalAccessTokensService],
+})
+export class PersonalAccessTokensModule {
+  /**
+   * The module without the controller is imported by DiscordAuthModule so that
+   * the auth guard can authenticate tokens.
+   */
+  static forRoot(): DynamicModule {
+    return {
+      module: PersonalAccessTokensModule,
+      controllers: [PersonalAccessTokensController],
+      imports: [DiscordAuthModule],
+      providers: [
+        {
+          provide: APP_INTERCEPTOR,
+          useClass: PersonalAccessTokenAuditInterceptor,
+        },
+      ],
+    };
+  }
+}
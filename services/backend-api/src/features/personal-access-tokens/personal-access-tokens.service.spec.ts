@@ -0,0 +1,146 @@
+import { getModelToken, MongooseModule } from "@nestjs/mongoose";
+import {
+  setupIntegrationTests,
+  teardownIntegrationTests,
+} from "../../utils/integration-tests";
+import { MongooseTestModule } from "../../utils/mongoose-test.module";
+import { PersonalAccessTokenScope } from "./constants";
+import {
+  PersonalAccessToken,
+  PersonalAccessTokenAuditEntryFeature,
+  PersonalAccessTokenFeature,
+  PersonalAccessTokenModel,
+} from "./entities";
+import { PersonalAccessTokenNotFoundException } from "./exceptions";
+import { PersonalAccessTokensService } from "./personal-access-tokens.service";
+
+const discordUserId = "discordUserId";
+
+describe("PersonalAccessTokensService", () => {
+  let service: PersonalAccessTokensService;
+  let personalAccessTokenModel: PersonalAccessTokenModel;
+
+  beforeAll(async () => {
+    const { init } = await setupIntegrationTests({
+      providers: [PersonalAccessTokensService],
+      imports: [
+        MongooseTestModule.forRoot(),
+        MongooseModule.forFeature([
+          PersonalAccessTokenFeature,
+          PersonalAccessTokenAuditEntryFeature,
+        ]),
+      ],
+    });
+
+    const { module } = await init();
+    service = module.get(PersonalAccessTokensService);
+    personalAccessTokenModel = module.get<PersonalAccessTokenModel>(
+      getModelToken(PersonalAccessToken.name)
+    );
+  });
+
+  afterEach(async () => {
+    await personalAccessTokenModel?.deleteMany({});
+  });
+
+  afterAll(async () => {
+    await teardownIntegrationTests();
+  });
+
+  describe("createToken", () => {
+    it("does not store the token value", async () => {
+      const { token, value } = await service.createToken({
+        discordUserId,
+        name: "name",
+        scopes: [PersonalAccessTokenScope.Read],
+      });
+
+      const stored = await personalAccessTokenModel.findById(token._id).lean();
+
+      expect(stored?.tokenHash).not.toEqual(value);
+      expect(JSON.stringify(stored)).not.toContain(value);
+    });
+  });
+
+  describe("authenticate", () => {
+    it("returns the token and sets the last used date", async () => {
+      const { token, value } = await service.createToken({
+        discordUserId,
+        name: "name",
+        scopes: [PersonalAccessTokenScope.Read],
+      });
+
+      const result = await service.authenticate(value);
+
+      expect(result).toEqual({
+        id: token._id.toHexString(),
+        discordUserId,
+        scopes: [PersonalAccessTokenScope.Read],
+      });
+
+      const stored = await personalAccessTokenModel.findById(token._id).lean();
+
+      expect(stored?.lastUsedAt).toBeInstanceOf(Date);
+    });
+
+    it("returns null for revoked tokens", async () => {
+      const { token, value } = await service.createToken({
+        discordUserId,
+        name: "name",
+        scopes: [PersonalAccessTokenScope.Read],
+      });
+
+      await service.revokeToken({
+        discordUserId,
+        tokenId: token._id.toHexString(),
+      });
+
+      await expect(service.authenticate(value)).resolves.toBeNull();
+    });
+
+    it("returns null for expired tokens", async () => {
+      const { token, value } = await service.createToken({
+        discordUserId,
+        name: "name",
+        scopes: [PersonalAccessTokenScope.Read],
+      });
+
+      await personalAccessTokenModel.updateOne(
+        { _id: token._id },
+        { $set: { expiresAt: new Date(Date.now() - 1000) } }
+      );
+
+      await expect(service.authenticate(value)).resolves.toBeNull();
+    });
+  });
+
+  describe("revokeToken", () => {
+    it("throws if the token does not belong to the user", async () => {
+      const { token } = await service.createToken({
+        discordUserId,
+        name: "name",
+        scopes: [PersonalAccessTokenScope.Read],
+      });
+
+      await expect(
+        service.revokeToken({
+          discordUserId: "other-user",
+          tokenId: token._id.toHexString(),
+        })
+      ).rejects.toThrow(PersonalAccessTokenNotFoundException);
+    });
+  });
+
+  describe("consumeRateLimit", () => {
+    it("rejects requests past the limit within the window", () => {
+      const now = Date.now();
+
+      for (let i = 0; i < 60; ++i) {
+        expect(service.consumeRateLimit("token", now)).toBe(true);
+      }
+
+      expect(service.consumeRateLimit("token", now)).toBe(false);
+      expect(service.consumeRateLimit("token", now + 1000 * 60)).toBe(true);
+    });
+  });
+});
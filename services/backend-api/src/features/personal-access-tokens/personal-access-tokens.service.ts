@@ -0,0 +1,271 @@
+import { Injectable } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { createHash, randomBytes } from "crypto";
+import { Types } from "mongoose";
+import { PersonalAccessTokenScope } from "./constants";
+import {
+  PersonalAccessToken,
+  PersonalAccessTokenAuditEntry,
+  PersonalAccessTokenAuditEntryModel,
+  PersonalAccessTokenModel,
+} from "./entities";
+import { PersonalAccessTokenNotFoundException } from "./exceptions";
+import { AuthenticatedPersonalAccessToken } from "./types";
+
+const TOKEN_PREFIX = "mrss_";
+
+/**
+ * How often the last used timestamp is written back, to avoid a write on every request
+ */
+const LAST_USED_AT_UPDATE_INTERVAL_MS = 1000 * 60;
+
+const RATE_LIMIT_WINDOW_MS = 1000 * 60;
+
+const RATE_LIMIT_MAX_REQUESTS = 60;
+
+interface CreateTokenInput {
+  discordUserId: string;
+  name: string;
+  scopes: PersonalAccessTokenScope[];
+  expiresInDays?: number;
+}
+
+interface RecordAuditEntryInput {
+  token: AuthenticatedPersonalAccessToken;
+  method: string;
+  route: string;
+  url: string;
+}
+
+@Injectable()
+export class PersonalAccessTokensService {
+  private rateLimitWindows = new Map<
+    string,
+    { windowStart: number; count: number }
+  >();
+
+  constructor(
+    @InjectModel(PersonalAccessToken.name)
+    private readonly personalAccessTokenModel: PersonalAccessTokenModel,
+    @InjectModel(PersonalAccessTokenAuditEntry.name)
+    private readonly auditEntryModel: PersonalAccessTokenAuditEntryModel
+  ) {}
+
+  /**
+   * The returned token value is not stored and cannot be retrieved again.
+   */
+  async createToken({
+    discordUserId,
+    name,
+    scopes,
+    expiresInDays,
+  }: CreateTokenInput) {
+    const value = `${TOKEN_PREFIX}${randomBytes(32).toString("hex")}`;
+
+    const token = await this.personalAccessTokenModel.create({
+      discordUserId,
+      name,
+      scopes: Array.from(new Set(scopes)),
+      tokenHash: this.hashToken(value),
+      tokenPrefix: value.slice(0, TOKEN_PREFIX.length + 6),
+      expiresAt: expiresInDays
+        ? new Date(Date.now() + expiresInDays * 1000 * 60 * 60 * 24)
+        : undefined,
+    });
+
+    return {
+      token: token.toObject() as PersonalAccessToken,
+      value,
+    };
+  }
+
+  async getTokensOfUser(discordUserId: string) {
+    return this.personalAccessTokenModel
+      .find({
+        discordUserId,
+        revokedAt: {
+          $exists: false,
+        },
+      })
+      .sort({ createdAt: -1 })
+      .lean();
+  }
+
+  async revokeToken({
+    discordUserId,
+    tokenId,
+  }: {
+    discordUserId: string;
+    tokenId: string;
+  }) {
+    const token = await this.getActiveTokenOfUser({ discordUserId, tokenId });
+
+    await this.personalAccessTokenModel.updateOne(
+      {
+        _id: token._id,
+      },
+      {
+        $set: {
+          revokedAt: new Date(),
+        },
+      }
+    );
+
+    this.rateLimitWindows.delete(token._id.toHexString());
+  }
+
+  async getAuditEntries({
+    discordUserId,
+    tokenId,
+    limit,
+    skip,
+  }: {
+    discordUserId: string;
+    tokenId: string;
+    limit: number;
+    skip: number;
+  }) {
+    const token = await this.personalAccessTokenModel
+      .findOne({
+        _id: this.parseObjectId(tokenId),
+        discordUserId,
+      })
+      .select("_id")
+      .lean();
+
+    if (!token) {
+      throw new PersonalAccessTokenNotFoundException();
+    }
+
+    return this.auditEntryModel
+      .find({
+        tokenId: token._id,
+      })
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit)
+      .lean();
+  }
+
+  /**
+   * Returns the token that matches the given value if it is usable.
+   */
+  async authenticate(
+    value: string
+  ): Promise<AuthenticatedPersonalAccessToken | null> {
+    if (!value.startsWith(TOKEN_PREFIX)) {
+      return null;
+    }
+
+    const token = await this.personalAccessTokenModel
+      .findOne({
+        tokenHash: this.hashToken(value),
+      })
+      .lean();
+
+    if (!token || token.revokedAt) {
+      return null;
+    }
+
+    const now = new Date();
+
+    if (token.expiresAt && token.expiresAt <= now) {
+      return null;
+    }
+
+    if (
+      !token.lastUsedAt ||
+      now.getTime() - token.lastUsedAt.getTime() >
+        LAST_USED_AT_UPDATE_INTERVAL_MS
+    ) {
+      await this.personalAccessTokenModel.updateOne(
+        {
+          _id: token._id,
+        },
+        {
+          $set: {
+            lastUsedAt: now,
+          },
+        }
+      );
+    }
+
+    return {
+      id: token._id.toHexString(),
+      discordUserId: token.discordUserId,
+      scopes: token.scopes,
+    };
+  }
+
+  /**
+   * Counts a request against the token's fixed rate limit window.
+   *
+   * Windows are kept in memory, so the limit applies per instance of the API. A token may send up
+   * to RATE_LIMIT_MAX_REQUESTS per window to every instance behind a load balancer.
+   *
+   * @returns Whether the request is within the rate limit
+   */
+  consumeRateLimit(tokenId: string, now = Date.now()) {
+    const window = this.rateLimitWindows.get(tokenId);
+
+    if (!window || now - window.windowStart >= RATE_LIMIT_WINDOW_MS) {
+      this.rateLimitWindows.set(tokenId, { windowStart: now, count: 1 });
+
+      return true;
+    }
+
+    if (window.count >= RATE_LIMIT_MAX_REQUESTS) {
+      return false;
+    }
+
+    window.count++;
+
+    return true;
+  }
+
+  async recordAuditEntry({ token, method, route, url }: RecordAuditEntryInput) {
+    await this.auditEntryModel.create({
+      tokenId: new Types.ObjectId(token.id),
+      discordUserId: token.discordUserId,
+      method,
+      route,
+      url,
+    });
+  }
+
+  private async getActiveTokenOfUser({
+    discordUserId,
+    tokenId,
+  }: {
+    discordUserId: string;
+    tokenId: string;
+  }) {
+    const token = await this.personalAccessTokenModel
+      .findOne({
+        _id: this.parseObjectId(tokenId),
+        discordUserId,
+        revokedAt: {
+          $exists: false,
+        },
+      })
+      .lean();
+
+    if (!token) {
+      throw new PersonalAccessTokenNotFoundException();
+    }
+
+    return token;
+  }
+
+  private parseObjectId(id: string) {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new PersonalAccessTokenNotFoundException();
+    }
+
+    return new Types.ObjectId(id);
+  }
+
+  private hashToken(value: string) {
+    return createHash("sha256").update(value).digest("hex");
+  }
+}
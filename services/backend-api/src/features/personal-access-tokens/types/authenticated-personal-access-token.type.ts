@@ -0,0 +1,7 @@
+import { PersonalAccessTokenScope } from "../constants";
+
+export interface AuthenticatedPersonalAccessToken {
+  id: string;
+  discordUserId: string;
+  scopes: PersonalAccessTokenScope[];
+}
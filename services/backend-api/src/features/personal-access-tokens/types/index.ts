@@ -0,0 +1 @@
+export * from "./authenticated-personal-access-token.type";
@@ -0,0 +1 @@
+export * from "./personal-access-token-request";
@@ -0,0 +1,40 @@
+import { FastifyRequest } from "fastify";
+import { AuthenticatedPersonalAccessToken } from "../types";
+
+const REQUEST_KEY = "personalAccessToken";
+
+/**
+ * Returns the raw token from an "Authorization: Bearer <token>" header, if any.
+ */
+export const getBearerTokenFromRequest = (
+  request: FastifyRequest
+): string | undefined => {
+  const header = request.headers?.authorization;
+
+  if (!header) {
+    return undefined;
+  }
+
+  const [type, value] = header.split(" ");
+
+  if (type?.toLowerCase() !== "bearer" || !value) {
+    return undefined;
+  }
+
+  return value.trim();
+};
+
+export const setPersonalAccessTokenOnRequest = (
+  request: FastifyRequest,
+  token: AuthenticatedPersonalAccessToken
+) => {
+  (request as unknown as Record<string, unknown>)[REQUEST_KEY] = token;
+};
+
+export const getPersonalAccessTokenFromRequest = (
+  request: FastifyRequest
+): AuthenticatedPersonalAccessToken | undefined => {
+  return (request as unknown as Record<string, unknown>)[REQUEST_KEY] as
+    | AuthenticatedPersonalAccessToken
+    | undefined;
+};
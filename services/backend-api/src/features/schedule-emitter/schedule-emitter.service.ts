@@ -24,10 +24,14 @@ export class ScheduleEmitterService {
     const allUserRefreshRateSeconds: number[] = await this.userFeedModel
       .distinct("userRefreshRateSeconds")
       .exec();
+    const allAdaptiveRefreshRateSeconds: number[] = await this.userFeedModel
+      .distinct("adaptiveRefreshRateSeconds")
+      .exec();
 
     const setOfRefreshRatesMs = new Set([
       ...allRefreshRatesSeconds
         .concat(allUserRefreshRateSeconds)
+        .concat(allAdaptiveRefreshRateSeconds)
         .filter((s) => !!s)
         .map((seconds) => seconds * 1000),
     ]);
@@ -3,10 +3,11 @@ import { SupportersModule } from "../supporters/supporters.module";
 import { ScheduleHandlerService } from "./schedule-handler.service";
 import { MessageBrokerModule } from "../message-broker/message-broker.module";
 import { UserFeedsModule } from "../user-feeds/user-feeds.module";
+import { WorkspacesModule } from "../workspaces/workspaces.module";
 
 @Module({
   providers: [ScheduleHandlerService],
-  imports: [SupportersModule],
+  imports: [SupportersModule, WorkspacesModule],
 })
 export class ScheduleHandlerModule {
   static forRoot(): DynamicModule {
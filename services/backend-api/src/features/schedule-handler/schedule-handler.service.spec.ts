@@ -23,6 +23,9 @@ jest.mock("../../utils/logger");
 
 const sampleConnections: UserFeed["connections"] = {
   discordWebhooks: [],
+  slackChannels: [],
+  matrixRooms: [],
+  httpWebhooks: [],
   discordChannels: [
     {
       id: new Types.ObjectId(),
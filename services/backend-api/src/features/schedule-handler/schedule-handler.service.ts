@@ -10,6 +10,8 @@ import { AmqpConnection } from "@golevelup/nestjs-rabbitmq";
 import { MessageBrokerQueue } from "../../common/constants/message-broker-queue.constants";
 import { UserFeedsService } from "../user-feeds/user-feeds.service";
 import { getCommonFeedAggregateStages } from "../../common/utils";
+import { WorkspacesService } from "../workspaces/workspaces.service";
+import { getUserFeedRequestLookupDetails } from "../user-feeds/utils";
 
 @Injectable()
 export class ScheduleHandlerService {
@@ -20,7 +22,8 @@ export class ScheduleHandlerService {
     private readonly supportersService: SupportersService,
     @InjectModel(UserFeed.name) private readonly userFeedModel: UserFeedModel,
     private readonly amqpConnection: AmqpConnection,
-    private readonly userFeedsService: UserFeedsService
+    private readonly userFeedsService: UserFeedsService,
+    private readonly workspacesService: WorkspacesService
   ) {
     this.defaultRefreshRateSeconds =
       (this.configService.get<number>(
@@ -61,6 +64,7 @@ export class ScheduleHandlerService {
 
     await this.syncRefreshRates(allBenefits);
     await this.syncMaxDailyArticles(allBenefits);
+    await this.workspacesService.syncFeedBenefits(allBenefits);
 
     const feedsToDebug = await this.userFeedModel
       .find({
@@ -109,6 +113,7 @@ export class ScheduleHandlerService {
       _id,
       url,
       feedRequestLookupKey,
+      credentialProfile,
     } of unbatchedUrlsCursor) {
       if (!url || !feedRequestLookupKey) {
         throw new Error(
@@ -116,10 +121,39 @@ export class ScheduleHandlerService {
         );
       }
 
+      let lookupDetails: ReturnType<typeof getUserFeedRequestLookupDetails>;
+
+      try {
+        lookupDetails = getUserFeedRequestLookupDetails(
+          {
+            feedRequestLookupKey,
+            credentialProfile,
+          },
+          this.configService.get<string>(
+            "BACKEND_API_FEED_CREDENTIALS_ENCRYPTION_KEY"
+          )
+        );
+      } catch (err) {
+        // Skip only this feed so that the rest of the batch is still requested
+        logger.error(
+          `Failed to get request lookup details of feed ${_id}, skipping`,
+          {
+            stack: (err as Error).stack,
+          }
+        );
+
+        continue;
+      }
+
       urlBatch.push({
         url,
         saveToObjectStorage: urlsToDebug.has(url),
         lookupKey: feedRequestLookupKey,
+        requestOptions: lookupDetails?.headers
+          ? {
+              headers: lookupDetails.headers,
+            }
+          : undefined,
       });
 
       if (urlBatch.length === 25) {
@@ -155,6 +189,7 @@ export class ScheduleHandlerService {
       $project: {
         url: 1,
         feedRequestLookupKey: 1,
+        credentialProfile: 1,
       },
     });
 
@@ -178,6 +213,8 @@ export class ScheduleHandlerService {
         refreshRateSeconds,
       }))
     );
+
+    await this.workspacesService.enforceFeedLimits(benefits);
   }
 
   async syncRefreshRates(
@@ -210,6 +247,9 @@ export class ScheduleHandlerService {
       refreshRates.map(async ([refreshRateSeconds, discordUserIds]) => {
         await this.userFeedModel.updateMany(
           {
+            workspaceId: {
+              $exists: false,
+            },
             "user.discordUserId": {
               $in: discordUserIds,
             },
@@ -221,6 +261,9 @@ export class ScheduleHandlerService {
             $set: {
               refreshRateSeconds,
             },
+            $unset: {
+              adaptiveRefreshRateSeconds: "",
+            },
           }
         );
 
@@ -230,6 +273,9 @@ export class ScheduleHandlerService {
 
     await this.userFeedModel.updateMany(
       {
+        workspaceId: {
+          $exists: false,
+        },
         "user.discordUserId": {
           $nin: specialDiscordUserIds,
         },
@@ -241,6 +287,9 @@ export class ScheduleHandlerService {
         $set: {
           refreshRateSeconds: this.defaultRefreshRateSeconds,
         },
+        $unset: {
+          adaptiveRefreshRateSeconds: "",
+        },
       }
     );
   }
@@ -275,6 +324,9 @@ export class ScheduleHandlerService {
       maxDailyArticles.map(async ([maxDailyArticles, discordUserIds]) => {
         await this.userFeedModel.updateMany(
           {
+            workspaceId: {
+              $exists: false,
+            },
             "user.discordUserId": {
               $in: discordUserIds,
             },
@@ -295,6 +347,9 @@ export class ScheduleHandlerService {
 
     await this.userFeedModel.updateMany(
       {
+        workspaceId: {
+          $exists: false,
+        },
         "user.discordUserId": {
           $nin: specialDiscordUserIds,
         },
@@ -0,0 +1,30 @@
+import {
+  createParamDecorator,
+  ExecutionContext,
+  UnauthorizedException,
+} from "@nestjs/common";
+import { FastifyRequest } from "fastify";
+import { getAccessTokenFromRequest } from "../../discord-auth/utils/get-access-token-from-session";
+import { getPersonalAccessTokenFromRequest } from "../../personal-access-tokens/utils";
+import { UserFeedAuditActor } from "../types";
+
+export const auditActorFactory = (
+  data: unknown,
+  ctx: ExecutionContext
+): UserFeedAuditActor => {
+  const request = ctx.switchToHttp().getRequest() as FastifyRequest;
+
+  const accessToken = getAccessTokenFromRequest(request);
+
+  if (!accessToken) {
+    throw new UnauthorizedException();
+  }
+
+  return {
+    discordUserId: accessToken.discord.id,
+    route: `${request.method} ${request.routerPath}`,
+    personalAccessTokenId: getPersonalAccessTokenFromRequest(request)?.id,
+  };
+};
+
+export const AuditActor = createParamDecorator(auditActorFactory);
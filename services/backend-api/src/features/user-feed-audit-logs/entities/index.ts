@@ -0,0 +1 @@
+export * from "./user-feed-audit-log-entry.entity";
@@ -0,0 +1,97 @@
+import { ModelDefinition, Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Document, Model, Schema as MongooseSchema, Types } from "mongoose";
+
+@Schema({
+  _id: false,
+  versionKey: false,
+  timestamps: false,
+})
+export class UserFeedAuditLogChange {
+  /**
+   * Dot-notated path of the changed field, such as details.embeds
+   */
+  @Prop({
+    required: true,
+  })
+  path: string;
+
+  @Prop({
+    type: MongooseSchema.Types.Mixed,
+  })
+  before?: unknown;
+
+  @Prop({
+    type: MongooseSchema.Types.Mixed,
+  })
+  after?: unknown;
+}
+
+export const UserFeedAuditLogChangeSchema = SchemaFactory.createForClass(
+  UserFeedAuditLogChange
+);
+
+/**
+ * Entries are only ever inserted, never updated
+ */
+@Schema({
+  timestamps: {
+    createdAt: true,
+    updatedAt: false,
+  },
+})
+export class UserFeedAuditLogEntry {
+  _id: Types.ObjectId;
+
+  @Prop({
+    type: MongooseSchema.Types.ObjectId,
+    required: true,
+  })
+  feedId: Types.ObjectId;
+
+  @Prop({
+    type: MongooseSchema.Types.ObjectId,
+    required: false,
+  })
+  connectionId?: Types.ObjectId;
+
+  @Prop({
+    required: true,
+  })
+  actorDiscordUserId: string;
+
+  /**
+   * Set if the change was made through the API with a personal access token
+   */
+  @Prop({
+    type: MongooseSchema.Types.ObjectId,
+    required: false,
+  })
+  personalAccessTokenId?: Types.ObjectId;
+
+  /**
+   * The HTTP method and route pattern, such as PATCH /user-feeds/:feedId
+   */
+  @Prop({
+    required: true,
+  })
+  route: string;
+
+  @Prop({
+    type: [UserFeedAuditLogChangeSchema],
+    required: true,
+  })
+  changes: UserFeedAuditLogChange[];
+
+  createdAt: Date;
+}
+
+export type UserFeedAuditLogEntryDocument = UserFeedAuditLogEntry & Document;
+export type UserFeedAuditLogEntryModel = Model<UserFeedAuditLogEntryDocument>;
+export const UserFeedAuditLogEntrySchema = SchemaFactory.createForClass(
+  UserFeedAuditLogEntry
+);
+UserFeedAuditLogEntrySchema.index({ feedId: 1, createdAt: -1 });
+export const UserFeedAuditLogEntryFeature: ModelDefinition = {
+  name: UserFeedAuditLogEntry.name,
+  schema: UserFeedAuditLogEntrySchema,
+};
@@ -0,0 +1,5 @@
+export interface UserFeedAuditActor {
+  discordUserId: string;
+  route: string;
+  personalAccessTokenId?: string;
+}
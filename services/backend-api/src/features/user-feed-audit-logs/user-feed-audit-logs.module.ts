@@ -0,0 +1,11 @@
+import { Module } from "@nestjs/common";
+import { MongooseModule } from "@nestjs/mongoose";
+import { UserFeedAuditLogEntryFeature } from "./entities";
+import { UserFeedAuditLogsService } from "./user-feed-audit-logs.service";
+
+@Module({
+  providers: [UserFeedAuditLogsService],
+  imports: [MongooseModule.forFeature([UserFeedAuditLogEntryFeature])],
+  exports: [UserFeedAuditLogsService],
+})
+export class UserFeedAuditLogsModule {}
@@ -0,0 +1,114 @@
+import { Types } from "mongoose";
+import { UserFeedAuditLogsService } from "./user-feed-audit-logs.service";
+
+jest.mock("../../utils/logger");
+
+describe("UserFeedAuditLogsService", () => {
+  let service: UserFeedAuditLogsService;
+  const auditLogEntryModel = {
+    create: jest.fn(),
+  };
+  const feedId = new Types.ObjectId().toHexString();
+  const connectionId = new Types.ObjectId().toHexString();
+  const actor = {
+    discordUserId: "discord-user-id",
+    route: "PATCH /user-feeds/:feedId",
+  };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    service = new UserFeedAuditLogsService(auditLogEntryModel as never);
+  });
+
+  describe("recordDocumentChanges", () => {
+    it("records created documents", async () => {
+      await service.recordDocumentChanges({
+        feedId,
+        connectionId,
+        actor,
+        before: null,
+        after: { name: "name" },
+        fields: ["name"],
+      });
+
+      expect(auditLogEntryModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          feedId: new Types.ObjectId(feedId),
+          connectionId: new Types.ObjectId(connectionId),
+          actorDiscordUserId: actor.discordUserId,
+          changes: [{ path: "name", before: undefined, after: "name" }],
+        })
+      );
+    });
+
+    it("records deleted documents", async () => {
+      await service.recordDocumentChanges({
+        feedId,
+        actor,
+        before: { title: "title" },
+        after: null,
+        fields: ["title"],
+      });
+
+      expect(auditLogEntryModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          changes: [{ path: "title", before: "title", after: undefined }],
+        })
+      );
+    });
+
+    it("never stores secrets", async () => {
+      const secrets = [
+        "webhook-token",
+        "matrix-access-token",
+        "https://hooks.slack.com/services/secret",
+        "encrypted-secret",
+        "Bearer header-token",
+        "signing-secret",
+      ];
+
+      await service.recordDocumentChanges({
+        feedId,
+        connectionId,
+        actor,
+        before: {
+          details: {
+            webhook: { id: "1", token: secrets[0] },
+          },
+        },
+        after: {
+          details: {
+            webhook: { id: "2", token: "new-webhook-token" },
+            accessToken: secrets[1],
+            webhookUrl: secrets[2],
+            headers: [{ key: "Authorization", value: secrets[4] }],
+            signingSecret: secrets[5],
+          },
+          credentialProfile: { encryptedSecret: secrets[3] },
+        },
+        fields: ["details", "credentialProfile"],
+      });
+
+      const stored = JSON.stringify(
+        auditLogEntryModel.create.mock.calls[0][0].changes
+      );
+
+      secrets.forEach((secret) => expect(stored).not.toContain(secret));
+      expect(stored).not.toContain("new-webhook-token");
+    });
+
+    it("does not throw if the changes fail to be stored", async () => {
+      auditLogEntryModel.create.mockRejectedValue(new Error("failed"));
+
+      await expect(
+        service.recordDocumentChanges({
+          feedId,
+          actor,
+          before: { title: "old" },
+          after: { title: "new" },
+          fields: ["title"],
+        })
+      ).resolves.toBeUndefined();
+    });
+  });
+});
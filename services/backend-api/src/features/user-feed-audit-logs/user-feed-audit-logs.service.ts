@@ -0,0 +1,111 @@
+import { Injectable } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Types } from "mongoose";
+import logger from "../../utils/logger";
+import {
+  UserFeedAuditLogChange,
+  UserFeedAuditLogEntry,
+  UserFeedAuditLogEntryModel,
+} from "./entities";
+import { UserFeedAuditActor } from "./types";
+import { getAuditLogChanges } from "./utils";
+
+interface RecordChangesInput {
+  feedId: string;
+  connectionId?: string;
+  actor: UserFeedAuditActor;
+  changes: UserFeedAuditLogChange[];
+}
+
+interface RecordDocumentChangesInput {
+  feedId: string;
+  connectionId?: string;
+  actor: UserFeedAuditActor;
+  /**
+   * Null if the document was just created
+   */
+  before: object | null;
+  /**
+   * Null if the document was just deleted
+   */
+  after: object | null;
+  fields: string[];
+}
+
+@Injectable()
+export class UserFeedAuditLogsService {
+  constructor(
+    @InjectModel(UserFeedAuditLogEntry.name)
+    private readonly auditLogEntryModel: UserFeedAuditLogEntryModel
+  ) {}
+
+  /**
+   * Does nothing if there are no changes
+   */
+  async recordChanges({
+    feedId,
+    connectionId,
+    actor,
+    changes,
+  }: RecordChangesInput) {
+    if (!changes.length) {
+      return;
+    }
+
+    await this.auditLogEntryModel.create({
+      feedId: new Types.ObjectId(feedId),
+      connectionId: connectionId ? new Types.ObjectId(connectionId) : undefined,
+      actorDiscordUserId: actor.discordUserId,
+      personalAccessTokenId: actor.personalAccessTokenId
+        ? new Types.ObjectId(actor.personalAccessTokenId)
+        : undefined,
+      route: actor.route,
+      changes,
+    });
+  }
+
+  /**
+   * Records the differences between two versions of a feed or connection. Failures are only logged
+   * since the change itself has already been saved.
+   */
+  async recordDocumentChanges({
+    feedId,
+    connectionId,
+    actor,
+    before,
+    after,
+    fields,
+  }: RecordDocumentChangesInput) {
+    try {
+      await this.recordChanges({
+        feedId,
+        connectionId,
+        actor,
+        changes: getAuditLogChanges(
+          (before || {}) as Record<string, unknown>,
+          (after || {}) as Record<string, unknown>,
+          { fields }
+        ),
+      });
+    } catch (err) {
+      logger.error(`Failed to record audit log changes for feed ${feedId}`, {
+        connectionId,
+        stack: (err as Error).stack,
+      });
+    }
+  }
+
+  async getEntriesOfFeed(
+    feedId: string,
+    { limit, skip }: { limit: number; skip: number }
+  ) {
+    return this.auditLogEntryModel
+      .find({
+        feedId: new Types.ObjectId(feedId),
+      })
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit)
+      .lean();
+  }
+}
@@ -0,0 +1,122 @@
+import { Types } from "mongoose";
+import { getAuditLogChanges } from "./get-audit-log-changes";
+
+describe("getAuditLogChanges", () => {
+  it("returns only the fields that changed", () => {
+    const result = getAuditLogChanges(
+      { title: "old", url: "url", extra: 1 },
+      { title: "new", url: "url", extra: 2 },
+      { fields: ["title", "url"] }
+    );
+
+    expect(result).toEqual([{ path: "title", before: "old", after: "new" }]);
+  });
+
+  it("returns nested paths up to the max depth", () => {
+    const result = getAuditLogChanges(
+      { details: { content: "a", embeds: [{ title: "t" }] } },
+      { details: { content: "b", embeds: [{ title: "t" }] } },
+      { fields: ["details"], maxDepth: 1 }
+    );
+
+    expect(result).toEqual([
+      { path: "details.content", before: "a", after: "b" },
+    ]);
+  });
+
+  it("includes fields that were added or removed", () => {
+    const result = getAuditLogChanges(
+      { filters: { expression: {} } },
+      {},
+      { fields: ["filters"], maxDepth: 0 }
+    );
+
+    expect(result).toEqual([
+      { path: "filters", before: { expression: {} }, after: undefined },
+    ]);
+  });
+
+  it("redacts tokens", () => {
+    const result = getAuditLogChanges(
+      { details: { webhook: { id: "1", token: "secret-1" } } },
+      { details: { webhook: { id: "2", token: "secret-2" } } },
+      { fields: ["details"], maxDepth: 1 }
+    );
+
+    expect(result).toEqual([
+      {
+        path: "details.webhook",
+        before: { id: "1", token: "[redacted]" },
+        after: { id: "2", token: "[redacted]" },
+      },
+    ]);
+  });
+
+  it("redacts tokens that are compared directly", () => {
+    const result = getAuditLogChanges(
+      { webhook: { id: "1", token: "secret-1" } },
+      { webhook: { id: "1", token: "secret-2" } },
+      { fields: ["webhook"], maxDepth: 1 }
+    );
+
+    expect(result).toEqual([
+      { path: "webhook.token", before: "[redacted]", after: "[redacted]" },
+    ]);
+  });
+
+  it("redacts encrypted secrets", () => {
+    const result = getAuditLogChanges(
+      {},
+      { credentialProfile: { type: "cookie", encryptedSecret: "secret" } },
+      { fields: ["credentialProfile"] }
+    );
+
+    expect(result).toEqual([
+      {
+        path: "credentialProfile",
+        before: undefined,
+        after: { type: "cookie", encryptedSecret: "[redacted]" },
+      },
+    ]);
+  });
+
+  it("redacts matrix access tokens and slack webhook urls", () => {
+    const result = getAuditLogChanges(
+      {},
+      {
+        name: "name",
+        details: {
+          homeserverUrl: "https://matrix.org",
+          accessToken: "matrix-secret",
+          webhookUrl: "https://hooks.slack.com/services/secret",
+        },
+      },
+      { fields: ["name", "details"] }
+    );
+
+    expect(result).toEqual([
+      { path: "name", before: undefined, after: "name" },
+      {
+        path: "details",
+        before: undefined,
+        after: {
+          homeserverUrl: "https://matrix.org",
+          accessToken: "[redacted]",
+          webhookUrl: "[redacted]",
+        },
+      },
+    ]);
+  });
+
+  it("compares object ids and dates by value", () => {
+    const id = new Types.ObjectId();
+
+    const result = getAuditLogChanges(
+      { connectionId: id, date: new Date(0) },
+      { connectionId: new Types.ObjectId(id.toHexString()), date: new Date(0) },
+      { fields: ["connectionId", "date"] }
+    );
+
+    expect(result).toEqual([]);
+  });
+});
@@ -0,0 +1,128 @@
+import { isEqual, isPlainObject } from "lodash";
+import { UserFeedAuditLogChange } from "../entities";
+
+/**
+ * Webhook tokens, Matrix access tokens, Slack webhook URLs, feed credentials, and the headers and
+ * signing secrets of HTTP webhooks
+ */
+const REDACTED_KEYS = [
+  "token",
+  "accessToken",
+  "webhookUrl",
+  "encryptedSecret",
+  "headers",
+  "signingSecret",
+];
+
+const REDACTED_VALUE = "[redacted]";
+
+interface Options {
+  /**
+   * Only compare these top-level fields
+   */
+  fields: string[];
+  /**
+   * How many levels of nested objects to descend into before comparing values as a whole
+   */
+  maxDepth?: number;
+}
+
+/**
+ * Converts documents, ObjectIds and dates to plain JSON values so they can be compared and stored
+ */
+const normalize = (value: unknown): unknown => {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  return JSON.parse(JSON.stringify(value));
+};
+
+const redact = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  return Object.entries(value as Record<string, unknown>).reduce(
+    (acc, [key, val]) => ({
+      ...acc,
+      [key]: REDACTED_KEYS.includes(key) ? REDACTED_VALUE : redact(val),
+    }),
+    {}
+  );
+};
+
+const compare = (
+  path: string,
+  before: unknown,
+  after: unknown,
+  depth: number,
+  maxDepth: number,
+  changes: UserFeedAuditLogChange[]
+) => {
+  if (isEqual(before, after)) {
+    return;
+  }
+
+  const key = path.split(".").pop() as string;
+
+  if (REDACTED_KEYS.includes(key)) {
+    changes.push({ path, before: REDACTED_VALUE, after: REDACTED_VALUE });
+
+    return;
+  }
+
+  if (depth < maxDepth && isPlainObject(before) && isPlainObject(after)) {
+    const beforeObj = before as Record<string, unknown>;
+    const afterObj = after as Record<string, unknown>;
+    const keys = new Set([...Object.keys(beforeObj), ...Object.keys(afterObj)]);
+
+    keys.forEach((k) =>
+      compare(
+        `${path}.${k}`,
+        beforeObj[k],
+        afterObj[k],
+        depth + 1,
+        maxDepth,
+        changes
+      )
+    );
+
+    return;
+  }
+
+  changes.push({
+    path,
+    before: redact(before),
+    after: redact(after),
+  });
+};
+
+/**
+ * Produces a list of the fields that differ between two versions of a document. Nested values
+ * with keys in REDACTED_KEYS are never included.
+ */
+export const getAuditLogChanges = (
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  { fields, maxDepth = 1 }: Options
+): UserFeedAuditLogChange[] => {
+  const changes: UserFeedAuditLogChange[] = [];
+
+  fields.forEach((field) =>
+    compare(
+      field,
+      normalize(before[field]),
+      normalize(after[field]),
+      0,
+      maxDepth,
+      changes
+    )
+  );
+
+  return changes;
+};
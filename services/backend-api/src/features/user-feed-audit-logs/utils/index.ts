@@ -0,0 +1 @@
+export * from "./get-audit-log-changes";
@@ -1,3 +1,4 @@
 export * from "./user-feed-manager-status.type";
 export * from "./user-feed-manager-type.types";
 export * from "./user-feed-manager-invite-type.type";
+export * from "./user-feed-manager-role.type";
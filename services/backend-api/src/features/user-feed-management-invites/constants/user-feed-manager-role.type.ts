@@ -0,0 +1,15 @@
+export enum UserFeedManagerRole {
+  /**
+   * Can only read the feed, its articles and its logs
+   */
+  Viewer = "VIEWER",
+  /**
+   * Can additionally change message templates and filters, but not the feed URL or where
+   * connections deliver to
+   */
+  Editor = "EDITOR",
+  /**
+   * Can do everything that the feed owner can, short of deleting the feed
+   */
+  Admin = "ADMIN",
+}
@@ -7,7 +7,7 @@ import {
   IsString,
   ValidateNested,
 } from "class-validator";
-import { UserFeedManagerInviteType } from "../constants";
+import { UserFeedManagerInviteType, UserFeedManagerRole } from "../constants";
 
 class CreateUserFeedManagementInviteConnectionsInputDto {
   @IsString()
@@ -27,6 +27,10 @@ export class CreateUserFeedManagementInviteInputDto {
   @IsIn(Object.values(UserFeedManagerInviteType))
   type: UserFeedManagerInviteType;
 
+  @IsOptional()
+  @IsIn(Object.values(UserFeedManagerRole))
+  role?: UserFeedManagerRole;
+
   @IsOptional()
   @Type(() => CreateUserFeedManagementInviteConnectionsInputDto)
   @ValidateNested({ each: true })
@@ -1,12 +1,14 @@
 import { Type } from "class-transformer";
 import {
   IsArray,
+  IsIn,
   IsNotEmpty,
   IsOptional,
   IsString,
   ValidateIf,
   ValidateNested,
 } from "class-validator";
+import { UserFeedManagerRole } from "../constants";
 
 class UpdateUserFeedManagementInviteConnectionInputDto {
   @IsString()
@@ -22,4 +24,8 @@ export class UpdateUserFeedManagementInviteInputDto {
   @ValidateIf((data) => data?.connections !== null)
   @IsOptional()
   connections?: Array<UpdateUserFeedManagementInviteConnectionInputDto> | null;
+
+  @IsOptional()
+  @IsIn(Object.values(UserFeedManagerRole))
+  role?: UserFeedManagerRole;
 }
@@ -83,6 +83,7 @@ export class UserFeedManagementInvitesController {
     {
       discordUserId: targetDiscordUserId,
       type,
+      role,
       connections,
     }: CreateUserFeedManagementInviteInputDto
   ) {
@@ -90,6 +91,7 @@ export class UserFeedManagementInvitesController {
       feed,
       targetDiscordUserId,
       type,
+      role,
       connections,
     });
 
@@ -106,10 +108,11 @@ export class UserFeedManagementInvitesController {
     @Param("id") inviteId: string,
     @Param("id", GetUserFeedManagementInviteByOwnerPipe()) userFeed: UserFeed,
     @Body(ValidationPipe)
-    { connections }: UpdateUserFeedManagementInviteInputDto
+    { connections, role }: UpdateUserFeedManagementInviteInputDto
   ) {
     await this.service.updateInvite(userFeed, inviteId, {
       connections,
+      role,
     });
 
     return {
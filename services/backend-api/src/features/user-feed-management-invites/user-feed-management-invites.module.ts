@@ -3,6 +3,7 @@ import { DynamicModule, Module } from "@nestjs/common";
 import { MongooseModule } from "@nestjs/mongoose";
 import { DiscordAuthModule } from "../discord-auth/discord-auth.module";
 import { SupportersModule } from "../supporters/supporters.module";
+import { WorkspacesModule } from "../workspaces/workspaces.module";
 import { UserFeedFeature } from "../user-feeds/entities";
 import { UserFeedsModule } from "../user-feeds/user-feeds.module";
 import { UserFeedManagementInvitesController } from "./user-feed-management-invites.controller";
@@ -15,6 +16,7 @@ import { UserFeedManagementInvitesService } from "./user-feed-management-invites
     MongooseModule.forFeature([UserFeedFeature]),
     UserFeedsModule.forRoot(),
     SupportersModule,
+    WorkspacesModule,
     DiscordAuthModule,
   ],
   exports: [UserFeedManagementInvitesService],
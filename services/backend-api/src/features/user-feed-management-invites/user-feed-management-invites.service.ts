@@ -7,7 +7,11 @@ import { SupportersService } from "../supporters/supporters.service";
 import { UserFeed, UserFeedModel } from "../user-feeds/entities";
 import { UserFeedConnection } from "../user-feeds/types";
 import { UserFeedsService } from "../user-feeds/user-feeds.service";
-import { UserFeedManagerInviteType, UserFeedManagerStatus } from "./constants";
+import {
+  UserFeedManagerInviteType,
+  UserFeedManagerRole,
+  UserFeedManagerStatus,
+} from "./constants";
 import {
   UserFeedTransferRequestExiststException,
   UserManagerAlreadyInvitedException,
@@ -25,11 +29,13 @@ export class UserFeedManagementInvitesService {
     feed,
     targetDiscordUserId,
     type,
+    role,
     connections,
   }: {
     feed: UserFeed;
     targetDiscordUserId: string;
     type: UserFeedManagerInviteType;
+    role?: UserFeedManagerRole;
     connections?: Array<{ connectionId: string }>;
   }) {
     if (!feed.shareManageOptions) {
@@ -92,6 +98,10 @@ export class UserFeedManagementInvitesService {
       status: UserFeedManagerStatus.Pending,
       id: new Types.ObjectId(),
       type,
+      role:
+        type === UserFeedManagerInviteType.CoManage
+          ? role || UserFeedManagerRole.Admin
+          : undefined,
       connections: connections?.map(({ connectionId }) => ({
         connectionId: new Types.ObjectId(connectionId),
       })),
@@ -181,6 +191,7 @@ export class UserFeedManagementInvitesService {
     inviteId: string,
     updates: {
       status?: UserFeedManagerStatus;
+      role?: UserFeedManagerRole;
       connections?: Array<{
         connectionId: string;
       }> | null;
@@ -227,6 +238,9 @@ export class UserFeedManagementInvitesService {
               [`shareManageOptions.invites.${inviteIndex}.status`]:
                 updates.status,
             }),
+            ...(updates.role && {
+              [`shareManageOptions.invites.${inviteIndex}.role`]: updates.role,
+            }),
             ...(updates.connections && {
               [`shareManageOptions.invites.${inviteIndex}.connections`]:
                 updates.connections.map(({ connectionId }) => ({
@@ -285,6 +299,7 @@ export class UserFeedManagementInvitesService {
       return {
         id: invite!.id.toHexString(),
         type: invite!.type,
+        role: invite!.role,
         feed: {
           id: feed._id.toHexString(),
           title: feed.title,
@@ -0,0 +1,43 @@
+import { UserFeedManagerRole } from "../constants";
+import { hasSharedManagerRole } from "./has-shared-manager-role";
+
+describe("hasSharedManagerRole", () => {
+  it("returns true if there is no role", () => {
+    expect(hasSharedManagerRole(undefined, UserFeedManagerRole.Admin)).toBe(
+      true
+    );
+  });
+
+  it("returns true if the role is the same as the required role", () => {
+    expect(
+      hasSharedManagerRole(
+        UserFeedManagerRole.Editor,
+        UserFeedManagerRole.Editor
+      )
+    ).toBe(true);
+  });
+
+  it("returns true if the role is higher than the required role", () => {
+    expect(
+      hasSharedManagerRole(
+        UserFeedManagerRole.Admin,
+        UserFeedManagerRole.Viewer
+      )
+    ).toBe(true);
+  });
+
+  it("returns false if the role is lower than the required role", () => {
+    expect(
+      hasSharedManagerRole(
+        UserFeedManagerRole.Viewer,
+        UserFeedManagerRole.Editor
+      )
+    ).toBe(false);
+    expect(
+      hasSharedManagerRole(
+        UserFeedManagerRole.Editor,
+        UserFeedManagerRole.Admin
+      )
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,22 @@
+import { UserFeedManagerRole } from "../constants";
+
+const ROLE_RANKS: Record<UserFeedManagerRole, number> = {
+  [UserFeedManagerRole.Viewer]: 0,
+  [UserFeedManagerRole.Editor]: 1,
+  [UserFeedManagerRole.Admin]: 2,
+};
+
+/**
+ * @param role The role of the shared manager. Undefined if the user is the feed owner, who
+ * implicitly has every role.
+ */
+export const hasSharedManagerRole = (
+  role: UserFeedManagerRole | undefined,
+  requiredRole: UserFeedManagerRole
+) => {
+  if (!role) {
+    return true;
+  }
+
+  return ROLE_RANKS[role] >= ROLE_RANKS[requiredRole];
+};
@@ -0,0 +1 @@
+export * from "./has-shared-manager-role";
@@ -1 +1,2 @@
 export * from "./get-feed-articles-filter-return-type.type";
+export * from "./user-feed-delivery-analytics-interval.constants";
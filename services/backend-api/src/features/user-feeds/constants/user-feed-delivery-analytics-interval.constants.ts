@@ -0,0 +1,15 @@
+export enum UserFeedDeliveryAnalyticsInterval {
+  Hour = "hour",
+  Day = "day",
+}
+
+/**
+ * Longer ranges would aggregate too many delivery records at once
+ */
+export const USER_FEED_DELIVERY_ANALYTICS_MAX_RANGE_DAYS: Record<
+  UserFeedDeliveryAnalyticsInterval,
+  number
+> = {
+  [UserFeedDeliveryAnalyticsInterval.Hour]: 7,
+  [UserFeedDeliveryAnalyticsInterval.Day]: 90,
+};
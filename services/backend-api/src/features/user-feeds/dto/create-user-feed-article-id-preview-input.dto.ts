@@ -0,0 +1,10 @@
+import { Type } from "class-transformer";
+import { IsObject, ValidateNested } from "class-validator";
+import { UserFeedArticleIdOptions } from "../../../common";
+
+export class CreateUserFeedArticleIdPreviewInputDto {
+  @IsObject()
+  @Type(() => UserFeedArticleIdOptions)
+  @ValidateNested()
+  articleIdOptions: UserFeedArticleIdOptions;
+}
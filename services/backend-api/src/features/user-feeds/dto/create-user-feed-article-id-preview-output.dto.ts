@@ -0,0 +1,22 @@
+import { GetArticlesResponseRequestStatus } from "../../../services/feed-handler/types";
+
+class SampleArticleDto {
+  title?: string;
+  currentId: string;
+  proposedId: string;
+}
+
+class ResultDto {
+  requestStatus: GetArticlesResponseRequestStatus;
+  totalArticles: number;
+  collisionCount: number;
+  changedIdCount: number;
+  sampleArticles: SampleArticleDto[];
+  response?: {
+    statusCode?: number;
+  };
+}
+
+export class CreateUserFeedArticleIdPreviewOutputDto {
+  result: ResultDto;
+}
@@ -1,4 +1,16 @@
-import { IsNotEmpty, IsString } from "class-validator";
+import { Type } from "class-transformer";
+import {
+  IsIn,
+  IsMongoId,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  ValidateIf,
+  ValidateNested,
+} from "class-validator";
+import { UserFeedHtmlScrapeOptions } from "../../../common";
+import { UserFeedType } from "../types";
 
 export class CreateUserFeedInputDto {
   @IsString()
@@ -9,4 +21,21 @@ export class CreateUserFeedInputDto {
   @IsNotEmpty()
   @IsString()
   url: string;
+
+  @IsIn(Object.values(UserFeedType))
+  @IsOptional()
+  feedType?: UserFeedType;
+
+  @ValidateIf((v) => v.feedType === UserFeedType.HtmlPage)
+  @IsObject()
+  @Type(() => UserFeedHtmlScrapeOptions)
+  @ValidateNested()
+  htmlScrapeOptions?: UserFeedHtmlScrapeOptions;
+
+  /**
+   * The workspace that should own the feed. Defaults to the user who is adding it.
+   */
+  @IsMongoId()
+  @IsOptional()
+  workspaceId?: string;
 }
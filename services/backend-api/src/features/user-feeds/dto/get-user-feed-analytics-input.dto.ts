@@ -0,0 +1,60 @@
+import { Type } from "class-transformer";
+import {
+  IsDate,
+  IsEnum,
+  IsOptional,
+  Validate,
+  ValidationArguments,
+  ValidatorConstraint,
+  ValidatorConstraintInterface,
+} from "class-validator";
+import {
+  UserFeedDeliveryAnalyticsInterval,
+  USER_FEED_DELIVERY_ANALYTICS_MAX_RANGE_DAYS,
+} from "../constants";
+
+/**
+ * The end date defaults to now, the same as when getting analytics
+ */
+@ValidatorConstraint({ name: "IsWithinMaxAnalyticsRange", async: false })
+class IsWithinMaxAnalyticsRange implements ValidatorConstraintInterface {
+  validate(startDate: Date, { object }: ValidationArguments) {
+    const { endDate, interval } = object as GetUserFeedAnalyticsInputDto;
+    const maxDays = USER_FEED_DELIVERY_ANALYTICS_MAX_RANGE_DAYS[interval];
+
+    if (!maxDays || !(startDate instanceof Date)) {
+      return true;
+    }
+
+    const rangeMs = (endDate || new Date()).getTime() - startDate.getTime();
+
+    // Invalid dates are already rejected by IsDate
+    return isNaN(rangeMs) || rangeMs <= maxDays * 24 * 60 * 60 * 1000;
+  }
+
+  defaultMessage({ object }: ValidationArguments) {
+    const { interval } = object as GetUserFeedAnalyticsInputDto;
+
+    return (
+      `Date range must be at most ` +
+      `${USER_FEED_DELIVERY_ANALYTICS_MAX_RANGE_DAYS[interval]} days for the ${interval} interval`
+    );
+  }
+}
+
+export class GetUserFeedAnalyticsInputDto {
+  @IsDate()
+  @Type(() => Date)
+  @Validate(IsWithinMaxAnalyticsRange)
+  @IsOptional()
+  startDate?: Date;
+
+  @IsDate()
+  @Type(() => Date)
+  @IsOptional()
+  endDate?: Date;
+
+  @IsEnum(UserFeedDeliveryAnalyticsInterval)
+  @IsOptional()
+  interval = UserFeedDeliveryAnalyticsInterval.Day;
+}
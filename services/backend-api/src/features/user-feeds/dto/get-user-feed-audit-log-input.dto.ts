@@ -0,0 +1,18 @@
+import { Type } from "class-transformer";
+import { IsInt, IsOptional, Max, Min } from "class-validator";
+
+export class GetUserFeedAuditLogInputDto {
+  @IsInt()
+  @Max(50)
+  @Min(1)
+  @Type(() => Number)
+  @IsOptional()
+  limit = 25;
+
+  @IsInt()
+  @Max(1000)
+  @Min(0)
+  @Type(() => Number)
+  @IsOptional()
+  skip = 0;
+}
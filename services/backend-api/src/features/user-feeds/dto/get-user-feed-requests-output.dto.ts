@@ -14,6 +14,11 @@ interface Result {
   requests: Request[];
   // Unix timestamp
   nextRetryTimestamp: number | null;
+  // Responses of the host that had no changes since the previous request
+  conditionalRequestSavings?: {
+    notModifiedCount: number;
+    bytesSaved: number;
+  };
 }
 
 export interface GetUserFeedRequestsOutputDto {
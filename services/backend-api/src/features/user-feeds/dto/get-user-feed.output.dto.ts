@@ -14,9 +14,17 @@ import {
 import { UserFeedShareManageOptions } from "../../../common";
 import { CreateDiscordChannelConnectionOutputDto } from "../../feed-connections/dto/create-discord-channel-connection-output.dto";
 import { CreateDiscordWebhookConnectionOutputDto } from "../../feed-connections/dto/create-discord-webhook-connection-output.dto";
+import { CreateHttpWebhookConnectionOutputDto } from "../../feed-connections/dto/create-http-webhook-connection-output.dto";
+import { CreateMatrixRoomConnectionOutputDto } from "../../feed-connections/dto/create-matrix-room-connection-output.dto";
+import { CreateSlackChannelConnectionOutputDto } from "../../feed-connections/dto/create-slack-channel-connection-output.dto";
 import { FeedConnectionType } from "../../feeds/constants";
+import { UserFeedManagerRole } from "../../user-feed-management-invites/constants";
 import { UserFeed } from "../entities";
-import { UserFeedDisabledCode, UserFeedHealthStatus } from "../types";
+import {
+  UserFeedDisabledCode,
+  UserFeedHealthStatus,
+  UserFeedType,
+} from "../types";
 
 class ConnectionBaseDto {
   @IsIn(Object.values(FeedConnectionType))
@@ -56,6 +64,27 @@ class GetUserFeedOutputResultDto {
 
   dateCheckOptions?: UserFeed["dateCheckOptions"];
 
+  jsonOptions?: UserFeed["jsonOptions"];
+
+  @IsIn(Object.values(UserFeedType))
+  feedType: UserFeedType;
+
+  htmlScrapeOptions?: UserFeed["htmlScrapeOptions"];
+
+  editTracking?: UserFeed["editTracking"];
+
+  articleIdOptions?: UserFeed["articleIdOptions"];
+
+  /**
+   * Secrets are never returned
+   */
+  credentialProfile?: Omit<
+    NonNullable<UserFeed["credentialProfile"]>,
+    "encryptedSecret"
+  >;
+
+  retractRemovedArticles?: boolean;
+
   @IsObject()
   @ValidateNested()
   @Type(() => ConnectionBaseDto, {
@@ -70,12 +99,27 @@ class GetUserFeedOutputResultDto {
           value: CreateDiscordWebhookConnectionOutputDto,
           name: FeedConnectionType.DiscordWebhook,
         },
+        {
+          value: CreateSlackChannelConnectionOutputDto,
+          name: FeedConnectionType.SlackChannel,
+        },
+        {
+          value: CreateMatrixRoomConnectionOutputDto,
+          name: FeedConnectionType.MatrixRoom,
+        },
+        {
+          value: CreateHttpWebhookConnectionOutputDto,
+          name: FeedConnectionType.HttpWebhook,
+        },
       ],
     },
   })
   connections: Array<
     | CreateDiscordChannelConnectionOutputDto
     | CreateDiscordWebhookConnectionOutputDto
+    | CreateSlackChannelConnectionOutputDto
+    | CreateMatrixRoomConnectionOutputDto
+    | CreateHttpWebhookConnectionOutputDto
   >;
 
   @IsString()
@@ -102,9 +146,12 @@ class GetUserFeedOutputResultDto {
 
   sharedAccessDetails?: {
     inviteId: string;
+    role: UserFeedManagerRole;
   };
 
   userRefreshRateSeconds?: number;
+
+  workspaceId?: string;
 }
 
 export class GetUserFeedOutputDto {
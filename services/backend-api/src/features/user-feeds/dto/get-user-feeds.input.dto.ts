@@ -5,6 +5,7 @@ import {
   IsEnum,
   IsIn,
   IsInt,
+  IsMongoId,
   IsObject,
   IsOptional,
   IsString,
@@ -77,6 +78,13 @@ export class GetUserFeedsInputDto {
   })
   sort = GetUserFeedsInputSortKey.CreatedAtDescending;
 
+  /**
+   * Only list the feeds of this workspace instead of the personal feeds of the user
+   */
+  @IsMongoId()
+  @IsOptional()
+  workspaceId?: string;
+
   @IsOptional()
   @IsObject()
   @Type(() => GetUserFeedsInputFiltersDto)
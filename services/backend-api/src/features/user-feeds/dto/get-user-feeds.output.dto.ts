@@ -4,6 +4,7 @@ import {
   IsIn,
   IsInt,
   IsNotEmpty,
+  IsOptional,
   IsString,
   ValidateNested,
 } from "class-validator";
@@ -29,6 +30,10 @@ class GetUserFeedsOutputResultDto {
   @IsString()
   @IsIn(Object.values(UserFeedDisabledCode))
   disabledCode?: string;
+
+  @IsString()
+  @IsOptional()
+  workspaceId?: string;
 }
 
 export class GetUserFeedsOutputDto {
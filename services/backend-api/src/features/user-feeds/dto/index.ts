@@ -15,3 +15,9 @@ export * from "./create-user-feed-management-invite-input.dto";
 export * from "./create-user-feed-clone-input.dto";
 export * from "./get-user-feed-article-properties-input.dto";
 export * from "./get-user-feed-delivery-logs-input.dto";
+export * from "./update-delivery-log-message-input.dto";
+export * from "./create-user-feeds-opml-import-input.dto";
+export * from "./get-user-feed-audit-log-input.dto";
+export * from "./get-user-feed-analytics-input.dto";
+export * from "./create-user-feed-article-id-preview-input.dto";
+export * from "./create-user-feed-article-id-preview-output.dto";
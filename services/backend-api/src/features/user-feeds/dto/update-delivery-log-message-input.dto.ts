@@ -0,0 +1,6 @@
+import { IsMongoId } from "class-validator";
+
+export class UpdateDeliveryLogMessageInputDto {
+  @IsMongoId()
+  connectionId: string;
+}
@@ -1,5 +1,6 @@
 import { Type } from "class-transformer";
 import {
+  IsBoolean,
   IsIn,
   IsInt,
   IsNotEmpty,
@@ -12,8 +13,14 @@ import {
   ValidateNested,
 } from "class-validator";
 import {
+  AlertSettingsDto,
+  UserFeedArticleIdOptions,
+  UserFeedCredentialProfileInput,
   UserFeedDateCheckOptions,
   UserFeedFormatOptions,
+  UserFeedHtmlScrapeOptions,
+  UserFeedEditTrackingOptions,
+  UserFeedJsonOptions,
   UserFeedShareManageOptions,
 } from "../../../common";
 import { UserFeedDisabledCode } from "../types";
@@ -55,6 +62,46 @@ export class UpdateUserFeedInputDto {
   @IsObject()
   dateCheckOptions?: UserFeedDateCheckOptions;
 
+  @IsOptional()
+  @Type(() => UserFeedJsonOptions)
+  @ValidateNested()
+  @IsObject()
+  jsonOptions?: UserFeedJsonOptions;
+
+  @IsOptional()
+  @Type(() => UserFeedHtmlScrapeOptions)
+  @ValidateNested()
+  @IsObject()
+  htmlScrapeOptions?: UserFeedHtmlScrapeOptions;
+
+  @IsOptional()
+  @Type(() => UserFeedEditTrackingOptions)
+  @ValidateNested()
+  @IsObject()
+  @ValidateIf((v) => v.editTracking !== null)
+  editTracking?: UserFeedEditTrackingOptions | null;
+
+  @IsOptional()
+  @Type(() => UserFeedArticleIdOptions)
+  @ValidateNested()
+  @IsObject()
+  @ValidateIf((v) => v.articleIdOptions !== null)
+  articleIdOptions?: UserFeedArticleIdOptions | null;
+
+  /**
+   * Set to null to remove the credentials of the feed
+   */
+  @IsOptional()
+  @Type(() => UserFeedCredentialProfileInput)
+  @ValidateNested()
+  @IsObject()
+  @ValidateIf((v) => v.credentialProfile !== null)
+  credentialProfile?: UserFeedCredentialProfileInput | null;
+
+  @IsOptional()
+  @IsBoolean()
+  retractRemovedArticles?: boolean;
+
   @IsOptional()
   @IsObject()
   @Type(() => UserFeedShareManageOptions)
@@ -71,4 +118,11 @@ export class UpdateUserFeedInputDto {
       o.userRefreshRateSeconds !== undefined
   )
   userRefreshRateSeconds?: number;
+
+  @IsOptional()
+  @Type(() => AlertSettingsDto)
+  @ValidateNested()
+  @IsObject()
+  @ValidateIf((v) => v.alertSettings !== null)
+  alertSettings?: AlertSettingsDto | null;
 }
@@ -0,0 +1,31 @@
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { UserFeedArticleIdType } from "../types/user-feed-article-id-type.type";
+
+@Schema({
+  timestamps: false,
+  _id: false,
+})
+export class UserFeedArticleIdOptions {
+  @Prop({
+    required: true,
+    enum: Object.values(UserFeedArticleIdType),
+    type: String,
+  })
+  type: UserFeedArticleIdType;
+
+  @Prop({
+    required: false,
+    type: String,
+  })
+  field?: string | null;
+
+  @Prop({
+    required: false,
+    type: [String],
+  })
+  placeholders?: string[] | null;
+}
+
+export const UserFeedArticleIdOptionsSchema = SchemaFactory.createForClass(
+  UserFeedArticleIdOptions
+);
@@ -0,0 +1,40 @@
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { UserFeedCredentialProfileType } from "../types/user-feed-credential-profile-type.type";
+
+@Schema({
+  timestamps: false,
+  _id: false,
+})
+export class UserFeedCredentialProfile {
+  @Prop({
+    required: true,
+    enum: Object.values(UserFeedCredentialProfileType),
+    type: String,
+  })
+  type: UserFeedCredentialProfileType;
+
+  @Prop({
+    required: false,
+    type: String,
+  })
+  username?: string | null;
+
+  @Prop({
+    required: false,
+    type: String,
+  })
+  headerName?: string | null;
+
+  /**
+   * The password, token, cookie or header value. Encrypted with the feed credentials encryption
+   * key, and never returned to users.
+   */
+  @Prop({
+    required: true,
+  })
+  encryptedSecret: string;
+}
+
+export const UserFeedCredentialProfileSchema = SchemaFactory.createForClass(
+  UserFeedCredentialProfile
+);
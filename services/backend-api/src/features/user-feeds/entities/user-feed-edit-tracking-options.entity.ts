@@ -0,0 +1,31 @@
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { UserFeedEditTrackingMode } from "../types/user-feed-edit-tracking-mode.type";
+
+@Schema({
+  timestamps: false,
+  _id: false,
+})
+export class UserFeedEditTrackingOptions {
+  @Prop({
+    required: true,
+    type: [String],
+  })
+  fields: string[];
+
+  @Prop({
+    required: true,
+    enum: Object.values(UserFeedEditTrackingMode),
+    type: String,
+  })
+  mode: UserFeedEditTrackingMode;
+
+  @Prop({
+    required: false,
+    type: String,
+  })
+  template?: string | null;
+}
+
+export const UserFeedEditTrackingOptionsSchema = SchemaFactory.createForClass(
+  UserFeedEditTrackingOptions
+);
@@ -0,0 +1,41 @@
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+
+@Schema({
+  timestamps: false,
+  _id: false,
+})
+export class UserFeedHtmlScrapeOptions {
+  @Prop({
+    required: true,
+    type: String,
+  })
+  itemSelector: string;
+
+  @Prop({
+    required: false,
+    type: String,
+  })
+  titleSelector?: string | null;
+
+  @Prop({
+    required: false,
+    type: String,
+  })
+  linkSelector?: string | null;
+
+  @Prop({
+    required: false,
+    type: String,
+  })
+  dateSelector?: string | null;
+
+  @Prop({
+    required: false,
+    type: String,
+  })
+  descriptionSelector?: string | null;
+}
+
+export const UserFeedHtmlScrapeOptionsSchema = SchemaFactory.createForClass(
+  UserFeedHtmlScrapeOptions
+);
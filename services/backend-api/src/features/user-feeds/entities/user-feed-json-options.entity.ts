@@ -0,0 +1,16 @@
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+
+@Schema({
+  timestamps: false,
+  _id: false,
+})
+export class UserFeedJsonOptions {
+  @Prop({
+    required: false,
+    type: String,
+  })
+  itemsPath?: string | null;
+}
+
+export const UserFeedJsonOptionsSchema =
+  SchemaFactory.createForClass(UserFeedJsonOptions);
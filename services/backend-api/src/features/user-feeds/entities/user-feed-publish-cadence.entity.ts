@@ -0,0 +1,35 @@
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { UserFeedActivityLevel } from "../types/user-feed-activity-level.type";
+
+@Schema({
+  timestamps: false,
+  _id: false,
+})
+export class UserFeedPublishCadence {
+  @Prop({
+    required: true,
+    enum: Object.values(UserFeedActivityLevel),
+    type: String,
+  })
+  activityLevel: UserFeedActivityLevel;
+
+  @Prop({
+    required: true,
+  })
+  unchangedFetchStreak: number;
+
+  @Prop({
+    required: false,
+    type: Date,
+  })
+  lastNewArticleAt?: Date | null;
+
+  @Prop({
+    required: true,
+  })
+  updatedAt: Date;
+}
+
+export const UserFeedPublishCadenceSchema = SchemaFactory.createForClass(
+  UserFeedPublishCadence
+);
@@ -2,6 +2,7 @@ import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
 import { Schema as MongooseSchema, Types } from "mongoose";
 import {
   UserFeedManagerInviteType,
+  UserFeedManagerRole,
   UserFeedManagerStatus,
 } from "../../user-feed-management-invites/constants";
 
@@ -40,6 +41,14 @@ export class UserFeedUserShareManageUser {
   })
   type: UserFeedManagerInviteType;
 
+  @Prop({
+    required: false,
+    type: String,
+    enum: Object.values(UserFeedManagerRole),
+    default: UserFeedManagerRole.Admin,
+  })
+  role?: UserFeedManagerRole;
+
   @Prop({
     required: true,
   })
@@ -8,20 +8,52 @@ import {
   ArticleInjection,
   ArticleInjectionSchema,
 } from "./article-injection.entity";
-import { UserFeedDisabledCode, UserFeedHealthStatus } from "../types";
+import {
+  UserFeedDisabledCode,
+  UserFeedHealthStatus,
+  UserFeedType,
+} from "../types";
+import {
+  UserFeedArticleIdOptions,
+  UserFeedArticleIdOptionsSchema,
+} from "./user-feed-article-id-options.entity";
+import {
+  UserFeedCredentialProfile,
+  UserFeedCredentialProfileSchema,
+} from "./user-feed-credential-profile.entity";
 import {
   UserFeedDateCheckOptions,
   UserFeedDateCheckOptionsSchema,
 } from "./user-feed-date-check-options.entity";
+import {
+  UserFeedEditTrackingOptions,
+  UserFeedEditTrackingOptionsSchema,
+} from "./user-feed-edit-tracking-options.entity";
 import {
   UserFeedFormatOptions,
   UserFeedFormatOptionsSchema,
 } from "./user-feed-format-options.entity";
+import {
+  UserFeedJsonOptions,
+  UserFeedJsonOptionsSchema,
+} from "./user-feed-json-options.entity";
+import {
+  UserFeedHtmlScrapeOptions,
+  UserFeedHtmlScrapeOptionsSchema,
+} from "./user-feed-html-scrape-options.entity";
 import {
   UserFeedShareManageOptions,
   UserFeedShareManageOptionsSchema,
 } from "./user-feed-share-manage-options.entity";
 import { UserFeedUser, UserFeedUserSchema } from "./user-feed-user.entity";
+import {
+  UserFeedPublishCadence,
+  UserFeedPublishCadenceSchema,
+} from "./user-feed-publish-cadence.entity";
+import {
+  AlertSettings,
+  AlertSettingsSchema,
+} from "../../notifications/entities/alert-settings.entity";
 
 @Schema({
   timestamps: true,
@@ -40,6 +72,18 @@ export class UserFeed {
   })
   url: string;
 
+  @Prop({
+    enum: Object.values(UserFeedType),
+    required: false,
+  })
+  feedType?: UserFeedType;
+
+  @Prop({
+    required: false,
+    schema: UserFeedHtmlScrapeOptionsSchema,
+  })
+  htmlScrapeOptions?: UserFeedHtmlScrapeOptions;
+
   @Prop({
     enum: Object.values(UserFeedDisabledCode),
     required: false,
@@ -84,6 +128,16 @@ export class UserFeed {
   })
   user: UserFeedUser;
 
+  /**
+   * The workspace that owns this feed. Feeds within a workspace count towards the pooled limits
+   * of the workspace instead of the limits of the user who created them.
+   */
+  @Prop({
+    required: false,
+    type: MongooseSchema.Types.ObjectId,
+  })
+  workspaceId?: Types.ObjectId;
+
   @Prop({
     required: false,
     schema: UserFeedFormatOptionsSchema,
@@ -96,12 +150,62 @@ export class UserFeed {
   })
   dateCheckOptions?: UserFeedDateCheckOptions;
 
+  @Prop({
+    required: false,
+    schema: UserFeedJsonOptionsSchema,
+  })
+  jsonOptions?: UserFeedJsonOptions;
+
+  @Prop({
+    required: false,
+    schema: UserFeedEditTrackingOptionsSchema,
+  })
+  editTracking?: UserFeedEditTrackingOptions;
+
+  /**
+   * Overrides the automatically resolved article IDs. Stored articles are reset whenever this
+   * changes so that existing articles are not delivered again.
+   */
+  @Prop({
+    required: false,
+    schema: UserFeedArticleIdOptionsSchema,
+  })
+  articleIdOptions?: UserFeedArticleIdOptions;
+
+  /**
+   * Credentials sent with every request of the feed. Feeds with credentials are requested with
+   * their own lookup key.
+   */
+  @Prop({
+    required: false,
+    schema: UserFeedCredentialProfileSchema,
+  })
+  credentialProfile?: UserFeedCredentialProfile;
+
+  /**
+   * Whether delivered Discord messages should be deleted once their articles are removed from
+   * the feed
+   */
+  @Prop({
+    required: false,
+  })
+  retractRemovedArticles?: boolean;
+
   @Prop({
     schema: UserFeedShareManageOptionsSchema,
     required: false,
   })
   shareManageOptions?: UserFeedShareManageOptions;
 
+  /**
+   * Overrides the alert settings in the preferences of the feed owner
+   */
+  @Prop({
+    schema: AlertSettingsSchema,
+    required: false,
+  })
+  alertSettings?: AlertSettings;
+
   @Prop({
     required: false,
     type: MongooseSchema.Types.ObjectId,
@@ -123,6 +227,21 @@ export class UserFeed {
   })
   userRefreshRateSeconds?: number;
 
+  /**
+   * Overrides the refresh rate when the feed publishes much more or less often than it is
+   * fetched. Derived from publishCadence.
+   */
+  @Prop({
+    required: false,
+  })
+  adaptiveRefreshRateSeconds?: number;
+
+  @Prop({
+    required: false,
+    schema: UserFeedPublishCadenceSchema,
+  })
+  publishCadence?: UserFeedPublishCadence;
+
   @Prop({
     required: false,
   })
@@ -169,7 +288,22 @@ UserFeedSchema.index({
   url: 1,
 });
 
+UserFeedSchema.index(
+  {
+    workspaceId: 1,
+  },
+  {
+    sparse: true,
+  }
+);
+
+UserFeedSchema.index({
+  userRefreshRateSeconds: 1,
+  refreshRateSeconds: 1,
+});
+
 UserFeedSchema.index({
+  adaptiveRefreshRateSeconds: 1,
   userRefreshRateSeconds: 1,
   refreshRateSeconds: 1,
 });
@@ -3,3 +3,5 @@ export * from "./unuspported-bulk-op.exception";
 export * from "./ineligible-for-restoration.exception";
 export * from "./no-permission.exception";
 export * from "./manual-request-too-soon.exception";
+export * from "./invalid-opml.exception";
+export * from "./feed-credentials-unavailable.exception";
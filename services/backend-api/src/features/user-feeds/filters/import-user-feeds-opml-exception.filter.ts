@@ -0,0 +1,18 @@
+import { Catch, HttpStatus } from "@nestjs/common";
+import { ApiErrorCode } from "../../../common/constants/api-errors";
+import { StandardException } from "../../../common/exceptions/standard-exception.exception";
+import { StandardBaseExceptionFilter } from "../../../common/filters/standard-exception-filter";
+import { InvalidOpmlException } from "../exceptions";
+
+const ERROR_CODES: Record<string, { status: HttpStatus; code: ApiErrorCode }> =
+  {
+    [InvalidOpmlException.name]: {
+      status: HttpStatus.BAD_REQUEST,
+      code: ApiErrorCode.INVALID_OPML,
+    },
+  };
+
+@Catch(StandardException)
+export class ImportUserFeedsOpmlExceptionFilter extends StandardBaseExceptionFilter {
+  exceptions = ERROR_CODES;
+}
@@ -1,3 +1,5 @@
 export * from "./retry-user-feed-exception.filter";
 export * from "./create-user-feed-management-invite-exception.filter";
 export * from "./get-user-feed-articles.exception.filter";
+export * from "./update-delivery-log-message-exception.filter";
+export * from "./import-user-feeds-opml-exception.filter";
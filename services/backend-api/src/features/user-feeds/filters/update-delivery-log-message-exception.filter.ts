@@ -0,0 +1,23 @@
+import { Catch, HttpStatus } from "@nestjs/common";
+import { ApiErrorCode } from "../../../common/constants/api-errors";
+import { StandardException } from "../../../common/exceptions/standard-exception.exception";
+import { StandardBaseExceptionFilter } from "../../../common/filters/standard-exception-filter";
+import { DeliveryMessageNotFoundException } from "../../../services/feed-fetcher/exceptions";
+import { FeedConnectionNotFoundException } from "../../feed-connections/exceptions";
+
+const ERROR_CODES: Record<string, { status: HttpStatus; code: ApiErrorCode }> =
+  {
+    [FeedConnectionNotFoundException.name]: {
+      status: HttpStatus.NOT_FOUND,
+      code: ApiErrorCode.FEED_CONNECTION_NOT_FOUND,
+    },
+    [DeliveryMessageNotFoundException.name]: {
+      status: HttpStatus.NOT_FOUND,
+      code: ApiErrorCode.DELIVERY_MESSAGE_NOT_FOUND,
+    },
+  };
+
+@Catch(StandardException)
+export class UpdateDeliveryLogMessageExceptionFilter extends StandardBaseExceptionFilter {
+  exceptions = ERROR_CODES;
+}
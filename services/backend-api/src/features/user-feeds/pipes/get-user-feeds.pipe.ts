@@ -1,4 +1,5 @@
 import {
+  ForbiddenException,
   forwardRef,
   Inject,
   mixin,
@@ -14,28 +15,50 @@ import { getAccessTokenFromRequest } from "../../discord-auth/utils/get-access-t
 import { memoize } from "lodash";
 import { NoPermissionException } from "../exceptions";
 import {
+  UserFeedManagerRole,
   UserFeedManagerStatus,
   UserFeedManagerType,
 } from "../../user-feed-management-invites/constants";
+import { hasSharedManagerRole } from "../../user-feed-management-invites/utils";
 import { InjectModel } from "@nestjs/mongoose";
 import { UserFeed, UserFeedModel } from "../entities";
 import { ConfigService } from "@nestjs/config";
 import { UserFeedConnection } from "../types";
 import { SupportersService } from "../../supporters/supporters.service";
+import { WorkspacesService } from "../../workspaces/workspaces.service";
+import { WorkspaceMemberRole } from "../../workspaces/constants";
 
 interface PipeOptions {
-  userTypes: UserFeedManagerType[];
+  userTypes?: UserFeedManagerType[];
+  /**
+   * The minimum role that shared managers must have. Defaults to admin.
+   */
+  sharedManagerRole?: UserFeedManagerRole;
 }
 
 export type GetUserFeedsPipeOutput = Array<{
   feed: UserFeed;
+  /**
+   * Undefined if the user is the owner of the feed
+   */
+  sharedManagerRole?: UserFeedManagerRole;
 }>;
 
-const createGetUserFeedsPipe = (
-  { userTypes }: PipeOptions = {
-    userTypes: [UserFeedManagerType.Creator, UserFeedManagerType.SharedManager],
-  }
-): Type<PipeTransform> => {
+/**
+ * Workspace owners and admins are treated as the creators of workspace feeds, while the
+ * remaining roles are treated as shared managers
+ */
+const WORKSPACE_SHARED_MANAGER_ROLES: Partial<
+  Record<WorkspaceMemberRole, UserFeedManagerRole>
+> = {
+  [WorkspaceMemberRole.Editor]: UserFeedManagerRole.Editor,
+  [WorkspaceMemberRole.Viewer]: UserFeedManagerRole.Viewer,
+};
+
+const createGetUserFeedsPipe = ({
+  userTypes = [UserFeedManagerType.Creator, UserFeedManagerType.SharedManager],
+  sharedManagerRole: requiredSharedManagerRole = UserFeedManagerRole.Admin,
+}: PipeOptions = {}): Type<PipeTransform> => {
   class GetUserFeedsPipe implements PipeTransform {
     constructor(
       @InjectModel(UserFeed.name)
@@ -43,7 +66,8 @@ const createGetUserFeedsPipe = (
       @Inject(forwardRef(() => REQUEST))
       private readonly request: FastifyRequest,
       private readonly configService: ConfigService,
-      private readonly supportersService: SupportersService
+      private readonly supportersService: SupportersService,
+      private readonly workspacesService: WorkspacesService
     ) {}
 
     async transform(
@@ -71,12 +95,31 @@ const createGetUserFeedsPipe = (
         })
         .lean();
 
+      const workspaceRoles = await this.workspacesService.getMemberRolesOfUser(
+        allFound
+          .map((found) => found.workspaceId)
+          .filter((id): id is Types.ObjectId => !!id),
+        accessToken.discord.id
+      );
+
       const filtered = (
         await Promise.all(
           allFound.map(async (found) => {
+            const workspaceRole = found.workspaceId
+              ? workspaceRoles.get(found.workspaceId.toHexString())
+              : undefined;
+
+            const isCreator = found.workspaceId
+              ? workspaceRole === WorkspaceMemberRole.Owner ||
+                workspaceRole === WorkspaceMemberRole.Admin
+              : found.user.discordUserId === accessToken.discord.id;
+
             const allowOwner =
-              userTypes.includes(UserFeedManagerType.Creator) &&
-              found?.user.discordUserId === accessToken.discord.id;
+              userTypes.includes(UserFeedManagerType.Creator) && isCreator;
+
+            const workspaceSharedManagerRole = workspaceRole
+              ? WORKSPACE_SHARED_MANAGER_ROLES[workspaceRole]
+              : undefined;
 
             const sharedManagerInvite =
               found?.shareManageOptions?.invites?.find(
@@ -87,9 +130,13 @@ const createGetUserFeedsPipe = (
 
             const allowSharedManager =
               userTypes.includes(UserFeedManagerType.SharedManager) &&
-              !!sharedManagerInvite;
+              (!!sharedManagerInvite || !!workspaceSharedManagerRole);
 
-            if (sharedManagerInvite && !allowSharedManager) {
+            if (
+              (sharedManagerInvite || workspaceSharedManagerRole) &&
+              !allowSharedManager &&
+              !allowOwner
+            ) {
               throw new NoPermissionException();
             }
 
@@ -97,6 +144,23 @@ const createGetUserFeedsPipe = (
               return null;
             }
 
+            const sharedManagerRole = allowOwner
+              ? undefined
+              : workspaceSharedManagerRole ||
+                sharedManagerInvite?.role ||
+                UserFeedManagerRole.Admin;
+
+            if (
+              !hasSharedManagerRole(
+                sharedManagerRole,
+                requiredSharedManagerRole
+              )
+            ) {
+              throw new ForbiddenException(
+                `The ${sharedManagerRole} role is not allowed to perform this action`
+              );
+            }
+
             const filteredConnections = found.connections;
             const sharedManagerConnectionIds =
               sharedManagerInvite?.connections?.map((c) => c.connectionId);
@@ -119,23 +183,24 @@ const createGetUserFeedsPipe = (
             }
 
             return {
-              ...found,
-              allowLegacyReversion:
-                !!this.configService.get(
-                  "BACKEND_API_ALLOW_LEGACY_REVERSION"
-                ) || found.allowLegacyReversion,
+              feed: {
+                ...found,
+                allowLegacyReversion:
+                  !!this.configService.get(
+                    "BACKEND_API_ALLOW_LEGACY_REVERSION"
+                  ) || found.allowLegacyReversion,
+              },
+              sharedManagerRole,
             };
           })
         )
-      ).filter((f) => !!f) as UserFeed[];
+      ).filter((f) => !!f) as GetUserFeedsPipeOutput;
 
       if (filtered.length !== feedIds.length) {
         throw new NotFoundException(`Some or all feeds do not exist`);
       }
 
-      return filtered.map((feed) => ({
-        feed,
-      }));
+      return filtered;
     }
   }
 
@@ -1,6 +1,15 @@
-import { CustomPlaceholderDto } from "../../../common";
+import {
+  CustomPlaceholderDto,
+  UserFeedHtmlScrapeOptions,
+} from "../../../common";
+import { FeedRequestLookupDetails } from "../../../services/feed-handler/types";
 
 export interface GetFeedArticlePropertiesInput {
   url: string;
   customPlaceholders?: CustomPlaceholderDto[] | null;
+  jsonOptions?: {
+    itemsPath?: string | null;
+  } | null;
+  htmlScrapeOptions?: UserFeedHtmlScrapeOptions | null;
+  requestLookupDetails?: FeedRequestLookupDetails | null;
 }
@@ -1,4 +1,8 @@
-import { CustomPlaceholderDto } from "../../../common";
+import {
+  CustomPlaceholderDto,
+  UserFeedHtmlScrapeOptions,
+} from "../../../common";
+import { FeedRequestLookupDetails } from "../../../services/feed-handler/types";
 import { GetFeedArticlesFilterReturnType } from "../constants";
 
 export interface GetFeedArticlesInput {
@@ -8,6 +12,11 @@ export interface GetFeedArticlesInput {
   selectProperties?: string[];
   skip?: number;
   discordUserId: string;
+  jsonOptions?: {
+    itemsPath?: string | null;
+  } | null;
+  htmlScrapeOptions?: UserFeedHtmlScrapeOptions | null;
+  requestLookupDetails?: FeedRequestLookupDetails | null;
   filters?: {
     returnType: GetFeedArticlesFilterReturnType.IncludeEvaluationResults;
     expression?: Record<string, unknown>;
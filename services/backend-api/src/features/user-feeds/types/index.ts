@@ -1,8 +1,14 @@
 export * from "./user-feed-health-status.type";
+export * from "./user-feed-activity-level.type";
 export * from "./user-feed-disabled-code.type";
+export * from "./user-feed-type.type";
+export * from "./user-feed-edit-tracking-mode.type";
 export * from "./get-feed-articles-input.type";
 export * from "./get-feed-articles-output.type";
 export * from "../constants/get-feed-articles-filter-return-type.type";
 export * from "./get-feed-article-properties-input.type";
 export * from "./get-feed-article-properties-output.type";
 export * from "./user-feed-connection.type";
+export * from "./user-feed-opml-import-failure-reason.type";
+export * from "./user-feed-article-id-type.type";
+export * from "./user-feed-credential-profile-type.type";
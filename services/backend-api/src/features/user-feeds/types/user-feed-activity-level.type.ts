@@ -0,0 +1,6 @@
+export enum UserFeedActivityLevel {
+  Busy = "busy",
+  Normal = "normal",
+  Idle = "idle",
+  Dormant = "dormant",
+}
@@ -0,0 +1,14 @@
+export enum UserFeedArticleIdType {
+  /**
+   * Use the value of a single field of the raw article, such as guid or link
+   */
+  Field = "field",
+  /**
+   * Join the values of one or more placeholders of the flattened article
+   */
+  Placeholders = "placeholders",
+  /**
+   * Use the article link with tracking query parameters and fragments removed
+   */
+  NormalizedLink = "normalized-link",
+}
@@ -0,0 +1,18 @@
+export enum UserFeedCredentialProfileType {
+  /**
+   * Sends the username and password in the Authorization header
+   */
+  HttpBasic = "http-basic",
+  /**
+   * Sends the token in the Authorization header
+   */
+  BearerToken = "bearer-token",
+  /**
+   * Sends the value as the Cookie header
+   */
+  Cookie = "cookie",
+  /**
+   * Sends the value in a header of the given name
+   */
+  CustomHeader = "custom-header",
+}
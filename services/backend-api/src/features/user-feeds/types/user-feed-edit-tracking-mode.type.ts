@@ -0,0 +1,10 @@
+export enum UserFeedEditTrackingMode {
+  /**
+   * Edit the originally sent Discord message, falling back to a follow-up if it cannot be edited
+   */
+  Edit = "edit",
+  /**
+   * Send a new message using the edit tracking template
+   */
+  FollowUp = "follow-up",
+}
@@ -0,0 +1,9 @@
+export enum UserFeedOpmlImportFailureReason {
+  AlreadyExists = "ALREADY_EXISTS",
+  BannedFeed = "BANNED_FEED",
+  ExceededFeedLimit = "EXCEEDED_FEED_LIMIT",
+  FailedRequest = "FAILED_REQUEST",
+  FeedTooLarge = "FEED_TOO_LARGE",
+  Internal = "INTERNAL",
+  InvalidFeed = "INVALID_FEED",
+}
@@ -0,0 +1,10 @@
+export enum UserFeedType {
+  /**
+   * RSS, Atom or JSON feeds
+   */
+  Feed = "FEED",
+  /**
+   * Regular web pages that are scraped into articles with CSS selectors
+   */
+  HtmlPage = "HTML_PAGE",
+}
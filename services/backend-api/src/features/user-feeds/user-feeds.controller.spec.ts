@@ -21,6 +21,12 @@ describe("UserFeedsController", () => {
   const supportersService = {
     getBenefitsOfDiscordUser: jest.fn(),
   };
+  const workspacesService = {
+    getWorkspaceOfMember: jest.fn(),
+  };
+  const notificationsService = {
+    formatAlertSettingsForSave: jest.fn(),
+  };
   const discordUserId = "discord-user-id";
   const feed = {
     title: "title",
@@ -76,7 +82,9 @@ describe("UserFeedsController", () => {
     });
     controller = new UserFeedsController(
       userFeedsService as never,
-      supportersService as never
+      supportersService as never,
+      workspacesService as never,
+      notificationsService as never
     );
   });
 
@@ -7,6 +7,7 @@ import {
   Get,
   HttpCode,
   HttpStatus,
+  NotFoundException,
   Param,
   Patch,
   Post,
@@ -29,13 +30,25 @@ import {
   UpdateUserFeedsExceptionFilter,
 } from "../feeds/filters";
 import { SupportersService } from "../supporters/supporters.service";
-import { UserFeedManagerType } from "../user-feed-management-invites/constants";
 import {
+  UserFeedManagerRole,
+  UserFeedManagerType,
+} from "../user-feed-management-invites/constants";
+import { hasSharedManagerRole } from "../user-feed-management-invites/utils";
+import { NotificationsService } from "../notifications/notifications.service";
+import { AuditActor } from "../user-feed-audit-logs/decorators";
+import { UserFeedAuditActor } from "../user-feed-audit-logs/types";
+import {
+  CreateUserFeedArticleIdPreviewInputDto,
+  CreateUserFeedArticleIdPreviewOutputDto,
   CreateUserFeedCloneInput,
   CreateUserFeedInputDto,
+  CreateUserFeedsOpmlImportInputDto,
   GetUserFeedArticlePropertiesInputDto,
   GetUserFeedArticlePropertiesOutputDto,
   GetUserFeedArticlesInputDto,
+  GetUserFeedAnalyticsInputDto,
+  GetUserFeedAuditLogInputDto,
   GetUserFeedDailyLimitOutputDto,
   GetUserFeedDeliveryLogsInputDto,
   GetUserFeedOutputDto,
@@ -43,6 +56,7 @@ import {
   GetUserFeedRequestsOutputDto,
   GetUserFeedsInputDto,
   GetUserFeedsOutputDto,
+  UpdateDeliveryLogMessageInputDto,
   UpdateUserFeedInputDto,
   UpdateUserFeedOutputDto,
   UpdateUserFeedsInput,
@@ -57,12 +71,18 @@ import {
 } from "./exceptions";
 import {
   GetUserFeedArticlesExceptionFilter,
+  ImportUserFeedsOpmlExceptionFilter,
   RetryUserFeedFilter,
+  UpdateDeliveryLogMessageExceptionFilter,
 } from "./filters";
 import { RestoreLegacyUserFeedExceptionFilter } from "./filters/restore-legacy-user-feed-exception.filter";
 import { GetUserFeedsPipe, GetUserFeedsPipeOutput } from "./pipes";
 import { GetFeedArticlePropertiesInput, GetFeedArticlesInput } from "./types";
+import { getUserFeedHtmlScrapeOptions } from "./utils";
 import { UserFeedsService } from "./user-feeds.service";
+import { WorkspacesService } from "../workspaces/workspaces.service";
+import { WorkspaceMemberRole } from "../workspaces/constants";
+import { hasWorkspaceMemberRole } from "../workspaces/utils";
 import {
   GetUserFromAccessTokenOutput,
   GetUserFromAccessTokenPipe,
@@ -73,17 +93,33 @@ import {
 export class UserFeedsController {
   constructor(
     private readonly userFeedsService: UserFeedsService,
-    private readonly supportersService: SupportersService
+    private readonly supportersService: SupportersService,
+    private readonly workspacesService: WorkspacesService,
+    private readonly notificationsService: NotificationsService
   ) {}
 
   @Post()
   @UseFilters(FeedExceptionFilter)
   async createFeed(
     @Body(ValidationPipe)
-    { title, url }: CreateUserFeedInputDto,
+    {
+      title,
+      url,
+      feedType,
+      htmlScrapeOptions,
+      workspaceId,
+    }: CreateUserFeedInputDto,
     @DiscordAccessToken()
     { discord: { id: discordUserId } }: SessionAccessToken
   ): Promise<GetUserFeedOutputDto> {
+    const workspace = workspaceId
+      ? await this.getWorkspaceOfMember(
+          workspaceId,
+          discordUserId,
+          WorkspaceMemberRole.Admin
+        )
+      : undefined;
+
     const result = await this.userFeedsService.addFeed(
       {
         discordUserId,
@@ -91,6 +127,9 @@ export class UserFeedsController {
       {
         title,
         url,
+        feedType,
+        htmlScrapeOptions,
+        workspaceId: workspace?._id,
       }
     );
 
@@ -108,12 +147,13 @@ export class UserFeedsController {
       }),
       GetUserFeedsPipe()
     )
-    feeds: GetUserFeedsPipeOutput
+    feeds: GetUserFeedsPipeOutput,
+    @AuditActor() actor: UserFeedAuditActor
   ) {
     const useFeedIds = feeds.map(({ feed }) => feed._id.toHexString());
 
     if (input.op === UpdateUserFeedsOp.BulkDelete) {
-      const results = await this.userFeedsService.bulkDelete(useFeedIds);
+      const results = await this.userFeedsService.bulkDelete(useFeedIds, actor);
 
       return {
         results,
@@ -141,9 +181,47 @@ export class UserFeedsController {
     );
   }
 
+  @Post("/import/opml")
+  @UseFilters(ImportUserFeedsOpmlExceptionFilter)
+  async importOpml(
+    @Body(ValidationPipe) { opml }: CreateUserFeedsOpmlImportInputDto,
+    @DiscordAccessToken()
+    { discord: { id: discordUserId } }: SessionAccessToken
+  ) {
+    const results = await this.userFeedsService.importOpml(
+      {
+        discordUserId,
+      },
+      opml
+    );
+
+    return {
+      results,
+    };
+  }
+
+  @Get("/export/opml")
+  async exportOpml(
+    @Res() res: FastifyReply,
+    @DiscordAccessToken()
+    { discord: { id: discordUserId } }: SessionAccessToken
+  ) {
+    const opml = await this.userFeedsService.exportOpml({
+      discordUserId,
+    });
+
+    return res
+      .header("Content-Type", "text/x-opml; charset=utf-8")
+      .header("Content-Disposition", 'attachment; filename="feeds.opml"')
+      .send(opml);
+  }
+
   @Get("/:feedId")
   async getFeed(
-    @Param("feedId", GetUserFeedsPipe())
+    @Param(
+      "feedId",
+      GetUserFeedsPipe({ sharedManagerRole: UserFeedManagerRole.Viewer })
+    )
     [{ feed }]: GetUserFeedsPipeOutput,
     @DiscordAccessToken()
     { discord: { id: discordUserId } }: SessionAccessToken
@@ -202,7 +280,10 @@ export class UserFeedsController {
 
   @Get("/:feed/requests")
   async getFeedRequests(
-    @Param("feed", GetUserFeedsPipe())
+    @Param(
+      "feed",
+      GetUserFeedsPipe({ sharedManagerRole: UserFeedManagerRole.Viewer })
+    )
     [{ feed }]: GetUserFeedsPipeOutput,
     @NestedQuery(TransformValidationPipe)
     { limit, skip }: GetUserFeedRequestsInputDto
@@ -218,7 +299,10 @@ export class UserFeedsController {
 
   @Get("/:feed/delivery-logs")
   async getFeedDeliveryLogs(
-    @Param("feed", GetUserFeedsPipe())
+    @Param(
+      "feed",
+      GetUserFeedsPipe({ sharedManagerRole: UserFeedManagerRole.Viewer })
+    )
     [{ feed }]: GetUserFeedsPipeOutput,
     @NestedQuery(TransformValidationPipe)
     { limit, skip }: GetUserFeedDeliveryLogsInputDto
@@ -234,10 +318,96 @@ export class UserFeedsController {
     return result;
   }
 
+  @Get("/:feed/analytics")
+  async getFeedAnalytics(
+    @Param(
+      "feed",
+      GetUserFeedsPipe({ sharedManagerRole: UserFeedManagerRole.Viewer })
+    )
+    [{ feed }]: GetUserFeedsPipeOutput,
+    @NestedQuery(TransformValidationPipe)
+    { startDate, endDate, interval }: GetUserFeedAnalyticsInputDto
+  ) {
+    if (startDate && endDate && startDate >= endDate) {
+      throw new BadRequestException("Start date must be before the end date");
+    }
+
+    return this.userFeedsService.getDeliveryAnalytics(feed._id.toHexString(), {
+      startDate,
+      endDate,
+      interval,
+    });
+  }
+
+  @Get("/:feed/audit-log")
+  async getFeedAuditLog(
+    @Param(
+      "feed",
+      GetUserFeedsPipe({ sharedManagerRole: UserFeedManagerRole.Viewer })
+    )
+    [{ feed }]: GetUserFeedsPipeOutput,
+    @NestedQuery(TransformValidationPipe)
+    { limit, skip }: GetUserFeedAuditLogInputDto
+  ) {
+    const entries = await this.userFeedsService.getAuditLog(
+      feed._id.toHexString(),
+      {
+        limit,
+        skip,
+      }
+    );
+
+    return {
+      result: {
+        entries,
+      },
+    };
+  }
+
+  @Delete("/:feed/delivery-logs/:deliveryId/message")
+  @UseFilters(UpdateDeliveryLogMessageExceptionFilter)
+  async deleteDeliveryLogMessage(
+    @Param("feed", GetUserFeedsPipe())
+    [{ feed }]: GetUserFeedsPipeOutput,
+    @Param("deliveryId") deliveryId: string,
+    @NestedQuery(TransformValidationPipe)
+    { connectionId }: UpdateDeliveryLogMessageInputDto
+  ) {
+    return this.userFeedsService.deleteDeliveryMessage(feed, {
+      deliveryId,
+      connectionId,
+    });
+  }
+
+  @Post("/:feed/delivery-logs/:deliveryId/re-render")
+  @UseFilters(UpdateDeliveryLogMessageExceptionFilter)
+  async rerenderDeliveryLogMessage(
+    @Param(
+      "feed",
+      GetUserFeedsPipe({ sharedManagerRole: UserFeedManagerRole.Editor })
+    )
+    [{ feed }]: GetUserFeedsPipeOutput,
+    @Param("deliveryId") deliveryId: string,
+    @Body(TransformValidationPipe)
+    { connectionId }: UpdateDeliveryLogMessageInputDto
+  ) {
+    const result = await this.userFeedsService.rerenderDeliveryMessage(feed, {
+      deliveryId,
+      connectionId,
+    });
+
+    return {
+      result,
+    };
+  }
+
   @Post("/:feedId/get-article-properties")
   @UseFilters(GetUserFeedArticlesExceptionFilter)
   async getArticleProperties(
-    @Param("feedId", GetUserFeedsPipe())
+    @Param(
+      "feedId",
+      GetUserFeedsPipe({ sharedManagerRole: UserFeedManagerRole.Viewer })
+    )
     [{ feed }]: GetUserFeedsPipeOutput,
     @Body(TransformValidationPipe)
     { customPlaceholders }: GetUserFeedArticlePropertiesInputDto
@@ -245,6 +415,9 @@ export class UserFeedsController {
     const input: GetFeedArticlePropertiesInput = {
       url: feed.url,
       customPlaceholders,
+      jsonOptions: feed.jsonOptions,
+      htmlScrapeOptions: getUserFeedHtmlScrapeOptions(feed),
+      requestLookupDetails: this.userFeedsService.getRequestLookupDetails(feed),
     };
 
     const { properties, requestStatus } =
@@ -258,6 +431,28 @@ export class UserFeedsController {
     };
   }
 
+  @Post("/:feedId/article-id-preview")
+  @UseFilters(GetUserFeedArticlesExceptionFilter)
+  @HttpCode(HttpStatus.OK)
+  async createArticleIdPreview(
+    @Param(
+      "feedId",
+      GetUserFeedsPipe({ sharedManagerRole: UserFeedManagerRole.Editor })
+    )
+    [{ feed }]: GetUserFeedsPipeOutput,
+    @Body(ValidationPipe)
+    { articleIdOptions }: CreateUserFeedArticleIdPreviewInputDto
+  ): Promise<CreateUserFeedArticleIdPreviewOutputDto> {
+    const result = await this.userFeedsService.createArticleIdPreview(
+      feed,
+      articleIdOptions
+    );
+
+    return {
+      result,
+    };
+  }
+
   @Post("/:feedId/get-articles")
   @UseFilters(GetUserFeedArticlesExceptionFilter)
   @HttpCode(HttpStatus.OK)
@@ -271,7 +466,10 @@ export class UserFeedsController {
       skip,
       formatter: { articleInjections, ...formatter },
     }: GetUserFeedArticlesInputDto,
-    @Param("feedId", GetUserFeedsPipe())
+    @Param(
+      "feedId",
+      GetUserFeedsPipe({ sharedManagerRole: UserFeedManagerRole.Viewer })
+    )
     [{ feed }]: GetUserFeedsPipeOutput,
     @DiscordAccessToken(GetUserFromAccessTokenPipe)
     { user }: GetUserFromAccessTokenOutput
@@ -284,6 +482,9 @@ export class UserFeedsController {
       discordUserId: feed.user.discordUserId,
       selectProperties,
       skip,
+      jsonOptions: feed.jsonOptions,
+      htmlScrapeOptions: getUserFeedHtmlScrapeOptions(feed),
+      requestLookupDetails: this.userFeedsService.getRequestLookupDetails(feed),
       formatter: {
         ...formatter,
         articleInjections: user.featureFlags?.articleInjections
@@ -341,7 +542,10 @@ export class UserFeedsController {
   @UseFilters(RetryUserFeedFilter, FeedExceptionFilter)
   async createManualRequest(
     @Res() res: FastifyReply,
-    @Param("feedId", GetUserFeedsPipe())
+    @Param(
+      "feedId",
+      GetUserFeedsPipe({ sharedManagerRole: UserFeedManagerRole.Editor })
+    )
     [{ feed }]: GetUserFeedsPipeOutput
   ) {
     try {
@@ -371,7 +575,10 @@ export class UserFeedsController {
 
   @Get("/:feedId/daily-limit")
   async getDailyLimit(
-    @Param("feedId", GetUserFeedsPipe())
+    @Param(
+      "feedId",
+      GetUserFeedsPipe({ sharedManagerRole: UserFeedManagerRole.Viewer })
+    )
     [{ feed }]: GetUserFeedsPipeOutput
   ): Promise<GetUserFeedDailyLimitOutputDto> {
     const limit = await this.userFeedsService.getFeedDailyLimit(feed);
@@ -387,8 +594,11 @@ export class UserFeedsController {
   @Patch("/:feedId")
   @UseFilters(FeedExceptionFilter)
   async updateFeed(
-    @Param("feedId", GetUserFeedsPipe())
-    [{ feed }]: GetUserFeedsPipeOutput,
+    @Param(
+      "feedId",
+      GetUserFeedsPipe({ sharedManagerRole: UserFeedManagerRole.Editor })
+    )
+    [{ feed, sharedManagerRole }]: GetUserFeedsPipeOutput,
     @Body(ValidationPipe)
     {
       title,
@@ -398,16 +608,47 @@ export class UserFeedsController {
       blockingComparisons,
       formatOptions,
       dateCheckOptions,
+      jsonOptions,
+      htmlScrapeOptions,
+      editTracking,
+      articleIdOptions,
+      credentialProfile,
+      retractRemovedArticles,
       shareManageOptions,
       userRefreshRateSeconds,
+      alertSettings,
     }: UpdateUserFeedInputDto,
     @DiscordAccessToken()
-    { discord: { id: discordUserId } }: SessionAccessToken
+    accessToken: SessionAccessToken,
+    @AuditActor() actor: UserFeedAuditActor
   ): Promise<UpdateUserFeedOutputDto> {
+    const discordUserId = accessToken.discord.id;
+
+    if (
+      !hasSharedManagerRole(sharedManagerRole, UserFeedManagerRole.Admin) &&
+      (url ||
+        disabledCode !== undefined ||
+        shareManageOptions ||
+        credentialProfile !== undefined)
+    ) {
+      throw new ForbiddenException(
+        "Only admins may change the URL, status, sharing options or credentials of a feed"
+      );
+    }
+
     if (disabledCode && feed.disabledCode) {
       throw new ForbiddenException("Feed is already disabled");
     }
 
+    const alertSettingsToSave = alertSettings
+      ? await this.notificationsService.formatAlertSettingsForSave(
+          alertSettings,
+          {
+            accessToken,
+          }
+        )
+      : alertSettings;
+
     const updated = (await this.userFeedsService.updateFeedById(
       feed._id.toHexString(),
       {
@@ -418,9 +659,17 @@ export class UserFeedsController {
         blockingComparisons,
         formatOptions,
         dateCheckOptions,
+        jsonOptions,
+        htmlScrapeOptions,
+        editTracking,
+        articleIdOptions,
+        credentialProfile,
+        retractRemovedArticles,
         shareManageOptions,
         userRefreshRateSeconds,
-      }
+        alertSettings: alertSettingsToSave,
+      },
+      actor
     )) as UserFeed;
 
     return this.userFeedsService.formatForHttpResponse(updated, discordUserId);
@@ -452,6 +701,14 @@ export class UserFeedsController {
     @NestedQuery(TransformValidationPipe)
     dto: GetUserFeedsInputDto
   ): Promise<GetUserFeedsOutputDto> {
+    if (dto.workspaceId) {
+      await this.getWorkspaceOfMember(
+        dto.workspaceId,
+        discordUserId,
+        WorkspaceMemberRole.Viewer
+      );
+    }
+
     const [feeds, count] = await Promise.all([
       this.userFeedsService.getFeedsByUser(discordUserId, dto),
       this.userFeedsService.getFeedCountByUser(discordUserId, dto),
@@ -468,6 +725,7 @@ export class UserFeedsController {
         computedStatus: feed.computedStatus,
         isLegacyFeed: !!feed.legacyFeedId,
         ownedByUser: feed.ownedByUser,
+        workspaceId: feed.workspaceId?.toHexString(),
       })),
       total: count,
     };
@@ -482,8 +740,32 @@ export class UserFeedsController {
         userTypes: [UserFeedManagerType.Creator],
       })
     )
-    [{ feed }]: GetUserFeedsPipeOutput
+    [{ feed }]: GetUserFeedsPipeOutput,
+    @AuditActor() actor: UserFeedAuditActor
   ) {
-    await this.userFeedsService.deleteFeedById(feed._id.toHexString());
+    await this.userFeedsService.deleteFeedById(feed._id.toHexString(), actor);
+  }
+
+  private async getWorkspaceOfMember(
+    workspaceId: string,
+    discordUserId: string,
+    requiredRole: WorkspaceMemberRole
+  ) {
+    const found = await this.workspacesService.getWorkspaceOfMember({
+      workspaceId,
+      discordUserId,
+    });
+
+    if (!found) {
+      throw new NotFoundException(`Workspace ${workspaceId} does not exist`);
+    }
+
+    if (!hasWorkspaceMemberRole(found.role, requiredRole)) {
+      throw new ForbiddenException(
+        `The ${found.role} workspace role is not allowed to perform this action`
+      );
+    }
+
+    return found.workspace;
   }
 }
@@ -4,6 +4,7 @@ import { MongooseModule } from "@nestjs/mongoose";
 import { DiscordAuthModule } from "../discord-auth/discord-auth.module";
 import { FeedFetcherModule } from "../../services/feed-fetcher/feed-fetcher.module";
 import { SupportersModule } from "../supporters/supporters.module";
+import { WorkspacesModule } from "../workspaces/workspaces.module";
 import { DiscordWebhooksModule } from "../discord-webhooks/discord-webhooks.module";
 import { DiscordApiModule } from "../../services/apis/discord/discord-api.module";
 import { UserFeedFeature } from "./entities";
@@ -19,6 +20,8 @@ import { LegacyFeedConversionJobFeature } from "../legacy-feed-conversion/entiti
 import { FeedConnectionsDiscordChannelsModule } from "../feed-connections/feed-connections-discord-channels.module";
 import { UserFeature } from "../users/entities/user.entity";
 import { UsersModule } from "../users/users.module";
+import { UserFeedAuditLogsModule } from "../user-feed-audit-logs/user-feed-audit-logs.module";
+import { NotificationsModule } from "../notifications/notifications.module";
 
 @Module({
   controllers: [UserFeedsController],
@@ -34,11 +37,14 @@ import { UsersModule } from "../users/users.module";
     ]),
     FeedFetcherModule,
     SupportersModule,
+    WorkspacesModule,
     DiscordWebhooksModule,
     DiscordApiModule,
     FeedsModule,
     SupportersModule,
     FeedHandlerModule,
+    UserFeedAuditLogsModule,
+    NotificationsModule,
   ],
   exports: [UserFeedsService, MongooseModule.forFeature([UserFeedFeature])],
 })
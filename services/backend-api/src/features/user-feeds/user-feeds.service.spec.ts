@@ -4,6 +4,7 @@ import { getModelToken, MongooseModule } from "@nestjs/mongoose";
 import dayjs from "dayjs";
 import { Types } from "mongoose";
 import { FeedFetcherApiService } from "../../services/feed-fetcher/feed-fetcher-api.service";
+import { UserFeedAuditLogsService } from "../user-feed-audit-logs/user-feed-audit-logs.service";
 import { FeedFetcherService } from "../../services/feed-fetcher/feed-fetcher.service";
 import { FeedHandlerService } from "../../services/feed-handler/feed-handler.service";
 import { GetArticlesResponseRequestStatus } from "../../services/feed-handler/types";
@@ -12,6 +13,7 @@ import {
   teardownIntegrationTests,
 } from "../../utils/integration-tests";
 import { MongooseTestModule } from "../../utils/mongoose-test.module";
+import { MessageBrokerQueue } from "../../common/constants/message-broker-queue.constants";
 import { FeedConnectionDisabledCode } from "../feeds/constants";
 import {
   DiscordChannelConnection,
@@ -36,6 +38,8 @@ import { UserFeed, UserFeedFeature, UserFeedModel } from "./entities";
 import { FeedNotFailedException } from "./exceptions/feed-not-failed.exception";
 import {
   GetFeedArticlesInput,
+  UserFeedArticleIdType,
+  UserFeedCredentialProfileType,
   UserFeedDisabledCode,
   UserFeedHealthStatus,
 } from "./types";
@@ -79,6 +83,7 @@ describe("UserFeedsService", () => {
   let feedFetcherService: FeedFetcherService;
   let feedsService: FeedsService;
   let feedHandlerService: FeedHandlerService;
+  let amqpConnection: AmqpConnection;
   const discordUserId = "discordUserId";
   const supportersService = {
     getBenefitsOfDiscordUser: jest.fn(),
@@ -105,6 +110,12 @@ describe("UserFeedsService", () => {
             getRequests: jest.fn(),
           },
         },
+        {
+          provide: UserFeedAuditLogsService,
+          useValue: {
+            recordDocumentChanges: jest.fn(),
+          },
+        },
       ],
       imports: [
         MongooseTestModule.forRoot(),
@@ -146,6 +157,7 @@ describe("UserFeedsService", () => {
     feedFetcherService = module.get<FeedFetcherService>(FeedFetcherService);
     feedsService = module.get<FeedsService>(FeedsService);
     feedHandlerService = module.get<FeedHandlerService>(FeedHandlerService);
+    amqpConnection = module.get<AmqpConnection>(AmqpConnection);
   });
 
   afterEach(() => {
@@ -708,6 +720,74 @@ describe("UserFeedsService", () => {
       expect(found).not.toHaveProperty("disabledCode");
     });
 
+    it("resets stored article ids if the article id options change", async () => {
+      await service.updateFeedById(feed._id.toHexString(), {
+        articleIdOptions: {
+          type: UserFeedArticleIdType.NormalizedLink,
+        },
+      });
+
+      const found = await userFeedModel.findById(feed._id).lean();
+
+      expect(found?.articleIdOptions?.type).toEqual(
+        UserFeedArticleIdType.NormalizedLink
+      );
+      expect(amqpConnection.publish).toHaveBeenCalledWith(
+        "",
+        MessageBrokerQueue.FeedArticleIdsReset,
+        { data: { feed: { id: feed._id.toHexString() } } }
+      );
+    });
+
+    it("does not reset stored article ids if the article id options are unchanged", async () => {
+      await service.updateFeedById(feed._id.toHexString(), {
+        articleIdOptions: null,
+      });
+
+      expect(amqpConnection.publish).not.toHaveBeenCalled();
+    });
+
+    it("encrypts credential profiles and requests the feed on its own", async () => {
+      await service.updateFeedById(feed._id.toHexString(), {
+        credentialProfile: {
+          type: UserFeedCredentialProfileType.BearerToken,
+          secret: "token",
+        },
+      });
+
+      const found = await userFeedModel.findById(feed._id).lean();
+
+      expect(found?.credentialProfile?.type).toEqual(
+        UserFeedCredentialProfileType.BearerToken
+      );
+      expect(found?.credentialProfile?.encryptedSecret).not.toContain("token");
+      expect(found?.feedRequestLookupKey).toEqual(feed._id.toHexString());
+      expect(service.getRequestLookupDetails(found!)).toEqual({
+        key: feed._id.toHexString(),
+        headers: {
+          authorization: "Bearer token",
+        },
+      });
+    });
+
+    it("removes the lookup key along with the credential profile", async () => {
+      await service.updateFeedById(feed._id.toHexString(), {
+        credentialProfile: {
+          type: UserFeedCredentialProfileType.Cookie,
+          secret: "cookie",
+        },
+      });
+
+      await service.updateFeedById(feed._id.toHexString(), {
+        credentialProfile: null,
+      });
+
+      const found = await userFeedModel.findById(feed._id).lean();
+
+      expect(found).not.toHaveProperty("credentialProfile");
+      expect(found).not.toHaveProperty("feedRequestLookupKey");
+    });
+
     it("does not update anything if no updates are provided", async () => {
       const entity = await service.updateFeedById(feed._id.toHexString(), {});
 
@@ -1,6 +1,7 @@
 /* eslint-disable @typescript-eslint/no-non-null-assertion */
 /* eslint-disable max-len */
 import { Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
 import { InjectModel } from "@nestjs/mongoose";
 import { FeedFetcherService } from "../../services/feed-fetcher/feed-fetcher.service";
 import {
@@ -9,15 +10,19 @@ import {
 } from "../feeds/exceptions";
 import { FeedsService } from "../feeds/feeds.service";
 import { UserFeed, UserFeedDocument, UserFeedModel } from "./entities";
-import _, { chunk } from "lodash";
+import _, { chunk, isEqual } from "lodash";
 import { SupportersService } from "../supporters/supporters.service";
+import { WorkspacesService } from "../workspaces/workspaces.service";
 import {
   GetFeedArticlePropertiesInput,
   GetFeedArticlePropertiesOutput,
   GetFeedArticlesInput,
   GetFeedArticlesOutput,
+  UserFeedCredentialProfileType,
   UserFeedDisabledCode,
   UserFeedHealthStatus,
+  UserFeedOpmlImportFailureReason,
+  UserFeedType,
 } from "./types";
 import { FeedNotFailedException } from "./exceptions/feed-not-failed.exception";
 import { FeedHandlerService } from "../../services/feed-handler/feed-handler.service";
@@ -34,12 +39,14 @@ import {
   FeedConnectionTypeEntityKey,
 } from "../feeds/constants";
 import { UserFeedComputedStatus } from "./constants/user-feed-computed-status.type";
+import { UserFeedDeliveryAnalyticsInterval } from "./constants";
 import { Feed, FeedModel } from "../feeds/entities/feed.entity";
 import {
   UserFeedLimitOverride,
   UserFeedLimitOverrideModel,
 } from "../supporters/entities/user-feed-limit-overrides.entity";
 import {
+  FeedCredentialsUnavailableException,
   IneligibleForRestorationException,
   ManualRequestTooSoonException,
 } from "./exceptions";
@@ -47,14 +54,46 @@ import {
   LegacyFeedConversionJob,
   LegacyFeedConversionJobModel,
 } from "../legacy-feed-conversion/entities/legacy-feed-conversion-job.entity";
-import { UserFeedManagerStatus } from "../user-feed-management-invites/constants";
+import {
+  UserFeedManagerRole,
+  UserFeedManagerStatus,
+} from "../user-feed-management-invites/constants";
 import { FeedConnectionsDiscordChannelsService } from "../feed-connections/feed-connections-discord-channels.service";
+import { FeedConnectionNotFoundException } from "../feed-connections/exceptions";
 import dayjs from "dayjs";
 import { User, UserModel } from "../users/entities/user.entity";
 import { FeedFetcherFetchStatus } from "../../services/feed-fetcher/types";
-import { CreateDiscordChannelConnectionOutputDto } from "../feed-connections/dto";
+import {
+  CreateDiscordChannelConnectionOutputDto,
+  CreateHttpWebhookConnectionOutputDto,
+  CreateMatrixRoomConnectionOutputDto,
+  CreateSlackChannelConnectionOutputDto,
+} from "../feed-connections/dto";
 import { convertToNestedDiscordEmbed } from "../../utils/convert-to-nested-discord-embed";
 import { CustomPlaceholderStepType } from "../../common/constants/custom-placeholder-step-type.constants";
+import {
+  UserFeedArticleIdOptions,
+  UserFeedCredentialProfileInput,
+} from "../../common";
+import {
+  FeedException,
+  FeedParseException,
+  FeedParseTimeoutException,
+  InvalidFeedException,
+} from "../../services/feed-fetcher/exceptions";
+import { FeedTooLargeException } from "../../services/feed-fetcher/exceptions/FeedTooLargeException";
+import {
+  buildOpml,
+  encryptUserFeedCredential,
+  getAdaptiveRefreshRateSeconds,
+  getUserFeedHtmlScrapeOptions,
+  getUserFeedRequestLookupDetails,
+  parseOpml,
+} from "./utils";
+import { UserFeedAuditLogsService } from "../user-feed-audit-logs/user-feed-audit-logs.service";
+import { UserFeedAuditActor } from "../user-feed-audit-logs/types";
+import { hasSharedManagerRole } from "../user-feed-management-invites/utils";
+import { AlertSettings } from "../notifications/entities/alert-settings.entity";
 
 const badConnectionCodes = Object.values(FeedConnectionDisabledCode).filter(
   (c) => c !== FeedConnectionDisabledCode.Manual
@@ -63,6 +102,11 @@ const badUserFeedCodes = Object.values(UserFeedDisabledCode).filter(
   (c) => c !== UserFeedDisabledCode.Manual
 );
 const feedConnectionTypeKeys = Object.values(FeedConnectionTypeEntityKey);
+const DEFAULT_ANALYTICS_DAYS = 7;
+/**
+ * Enough to identify a feed in its audit log after it is deleted
+ */
+const AUDITED_DELETED_FEED_FIELDS = ["title", "url"];
 
 interface UpdateFeedInput {
   title?: string;
@@ -72,10 +116,17 @@ interface UpdateFeedInput {
   blockingComparisons?: string[];
   formatOptions?: Partial<UserFeed["formatOptions"]>;
   dateCheckOptions?: Partial<UserFeed["dateCheckOptions"]>;
+  jsonOptions?: Partial<UserFeed["jsonOptions"]>;
+  htmlScrapeOptions?: UserFeed["htmlScrapeOptions"];
+  editTracking?: UserFeed["editTracking"] | null;
+  articleIdOptions?: UserFeed["articleIdOptions"] | null;
+  credentialProfile?: UserFeedCredentialProfileInput | null;
+  retractRemovedArticles?: boolean;
   shareManageOptions?: {
     invites: Array<{ discordUserId: string }>;
   };
   userRefreshRateSeconds?: number;
+  alertSettings?: AlertSettings | null;
 }
 
 @Injectable()
@@ -94,7 +145,10 @@ export class UserFeedsService {
     private readonly feedHandlerService: FeedHandlerService,
     private readonly feedFetcherApiService: FeedFetcherApiService,
     private readonly amqpConnection: AmqpConnection,
-    private readonly feedConnectionsDiscordChannelsService: FeedConnectionsDiscordChannelsService
+    private readonly feedConnectionsDiscordChannelsService: FeedConnectionsDiscordChannelsService,
+    private readonly userFeedAuditLogsService: UserFeedAuditLogsService,
+    private readonly workspacesService: WorkspacesService,
+    private readonly configService: ConfigService
   ) {}
 
   async formatForHttpResponse(feed: UserFeed, discordUserId: string) {
@@ -121,6 +175,7 @@ export class UserFeedsService {
         },
         filters: con.filters,
         rateLimits: con.rateLimits,
+        schedule: con.schedule,
         disabledCode: con.disabledCode,
         splitOptions: con.splitOptions,
         mentions: con.mentions,
@@ -139,13 +194,71 @@ export class UserFeedsService {
         })),
       }));
 
+    const slackChannelConnections: CreateSlackChannelConnectionOutputDto[] =
+      feed.connections.slackChannels.map((con) => ({
+        id: con.id.toHexString(),
+        name: con.name,
+        key: FeedConnectionType.SlackChannel,
+        details: {
+          headerText: con.details.headerText,
+          content: con.details.content,
+          imageUrl: con.details.imageUrl,
+          formatter: con.details.formatter,
+        },
+        filters: con.filters,
+        rateLimits: con.rateLimits,
+        schedule: con.schedule,
+        disabledCode: con.disabledCode,
+        customPlaceholders: con.customPlaceholders,
+      }));
+
+    const matrixRoomConnections: CreateMatrixRoomConnectionOutputDto[] =
+      feed.connections.matrixRooms.map((con) => ({
+        id: con.id.toHexString(),
+        name: con.name,
+        key: FeedConnectionType.MatrixRoom,
+        details: {
+          homeserverUrl: con.details.homeserverUrl,
+          roomId: con.details.roomId,
+          msgtype: con.details.msgtype,
+          content: con.details.content,
+          formatter: con.details.formatter,
+        },
+        filters: con.filters,
+        rateLimits: con.rateLimits,
+        schedule: con.schedule,
+        disabledCode: con.disabledCode,
+        customPlaceholders: con.customPlaceholders,
+      }));
+
+    const httpWebhookConnections: CreateHttpWebhookConnectionOutputDto[] =
+      feed.connections.httpWebhooks.map((con) => ({
+        id: con.id.toHexString(),
+        name: con.name,
+        key: FeedConnectionType.HttpWebhook,
+        details: {
+          url: con.details.url,
+          method: con.details.method,
+          headerKeys: (con.details.headers || []).map(({ key }) => key),
+          bodyTemplate: con.details.bodyTemplate,
+          hasSigningSecret: !!con.details.signingSecret,
+          retries: con.details.retries,
+          formatter: con.details.formatter,
+        },
+        filters: con.filters,
+        rateLimits: con.rateLimits,
+        schedule: con.schedule,
+        disabledCode: con.disabledCode,
+        customPlaceholders: con.customPlaceholders,
+      }));
+
     const isOwner = feed.user.discordUserId === discordUserId;
 
-    const userInviteId = feed.shareManageOptions?.invites?.find(
+    const userInvite = feed.shareManageOptions?.invites?.find(
       (u) =>
         u.discordUserId === discordUserId &&
         u.status === UserFeedManagerStatus.Accepted
-    )?.id;
+    );
 
     const refreshRateOptions: Array<{
       rateSeconds: number;
@@ -160,10 +273,7 @@ export class UserFeedsService {
     ];
 
     if (await this.supportersService.areSupportersEnabled()) {
-      const feedOwnerBenefits =
-        await this.supportersService.getBenefitsOfDiscordUser(
-          feed.user.discordUserId
-        );
+      const feedOwnerBenefits = await this.getBenefitsOfFeedOwner(feed);
 
       refreshRateOptions.unshift({
         rateSeconds: this.supportersService.defaultSupporterRefreshRateSeconds,
@@ -175,19 +285,29 @@ export class UserFeedsService {
       });
     }
 
+    const refreshRateSeconds =
+      feed.refreshRateSeconds ||
+      (await this.getBenefitsOfFeedOwner(feed)).refreshRateSeconds;
+
     return {
       result: {
         id: feed._id.toHexString(),
         allowLegacyReversion: feed.allowLegacyReversion,
-        sharedAccessDetails: userInviteId
+        sharedAccessDetails: userInvite
           ? {
-              inviteId: userInviteId.toHexString(),
+              inviteId: userInvite.id.toHexString(),
+              role: userInvite.role || UserFeedManagerRole.Admin,
             }
           : undefined,
         title: feed.title,
         url: feed.url,
         isLegacyFeed: !!feed.legacyFeedId,
-        connections: [...discordChannelConnections],
+        connections: [
+          ...discordChannelConnections,
+          ...slackChannelConnections,
+          ...matrixRoomConnections,
+          ...httpWebhookConnections,
+        ],
         disabledCode: feed.disabledCode,
         healthStatus: feed.healthStatus,
         passingComparisons: feed.passingComparisons,
@@ -197,16 +317,33 @@ export class UserFeedsService {
         updatedAt: feed.updatedAt.toISOString(),
         formatOptions: feed.formatOptions,
         dateCheckOptions: feed.dateCheckOptions,
-        refreshRateSeconds:
-          feed.refreshRateSeconds ||
-          (
-            await this.supportersService.getBenefitsOfDiscordUser(
-              feed.user.discordUserId
-            )
-          ).refreshRateSeconds,
+        jsonOptions: feed.jsonOptions,
+        feedType: feed.feedType || UserFeedType.Feed,
+        htmlScrapeOptions: feed.htmlScrapeOptions,
+        editTracking: feed.editTracking,
+        articleIdOptions: feed.articleIdOptions,
+        credentialProfile: feed.credentialProfile && {
+          type: feed.credentialProfile.type,
+          username: feed.credentialProfile.username,
+          headerName: feed.credentialProfile.headerName,
+        },
+        retractRemovedArticles: feed.retractRemovedArticles,
+        refreshRateSeconds,
         userRefreshRateSeconds: feed.userRefreshRateSeconds,
+        effectiveRefreshRateSeconds:
+          feed.adaptiveRefreshRateSeconds ||
+          feed.userRefreshRateSeconds ||
+          refreshRateSeconds,
+        activityLevel: feed.publishCadence?.activityLevel,
         shareManageOptions: isOwner ? feed.shareManageOptions : undefined,
+        alertSettings: hasSharedManagerRole(
+          userInvite?.role,
+          UserFeedManagerRole.Editor
+        )
+          ? feed.alertSettings
+          : undefined,
         refreshRateOptions,
+        workspaceId: feed.workspaceId?.toHexString(),
       },
     };
   }
@@ -288,30 +425,46 @@ export class UserFeedsService {
     {
       title,
       url,
+      feedType,
+      htmlScrapeOptions,
+      workspaceId,
     }: {
       title: string;
       url: string;
+      feedType?: UserFeedType;
+      htmlScrapeOptions?: UserFeed["htmlScrapeOptions"];
+      workspaceId?: Types.ObjectId;
     }
   ) {
-    const { maxUserFeeds, maxDailyArticles, refreshRateSeconds } =
-      await this.supportersService.getBenefitsOfDiscordUser(discordUserId);
+    const owner = {
+      user: {
+        discordUserId,
+      },
+      workspaceId,
+    };
 
-    const feedCount = await this.calculateCurrentFeedCountOfDiscordUser(
-      discordUserId
-    );
+    const [{ maxUserFeeds, maxDailyArticles, refreshRateSeconds }, feedCount] =
+      await Promise.all([
+        this.getBenefitsOfFeedOwner(owner),
+        this.getFeedCountOfFeedOwner(owner),
+      ]);
 
     if (feedCount >= maxUserFeeds) {
       throw new FeedLimitReachedException("Max feeds reached");
     }
 
-    await this.checkUrlIsValid(url);
+    await this.checkUrlIsValid(url, { feedType });
 
     const created = await this.userFeedModel.create({
       title,
       url,
+      feedType,
+      htmlScrapeOptions:
+        feedType === UserFeedType.HtmlPage ? htmlScrapeOptions : undefined,
       user: {
         discordUserId,
       },
+      workspaceId,
       refreshRateSeconds,
       maxDailyArticles,
     });
@@ -319,6 +472,116 @@ export class UserFeedsService {
     return created;
   }
 
+  /**
+   * Add every feed of an OPML document. Each feed goes through the same validation as feeds
+   * that are added individually, and failures do not prevent the remaining feeds from being added.
+   */
+  async importOpml(
+    {
+      discordUserId,
+    }: {
+      discordUserId: string;
+    },
+    opml: string
+  ) {
+    const opmlFeeds = parseOpml(opml);
+
+    const existingFeeds = await this.userFeedModel
+      .find({
+        "user.discordUserId": discordUserId,
+      })
+      .select("url")
+      .lean();
+    const seenUrls = new Set(existingFeeds.map((feed) => feed.url));
+
+    const results: Array<{
+      title: string;
+      url: string;
+      id?: string;
+      failureReason?: UserFeedOpmlImportFailureReason;
+    }> = [];
+
+    for (const { title, url } of opmlFeeds) {
+      if (seenUrls.has(url)) {
+        results.push({
+          title,
+          url,
+          failureReason: UserFeedOpmlImportFailureReason.AlreadyExists,
+        });
+
+        continue;
+      }
+
+      seenUrls.add(url);
+
+      try {
+        const created = await this.addFeed({ discordUserId }, { title, url });
+
+        results.push({
+          title,
+          url,
+          id: created._id.toHexString(),
+        });
+      } catch (err) {
+        results.push({
+          title,
+          url,
+          failureReason: this.getOpmlImportFailureReason(err as Error),
+        });
+      }
+    }
+
+    return results;
+  }
+
+  async exportOpml({ discordUserId }: { discordUserId: string }) {
+    const feeds = await this.userFeedModel
+      .find({
+        "user.discordUserId": discordUserId,
+      })
+      .select("title url")
+      .sort({ createdAt: 1 })
+      .lean();
+
+    return buildOpml({
+      title: "MonitoRSS Feeds",
+      feeds: feeds.map(({ title, url }) => ({ title, url })),
+    });
+  }
+
+  private getOpmlImportFailureReason(err: Error) {
+    if (err instanceof FeedLimitReachedException) {
+      return UserFeedOpmlImportFailureReason.ExceededFeedLimit;
+    }
+
+    if (err instanceof BannedFeedException) {
+      return UserFeedOpmlImportFailureReason.BannedFeed;
+    }
+
+    if (err instanceof FeedTooLargeException) {
+      return UserFeedOpmlImportFailureReason.FeedTooLarge;
+    }
+
+    if (
+      err instanceof InvalidFeedException ||
+      err instanceof FeedParseException ||
+      err instanceof FeedParseTimeoutException
+    ) {
+      return UserFeedOpmlImportFailureReason.InvalidFeed;
+    }
+
+    // Remaining feed exceptions are all caused by failed requests
+    if (err instanceof FeedException) {
+      return UserFeedOpmlImportFailureReason.FailedRequest;
+    }
+
+    logger.error(`Failed to import feed from OPML`, {
+      stack: err.stack,
+    });
+
+    return UserFeedOpmlImportFailureReason.Internal;
+  }
+
   async clone(
     feedId: string,
     userAccessToken: string,
@@ -333,14 +596,10 @@ export class UserFeedsService {
       throw new Error(`Feed ${feedId} not found while cloning`);
     }
 
-    const { maxUserFeeds } =
-      await this.supportersService.getBenefitsOfDiscordUser(
-        found.user.discordUserId
-      );
-
-    const feedCount = await this.calculateCurrentFeedCountOfDiscordUser(
-      found.user.discordUserId
-    );
+    const [{ maxUserFeeds }, feedCount] = await Promise.all([
+      this.getBenefitsOfFeedOwner(found),
+      this.getFeedCountOfFeedOwner(found),
+    ]);
 
     if (feedCount >= maxUserFeeds) {
       throw new FeedLimitReachedException("Max feeds reached");
@@ -349,7 +608,7 @@ export class UserFeedsService {
     const newFeedId = new Types.ObjectId();
 
     if (data?.url && data.url !== found.url) {
-      await this.checkUrlIsValid(data.url);
+      await this.checkUrlIsValid(data.url, { feedType: found.feedType });
     }
 
     const created = await this.userFeedModel.create({
@@ -358,6 +617,9 @@ export class UserFeedsService {
       title: data?.title || found.title,
       url: data?.url || found.url,
       connections: {},
+      // Credentials are never copied to other feeds, and would be sent to the new url otherwise
+      credentialProfile: undefined,
+      feedRequestLookupKey: undefined,
     });
 
     for (const c of found.connections.discordChannels) {
@@ -377,14 +639,14 @@ export class UserFeedsService {
     };
   }
 
-  async bulkDelete(feedIds: string[]) {
+  async bulkDelete(feedIds: string[], actor?: UserFeedAuditActor) {
     const found = await this.userFeedModel
       .find({
         _id: {
           $in: feedIds.map((id) => new Types.ObjectId(id)),
         },
       })
-      .select("_id legacyFeedId connections")
+      .select("_id title url legacyFeedId connections")
       .lean();
 
     const foundIds = new Set(found.map((doc) => doc._id.toHexString()));
@@ -419,6 +681,20 @@ export class UserFeedsService {
           $in: found.map((doc) => doc._id),
         },
       });
+
+      if (actor) {
+        await Promise.all(
+          found.map((f) =>
+            this.userFeedAuditLogsService.recordDocumentChanges({
+              feedId: f._id.toHexString(),
+              actor,
+              before: f,
+              after: null,
+              fields: AUDITED_DELETED_FEED_FIELDS,
+            })
+          )
+        );
+      }
     }
 
     for (let i = 0; i < found.length; i++) {
@@ -515,6 +791,9 @@ export class UserFeedsService {
       $or: [
         {
           "user.discordUserId": discordUserId,
+          workspaceId: {
+            $exists: false,
+          },
         },
         {
           "shareManageOptions.invites": {
@@ -534,7 +813,14 @@ export class UserFeedsService {
 
   async getFeedsByUser(
     userId: string,
-    { limit = 10, offset = 0, search, sort, filters }: GetUserFeedsInputDto
+    {
+      limit = 10,
+      offset = 0,
+      search,
+      sort,
+      filters,
+      workspaceId,
+    }: GetUserFeedsInputDto
   ): Promise<
     Array<{
       _id: Types.ObjectId;
@@ -546,6 +832,7 @@ export class UserFeedsService {
       computedStatus: boolean;
       legacyFeedId?: Types.ObjectId;
       ownedByUser: boolean;
+      workspaceId?: Types.ObjectId;
     }>
   > {
     const useSort = sort || GetUserFeedsInputSortKey.CreatedAtDescending;
@@ -558,6 +845,7 @@ export class UserFeedsService {
       ...this.generateGetFeedsAggregatePipeline(userId, {
         search,
         filters,
+        workspaceId,
       }),
       {
         $sort: {
@@ -581,6 +869,7 @@ export class UserFeedsService {
           computedStatus: 1,
           legacyFeedId: 1,
           ownedByUser: 1,
+          workspaceId: 1,
         },
       },
     ]);
@@ -590,12 +879,17 @@ export class UserFeedsService {
 
   async getFeedCountByUser(
     userId: string,
-    { search, filters }: Omit<GetUserFeedsInputDto, "offset" | "limit" | "sort">
+    {
+      search,
+      filters,
+      workspaceId,
+    }: Omit<GetUserFeedsInputDto, "offset" | "limit" | "sort">
   ) {
     const aggregateResults = await this.userFeedModel.aggregate([
       ...this.generateGetFeedsAggregatePipeline(userId, {
         search,
         filters,
+        workspaceId,
       }),
       {
         $count: "count",
@@ -634,13 +928,109 @@ export class UserFeedsService {
     return this.feedHandlerService.getDeliveryLogs(feedId, { limit, skip });
   }
 
-  async updateFeedById(id: string, updates: UpdateFeedInput) {
+  async getDeliveryAnalytics(
+    feedId: string,
+    {
+      startDate,
+      endDate,
+      interval,
+    }: {
+      startDate?: Date;
+      endDate?: Date;
+      interval: UserFeedDeliveryAnalyticsInterval;
+    }
+  ) {
+    const end = endDate || new Date();
+    const start =
+      startDate || dayjs(end).subtract(DEFAULT_ANALYTICS_DAYS, "day").toDate();
+
+    return this.feedHandlerService.getDeliveryAnalytics(feedId, {
+      startDate: start,
+      endDate: end,
+      interval,
+    });
+  }
+
+  async getAuditLog(
+    feedId: string,
+    { limit, skip }: { limit: number; skip: number }
+  ) {
+    const entries = await this.userFeedAuditLogsService.getEntriesOfFeed(
+      feedId,
+      { limit, skip }
+    );
+
+    return entries.map((entry) => ({
+      id: entry._id.toHexString(),
+      connectionId: entry.connectionId?.toHexString() || null,
+      actorDiscordUserId: entry.actorDiscordUserId,
+      viaPersonalAccessToken: !!entry.personalAccessTokenId,
+      route: entry.route,
+      changes: entry.changes,
+      createdAt: entry.createdAt.toISOString(),
+    }));
+  }
+
+  async deleteDeliveryMessage(
+    feed: UserFeed,
+    { deliveryId, connectionId }: { deliveryId: string; connectionId: string }
+  ) {
+    const connection = this.getDiscordChannelConnection(feed, connectionId);
+
+    return this.feedConnectionsDiscordChannelsService.deleteDeliveryMessage(
+      feed,
+      connection,
+      deliveryId
+    );
+  }
+
+  async rerenderDeliveryMessage(
+    feed: UserFeed,
+    { deliveryId, connectionId }: { deliveryId: string; connectionId: string }
+  ) {
+    const connection = this.getDiscordChannelConnection(feed, connectionId);
+
+    return this.feedConnectionsDiscordChannelsService.rerenderDeliveryMessage(
+      feed,
+      connection,
+      deliveryId
+    );
+  }
+
+  private getDiscordChannelConnection(feed: UserFeed, connectionId: string) {
+    const connection = feed.connections.discordChannels.find((c) =>
+      c.id.equals(connectionId)
+    );
+
+    if (!connection) {
+      throw new FeedConnectionNotFoundException(
+        `Discord channel connection ${connectionId} not found on feed ${feed._id}`
+      );
+    }
+
+    return connection;
+  }
+
+  async updateFeedById(
+    id: string,
+    updates: UpdateFeedInput,
+    actor?: UserFeedAuditActor
+  ) {
     const useUpdateObject: UpdateQuery<UserFeedDocument> = {
       $set: {},
       $unset: {
         ...(updates.disabledCode === null && {
           disabledCode: "",
         }),
+        ...(updates.editTracking === null && {
+          editTracking: "",
+        }),
+        ...(updates.articleIdOptions === null && {
+          articleIdOptions: "",
+        }),
+        ...(updates.alertSettings === null && {
+          alertSettings: "",
+        }),
       },
     };
 
@@ -673,14 +1063,39 @@ export class UserFeedsService {
       useUpdateObject.$set!.dateCheckOptions = updates.dateCheckOptions;
     }
 
+    if (updates.jsonOptions) {
+      useUpdateObject.$set!.jsonOptions = updates.jsonOptions;
+    }
+
+    if (updates.htmlScrapeOptions) {
+      useUpdateObject.$set!.htmlScrapeOptions = updates.htmlScrapeOptions;
+    }
+
+    if (updates.editTracking) {
+      useUpdateObject.$set!.editTracking = updates.editTracking;
+    }
+
+    if (updates.articleIdOptions) {
+      useUpdateObject.$set!.articleIdOptions = updates.articleIdOptions;
+    }
+
+    if (updates.retractRemovedArticles !== undefined) {
+      useUpdateObject.$set!.retractRemovedArticles =
+        updates.retractRemovedArticles;
+    }
+
     if (updates.shareManageOptions) {
       useUpdateObject.$set!.shareManageOptions = updates.shareManageOptions;
     }
 
+    if (updates.alertSettings) {
+      useUpdateObject.$set!.alertSettings = updates.alertSettings;
+    }
+
     if (updates.userRefreshRateSeconds) {
       const found = await this.userFeedModel
         .findById(new Types.ObjectId(id))
-        .select("user")
+        .select("user workspaceId publishCadence")
         .lean();
 
       if (!found) {
@@ -688,9 +1103,7 @@ export class UserFeedsService {
       }
 
       const { refreshRateSeconds: fastestPossibleRate } =
-        await this.supportersService.getBenefitsOfDiscordUser(
-          found.user.discordUserId
-        );
+        await this.getBenefitsOfFeedOwner(found);
 
       if (
         updates.userRefreshRateSeconds === null ||
@@ -711,16 +1124,81 @@ export class UserFeedsService {
         useUpdateObject.$set!.userRefreshRateSeconds =
           updates.userRefreshRateSeconds;
       }
+
+      const adaptiveRefreshRateSeconds = getAdaptiveRefreshRateSeconds({
+        activityLevel: found.publishCadence?.activityLevel,
+        refreshRateSeconds: fastestPossibleRate,
+        userRefreshRateSeconds: useUpdateObject.$set!.userRefreshRateSeconds,
+      });
+
+      if (adaptiveRefreshRateSeconds) {
+        useUpdateObject.$set!.adaptiveRefreshRateSeconds =
+          adaptiveRefreshRateSeconds;
+      } else {
+        useUpdateObject.$unset!.adaptiveRefreshRateSeconds = "";
+      }
     }
 
-    return this.userFeedModel
+    const before =
+      actor ||
+      updates.articleIdOptions !== undefined ||
+      updates.credentialProfile !== undefined
+        ? await this.userFeedModel.findById(id).lean()
+        : undefined;
+
+    if (updates.credentialProfile) {
+      useUpdateObject.$set!.credentialProfile = this.encryptCredentialProfile(
+        updates.credentialProfile
+      );
+
+      // Authenticated responses must never be shared with other feeds of the same URL
+      if (!before?.feedRequestLookupKey) {
+        useUpdateObject.$set!.feedRequestLookupKey = id;
+      }
+    } else if (updates.credentialProfile === null) {
+      useUpdateObject.$unset!.credentialProfile = "";
+
+      if (before?.feedRequestLookupKey === id) {
+        useUpdateObject.$unset!.feedRequestLookupKey = "";
+      }
+    }
+
+    const updated = await this.userFeedModel
       .findByIdAndUpdate(id, useUpdateObject, {
         new: true,
       })
       .lean();
+
+    if (
+      updates.articleIdOptions !== undefined &&
+      before &&
+      updated &&
+      !isEqual(before.articleIdOptions, updated.articleIdOptions)
+    ) {
+      // Articles stored under the previous IDs would otherwise all be treated as new
+      this.amqpConnection.publish<{ data: { feed: { id: string } } }>(
+        "",
+        MessageBrokerQueue.FeedArticleIdsReset,
+        { data: { feed: { id } } }
+      );
+    }
+
+    if (actor && before && updated) {
+      await this.userFeedAuditLogsService.recordDocumentChanges({
+        feedId: id,
+        actor,
+        before,
+        after: updated,
+        fields: Object.entries(updates)
+          .filter(([, value]) => value !== undefined)
+          .map(([key]) => key),
+      });
+    }
+
+    return updated;
   }
 
-  async deleteFeedById(id: string) {
+  async deleteFeedById(id: string, actor?: UserFeedAuditActor) {
     const found = await this.userFeedModel.findById(id).lean();
 
     if (!found) {
@@ -740,6 +1218,16 @@ export class UserFeedsService {
       _id: id,
     });
 
+    if (actor) {
+      await this.userFeedAuditLogsService.recordDocumentChanges({
+        feedId: id,
+        actor,
+        before: found,
+        after: null,
+        fields: AUDITED_DELETED_FEED_FIELDS,
+      });
+    }
+
     this.amqpConnection.publish<{ data: { feed: { id: string } } }>(
       "",
       MessageBrokerQueue.FeedDeleted,
@@ -772,6 +1260,7 @@ export class UserFeedsService {
         useServiceApi: true,
         useServiceApiCache: false,
         debug: feed.debug,
+        lookupDetails: this.getRequestLookupDetails(feed),
       },
     });
 
@@ -814,6 +1303,7 @@ export class UserFeedsService {
 
     const res = await this.feedFetcherApiService.fetchAndSave(feed.url, {
       getCachedResponse: false,
+      lookupDetails: this.getRequestLookupDetails(feed),
     });
 
     await this.userFeedModel
@@ -834,10 +1324,7 @@ export class UserFeedsService {
   }
 
   async getFeedDailyLimit(feed: UserFeed) {
-    const { articleRateLimits } =
-      await this.supportersService.getBenefitsOfDiscordUser(
-        feed.user.discordUserId
-      );
+    const { articleRateLimits } = await this.getBenefitsOfFeedOwner(feed);
 
     const dailyLimit = articleRateLimits.find(
       (limit) => limit.timeWindowSeconds === 86400
@@ -860,6 +1347,63 @@ export class UserFeedsService {
     };
   }
 
+  /**
+   * Compare the article IDs the feed currently produces against the IDs a new strategy would
+   * produce, without saving anything
+   */
+  async createArticleIdPreview(
+    feed: UserFeed,
+    articleIdOptions: UserFeedArticleIdOptions
+  ) {
+    return this.feedHandlerService.createArticleIdPreview({
+      url: feed.url,
+      jsonOptions: feed.jsonOptions,
+      htmlScrapeOptions: getUserFeedHtmlScrapeOptions(feed),
+      currentArticleIdOptions: feed.articleIdOptions,
+      articleIdOptions,
+      requestLookupDetails: this.getRequestLookupDetails(feed),
+    });
+  }
+
+  getRequestLookupDetails(
+    feed: Pick<UserFeed, "feedRequestLookupKey" | "credentialProfile">
+  ) {
+    return getUserFeedRequestLookupDetails(
+      feed,
+      this.configService.get<string>(
+        "BACKEND_API_FEED_CREDENTIALS_ENCRYPTION_KEY"
+      )
+    );
+  }
+
+  private encryptCredentialProfile({
+    type,
+    username,
+    headerName,
+    secret,
+  }: UserFeedCredentialProfileInput): UserFeed["credentialProfile"] {
+    const encryptionKey = this.configService.get<string>(
+      "BACKEND_API_FEED_CREDENTIALS_ENCRYPTION_KEY"
+    );
+
+    if (!encryptionKey) {
+      throw new FeedCredentialsUnavailableException(
+        "BACKEND_API_FEED_CREDENTIALS_ENCRYPTION_KEY must be set to save feed credentials"
+      );
+    }
+
+    return {
+      type,
+      username:
+        type === UserFeedCredentialProfileType.HttpBasic ? username : undefined,
+      headerName:
+        type === UserFeedCredentialProfileType.CustomHeader
+          ? headerName
+          : undefined,
+      encryptedSecret: encryptUserFeedCredential(secret, encryptionKey),
+    };
+  }
+
   async getFeedArticles({
     limit,
     url,
@@ -869,6 +1413,9 @@ export class UserFeedsService {
     skip,
     formatter,
     discordUserId,
+    jsonOptions,
+    htmlScrapeOptions,
+    requestLookupDetails,
   }: GetFeedArticlesInput): Promise<GetFeedArticlesOutput> {
     const user = await this.userModel.findOne(
       {
@@ -886,6 +1433,9 @@ export class UserFeedsService {
       filters,
       skip: skip || 0,
       selectProperties,
+      jsonOptions,
+      htmlScrapeOptions,
+      requestLookupDetails,
       formatter: {
         ...formatter,
         options: {
@@ -904,9 +1454,15 @@ export class UserFeedsService {
   async getFeedArticleProperties({
     url,
     customPlaceholders,
+    jsonOptions,
+    htmlScrapeOptions,
+    requestLookupDetails,
   }: GetFeedArticlePropertiesInput): Promise<GetFeedArticlePropertiesOutput> {
     const input: GetArticlesInput = {
       url,
+      jsonOptions,
+      htmlScrapeOptions,
+      requestLookupDetails,
       limit: 10,
       random: false,
       skip: 0,
@@ -942,28 +1498,37 @@ export class UserFeedsService {
     {
       search,
       filters,
+      workspaceId,
     }: {
       search?: string;
       filters?: GetUserFeedsInputDto["filters"];
+      workspaceId?: string;
     }
   ) {
     const pipeline: PipelineStage[] = [
       {
-        $match: {
-          $or: [
-            {
-              "user.discordUserId": userId,
-            },
-            {
-              "shareManageOptions.invites": {
-                $elemMatch: {
-                  discordUserId: userId,
-                  status: UserFeedManagerStatus.Accepted,
+        $match: workspaceId
+          ? {
+              workspaceId: new Types.ObjectId(workspaceId),
+            }
+          : {
+              $or: [
+                {
+                  "user.discordUserId": userId,
+                  workspaceId: {
+                    $exists: false,
+                  },
                 },
-              },
+                {
+                  "shareManageOptions.invites": {
+                    $elemMatch: {
+                      discordUserId: userId,
+                      status: UserFeedManagerStatus.Accepted,
+                    },
+                  },
+                },
+              ],
             },
-          ],
-        },
       },
       {
         $addFields: {
@@ -1092,6 +1657,9 @@ export class UserFeedsService {
       .aggregate([
         {
           $match: {
+            workspaceId: {
+              $exists: false,
+            },
             "user.discordUserId": {
               $nin: supporterDiscordUserIds,
             },
@@ -1143,6 +1711,9 @@ export class UserFeedsService {
     for await (const { _id: discordUserId, enabledCount } of usersToDisable) {
       const docs = await this.userFeedModel
         .find({
+          workspaceId: {
+            $exists: false,
+          },
           "user.discordUserId": discordUserId,
           disabledCode: {
             $ne: UserFeedDisabledCode.ExceededFeedLimit,
@@ -1175,6 +1746,9 @@ export class UserFeedsService {
       .aggregate([
         {
           $match: {
+            workspaceId: {
+              $exists: false,
+            },
             "user.discordUserId": {
               $nin: supporterDiscordUserIds,
             },
@@ -1236,6 +1810,9 @@ export class UserFeedsService {
 
       const docs = await this.userFeedModel
         .find({
+          workspaceId: {
+            $exists: false,
+          },
           "user.discordUserId": discordUserId,
           disabledCode: UserFeedDisabledCode.ExceededFeedLimit,
         })
@@ -1275,6 +1852,9 @@ export class UserFeedsService {
       await Promise.all(
         chunk.map(async ({ discordUserId, maxUserFeeds }) => {
           const undisabledFeedCount = await this.userFeedModel.countDocuments({
+            workspaceId: {
+              $exists: false,
+            },
             "user.discordUserId": discordUserId,
             disabledCode: {
               $ne: UserFeedDisabledCode.ExceededFeedLimit,
@@ -1293,6 +1873,9 @@ export class UserFeedsService {
             );
             const docs = await this.userFeedModel
               .find({
+                workspaceId: {
+                  $exists: false,
+                },
                 "user.discordUserId": discordUserId,
                 disabledCode: {
                   $ne: UserFeedDisabledCode.ExceededFeedLimit,
@@ -1326,6 +1909,9 @@ export class UserFeedsService {
 
           // Some feeds should be enabled
           const disabledFeedCount = await this.userFeedModel.countDocuments({
+            workspaceId: {
+              $exists: false,
+            },
             "user.discordUserId": discordUserId,
             disabledCode: UserFeedDisabledCode.ExceededFeedLimit,
           });
@@ -1337,6 +1923,9 @@ export class UserFeedsService {
 
             const docs = await this.userFeedModel
               .find({
+                workspaceId: {
+                  $exists: false,
+                },
                 "user.discordUserId": discordUserId,
                 disabledCode: UserFeedDisabledCode.ExceededFeedLimit,
               })
@@ -1387,6 +1976,9 @@ export class UserFeedsService {
     await this.userFeedModel.updateMany(
       {
         userRefreshRateSeconds: supporterRefreshRate,
+        workspaceId: {
+          $exists: false,
+        },
         "user.discordUserId": {
           $nin: supporterDiscordUserIds,
         },
@@ -1394,18 +1986,57 @@ export class UserFeedsService {
       {
         $unset: {
           userRefreshRateSeconds: "",
+          adaptiveRefreshRateSeconds: "",
         },
       }
     );
   }
 
-  private async checkUrlIsValid(url: string) {
-    await this.feedFetcherService.fetchFeed(url, {
-      fetchOptions: {
-        useServiceApi: true,
-        useServiceApiCache: false,
-      },
-    });
+  /**
+   * Feeds within a workspace use the pooled benefits of the workspace members instead of the
+   * benefits of the user who created them
+   */
+  private async getBenefitsOfFeedOwner({
+    user,
+    workspaceId,
+  }: Pick<UserFeed, "user" | "workspaceId">) {
+    if (workspaceId) {
+      return this.workspacesService.getBenefitsOfWorkspace(workspaceId);
+    }
+
+    return this.supportersService.getBenefitsOfDiscordUser(user.discordUserId);
+  }
+
+  private async getFeedCountOfFeedOwner({
+    user,
+    workspaceId,
+  }: Pick<UserFeed, "user" | "workspaceId">) {
+    if (workspaceId) {
+      return this.workspacesService.getFeedCountOfWorkspace(workspaceId);
+    }
+
+    return this.calculateCurrentFeedCountOfDiscordUser(user.discordUserId);
+  }
+
+  private async checkUrlIsValid(
+    url: string,
+    options?: {
+      feedType?: UserFeedType;
+    }
+  ) {
+    if (options?.feedType === UserFeedType.HtmlPage) {
+      // Pages are not feeds, so only check that they can be fetched
+      await this.feedFetcherService.fetchFeedStreamFromApiService(url, {
+        getCachedResponse: false,
+      });
+    } else {
+      await this.feedFetcherService.fetchFeed(url, {
+        fetchOptions: {
+          useServiceApi: true,
+          useServiceApiCache: false,
+        },
+      });
+    }
 
     const bannedRecord = await this.feedsService.getBannedFeedDetails(url, "");
 
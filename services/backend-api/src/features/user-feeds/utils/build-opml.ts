@@ -0,0 +1,38 @@
+import { XMLBuilder } from "fast-xml-parser";
+import { OpmlFeed } from "./parse-opml";
+
+const builder = new XMLBuilder({
+  ignoreAttributes: false,
+  format: true,
+  suppressEmptyNode: true,
+});
+
+export const buildOpml = ({
+  title,
+  feeds,
+}: {
+  title: string;
+  feeds: OpmlFeed[];
+}) => {
+  return builder.build({
+    "?xml": {
+      "@_version": "1.0",
+      "@_encoding": "UTF-8",
+    },
+    opml: {
+      "@_version": "2.0",
+      head: {
+        title,
+        dateCreated: new Date().toUTCString(),
+      },
+      body: {
+        outline: feeds.map((feed) => ({
+          "@_type": "rss",
+          "@_text": feed.title,
+          "@_title": feed.title,
+          "@_xmlUrl": feed.url,
+        })),
+      },
+    },
+  }) as string;
+};
@@ -0,0 +1,79 @@
+import { UserFeedActivityLevel } from "../types";
+import { getAdaptiveRefreshRateSeconds } from "./get-adaptive-refresh-rate-seconds";
+
+describe("getAdaptiveRefreshRateSeconds", () => {
+  it("returns undefined for feeds with normal activity", () => {
+    expect(
+      getAdaptiveRefreshRateSeconds({
+        activityLevel: UserFeedActivityLevel.Normal,
+        refreshRateSeconds: 600,
+      })
+    ).toBeUndefined();
+  });
+
+  it("returns undefined if there is no activity level", () => {
+    expect(
+      getAdaptiveRefreshRateSeconds({
+        refreshRateSeconds: 600,
+      })
+    ).toBeUndefined();
+  });
+
+  it("does not speed up busy feeds past the user's configured rate", () => {
+    expect(
+      getAdaptiveRefreshRateSeconds({
+        activityLevel: UserFeedActivityLevel.Busy,
+        refreshRateSeconds: 120,
+        userRefreshRateSeconds: 600,
+      })
+    ).toBeUndefined();
+  });
+
+  it("returns undefined for busy feeds at the plan's rate", () => {
+    expect(
+      getAdaptiveRefreshRateSeconds({
+        activityLevel: UserFeedActivityLevel.Busy,
+        refreshRateSeconds: 600,
+      })
+    ).toBeUndefined();
+  });
+
+  it("slows down idle feeds", () => {
+    expect(
+      getAdaptiveRefreshRateSeconds({
+        activityLevel: UserFeedActivityLevel.Idle,
+        refreshRateSeconds: 120,
+        userRefreshRateSeconds: 600,
+      })
+    ).toEqual(1200);
+  });
+
+  it("slows down dormant feeds", () => {
+    expect(
+      getAdaptiveRefreshRateSeconds({
+        activityLevel: UserFeedActivityLevel.Dormant,
+        refreshRateSeconds: 600,
+      })
+    ).toEqual(3600);
+  });
+
+  it("caps the slowed down rate", () => {
+    expect(
+      getAdaptiveRefreshRateSeconds({
+        activityLevel: UserFeedActivityLevel.Dormant,
+        refreshRateSeconds: 600,
+        userRefreshRateSeconds: 60 * 60 * 4,
+      })
+    ).toEqual(60 * 60 * 6);
+  });
+
+  it("never speeds up feeds that are configured slower than the cap", () => {
+    expect(
+      getAdaptiveRefreshRateSeconds({
+        activityLevel: UserFeedActivityLevel.Idle,
+        refreshRateSeconds: 600,
+        userRefreshRateSeconds: 60 * 60 * 24,
+      })
+    ).toBeUndefined();
+  });
+});
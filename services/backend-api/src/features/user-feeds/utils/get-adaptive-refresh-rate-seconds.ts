@@ -0,0 +1,48 @@
+import { UserFeedActivityLevel } from "../types";
+
+const SLOWDOWN_MULTIPLIERS: Partial<Record<UserFeedActivityLevel, number>> = {
+  [UserFeedActivityLevel.Idle]: 2,
+  [UserFeedActivityLevel.Dormant]: 6,
+};
+
+/**
+ * Dormant feeds are still fetched at least this often so that new articles are not missed for
+ * too long
+ */
+const MAX_ADAPTIVE_REFRESH_RATE_SECONDS = 60 * 60 * 6;
+
+/**
+ * Idle and dormant feeds are fetched less often than their configured rate. Rates are never
+ * adapted to be faster than the configured rate, since users may deliberately choose a slower
+ * rate. Returns undefined if the configured rate should be used as-is.
+ */
+export const getAdaptiveRefreshRateSeconds = ({
+  activityLevel,
+  refreshRateSeconds,
+  userRefreshRateSeconds,
+}: {
+  activityLevel?: UserFeedActivityLevel;
+  refreshRateSeconds?: number;
+  userRefreshRateSeconds?: number;
+}): number | undefined => {
+  const configuredRateSeconds = userRefreshRateSeconds || refreshRateSeconds;
+
+  if (!configuredRateSeconds || !activityLevel) {
+    return undefined;
+  }
+
+  let adaptiveRateSeconds: number | undefined;
+
+  if (SLOWDOWN_MULTIPLIERS[activityLevel]) {
+    adaptiveRateSeconds = Math.min(
+      configuredRateSeconds * (SLOWDOWN_MULTIPLIERS[activityLevel] as number),
+      Math.max(configuredRateSeconds, MAX_ADAPTIVE_REFRESH_RATE_SECONDS)
+    );
+  }
+
+  if (!adaptiveRateSeconds || adaptiveRateSeconds <= configuredRateSeconds) {
+    return undefined;
+  }
+
+  return adaptiveRateSeconds;
+};
@@ -0,0 +1,16 @@
+import { UserFeed } from "../entities";
+import { UserFeedType } from "../types";
+
+/**
+ * Scrape options only apply to feeds of the HTML page type. Feeds whose type was changed
+ * afterwards may still have stale options stored.
+ */
+export const getUserFeedHtmlScrapeOptions = (
+  feed: Pick<UserFeed, "feedType" | "htmlScrapeOptions">
+) => {
+  if (feed.feedType !== UserFeedType.HtmlPage) {
+    return null;
+  }
+
+  return feed.htmlScrapeOptions || null;
+};
@@ -0,0 +1,97 @@
+import { FeedCredentialsUnavailableException } from "../exceptions";
+import { UserFeedCredentialProfileType } from "../types";
+import { getUserFeedRequestLookupDetails } from "./get-user-feed-request-lookup-details";
+import {
+  decryptUserFeedCredential,
+  encryptUserFeedCredential,
+} from "./user-feed-credential-encryption";
+
+describe("getUserFeedRequestLookupDetails", () => {
+  const encryptionKey = "encryption-key";
+
+  it("returns null if the feed has no lookup key", () => {
+    expect(getUserFeedRequestLookupDetails({}, encryptionKey)).toBeNull();
+  });
+
+  it("returns only the key if the feed has no credentials", () => {
+    expect(
+      getUserFeedRequestLookupDetails(
+        {
+          feedRequestLookupKey: "key",
+        },
+        encryptionKey
+      )
+    ).toEqual({
+      key: "key",
+    });
+  });
+
+  it("throws if the feed has credentials but there is no encryption key", () => {
+    expect(() =>
+      getUserFeedRequestLookupDetails({
+        feedRequestLookupKey: "key",
+        credentialProfile: {
+          type: UserFeedCredentialProfileType.BearerToken,
+          encryptedSecret: encryptUserFeedCredential("token", encryptionKey),
+        },
+      })
+    ).toThrow(FeedCredentialsUnavailableException);
+  });
+
+  it("returns the basic authorization header", () => {
+    expect(
+      getUserFeedRequestLookupDetails(
+        {
+          feedRequestLookupKey: "key",
+          credentialProfile: {
+            type: UserFeedCredentialProfileType.HttpBasic,
+            username: "user",
+            encryptedSecret: encryptUserFeedCredential("pass", encryptionKey),
+          },
+        },
+        encryptionKey
+      )
+    ).toEqual({
+      key: "key",
+      headers: {
+        authorization: `Basic ${Buffer.from("user:pass").toString("base64")}`,
+      },
+    });
+  });
+
+  it("returns the custom header", () => {
+    expect(
+      getUserFeedRequestLookupDetails(
+        {
+          feedRequestLookupKey: "key",
+          credentialProfile: {
+            type: UserFeedCredentialProfileType.CustomHeader,
+            headerName: "X-Api-Key",
+            encryptedSecret: encryptUserFeedCredential("value", encryptionKey),
+          },
+        },
+        encryptionKey
+      )
+    ).toEqual({
+      key: "key",
+      headers: {
+        "x-api-key": "value",
+      },
+    });
+  });
+});
+
+describe("encryptUserFeedCredential", () => {
+  it("does not store the value in plain text", () => {
+    const encrypted = encryptUserFeedCredential("secret", "key");
+
+    expect(encrypted).not.toContain("secret");
+    expect(decryptUserFeedCredential(encrypted, "key")).toEqual("secret");
+  });
+
+  it("fails to decrypt with a different key", () => {
+    const encrypted = encryptUserFeedCredential("secret", "key");
+
+    expect(() => decryptUserFeedCredential(encrypted, "other")).toThrow();
+  });
+});
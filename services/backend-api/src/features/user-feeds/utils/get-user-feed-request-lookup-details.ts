@@ -0,0 +1,73 @@
+import { FeedRequestLookupDetails } from "../../../services/feed-handler/types";
+import { UserFeed } from "../entities";
+import { FeedCredentialsUnavailableException } from "../exceptions";
+import { UserFeedCredentialProfileType } from "../types";
+import { decryptUserFeedCredential } from "./user-feed-credential-encryption";
+
+const getCredentialHeaders = (
+  { type, username, headerName }: NonNullable<UserFeed["credentialProfile"]>,
+  secret: string
+): Record<string, string> => {
+  switch (type) {
+    case UserFeedCredentialProfileType.HttpBasic:
+      return {
+        authorization: `Basic ${Buffer.from(`${username}:${secret}`).toString(
+          "base64"
+        )}`,
+      };
+    case UserFeedCredentialProfileType.BearerToken:
+      return {
+        authorization: `Bearer ${secret}`,
+      };
+    case UserFeedCredentialProfileType.Cookie:
+      return {
+        cookie: secret,
+      };
+    case UserFeedCredentialProfileType.CustomHeader:
+      return headerName
+        ? {
+            [headerName.toLowerCase()]: secret,
+          }
+        : {};
+    default:
+      return {};
+  }
+};
+
+/**
+ * Feeds with a lookup key are requested on their own so that responses fetched with the
+ * credentials of one feed are never shared with other feeds of the same URL.
+ *
+ * Throws if the feed has credentials that cannot be decrypted, since requesting the feed without
+ * them would only fail.
+ */
+export const getUserFeedRequestLookupDetails = (
+  feed: Pick<UserFeed, "feedRequestLookupKey" | "credentialProfile">,
+  encryptionKey?: string
+): FeedRequestLookupDetails | null => {
+  if (!feed.feedRequestLookupKey) {
+    return null;
+  }
+
+  if (!feed.credentialProfile) {
+    return {
+      key: feed.feedRequestLookupKey,
+    };
+  }
+
+  if (!encryptionKey) {
+    throw new FeedCredentialsUnavailableException(
+      "BACKEND_API_FEED_CREDENTIALS_ENCRYPTION_KEY must be set to request feeds with credentials"
+    );
+  }
+
+  const secret = decryptUserFeedCredential(
+    feed.credentialProfile.encryptedSecret,
+    encryptionKey
+  );
+
+  return {
+    key: feed.feedRequestLookupKey,
+    headers: getCredentialHeaders(feed.credentialProfile, secret),
+  };
+};
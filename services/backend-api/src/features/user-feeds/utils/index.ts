@@ -0,0 +1,6 @@
+export * from "./get-user-feed-html-scrape-options";
+export * from "./parse-opml";
+export * from "./build-opml";
+export * from "./get-adaptive-refresh-rate-seconds";
+export * from "./user-feed-credential-encryption";
+export * from "./get-user-feed-request-lookup-details";
@@ -0,0 +1,54 @@
+import { InvalidOpmlException } from "../exceptions";
+import { buildOpml } from "./build-opml";
+import { parseOpml } from "./parse-opml";
+
+describe("parseOpml", () => {
+  it("returns feeds nested within categories", () => {
+    const opml = `<?xml version="1.0" encoding="UTF-8"?>
+<opml version="1.0">
+  <head><title>Subscriptions</title></head>
+  <body>
+    <outline text="Tech">
+      <outline text="Feed A" xmlUrl="https://a.com/rss" />
+      <outline text="Nested">
+        <outline text="Feed B" title="Feed B Title" xmlUrl="https://b.com/rss" />
+      </outline>
+    </outline>
+    <outline text="Feed C" xmlUrl="https://c.com/rss" />
+  </body>
+</opml>`;
+
+    expect(parseOpml(opml)).toEqual([
+      { title: "Feed A", url: "https://a.com/rss" },
+      { title: "Feed B Title", url: "https://b.com/rss" },
+      { title: "Feed C", url: "https://c.com/rss" },
+    ]);
+  });
+
+  it("falls back to the url if there is no title", () => {
+    const opml = `<opml><body><outline xmlUrl="https://a.com/rss" /></body></opml>`;
+
+    expect(parseOpml(opml)).toEqual([
+      { title: "https://a.com/rss", url: "https://a.com/rss" },
+    ]);
+  });
+
+  it("throws if the document is invalid xml", () => {
+    expect(() => parseOpml("<opml><body>")).toThrow(InvalidOpmlException);
+  });
+
+  it("throws if there is no body", () => {
+    expect(() => parseOpml("<opml><head></head></opml>")).toThrow(
+      InvalidOpmlException
+    );
+  });
+
+  it("parses documents created by buildOpml", () => {
+    const feeds = [
+      { title: 'Feed & "Quotes"', url: "https://a.com/rss?a=1&b=2" },
+      { title: "Feed B", url: "https://b.com/rss" },
+    ];
+
+    expect(parseOpml(buildOpml({ title: "Feeds", feeds }))).toEqual(feeds);
+  });
+});
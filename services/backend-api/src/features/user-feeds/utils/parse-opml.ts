@@ -0,0 +1,60 @@
+import { XMLParser } from "fast-xml-parser";
+import { InvalidOpmlException } from "../exceptions";
+
+export interface OpmlFeed {
+  title: string;
+  url: string;
+}
+
+interface OpmlOutline {
+  text?: string;
+  title?: string;
+  xmlUrl?: string;
+  outline?: OpmlOutline[];
+}
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "",
+  isArray: (tagName) => tagName === "outline",
+});
+
+/**
+ * Get all feeds of an OPML document, including those nested within category outlines
+ */
+export const parseOpml = (opml: string): OpmlFeed[] => {
+  let parsed: { opml?: { body?: { outline?: OpmlOutline[] } } };
+
+  try {
+    parsed = parser.parse(opml, true);
+  } catch (err) {
+    throw new InvalidOpmlException(
+      `Failed to parse OPML: ${(err as Error).message}`
+    );
+  }
+
+  const body = parsed.opml?.body;
+
+  if (!body) {
+    throw new InvalidOpmlException("OPML document is missing a body");
+  }
+
+  const feeds: OpmlFeed[] = [];
+
+  const addFeeds = (outlines?: OpmlOutline[]) => {
+    outlines?.forEach((outline) => {
+      if (outline.xmlUrl) {
+        feeds.push({
+          title: outline.title || outline.text || outline.xmlUrl,
+          url: outline.xmlUrl,
+        });
+      }
+
+      addFeeds(outline.outline);
+    });
+  };
+
+  addFeeds(body.outline);
+
+  return feeds;
+};
@@ -0,0 +1,52 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from "crypto";
+
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+
+const deriveKey = (encryptionKey: string) =>
+  createHash("sha256").update(encryptionKey).digest();
+
+/**
+ * Encrypts a credential so that it can be stored at rest. The output is the IV, auth tag and
+ * ciphertext in base64, separated by periods.
+ */
+export const encryptUserFeedCredential = (
+  value: string,
+  encryptionKey: string
+) => {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, deriveKey(encryptionKey), iv);
+  const encrypted = Buffer.concat([
+    cipher.update(value, "utf8"),
+    cipher.final(),
+  ]);
+
+  return [iv, cipher.getAuthTag(), encrypted]
+    .map((buffer) => buffer.toString("base64"))
+    .join(".");
+};
+
+export const decryptUserFeedCredential = (
+  encryptedValue: string,
+  encryptionKey: string
+) => {
+  const [iv, authTag, encrypted] = encryptedValue
+    .split(".")
+    .map((part) => Buffer.from(part, "base64"));
+
+  if (!iv || !authTag || !encrypted) {
+    throw new Error("Encrypted credential is malformed");
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, deriveKey(encryptionKey), iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString(
+    "utf8"
+  );
+};
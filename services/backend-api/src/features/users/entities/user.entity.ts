@@ -1,5 +1,9 @@
 import { ModelDefinition, Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
 import { Document, Model, Types } from "mongoose";
+import {
+  AlertSettings,
+  AlertSettingsSchema,
+} from "../../notifications/entities/alert-settings.entity";
 
 @Schema({
   timestamps: false,
@@ -17,6 +21,15 @@ export class UserPreferences {
 
   @Prop()
   dateLocale?: string;
+
+  /**
+   * Used for any feed the user owns that does not have its own alert settings
+   */
+  @Prop({
+    type: AlertSettingsSchema,
+    required: false,
+  })
+  alertSettings?: AlertSettings;
 }
 
 export const UserPreferencesSchema =
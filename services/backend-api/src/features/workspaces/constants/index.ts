@@ -0,0 +1,2 @@
+export * from "./workspace-member-role.constants";
+export * from "./workspace-invite-status.constants";
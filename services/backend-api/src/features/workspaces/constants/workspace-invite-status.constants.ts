@@ -0,0 +1,4 @@
+export enum WorkspaceInviteStatus {
+  Accepted = "ACCEPTED",
+  Declined = "DECLINED",
+}
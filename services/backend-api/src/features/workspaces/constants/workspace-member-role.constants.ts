@@ -0,0 +1,18 @@
+export enum WorkspaceMemberRole {
+  /**
+   * Can manage members and delete the workspace. Each workspace has exactly one owner.
+   */
+  Owner = "OWNER",
+  /**
+   * Has full control over the workspace's feeds and can manage members
+   */
+  Admin = "ADMIN",
+  /**
+   * Can change the settings of the workspace's feeds, but cannot add or delete feeds
+   */
+  Editor = "EDITOR",
+  /**
+   * Can only view the workspace's feeds
+   */
+  Viewer = "VIEWER",
+}
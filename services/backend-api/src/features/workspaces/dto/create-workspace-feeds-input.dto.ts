@@ -0,0 +1,14 @@
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsMongoId,
+} from "class-validator";
+
+export class CreateWorkspaceFeedsInputDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(100)
+  @IsMongoId({ each: true })
+  feedIds: string[];
+}
@@ -0,0 +1,8 @@
+import { IsNotEmpty, IsString, MaxLength } from "class-validator";
+
+export class CreateWorkspaceInputDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+}
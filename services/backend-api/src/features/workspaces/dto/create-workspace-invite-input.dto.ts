@@ -0,0 +1,15 @@
+import { IsIn, IsNotEmpty, IsString } from "class-validator";
+import { WorkspaceMemberRole } from "../constants";
+
+export class CreateWorkspaceInviteInputDto {
+  @IsString()
+  @IsNotEmpty()
+  discordUserId: string;
+
+  @IsIn([
+    WorkspaceMemberRole.Admin,
+    WorkspaceMemberRole.Editor,
+    WorkspaceMemberRole.Viewer,
+  ])
+  role: WorkspaceMemberRole;
+}
@@ -0,0 +1,6 @@
+export * from "./create-workspace-input.dto";
+export * from "./update-workspace-input.dto";
+export * from "./create-workspace-invite-input.dto";
+export * from "./update-workspace-invite-status-input.dto";
+export * from "./update-workspace-member-input.dto";
+export * from "./create-workspace-feeds-input.dto";
@@ -0,0 +1,9 @@
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from "class-validator";
+
+export class UpdateWorkspaceInputDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  @IsOptional()
+  name?: string;
+}
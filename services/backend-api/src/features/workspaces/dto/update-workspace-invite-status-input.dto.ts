@@ -0,0 +1,7 @@
+import { IsIn } from "class-validator";
+import { WorkspaceInviteStatus } from "../constants";
+
+export class UpdateWorkspaceInviteStatusInputDto {
+  @IsIn(Object.values(WorkspaceInviteStatus))
+  status: WorkspaceInviteStatus;
+}
@@ -0,0 +1,11 @@
+import { IsIn } from "class-validator";
+import { WorkspaceMemberRole } from "../constants";
+
+export class UpdateWorkspaceMemberInputDto {
+  @IsIn([
+    WorkspaceMemberRole.Admin,
+    WorkspaceMemberRole.Editor,
+    WorkspaceMemberRole.Viewer,
+  ])
+  role: WorkspaceMemberRole;
+}
@@ -0,0 +1,2 @@
+export * from "./workspace-member.entity";
+export * from "./workspace.entity";
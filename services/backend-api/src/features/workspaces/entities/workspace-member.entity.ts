@@ -0,0 +1,26 @@
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { WorkspaceMemberRole } from "../constants";
+
+@Schema({
+  timestamps: true,
+  _id: false,
+})
+export class WorkspaceMember {
+  @Prop({
+    required: true,
+  })
+  discordUserId: string;
+
+  @Prop({
+    required: true,
+    enum: Object.values(WorkspaceMemberRole),
+    type: String,
+  })
+  role: WorkspaceMemberRole;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const WorkspaceMemberSchema =
+  SchemaFactory.createForClass(WorkspaceMember);
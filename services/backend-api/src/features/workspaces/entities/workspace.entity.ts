@@ -0,0 +1,56 @@
+import { ModelDefinition, Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Document, Model, Types } from "mongoose";
+import {
+  WorkspaceMember,
+  WorkspaceMemberSchema,
+} from "./workspace-member.entity";
+
+@Schema({
+  timestamps: true,
+})
+export class Workspace {
+  _id: Types.ObjectId;
+
+  @Prop({
+    required: true,
+  })
+  name: string;
+
+  @Prop({
+    type: [WorkspaceMemberSchema],
+    required: true,
+    default: [],
+  })
+  members: WorkspaceMember[];
+
+  /**
+   * Users that were invited by an admin but have not accepted yet. They have no access to the
+   * workspace, and their benefits are not pooled, until they accept.
+   */
+  @Prop({
+    type: [WorkspaceMemberSchema],
+    required: true,
+    default: [],
+  })
+  invites: WorkspaceMember[];
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type WorkspaceDocument = Workspace & Document;
+export type WorkspaceModel = Model<WorkspaceDocument>;
+export const WorkspaceSchema = SchemaFactory.createForClass(Workspace);
+
+WorkspaceSchema.index({
+  "members.discordUserId": 1,
+});
+
+WorkspaceSchema.index({
+  "invites.discordUserId": 1,
+});
+
+export const WorkspaceFeature: ModelDefinition = {
+  name: Workspace.name,
+  schema: WorkspaceSchema,
+};
@@ -0,0 +1,8 @@
+export * from "./workspace-not-found.exception";
+export * from "./workspace-member-exists.exception";
+export * from "./workspace-member-not-found.exception";
+export * from "./workspace-owner-immutable.exception";
+export * from "./workspace-has-feeds.exception";
+export * from "./workspace-feeds-not-found.exception";
+export * from "./workspace-invite-not-found.exception";
+export * from "./workspace-owner-required.exception";
@@ -0,0 +1,3 @@
+import { StandardException } from "../../../common/exceptions";
+
+export class WorkspaceMemberNotFoundException extends StandardException {}
@@ -0,0 +1,60 @@
+import { Catch, HttpStatus } from "@nestjs/common";
+import { ApiErrorCode } from "../../../common/constants/api-errors";
+import { StandardException } from "../../../common/exceptions";
+import { StandardBaseExceptionFilter } from "../../../common/filters/standard-exception-filter";
+import { FeedLimitReachedException } from "../../feeds/exceptions";
+import {
+  WorkspaceFeedsNotFoundException,
+  WorkspaceHasFeedsException,
+  WorkspaceInviteNotFoundException,
+  WorkspaceMemberExistsException,
+  WorkspaceMemberNotFoundException,
+  WorkspaceNotFoundException,
+  WorkspaceOwnerImmutableException,
+  WorkspaceOwnerRequiredException,
+} from "../exceptions";
+
+const ERROR_CODES: Record<string, { status: HttpStatus; code: ApiErrorCode }> =
+  {
+    [WorkspaceNotFoundException.name]: {
+      status: HttpStatus.NOT_FOUND,
+      code: ApiErrorCode.WORKSPACE_NOT_FOUND,
+    },
+    [WorkspaceMemberExistsException.name]: {
+      status: HttpStatus.BAD_REQUEST,
+      code: ApiErrorCode.WORKSPACE_MEMBER_EXISTS,
+    },
+    [WorkspaceMemberNotFoundException.name]: {
+      status: HttpStatus.NOT_FOUND,
+      code: ApiErrorCode.WORKSPACE_MEMBER_NOT_FOUND,
+    },
+    [WorkspaceOwnerImmutableException.name]: {
+      status: HttpStatus.BAD_REQUEST,
+      code: ApiErrorCode.WORKSPACE_OWNER_IMMUTABLE,
+    },
+    [WorkspaceInviteNotFoundException.name]: {
+      status: HttpStatus.NOT_FOUND,
+      code: ApiErrorCode.WORKSPACE_INVITE_NOT_FOUND,
+    },
+    [WorkspaceOwnerRequiredException.name]: {
+      status: HttpStatus.FORBIDDEN,
+      code: ApiErrorCode.WORKSPACE_OWNER_REQUIRED,
+    },
+    [WorkspaceHasFeedsException.name]: {
+      status: HttpStatus.BAD_REQUEST,
+      code: ApiErrorCode.WORKSPACE_HAS_FEEDS,
+    },
+    [WorkspaceFeedsNotFoundException.name]: {
+      status: HttpStatus.NOT_FOUND,
+      code: ApiErrorCode.FEED_NOT_FOUND,
+    },
+    [FeedLimitReachedException.name]: {
+      status: HttpStatus.BAD_REQUEST,
+      code: ApiErrorCode.FEED_LIMIT_REACHED,
+    },
+  };
+
+@Catch(StandardException)
+export class WorkspaceExceptionFilter extends StandardBaseExceptionFilter {
+  exceptions = ERROR_CODES;
+}
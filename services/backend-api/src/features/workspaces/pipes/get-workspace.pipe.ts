@@ -0,0 +1,74 @@
+import {
+  ForbiddenException,
+  forwardRef,
+  Inject,
+  mixin,
+  PipeTransform,
+  Type,
+  UnauthorizedException,
+} from "@nestjs/common";
+import { REQUEST } from "@nestjs/core";
+import { FastifyRequest } from "fastify";
+import { memoize } from "lodash";
+import { getAccessTokenFromRequest } from "../../discord-auth/utils/get-access-token-from-session";
+import { WorkspaceMemberRole } from "../constants";
+import { Workspace } from "../entities";
+import { WorkspaceNotFoundException } from "../exceptions";
+import { hasWorkspaceMemberRole } from "../utils";
+import { WorkspacesService } from "../workspaces.service";
+
+interface PipeOptions {
+  /**
+   * The minimum role that the requesting user must have. Defaults to viewer.
+   */
+  role?: WorkspaceMemberRole;
+}
+
+export interface GetWorkspacePipeOutput {
+  workspace: Workspace;
+  role: WorkspaceMemberRole;
+}
+
+const createGetWorkspacePipe = ({
+  role: requiredRole = WorkspaceMemberRole.Viewer,
+}: PipeOptions = {}): Type<PipeTransform> => {
+  class GetWorkspacePipe implements PipeTransform {
+    constructor(
+      @Inject(forwardRef(() => REQUEST))
+      private readonly request: FastifyRequest,
+      private readonly workspacesService: WorkspacesService
+    ) {}
+
+    async transform(workspaceId: string): Promise<GetWorkspacePipeOutput> {
+      const accessToken = getAccessTokenFromRequest(this.request);
+
+      if (!accessToken) {
+        throw new UnauthorizedException();
+      }
+
+      const found = await this.workspacesService.getWorkspaceOfMember({
+        workspaceId,
+        discordUserId: accessToken.discord.id,
+      });
+
+      if (!found) {
+        throw new WorkspaceNotFoundException(
+          `Workspace ${workspaceId} does not exist or user is not a member`
+        );
+      }
+
+      if (!hasWorkspaceMemberRole(found.role, requiredRole)) {
+        throw new ForbiddenException(
+          `The ${found.role} role is not allowed to perform this action`
+        );
+      }
+
+      return found;
+    }
+  }
+
+  return mixin(GetWorkspacePipe);
+};
+
+export const GetWorkspacePipe: (data?: PipeOptions) => Type<PipeTransform> =
+  memoize(createGetWorkspacePipe);
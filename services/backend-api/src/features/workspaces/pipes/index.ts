@@ -0,0 +1 @@
+export * from "./get-workspace.pipe";
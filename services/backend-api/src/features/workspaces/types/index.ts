@@ -0,0 +1 @@
+export * from "./workspace-benefits.type";
@@ -0,0 +1,6 @@
+export interface WorkspaceBenefits {
+  isSupporter: boolean;
+  maxUserFeeds: number;
+  refreshRateSeconds: number;
+  maxDailyArticles: number;
+}
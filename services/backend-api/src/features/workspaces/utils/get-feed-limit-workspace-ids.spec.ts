@@ -0,0 +1,47 @@
+import { Types } from "mongoose";
+import { getFeedLimitWorkspaceIds } from "./get-feed-limit-workspace-ids";
+
+describe("getFeedLimitWorkspaceIds", () => {
+  const olderWorkspaceId = new Types.ObjectId("000000000000000000000001");
+  const newerWorkspaceId = new Types.ObjectId("000000000000000000000002");
+
+  it("picks the workspace that each member joined first", () => {
+    const result = getFeedLimitWorkspaceIds([
+      {
+        _id: olderWorkspaceId,
+        members: [
+          { discordUserId: "a", createdAt: new Date(2020, 0, 2) },
+          { discordUserId: "b", createdAt: new Date(2020, 0, 1) },
+        ],
+      },
+      {
+        _id: newerWorkspaceId,
+        members: [{ discordUserId: "a", createdAt: new Date(2020, 0, 1) }],
+      },
+    ]);
+
+    expect(result).toEqual(
+      new Map([
+        ["a", newerWorkspaceId.toHexString()],
+        ["b", olderWorkspaceId.toHexString()],
+      ])
+    );
+  });
+
+  it("picks the oldest workspace if the join dates are the same", () => {
+    const joinedAt = new Date(2020, 0, 1);
+
+    const result = getFeedLimitWorkspaceIds([
+      {
+        _id: newerWorkspaceId,
+        members: [{ discordUserId: "a", createdAt: joinedAt }],
+      },
+      {
+        _id: olderWorkspaceId,
+        members: [{ discordUserId: "a", createdAt: joinedAt }],
+      },
+    ]);
+
+    expect(result.get("a")).toEqual(olderWorkspaceId.toHexString());
+  });
+});
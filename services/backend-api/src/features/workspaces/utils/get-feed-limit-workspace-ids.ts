@@ -0,0 +1,44 @@
+import { Types } from "mongoose";
+import { WorkspaceMember } from "../entities";
+
+/**
+ * Pick the single workspace that each member's feed limit is pooled into, so that a limit is never
+ * counted in more than one workspace. This is the workspace the member joined first, with ties
+ * broken by the oldest workspace.
+ *
+ * @returns Workspace IDs as hex strings, keyed by Discord user ID
+ */
+export const getFeedLimitWorkspaceIds = (
+  workspaces: Array<{
+    _id: Types.ObjectId;
+    members: Array<Pick<WorkspaceMember, "discordUserId" | "createdAt">>;
+  }>
+) => {
+  const selected = new Map<string, { workspaceId: string; joinedAt: number }>();
+
+  for (const { _id, members } of workspaces) {
+    const workspaceId = _id.toHexString();
+
+    for (const { discordUserId, createdAt } of members) {
+      const joinedAt = createdAt
+        ? new Date(createdAt).getTime()
+        : _id.getTimestamp().getTime();
+      const current = selected.get(discordUserId);
+
+      if (
+        !current ||
+        joinedAt < current.joinedAt ||
+        (joinedAt === current.joinedAt && workspaceId < current.workspaceId)
+      ) {
+        selected.set(discordUserId, { workspaceId, joinedAt });
+      }
+    }
+  }
+
+  return new Map(
+    Array.from(selected.entries()).map(([discordUserId, { workspaceId }]) => [
+      discordUserId,
+      workspaceId,
+    ])
+  );
+};
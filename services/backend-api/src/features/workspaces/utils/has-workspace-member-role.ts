@@ -0,0 +1,22 @@
+import { WorkspaceMemberRole } from "../constants";
+
+const ROLE_RANKS: Record<WorkspaceMemberRole, number> = {
+  [WorkspaceMemberRole.Viewer]: 0,
+  [WorkspaceMemberRole.Editor]: 1,
+  [WorkspaceMemberRole.Admin]: 2,
+  [WorkspaceMemberRole.Owner]: 3,
+};
+
+/**
+ * @param role Undefined if the user is not a member of the workspace
+ */
+export const hasWorkspaceMemberRole = (
+  role: WorkspaceMemberRole | undefined,
+  requiredRole: WorkspaceMemberRole
+) => {
+  if (!role) {
+    return false;
+  }
+
+  return ROLE_RANKS[role] >= ROLE_RANKS[requiredRole];
+};
@@ -0,0 +1,3 @@
+export * from "./get-feed-limit-workspace-ids";
+export * from "./has-workspace-member-role";
+export * from "./pool-workspace-benefits";
@@ -0,0 +1,56 @@
+import { poolWorkspaceBenefits } from "./pool-workspace-benefits";
+
+describe("poolWorkspaceBenefits", () => {
+  const nonSupporter = {
+    isSupporter: false,
+    maxUserFeeds: 5,
+    refreshRateSeconds: 600,
+    maxDailyArticles: 50,
+  };
+
+  it("throws if there are no members", () => {
+    expect(() => poolWorkspaceBenefits([])).toThrow();
+  });
+
+  it("adds together the feed limits of members", () => {
+    expect(
+      poolWorkspaceBenefits([
+        nonSupporter,
+        {
+          ...nonSupporter,
+          maxUserFeeds: 10,
+        },
+      ])
+    ).toEqual({
+      isSupporter: false,
+      maxUserFeeds: 15,
+      refreshRateSeconds: 600,
+      maxDailyArticles: 50,
+    });
+  });
+
+  it("uses the best refresh rate and daily article limit of members", () => {
+    expect(
+      poolWorkspaceBenefits([
+        nonSupporter,
+        {
+          isSupporter: true,
+          maxUserFeeds: 35,
+          refreshRateSeconds: 120,
+          maxDailyArticles: 500,
+        },
+        {
+          isSupporter: true,
+          maxUserFeeds: 70,
+          refreshRateSeconds: 60,
+          maxDailyArticles: 1000,
+        },
+      ])
+    ).toEqual({
+      isSupporter: true,
+      maxUserFeeds: 110,
+      refreshRateSeconds: 60,
+      maxDailyArticles: 1000,
+    });
+  });
+});
@@ -0,0 +1,32 @@
+import { WorkspaceBenefits } from "../types";
+
+/**
+ * Combine the benefits of every member of a workspace. Members add their feed limits to the
+ * workspace, while refresh rates and daily article limits use the best of any member.
+ *
+ * Feed limits must already be reduced to what each member contributes to this workspace, since a
+ * limit may only be counted once across personal feeds and every workspace.
+ *
+ * @param memberBenefits Must contain at least one member, since every workspace has an owner
+ */
+export const poolWorkspaceBenefits = (
+  memberBenefits: WorkspaceBenefits[]
+): WorkspaceBenefits => {
+  if (!memberBenefits.length) {
+    throw new Error("At least one member is required to pool benefits");
+  }
+
+  return {
+    isSupporter: memberBenefits.some((b) => b.isSupporter),
+    maxUserFeeds: memberBenefits.reduce(
+      (total, b) => total + b.maxUserFeeds,
+      0
+    ),
+    refreshRateSeconds: Math.min(
+      ...memberBenefits.map((b) => b.refreshRateSeconds)
+    ),
+    maxDailyArticles: Math.max(
+      ...memberBenefits.map((b) => b.maxDailyArticles)
+    ),
+  };
+};
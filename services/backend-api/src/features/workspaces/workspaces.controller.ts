@@ -0,0 +1,259 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  UseFilters,
+  UseGuards,
+  ValidationPipe,
+} from "@nestjs/common";
+import { DiscordAccessToken } from "../discord-auth/decorators/DiscordAccessToken";
+import { DiscordOAuth2Guard } from "../discord-auth/guards/DiscordOAuth2.guard";
+import { SessionAccessToken } from "../discord-auth/types/SessionAccessToken.type";
+import { WorkspaceMemberRole } from "./constants";
+import {
+  CreateWorkspaceFeedsInputDto,
+  CreateWorkspaceInputDto,
+  CreateWorkspaceInviteInputDto,
+  UpdateWorkspaceInputDto,
+  UpdateWorkspaceInviteStatusInputDto,
+  UpdateWorkspaceMemberInputDto,
+} from "./dto";
+import { Workspace } from "./entities";
+import { WorkspaceExceptionFilter } from "./filters";
+import { GetWorkspacePipe, GetWorkspacePipeOutput } from "./pipes";
+import { WorkspacesService } from "./workspaces.service";
+
+@Controller("workspaces")
+@UseGuards(DiscordOAuth2Guard)
+@UseFilters(WorkspaceExceptionFilter)
+export class WorkspacesController {
+  constructor(private readonly workspacesService: WorkspacesService) {}
+
+  @Get()
+  async getWorkspaces(
+    @DiscordAccessToken()
+    { discord: { id: discordUserId } }: SessionAccessToken
+  ) {
+    const workspaces = await this.workspacesService.getWorkspacesOfUser(
+      discordUserId
+    );
+
+    return {
+      results: workspaces.map((workspace) =>
+        this.formatWorkspace(workspace, discordUserId)
+      ),
+    };
+  }
+
+  @Post()
+  async createWorkspace(
+    @DiscordAccessToken()
+    { discord: { id: discordUserId } }: SessionAccessToken,
+    @Body(ValidationPipe) { name }: CreateWorkspaceInputDto
+  ) {
+    const workspace = await this.workspacesService.createWorkspace({
+      ownerDiscordUserId: discordUserId,
+      name,
+    });
+
+    return {
+      result: this.formatWorkspace(workspace, discordUserId),
+    };
+  }
+
+  @Get("/invites")
+  async getInvites(
+    @DiscordAccessToken()
+    { discord: { id: discordUserId } }: SessionAccessToken
+  ) {
+    const workspaces = await this.workspacesService.getInvitesOfUser(
+      discordUserId
+    );
+
+    return {
+      results: workspaces.map((workspace) => {
+        const invite = workspace.invites.find(
+          (i) => i.discordUserId === discordUserId
+        );
+
+        return {
+          workspaceId: workspace._id.toHexString(),
+          workspaceName: workspace.name,
+          role: invite?.role,
+          createdAt: invite?.createdAt?.toISOString(),
+        };
+      }),
+    };
+  }
+
+  @Patch("/invites/:workspaceId/status")
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async updateInviteStatus(
+    @DiscordAccessToken()
+    { discord: { id: discordUserId } }: SessionAccessToken,
+    @Param("workspaceId") workspaceId: string,
+    @Body(ValidationPipe) { status }: UpdateWorkspaceInviteStatusInputDto
+  ) {
+    await this.workspacesService.updateInviteStatus({
+      workspaceId,
+      discordUserId,
+      status,
+    });
+  }
+
+  @Get("/:workspaceId")
+  async getWorkspace(
+    @DiscordAccessToken()
+    { discord: { id: discordUserId } }: SessionAccessToken,
+    @Param("workspaceId", GetWorkspacePipe())
+    { workspace }: GetWorkspacePipeOutput
+  ) {
+    const [benefits, feedCount] = await Promise.all([
+      this.workspacesService.getBenefitsOfWorkspace(workspace._id),
+      this.workspacesService.getFeedCountOfWorkspace(workspace._id),
+    ]);
+
+    return {
+      result: {
+        ...this.formatWorkspace(workspace, discordUserId),
+        feedCount,
+        maxFeeds: benefits.maxUserFeeds,
+        refreshRateSeconds: benefits.refreshRateSeconds,
+        maxDailyArticles: benefits.maxDailyArticles,
+      },
+    };
+  }
+
+  @Patch("/:workspaceId")
+  async updateWorkspace(
+    @DiscordAccessToken()
+    { discord: { id: discordUserId } }: SessionAccessToken,
+    @Param("workspaceId", GetWorkspacePipe({ role: WorkspaceMemberRole.Admin }))
+    { workspace }: GetWorkspacePipeOutput,
+    @Body(ValidationPipe) { name }: UpdateWorkspaceInputDto
+  ) {
+    const updated = await this.workspacesService.updateWorkspace(
+      workspace._id,
+      { name }
+    );
+
+    return {
+      result: this.formatWorkspace(updated, discordUserId),
+    };
+  }
+
+  @Delete("/:workspaceId")
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteWorkspace(
+    @Param("workspaceId", GetWorkspacePipe({ role: WorkspaceMemberRole.Owner }))
+    { workspace }: GetWorkspacePipeOutput
+  ) {
+    await this.workspacesService.deleteWorkspace(workspace._id);
+  }
+
+  @Post("/:workspaceId/invites")
+  async createInvite(
+    @DiscordAccessToken()
+    { discord: { id: discordUserId } }: SessionAccessToken,
+    @Param("workspaceId", GetWorkspacePipe({ role: WorkspaceMemberRole.Admin }))
+    { workspace }: GetWorkspacePipeOutput,
+    @Body(ValidationPipe)
+    { discordUserId: inviteeId, role }: CreateWorkspaceInviteInputDto
+  ) {
+    const updated = await this.workspacesService.inviteMember(workspace._id, {
+      discordUserId: inviteeId,
+      role,
+    });
+
+    return {
+      result: this.formatWorkspace(updated, discordUserId),
+    };
+  }
+
+  @Delete("/:workspaceId/invites/:discordUserId")
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteInvite(
+    @Param("workspaceId", GetWorkspacePipe({ role: WorkspaceMemberRole.Admin }))
+    { workspace }: GetWorkspacePipeOutput,
+    @Param("discordUserId") inviteeId: string
+  ) {
+    await this.workspacesService.deleteInvite(workspace._id, inviteeId);
+  }
+
+  @Patch("/:workspaceId/members/:discordUserId")
+  async updateMember(
+    @DiscordAccessToken()
+    { discord: { id: discordUserId } }: SessionAccessToken,
+    @Param("workspaceId", GetWorkspacePipe({ role: WorkspaceMemberRole.Admin }))
+    { workspace, role: actorRole }: GetWorkspacePipeOutput,
+    @Param("discordUserId") memberId: string,
+    @Body(ValidationPipe) { role }: UpdateWorkspaceMemberInputDto
+  ) {
+    const updated = await this.workspacesService.updateMember(
+      workspace._id,
+      {
+        discordUserId: memberId,
+        role,
+      },
+      actorRole
+    );
+
+    return {
+      result: this.formatWorkspace(updated, discordUserId),
+    };
+  }
+
+  @Delete("/:workspaceId/members/:discordUserId")
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteMember(
+    @Param("workspaceId", GetWorkspacePipe({ role: WorkspaceMemberRole.Admin }))
+    { workspace, role: actorRole }: GetWorkspacePipeOutput,
+    @Param("discordUserId") memberId: string
+  ) {
+    await this.workspacesService.removeMember(
+      workspace._id,
+      memberId,
+      actorRole
+    );
+  }
+
+  @Post("/:workspaceId/feeds")
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async createFeeds(
+    @DiscordAccessToken()
+    { discord: { id: discordUserId } }: SessionAccessToken,
+    @Param("workspaceId", GetWorkspacePipe({ role: WorkspaceMemberRole.Admin }))
+    { workspace }: GetWorkspacePipeOutput,
+    @Body(ValidationPipe) { feedIds }: CreateWorkspaceFeedsInputDto
+  ) {
+    await this.workspacesService.addFeeds(workspace._id, {
+      discordUserId,
+      feedIds,
+    });
+  }
+
+  private formatWorkspace(workspace: Workspace, discordUserId: string) {
+    return {
+      id: workspace._id.toHexString(),
+      name: workspace.name,
+      role: this.workspacesService.getMemberRole(workspace, discordUserId),
+      members: workspace.members.map((member) => ({
+        discordUserId: member.discordUserId,
+        role: member.role,
+        createdAt: member.createdAt?.toISOString(),
+      })),
+      invites: (workspace.invites || []).map((invite) => ({
+        discordUserId: invite.discordUserId,
+        role: invite.role,
+        createdAt: invite.createdAt?.toISOString(),
+      })),
+      createdAt: workspace.createdAt.toISOString(),
+    };
+  }
+}
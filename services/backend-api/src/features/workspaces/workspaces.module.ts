@@ -0,0 +1,26 @@
+import { DynamicModule, Module } from "@nestjs/common";
+import { MongooseModule } from "@nestjs/mongoose";
+import { DiscordAuthModule } from "../discord-auth/discord-auth.module";
+import { SupportersModule } from "../supporters/supporters.module";
+import { UserFeedFeature } from "../user-feeds/entities";
+import { WorkspaceFeature } from "./entities";
+import { WorkspacesController } from "./workspaces.controller";
+import { WorkspacesService } from "./workspaces.service";
+
+@Module({
+  providers: [WorkspacesService],
+  imports: [
+    MongooseModule.forFeature([WorkspaceFeature, UserFeedFeature]),
+    SupportersModule,
+  ],
+  exports: [WorkspacesService],
+})
+export class WorkspacesModule {
+  static forRoot(): DynamicModule {
+    return {
+      module: WorkspacesModule,
+      controllers: [WorkspacesController],
+      imports: [DiscordAuthModule],
+    };
+  }
+}
@@ -0,0 +1,474 @@
+import { getModelToken, MongooseModule } from "@nestjs/mongoose";
+import { Types } from "mongoose";
+import {
+  setupIntegrationTests,
+  teardownIntegrationTests,
+} from "../../utils/integration-tests";
+import { MongooseTestModule } from "../../utils/mongoose-test.module";
+import { FeedLimitReachedException } from "../feeds/exceptions";
+import { SupportersService } from "../supporters/supporters.service";
+import {
+  UserFeed,
+  UserFeedFeature,
+  UserFeedModel,
+} from "../user-feeds/entities";
+import { WorkspaceInviteStatus, WorkspaceMemberRole } from "./constants";
+import { Workspace, WorkspaceFeature, WorkspaceModel } from "./entities";
+import {
+  WorkspaceFeedsNotFoundException,
+  WorkspaceHasFeedsException,
+  WorkspaceInviteNotFoundException,
+  WorkspaceMemberExistsException,
+  WorkspaceOwnerImmutableException,
+  WorkspaceOwnerRequiredException,
+} from "./exceptions";
+import { WorkspacesService } from "./workspaces.service";
+
+const ownerDiscordUserId = "owner-discord-user-id";
+const memberDiscordUserId = "member-discord-user-id";
+
+describe("WorkspacesService", () => {
+  let service: WorkspacesService;
+  let workspaceModel: WorkspaceModel;
+  let userFeedModel: UserFeedModel;
+  const supportersService = {
+    getBenefitsOfDiscordUser: jest.fn(),
+    defaultMaxUserFeeds: 5,
+    defaultRefreshRateSeconds: 600,
+    maxDailyArticlesDefault: 50,
+  };
+
+  beforeAll(async () => {
+    const { init } = await setupIntegrationTests({
+      providers: [
+        WorkspacesService,
+        {
+          provide: SupportersService,
+          useValue: supportersService,
+        },
+      ],
+      imports: [
+        MongooseTestModule.forRoot(),
+        MongooseModule.forFeature([WorkspaceFeature, UserFeedFeature]),
+      ],
+    });
+
+    const { module } = await init();
+    service = module.get(WorkspacesService);
+    workspaceModel = module.get<WorkspaceModel>(getModelToken(Workspace.name));
+    userFeedModel = module.get<UserFeedModel>(getModelToken(UserFeed.name));
+  });
+
+  beforeEach(() => {
+    supportersService.getBenefitsOfDiscordUser.mockResolvedValue({
+      isSupporter: false,
+      maxUserFeeds: 1,
+      refreshRateSeconds: 600,
+      maxDailyArticles: 50,
+    });
+  });
+
+  afterEach(async () => {
+    jest.resetAllMocks();
+    await workspaceModel?.deleteMany({});
+    await userFeedModel?.deleteMany({});
+  });
+
+  afterAll(async () => {
+    await teardownIntegrationTests();
+  });
+
+  const createFeed = (discordUserId: string, workspaceId?: Types.ObjectId) =>
+    userFeedModel.create({
+      title: "title",
+      url: "https://www.feed.com",
+      user: {
+        discordUserId,
+      },
+      workspaceId,
+    });
+
+  const addMember = async (
+    workspaceId: Types.ObjectId,
+    discordUserId: string,
+    role: WorkspaceMemberRole
+  ) => {
+    await service.inviteMember(workspaceId, { discordUserId, role });
+    await service.updateInviteStatus({
+      workspaceId: workspaceId.toHexString(),
+      discordUserId,
+      status: WorkspaceInviteStatus.Accepted,
+    });
+  };
+
+  describe("createWorkspace", () => {
+    it("adds the creator as the owner", async () => {
+      const workspace = await service.createWorkspace({
+        ownerDiscordUserId,
+        name: "name",
+      });
+
+      expect(workspace.members).toEqual([
+        expect.objectContaining({
+          discordUserId: ownerDiscordUserId,
+          role: WorkspaceMemberRole.Owner,
+        }),
+      ]);
+    });
+  });
+
+  describe("inviteMember", () => {
+    it("throws if the user is already a member", async () => {
+      const workspace = await service.createWorkspace({
+        ownerDiscordUserId,
+        name: "name",
+      });
+
+      await expect(
+        service.inviteMember(workspace._id, {
+          discordUserId: ownerDiscordUserId,
+          role: WorkspaceMemberRole.Editor,
+        })
+      ).rejects.toThrow(WorkspaceMemberExistsException);
+    });
+
+    it("throws if the user is already invited", async () => {
+      const workspace = await service.createWorkspace({
+        ownerDiscordUserId,
+        name: "name",
+      });
+      await service.inviteMember(workspace._id, {
+        discordUserId: memberDiscordUserId,
+        role: WorkspaceMemberRole.Editor,
+      });
+
+      await expect(
+        service.inviteMember(workspace._id, {
+          discordUserId: memberDiscordUserId,
+          role: WorkspaceMemberRole.Editor,
+        })
+      ).rejects.toThrow(WorkspaceMemberExistsException);
+    });
+
+    it("does not make the user a member until they accept", async () => {
+      const workspace = await service.createWorkspace({
+        ownerDiscordUserId,
+        name: "name",
+      });
+
+      await service.inviteMember(workspace._id, {
+        discordUserId: memberDiscordUserId,
+        role: WorkspaceMemberRole.Editor,
+      });
+
+      await expect(
+        service.getWorkspaceOfMember({
+          workspaceId: workspace._id.toHexString(),
+          discordUserId: memberDiscordUserId,
+        })
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe("updateInviteStatus", () => {
+    it("adds the user as a member with the invited role on accept", async () => {
+      const workspace = await service.createWorkspace({
+        ownerDiscordUserId,
+        name: "name",
+      });
+
+      await addMember(
+        workspace._id,
+        memberDiscordUserId,
+        WorkspaceMemberRole.Editor
+      );
+
+      const updated = await workspaceModel.findById(workspace._id).lean();
+
+      expect(updated?.invites).toHaveLength(0);
+      expect(updated?.members).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            discordUserId: memberDiscordUserId,
+            role: WorkspaceMemberRole.Editor,
+          }),
+        ])
+      );
+    });
+
+    it("removes the invite on decline", async () => {
+      const workspace = await service.createWorkspace({
+        ownerDiscordUserId,
+        name: "name",
+      });
+      await service.inviteMember(workspace._id, {
+        discordUserId: memberDiscordUserId,
+        role: WorkspaceMemberRole.Editor,
+      });
+
+      await service.updateInviteStatus({
+        workspaceId: workspace._id.toHexString(),
+        discordUserId: memberDiscordUserId,
+        status: WorkspaceInviteStatus.Declined,
+      });
+
+      const updated = await workspaceModel.findById(workspace._id).lean();
+
+      expect(updated?.invites).toHaveLength(0);
+      expect(updated?.members).toHaveLength(1);
+    });
+
+    it("throws if the user was not invited", async () => {
+      const workspace = await service.createWorkspace({
+        ownerDiscordUserId,
+        name: "name",
+      });
+
+      await expect(
+        service.updateInviteStatus({
+          workspaceId: workspace._id.toHexString(),
+          discordUserId: memberDiscordUserId,
+          status: WorkspaceInviteStatus.Accepted,
+        })
+      ).rejects.toThrow(WorkspaceInviteNotFoundException);
+    });
+  });
+
+  describe("updateMember", () => {
+    it("does not allow admins to change other admins", async () => {
+      const workspace = await service.createWorkspace({
+        ownerDiscordUserId,
+        name: "name",
+      });
+      await addMember(
+        workspace._id,
+        memberDiscordUserId,
+        WorkspaceMemberRole.Admin
+      );
+
+      await expect(
+        service.updateMember(
+          workspace._id,
+          {
+            discordUserId: memberDiscordUserId,
+            role: WorkspaceMemberRole.Viewer,
+          },
+          WorkspaceMemberRole.Admin
+        )
+      ).rejects.toThrow(WorkspaceOwnerRequiredException);
+    });
+
+    it("allows the owner to change admins", async () => {
+      const workspace = await service.createWorkspace({
+        ownerDiscordUserId,
+        name: "name",
+      });
+      await addMember(
+        workspace._id,
+        memberDiscordUserId,
+        WorkspaceMemberRole.Admin
+      );
+
+      const updated = await service.updateMember(
+        workspace._id,
+        {
+          discordUserId: memberDiscordUserId,
+          role: WorkspaceMemberRole.Viewer,
+        },
+        WorkspaceMemberRole.Owner
+      );
+
+      expect(service.getMemberRole(updated, memberDiscordUserId)).toEqual(
+        WorkspaceMemberRole.Viewer
+      );
+    });
+  });
+
+  describe("removeMember", () => {
+    it("does not allow the owner to be removed", async () => {
+      const workspace = await service.createWorkspace({
+        ownerDiscordUserId,
+        name: "name",
+      });
+
+      await expect(
+        service.removeMember(
+          workspace._id,
+          ownerDiscordUserId,
+          WorkspaceMemberRole.Owner
+        )
+      ).rejects.toThrow(WorkspaceOwnerImmutableException);
+    });
+
+    it("does not allow admins to remove other admins", async () => {
+      const workspace = await service.createWorkspace({
+        ownerDiscordUserId,
+        name: "name",
+      });
+      await addMember(
+        workspace._id,
+        memberDiscordUserId,
+        WorkspaceMemberRole.Admin
+      );
+
+      await expect(
+        service.removeMember(
+          workspace._id,
+          memberDiscordUserId,
+          WorkspaceMemberRole.Admin
+        )
+      ).rejects.toThrow(WorkspaceOwnerRequiredException);
+    });
+
+    it("removes the member", async () => {
+      const workspace = await service.createWorkspace({
+        ownerDiscordUserId,
+        name: "name",
+      });
+      await addMember(
+        workspace._id,
+        memberDiscordUserId,
+        WorkspaceMemberRole.Viewer
+      );
+
+      await service.removeMember(
+        workspace._id,
+        memberDiscordUserId,
+        WorkspaceMemberRole.Admin
+      );
+
+      const updated = await workspaceModel.findById(workspace._id).lean();
+
+      expect(updated?.members).toHaveLength(1);
+    });
+  });
+
+  describe("deleteWorkspace", () => {
+    it("throws if the workspace still has feeds", async () => {
+      const workspace = await service.createWorkspace({
+        ownerDiscordUserId,
+        name: "name",
+      });
+      await createFeed(ownerDiscordUserId, workspace._id);
+
+      await expect(service.deleteWorkspace(workspace._id)).rejects.toThrow(
+        WorkspaceHasFeedsException
+      );
+    });
+  });
+
+  describe("addFeeds", () => {
+    it("moves the personal feeds of the user into the workspace", async () => {
+      const workspace = await service.createWorkspace({
+        ownerDiscordUserId,
+        name: "name",
+      });
+      const feed = await createFeed(ownerDiscordUserId);
+
+      await service.addFeeds(workspace._id, {
+        discordUserId: ownerDiscordUserId,
+        feedIds: [feed._id.toHexString()],
+      });
+
+      const updated = await userFeedModel.findById(feed._id).lean();
+
+      expect(updated?.workspaceId).toEqual(workspace._id);
+    });
+
+    it("throws if a feed is owned by someone else", async () => {
+      const workspace = await service.createWorkspace({
+        ownerDiscordUserId,
+        name: "name",
+      });
+      const feed = await createFeed(memberDiscordUserId);
+
+      await expect(
+        service.addFeeds(workspace._id, {
+          discordUserId: ownerDiscordUserId,
+          feedIds: [feed._id.toHexString()],
+        })
+      ).rejects.toThrow(WorkspaceFeedsNotFoundException);
+    });
+
+    it("throws if the workspace feed limit would be exceeded", async () => {
+      const workspace = await service.createWorkspace({
+        ownerDiscordUserId,
+        name: "name",
+      });
+      const feeds = await Promise.all([
+        createFeed(ownerDiscordUserId),
+        createFeed(ownerDiscordUserId),
+      ]);
+
+      await expect(
+        service.addFeeds(workspace._id, {
+          discordUserId: ownerDiscordUserId,
+          feedIds: feeds.map((f) => f._id.toHexString()),
+        })
+      ).rejects.toThrow(FeedLimitReachedException);
+    });
+  });
+
+  describe("getBenefitsOfWorkspace", () => {
+    it("only counts the feed limit of a member in their first workspace", async () => {
+      const first = await service.createWorkspace({
+        ownerDiscordUserId,
+        name: "first",
+      });
+      const second = await service.createWorkspace({
+        ownerDiscordUserId,
+        name: "second",
+      });
+
+      const [firstBenefits, secondBenefits] = await Promise.all([
+        service.getBenefitsOfWorkspace(first._id),
+        service.getBenefitsOfWorkspace(second._id),
+      ]);
+
+      expect(firstBenefits.maxUserFeeds).toEqual(1);
+      expect(secondBenefits.maxUserFeeds).toEqual(0);
+    });
+
+    it("reduces the feed limit of a member by their personal feeds", async () => {
+      const workspace = await service.createWorkspace({
+        ownerDiscordUserId,
+        name: "name",
+      });
+      await createFeed(ownerDiscordUserId);
+
+      const benefits = await service.getBenefitsOfWorkspace(workspace._id);
+
+      expect(benefits.maxUserFeeds).toEqual(0);
+    });
+  });
+
+  describe("syncFeedBenefits", () => {
+    it("applies the pooled refresh rate of members to workspace feeds", async () => {
+      const workspace = await service.createWorkspace({
+        ownerDiscordUserId,
+        name: "name",
+      });
+      await addMember(
+        workspace._id,
+        memberDiscordUserId,
+        WorkspaceMemberRole.Viewer
+      );
+      const feed = await createFeed(ownerDiscordUserId, workspace._id);
+
+      await service.syncFeedBenefits([
+        {
+          discordUserId: memberDiscordUserId,
+          isSupporter: true,
+          maxUserFeeds: 35,
+          refreshRateSeconds: 120,
+          maxDailyArticles: 500,
+        },
+      ]);
+
+      const updated = await userFeedModel.findById(feed._id).lean();
+
+      expect(updated?.refreshRateSeconds).toEqual(120);
+      expect(updated?.maxDailyArticles).toEqual(500);
+    });
+  });
+});
@@ -0,0 +1,824 @@
+import { Injectable } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Types } from "mongoose";
+import { FeedLimitReachedException } from "../feeds/exceptions";
+import { SupportersService } from "../supporters/supporters.service";
+import { UserFeedDisabledCode } from "../user-feeds/types";
+import { UserFeed, UserFeedModel } from "../user-feeds/entities";
+import { WorkspaceInviteStatus, WorkspaceMemberRole } from "./constants";
+import { Workspace, WorkspaceModel } from "./entities";
+import {
+  WorkspaceFeedsNotFoundException,
+  WorkspaceHasFeedsException,
+  WorkspaceInviteNotFoundException,
+  WorkspaceMemberExistsException,
+  WorkspaceMemberNotFoundException,
+  WorkspaceNotFoundException,
+  WorkspaceOwnerImmutableException,
+  WorkspaceOwnerRequiredException,
+} from "./exceptions";
+import { WorkspaceBenefits } from "./types";
+import { getFeedLimitWorkspaceIds, poolWorkspaceBenefits } from "./utils";
+
+type AllDiscordUserBenefits = Awaited<
+  ReturnType<SupportersService["getBenefitsOfAllDiscordUsers"]>
+>;
+
+@Injectable()
+export class WorkspacesService {
+  constructor(
+    @InjectModel(Workspace.name)
+    private readonly workspaceModel: WorkspaceModel,
+    @InjectModel(UserFeed.name)
+    private readonly userFeedModel: UserFeedModel,
+    private readonly supportersService: SupportersService
+  ) {}
+
+  async createWorkspace({
+    ownerDiscordUserId,
+    name,
+  }: {
+    ownerDiscordUserId: string;
+    name: string;
+  }) {
+    const workspace = await this.workspaceModel.create({
+      name,
+      members: [
+        {
+          discordUserId: ownerDiscordUserId,
+          role: WorkspaceMemberRole.Owner,
+        },
+      ],
+    });
+
+    return workspace.toObject() as Workspace;
+  }
+
+  async getWorkspacesOfUser(discordUserId: string) {
+    return this.workspaceModel
+      .find({
+        "members.discordUserId": discordUserId,
+      })
+      .sort({ createdAt: 1 })
+      .lean();
+  }
+
+  /**
+   * @returns Undefined if the workspace does not exist or if the user is not a member of it
+   */
+  async getWorkspaceOfMember({
+    workspaceId,
+    discordUserId,
+  }: {
+    workspaceId: string;
+    discordUserId: string;
+  }) {
+    if (!Types.ObjectId.isValid(workspaceId)) {
+      return undefined;
+    }
+
+    const workspace = await this.workspaceModel
+      .findOne({
+        _id: new Types.ObjectId(workspaceId),
+        "members.discordUserId": discordUserId,
+      })
+      .lean();
+
+    if (!workspace) {
+      return undefined;
+    }
+
+    return {
+      workspace,
+      role: this.getMemberRole(workspace, discordUserId) as WorkspaceMemberRole,
+    };
+  }
+
+  /**
+   * Get the roles of a user within multiple workspaces, keyed by workspace ID. Workspaces that the
+   * user is not a member of are omitted.
+   */
+  async getMemberRolesOfUser(
+    workspaceIds: Types.ObjectId[],
+    discordUserId: string
+  ) {
+    const roles = new Map<string, WorkspaceMemberRole>();
+
+    if (!workspaceIds.length) {
+      return roles;
+    }
+
+    const workspaces = await this.workspaceModel
+      .find({
+        _id: {
+          $in: workspaceIds,
+        },
+        "members.discordUserId": discordUserId,
+      })
+      .select("members")
+      .lean();
+
+    workspaces.forEach((workspace) => {
+      const role = this.getMemberRole(workspace, discordUserId);
+
+      if (role) {
+        roles.set(workspace._id.toHexString(), role);
+      }
+    });
+
+    return roles;
+  }
+
+  getMemberRole(
+    workspace: Pick<Workspace, "members">,
+    discordUserId: string
+  ): WorkspaceMemberRole | undefined {
+    return workspace.members.find((m) => m.discordUserId === discordUserId)
+      ?.role;
+  }
+
+  async updateWorkspace(
+    workspaceId: Types.ObjectId,
+    { name }: { name?: string }
+  ) {
+    const updated = await this.workspaceModel
+      .findByIdAndUpdate(
+        workspaceId,
+        {
+          $set: {
+            ...(name && { name }),
+          },
+        },
+        {
+          new: true,
+        }
+      )
+      .lean();
+
+    if (!updated) {
+      throw new WorkspaceNotFoundException(
+        `Workspace ${workspaceId} was not found while updating`
+      );
+    }
+
+    return updated;
+  }
+
+  async deleteWorkspace(workspaceId: Types.ObjectId) {
+    const feedCount = await this.getFeedCountOfWorkspace(workspaceId);
+
+    if (feedCount > 0) {
+      throw new WorkspaceHasFeedsException(
+        `Workspace ${workspaceId} still has ${feedCount} feeds`
+      );
+    }
+
+    await this.workspaceModel.deleteOne({
+      _id: workspaceId,
+    });
+  }
+
+  /**
+   * Invited users only become members, and only have their benefits pooled, once they accept
+   */
+  async inviteMember(
+    workspaceId: Types.ObjectId,
+    {
+      discordUserId,
+      role,
+    }: { discordUserId: string; role: WorkspaceMemberRole }
+  ) {
+    const updated = await this.workspaceModel
+      .findOneAndUpdate(
+        {
+          _id: workspaceId,
+          "members.discordUserId": {
+            $ne: discordUserId,
+          },
+          "invites.discordUserId": {
+            $ne: discordUserId,
+          },
+        },
+        {
+          $push: {
+            invites: {
+              discordUserId,
+              role,
+            },
+          },
+        },
+        {
+          new: true,
+        }
+      )
+      .lean();
+
+    if (!updated) {
+      throw new WorkspaceMemberExistsException(
+        `User ${discordUserId} is already a member of or invited to workspace ${workspaceId}`
+      );
+    }
+
+    return updated;
+  }
+
+  async getInvitesOfUser(discordUserId: string) {
+    return this.workspaceModel
+      .find({
+        "invites.discordUserId": discordUserId,
+      })
+      .select("name invites")
+      .sort({ createdAt: 1 })
+      .lean();
+  }
+
+  async updateInviteStatus({
+    workspaceId,
+    discordUserId,
+    status,
+  }: {
+    workspaceId: string;
+    discordUserId: string;
+    status: WorkspaceInviteStatus;
+  }) {
+    const workspace = Types.ObjectId.isValid(workspaceId)
+      ? await this.workspaceModel
+          .findOne({
+            _id: new Types.ObjectId(workspaceId),
+            "invites.discordUserId": discordUserId,
+          })
+          .select("invites")
+          .lean()
+      : null;
+
+    const invite = workspace?.invites.find(
+      (i) => i.discordUserId === discordUserId
+    );
+
+    if (!workspace || !invite) {
+      throw new WorkspaceInviteNotFoundException(
+        `User ${discordUserId} has no invite to workspace ${workspaceId}`
+      );
+    }
+
+    const result = await this.workspaceModel.updateOne(
+      {
+        _id: workspace._id,
+        "invites.discordUserId": discordUserId,
+        "members.discordUserId": {
+          $ne: discordUserId,
+        },
+      },
+      {
+        $pull: {
+          invites: {
+            discordUserId,
+          },
+        },
+        ...(status === WorkspaceInviteStatus.Accepted && {
+          $push: {
+            members: {
+              discordUserId,
+              role: invite.role,
+            },
+          },
+        }),
+      }
+    );
+
+    if (!result.modifiedCount) {
+      throw new WorkspaceInviteNotFoundException(
+        `User ${discordUserId} has no invite to workspace ${workspaceId}`
+      );
+    }
+  }
+
+  async deleteInvite(workspaceId: Types.ObjectId, discordUserId: string) {
+    const result = await this.workspaceModel.updateOne(
+      {
+        _id: workspaceId,
+        "invites.discordUserId": discordUserId,
+      },
+      {
+        $pull: {
+          invites: {
+            discordUserId,
+          },
+        },
+      }
+    );
+
+    if (!result.modifiedCount) {
+      throw new WorkspaceInviteNotFoundException(
+        `User ${discordUserId} has no invite to workspace ${workspaceId}`
+      );
+    }
+  }
+
+  /**
+   * @param actorRole The role of the user making the change. Only owners may change admins.
+   */
+  async updateMember(
+    workspaceId: Types.ObjectId,
+    {
+      discordUserId,
+      role,
+    }: { discordUserId: string; role: WorkspaceMemberRole },
+    actorRole: WorkspaceMemberRole
+  ) {
+    await this.assertMemberIsManageable(workspaceId, discordUserId, actorRole);
+
+    const updated = await this.workspaceModel
+      .findOneAndUpdate(
+        {
+          _id: workspaceId,
+          "members.discordUserId": discordUserId,
+        },
+        {
+          $set: {
+            "members.$.role": role,
+          },
+        },
+        {
+          new: true,
+        }
+      )
+      .lean();
+
+    if (!updated) {
+      throw new WorkspaceMemberNotFoundException(
+        `User ${discordUserId} is not a member of workspace ${workspaceId}`
+      );
+    }
+
+    return updated;
+  }
+
+  /**
+   * @param actorRole The role of the user removing the member. Only owners may remove admins.
+   */
+  async removeMember(
+    workspaceId: Types.ObjectId,
+    discordUserId: string,
+    actorRole: WorkspaceMemberRole
+  ) {
+    await this.assertMemberIsManageable(workspaceId, discordUserId, actorRole);
+
+    const result = await this.workspaceModel.updateOne(
+      {
+        _id: workspaceId,
+        "members.discordUserId": discordUserId,
+      },
+      {
+        $pull: {
+          members: {
+            discordUserId,
+          },
+        },
+      }
+    );
+
+    if (!result.modifiedCount) {
+      throw new WorkspaceMemberNotFoundException(
+        `User ${discordUserId} is not a member of workspace ${workspaceId}`
+      );
+    }
+  }
+
+  /**
+   * Move personal feeds of a user into a workspace. The feeds then count towards the limits of the
+   * workspace instead of the user, which frees up the part of the user's limit that they contribute
+   * to the workspace.
+   */
+  async addFeeds(
+    workspaceId: Types.ObjectId,
+    { discordUserId, feedIds }: { discordUserId: string; feedIds: string[] }
+  ) {
+    const uniqueFeedIds = Array.from(new Set(feedIds)).map(
+      (id) => new Types.ObjectId(id)
+    );
+
+    const feedCount = await this.userFeedModel.countDocuments({
+      _id: {
+        $in: uniqueFeedIds,
+      },
+      "user.discordUserId": discordUserId,
+      workspaceId: {
+        $exists: false,
+      },
+    });
+
+    if (feedCount !== uniqueFeedIds.length) {
+      throw new WorkspaceFeedsNotFoundException(
+        `Some feeds do not exist, are not owned by user ${discordUserId}, or already belong` +
+          ` to a workspace`
+      );
+    }
+
+    const [{ maxUserFeeds }, currentFeedCount] = await Promise.all([
+      this.getBenefitsOfWorkspace(workspaceId, {
+        movedPersonalFeeds: {
+          discordUserId,
+          count: feedCount,
+        },
+      }),
+      this.getFeedCountOfWorkspace(workspaceId),
+    ]);
+
+    if (currentFeedCount + feedCount > maxUserFeeds) {
+      throw new FeedLimitReachedException("Max feeds reached");
+    }
+
+    await this.userFeedModel.updateMany(
+      {
+        _id: {
+          $in: uniqueFeedIds,
+        },
+      },
+      {
+        $set: {
+          workspaceId,
+        },
+      }
+    );
+  }
+
+  async getFeedCountOfWorkspace(workspaceId: Types.ObjectId) {
+    return this.userFeedModel.countDocuments({
+      workspaceId,
+    });
+  }
+
+  /**
+   * @param options.movedPersonalFeeds Personal feeds that are about to be moved into the workspace,
+   * and should no longer count towards the personal feeds of their owner
+   */
+  async getBenefitsOfWorkspace(
+    workspaceId: Types.ObjectId,
+    options?: {
+      movedPersonalFeeds?: { discordUserId: string; count: number };
+    }
+  ): Promise<
+    WorkspaceBenefits & {
+      articleRateLimits: Array<{ max: number; timeWindowSeconds: number }>;
+    }
+  > {
+    const workspace = await this.workspaceModel
+      .findById(workspaceId)
+      .select("members")
+      .lean();
+
+    if (!workspace) {
+      throw new WorkspaceNotFoundException(
+        `Workspace ${workspaceId} was not found while getting benefits`
+      );
+    }
+
+    const memberDiscordUserIds = workspace.members.map(
+      ({ discordUserId }) => discordUserId
+    );
+
+    const [memberBenefits, workspacesOfMembers] = await Promise.all([
+      Promise.all(
+        memberDiscordUserIds.map((discordUserId) =>
+          this.supportersService.getBenefitsOfDiscordUser(discordUserId)
+        )
+      ),
+      this.workspaceModel
+        .find({
+          "members.discordUserId": {
+            $in: memberDiscordUserIds,
+          },
+        })
+        .select("members")
+        .lean(),
+    ]);
+
+    const benefitsByDiscordUserId = new Map(
+      memberDiscordUserIds.map((discordUserId, index) => [
+        discordUserId,
+        memberBenefits[index],
+      ])
+    );
+
+    const [{ benefits }] = await this.poolBenefitsOfWorkspaces({
+      workspaces: [workspace],
+      workspacesOfMembers,
+      getBenefitsOfMember: (discordUserId) =>
+        benefitsByDiscordUserId.get(discordUserId) as WorkspaceBenefits,
+      movedPersonalFeeds: options?.movedPersonalFeeds,
+    });
+
+    return {
+      ...benefits,
+      articleRateLimits: [
+        {
+          max: benefits.maxDailyArticles,
+          timeWindowSeconds: 86400,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Apply the pooled refresh rates and daily article limits of every workspace to its feeds
+   */
+  async syncFeedBenefits(allBenefits: AllDiscordUserBenefits) {
+    const workspaceBenefits = await this.getBenefitsOfAllWorkspaces(
+      allBenefits
+    );
+
+    for (const { workspaceId, benefits } of workspaceBenefits) {
+      await this.userFeedModel.updateMany(
+        {
+          workspaceId,
+          refreshRateSeconds: {
+            $ne: benefits.refreshRateSeconds,
+          },
+        },
+        {
+          $set: {
+            refreshRateSeconds: benefits.refreshRateSeconds,
+          },
+          $unset: {
+            adaptiveRefreshRateSeconds: "",
+          },
+        }
+      );
+
+      await this.userFeedModel.updateMany(
+        {
+          workspaceId,
+          userRefreshRateSeconds: {
+            $lt: benefits.refreshRateSeconds,
+          },
+        },
+        {
+          $unset: {
+            userRefreshRateSeconds: "",
+            adaptiveRefreshRateSeconds: "",
+          },
+        }
+      );
+
+      await this.userFeedModel.updateMany(
+        {
+          workspaceId,
+          maxDailyArticles: {
+            $ne: benefits.maxDailyArticles,
+          },
+        },
+        {
+          $set: {
+            maxDailyArticles: benefits.maxDailyArticles,
+          },
+        }
+      );
+    }
+  }
+
+  /**
+   * Disable or re-enable the feeds of every workspace according to their pooled feed limits
+   */
+  async enforceFeedLimits(allBenefits: AllDiscordUserBenefits) {
+    const workspaceBenefits = await this.getBenefitsOfAllWorkspaces(
+      allBenefits
+    );
+
+    for (const {
+      workspaceId,
+      benefits: { maxUserFeeds },
+    } of workspaceBenefits) {
+      const enabledFeedCount = await this.userFeedModel.countDocuments({
+        workspaceId,
+        disabledCode: {
+          $ne: UserFeedDisabledCode.ExceededFeedLimit,
+        },
+      });
+
+      if (enabledFeedCount > maxUserFeeds) {
+        const docs = await this.userFeedModel
+          .find({
+            workspaceId,
+            disabledCode: {
+              $ne: UserFeedDisabledCode.ExceededFeedLimit,
+            },
+          })
+          .sort({
+            // Disable the oldest feeds first
+            createdAt: 1,
+          })
+          .limit(enabledFeedCount - maxUserFeeds)
+          .select("_id")
+          .lean();
+
+        await this.userFeedModel.updateMany(
+          {
+            _id: {
+              $in: docs.map((doc) => doc._id),
+            },
+          },
+          {
+            $set: {
+              disabledCode: UserFeedDisabledCode.ExceededFeedLimit,
+            },
+          }
+        );
+      } else if (enabledFeedCount < maxUserFeeds) {
+        const docs = await this.userFeedModel
+          .find({
+            workspaceId,
+            disabledCode: UserFeedDisabledCode.ExceededFeedLimit,
+          })
+          .sort({
+            // Re-enable the newest feeds first
+            createdAt: -1,
+          })
+          .limit(maxUserFeeds - enabledFeedCount)
+          .select("_id")
+          .lean();
+
+        if (docs.length) {
+          await this.userFeedModel.updateMany(
+            {
+              _id: {
+                $in: docs.map((doc) => doc._id),
+              },
+            },
+            {
+              $unset: {
+                disabledCode: "",
+              },
+            }
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Members that are not within the list of all benefits are assumed to have the default benefits
+   */
+  private async getBenefitsOfAllWorkspaces(
+    allBenefits: AllDiscordUserBenefits
+  ) {
+    const benefitsByDiscordUserId = new Map(
+      allBenefits.map((b) => [b.discordUserId, b])
+    );
+
+    const defaultBenefits: WorkspaceBenefits = {
+      isSupporter: false,
+      maxUserFeeds: this.supportersService.defaultMaxUserFeeds,
+      refreshRateSeconds: this.supportersService.defaultRefreshRateSeconds,
+      maxDailyArticles: this.supportersService.maxDailyArticlesDefault,
+    };
+
+    const workspaces = await this.workspaceModel
+      .find({
+        "members.0": {
+          $exists: true,
+        },
+      })
+      .select("members")
+      .lean();
+
+    return this.poolBenefitsOfWorkspaces({
+      workspaces,
+      workspacesOfMembers: workspaces,
+      getBenefitsOfMember: (discordUserId) =>
+        benefitsByDiscordUserId.get(discordUserId) || defaultBenefits,
+    });
+  }
+
+  /**
+   * A member's feed limit is only pooled into one of their workspaces, and is reduced by the
+   * personal feeds they already have. Their other workspaces only get their refresh rate and daily
+   * article limit.
+   *
+   * @param workspacesOfMembers Every workspace that the members belong to, to decide which
+   * workspace each feed limit is pooled into
+   */
+  private async poolBenefitsOfWorkspaces({
+    workspaces,
+    workspacesOfMembers,
+    getBenefitsOfMember,
+    movedPersonalFeeds,
+  }: {
+    workspaces: Array<Pick<Workspace, "_id" | "members">>;
+    workspacesOfMembers: Array<Pick<Workspace, "_id" | "members">>;
+    getBenefitsOfMember: (discordUserId: string) => WorkspaceBenefits;
+    movedPersonalFeeds?: { discordUserId: string; count: number };
+  }) {
+    const feedLimitWorkspaceIds = getFeedLimitWorkspaceIds(workspacesOfMembers);
+
+    const contributingDiscordUserIds = workspaces.flatMap(({ _id, members }) =>
+      members
+        .filter(
+          ({ discordUserId }) =>
+            feedLimitWorkspaceIds.get(discordUserId) === _id.toHexString()
+        )
+        .map(({ discordUserId }) => discordUserId)
+    );
+
+    const personalFeedCounts = await this.getPersonalFeedCounts(
+      contributingDiscordUserIds
+    );
+
+    if (movedPersonalFeeds) {
+      const { discordUserId, count } = movedPersonalFeeds;
+
+      personalFeedCounts.set(
+        discordUserId,
+        (personalFeedCounts.get(discordUserId) || 0) - count
+      );
+    }
+
+    return workspaces.map(({ _id, members }) => ({
+      workspaceId: _id,
+      benefits: poolWorkspaceBenefits(
+        members.map(({ discordUserId }) => {
+          const benefits = getBenefitsOfMember(discordUserId);
+
+          if (feedLimitWorkspaceIds.get(discordUserId) !== _id.toHexString()) {
+            return {
+              ...benefits,
+              maxUserFeeds: 0,
+            };
+          }
+
+          return {
+            ...benefits,
+            maxUserFeeds: Math.max(
+              0,
+              benefits.maxUserFeeds -
+                (personalFeedCounts.get(discordUserId) || 0)
+            ),
+          };
+        })
+      ),
+    }));
+  }
+
+  private async getPersonalFeedCounts(discordUserIds: string[]) {
+    const counts = new Map<string, number>();
+
+    if (!discordUserIds.length) {
+      return counts;
+    }
+
+    const results: Array<{ _id: string; count: number }> =
+      await this.userFeedModel.aggregate([
+        {
+          $match: {
+            "user.discordUserId": {
+              $in: discordUserIds,
+            },
+            workspaceId: {
+              $exists: false,
+            },
+          },
+        },
+        {
+          $group: {
+            _id: "$user.discordUserId",
+            count: {
+              $sum: 1,
+            },
+          },
+        },
+      ]);
+
+    results.forEach(({ _id, count }) => counts.set(_id, count));
+
+    return counts;
+  }
+
+  private async assertMemberIsManageable(
+    workspaceId: Types.ObjectId,
+    discordUserId: string,
+    actorRole: WorkspaceMemberRole
+  ) {
+    const workspace = await this.workspaceModel
+      .findById(workspaceId)
+      .select("members")
+      .lean();
+
+    const role = workspace && this.getMemberRole(workspace, discordUserId);
+
+    if (role === WorkspaceMemberRole.Owner) {
+      throw new WorkspaceOwnerImmutableException(
+        `User ${discordUserId} is the owner of workspace ${workspaceId}`
+      );
+    }
+
+    if (
+      role === WorkspaceMemberRole.Admin &&
+      actorRole !== WorkspaceMemberRole.Owner
+    ) {
+      throw new WorkspaceOwnerRequiredException(
+        `User ${discordUserId} is an admin of workspace ${workspaceId}, and can only be changed` +
+          ` by the owner`
+      );
+    }
+  }
+}
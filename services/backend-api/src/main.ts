@@ -9,6 +9,10 @@ import { useContainer } from "class-validator";
 import fastifySession from "@fastify/secure-session";
 import { AppModule } from "./app.module";
 import { AllExceptionsFilter } from "./common/filters/all-exceptions.filter";
+import { AmqpConnection } from "@golevelup/nestjs-rabbitmq";
+import { startMetricsServer, trackQueueBacklog } from "@monitorss/metrics";
+import { MessageBrokerQueue } from "./common/constants/message-broker-queue.constants";
+import logger from "./utils/logger";
 
 import "dayjs/locale/af";
 import "dayjs/locale/am";
@@ -204,6 +208,27 @@ async function bootstrap() {
   console.log(`NestJS is listening on port ${port}`);
 
   await app.listen(port, "0.0.0.0");
+
+  const metricsPort = config.get<number>("BACKEND_API_METRICS_PORT");
+
+  if (metricsPort) {
+    trackQueueBacklog({
+      name: "backend_api_queue_messages",
+      channel: app.get(AmqpConnection).channel,
+      queues: [
+        MessageBrokerQueue.UrlFetchCompleted,
+        MessageBrokerQueue.UrlPushReceived,
+        MessageBrokerQueue.UrlFailedDisableFeeds,
+        MessageBrokerQueue.UrlRejectedDisableFeeds,
+        MessageBrokerQueue.FeedRejectedDisableFeed,
+        MessageBrokerQueue.FeedRejectedArticleDisableConnection,
+        MessageBrokerQueue.FeedActivityLevelChanged,
+        MessageBrokerQueue.SyncSupporterDiscordRoles,
+      ],
+      logger,
+    });
+    startMetricsServer({ port: metricsPort, logger });
+  }
 }
 
 bootstrap();
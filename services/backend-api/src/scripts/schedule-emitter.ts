@@ -4,6 +4,7 @@ import { AppModule } from "../app.module";
 import applyMongoMigrations from "../apply-mongo-migrations";
 import { ScheduleEmitterService } from "../features/schedule-emitter/schedule-emitter.service";
 import { ScheduleHandlerService } from "../features/schedule-handler/schedule-handler.service";
+import { NotificationsService } from "../features/notifications/notifications.service";
 import logger from "../utils/logger";
 
 bootstrap();
@@ -24,6 +25,10 @@ async function bootstrap() {
 
     await runTimerSync(app);
 
+    setInterval(() => {
+      runNoNewArticlesAlertChecks(app);
+    }, 1000 * 60 * 60);
+
     logger.info("Initiailized schedule emitter service");
   } catch (err) {
     logger.error(`Failed to initialize schedule emitter`, {
@@ -62,6 +67,19 @@ async function runTimerSync(app: INestApplicationContext) {
   }
 }
 
+async function runNoNewArticlesAlertChecks(app: INestApplicationContext) {
+  const notificationsService = app.get(NotificationsService);
+
+  try {
+    logger.debug(`Checking feeds for no new articles alerts`);
+    await notificationsService.sendNoNewArticlesAlerts();
+  } catch (err) {
+    logger.error(`Failed to check feeds for no new articles alerts`, {
+      stack: err.stack,
+    });
+  }
+}
+
 async function urlsEventHandler(
   app: INestApplicationContext,
   data: {
@@ -153,4 +153,70 @@ describe("DiscordAPIService", () => {
       expect(response).toEqual(webhook);
     });
   });
+
+  describe("sendChannelMessage", () => {
+    it("posts the payload to the channel", async () => {
+      const channelId = "123456789";
+      const payload = {
+        content: "hello world",
+      };
+
+      jest.spyOn(restHandler, "fetch").mockResolvedValue({
+        status: 200,
+        json: jest.fn().mockResolvedValue({ id: "message-id" }),
+      });
+
+      const response = await discordApi.sendChannelMessage(channelId, payload);
+
+      expect(restHandler.fetch).toHaveBeenCalledWith(
+        `https://discord.com/api/v9/channels/${channelId}/messages`,
+        {
+          method: "POST",
+          headers: expect.objectContaining({
+            Authorization: `Bot ${discordApi.BOT_TOKEN}`,
+          }),
+          body: JSON.stringify(payload),
+        }
+      );
+      expect(response).toEqual({ id: "message-id" });
+    });
+  });
+
+  describe("executeWebhook", () => {
+    const webhookUrl = "https://discord.com/api/webhooks/123/secret-token";
+
+    it("posts the payload without bot authorization", async () => {
+      const payload = {
+        content: "hello world",
+      };
+
+      jest.spyOn(restHandler, "fetch").mockResolvedValue({
+        status: 204,
+        json: jest.fn(),
+      });
+
+      await discordApi.executeWebhook(webhookUrl, payload);
+
+      expect(restHandler.fetch).toHaveBeenCalledWith(webhookUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(payload),
+      });
+    });
+
+    it("does not include the webhook token in errors", async () => {
+      jest.spyOn(restHandler, "fetch").mockResolvedValue({
+        status: 404,
+        json: jest.fn().mockResolvedValue({}),
+      });
+
+      const err = await discordApi
+        .executeWebhook(webhookUrl, {})
+        .catch((e) => e);
+
+      expect(err.message).not.toContain("secret-token");
+    });
+  });
 });
@@ -119,6 +119,52 @@ export class DiscordAPIService {
     return this.executeBotRequest(`/guilds/${guildId}/members/${userId}`);
   }
 
+  async createDirectMessageChannel(
+    recipientId: string
+  ): Promise<DiscordGuildChannel> {
+    return this.executeBotRequest(`/users/@me/channels`, {
+      method: "POST",
+      body: JSON.stringify({
+        recipient_id: recipientId,
+      }),
+    });
+  }
+
+  async sendChannelMessage(
+    channelId: string,
+    payload: Record<string, unknown>
+  ): Promise<{ id: string }> {
+    return this.executeBotRequest(`/channels/${channelId}/messages`, {
+      method: "POST",
+      body: JSON.stringify(payload),
+    });
+  }
+
+  /**
+   * Execute a webhook by its URL. The token is part of the URL, so no authorization is required.
+   *
+   * @param webhookUrl The full webhook URL, including its token
+   * @param payload The message payload
+   */
+  async executeWebhook(
+    webhookUrl: string,
+    payload: Record<string, unknown>
+  ): Promise<void> {
+    const res = await this.restHandler.fetch(webhookUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(payload),
+    });
+
+    await this.handleJSONResponseError({
+      res,
+      // Avoid leaking the webhook token into error messages
+      url: webhookUrl.replace(/\/[^/]+$/, "/[token]"),
+    });
+  }
+
   private async handleJSONResponseError({
     res,
     url,
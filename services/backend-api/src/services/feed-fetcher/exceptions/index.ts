@@ -14,3 +14,4 @@ export * from "./FeedFetchTimeoutException";
 export * from "./InvalidPreviewCustomPlaceholdersRegexException";
 export * from "./InvalidFiltersRegexException";
 export * from "./FeedInvalidSslCertException";
+export * from "./DeliveryMessageNotFoundException";
@@ -113,6 +113,25 @@ describe("FeedFetcherApiService", () => {
       expect(result).toEqual(mockResponse);
     });
 
+    it("returns the conditional request savings", async () => {
+      const mockResponse: FeedFetcherGetRequestsResponse = {
+        result: {
+          nextRetryTimestamp: null,
+          requests: [],
+          conditionalRequestSavings: {
+            notModifiedCount: 3,
+            bytesSaved: 300,
+          },
+        },
+      };
+
+      nock(host).get(endpoint).query(expectedQuery).reply(200, mockResponse);
+
+      const result = await service.getRequests(validPayload);
+
+      expect(result).toEqual(mockResponse);
+    });
+
     it("throws if status code is not ok", async () => {
       nock(host).get(endpoint).query(expectedQuery).reply(400, {});
 
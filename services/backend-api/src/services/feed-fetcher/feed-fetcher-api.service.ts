@@ -5,12 +5,14 @@ import { validate } from "class-validator";
 import { URLSearchParams } from "url";
 import { UnexpectedApiResponseException } from "../../common/exceptions";
 import logger from "../../utils/logger";
+import { FeedRequestLookupDetails } from "../feed-handler/types";
 import { FeedFetcherFetchFeedResponse } from "./types/feed-fetcher-fetch-feed-response.type";
 import { FeedFetcherGetRequestsResponse } from "./types/feed-fetcher-get-requests-response.type";
 
 interface FeedFetchOptions {
   getCachedResponse?: boolean;
   debug?: boolean;
+  lookupDetails?: FeedRequestLookupDetails | null;
 }
 
 @Injectable()
@@ -45,6 +47,8 @@ export class FeedFetcherApiService {
           url,
           executeFetch: options?.getCachedResponse ? false : true,
           debug: options?.debug,
+          lookupKey: options?.lookupDetails?.key,
+          headers: options?.lookupDetails?.headers,
         }),
         headers: {
           "Content-Type": "application/json",
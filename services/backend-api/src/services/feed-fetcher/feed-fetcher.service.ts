@@ -23,6 +23,7 @@ import { FeedFetcherApiService } from "./feed-fetcher-api.service";
 import { Readable } from "stream";
 import { FeedFetcherFetchStatus } from "./types/feed-fetcher-fetch-feed-response.type";
 import { FeedTooLargeException } from "./exceptions/FeedTooLargeException";
+import { FeedRequestLookupDetails } from "../feed-handler/types";
 
 interface FetchFeedOptions {
   formatTables?: boolean;
@@ -32,6 +33,7 @@ interface FetchFeedOptions {
     useServiceApi: boolean;
     useServiceApiCache: boolean;
     debug?: boolean;
+    lookupDetails?: FeedRequestLookupDetails | null;
   };
 }
 
@@ -59,6 +61,7 @@ export class FeedFetcherService {
       inputStream = await this.fetchFeedStreamFromApiService(url, {
         getCachedResponse: options.fetchOptions.useServiceApiCache,
         debug: options.fetchOptions.debug,
+        lookupDetails: options.fetchOptions.lookupDetails,
       });
     }
 
@@ -106,6 +109,7 @@ export class FeedFetcherService {
     options?: {
       getCachedResponse?: boolean;
       debug?: boolean;
+      lookupDetails?: FeedRequestLookupDetails | null;
     }
   ): Promise<NodeJS.ReadableStream> {
     const result = await this.feedFetcherApiService.fetchAndSave(url, options);
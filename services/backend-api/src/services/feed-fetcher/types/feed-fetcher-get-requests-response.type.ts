@@ -4,6 +4,7 @@ import {
   IsIn,
   IsInt,
   IsNumber,
+  Min,
   IsObject,
   IsOptional,
   IsPositive,
@@ -37,6 +38,18 @@ class Request {
   response: Response;
 }
 
+class ConditionalRequestSavings {
+  @IsInt()
+  @Min(0)
+  @Type(() => Number)
+  notModifiedCount: number;
+
+  @IsInt()
+  @Min(0)
+  @Type(() => Number)
+  bytesSaved: number;
+}
+
 class Result {
   @IsArray()
   @ValidateNested({ each: true })
@@ -48,6 +61,12 @@ class Result {
   @IsPositive()
   @Type(() => Number)
   nextRetryTimestamp: number | null;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ConditionalRequestSavings)
+  @IsObject()
+  conditionalRequestSavings?: ConditionalRequestSavings;
 }
 
 export class FeedFetcherGetRequestsResponse {
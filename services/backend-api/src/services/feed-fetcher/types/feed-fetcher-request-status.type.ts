@@ -5,4 +5,5 @@ export enum FeedFetcherRequestStatus {
   FETCH_ERROR = "FETCH_ERROR",
   PARSE_ERROR = "PARSE_ERROR",
   FETCH_TIMEOUT = "FETCH_TIMEOUT",
+  THROTTLED_BY_HOST = "THROTTLED_BY_HOST",
 }
@@ -6,6 +6,7 @@ import nock from "nock";
 import { ConfigService } from "@nestjs/config";
 import logger from "../../utils/logger";
 import {
+  DeliveryMessageNotFoundException,
   FeedArticleNotFoundException,
   FeedFetcherStatusException,
 } from "../feed-fetcher/exceptions";
@@ -347,4 +348,92 @@ describe("FeedHandlerService", () => {
       );
     });
   });
+
+  describe("deleteDeliveryMessage", () => {
+    const endpoint = `/v1/user-feeds/feed-id/delivery-logs/delivery-id/delete-message`;
+    const validPayload = {
+      feedId: "feed-id",
+      deliveryId: "delivery-id",
+      details: {
+        mediumId: "medium-id",
+        webhook: null,
+      },
+    };
+
+    it("returns the result on success", async () => {
+      const mockResponse = {
+        result: {
+          deletedCount: 1,
+          failedMessageIds: [],
+        },
+      };
+      nock(host)
+        .post(endpoint, validPayload.details)
+        .matchHeader("api-key", apiKey)
+        .reply(200, mockResponse);
+
+      const result = await service.deleteDeliveryMessage(validPayload);
+
+      expect(result).toEqual(mockResponse);
+    });
+
+    it("throws a special exception on 404", async () => {
+      nock(host).post(endpoint).reply(404, {});
+
+      await expect(service.deleteDeliveryMessage(validPayload)).rejects.toThrow(
+        DeliveryMessageNotFoundException
+      );
+    });
+
+    it("throws if the response payload is unexpected", async () => {
+      nock(host).post(endpoint).reply(200, { result: {} });
+
+      await expect(service.deleteDeliveryMessage(validPayload)).rejects.toThrow(
+        UnexpectedApiResponseException
+      );
+    });
+  });
+
+  describe("rerenderDeliveryMessage", () => {
+    const endpoint = `/v1/user-feeds/feed-id/delivery-logs/delivery-id/re-render`;
+    const validPayload = {
+      feedId: "feed-id",
+      deliveryId: "delivery-id",
+      details: {
+        mediumId: "medium-id",
+        feed: {
+          url: "url",
+          formatOptions: {},
+        },
+        mediumDetails: {
+          channel: {
+            id: "channel-id",
+          },
+          content: "content",
+          embeds: [],
+        },
+      },
+    };
+
+    it("returns the result on success", async () => {
+      nock(host)
+        .post(endpoint)
+        .matchHeader("api-key", apiKey)
+        .reply(200, { status: TestDeliveryStatus.Success });
+
+      const result = await service.rerenderDeliveryMessage(validPayload);
+
+      expect(result).toEqual({
+        status: TestDeliveryStatus.Success,
+      });
+    });
+
+    it("throws a special exception on 404", async () => {
+      nock(host).post(endpoint).reply(404, {});
+
+      await expect(
+        service.rerenderDeliveryMessage(validPayload)
+      ).rejects.toThrow(DeliveryMessageNotFoundException);
+    });
+  });
 });
@@ -9,20 +9,29 @@ import {
 } from "../../common/exceptions";
 import logger from "../../utils/logger";
 import {
+  DeliveryMessageNotFoundException,
   FeedArticleNotFoundException,
   FeedFetcherStatusException,
   InvalidFiltersRegexException,
   InvalidPreviewCustomPlaceholdersRegexException,
 } from "../feed-fetcher/exceptions";
 import {
+  CreateArticleIdPreviewInput,
+  CreateArticleIdPreviewResponse,
+  CreateChatPreviewOutput,
   CreateFilterValidationInput,
   CreateFilterValidationOutput,
   CreateFilterValidationResponse,
+  CreateMatrixPreviewInput,
   CreatePreviewInput,
+  CreateSlackPreviewInput,
+  DeleteDeliveryMessageInput,
+  DeleteDeliveryMessageResult,
   GetArticlesInput,
   GetArticlesOutput,
   GetArticlesResponse,
   GetDeliveryCountResult,
+  RerenderDeliveryMessageInput,
   SendTestArticleInput,
   SendTestArticleResult,
 } from "./types";
@@ -187,40 +196,23 @@ export class FeedHandlerService {
   async createPreview({
     details,
   }: CreatePreviewInput): Promise<CreatePreviewOutput> {
-    let res: Response;
-    const body = JSON.stringify(details);
-
-    try {
-      res = await fetch(`${this.host}/v1/user-feeds/preview`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "api-key": this.apiKey,
-        },
-        body,
-      });
-    } catch (err) {
-      // Fetch may have some obscure errors
-      throw new Error(
-        `Failed to create preview through user feeds API: ${
-          err.constructor.name
-        }: ${(err as Error).message}`
-      );
-    }
+    const json = await this.sendPreviewRequest(details);
 
-    if (res.status === 404) {
-      throw new FeedArticleNotFoundException("Feed article not found");
-    }
+    const result = await this.validateResponseJson(CreatePreviewOutput, json);
 
-    await this.validateResponseStatus(res, "Failed to create preview", {
-      requestBody: details,
-    });
+    return result;
+  }
 
-    const json = await res.json();
+  async createChatPreview({
+    details,
+  }:
+    | CreateSlackPreviewInput
+    | CreateMatrixPreviewInput): Promise<CreateChatPreviewOutput> {
+    const json = await this.sendPreviewRequest(details);
 
     const result = await this.validateResponseJson(
-      CreatePreviewOutput,
-      json as Record<string, unknown>
+      CreateChatPreviewOutput,
+      json
     );
 
     return result;
@@ -234,6 +226,7 @@ export class FeedHandlerService {
     filters,
     selectProperties,
     formatter,
+    jsonOptions,
   }: GetArticlesInput): Promise<GetArticlesOutput> {
     const body = {
       url,
@@ -243,6 +236,7 @@ export class FeedHandlerService {
       filters,
       selectProperties,
       formatter,
+      jsonOptions,
     };
 
     const res = await fetch(`${this.host}/v1/user-feeds/get-articles`, {
@@ -268,6 +262,50 @@ export class FeedHandlerService {
     return result.result;
   }
 
+  async createArticleIdPreview({
+    url,
+    jsonOptions,
+    htmlScrapeOptions,
+    currentArticleIdOptions,
+    articleIdOptions,
+  }: CreateArticleIdPreviewInput): Promise<
+    CreateArticleIdPreviewResponse["result"]
+  > {
+    const body = {
+      url,
+      jsonOptions,
+      htmlScrapeOptions,
+      currentArticleIdOptions,
+      articleIdOptions,
+    };
+
+    const res = await fetch(`${this.host}/v1/user-feeds/article-id-preview`, {
+      method: "POST",
+      body: JSON.stringify(body),
+      headers: {
+        "Content-Type": "application/json",
+        "api-key": this.apiKey,
+      },
+    });
+
+    await this.validateResponseStatus(
+      res,
+      "Failed to create article ID preview",
+      {
+        requestBody: body,
+      }
+    );
+
+    const json = await res.json();
+
+    const result = await this.validateResponseJson(
+      CreateArticleIdPreviewResponse,
+      json as Record<string, unknown>
+    );
+
+    return result.result;
+  }
+
   async validateFilters({
     expression,
   }: CreateFilterValidationInput): Promise<CreateFilterValidationOutput> {
@@ -332,6 +370,155 @@ export class FeedHandlerService {
     return response.json();
   }
 
+  async getDeliveryAnalytics(
+    feedId: string,
+    {
+      startDate,
+      endDate,
+      interval,
+    }: { startDate: Date; endDate: Date; interval: string }
+  ) {
+    const urlParams = new URLSearchParams({
+      startDate: startDate.toISOString(),
+      endDate: endDate.toISOString(),
+      interval,
+    });
+
+    const response = await fetch(
+      `${
+        this.host
+      }/v1/user-feeds/${feedId}/delivery-analytics?${urlParams.toString()}`,
+      {
+        headers: {
+          "Content-Type": "application/json",
+          "api-key": this.apiKey,
+        },
+      }
+    );
+
+    await this.validateResponseStatus(
+      response,
+      "Failed to get delivery analytics",
+      {
+        requestBody: {
+          feedId,
+          startDate,
+          endDate,
+          interval,
+        },
+      }
+    );
+
+    return response.json();
+  }
+
+  async getLatestArticleDate(feedId: string): Promise<Date | null> {
+    const response = await fetch(
+      `${this.host}/v1/user-feeds/${feedId}/latest-article-date`,
+      {
+        headers: {
+          "Content-Type": "application/json",
+          "api-key": this.apiKey,
+        },
+      }
+    );
+
+    await this.validateResponseStatus(
+      response,
+      "Failed to get latest article date",
+      {
+        requestBody: {
+          feedId,
+        },
+      }
+    );
+
+    const json = (await response.json()) as {
+      result: { date: string | null };
+    };
+
+    return json.result.date ? new Date(json.result.date) : null;
+  }
+
+  async deleteDeliveryMessage({
+    feedId,
+    deliveryId,
+    details,
+  }: DeleteDeliveryMessageInput): Promise<DeleteDeliveryMessageResult> {
+    const res = await this.sendDeliveryMessageRequest(
+      `/v1/user-feeds/${feedId}/delivery-logs/${deliveryId}/delete-message`,
+      details
+    );
+
+    await this.validateResponseStatus(
+      res,
+      "Failed to delete delivery message",
+      {
+        requestBody: details,
+      }
+    );
+
+    return this.validateResponseJson(
+      DeleteDeliveryMessageResult,
+      (await res.json()) as Record<string, unknown>
+    );
+  }
+
+  async rerenderDeliveryMessage({
+    feedId,
+    deliveryId,
+    details,
+  }: RerenderDeliveryMessageInput): Promise<SendTestArticleResult> {
+    const res = await this.sendDeliveryMessageRequest(
+      `/v1/user-feeds/${feedId}/delivery-logs/${deliveryId}/re-render`,
+      details
+    );
+
+    await this.validateResponseStatus(
+      res,
+      "Failed to re-render delivery message",
+      {
+        requestBody: details,
+      }
+    );
+
+    return this.validateResponseJson(
+      SendTestArticleResult,
+      (await res.json()) as Record<string, unknown>
+    );
+  }
+
+  private async sendDeliveryMessageRequest(
+    path: string,
+    details: Record<string, unknown>
+  ) {
+    let res: Response;
+
+    try {
+      res = await fetch(`${this.host}${path}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "api-key": this.apiKey,
+        },
+        body: JSON.stringify(details),
+      });
+    } catch (err) {
+      // Fetch may have some obscure errors
+      throw new Error(
+        `Failed to send delivery message request through user feeds API: ${
+          err.constructor.name
+        }: ${(err as Error).message}`
+      );
+    }
+
+    if (res.status === 404) {
+      throw new DeliveryMessageNotFoundException("Delivered message not found");
+    }
+
+    return res;
+  }
+
   private async validateResponseStatus(
     res: Response,
     contextMessage: string,
@@ -389,6 +576,45 @@ export class FeedHandlerService {
     }
   }
 
+  private async sendPreviewRequest(
+    details: (
+      | CreatePreviewInput
+      | CreateSlackPreviewInput
+      | CreateMatrixPreviewInput
+    )["details"]
+  ) {
+    let res: Response;
+    const body = JSON.stringify(details);
+
+    try {
+      res = await fetch(`${this.host}/v1/user-feeds/preview`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "api-key": this.apiKey,
+        },
+        body,
+      });
+    } catch (err) {
+      // Fetch may have some obscure errors
+      throw new Error(
+        `Failed to create preview through user feeds API: ${
+          err.constructor.name
+        }: ${(err as Error).message}`
+      );
+    }
+
+    if (res.status === 404) {
+      throw new FeedArticleNotFoundException("Feed article not found");
+    }
+
+    await this.validateResponseStatus(res, "Failed to create preview", {
+      requestBody: details,
+    });
+
+    return (await res.json()) as Record<string, unknown>;
+  }
+
   private async validateResponseJson<T>(
     classConstructor: ClassConstructor<T>,
     json: Record<string, unknown>
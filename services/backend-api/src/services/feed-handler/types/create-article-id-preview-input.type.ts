@@ -0,0 +1,16 @@
+import {
+  UserFeedArticleIdOptions,
+  UserFeedHtmlScrapeOptions,
+} from "../../../common";
+import { FeedRequestLookupDetails } from "./feed-request-lookup-details.type";
+
+export interface CreateArticleIdPreviewInput {
+  url: string;
+  jsonOptions?: {
+    itemsPath?: string | null;
+  } | null;
+  htmlScrapeOptions?: UserFeedHtmlScrapeOptions | null;
+  requestLookupDetails?: FeedRequestLookupDetails | null;
+  currentArticleIdOptions?: UserFeedArticleIdOptions | null;
+  articleIdOptions: UserFeedArticleIdOptions;
+}
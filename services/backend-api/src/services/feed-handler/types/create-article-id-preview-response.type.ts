@@ -0,0 +1,64 @@
+import { Type } from "class-transformer";
+import {
+  IsArray,
+  IsIn,
+  IsInt,
+  IsObject,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from "class-validator";
+import { GetArticlesResponseRequestStatus } from "./get-articles-response.type";
+
+class Response {
+  @IsOptional()
+  @IsInt()
+  statusCode?: number;
+}
+
+class SampleArticle {
+  @IsOptional()
+  @IsString()
+  title?: string;
+
+  @IsString()
+  currentId: string;
+
+  @IsString()
+  proposedId: string;
+}
+
+class Result {
+  @IsIn(Object.values(GetArticlesResponseRequestStatus))
+  requestStatus: GetArticlesResponseRequestStatus;
+
+  @IsObject()
+  @IsOptional()
+  @ValidateNested()
+  response?: Response;
+
+  @IsInt()
+  @Min(0)
+  totalArticles: number;
+
+  @IsInt()
+  @Min(0)
+  collisionCount: number;
+
+  @IsInt()
+  @Min(0)
+  changedIdCount: number;
+
+  @IsArray()
+  @Type(() => SampleArticle)
+  @ValidateNested({ each: true })
+  sampleArticles: SampleArticle[];
+}
+
+export class CreateArticleIdPreviewResponse {
+  @ValidateNested()
+  @IsObject()
+  @Type(() => Result)
+  result: Result;
+}
@@ -0,0 +1,19 @@
+import { IsArray, IsIn, IsObject, IsOptional } from "class-validator";
+import { TestDeliveryStatus } from "../constants";
+
+/**
+ * Slack and Matrix previews return the raw API payloads of their respective platforms.
+ */
+export class CreateChatPreviewOutput {
+  @IsIn(Object.values(TestDeliveryStatus))
+  status: TestDeliveryStatus;
+
+  @IsArray()
+  @IsOptional()
+  @IsObject({ each: true })
+  messages?: Array<Record<string, unknown>>;
+
+  @IsArray({ each: true })
+  @IsOptional()
+  customPlaceholderPreviews: string[][];
+}
@@ -1,4 +1,9 @@
-import { CustomPlaceholderDto, DiscordMediumEvent } from "../../../common";
+import {
+  CustomPlaceholderDto,
+  DiscordMediumEvent,
+  UserFeedHtmlScrapeOptions,
+} from "../../../common";
+import { FeedRequestLookupDetails } from "./feed-request-lookup-details.type";
 import { DiscordChannelConnection } from "../../../features/feeds/entities/feed-connections";
 
 export interface CreateDiscordChannelPreviewInput {
@@ -12,6 +17,11 @@ export interface CreateDiscordChannelPreviewInput {
         dateTimezone?: string | undefined;
         dateLocale?: string | undefined;
       };
+      jsonOptions?: {
+        itemsPath?: string | null;
+      } | null;
+      htmlScrapeOptions?: UserFeedHtmlScrapeOptions | null;
+      requestLookupDetails?: FeedRequestLookupDetails | null;
     };
     article?: {
       id: string;
@@ -1,4 +1,5 @@
-import { DiscordMediumEvent } from "../../../common";
+import { DiscordMediumEvent, UserFeedHtmlScrapeOptions } from "../../../common";
+import { FeedRequestLookupDetails } from "./feed-request-lookup-details.type";
 
 export interface CreateDiscordWebhookPreviewInput {
   details: {
@@ -8,6 +9,11 @@ export interface CreateDiscordWebhookPreviewInput {
       formatOptions: {
         dateFormat: string | undefined;
       };
+      jsonOptions?: {
+        itemsPath?: string | null;
+      } | null;
+      htmlScrapeOptions?: UserFeedHtmlScrapeOptions | null;
+      requestLookupDetails?: FeedRequestLookupDetails | null;
     };
     article?: {
       id: string;
@@ -0,0 +1,26 @@
+import { MatrixMediumEvent, UserFeedHtmlScrapeOptions } from "../../../common";
+import { FeedRequestLookupDetails } from "./feed-request-lookup-details.type";
+
+export interface CreateMatrixPreviewInput {
+  details: {
+    type: "matrix";
+    includeCustomPlaceholderPreviews?: boolean;
+    feed: {
+      url: string;
+      formatOptions: {
+        dateFormat?: string | undefined;
+        dateTimezone?: string | undefined;
+        dateLocale?: string | undefined;
+      };
+      jsonOptions?: {
+        itemsPath?: string | null;
+      } | null;
+      htmlScrapeOptions?: UserFeedHtmlScrapeOptions | null;
+      requestLookupDetails?: FeedRequestLookupDetails | null;
+    };
+    article?: {
+      id: string;
+    };
+    mediumDetails: MatrixMediumEvent["details"];
+  };
+}
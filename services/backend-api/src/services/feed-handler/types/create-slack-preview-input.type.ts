@@ -0,0 +1,26 @@
+import { SlackMediumEvent, UserFeedHtmlScrapeOptions } from "../../../common";
+import { FeedRequestLookupDetails } from "./feed-request-lookup-details.type";
+
+export interface CreateSlackPreviewInput {
+  details: {
+    type: "slack";
+    includeCustomPlaceholderPreviews?: boolean;
+    feed: {
+      url: string;
+      formatOptions: {
+        dateFormat?: string | undefined;
+        dateTimezone?: string | undefined;
+        dateLocale?: string | undefined;
+      };
+      jsonOptions?: {
+        itemsPath?: string | null;
+      } | null;
+      htmlScrapeOptions?: UserFeedHtmlScrapeOptions | null;
+      requestLookupDetails?: FeedRequestLookupDetails | null;
+    };
+    article?: {
+      id: string;
+    };
+    mediumDetails: SlackMediumEvent["details"];
+  };
+}
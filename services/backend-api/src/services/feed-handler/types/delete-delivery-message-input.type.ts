@@ -0,0 +1,11 @@
+export interface DeleteDeliveryMessageInput {
+  feedId: string;
+  deliveryId: string;
+  details: {
+    mediumId: string;
+    webhook?: {
+      id: string;
+      token: string;
+    } | null;
+  };
+}
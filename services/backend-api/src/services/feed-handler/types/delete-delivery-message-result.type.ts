@@ -0,0 +1,24 @@
+import { Type } from "class-transformer";
+import {
+  IsArray,
+  IsInt,
+  IsObject,
+  IsString,
+  ValidateNested,
+} from "class-validator";
+
+class DeleteDeliveryMessageResultDetails {
+  @IsInt()
+  deletedCount: number;
+
+  @IsArray()
+  @IsString({ each: true })
+  failedMessageIds: string[];
+}
+
+export class DeleteDeliveryMessageResult {
+  @IsObject()
+  @ValidateNested()
+  @Type(() => DeleteDeliveryMessageResultDetails)
+  result: DeleteDeliveryMessageResultDetails;
+}
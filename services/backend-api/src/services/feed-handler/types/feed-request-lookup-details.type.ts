@@ -0,0 +1,13 @@
+/**
+ * Feeds with a lookup key are requested separately from other feeds of the same URL, with their
+ * own request headers
+ */
+export interface FeedRequestLookupDetails {
+  key: string;
+  /**
+   * May contain decrypted credentials of the feed, and so must be omitted whenever this is logged.
+   * Credentials are only encrypted at rest, and are sent in plain text within message broker events
+   * and requests to other services until they reach feed-requests.
+   */
+  headers?: Record<string, string>;
+}
@@ -1,4 +1,8 @@
-import { CustomPlaceholderDto } from "../../../common";
+import {
+  CustomPlaceholderDto,
+  UserFeedHtmlScrapeOptions,
+} from "../../../common";
+import { FeedRequestLookupDetails } from "./feed-request-lookup-details.type";
 import { GetFeedArticlesFilterReturnType } from "../../../features/user-feeds/constants";
 
 export interface GetArticlesInput {
@@ -7,6 +11,11 @@ export interface GetArticlesInput {
   skip: number;
   random?: boolean;
   selectProperties?: string[];
+  jsonOptions?: {
+    itemsPath?: string | null;
+  } | null;
+  htmlScrapeOptions?: UserFeedHtmlScrapeOptions | null;
+  requestLookupDetails?: FeedRequestLookupDetails | null;
   filters?: {
     expression?: Record<string, unknown>;
     returnType: GetFeedArticlesFilterReturnType;
@@ -1,6 +1,8 @@
 export * from "./send-test-article-result.type";
 export * from "./send-test-discord-channel-article-input.type";
 export * from "./send-test-discord-webhook-article-input.type";
+export * from "./send-test-slack-article-input.type";
+export * from "./send-test-matrix-article-input.type";
 export * from "./send-test-article-input.type";
 export * from "./get-articles-input.type";
 export * from "./get-articles-response.type";
@@ -11,5 +13,14 @@ export * from "./create-filter-validation-response.type";
 export * from "./create-preview-input.type";
 export * from "./create-discord-channel-preview-input.type";
 export * from "./create-discord-webhook-preview-input.type";
+export * from "./create-slack-preview-input.type";
+export * from "./create-matrix-preview-input.type";
+export * from "./create-chat-preview-output.type";
 export * from "./discord-message-api-payload.type";
 export * from "./get-delivery-count-result.type copy";
+export * from "./rerender-delivery-message-input.type";
+export * from "./delete-delivery-message-input.type";
+export * from "./delete-delivery-message-result.type";
+export * from "./create-article-id-preview-input.type";
+export * from "./create-article-id-preview-response.type";
+export * from "./feed-request-lookup-details.type";
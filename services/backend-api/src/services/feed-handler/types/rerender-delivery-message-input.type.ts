@@ -0,0 +1,17 @@
+import { UserFeedArticleIdOptions } from "../../../common";
+import { SendTestDiscordChannelArticleInput } from "./send-test-discord-channel-article-input.type";
+
+export interface RerenderDeliveryMessageInput {
+  feedId: string;
+  deliveryId: string;
+  details: {
+    mediumId: string;
+    feed: SendTestDiscordChannelArticleInput["details"]["feed"] & {
+      /**
+       * Required to look up the article by the ID hash it was delivered with
+       */
+      articleIdOptions?: UserFeedArticleIdOptions | null;
+    };
+    mediumDetails: SendTestDiscordChannelArticleInput["details"]["mediumDetails"];
+  };
+}
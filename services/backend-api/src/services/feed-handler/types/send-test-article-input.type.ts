@@ -1,6 +1,10 @@
 import { SendTestDiscordChannelArticleInput } from "./send-test-discord-channel-article-input.type";
 import { SendTestDiscordWebhookArticleInput } from "./send-test-discord-webhook-article-input.type";
+import { SendTestMatrixArticleInput } from "./send-test-matrix-article-input.type";
+import { SendTestSlackArticleInput } from "./send-test-slack-article-input.type";
 
 export type SendTestArticleInput =
   | SendTestDiscordChannelArticleInput
-  | SendTestDiscordWebhookArticleInput;
+  | SendTestDiscordWebhookArticleInput
+  | SendTestSlackArticleInput
+  | SendTestMatrixArticleInput;
@@ -1,4 +1,9 @@
-import { CustomPlaceholderDto, DiscordMediumEvent } from "../../../common";
+import {
+  CustomPlaceholderDto,
+  DiscordMediumEvent,
+  UserFeedHtmlScrapeOptions,
+} from "../../../common";
+import { FeedRequestLookupDetails } from "./feed-request-lookup-details.type";
 import {
   FeedConnectionDiscordChannelType,
   FeedConnectionDiscordWebhookType,
@@ -16,6 +21,11 @@ export interface SendTestDiscordChannelArticleInput {
         dateTimezone?: string | undefined;
         dateLocale?: string;
       };
+      jsonOptions?: {
+        itemsPath?: string | null;
+      } | null;
+      htmlScrapeOptions?: UserFeedHtmlScrapeOptions | null;
+      requestLookupDetails?: FeedRequestLookupDetails | null;
     };
     article?: {
       id: string;
@@ -1,4 +1,9 @@
-import { CustomPlaceholderDto, DiscordMediumEvent } from "../../../common";
+import {
+  CustomPlaceholderDto,
+  DiscordMediumEvent,
+  UserFeedHtmlScrapeOptions,
+} from "../../../common";
+import { FeedRequestLookupDetails } from "./feed-request-lookup-details.type";
 import { FeedConnectionDiscordWebhookType } from "../../../features/feeds/constants";
 import { DiscordWebhookConnection } from "../../../features/feeds/entities/feed-connections";
 
@@ -10,6 +15,11 @@ export interface SendTestDiscordWebhookArticleInput {
       formatOptions: {
         dateFormat?: string | undefined;
       };
+      jsonOptions?: {
+        itemsPath?: string | null;
+      } | null;
+      htmlScrapeOptions?: UserFeedHtmlScrapeOptions | null;
+      requestLookupDetails?: FeedRequestLookupDetails | null;
     };
     article?: {
       id: string;
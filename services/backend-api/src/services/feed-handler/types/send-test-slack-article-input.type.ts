@@ -0,0 +1,25 @@
+import { SlackMediumEvent, UserFeedHtmlScrapeOptions } from "../../../common";
+import { FeedRequestLookupDetails } from "./feed-request-lookup-details.type";
+
+export interface SendTestSlackArticleInput {
+  details: {
+    type: "slack";
+    feed: {
+      url: string;
+      formatOptions: {
+        dateFormat?: string | undefined;
+        dateTimezone?: string | undefined;
+        dateLocale?: string | undefined;
+      };
+      jsonOptions?: {
+        itemsPath?: string | null;
+      } | null;
+      htmlScrapeOptions?: UserFeedHtmlScrapeOptions | null;
+      requestLookupDetails?: FeedRequestLookupDetails | null;
+    };
+    article?: {
+      id: string;
+    };
+    mediumDetails: SlackMediumEvent["details"];
+  };
+}
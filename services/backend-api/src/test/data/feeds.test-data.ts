@@ -12,6 +12,9 @@ const boilerplate: Feed = {
   connections: {
     discordChannels: [],
     discordWebhooks: [],
+    slackChannels: [],
+    matrixRooms: [],
+    httpWebhooks: [],
   },
   embeds: [
     {
@@ -11,6 +11,14 @@ import utc from 'dayjs/plugin/utc'
 import { disableFeed } from './send-failure-notification'
 import { BAD_FORMAT } from './constants/feedDisableReasons'
 import { AmqpChannel } from './constants/amqpChannels'
+import {
+  globalBlocksCounter,
+  jobErrorsCounter,
+  jobsCompletedCounter,
+  pendingJobsGauge,
+  queueSizeGauge
+} from './utils/metrics'
+import { startMetricsServer } from '@monitorss/metrics'
 
 dayjs.extend(utc)
 
@@ -96,6 +104,8 @@ setup().then(async (initializedData) => {
   })
 
   consumer.on('next', (queueSize, pending) => {
+    queueSizeGauge.set(queueSize)
+    pendingJobsGauge.set(pending)
     logDatadog('info', `Job completed, moving to next (queueSize: ${queueSize}, pending: ${pending})`, {
       queueSize,
       pending
@@ -126,6 +136,7 @@ setup().then(async (initializedData) => {
 
   consumer.on('jobCompleted', async (job, result) => {
     const jobDuration = dayjs().utc().valueOf() - job.startTimestamp
+    jobsCompletedCounter.inc({ status: result.status })
     
     const meta = {
       route: job.route,
@@ -196,6 +207,7 @@ setup().then(async (initializedData) => {
   consumer.on('jobError', async (error, job) => {
     const errorMessage = `Failed to process job ${job.id}: ${error.message}`
     const debugHistory = (error as RequestTimeoutError).debugHistory || ['no-debug-history']
+    jobErrorsCounter.inc()
     log.error(`Job ${job.id} error: ${error.message}`, {
       debugHistory
     })
@@ -221,6 +233,7 @@ setup().then(async (initializedData) => {
   consumer.on('globalBlock', (blockType, durationMs, debugDetails) => {
     let errorMessage: string
     let exit = false
+    globalBlocksCounter.inc({ type: blockType })
     
     if (blockType === GLOBAL_BLOCK_TYPE.GLOBAL_RATE_LIMIT) {
       errorMessage = `Global block: Global rate limit hit (retry after ${durationMs}ms)`
@@ -248,6 +261,10 @@ setup().then(async (initializedData) => {
   await producer.initialize()
   await consumer.initialize()
 
+  if (config.metricsPort) {
+    startMetricsServer({ port: config.metricsPort, logger: log })
+  }
+
   log.info('Ready')
 }).catch(err => {
   log.error(`Failed to start app`, err)
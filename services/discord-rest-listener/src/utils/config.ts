@@ -7,6 +7,9 @@ const config = {
   maxRequestsPerSecond: Number(process.env.DISCORD_REST_LISTENER_MAX_REQ_PER_SEC),
   rabbitmqUri: process.env.DISCORD_REST_LISTENER_RABBITMQ_URI,
   discordClientId: process.env.DISCORD_REST_LISTENER_BOT_CLIENT_ID,
+  metricsPort: process.env.DISCORD_REST_LISTENER_METRICS_PORT
+    ? Number(process.env.DISCORD_REST_LISTENER_METRICS_PORT)
+    : undefined,
   datadog: {
     apiKey: process.env.DISCORD_REST_LISTENER_DATADOG_API_KEY,
     host: process.env.DISCORD_REST_LISTENER_DATADOG_HOST,
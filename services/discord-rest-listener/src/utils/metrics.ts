@@ -0,0 +1,28 @@
+import { Counter, Gauge } from 'prom-client'
+
+export const queueSizeGauge = new Gauge({
+  name: 'discord_rest_listener_queue_size',
+  help: 'Number of Discord REST jobs waiting to be processed',
+})
+
+export const pendingJobsGauge = new Gauge({
+  name: 'discord_rest_listener_pending_jobs',
+  help: 'Number of Discord REST jobs currently being processed',
+})
+
+export const jobsCompletedCounter = new Counter({
+  name: 'discord_rest_listener_jobs_completed_total',
+  help: 'Number of Discord REST jobs that received a response, labelled by status code',
+  labelNames: ['status'],
+})
+
+export const jobErrorsCounter = new Counter({
+  name: 'discord_rest_listener_job_errors_total',
+  help: 'Number of Discord REST jobs that failed without a response',
+})
+
+export const globalBlocksCounter = new Counter({
+  name: 'discord_rest_listener_global_blocks_total',
+  help: 'Number of times all Discord REST requests were blocked, labelled by block type',
+  labelNames: ['type'],
+})
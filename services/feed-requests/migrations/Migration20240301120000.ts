@@ -0,0 +1,13 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20240301120000 extends Migration {
+
+  async up(): Promise<void> {
+    this.addSql('alter table "response" add column "content_length_bytes" int null default null;');
+  }
+
+  async down(): Promise<void> {
+    this.addSql('alter table "response" drop column "content_length_bytes";');
+  }
+
+}
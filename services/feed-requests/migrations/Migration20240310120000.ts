@@ -0,0 +1,20 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20240310120000 extends Migration {
+
+  async up(): Promise<void> {
+    this.addSql('create table "web_sub_subscription" ("id" uuid not null, "url" text not null, "topic_url" text not null, "hub_url" text not null, "secret" text not null, "status" text check ("status" in (\'PENDING\', \'ACTIVE\', \'DENIED\')) not null, "lease_expires_at" timestamptz(0) null, "last_pushed_at" timestamptz(0) null, "created_at" timestamptz(0) not null, "updated_at" timestamptz(0) not null, constraint "web_sub_subscription_pkey" primary key ("id"));');
+    this.addSql('alter table "web_sub_subscription" add constraint "web_sub_subscription_url_unique" unique ("url");');
+
+    this.addSql('alter table "request" drop constraint if exists "request_source_check";');
+    this.addSql('alter table "request" add constraint "request_source_check" check ("source" in (\'SHEDULE\', \'WEBSUB\'));');
+  }
+
+  async down(): Promise<void> {
+    this.addSql('drop table if exists "web_sub_subscription" cascade;');
+
+    this.addSql('alter table "request" drop constraint if exists "request_source_check";');
+    this.addSql('alter table "request" add constraint "request_source_check" check ("source" in (\'SHEDULE\'));');
+  }
+
+}
@@ -0,0 +1,13 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20240317120000 extends Migration {
+
+  async up(): Promise<void> {
+    this.addSql('alter table "request" add column "proxy_url" text null;');
+  }
+
+  async down(): Promise<void> {
+    this.addSql('alter table "request" drop column "proxy_url";');
+  }
+
+}
@@ -0,0 +1,15 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20240324120000 extends Migration {
+
+  async up(): Promise<void> {
+    this.addSql('alter table "request" drop constraint if exists "request_status_check";');
+    this.addSql('alter table "request" add constraint "request_status_check" check ("status" in (\'OK\', \'INTERNAL_ERROR\', \'FETCH_ERROR\', \'PARSE_ERROR\', \'BAD_STATUS_CODE\', \'FETCH_TIMEOUT\', \'REFUSED_LARGE_FEED\', \'MATCHED_HASH\', \'INVALID_SSL_CERTIFICATE\', \'THROTTLED_BY_HOST\'));');
+  }
+
+  async down(): Promise<void> {
+    this.addSql('alter table "request" drop constraint if exists "request_status_check";');
+    this.addSql('alter table "request" add constraint "request_status_check" check ("status" in (\'OK\', \'INTERNAL_ERROR\', \'FETCH_ERROR\', \'PARSE_ERROR\', \'BAD_STATUS_CODE\', \'FETCH_TIMEOUT\', \'REFUSED_LARGE_FEED\', \'MATCHED_HASH\', \'INVALID_SSL_CERTIFICATE\'));');
+  }
+
+}
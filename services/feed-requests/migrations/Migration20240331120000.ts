@@ -0,0 +1,13 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20240331120000 extends Migration {
+
+  async up(): Promise<void> {
+    this.addSql('create index "request_created_at_index" on "request" ("created_at");');
+  }
+
+  async down(): Promise<void> {
+    this.addSql('drop index "request_created_at_index";');
+  }
+
+}
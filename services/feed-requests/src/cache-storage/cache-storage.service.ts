@@ -13,10 +13,12 @@ export class CacheStorageService {
     await this.redisClient.disconnect();
   }
 
+  static FEED_HTML_CONTENT_EXPIRE_SECONDS = 60 * 15; // 15 minutes
+
   async setFeedHtmlContent({ key, body }: { body: string; key: string }) {
     try {
       await this.redisClient.set(key, body, {
-        EX: 60 * 15, // 15 minutes
+        EX: CacheStorageService.FEED_HTML_CONTENT_EXPIRE_SECONDS,
       });
     } catch (err) {
       logger.error(`Failed to set html content in cache storage`, {
@@ -25,6 +27,34 @@ export class CacheStorageService {
     }
   }
 
+  /**
+   * Returns false if the content no longer exists in the cache.
+   */
+  async extendFeedHtmlContentExpiry({ key }: { key: string }) {
+    try {
+      return await this.redisClient.expire(
+        key,
+        CacheStorageService.FEED_HTML_CONTENT_EXPIRE_SECONDS,
+      );
+    } catch (err) {
+      logger.error(`Failed to extend html content expiry in cache storage`, {
+        err: (err as Error).stack,
+      });
+
+      return false;
+    }
+  }
+
+  async deleteFeedHtmlContent({ key }: { key: string }) {
+    try {
+      await this.redisClient.del(key);
+    } catch (err) {
+      logger.error(`Failed to delete html content from cache storage`, {
+        err: (err as Error).stack,
+      });
+    }
+  }
+
   async getFeedHtmlContent({ key }: { key: string }): Promise<string> {
     try {
       const res = await this.redisClient.get(key);
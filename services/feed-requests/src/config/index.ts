@@ -56,6 +56,27 @@ export default function config(): EnvironmentVariables {
     FEED_REQUESTS_RABBITMQ_PREFETCH_COUNT: Number(
       process.env.FEED_REQUESTS_RABBITMQ_PREFETCH_COUNT || '3',
     ),
+    FEED_REQUESTS_METRICS_PORT: process.env.FEED_REQUESTS_METRICS_PORT
+      ? Number(process.env.FEED_REQUESTS_METRICS_PORT)
+      : undefined,
+    FEED_REQUESTS_WEBSUB_CALLBACK_BASE_URL:
+      process.env.FEED_REQUESTS_WEBSUB_CALLBACK_BASE_URL,
+    FEED_REQUESTS_PROXY_POOLS: process.env.FEED_REQUESTS_PROXY_POOLS,
+    FEED_REQUESTS_HOST_MAX_CONCURRENCY: Number(
+      process.env.FEED_REQUESTS_HOST_MAX_CONCURRENCY || '3',
+    ),
+    FEED_REQUESTS_HOST_MAX_REQUESTS_PER_MINUTE: Number(
+      process.env.FEED_REQUESTS_HOST_MAX_REQUESTS_PER_MINUTE || '30',
+    ),
+    FEED_REQUESTS_RETENTION_KEEP_LAST_REQUESTS: Number(
+      process.env.FEED_REQUESTS_RETENTION_KEEP_LAST_REQUESTS || '25',
+    ),
+    FEED_REQUESTS_RETENTION_KEEP_DAYS: Number(
+      process.env.FEED_REQUESTS_RETENTION_KEEP_DAYS || '14',
+    ),
+    FEED_REQUESTS_RETENTION_INTERVAL_MINUTES: Number(
+      process.env.FEED_REQUESTS_RETENTION_INTERVAL_MINUTES || '60',
+    ),
   };
 
   setGlobalDispatcher(
@@ -12,6 +12,11 @@ export function testConfig(): EnvironmentVariables {
     FEED_REQUESTS_MAX_FAIL_ATTEMPTS: 11,
     FEED_REQUESTS_REQUEST_TIMEOUT_MS: 15000,
     FEED_REQUESTS_RABBITMQ_PREFETCH_COUNT: 3,
+    FEED_REQUESTS_HOST_MAX_CONCURRENCY: 3,
+    FEED_REQUESTS_HOST_MAX_REQUESTS_PER_MINUTE: 30,
+    FEED_REQUESTS_RETENTION_KEEP_LAST_REQUESTS: 25,
+    FEED_REQUESTS_RETENTION_KEEP_DAYS: 14,
+    FEED_REQUESTS_RETENTION_INTERVAL_MINUTES: 0,
   };
 
   validateConfig(vals);
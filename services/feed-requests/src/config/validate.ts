@@ -8,6 +8,7 @@ import {
   IsBoolean,
   IsNumber,
   IsNotEmpty,
+  Min,
 } from 'class-validator';
 
 export enum Environment {
@@ -80,6 +81,38 @@ export class EnvironmentVariables {
 
   @IsNumber()
   FEED_REQUESTS_RABBITMQ_PREFETCH_COUNT!: number;
+
+  @IsNumber()
+  @IsOptional()
+  FEED_REQUESTS_METRICS_PORT?: number;
+
+  @IsString()
+  @IsOptional()
+  FEED_REQUESTS_WEBSUB_CALLBACK_BASE_URL?: string;
+
+  @IsString()
+  @IsOptional()
+  FEED_REQUESTS_PROXY_POOLS?: string;
+
+  @IsNumber()
+  @Min(0)
+  FEED_REQUESTS_HOST_MAX_CONCURRENCY!: number;
+
+  @IsNumber()
+  @Min(0)
+  FEED_REQUESTS_HOST_MAX_REQUESTS_PER_MINUTE!: number;
+
+  @IsNumber()
+  @Min(1)
+  FEED_REQUESTS_RETENTION_KEEP_LAST_REQUESTS!: number;
+
+  @IsNumber()
+  @Min(0)
+  FEED_REQUESTS_RETENTION_KEEP_DAYS!: number;
+
+  @IsNumber()
+  @Min(0)
+  FEED_REQUESTS_RETENTION_INTERVAL_MINUTES!: number;
 }
 
 export function validateConfig(
@@ -1,2 +1,3 @@
 export * from './request-status.constants';
 export * from './request-fetch-options.constants';
+export * from './web-sub-subscription-status.constants';
@@ -1,3 +1,4 @@
 export enum RequestSource {
   Schedule = 'SHEDULE',
+  WebSub = 'WEBSUB',
 }
@@ -8,4 +8,9 @@ export enum RequestStatus {
   REFUSED_LARGE_FEED = 'REFUSED_LARGE_FEED',
   MATCHED_HASH = 'MATCHED_HASH',
   INVALID_SSL_CERTIFICATE = 'INVALID_SSL_CERTIFICATE',
+  /**
+   * The host responded with 429, or 503 with a Retry-After header. This is not counted as a failed
+   * attempt, since it is not a problem with the feed.
+   */
+  THROTTLED_BY_HOST = 'THROTTLED_BY_HOST',
 }
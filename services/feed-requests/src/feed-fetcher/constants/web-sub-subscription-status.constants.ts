@@ -0,0 +1,8 @@
+export enum WebSubSubscriptionStatus {
+  /**
+   * Subscription request was sent, and the hub has yet to verify the intent of the callback
+   */
+  Pending = 'PENDING',
+  Active = 'ACTIVE',
+  Denied = 'DENIED',
+}
@@ -9,6 +9,7 @@ export interface FetchFeedDetailsDto {
     | 'FETCH_TIMEOUT'
     | 'REFUSED_LARGE_FEED'
     | 'MATCHED_HASH'
+    | 'NOT_MODIFIED'
     | 'INVALID_SSL_CERTIFICATE';
   response?: {
     hash?: string | null;
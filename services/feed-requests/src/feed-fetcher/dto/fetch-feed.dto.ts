@@ -1,6 +1,7 @@
 import { Type } from 'class-transformer';
 import {
   IsBoolean,
+  IsObject,
   IsOptional,
   IsString,
   Validate,
@@ -34,6 +35,14 @@ export class FetchFeedDto {
   @IsOptional()
   lookupKey?: string;
 
+  /**
+   * Headers to send if a fetch is executed, such as credentials of the feed. Should only be given
+   * with a lookup key so that the response is not shared with other feeds of the same url.
+   */
+  @IsObject()
+  @IsOptional()
+  headers?: Record<string, string>;
+
   @IsBoolean()
   @IsOptional()
   @Type(() => Boolean)
@@ -9,6 +9,10 @@ interface Request {
 interface Result {
   requests: Request[];
   nextRetryTimestamp: number | null;
+  conditionalRequestSavings: {
+    notModifiedCount: number;
+    bytesSaved: number;
+  };
 }
 
 export interface GetFeedRequestsOutputDto {
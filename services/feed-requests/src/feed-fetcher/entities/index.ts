@@ -1,2 +1,3 @@
 export * from './request.entity';
 export * from './response.entity';
+export * from './web-sub-subscription.entity';
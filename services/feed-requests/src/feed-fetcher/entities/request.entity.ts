@@ -15,6 +15,10 @@ import {
   properties: ['lookupKey', 'createdAt', 'status'],
   name: 'lookupkey_created_at_status_index',
 })
+@Index({
+  properties: ['createdAt'],
+  name: 'request_created_at_index',
+})
 export class Request {
   @PrimaryKey({
     autoincrement: true,
@@ -65,6 +69,15 @@ export class Request {
   })
   errorMessage?: string;
 
+  /**
+   * The proxy the request was sent through, without credentials
+   */
+  @Property({
+    nullable: true,
+    type: 'text',
+  })
+  proxyUrl?: string | null;
+
   @OneToOne({
     nullable: true,
     entity: () => Response,
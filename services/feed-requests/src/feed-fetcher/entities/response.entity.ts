@@ -45,6 +45,17 @@ export class Response {
   })
   redisCacheKey?: string | null;
 
+  /**
+   * Byte length of the decoded body. Responses to conditional requests (304s) inherit the length
+   * of the body they reuse, so summing it across 304s gives the bandwidth saved.
+   */
+  @Property({
+    nullable: true,
+    type: 'integer',
+    default: null,
+  })
+  contentLengthBytes?: number | null;
+
   @Property({
     type: 'json',
     nullable: true,
@@ -52,6 +63,7 @@ export class Response {
   headers?: {
     etag?: string;
     lastModified?: string;
+    retryAfter?: string;
   } | null;
 
   @Property({
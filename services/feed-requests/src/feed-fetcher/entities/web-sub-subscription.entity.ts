@@ -0,0 +1,67 @@
+import { Entity, Enum, PrimaryKey, Property } from '@mikro-orm/core';
+import { randomUUID } from 'crypto';
+import { WebSubSubscriptionStatus } from '../constants';
+
+@Entity()
+export class WebSubSubscription {
+  /**
+   * Used within the callback url, so it should not be guessable
+   */
+  @PrimaryKey({
+    type: 'uuid',
+  })
+  id: string = randomUUID();
+
+  /**
+   * The url that is polled by the schedule, and whose requests pushed content is saved under
+   */
+  @Property({
+    type: 'text',
+    unique: true,
+  })
+  url!: string;
+
+  /**
+   * The self url advertised by the feed, which may differ from the url that is polled
+   */
+  @Property({
+    type: 'text',
+  })
+  topicUrl!: string;
+
+  @Property({
+    type: 'text',
+  })
+  hubUrl!: string;
+
+  @Property({
+    type: 'text',
+  })
+  secret!: string;
+
+  @Enum(() => WebSubSubscriptionStatus)
+  status!: WebSubSubscriptionStatus;
+
+  @Property({
+    nullable: true,
+    type: 'timestamp with time zone',
+  })
+  leaseExpiresAt?: Date | null;
+
+  @Property({
+    nullable: true,
+    type: 'timestamp with time zone',
+  })
+  lastPushedAt?: Date | null;
+
+  @Property({
+    type: 'timestamp with time zone',
+  })
+  createdAt: Date = new Date();
+
+  @Property({
+    type: 'timestamp with time zone',
+    onUpdate: () => new Date(),
+  })
+  updatedAt: Date = new Date();
+}
@@ -13,6 +13,8 @@ import { EntityRepository } from '@mikro-orm/postgresql';
 import { getRepositoryToken } from '@mikro-orm/nestjs';
 import dayjs from 'dayjs';
 import { FeedFetcherService } from './feed-fetcher.service';
+import { ProxyPoolService } from './proxy-pool.service';
+import { HostRateLimiterService } from './host-rate-limiter.service';
 import nock from 'nock';
 import path from 'path';
 
@@ -26,7 +28,6 @@ describe('FeedFetcherListenerService (Integration)', () => {
   let feedFetcherService: FeedFetcherService;
   const url = 'https://rss-feed.com/feed.xml';
   let requestRepo: EntityRepository<Request>;
-  let responseRepo: EntityRepository<Response>;
   const amqpConnection = {
     publish: jest.fn(),
   };
@@ -38,6 +39,8 @@ describe('FeedFetcherListenerService (Integration)', () => {
         providers: [
           FeedFetcherListenerService,
           FeedFetcherService,
+          ProxyPoolService,
+          HostRateLimiterService,
           {
             provide: AmqpConnection,
             useValue: amqpConnection,
@@ -60,9 +63,6 @@ describe('FeedFetcherListenerService (Integration)', () => {
     requestRepo = app.get<EntityRepository<Request>>(
       getRepositoryToken(Request),
     );
-    responseRepo = app.get<EntityRepository<Response>>(
-      getRepositoryToken(Response),
-    );
   });
 
   afterEach(async () => {
@@ -187,6 +187,58 @@ describe('FeedFetcherListenerService (Integration)', () => {
         },
       );
     });
+    it('never disables feeds that are repeatedly throttled by their host', async () => {
+      const requests = Array.from({
+        length: service.maxFailAttempts,
+      }).map(() => {
+        const request = new Request();
+        request.status = RequestStatus.THROTTLED_BY_HOST;
+        request.createdAt = dayjs().subtract(1, 'day').toDate();
+        request.nextRetryDate = dayjs().subtract(1, 'hour').toDate();
+        request.url = url;
+        request.lookupKey = url;
+
+        return request;
+      });
+
+      await requestRepo.persistAndFlush(requests);
+
+      nock(url).get('/').reply(429, '', {
+        'Retry-After': '120',
+      });
+
+      await service.onBrokerFetchRequest({
+        data: {
+          url,
+          rateSeconds: 100,
+        },
+      });
+
+      expect(amqpConnection.publish).not.toHaveBeenCalledWith(
+        '',
+        'url.failed.disable-feeds',
+        expect.anything(),
+      );
+      expect(amqpConnection.publish).not.toHaveBeenCalledWith(
+        '',
+        'url.fetch.failed',
+        expect.anything(),
+      );
+
+      const request = await requestRepo.findOneOrFail(
+        {
+          url,
+        },
+        {
+          orderBy: {
+            createdAt: 'DESC',
+          },
+        },
+      );
+
+      expect(request.status).toEqual(RequestStatus.THROTTLED_BY_HOST);
+      expect(request.nextRetryDate).toBeDefined();
+    });
   });
 
   describe('shouldSkipAfterPreviousFailedAttempt', () => {
@@ -239,6 +291,25 @@ describe('FeedFetcherListenerService (Integration)', () => {
       expect(skip).toEqual(true);
     });
 
+    it('should skip if a throttled request is waiting for its retry date', async () => {
+      const throttledRequest = new Request();
+      throttledRequest.status = RequestStatus.THROTTLED_BY_HOST;
+      throttledRequest.url = url;
+      throttledRequest.lookupKey = url;
+      throttledRequest.createdAt = dayjs().subtract(10, 'minutes').toDate();
+      throttledRequest.nextRetryDate = dayjs().add(30, 'minutes').toDate();
+
+      await requestRepo.persistAndFlush(throttledRequest);
+
+      const { skip, failedAttemptsCount } =
+        await service.shouldSkipAfterPreviousFailedAttempt({
+          url,
+        });
+
+      expect(skip).toEqual(true);
+      expect(failedAttemptsCount).toEqual(0);
+    });
+
     it('should not skip if the found latest retry date is in the past', async () => {
       const okRequest = new Request();
       okRequest.status = RequestStatus.OK;
@@ -297,6 +368,25 @@ describe('FeedFetcherListenerService (Integration)', () => {
       expect(failedRequestsCount).toEqual(2);
     });
 
+    it('should not count requests throttled by the host', async () => {
+      const throttledRequest = new Request();
+      throttledRequest.status = RequestStatus.THROTTLED_BY_HOST;
+      throttledRequest.url = url;
+      throttledRequest.lookupKey = url;
+      throttledRequest.createdAt = dayjs().subtract(20, 'minutes').toDate();
+      const failedRequest = new Request();
+      failedRequest.status = RequestStatus.FETCH_ERROR;
+      failedRequest.url = url;
+      failedRequest.lookupKey = url;
+      failedRequest.createdAt = dayjs().subtract(10, 'minutes').toDate();
+
+      await requestRepo.persistAndFlush([throttledRequest, failedRequest]);
+
+      const failedRequestsCount = await service.countFailedRequests({ url });
+
+      expect(failedRequestsCount).toEqual(1);
+    });
+
     it('should return 0 if there are no failed requests after the latest OK attempt', async () => {
       const okRequestOlder = new Request();
       okRequestOlder.status = RequestStatus.OK;
@@ -380,6 +470,26 @@ describe('FeedFetcherListenerService (Integration)', () => {
         expect(returned).toEqual(expected);
       },
     );
+
+    it('returns the retry-after date if it is later than the back-off', () => {
+      const returned = service.calculateNextRetryDate(referenceDate, 0, '3600');
+
+      expect(returned).toEqual(dayjs(referenceDate).add(1, 'hour').toDate());
+    });
+
+    it('caps the retry-after date', () => {
+      const returned = service.calculateNextRetryDate(
+        referenceDate,
+        0,
+        String(60 * 60 * 24 * 365),
+      );
+
+      expect(returned).toEqual(
+        dayjs(referenceDate)
+          .add(FeedFetcherListenerService.MAX_RETRY_AFTER_HOURS, 'hours')
+          .toDate(),
+      );
+    });
   });
 
   describe('requestExistsAfterTime', () => {
@@ -419,37 +529,4 @@ describe('FeedFetcherListenerService (Integration)', () => {
       ).resolves.toEqual(false);
     });
   });
-
-  describe.skip('deleteStaleRequests', () => {
-    it('deletes requests and their responses that are older than the threshold', async () => {
-      const response = new Response();
-      response.statusCode = 200;
-      response.text = 'text';
-      response.isCloudflare = false;
-
-      const req1 = new Request();
-      req1.status = RequestStatus.OK;
-      req1.url = url;
-      req1.createdAt = dayjs().subtract(15, 'day').toDate();
-      req1.response = response;
-
-      const req2 = new Request();
-      req2.status = RequestStatus.OK;
-      req2.url = url;
-      req2.createdAt = dayjs().subtract(13, 'day').toDate();
-
-      await requestRepo.persistAndFlush([req1, req2]);
-
-      await service.deleteStaleRequests(url);
-
-      const requests = await requestRepo.findAll();
-
-      expect(requests).toHaveLength(1);
-      expect(requests[0].id).toEqual(req2.id);
-
-      const responses = await responseRepo.findAll();
-
-      expect(responses).toHaveLength(0);
-    });
-  });
 });
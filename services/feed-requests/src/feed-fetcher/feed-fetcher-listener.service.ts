@@ -10,6 +10,10 @@ import { InjectRepository } from '@mikro-orm/nestjs';
 import { MikroORM, UseRequestContext } from '@mikro-orm/core';
 import { FeedFetcherService } from './feed-fetcher.service';
 import { RequestSource } from './constants/request-source.constants';
+import { messageHandlerErrorsCounter } from '../metrics';
+import { WebSubService } from './web-sub.service';
+import { HostRateLimiterService } from './host-rate-limiter.service';
+import { parseRetryAfter } from './utils';
 
 interface BatchRequestMessage {
   timestamp: number;
@@ -17,6 +21,12 @@ interface BatchRequestMessage {
     lookupKey?: string;
     url: string;
     saveToObjectStorage?: boolean;
+    /**
+     * Only given for urls with a lookup key, since their requests are specific to one feed
+     */
+    requestOptions?: {
+      headers?: Record<string, string>;
+    };
   }>;
   rateSeconds: number;
 }
@@ -36,6 +46,8 @@ export class FeedFetcherListenerService {
     private readonly amqpConnection: AmqpConnection,
     private readonly orm: MikroORM, // For @UseRequestContext decorator
     private readonly em: EntityManager,
+    private readonly webSubService: WebSubService,
+    private readonly hostRateLimiterService: HostRateLimiterService,
   ) {
     this.maxFailAttempts = this.configService.get(
       'FEED_REQUESTS_MAX_FAIL_ATTEMPTS',
@@ -46,6 +58,7 @@ export class FeedFetcherListenerService {
   }
 
   static BASE_FAILED_ATTEMPT_WAIT_MINUTES = 5;
+  static MAX_RETRY_AFTER_HOURS = 24;
 
   @RabbitSubscribe({
     exchange: '',
@@ -54,7 +67,13 @@ export class FeedFetcherListenerService {
   async onBrokerFetchRequest(message: {
     data: { url: string; rateSeconds: number };
   }) {
-    await this.onBrokerFetchRequestHandler(message);
+    try {
+      await this.onBrokerFetchRequestHandler(message);
+    } catch (err) {
+      messageHandlerErrorsCounter.inc({ queue: 'url.fetch' });
+
+      throw err;
+    }
   }
 
   @RabbitSubscribe({
@@ -69,7 +88,14 @@ export class FeedFetcherListenerService {
     logger.datadog(`Received fetch batch request message`, {
       event: message,
     });
-    await this.onBrokerFetchRequestBatchHandler(message);
+
+    try {
+      await this.onBrokerFetchRequestBatchHandler(message);
+    } catch (err) {
+      messageHandlerErrorsCounter.inc({ queue: 'url.fetch-batch' });
+
+      throw err;
+    }
   }
 
   @UseRequestContext()
@@ -121,44 +147,47 @@ export class FeedFetcherListenerService {
 
     try {
       const results = await Promise.allSettled(
-        message.data.map(async ({ url, lookupKey, saveToObjectStorage }) => {
-          let request: Request | undefined = undefined;
-
-          try {
-            const result = await this.handleBrokerFetchRequest({
-              lookupKey,
-              url,
-              rateSeconds,
-              saveToObjectStorage,
-            });
-
-            if (result) {
-              request = result.request;
+        message.data.map(
+          async ({ url, lookupKey, saveToObjectStorage, requestOptions }) => {
+            let request: Request | undefined = undefined;
+
+            try {
+              const result = await this.handleBrokerFetchRequest({
+                lookupKey,
+                url,
+                rateSeconds,
+                saveToObjectStorage,
+                headers: requestOptions?.headers,
+              });
+
+              if (result) {
+                request = result.request;
+              }
+
+              await this.emitFetchCompleted({
+                lookupKey,
+                url,
+                rateSeconds: rateSeconds,
+              });
+            } finally {
+              if (message.timestamp) {
+                const nowTs = Date.now();
+                const finishedTs = nowTs - message.timestamp;
+
+                logger.datadog(
+                  `Finished handling feed requests batch event URL in ${finishedTs}s`,
+                  {
+                    duration: finishedTs,
+                    url,
+                    lookupKey,
+                    requestStatus: request?.status,
+                    errorMessage: request?.errorMessage,
+                  },
+                );
+              }
             }
-
-            await this.emitFetchCompleted({
-              lookupKey,
-              url,
-              rateSeconds: rateSeconds,
-            });
-          } finally {
-            if (message.timestamp) {
-              const nowTs = Date.now();
-              const finishedTs = nowTs - message.timestamp;
-
-              logger.datadog(
-                `Finished handling feed requests batch event URL in ${finishedTs}s`,
-                {
-                  duration: finishedTs,
-                  url,
-                  lookupKey,
-                  requestStatus: request?.status,
-                  errorMessage: request?.errorMessage,
-                },
-              );
-            }
-          }
-        }),
+          },
+        ),
       );
 
       for (let i = 0; i < results.length; ++i) {
@@ -168,6 +197,7 @@ export class FeedFetcherListenerService {
           continue;
         }
 
+        messageHandlerErrorsCounter.inc({ queue: 'url.fetch-batch' });
         logger.error(`Error processing a message within batch request`, {
           reason: res.reason instanceof Error ? res.reason.stack : res.reason,
         });
@@ -179,6 +209,7 @@ export class FeedFetcherListenerService {
         urls,
       });
     } catch (err) {
+      messageHandlerErrorsCounter.inc({ queue: 'url.fetch-batch' });
       logger.error(`Error processing fetch batch request message`, {
         event: message,
         err: (err as Error).stack,
@@ -191,6 +222,7 @@ export class FeedFetcherListenerService {
     url: string;
     rateSeconds: number;
     saveToObjectStorage?: boolean;
+    headers?: Record<string, string>;
   }): Promise<undefined | { request: Request }> {
     const url = data.url;
     const rateSeconds = data.rateSeconds;
@@ -201,7 +233,7 @@ export class FeedFetcherListenerService {
       .toDate();
 
     const requestExistsAfterTime = await this.requestExistsAfterTime(
-      { url },
+      { url, lookupKey },
       dateToCheck,
     );
 
@@ -213,6 +245,23 @@ export class FeedFetcherListenerService {
       return;
     }
 
+    if (!lookupKey && (await this.webSubService.hasActiveLease({ url }))) {
+      const polledForReconciliation = await this.requestExistsAfterTime(
+        { url },
+        dayjs()
+          .subtract(WebSubService.RECONCILIATION_POLL_HOURS, 'hours')
+          .toDate(),
+      );
+
+      if (polledForReconciliation) {
+        logger.debug(
+          `Request ${url} receives updates pushed by its WebSub hub, skipping`,
+        );
+
+        return;
+      }
+    }
+
     const { skip, nextRetryDate, failedAttemptsCount } =
       await this.shouldSkipAfterPreviousFailedAttempt({
         lookupKey: lookupKey || url,
@@ -225,17 +274,43 @@ export class FeedFetcherListenerService {
           `recently failed and will be skipped until ${nextRetryDate}`,
       );
     } else {
-      const { request } = await this.feedFetcherService.fetchAndSaveResponse(
-        url,
-        {
+      const release = await this.hostRateLimiterService.acquire({ url });
+
+      if (!release) {
+        logger.debug(
+          `Request ${url} is over the request limits of its host, deferring to the next schedule`,
+        );
+
+        return;
+      }
+
+      const { request, responseText } = await this.feedFetcherService
+        .fetchAndSaveResponse(url, {
           saveResponseToObjectStorage: data.saveToObjectStorage,
           lookupKey,
           source: RequestSource.Schedule,
-        },
-      );
+          headers: data.headers,
+        })
+        .finally(release);
 
       if (request.status === RequestStatus.REFUSED_LARGE_FEED) {
         this.emitRejectedUrl({ url });
+      } else if (request.status === RequestStatus.THROTTLED_BY_HOST) {
+        // Being throttled is not a problem with the feed, so it never counts as a failed attempt
+        const retryAfter = request.response?.headers?.retryAfter;
+        const nextRetryDate = this.calculateNextRetryDate(
+          new Date(),
+          failedAttemptsCount,
+          retryAfter,
+        );
+
+        this.hostRateLimiterService.pauseHost({ url, retryAfter });
+
+        logger.debug(
+          `Request with url ${url} was throttled by its host, next retry date: ${nextRetryDate}`,
+        );
+
+        request.nextRetryDate = nextRetryDate;
       } else if (request.status !== RequestStatus.OK) {
         const nextRetryDate = this.calculateNextRetryDate(
           new Date(),
@@ -247,12 +322,23 @@ export class FeedFetcherListenerService {
         );
 
         request.nextRetryDate = nextRetryDate;
+        this.emitFailedAttempt({
+          lookupKey,
+          url,
+          failedAttemptsCount: failedAttemptsCount + 1,
+        });
+      } else if (!lookupKey && responseText) {
+        await this.webSubService
+          .maybeSubscribe({ url, responseText })
+          .catch((err) => {
+            logger.error(`Failed to subscribe to WebSub hub of ${url}`, {
+              stack: (err as Error).stack,
+            });
+          });
       }
 
       return { request };
     }
-
-    // await this.deleteStaleRequests(url);
   }
 
   async shouldSkipAfterPreviousFailedAttempt({
@@ -272,8 +358,25 @@ export class FeedFetcherListenerService {
     });
 
     if (failedAttempts === 0) {
+      const throttledRequest = await this.requestRepo.findOne(
+        {
+          lookupKey: lookupKey || url,
+          status: RequestStatus.THROTTLED_BY_HOST,
+          nextRetryDate: {
+            $gt: new Date(),
+          },
+        },
+        {
+          fields: ['nextRetryDate'],
+          orderBy: {
+            createdAt: 'DESC',
+          },
+        },
+      );
+
       return {
-        skip: false,
+        skip: !!throttledRequest,
+        nextRetryDate: throttledRequest?.nextRetryDate,
         failedAttemptsCount: 0,
       };
     }
@@ -373,6 +476,33 @@ export class FeedFetcherListenerService {
     }
   }
 
+  emitFailedAttempt({
+    lookupKey,
+    url,
+    failedAttemptsCount,
+  }: {
+    lookupKey?: string;
+    url: string;
+    failedAttemptsCount: number;
+  }) {
+    try {
+      this.amqpConnection.publish<{
+        data: { lookupKey?: string; url: string; failedAttemptsCount: number };
+      }>('', 'url.fetch.failed', {
+        data: {
+          lookupKey,
+          url,
+          failedAttemptsCount,
+        },
+      });
+    } catch (err) {
+      logger.error(`Failed to publish failed attempt event: ${lookupKey}`, {
+        stack: (err as Error).stack,
+        lookupKey,
+      });
+    }
+  }
+
   emitFetchCompleted({
     lookupKey,
     url,
@@ -424,7 +554,7 @@ export class FeedFetcherListenerService {
       return this.requestRepo.count({
         lookupKey: lookupKey || url,
         status: {
-          $ne: RequestStatus.OK,
+          $nin: [RequestStatus.OK, RequestStatus.THROTTLED_BY_HOST],
         },
         createdAt: {
           $gte: latestOkRequest.createdAt,
@@ -435,19 +565,40 @@ export class FeedFetcherListenerService {
       return this.requestRepo.count({
         lookupKey: lookupKey || url,
         status: {
-          $ne: RequestStatus.OK,
+          $nin: [RequestStatus.OK, RequestStatus.THROTTLED_BY_HOST],
         },
         source: RequestSource.Schedule,
       });
     }
   }
 
-  calculateNextRetryDate(referenceDate: Date, attemptsSoFar: number) {
+  /**
+   * Retries are never scheduled before the Retry-After date given by the host, up to a maximum
+   */
+  calculateNextRetryDate(
+    referenceDate: Date,
+    attemptsSoFar: number,
+    retryAfter?: string | null,
+  ) {
     const minutesToWait =
       FeedFetcherListenerService.BASE_FAILED_ATTEMPT_WAIT_MINUTES *
       Math.pow(2, attemptsSoFar);
 
-    return dayjs(referenceDate).add(minutesToWait, 'minute').toDate();
+    const backoffDate = dayjs(referenceDate).add(minutesToWait, 'minute');
+    const retryAfterDate = parseRetryAfter(retryAfter, referenceDate);
+
+    if (!retryAfterDate || !dayjs(retryAfterDate).isAfter(backoffDate)) {
+      return backoffDate.toDate();
+    }
+
+    const maxRetryAfterDate = dayjs(referenceDate).add(
+      FeedFetcherListenerService.MAX_RETRY_AFTER_HOURS,
+      'hours',
+    );
+
+    return dayjs(retryAfterDate).isAfter(maxRetryAfterDate)
+      ? maxRetryAfterDate.toDate()
+      : retryAfterDate;
   }
 
   async requestExistsAfterTime(
@@ -472,56 +623,4 @@ export class FeedFetcherListenerService {
 
     return !!found;
   }
-
-  /**
-   * While this may delete all requests of feeds that have been disabled and were not fetched
-   * for a long time for example, fetches should always execute anyways if there are no
-   * existing requests stored.
-   */
-  async deleteStaleRequests(url: string) {
-    const cutoff = dayjs().subtract(1, 'days').toDate();
-
-    // const staleRequestsExists = await this.requestRepo.findOne(
-    //   {
-    //     url,
-    //     createdAt: {
-    //       $lt: cutoff,
-    //     },
-    //   },
-    //   {
-    //     fields: ['id'],
-    //   },
-    // );
-
-    // if (!staleRequestsExists) {
-    //   return;
-    // }
-
-    try {
-      // const oldResponseIds = this.requestRepo
-      //   .createQueryBuilder('a')
-      //   .select('response')
-      //   .where({ url, createdAt: { $lt: cutoff } })
-      //   .getKnexQuery();
-      // await this.responseRepo
-      //   .createQueryBuilder()
-      //   .delete()
-      //   .where({
-      //     id: {
-      //       $in: oldResponseIds,
-      //     },
-      //   });
-      // await this.requestRepo.nativeDelete({
-      //   url,
-      //   createdAt: {
-      //     $lt: cutoff,
-      //   },
-      // });
-    } catch (err) {
-      logger.error(`Failed to delete stale requests for url ${url}`, {
-        stack: (err as Error).stack,
-        url,
-      });
-    }
-  }
 }
@@ -1,9 +1,11 @@
 import { ConfigService } from '@nestjs/config';
 import nock from 'nock';
-import { Request, Response } from './entities';
+import { Request } from './entities';
 import { EntityRepository } from '@mikro-orm/postgresql';
 import { MikroORM } from '@mikro-orm/core';
 import { FeedFetcherListenerService } from './feed-fetcher-listener.service';
+import { RequestStatus } from './constants';
+import { RequestSource } from './constants/request-source.constants';
 
 jest.mock('../utils/logger');
 
@@ -16,14 +18,22 @@ describe('FeedFetcherListenerService', () => {
     persistAndFlush: jest.fn(),
     persist: jest.fn(),
     findOne: jest.fn(),
-  } as never;
-  const responseRepo: EntityRepository<Response> = {
-    persistAndFlush: jest.fn(),
-    persist: jest.fn(),
+    count: jest.fn(),
   } as never;
   const amqpConnection = {
     publish: jest.fn(),
   };
+  const feedFetcherService = {
+    fetchAndSaveResponse: jest.fn(),
+  };
+  const webSubService = {
+    hasActiveLease: jest.fn(),
+    maybeSubscribe: jest.fn(),
+  };
+  const hostRateLimiterService = {
+    acquire: jest.fn(),
+    pauseHost: jest.fn(),
+  };
 
   beforeEach(async () => {
     configService = {
@@ -45,11 +55,13 @@ describe('FeedFetcherListenerService', () => {
 
     service = new FeedFetcherListenerService(
       requestRepo,
-      responseRepo,
       configService,
-      {} as never,
+      feedFetcherService as never,
       amqpConnection as never,
       mockMikroOrm,
+      {} as never,
+      webSubService as never,
+      hostRateLimiterService as never,
     );
     service.defaultUserAgent = defaultUserAgent;
   });
@@ -70,4 +82,228 @@ describe('FeedFetcherListenerService', () => {
       expect(amqpConnection.publish).toHaveBeenCalled();
     });
   });
+
+  describe('handleBrokerFetchRequest', () => {
+    const release = jest.fn();
+
+    const handleBrokerFetchRequest = (data: {
+      lookupKey?: string;
+      url: string;
+      rateSeconds: number;
+    }) => service['handleBrokerFetchRequest'](data);
+
+    beforeEach(() => {
+      jest.spyOn(service, 'requestExistsAfterTime').mockResolvedValue(false);
+      jest
+        .spyOn(service, 'shouldSkipAfterPreviousFailedAttempt')
+        .mockResolvedValue({
+          skip: false,
+          failedAttemptsCount: 0,
+        });
+      webSubService.hasActiveLease.mockResolvedValue(false);
+      webSubService.maybeSubscribe.mockResolvedValue(undefined);
+      hostRateLimiterService.acquire.mockResolvedValue(release);
+      feedFetcherService.fetchAndSaveResponse.mockResolvedValue({
+        request: {
+          status: RequestStatus.OK,
+        },
+      });
+    });
+
+    it('skips urls with an active WebSub lease that were polled for reconciliation', async () => {
+      webSubService.hasActiveLease.mockResolvedValue(true);
+      jest
+        .spyOn(service, 'requestExistsAfterTime')
+        .mockResolvedValueOnce(false)
+        .mockResolvedValueOnce(true);
+
+      await handleBrokerFetchRequest({ url: feedUrl, rateSeconds: 60 });
+
+      expect(feedFetcherService.fetchAndSaveResponse).not.toHaveBeenCalled();
+    });
+
+    it('polls urls with an active WebSub lease that are due for reconciliation', async () => {
+      webSubService.hasActiveLease.mockResolvedValue(true);
+
+      await handleBrokerFetchRequest({ url: feedUrl, rateSeconds: 60 });
+
+      expect(feedFetcherService.fetchAndSaveResponse).toHaveBeenCalledWith(
+        feedUrl,
+        expect.objectContaining({
+          source: RequestSource.Schedule,
+        }),
+      );
+    });
+
+    it('does not check WebSub leases of urls with lookup keys', async () => {
+      await handleBrokerFetchRequest({
+        url: feedUrl,
+        lookupKey: 'lookup-key',
+        rateSeconds: 60,
+      });
+
+      expect(webSubService.hasActiveLease).not.toHaveBeenCalled();
+    });
+
+    it('releases the host rate limiter after fetching', async () => {
+      await handleBrokerFetchRequest({ url: feedUrl, rateSeconds: 60 });
+
+      expect(hostRateLimiterService.acquire).toHaveBeenCalledWith({
+        url: feedUrl,
+      });
+      expect(release).toHaveBeenCalledTimes(1);
+    });
+
+    it('releases the host rate limiter if fetching throws', async () => {
+      feedFetcherService.fetchAndSaveResponse.mockRejectedValue(
+        new Error('fetch failed'),
+      );
+
+      await expect(
+        handleBrokerFetchRequest({ url: feedUrl, rateSeconds: 60 }),
+      ).rejects.toThrow();
+
+      expect(release).toHaveBeenCalledTimes(1);
+    });
+
+    it('defers the request if the host rate limiter has no slot', async () => {
+      hostRateLimiterService.acquire.mockResolvedValue(null);
+
+      const result = await handleBrokerFetchRequest({
+        url: feedUrl,
+        rateSeconds: 60,
+      });
+
+      expect(result).toBeUndefined();
+      expect(feedFetcherService.fetchAndSaveResponse).not.toHaveBeenCalled();
+    });
+
+    it('schedules throttled requests after their Retry-After date', async () => {
+      const request = {
+        status: RequestStatus.THROTTLED_BY_HOST,
+        response: {
+          headers: {
+            retryAfter: '3600',
+          },
+        },
+      } as Request;
+      feedFetcherService.fetchAndSaveResponse.mockResolvedValue({ request });
+
+      const before = Date.now();
+      await handleBrokerFetchRequest({ url: feedUrl, rateSeconds: 60 });
+
+      expect(request.nextRetryDate?.getTime()).toBeGreaterThanOrEqual(
+        before + 3600 * 1000,
+      );
+      expect(hostRateLimiterService.pauseHost).toHaveBeenCalledWith({
+        url: feedUrl,
+        retryAfter: '3600',
+      });
+    });
+
+    it('does not count throttled requests as failed attempts', async () => {
+      feedFetcherService.fetchAndSaveResponse.mockResolvedValue({
+        request: {
+          status: RequestStatus.THROTTLED_BY_HOST,
+        },
+      });
+
+      await handleBrokerFetchRequest({ url: feedUrl, rateSeconds: 60 });
+
+      expect(amqpConnection.publish).not.toHaveBeenCalledWith(
+        '',
+        'url.fetch.failed',
+        expect.anything(),
+      );
+    });
+
+    it('emits failed attempts for other failed requests', async () => {
+      feedFetcherService.fetchAndSaveResponse.mockResolvedValue({
+        request: {
+          status: RequestStatus.BAD_STATUS_CODE,
+        },
+      });
+
+      await handleBrokerFetchRequest({ url: feedUrl, rateSeconds: 60 });
+
+      expect(amqpConnection.publish).toHaveBeenCalledWith(
+        '',
+        'url.fetch.failed',
+        {
+          data: {
+            lookupKey: undefined,
+            url: feedUrl,
+            failedAttemptsCount: 1,
+          },
+        },
+      );
+    });
+  });
+
+  describe('shouldSkipAfterPreviousFailedAttempt', () => {
+    it('skips urls that were throttled until their next retry date', async () => {
+      const nextRetryDate = new Date(Date.now() + 60000);
+      jest.spyOn(service, 'countFailedRequests').mockResolvedValue(0);
+      (requestRepo.findOne as jest.Mock).mockResolvedValue({ nextRetryDate });
+
+      const result = await service.shouldSkipAfterPreviousFailedAttempt({
+        url: feedUrl,
+      });
+
+      expect(result).toEqual({
+        skip: true,
+        nextRetryDate,
+        failedAttemptsCount: 0,
+      });
+    });
+  });
+
+  describe('countFailedRequests', () => {
+    it('does not count throttled requests', async () => {
+      (requestRepo.findOne as jest.Mock).mockResolvedValue(null);
+      (requestRepo.count as jest.Mock).mockResolvedValue(0);
+
+      await service.countFailedRequests({ url: feedUrl });
+
+      expect(requestRepo.count).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: {
+            $nin: [RequestStatus.OK, RequestStatus.THROTTLED_BY_HOST],
+          },
+        }),
+      );
+    });
+  });
+
+  describe('calculateNextRetryDate', () => {
+    const referenceDate = new Date(2020, 0, 1);
+
+    it('uses the backoff date if there is no Retry-After', () => {
+      expect(service.calculateNextRetryDate(referenceDate, 1)).toEqual(
+        new Date(
+          referenceDate.getTime() +
+            FeedFetcherListenerService.BASE_FAILED_ATTEMPT_WAIT_MINUTES *
+              2 *
+              60000,
+        ),
+      );
+    });
+
+    it('uses the Retry-After date if it is after the backoff date', () => {
+      expect(service.calculateNextRetryDate(referenceDate, 0, '7200')).toEqual(
+        new Date(referenceDate.getTime() + 7200 * 1000),
+      );
+    });
+
+    it('caps the Retry-After date', () => {
+      expect(
+        service.calculateNextRetryDate(referenceDate, 0, String(60 * 60 * 48)),
+      ).toEqual(
+        new Date(
+          referenceDate.getTime() +
+            FeedFetcherListenerService.MAX_RETRY_AFTER_HOURS * 60 * 60 * 1000,
+        ),
+      );
+    });
+  });
 });
@@ -12,11 +12,19 @@ describe('FeedFetcherController', () => {
     fetchAndSaveResponse: jest.fn(),
     getLatestRequest: jest.fn(),
     getRequests: jest.fn(),
-    countRequests: jest.fn(),
+    getLatestRetryDate: jest.fn(),
+    getConditionalRequestSavings: jest.fn(),
   } as never;
+  const configService = {
+    getOrThrow: jest.fn(),
+  };
 
   beforeEach(() => {
-    controller = new FeedFetcherController(feedFetcherService);
+    controller = new FeedFetcherController(
+      feedFetcherService,
+      {} as never,
+      configService as never,
+    );
   });
 
   describe('getRequests', () => {
@@ -45,7 +53,13 @@ describe('FeedFetcherController', () => {
         .spyOn(feedFetcherService, 'getRequests')
         .mockResolvedValue(mockRequests as never);
 
-      jest.spyOn(feedFetcherService, 'countRequests').mockResolvedValue(2);
+      jest
+        .spyOn(feedFetcherService, 'getLatestRetryDate')
+        .mockResolvedValue(mockRequests[0].nextRetryTimestamp as Date);
+
+      jest
+        .spyOn(feedFetcherService, 'getConditionalRequestSavings')
+        .mockResolvedValue({ notModifiedCount: 3, bytesSaved: 300 });
 
       const result = await controller.getRequests(input);
 
@@ -56,15 +70,24 @@ describe('FeedFetcherController', () => {
               id: 1,
               createdAt: dayjs(mockRequests[0].createdAt).unix(),
               status: RequestStatus.FETCH_ERROR,
+              response: {
+                statusCode: undefined,
+              },
             },
             {
               id: 2,
               createdAt: dayjs(mockRequests[1].createdAt).unix(),
               status: RequestStatus.OK,
+              response: {
+                statusCode: undefined,
+              },
             },
           ],
-          totalRequests: 2,
           nextRetryTimestamp: dayjs(mockRequests[0].nextRetryTimestamp).unix(),
+          conditionalRequestSavings: {
+            notModifiedCount: 3,
+            bytesSaved: 300,
+          },
         },
       });
     });
@@ -103,6 +126,12 @@ describe('FeedFetcherController', () => {
 
       expect(feedFetcherService.fetchAndSaveResponse).toHaveBeenCalledWith(
         data.url,
+        {
+          saveResponseToObjectStorage: undefined,
+          lookupKey: undefined,
+          source: undefined,
+          headers: undefined,
+        },
       );
     });
 
@@ -118,7 +147,7 @@ describe('FeedFetcherController', () => {
       const result = await controller.fetchFeed(data);
 
       expect(result).toEqual({
-        requestStatus: 'pending',
+        requestStatus: 'PENDING',
       });
     });
 
@@ -133,16 +162,22 @@ describe('FeedFetcherController', () => {
         .mockResolvedValue(null);
 
       jest.spyOn(feedFetcherService, 'fetchAndSaveResponse').mockResolvedValue({
-        status: RequestStatus.OK,
-        response: {
-          statusCode: 200,
+        request: {
+          status: RequestStatus.OK,
+          response: {
+            statusCode: 200,
+          },
         },
+        responseText: 'response body',
       } as never);
 
       const result = await controller.fetchFeed(data);
 
       expect(result).toMatchObject({
-        requestStatus: 'success',
+        requestStatus: 'SUCCESS',
+        response: {
+          body: 'response body',
+        },
       });
     });
 
@@ -152,13 +187,15 @@ describe('FeedFetcherController', () => {
       };
 
       jest.spyOn(feedFetcherService, 'getLatestRequest').mockResolvedValue({
-        status: RequestStatus.FETCH_ERROR,
+        request: {
+          status: RequestStatus.FETCH_ERROR,
+        },
       } as never);
 
       const result = await controller.fetchFeed(data);
 
       expect(result).toEqual({
-        requestStatus: 'error',
+        requestStatus: 'FETCH_ERROR',
       });
     });
 
@@ -168,14 +205,16 @@ describe('FeedFetcherController', () => {
       };
 
       jest.spyOn(feedFetcherService, 'getLatestRequest').mockResolvedValue({
-        status: RequestStatus.OK,
-        response: undefined,
+        request: {
+          status: RequestStatus.OK,
+          response: undefined,
+        },
       } as never);
 
       const result = await controller.fetchFeed(data);
 
       expect(result).toEqual({
-        requestStatus: 'error',
+        requestStatus: 'FETCH_ERROR',
       });
     });
 
@@ -185,18 +224,22 @@ describe('FeedFetcherController', () => {
       };
 
       jest.spyOn(feedFetcherService, 'getLatestRequest').mockResolvedValue({
-        status: RequestStatus.OK,
-        response: {
-          text: 'response body',
-          statusCode: 200,
+        request: {
+          status: RequestStatus.OK,
+          response: {
+            textHash: 'hash',
+            statusCode: 200,
+          },
         },
+        decodedResponseText: 'response body',
       } as never);
 
       const result = await controller.fetchFeed(data);
 
       expect(result).toEqual({
-        requestStatus: 'success',
+        requestStatus: 'SUCCESS',
         response: {
+          hash: 'hash',
           body: 'response body',
           statusCode: 200,
         },
@@ -209,40 +252,121 @@ describe('FeedFetcherController', () => {
       };
 
       jest.spyOn(feedFetcherService, 'getLatestRequest').mockResolvedValue({
-        status: RequestStatus.PARSE_ERROR,
-        response: {
-          statusCode: 200,
+        request: {
+          status: RequestStatus.PARSE_ERROR,
+          response: {
+            statusCode: 200,
+          },
         },
       } as never);
 
       const result = await controller.fetchFeed(data);
 
       expect(result).toEqual({
-        requestStatus: 'parse_error',
+        requestStatus: 'PARSE_ERROR',
         response: {
           statusCode: 200,
         },
       });
     });
 
-    it('returns request status error with response status code if request is failed', async () => {
+    it('returns bad status code with the response status code if the request failed', async () => {
       const data = {
         url: 'https://www.example.com',
       };
 
       jest.spyOn(feedFetcherService, 'getLatestRequest').mockResolvedValue({
-        status: RequestStatus.FETCH_ERROR,
+        request: {
+          status: RequestStatus.BAD_STATUS_CODE,
+          response: {
+            statusCode: 404,
+          },
+        },
+      } as never);
+
+      const result = await controller.fetchFeed(data);
+
+      expect(result).toEqual({
+        requestStatus: 'BAD_STATUS_CODE',
         response: {
           statusCode: 404,
         },
+      });
+    });
+
+    it('returns not modified if the latest response was a 304 with the same hash', async () => {
+      const data = {
+        url: 'https://www.example.com',
+        hashToCompare: 'hash',
+      };
+
+      jest.spyOn(feedFetcherService, 'getLatestRequest').mockResolvedValue({
+        request: {
+          status: RequestStatus.OK,
+          response: {
+            statusCode: 304,
+            textHash: 'hash',
+          },
+        },
+        decodedResponseText: 'response body',
+      } as never);
+
+      const result = await controller.fetchFeed(data);
+
+      expect(result).toEqual({
+        requestStatus: 'NOT_MODIFIED',
+      });
+    });
+
+    it('returns matched hash if the latest response was not a 304', async () => {
+      const data = {
+        url: 'https://www.example.com',
+        hashToCompare: 'hash',
+      };
+
+      jest.spyOn(feedFetcherService, 'getLatestRequest').mockResolvedValue({
+        request: {
+          status: RequestStatus.OK,
+          response: {
+            statusCode: 200,
+            textHash: 'hash',
+          },
+        },
+        decodedResponseText: 'response body',
+      } as never);
+
+      const result = await controller.fetchFeed(data);
+
+      expect(result).toEqual({
+        requestStatus: 'MATCHED_HASH',
+      });
+    });
+
+    it('returns the cached body of a 304 response if the hash is different', async () => {
+      const data = {
+        url: 'https://www.example.com',
+        hashToCompare: 'other-hash',
+      };
+
+      jest.spyOn(feedFetcherService, 'getLatestRequest').mockResolvedValue({
+        request: {
+          status: RequestStatus.OK,
+          response: {
+            statusCode: 304,
+            textHash: 'hash',
+          },
+        },
+        decodedResponseText: 'response body',
       } as never);
 
       const result = await controller.fetchFeed(data);
 
       expect(result).toEqual({
-        requestStatus: 'error',
+        requestStatus: 'SUCCESS',
         response: {
-          statusCode: 404,
+          hash: 'hash',
+          body: 'response body',
+          statusCode: 304,
         },
       });
     });
@@ -253,8 +377,10 @@ describe('FeedFetcherController', () => {
       };
 
       jest.spyOn(feedFetcherService, 'getLatestRequest').mockResolvedValue({
-        status: 'unhandled',
-        response: {},
+        request: {
+          status: 'unhandled',
+          response: {},
+        },
       } as never);
 
       await expect(controller.fetchFeed(data)).rejects.toThrowError(
@@ -6,6 +6,7 @@ import {
   ValidationPipe,
   BadRequestException,
   UnauthorizedException,
+  HttpStatus,
 } from '@nestjs/common';
 import { Get } from '@nestjs/common/decorators';
 import dayjs from 'dayjs';
@@ -52,13 +53,16 @@ export class FeedFetcherController {
     )
     { skip, limit, url }: GetFeedRequestsInputDto,
   ): Promise<GetFeedRequestsOutputDto> {
-    const [requests] = await Promise.all([
+    const [requests, conditionalRequestSavings] = await Promise.all([
       this.feedFetcherService.getRequests({
         skip,
         limit,
         url,
         select: ['id', 'createdAt', 'nextRetryDate', 'status'],
       }),
+      this.feedFetcherService.getConditionalRequestSavings({
+        lookupKey: url,
+      }),
     ]);
 
     const nextRetryDate =
@@ -78,6 +82,7 @@ export class FeedFetcherController {
         })),
         // unix timestamp in seconds
         nextRetryTimestamp: nextRetryDate ? dayjs(nextRetryDate).unix() : null,
+        conditionalRequestSavings,
       },
     };
   }
@@ -121,6 +126,7 @@ export class FeedFetcherController {
           saveResponseToObjectStorage: data.debug,
           lookupKey: data.lookupKey,
           source: undefined,
+          headers: data.headers,
         });
       } catch (err) {
         logger.error(`Failed to fetch and save response of feed ${data.url}`, {
@@ -150,6 +156,7 @@ export class FeedFetcherController {
             saveResponseToObjectStorage: data.debug,
             lookupKey: data.lookupKey,
             source: undefined,
+            headers: data.headers,
           },
         );
 
@@ -171,6 +178,14 @@ export class FeedFetcherController {
       data.hashToCompare &&
       data.hashToCompare === latestRequest.request.response?.textHash
     ) {
+      if (
+        latestRequest.request.response?.statusCode === HttpStatus.NOT_MODIFIED
+      ) {
+        return {
+          requestStatus: 'NOT_MODIFIED' as const,
+        };
+      }
+
       return {
         requestStatus: 'MATCHED_HASH' as const,
       };
@@ -229,7 +244,10 @@ export class FeedFetcherController {
       };
     }
 
-    if (latestRequestStatus === RequestStatus.BAD_STATUS_CODE) {
+    if (
+      latestRequestStatus === RequestStatus.BAD_STATUS_CODE ||
+      latestRequestStatus === RequestStatus.THROTTLED_BY_HOST
+    ) {
       return {
         requestStatus: 'BAD_STATUS_CODE' as const,
         response: {
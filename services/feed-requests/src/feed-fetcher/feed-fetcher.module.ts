@@ -1,5 +1,5 @@
 import { DynamicModule, Module } from '@nestjs/common';
-import { Request, Response } from './entities';
+import { Request, Response, WebSubSubscription } from './entities';
 import { FeedFetcherController } from './feed-fetcher.controller';
 import { FeedFetcherService } from './feed-fetcher.service';
 import { MikroOrmModule } from '@mikro-orm/nestjs';
@@ -7,15 +7,25 @@ import { MessageBrokerModule } from '../message-broker/message-broker.module';
 import { FeedFetcherListenerService } from './feed-fetcher-listener.service';
 import { ObjectFileStorageModule } from '../object-file-storage/object-file-storage.module';
 import { CacheStorageModule } from '../cache-storage/cache-storage.module';
+import { WebSubService } from './web-sub.service';
+import { WebSubController } from './web-sub.controller';
+import { ProxyPoolService } from './proxy-pool.service';
+import { HostRateLimiterService } from './host-rate-limiter.service';
+import { RequestRetentionService } from './request-retention.service';
 
 @Module({
   controllers: [],
-  providers: [FeedFetcherService],
+  providers: [
+    FeedFetcherService,
+    WebSubService,
+    ProxyPoolService,
+    HostRateLimiterService,
+  ],
   exports: [FeedFetcherService],
   imports: [
     ObjectFileStorageModule,
     CacheStorageModule,
-    MikroOrmModule.forFeature([Request, Response]),
+    MikroOrmModule.forFeature([Request, Response, WebSubSubscription]),
   ],
 })
 export class FeedFetcherModule {
@@ -23,24 +33,24 @@ export class FeedFetcherModule {
     return {
       module: FeedFetcherModule,
       imports: [MessageBrokerModule.forRoot()],
-      providers: [FeedFetcherListenerService],
+      providers: [FeedFetcherListenerService, RequestRetentionService],
     };
   }
 
   static forApi(): DynamicModule {
     return {
       module: FeedFetcherModule,
-      controllers: [FeedFetcherController],
-      imports: [],
+      controllers: [FeedFetcherController, WebSubController],
+      imports: [MessageBrokerModule.forRoot()],
     };
   }
 
   static forApiAndService(): DynamicModule {
     return {
       module: FeedFetcherModule,
-      controllers: [FeedFetcherController],
+      controllers: [FeedFetcherController, WebSubController],
       imports: [MessageBrokerModule.forRoot()],
-      providers: [FeedFetcherListenerService],
+      providers: [FeedFetcherListenerService, RequestRetentionService],
     };
   }
 }
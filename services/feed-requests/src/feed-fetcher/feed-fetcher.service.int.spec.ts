@@ -2,6 +2,7 @@
 import { INestApplication } from '@nestjs/common';
 import { RequestStatus } from './constants';
 import { FeedFetcherService } from './feed-fetcher.service';
+import { ProxyPoolService } from './proxy-pool.service';
 import {
   clearDatabase,
   setupPostgresTests,
@@ -27,6 +28,7 @@ describe('FeedFetcherService (Integration)', () => {
       {
         providers: [
           FeedFetcherService,
+          ProxyPoolService,
           {
             provide: ObjectFileStorageService,
             useValue: {
@@ -14,35 +14,19 @@ import { CacheStorageService } from '../cache-storage/cache-storage.service';
 import { FeedTooLargeException } from './exceptions';
 import iconv from 'iconv-lite';
 import { RequestSource } from './constants/request-source.constants';
+import { fetchDurationHistogram } from '../metrics';
+import { redactHeadersForStorage } from './utils';
+import { ProxyPoolService, SelectedProxy } from './proxy-pool.service';
+import { fetch, RequestInit } from 'undici';
 
 const deflatePromise = promisify(deflate);
 const inflatePromise = promisify(inflate);
 
 const sha1 = createHash('sha1');
 
-const trimHeadersForStorage = (obj?: HeadersInit) => {
-  if (!obj) {
-    return obj;
-  }
-
-  const newObj: HeadersInit = {};
-
-  for (const key in obj) {
-    if (obj[key]) {
-      newObj[key] = obj[key];
-    }
-  }
-
-  if (newObj.authorization) {
-    newObj.authorization = 'SECRET';
-  }
-
-  return newObj;
-};
-
 interface FetchOptions {
   userAgent?: string;
-  headers?: HeadersInit;
+  headers?: Record<string, string>;
 }
 
 @Injectable()
@@ -50,6 +34,12 @@ export class FeedFetcherService {
   defaultUserAgent: string;
   feedRequestTimeoutMs: number;
 
+  /**
+   * Caps how many proxies of a pool are tried per request, since every attempt may take up to the
+   * request timeout
+   */
+  static MAX_PROXY_ATTEMPTS = 3;
+
   constructor(
     @InjectRepository(Request)
     private readonly requestRepo: EntityRepository<Request>,
@@ -58,6 +48,7 @@ export class FeedFetcherService {
     private readonly configService: ConfigService,
     private readonly objectFileStorageService: ObjectFileStorageService,
     private readonly cacheStorageService: CacheStorageService,
+    private readonly proxyPoolService: ProxyPoolService,
   ) {
     this.defaultUserAgent = this.configService.getOrThrow(
       'FEED_REQUESTS_FEED_REQUEST_DEFAULT_USER_AGENT',
@@ -203,28 +194,49 @@ export class FeedFetcherService {
     request: Request;
     responseText?: string | null;
   }> {
+    const lookupKey = options?.lookupKey || url;
+    const cachedResponse = await this.getLatestConditionalResponse({
+      lookupKey,
+    });
     const fetchOptions: FetchOptions = {
       userAgent: this.configService.get<string>('feedUserAgent'),
-      headers: options?.headers,
+      headers: {
+        ...options?.headers,
+        ...this.getConditionalRequestHeaders(cachedResponse),
+      },
     };
     const request = new Request();
     request.source = options?.source;
-    request.lookupKey = options?.lookupKey || url;
+    request.lookupKey = lookupKey;
     request.url = url;
     request.fetchOptions = {
       ...fetchOptions,
-      headers: trimHeadersForStorage(fetchOptions.headers),
+      headers: redactHeadersForStorage(
+        fetchOptions.headers,
+        Object.keys(options?.headers || {}),
+      ),
     };
+    const endFetchTimer = fetchDurationHistogram.startTimer();
 
     try {
       const res = await this.fetchFeedResponse(
         url,
         fetchOptions,
         options?.saveResponseToObjectStorage,
+        (proxy) => {
+          request.proxyUrl = proxy.redactedUrl;
+        },
       );
 
+      const retryAfter = res.headers.get('retry-after');
+
       if (res.ok || res.status === HttpStatus.NOT_MODIFIED) {
         request.status = RequestStatus.OK;
+      } else if (
+        res.status === HttpStatus.TOO_MANY_REQUESTS ||
+        (res.status === HttpStatus.SERVICE_UNAVAILABLE && retryAfter)
+      ) {
+        request.status = RequestStatus.THROTTLED_BY_HOST;
       } else {
         request.status = RequestStatus.BAD_STATUS_CODE;
       }
@@ -245,77 +257,81 @@ export class FeedFetcherService {
         response.headers.lastModified = lastModified;
       }
 
-      let text: string | null = null;
-
-      try {
-        text =
-          res.status === HttpStatus.NOT_MODIFIED
-            ? ''
-            : await this.maybeDecodeResponse(res);
-
-        if (request.status !== RequestStatus.OK) {
-          logger.debug(`Bad status code ${res.status} for url ${url}`, {
-            responseText: text,
-          });
-        }
-
-        const sizeOfTextInMb = Buffer.byteLength(text) / 1024 / 1024;
+      if (retryAfter) {
+        response.headers.retryAfter = retryAfter;
+      }
 
-        // if (sizeOfTextInMb > 7) {
-        //   throw new FeedTooLargeException(`Response body is too large`);
-        // }
+      let text: string | null = null;
 
+      if (res.status === HttpStatus.NOT_MODIFIED && cachedResponse) {
+        text = await this.reuseCachedResponse(response, cachedResponse);
+      } else {
         try {
-          const deflated = await deflatePromise(text);
-          const compressedText = deflated.toString('base64');
-
-          if (options?.saveResponseToObjectStorage) {
-            response.s3ObjectKey = randomUUID();
-
-            try {
-              await this.objectFileStorageService.uploadFeedHtmlContent({
-                key: response.s3ObjectKey,
-                body: compressedText,
-              });
-            } catch (err) {
-              logger.error(
-                `Failed to upload feed hmtl content to object file storage`,
-                {
-                  stack: (err as Error).stack,
-                },
-              );
-            }
+          text =
+            res.status === HttpStatus.NOT_MODIFIED
+              ? ''
+              : await this.maybeDecodeResponse(res);
+
+          if (request.status !== RequestStatus.OK) {
+            logger.debug(`Bad status code ${res.status} for url ${url}`, {
+              responseText: text,
+            });
           }
 
-          response.redisCacheKey = sha1.copy().update(url).digest('hex');
-          response.textHash = text
-            ? sha1.copy().update(text).digest('hex')
-            : '';
+          const textByteLength = Buffer.byteLength(text);
+          const sizeOfTextInMb = textByteLength / 1024 / 1024;
+
+          response.contentLengthBytes = textByteLength;
+
+          // if (sizeOfTextInMb > 7) {
+          //   throw new FeedTooLargeException(`Response body is too large`);
+          // }
+
+          try {
+            const compressedText = await this.compressAndCacheText({
+              url,
+              text,
+              response,
+            });
+
+            if (options?.saveResponseToObjectStorage) {
+              response.s3ObjectKey = randomUUID();
+
+              try {
+                await this.objectFileStorageService.uploadFeedHtmlContent({
+                  key: response.s3ObjectKey,
+                  body: compressedText,
+                });
+              } catch (err) {
+                logger.error(
+                  `Failed to upload feed hmtl content to object file storage`,
+                  {
+                    stack: (err as Error).stack,
+                  },
+                );
+              }
+            }
+          } catch (err) {
+            if (err instanceof FeedTooLargeException) {
+              throw err;
+            }
 
-          await this.cacheStorageService.setFeedHtmlContent({
-            key: response.redisCacheKey,
-            body: compressedText,
-          });
+            logger.error(
+              `Failed to upload feed html content for url ${url} to cache`,
+              {
+                stack: (err as Error).stack,
+              },
+            );
+          }
         } catch (err) {
           if (err instanceof FeedTooLargeException) {
-            throw err;
-          }
-
-          logger.error(
-            `Failed to upload feed html content for url ${url} to cache`,
-            {
+            request.status = RequestStatus.REFUSED_LARGE_FEED;
+          } else {
+            request.status = RequestStatus.PARSE_ERROR;
+            logger.debug(`Failed to parse response text of url ${url}`, {
               stack: (err as Error).stack,
-            },
-          );
-        }
-      } catch (err) {
-        if (err instanceof FeedTooLargeException) {
-          request.status = RequestStatus.REFUSED_LARGE_FEED;
-        } else {
-          request.status = RequestStatus.PARSE_ERROR;
-          logger.debug(`Failed to parse response text of url ${url}`, {
-            stack: (err as Error).stack,
-          });
+            });
+          }
         }
       }
 
@@ -337,6 +353,7 @@ export class FeedFetcherService {
     } catch (err) {
       logger.debug(`Failed to fetch url ${url}`, {
         stack: (err as Error).stack,
+        proxyUrl: request.proxyUrl,
       });
 
       if (
@@ -361,51 +378,259 @@ export class FeedFetcherService {
 
       return { request };
     } finally {
+      endFetchTimer({
+        status: request.status || RequestStatus.INTERNAL_ERROR,
+      });
+
       if (options?.flushEntities) {
         await this.requestRepo.flush();
       }
     }
   }
 
+  async getConditionalRequestSavings({
+    lookupKey,
+  }: {
+    lookupKey: string;
+  }): Promise<{
+    notModifiedCount: number;
+    bytesSaved: number;
+  }> {
+    const [result] = await this.requestRepo
+      .getEntityManager()
+      .execute(
+        `SELECT COUNT(*) AS "notModifiedCount",` +
+          ` COALESCE(SUM(response.content_length_bytes), 0) AS "bytesSaved"` +
+          ` FROM request` +
+          ` INNER JOIN response ON response.id = request.response_id` +
+          ` WHERE request.lookup_key = ? AND response.status_code = ?`,
+        [lookupKey, HttpStatus.NOT_MODIFIED],
+      );
+
+    return {
+      notModifiedCount: Number(result?.notModifiedCount || 0),
+      bytesSaved: Number(result?.bytesSaved || 0),
+    };
+  }
+
+  /**
+   * Conditional requests are only sent if the latest request was successful, and its body is
+   * still in the cache to be served in place of a 304 response.
+   */
+  private async getLatestConditionalResponse({
+    lookupKey,
+  }: {
+    lookupKey: string;
+  }): Promise<Response | null> {
+    const latestRequest = await this.requestRepo.findOne(
+      {
+        lookupKey,
+      },
+      {
+        orderBy: {
+          createdAt: 'DESC',
+        },
+        populate: ['response'],
+      },
+    );
+
+    const response = latestRequest?.response;
+
+    if (
+      latestRequest?.status !== RequestStatus.OK ||
+      !response?.redisCacheKey ||
+      (!response.headers?.etag && !response.headers?.lastModified)
+    ) {
+      return null;
+    }
+
+    const isStillCached =
+      await this.cacheStorageService.extendFeedHtmlContentExpiry({
+        key: response.redisCacheKey,
+      });
+
+    return isStillCached ? response : null;
+  }
+
+  /**
+   * @returns The compressed text, base64-encoded
+   */
+  private async compressAndCacheText({
+    url,
+    text,
+    response,
+  }: {
+    url: string;
+    text: string;
+    response: Response;
+  }): Promise<string> {
+    const deflated = await deflatePromise(text);
+    const compressedText = deflated.toString('base64');
+
+    response.redisCacheKey = sha1.copy().update(url).digest('hex');
+    response.textHash = text ? sha1.copy().update(text).digest('hex') : '';
+
+    await this.cacheStorageService.setFeedHtmlContent({
+      key: response.redisCacheKey,
+      body: compressedText,
+    });
+
+    return compressedText;
+  }
+
+  private getConditionalRequestHeaders(
+    response: Response | null,
+  ): Record<string, string> {
+    const headers: Record<string, string> = {};
+
+    if (response?.headers?.etag) {
+      headers['if-none-match'] = response.headers.etag;
+    }
+
+    if (response?.headers?.lastModified) {
+      headers['if-modified-since'] = response.headers.lastModified;
+    }
+
+    return headers;
+  }
+
+  private async reuseCachedResponse(
+    response: Response,
+    cachedResponse: Response,
+  ): Promise<string> {
+    response.headers = {
+      etag: response.headers?.etag || cachedResponse.headers?.etag,
+      lastModified:
+        response.headers?.lastModified || cachedResponse.headers?.lastModified,
+    };
+    response.textHash = cachedResponse.textHash;
+    response.redisCacheKey = cachedResponse.redisCacheKey;
+    response.s3ObjectKey = cachedResponse.s3ObjectKey;
+    response.contentLengthBytes = cachedResponse.contentLengthBytes;
+
+    const compressedText = await this.cacheStorageService.getFeedHtmlContent({
+      key: cachedResponse.redisCacheKey as string,
+    });
+
+    return compressedText
+      ? (await inflatePromise(Buffer.from(compressedText, 'base64'))).toString()
+      : '';
+  }
+
+  /**
+   * Hosts with proxy rules are requested through their pool, rotating to the next proxy whenever
+   * one gets blocked. Other hosts are requested directly, and retried through the fallback pool
+   * if blocked.
+   */
   async fetchFeedResponse(
     url: string,
     options?: FetchOptions,
     log?: boolean,
+    onProxySelected?: (proxy: SelectedProxy) => void,
   ): Promise<ReturnType<typeof fetch>> {
-    const controller = new AbortController();
-
-    const timer = setTimeout(() => {
-      controller.abort();
-    }, this.feedRequestTimeoutMs);
+    const headers: Record<string, string> = {
+      ...options?.headers,
+      'user-agent': options?.userAgent || this.defaultUserAgent,
+      accept: 'text/html,text/xml,application/xml,application/rss+xml',
+      /**
+       * Currently required for https://developer.oculus.com/blog/rss/ that returns 400 otherwise
+       * Appears to be temporary error given that the page says they're working on fixing it
+       */
+      'Sec-Fetch-Mode': 'navigate',
+      'sec-fetch-site': 'none',
+    };
 
     const useOptions: RequestInit = {
-      headers: {
-        ...options?.headers,
-        'user-agent': options?.userAgent || this.defaultUserAgent,
-        accept: 'text/html,text/xml,application/xml,application/rss+xml',
-        /**
-         * Currently required for https://developer.oculus.com/blog/rss/ that returns 400 otherwise
-         * Appears to be temporary error given that the page says they're working on fixing it
-         */
-        'Sec-Fetch-Mode': 'navigate',
-        'sec-fetch-site': 'none',
-      },
+      headers,
       redirect: 'follow',
-      signal: controller.signal,
     };
 
     if (log) {
       logger.info(`TESTLOGGER: Fetching ${url}`, {
         url,
-        options: useOptions,
+        options: {
+          ...useOptions,
+          headers: redactHeadersForStorage(
+            headers,
+            Object.keys(options?.headers || {}),
+          ),
+        },
+      });
+    }
+
+    let poolName = this.proxyPoolService.getPoolNameForUrl(url);
+
+    if (!poolName) {
+      const res = await this.fetchWithTimeout(url, useOptions);
+      poolName = this.proxyPoolService.getFallbackPoolName();
+
+      if (!poolName || !this.proxyPoolService.isBlockedResponse(res)) {
+        return res;
+      }
+
+      await this.discardResponseBody(res);
+    }
+
+    const maxAttempts = Math.min(
+      this.proxyPoolService.getPoolSize(poolName),
+      FeedFetcherService.MAX_PROXY_ATTEMPTS,
+    );
+
+    for (let attempt = 1; ; ++attempt) {
+      const proxy = this.proxyPoolService.getProxy({ poolName, url });
+      onProxySelected?.(proxy);
+
+      const res = await this.fetchWithTimeout(url, {
+        ...useOptions,
+        dispatcher: proxy.dispatcher,
       });
+
+      if (
+        attempt >= maxAttempts ||
+        !this.proxyPoolService.isBlockedResponse(res)
+      ) {
+        return res;
+      }
+
+      logger.debug(
+        `Proxy ${proxy.redactedUrl} was blocked for url ${url}, rotating`,
+        {
+          status: res.status,
+        },
+      );
+
+      this.proxyPoolService.markBlocked({ poolName, url });
+      await this.discardResponseBody(res);
     }
+  }
+
+  /**
+   * Every attempt has its own timeout, so that a slow blocked attempt does not abort the attempts
+   * through the next proxies
+   */
+  private async fetchWithTimeout(url: string, init: RequestInit) {
+    const controller = new AbortController();
 
-    const res = await fetch(url, useOptions);
+    const timer = setTimeout(() => {
+      controller.abort();
+    }, this.feedRequestTimeoutMs);
 
-    clearTimeout(timer);
+    try {
+      return await fetch(url, {
+        ...init,
+        signal: controller.signal,
+      });
+    } finally {
+      clearTimeout(timer);
+    }
+  }
 
-    return res;
+  private async discardResponseBody(res: Awaited<ReturnType<typeof fetch>>) {
+    try {
+      await res.body?.cancel();
+    } catch (err) {
+      // The body is not needed
+    }
   }
 
   private async maybeDecodeResponse(
@@ -1,12 +1,19 @@
 import { ConfigService } from '@nestjs/config';
 import { FeedFetcherService } from './feed-fetcher.service';
-import nock from 'nock';
 import path from 'path';
 import { URL } from 'url';
 import { readFileSync } from 'fs';
 import { Request, Response } from './entities';
 import { RequestStatus } from './constants';
 import { EntityRepository } from '@mikro-orm/postgresql';
+import {
+  Dispatcher,
+  getGlobalDispatcher,
+  MockAgent,
+  Response as FetchResponse,
+  setGlobalDispatcher,
+} from 'undici';
+import { deflateSync } from 'zlib';
 
 jest.mock('../utils/logger');
 
@@ -22,23 +29,60 @@ describe('FeedFetcherService', () => {
     persistAndFlush: jest.fn(),
     persist: jest.fn(),
     findOne: jest.fn(),
+    flush: jest.fn(),
   } as never;
   const responseRepo: EntityRepository<Response> = {
     persistAndFlush: jest.fn(),
     persist: jest.fn(),
   } as never;
+  const objectFileStorageService = {
+    uploadFeedHtmlContent: jest.fn(),
+  };
+  const cacheStorageService = {
+    getFeedHtmlContent: jest.fn(),
+    setFeedHtmlContent: jest.fn(),
+    extendFeedHtmlContentExpiry: jest.fn(),
+  };
+  const proxyPoolService = {
+    getPoolNameForUrl: jest.fn(),
+    getFallbackPoolName: jest.fn(),
+  };
+  // nock does not intercept undici, so requests are intercepted by its own mock agent instead
+  let mockAgent: MockAgent;
+  let originalDispatcher: Dispatcher;
+
+  const interceptFeed = (headers?: Record<string, string>) =>
+    mockAgent.get(url.origin).intercept({
+      path: url.pathname,
+      method: 'GET',
+      headers,
+    });
 
   beforeEach(async () => {
     configService = {
       get: jest.fn(),
       getOrThrow: jest.fn(),
     } as never;
-    service = new FeedFetcherService(requestRepo, responseRepo, configService);
+    service = new FeedFetcherService(
+      requestRepo,
+      responseRepo,
+      configService,
+      objectFileStorageService as never,
+      cacheStorageService as never,
+      proxyPoolService as never,
+    );
     service.defaultUserAgent = defaultUserAgent;
+    service.feedRequestTimeoutMs = 10000;
+
+    originalDispatcher = getGlobalDispatcher();
+    mockAgent = new MockAgent();
+    mockAgent.disableNetConnect();
+    setGlobalDispatcher(mockAgent);
   });
 
-  afterEach(() => {
-    nock.cleanAll();
+  afterEach(async () => {
+    setGlobalDispatcher(originalDispatcher);
+    await mockAgent.close();
     jest.resetAllMocks();
   });
 
@@ -48,16 +92,20 @@ describe('FeedFetcherService', () => {
 
   describe('fetchFeedResponse', () => {
     it('does not throws when status code is non-200', async () => {
-      nock(url.origin).get(url.pathname).replyWithFile(401, feedFilePath, {
-        'Content-Type': 'application/xml',
+      interceptFeed().reply(401, feedXml, {
+        headers: {
+          'Content-Type': 'application/xml',
+        },
       });
 
       await expect(service.fetchFeedResponse(feedUrl)).resolves.toBeDefined();
     });
 
     it('returns the feed xml', async () => {
-      nock(url.origin).get(url.pathname).replyWithFile(200, feedFilePath, {
-        'Content-Type': 'application/xml',
+      interceptFeed().reply(200, feedXml, {
+        headers: {
+          'Content-Type': 'application/xml',
+        },
       });
 
       const res = await service.fetchFeedResponse(feedUrl);
@@ -84,55 +132,70 @@ describe('FeedFetcherService', () => {
         }
       });
 
-      nock(url.origin)
-        .get(url.pathname)
-        .matchHeader('user-agent', userAgent)
-        .replyWithFile(200, feedFilePath, {
+      interceptFeed({ 'user-agent': userAgent }).reply(200, feedXml, {
+        headers: {
           'Content-Type': 'application/xml',
-        });
+        },
+      });
+
+      const { request } = await service.fetchAndSaveResponse(feedUrl);
 
-      await service.fetchAndSaveResponse(feedUrl);
+      expect(request.status).toEqual(RequestStatus.OK);
     });
 
     it('uses the default user agent if no custom user agent', async () => {
-      nock(url.origin)
-        .get(url.pathname)
-        .matchHeader('user-agent', defaultUserAgent)
-        .replyWithFile(200, feedFilePath, {
+      jest.spyOn(configService, 'get').mockReturnValue(undefined);
+
+      interceptFeed({ 'user-agent': defaultUserAgent }).reply(200, feedXml, {
+        headers: {
           'Content-Type': 'application/xml',
-        });
+        },
+      });
+
+      const { request } = await service.fetchAndSaveResponse(feedUrl);
 
-      await service.fetchAndSaveResponse(feedUrl);
+      expect(request.status).toEqual(RequestStatus.OK);
     });
 
     describe('if ok response', () => {
       it('saves request correctly', async () => {
-        nock(url.origin).get(url.pathname).replyWithFile(200, feedFilePath, {
-          'Content-Type': 'application/xml',
+        interceptFeed().reply(200, feedXml, {
+          headers: {
+            'Content-Type': 'application/xml',
+          },
         });
 
-        await service.fetchAndSaveResponse(feedUrl);
+        const { responseText } = await service.fetchAndSaveResponse(feedUrl);
+
+        expect(responseText).toEqual(feedXml);
         expect(requestRepo.persist).toHaveBeenCalledWith(
           expect.objectContaining({
             url: feedUrl,
             status: RequestStatus.OK,
             fetchOptions: {
               userAgent,
+              headers: {},
             },
-            response: {
+            response: expect.objectContaining({
               statusCode: 200,
               isCloudflare: false,
-              text: feedXml,
+              contentLengthBytes: Buffer.byteLength(feedXml),
               createdAt: expect.any(Date),
-            },
+            }),
           }),
         );
+        expect(cacheStorageService.setFeedHtmlContent).toHaveBeenCalledWith({
+          key: expect.any(String),
+          body: deflateSync(feedXml).toString('base64'),
+        });
       });
 
       it('saves response with cloudflare flag correctly', async () => {
-        nock(url.origin).get(url.pathname).replyWithFile(200, feedFilePath, {
-          'Content-Type': 'application/xml',
-          Server: 'cloudflare',
+        interceptFeed().reply(200, feedXml, {
+          headers: {
+            'Content-Type': 'application/xml',
+            Server: 'cloudflare',
+          },
         });
 
         await service.fetchAndSaveResponse(feedUrl);
@@ -140,20 +203,22 @@ describe('FeedFetcherService', () => {
           expect.objectContaining({
             isCloudflare: true,
             statusCode: 200,
-            text: feedXml,
+            contentLengthBytes: Buffer.byteLength(feedXml),
           }),
         );
       });
     });
 
     describe('if not ok response', () => {
-      const feedResponseBody = {
+      const feedResponseBody = JSON.stringify({
         message: 'failed',
-      };
+      });
 
       it('saves correctly', async () => {
-        nock(url.origin).get(url.pathname).reply(404, feedResponseBody, {
-          'Content-Type': 'application/xml',
+        interceptFeed().reply(404, feedResponseBody, {
+          headers: {
+            'Content-Type': 'application/xml',
+          },
         });
 
         await service.fetchAndSaveResponse(feedUrl);
@@ -163,21 +228,24 @@ describe('FeedFetcherService', () => {
             status: RequestStatus.BAD_STATUS_CODE,
             fetchOptions: {
               userAgent,
+              headers: {},
             },
-            response: {
+            response: expect.objectContaining({
               statusCode: 404,
               isCloudflare: false,
-              text: JSON.stringify(feedResponseBody),
+              contentLengthBytes: Buffer.byteLength(feedResponseBody),
               createdAt: expect.any(Date),
-            },
+            }),
           }),
         );
       });
 
       it('saves response with cloudflare flag correctly', async () => {
-        nock(url.origin).get(url.pathname).reply(404, feedResponseBody, {
-          'Content-Type': 'application/xml',
-          Server: 'cloudflare',
+        interceptFeed().reply(404, feedResponseBody, {
+          headers: {
+            'Content-Type': 'application/xml',
+            Server: 'cloudflare',
+          },
         });
 
         await service.fetchAndSaveResponse(feedUrl);
@@ -185,7 +253,7 @@ describe('FeedFetcherService', () => {
           expect.objectContaining({
             isCloudflare: true,
             statusCode: 404,
-            text: JSON.stringify(feedResponseBody),
+            contentLengthBytes: Buffer.byteLength(feedResponseBody),
             createdAt: expect.any(Date),
           }),
         );
@@ -194,7 +262,7 @@ describe('FeedFetcherService', () => {
 
     describe('if fetch failed', () => {
       it('saves request correctly', async () => {
-        nock(url.origin).get(url.pathname).replyWithError('failed');
+        interceptFeed().replyWithError(new Error('failed'));
 
         await service.fetchAndSaveResponse(feedUrl);
         expect(requestRepo.persist).toHaveBeenCalledWith(
@@ -203,6 +271,7 @@ describe('FeedFetcherService', () => {
             status: RequestStatus.FETCH_ERROR,
             fetchOptions: {
               userAgent,
+              headers: {},
             },
             errorMessage: expect.any(String),
             createdAt: expect.any(Date),
@@ -211,4 +280,156 @@ describe('FeedFetcherService', () => {
       });
     });
   });
+
+  describe('conditional requests', () => {
+    const cachedResponse = {
+      statusCode: 200,
+      redisCacheKey: 'cache-key',
+      s3ObjectKey: 'object-key',
+      textHash: 'text-hash',
+      contentLengthBytes: 100,
+      headers: {
+        etag: '"etag"',
+        lastModified: 'Wed, 21 Oct 2015 07:28:00 GMT',
+      },
+    };
+
+    beforeEach(() => {
+      jest.spyOn(requestRepo, 'findOne').mockResolvedValue({
+        status: RequestStatus.OK,
+        response: cachedResponse,
+      } as never);
+      cacheStorageService.extendFeedHtmlContentExpiry.mockResolvedValue(true);
+    });
+
+    it('sends the validators of the latest response', async () => {
+      const fetchFeedResponse = jest
+        .spyOn(service, 'fetchFeedResponse')
+        .mockResolvedValue(
+          new FetchResponse(feedXml, { status: 200 }) as never,
+        );
+
+      await service.fetchAndSaveResponse(feedUrl, {
+        lookupKey: undefined,
+        source: undefined,
+      });
+
+      expect(fetchFeedResponse).toHaveBeenCalledWith(
+        feedUrl,
+        expect.objectContaining({
+          headers: {
+            'if-none-match': cachedResponse.headers.etag,
+            'if-modified-since': cachedResponse.headers.lastModified,
+          },
+        }),
+        undefined,
+        expect.any(Function),
+      );
+      expect(
+        cacheStorageService.extendFeedHtmlContentExpiry,
+      ).toHaveBeenCalledWith({
+        key: cachedResponse.redisCacheKey,
+      });
+    });
+
+    it('does not send validators if the cached body expired', async () => {
+      cacheStorageService.extendFeedHtmlContentExpiry.mockResolvedValue(false);
+      const fetchFeedResponse = jest
+        .spyOn(service, 'fetchFeedResponse')
+        .mockResolvedValue(
+          new FetchResponse(feedXml, { status: 200 }) as never,
+        );
+
+      await service.fetchAndSaveResponse(feedUrl, {
+        lookupKey: undefined,
+        source: undefined,
+      });
+
+      expect(fetchFeedResponse).toHaveBeenCalledWith(
+        feedUrl,
+        expect.objectContaining({
+          headers: {},
+        }),
+        undefined,
+        expect.any(Function),
+      );
+    });
+
+    it('does not send validators if the latest request failed', async () => {
+      jest.spyOn(requestRepo, 'findOne').mockResolvedValue({
+        status: RequestStatus.FETCH_ERROR,
+        response: cachedResponse,
+      } as never);
+      const fetchFeedResponse = jest
+        .spyOn(service, 'fetchFeedResponse')
+        .mockResolvedValue(
+          new FetchResponse(feedXml, { status: 200 }) as never,
+        );
+
+      await service.fetchAndSaveResponse(feedUrl, {
+        lookupKey: undefined,
+        source: undefined,
+      });
+
+      expect(fetchFeedResponse).toHaveBeenCalledWith(
+        feedUrl,
+        expect.objectContaining({
+          headers: {},
+        }),
+        undefined,
+        expect.any(Function),
+      );
+      expect(
+        cacheStorageService.extendFeedHtmlContentExpiry,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('reuses the cached body on a 304 response', async () => {
+      jest
+        .spyOn(service, 'fetchFeedResponse')
+        .mockResolvedValue(new FetchResponse(null, { status: 304 }) as never);
+      cacheStorageService.getFeedHtmlContent.mockResolvedValue(
+        deflateSync(feedXml).toString('base64'),
+      );
+
+      const result = await service.fetchAndSaveResponse(feedUrl, {
+        lookupKey: undefined,
+        source: undefined,
+      });
+
+      expect(result.responseText).toEqual(feedXml);
+      expect(result.request.status).toEqual(RequestStatus.OK);
+      expect(cacheStorageService.getFeedHtmlContent).toHaveBeenCalledWith({
+        key: cachedResponse.redisCacheKey,
+      });
+      expect(cacheStorageService.setFeedHtmlContent).not.toHaveBeenCalled();
+      expect(responseRepo.persist).toHaveBeenCalledWith(
+        expect.objectContaining({
+          statusCode: 304,
+          textHash: cachedResponse.textHash,
+          redisCacheKey: cachedResponse.redisCacheKey,
+          s3ObjectKey: cachedResponse.s3ObjectKey,
+          contentLengthBytes: cachedResponse.contentLengthBytes,
+          headers: cachedResponse.headers,
+        }),
+      );
+    });
+  });
+
+  describe('getConditionalRequestSavings', () => {
+    it('returns the number of 304 responses and the bytes they saved', async () => {
+      const execute = jest
+        .fn()
+        .mockResolvedValue([{ notModifiedCount: '3', bytesSaved: '300' }]);
+      requestRepo.getEntityManager = jest.fn().mockReturnValue({ execute });
+
+      await expect(
+        service.getConditionalRequestSavings({ lookupKey: feedUrl }),
+      ).resolves.toEqual({
+        notModifiedCount: 3,
+        bytesSaved: 300,
+      });
+      expect(execute).toHaveBeenCalledWith(expect.any(String), [feedUrl, 304]);
+    });
+  });
 });
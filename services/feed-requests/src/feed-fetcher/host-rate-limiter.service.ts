@@ -0,0 +1,188 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { parseRetryAfter } from './utils';
+
+interface HostState {
+  activeCount: number;
+  /**
+   * Timestamps of requests started within the last minute
+   */
+  startedAt: number[];
+  waiters: Set<() => void>;
+  pausedUntil?: number;
+}
+
+const ONE_MINUTE_MS = 60 * 1000;
+
+/**
+ * Limits how many requests are sent to the same host, since many feeds often share a host (such as
+ * Reddit and Mastodon instances) that would otherwise ban us for sending too many requests at once.
+ *
+ * Limits are tracked in memory, and so apply per instance of this service.
+ */
+@Injectable()
+export class HostRateLimiterService {
+  maxConcurrency: number;
+  maxRequestsPerMinute: number;
+
+  /**
+   * Requests that cannot start within this time are deferred to the next schedule instead of
+   * holding up the rest of their batch
+   */
+  static MAX_WAIT_MS = ONE_MINUTE_MS;
+  static DEFAULT_PAUSE_SECONDS = 60;
+  static MAX_PAUSE_SECONDS = 60 * 60;
+
+  private hostStates = new Map<string, HostState>();
+  private lastPrunedAt = Date.now();
+
+  constructor(private readonly configService: ConfigService) {
+    this.maxConcurrency = this.configService.getOrThrow(
+      'FEED_REQUESTS_HOST_MAX_CONCURRENCY',
+    );
+    this.maxRequestsPerMinute = this.configService.getOrThrow(
+      'FEED_REQUESTS_HOST_MAX_REQUESTS_PER_MINUTE',
+    );
+  }
+
+  /**
+   * Waits until a request may be sent to the host of the url.
+   *
+   * @returns A function to call once the request is done, or null if the request should be
+   * deferred because the host is paused or busy for too long.
+   */
+  async acquire({ url }: { url: string }): Promise<(() => void) | null> {
+    this.maybePruneIdleHosts();
+
+    const state = this.getHostState(url);
+    const deadline = Date.now() + HostRateLimiterService.MAX_WAIT_MS;
+
+    for (;;) {
+      const now = Date.now();
+
+      if (state.pausedUntil && state.pausedUntil > now) {
+        return null;
+      }
+
+      state.startedAt = state.startedAt.filter(
+        (startedAt) => startedAt > now - ONE_MINUTE_MS,
+      );
+
+      const atConcurrencyLimit =
+        !!this.maxConcurrency && state.activeCount >= this.maxConcurrency;
+      const atRateLimit =
+        !!this.maxRequestsPerMinute &&
+        state.startedAt.length >= this.maxRequestsPerMinute;
+
+      if (!atConcurrencyLimit && !atRateLimit) {
+        state.activeCount++;
+        state.startedAt.push(now);
+
+        return this.createRelease(state);
+      }
+
+      if (now >= deadline) {
+        return null;
+      }
+
+      // Slots freed by finished requests wake waiters early, but rate limits only free up with time
+      const waitUntil = atRateLimit
+        ? state.startedAt[0] + ONE_MINUTE_MS
+        : deadline;
+
+      if (waitUntil > deadline) {
+        return null;
+      }
+
+      await this.wait(state, waitUntil - now);
+    }
+  }
+
+  /**
+   * Stops requests to the host of the url after it throttled us
+   */
+  pauseHost({ url, retryAfter }: { url: string; retryAfter?: string | null }) {
+    const now = new Date();
+    const retryAfterDate = parseRetryAfter(retryAfter, now);
+    const pauseMs = Math.min(
+      retryAfterDate
+        ? retryAfterDate.getTime() - now.getTime()
+        : HostRateLimiterService.DEFAULT_PAUSE_SECONDS * 1000,
+      HostRateLimiterService.MAX_PAUSE_SECONDS * 1000,
+    );
+
+    const state = this.getHostState(url);
+    state.pausedUntil = Math.max(
+      state.pausedUntil || 0,
+      now.getTime() + pauseMs,
+    );
+  }
+
+  private createRelease(state: HostState) {
+    let released = false;
+
+    return () => {
+      if (released) {
+        return;
+      }
+
+      released = true;
+      state.activeCount--;
+
+      const [nextWaiter] = state.waiters;
+      nextWaiter?.();
+    };
+  }
+
+  private wait(state: HostState, ms: number) {
+    return new Promise<void>((resolve) => {
+      const waiter = () => {
+        clearTimeout(timer);
+        state.waiters.delete(waiter);
+        resolve();
+      };
+
+      const timer = setTimeout(waiter, Math.max(ms, 0));
+      state.waiters.add(waiter);
+    });
+  }
+
+  private getHostState(url: string): HostState {
+    const host = new URL(url).hostname.toLowerCase();
+    let state = this.hostStates.get(host);
+
+    if (!state) {
+      state = {
+        activeCount: 0,
+        startedAt: [],
+        waiters: new Set(),
+      };
+
+      this.hostStates.set(host, state);
+    }
+
+    return state;
+  }
+
+  private maybePruneIdleHosts() {
+    const now = Date.now();
+
+    if (now - this.lastPrunedAt < ONE_MINUTE_MS) {
+      return;
+    }
+
+    this.lastPrunedAt = now;
+
+    for (const [host, state] of this.hostStates) {
+      const isIdle =
+        !state.activeCount &&
+        !state.waiters.size &&
+        (!state.pausedUntil || state.pausedUntil <= now) &&
+        state.startedAt.every((startedAt) => startedAt <= now - ONE_MINUTE_MS);
+
+      if (isIdle) {
+        this.hostStates.delete(host);
+      }
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import { HostRateLimiterService } from './host-rate-limiter.service';
+
+describe('HostRateLimiterService', () => {
+  let service: HostRateLimiterService;
+  const configService = {
+    get: jest.fn(),
+    getOrThrow: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.resetAllMocks();
+    configService.getOrThrow.mockImplementation((key: string) => {
+      if (key === 'FEED_REQUESTS_HOST_MAX_CONCURRENCY') {
+        return 2;
+      }
+
+      if (key === 'FEED_REQUESTS_HOST_MAX_REQUESTS_PER_MINUTE') {
+        return 3;
+      }
+    });
+    service = new HostRateLimiterService(configService as never);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('acquire', () => {
+    it('waits for a slot when the host is at its concurrency limit', async () => {
+      const release1 = await service.acquire({ url: 'https://a.com/1' });
+      await service.acquire({ url: 'https://a.com/2' });
+
+      let acquired = false;
+      const pending = service
+        .acquire({ url: 'https://a.com/3' })
+        .then((release) => {
+          acquired = !!release;
+        });
+
+      await Promise.resolve();
+      expect(acquired).toBe(false);
+
+      release1?.();
+      await pending;
+
+      expect(acquired).toBe(true);
+    });
+
+    it('limits hosts independently', async () => {
+      await service.acquire({ url: 'https://a.com/1' });
+      await service.acquire({ url: 'https://a.com/2' });
+
+      await expect(
+        service.acquire({ url: 'https://b.com/1' }),
+      ).resolves.toBeInstanceOf(Function);
+    });
+
+    it('defers requests over the per-minute limit', async () => {
+      for (let i = 0; i < 3; ++i) {
+        const release = await service.acquire({ url: 'https://a.com' });
+        release?.();
+      }
+
+      jest.setSystemTime(Date.now() + 1000);
+
+      const pending = service.acquire({ url: 'https://a.com' });
+
+      jest.advanceTimersByTime(HostRateLimiterService.MAX_WAIT_MS);
+
+      await expect(pending).resolves.toBeInstanceOf(Function);
+    });
+
+    it('returns null if the host is paused', async () => {
+      service.pauseHost({ url: 'https://a.com/1', retryAfter: '120' });
+
+      await expect(service.acquire({ url: 'https://a.com/2' })).resolves.toBe(
+        null,
+      );
+
+      jest.setSystemTime(Date.now() + 121 * 1000);
+
+      await expect(
+        service.acquire({ url: 'https://a.com/2' }),
+      ).resolves.toBeInstanceOf(Function);
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { HttpStatus, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Agent, Dispatcher, ProxyAgent, Response } from 'undici';
+import { ProxyPoolsConfig } from './types';
+import { createSocksConnector, parseProxyPoolsConfig } from './utils';
+
+export interface SelectedProxy {
+  poolName: string;
+  url: string;
+  /**
+   * The url without credentials, safe to persist and log
+   */
+  redactedUrl: string;
+  dispatcher: Dispatcher;
+}
+
+const BLOCKED_STATUS_CODES: number[] = [
+  HttpStatus.FORBIDDEN,
+  HttpStatus.TOO_MANY_REQUESTS,
+];
+
+@Injectable()
+export class ProxyPoolService {
+  config: ProxyPoolsConfig;
+  feedRequestTimeoutMs: number;
+
+  /**
+   * The index of the proxy currently used for a host within a pool. Hosts stay on the same proxy
+   * until it gets blocked, so that cookies and rate limits of hosts are tied to a single egress.
+   */
+  private proxyIndexesByPoolHost = new Map<string, number>();
+  private dispatchersByUrl = new Map<string, Dispatcher>();
+
+  constructor(private readonly configService: ConfigService) {
+    this.config = parseProxyPoolsConfig(
+      this.configService.get<string>('FEED_REQUESTS_PROXY_POOLS'),
+    );
+    this.feedRequestTimeoutMs = this.configService.getOrThrow(
+      'FEED_REQUESTS_REQUEST_TIMEOUT_MS',
+    );
+  }
+
+  /**
+   * Returns the name of the pool that must be used for the url, or null if it should be requested
+   * directly
+   */
+  getPoolNameForUrl(url: string): string | null {
+    const hostname = new URL(url).hostname.toLowerCase();
+
+    const rule = this.config.hostRules.find(({ hosts }) =>
+      hosts.some((pattern) => this.hostMatches(hostname, pattern)),
+    );
+
+    return rule?.pool || null;
+  }
+
+  getFallbackPoolName(): string | null {
+    return this.config.fallbackPool || null;
+  }
+
+  getPoolSize(poolName: string): number {
+    return this.config.pools[poolName]?.length || 0;
+  }
+
+  getProxy({
+    poolName,
+    url,
+  }: {
+    poolName: string;
+    url: string;
+  }): SelectedProxy {
+    const urls = this.config.pools[poolName];
+
+    if (!urls?.length) {
+      throw new Error(`Proxy pool ${poolName} does not exist`);
+    }
+
+    const index =
+      (this.proxyIndexesByPoolHost.get(this.getPoolHostKey(poolName, url)) ||
+        0) % urls.length;
+    const proxyUrl = urls[index];
+
+    return {
+      poolName,
+      url: proxyUrl,
+      redactedUrl: this.redactProxyUrl(proxyUrl),
+      dispatcher: this.getDispatcher(proxyUrl),
+    };
+  }
+
+  /**
+   * Rotates the host to the next proxy of the pool
+   */
+  markBlocked({ poolName, url }: { poolName: string; url: string }) {
+    const key = this.getPoolHostKey(poolName, url);
+
+    this.proxyIndexesByPoolHost.set(
+      key,
+      ((this.proxyIndexesByPoolHost.get(key) || 0) + 1) %
+        this.getPoolSize(poolName),
+    );
+  }
+
+  /**
+   * Whether the response is likely a block of the egress rather than a problem with the feed
+   */
+  isBlockedResponse(res: Response): boolean {
+    return (
+      BLOCKED_STATUS_CODES.includes(res.status) ||
+      res.headers.get('cf-mitigated') === 'challenge'
+    );
+  }
+
+  redactProxyUrl(proxyUrl: string): string {
+    const parsed = new URL(proxyUrl);
+
+    return `${parsed.protocol}//${parsed.host}`;
+  }
+
+  private hostMatches(hostname: string, pattern: string) {
+    if (pattern.startsWith('*.')) {
+      return hostname.endsWith(pattern.slice(1));
+    }
+
+    return hostname === pattern;
+  }
+
+  private getPoolHostKey(poolName: string, url: string) {
+    return `${poolName}:${new URL(url).hostname.toLowerCase()}`;
+  }
+
+  private getDispatcher(proxyUrl: string): Dispatcher {
+    const existing = this.dispatchersByUrl.get(proxyUrl);
+
+    if (existing) {
+      return existing;
+    }
+
+    const parsed = new URL(proxyUrl);
+    const timeout = this.feedRequestTimeoutMs;
+
+    const dispatcher = parsed.protocol.startsWith('socks')
+      ? new Agent({
+          connect: createSocksConnector(parsed, { timeout }),
+        })
+      : new ProxyAgent({
+          uri: proxyUrl,
+          connect: { timeout },
+        });
+
+    this.dispatchersByUrl.set(proxyUrl, dispatcher);
+
+    return dispatcher;
+  }
+}
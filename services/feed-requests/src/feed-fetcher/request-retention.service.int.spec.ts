@@ -0,0 +1,225 @@
+import { INestApplication } from '@nestjs/common';
+import { EntityRepository } from '@mikro-orm/postgresql';
+import { getRepositoryToken } from '@mikro-orm/nestjs';
+import dayjs from 'dayjs';
+import { RequestStatus } from './constants';
+import { Request, Response } from './entities';
+import { RequestRetentionService } from './request-retention.service';
+import {
+  clearDatabase,
+  setupPostgresTests,
+  teardownPostgresTests,
+} from '../shared/utils/setup-postgres-tests';
+import { CacheStorageService } from '../cache-storage/cache-storage.service';
+import { ObjectFileStorageService } from '../object-file-storage/object-file-storage.service';
+
+jest.mock('../utils/logger');
+
+describe('RequestRetentionService (Integration)', () => {
+  let app: INestApplication;
+  let service: RequestRetentionService;
+  let requestRepo: EntityRepository<Request>;
+  const url = 'https://rss-feed.com/feed.xml';
+  const cacheStorageService = {
+    deleteFeedHtmlContent: jest.fn(),
+  };
+  const objectFileStorageService = {
+    deleteFeedHtmlContent: jest.fn(),
+  };
+
+  const createRequest = ({
+    status,
+    daysAgo,
+    lookupKey = url,
+    response,
+  }: {
+    status: RequestStatus;
+    daysAgo: number;
+    lookupKey?: string | null;
+    response?: Response;
+  }) => {
+    const request = new Request();
+    request.url = url;
+    request.lookupKey = lookupKey;
+    request.status = status;
+    request.createdAt = dayjs().subtract(daysAgo, 'days').toDate();
+    request.response = response || null;
+
+    return request;
+  };
+
+  const getRemainingDaysAgo = async () => {
+    const requests = await requestRepo.findAll({
+      orderBy: {
+        createdAt: 'ASC',
+      },
+    });
+
+    return requests.map(({ createdAt }) => dayjs().diff(createdAt, 'days'));
+  };
+
+  beforeAll(async () => {
+    const setupData = await setupPostgresTests(
+      {
+        providers: [
+          RequestRetentionService,
+          {
+            provide: CacheStorageService,
+            useValue: cacheStorageService,
+          },
+          {
+            provide: ObjectFileStorageService,
+            useValue: objectFileStorageService,
+          },
+        ],
+      },
+      {
+        models: [Request, Response],
+      },
+    );
+
+    const { module } = await setupData.init();
+
+    app = module.createNestApplication();
+    await app.init();
+
+    service = app.get(RequestRetentionService);
+    requestRepo = app.get<EntityRepository<Request>>(
+      getRepositoryToken(Request),
+    );
+  });
+
+  beforeEach(() => {
+    service.keepLastRequests = 2;
+    service.keepDays = 14;
+  });
+
+  afterEach(async () => {
+    jest.resetAllMocks();
+    await clearDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownPostgresTests();
+  });
+
+  describe('pruneRequests', () => {
+    it('deletes old requests made before the latest OK request', async () => {
+      await requestRepo.persistAndFlush([
+        createRequest({ status: RequestStatus.OK, daysAgo: 40 }),
+        createRequest({ status: RequestStatus.FETCH_ERROR, daysAgo: 35 }),
+        createRequest({ status: RequestStatus.OK, daysAgo: 30 }),
+        createRequest({ status: RequestStatus.FETCH_ERROR, daysAgo: 25 }),
+        createRequest({ status: RequestStatus.FETCH_ERROR, daysAgo: 20 }),
+        createRequest({ status: RequestStatus.FETCH_ERROR, daysAgo: 15 }),
+      ]);
+
+      await expect(service.pruneRequests()).resolves.toEqual(2);
+
+      await expect(getRemainingDaysAgo()).resolves.toEqual([30, 25, 20, 15]);
+    });
+
+    it('keeps the latest requests of every lookup key', async () => {
+      await requestRepo.persistAndFlush([
+        createRequest({ status: RequestStatus.OK, daysAgo: 40 }),
+        createRequest({ status: RequestStatus.OK, daysAgo: 35 }),
+        createRequest({ status: RequestStatus.OK, daysAgo: 30 }),
+        createRequest({
+          status: RequestStatus.OK,
+          daysAgo: 30,
+          lookupKey: 'other-key',
+        }),
+      ]);
+
+      await expect(service.pruneRequests()).resolves.toEqual(1);
+
+      await expect(getRemainingDaysAgo()).resolves.toEqual([35, 30, 30]);
+    });
+
+    it('keeps requests within the retention period', async () => {
+      await requestRepo.persistAndFlush([
+        createRequest({ status: RequestStatus.OK, daysAgo: 10 }),
+        createRequest({ status: RequestStatus.OK, daysAgo: 5 }),
+        createRequest({ status: RequestStatus.OK, daysAgo: 1 }),
+      ]);
+
+      await expect(service.pruneRequests()).resolves.toEqual(0);
+    });
+
+    it('keeps only the latest requests of lookup keys that never had an OK request', async () => {
+      await requestRepo.persistAndFlush([
+        createRequest({ status: RequestStatus.FETCH_ERROR, daysAgo: 40 }),
+        createRequest({ status: RequestStatus.BAD_STATUS_CODE, daysAgo: 35 }),
+        createRequest({ status: RequestStatus.FETCH_ERROR, daysAgo: 30 }),
+        createRequest({ status: RequestStatus.FETCH_ERROR, daysAgo: 25 }),
+      ]);
+
+      await expect(service.pruneRequests()).resolves.toEqual(2);
+
+      await expect(getRemainingDaysAgo()).resolves.toEqual([30, 25]);
+    });
+
+    it('deletes old requests without lookup keys', async () => {
+      await requestRepo.persistAndFlush([
+        createRequest({
+          status: RequestStatus.OK,
+          daysAgo: 30,
+          lookupKey: null,
+        }),
+        createRequest({
+          status: RequestStatus.OK,
+          daysAgo: 1,
+          lookupKey: null,
+        }),
+      ]);
+
+      await expect(service.pruneRequests()).resolves.toEqual(1);
+
+      await expect(getRemainingDaysAgo()).resolves.toEqual([1]);
+    });
+
+    it('deletes responses and their content once unreferenced', async () => {
+      const createResponse = (s3ObjectKey: string) => {
+        const response = new Response();
+        response.statusCode = 200;
+        response.isCloudflare = false;
+        response.redisCacheKey = 'shared-cache-key';
+        response.s3ObjectKey = s3ObjectKey;
+
+        return response;
+      };
+
+      await requestRepo.persistAndFlush([
+        createRequest({
+          status: RequestStatus.OK,
+          daysAgo: 40,
+          response: createResponse('old-object-key'),
+        }),
+        createRequest({
+          status: RequestStatus.OK,
+          daysAgo: 35,
+          response: createResponse('kept-object-key'),
+        }),
+        createRequest({
+          status: RequestStatus.OK,
+          daysAgo: 30,
+          response: createResponse('kept-object-key'),
+        }),
+      ]);
+
+      await expect(service.pruneRequests()).resolves.toEqual(1);
+
+      expect(cacheStorageService.deleteFeedHtmlContent).not.toHaveBeenCalled();
+      expect(
+        objectFileStorageService.deleteFeedHtmlContent,
+      ).toHaveBeenCalledWith({
+        key: 'old-object-key',
+      });
+      await expect(
+        app
+          .get<EntityRepository<Response>>(getRepositoryToken(Response))
+          .count(),
+      ).resolves.toEqual(2);
+    });
+  });
+});
@@ -0,0 +1,239 @@
+import {
+  Injectable,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EntityManager } from '@mikro-orm/postgresql';
+import { MikroORM, UseRequestContext } from '@mikro-orm/core';
+import dayjs from 'dayjs';
+import logger from '../utils/logger';
+import { RequestStatus } from './constants';
+import { CacheStorageService } from '../cache-storage/cache-storage.service';
+import { ObjectFileStorageService } from '../object-file-storage/object-file-storage.service';
+
+interface PrunableRequest {
+  id: number;
+  responseId: number | null;
+  redisCacheKey: string | null;
+  s3ObjectKey: string | null;
+}
+
+/**
+ * Periodically deletes old requests and responses, along with their cached and stored content.
+ *
+ * For every lookup key, a request is only deleted if it is older than the configured number of
+ * days, is not one of the latest requests, and was made before the latest OK request. Requests
+ * since the latest OK request are counted as failed attempts, and so are never deleted, unless the
+ * lookup key never had an OK request at all. Those only keep their latest requests.
+ */
+@Injectable()
+export class RequestRetentionService
+  implements OnApplicationBootstrap, OnApplicationShutdown
+{
+  keepLastRequests: number;
+  keepDays: number;
+  intervalMinutes: number;
+
+  static BATCH_SIZE = 500;
+
+  private timer?: NodeJS.Timeout;
+  private isPruning = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly cacheStorageService: CacheStorageService,
+    private readonly objectFileStorageService: ObjectFileStorageService,
+    private readonly orm: MikroORM, // For @UseRequestContext decorator
+    private readonly em: EntityManager,
+  ) {
+    this.keepLastRequests = this.configService.getOrThrow(
+      'FEED_REQUESTS_RETENTION_KEEP_LAST_REQUESTS',
+    );
+    this.keepDays = this.configService.getOrThrow(
+      'FEED_REQUESTS_RETENTION_KEEP_DAYS',
+    );
+    this.intervalMinutes = this.configService.getOrThrow(
+      'FEED_REQUESTS_RETENTION_INTERVAL_MINUTES',
+    );
+  }
+
+  onApplicationBootstrap() {
+    if (!this.intervalMinutes) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.pruneRequests().catch((err) => {
+        logger.error(`Failed to prune stale requests`, {
+          stack: (err as Error).stack,
+        });
+      });
+    }, this.intervalMinutes * 60 * 1000);
+  }
+
+  onApplicationShutdown() {
+    clearInterval(this.timer);
+  }
+
+  /**
+   * @returns The number of deleted requests
+   */
+  @UseRequestContext()
+  async pruneRequests(): Promise<number> {
+    if (this.isPruning) {
+      return 0;
+    }
+
+    this.isPruning = true;
+    const cutoff = dayjs().subtract(this.keepDays, 'days').toDate();
+    let deletedCount = 0;
+    let afterId = 0;
+
+    try {
+      for (;;) {
+        const requests = await this.getPrunableRequests(cutoff, afterId);
+
+        if (requests.length) {
+          await this.deleteRequests(requests);
+          deletedCount += requests.length;
+          afterId = requests[requests.length - 1].id;
+        }
+
+        if (requests.length < RequestRetentionService.BATCH_SIZE) {
+          break;
+        }
+      }
+    } finally {
+      this.isPruning = false;
+    }
+
+    if (deletedCount) {
+      logger.info(`Pruned ${deletedCount} stale requests`);
+    }
+
+    return deletedCount;
+  }
+
+  /**
+   * Pages by id so that requests that must be kept are not scanned again for every batch
+   */
+  private async getPrunableRequests(
+    cutoff: Date,
+    afterId: number,
+  ): Promise<PrunableRequest[]> {
+    // Requests without lookup keys predate them, and are never read anymore
+    return this.em.execute(
+      `SELECT request.id, request.response_id AS "responseId",` +
+        ` response.redis_cache_key AS "redisCacheKey",` +
+        ` response.s3_object_key AS "s3ObjectKey"` +
+        ` FROM request` +
+        ` LEFT JOIN response ON response.id = request.response_id` +
+        ` WHERE request.id > ? AND request.created_at < ?` +
+        ` AND (request.lookup_key IS NULL OR (` +
+        ` request.created_at < (` +
+        ` SELECT latest.created_at FROM request latest` +
+        ` WHERE latest.lookup_key = request.lookup_key` +
+        ` ORDER BY latest.created_at DESC OFFSET ? LIMIT 1)` +
+        ` AND (NOT EXISTS (` +
+        ` SELECT 1 FROM request ok` +
+        ` WHERE ok.lookup_key = request.lookup_key AND ok.status = ?)` +
+        ` OR request.created_at < (` +
+        ` SELECT latest_ok.created_at FROM request latest_ok` +
+        ` WHERE latest_ok.lookup_key = request.lookup_key AND latest_ok.status = ?` +
+        ` ORDER BY latest_ok.created_at DESC LIMIT 1))))` +
+        ` ORDER BY request.id LIMIT ?`,
+      [
+        afterId,
+        cutoff,
+        this.keepLastRequests - 1,
+        RequestStatus.OK,
+        RequestStatus.OK,
+        RequestRetentionService.BATCH_SIZE,
+      ],
+    );
+  }
+
+  private async deleteRequests(requests: PrunableRequest[]) {
+    const responseIds = requests
+      .map(({ responseId }) => responseId)
+      .filter((id): id is number => id !== null);
+
+    await this.em.transactional(async (em) => {
+      await em.execute(
+        `DELETE FROM request WHERE id IN (${requests
+          .map(() => '?')
+          .join(', ')})`,
+        requests.map(({ id }) => id),
+      );
+
+      if (responseIds.length) {
+        await em.execute(
+          `DELETE FROM response WHERE id IN (${responseIds
+            .map(() => '?')
+            .join(', ')})`,
+          responseIds,
+        );
+      }
+    });
+
+    await this.deleteUnreferencedContent(requests);
+  }
+
+  /**
+   * Cache keys are shared by all responses of a url, and 304 responses share the object keys of
+   * the responses they reuse, so content is only deleted once no response references it.
+   */
+  private async deleteUnreferencedContent(requests: PrunableRequest[]) {
+    const redisCacheKeys = await this.getUnreferencedKeys(
+      'redis_cache_key',
+      requests.map(({ redisCacheKey }) => redisCacheKey),
+    );
+    const s3ObjectKeys = await this.getUnreferencedKeys(
+      's3_object_key',
+      requests.map(({ s3ObjectKey }) => s3ObjectKey),
+    );
+
+    await Promise.all(
+      redisCacheKeys.map((key) =>
+        this.cacheStorageService.deleteFeedHtmlContent({ key }),
+      ),
+    );
+
+    const results = await Promise.allSettled(
+      s3ObjectKeys.map((key) =>
+        this.objectFileStorageService.deleteFeedHtmlContent({ key }),
+      ),
+    );
+
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        logger.error(`Failed to delete feed html content from object storage`, {
+          key: s3ObjectKeys[index],
+          stack: (result.reason as Error)?.stack,
+        });
+      }
+    });
+  }
+
+  private async getUnreferencedKeys(
+    column: 'redis_cache_key' | 's3_object_key',
+    keys: Array<string | null>,
+  ): Promise<string[]> {
+    const uniqueKeys = [...new Set(keys)].filter((key): key is string => !!key);
+
+    if (!uniqueKeys.length) {
+      return [];
+    }
+
+    const referenced: Array<{ key: string }> = await this.em.execute(
+      `SELECT DISTINCT ${column} AS "key" FROM response` +
+        ` WHERE ${column} IN (${uniqueKeys.map(() => '?').join(', ')})`,
+      uniqueKeys,
+    );
+
+    const referencedKeys = new Set(referenced.map(({ key }) => key));
+
+    return uniqueKeys.filter((key) => !referencedKeys.has(key));
+  }
+}
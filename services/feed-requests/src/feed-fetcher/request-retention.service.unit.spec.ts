@@ -0,0 +1,146 @@
+import { MikroORM } from '@mikro-orm/core';
+import { RequestRetentionService } from './request-retention.service';
+
+jest.mock('../utils/logger');
+
+describe('RequestRetentionService', () => {
+  let service: RequestRetentionService;
+  const configService = {
+    get: jest.fn(),
+    getOrThrow: jest.fn(),
+  };
+  const transactionalEm = {
+    execute: jest.fn(),
+  };
+  const em = {
+    execute: jest.fn(),
+    transactional: jest.fn(),
+  };
+  const cacheStorageService = {
+    deleteFeedHtmlContent: jest.fn(),
+  };
+  const objectFileStorageService = {
+    deleteFeedHtmlContent: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    configService.getOrThrow.mockImplementation((key: string) => {
+      if (key === 'FEED_REQUESTS_RETENTION_KEEP_LAST_REQUESTS') {
+        return 25;
+      }
+
+      if (key === 'FEED_REQUESTS_RETENTION_KEEP_DAYS') {
+        return 14;
+      }
+
+      return 0;
+    });
+    em.transactional.mockImplementation((cb) => cb(transactionalEm));
+
+    const mockMikroOrm = await MikroORM.init(
+      {
+        // Get past errors related to @UseRequestContext() decorator from MikroORM
+        type: 'postgresql',
+        dbName: 'test',
+        entities: [],
+        discovery: {
+          warnWhenNoEntities: false,
+        },
+      },
+      false,
+    );
+
+    service = new RequestRetentionService(
+      configService as never,
+      cacheStorageService as never,
+      objectFileStorageService as never,
+      mockMikroOrm,
+      em as never,
+    );
+  });
+
+  describe('pruneRequests', () => {
+    it('deletes nothing if there are no prunable requests', async () => {
+      em.execute.mockResolvedValue([]);
+
+      await expect(service.pruneRequests()).resolves.toEqual(0);
+      expect(em.transactional).not.toHaveBeenCalled();
+    });
+
+    it('deletes requests, their responses and unreferenced content', async () => {
+      em.execute
+        .mockResolvedValueOnce([
+          {
+            id: 1,
+            responseId: 10,
+            redisCacheKey: 'shared-cache-key',
+            s3ObjectKey: 'object-key-1',
+          },
+          {
+            id: 2,
+            responseId: 20,
+            redisCacheKey: 'cache-key',
+            s3ObjectKey: 'object-key-2',
+          },
+          {
+            id: 3,
+            responseId: null,
+            redisCacheKey: null,
+            s3ObjectKey: null,
+          },
+        ])
+        // Keys still referenced by kept responses
+        .mockResolvedValueOnce([{ key: 'shared-cache-key' }])
+        .mockResolvedValueOnce([{ key: 'object-key-2' }]);
+
+      await expect(service.pruneRequests()).resolves.toEqual(3);
+
+      expect(transactionalEm.execute).toHaveBeenCalledWith(
+        'DELETE FROM request WHERE id IN (?, ?, ?)',
+        [1, 2, 3],
+      );
+      expect(transactionalEm.execute).toHaveBeenCalledWith(
+        'DELETE FROM response WHERE id IN (?, ?)',
+        [10, 20],
+      );
+      expect(cacheStorageService.deleteFeedHtmlContent).toHaveBeenCalledTimes(
+        1,
+      );
+      expect(cacheStorageService.deleteFeedHtmlContent).toHaveBeenCalledWith({
+        key: 'cache-key',
+      });
+      expect(
+        objectFileStorageService.deleteFeedHtmlContent,
+      ).toHaveBeenCalledTimes(1);
+      expect(
+        objectFileStorageService.deleteFeedHtmlContent,
+      ).toHaveBeenCalledWith({
+        key: 'object-key-1',
+      });
+    });
+
+    it('continues with the next batch if the batch was full', async () => {
+      const fullBatch = Array.from(
+        { length: RequestRetentionService.BATCH_SIZE },
+        (_, index) => ({
+          id: index,
+          responseId: null,
+          redisCacheKey: null,
+          s3ObjectKey: null,
+        }),
+      );
+
+      em.execute.mockResolvedValueOnce(fullBatch).mockResolvedValueOnce([]);
+
+      await expect(service.pruneRequests()).resolves.toEqual(
+        RequestRetentionService.BATCH_SIZE,
+      );
+      expect(em.execute).toHaveBeenCalledTimes(2);
+      expect(em.execute.mock.calls[0][1][0]).toEqual(0);
+      expect(em.execute.mock.calls[1][1][0]).toEqual(
+        RequestRetentionService.BATCH_SIZE - 1,
+      );
+    });
+  });
+});
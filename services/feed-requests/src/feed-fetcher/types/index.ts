@@ -1,2 +1,3 @@
 export * from './get-feed-requests-input.type';
 export * from './get-feed-requests-count-input.type';
+export * from './proxy-pools-config.type';
@@ -0,0 +1,18 @@
+export interface ProxyPoolsConfig {
+  /**
+   * Proxy urls by pool name. Supported protocols are http, https, socks4 and socks5.
+   */
+  pools: Record<string, string[]>;
+  /**
+   * Hosts that are always requested through a pool. Patterns such as *.example.com match all
+   * subdomains.
+   */
+  hostRules: Array<{
+    hosts: string[];
+    pool: string;
+  }>;
+  /**
+   * Pool to retry through when a direct request of any other host is blocked
+   */
+  fallbackPool?: string;
+}
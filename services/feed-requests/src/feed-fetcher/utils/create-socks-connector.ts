@@ -0,0 +1,59 @@
+import { SocksClient, SocksProxy } from 'socks';
+import { buildConnector } from 'undici';
+
+const DEFAULT_PORTS: Record<string, number> = {
+  'http:': 80,
+  'https:': 443,
+};
+
+/**
+ * Creates an undici connector that tunnels connections through a SOCKS proxy, since undici's
+ * ProxyAgent only supports HTTP proxies.
+ */
+export const createSocksConnector = (
+  proxyUrl: URL,
+  { timeout }: { timeout: number },
+): buildConnector.connector => {
+  const proxy: SocksProxy = {
+    host: proxyUrl.hostname,
+    port: Number(proxyUrl.port) || 1080,
+    type: proxyUrl.protocol === 'socks4:' ? 4 : 5,
+    userId: decodeURIComponent(proxyUrl.username) || undefined,
+    password: decodeURIComponent(proxyUrl.password) || undefined,
+  };
+
+  const connectTls = buildConnector({ timeout });
+
+  return async (options, callback) => {
+    let socket: buildConnector.Options['httpSocket'];
+
+    try {
+      const connection = await SocksClient.createConnection({
+        command: 'connect',
+        proxy,
+        timeout,
+        destination: {
+          host: options.hostname,
+          port: Number(options.port) || DEFAULT_PORTS[options.protocol] || 80,
+        },
+        existing_socket: options.httpSocket,
+      });
+
+      socket = connection.socket;
+    } catch (err) {
+      return callback(err as Error, null);
+    }
+
+    if (options.protocol !== 'https:') {
+      return callback(null, socket.setNoDelay());
+    }
+
+    return connectTls(
+      {
+        ...options,
+        httpSocket: socket,
+      },
+      callback,
+    );
+  };
+};
@@ -0,0 +1,4 @@
+export * from './redact-headers-for-storage';
+export * from './parse-proxy-pools-config';
+export * from './create-socks-connector';
+export * from './parse-retry-after';
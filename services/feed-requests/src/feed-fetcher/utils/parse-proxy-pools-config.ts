@@ -0,0 +1,95 @@
+import { ProxyPoolsConfig } from '../types';
+
+const SUPPORTED_PROXY_PROTOCOLS = [
+  'http:',
+  'https:',
+  'socks:',
+  'socks4:',
+  'socks5:',
+  'socks5h:',
+];
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+/**
+ * Parses the JSON of proxy pools from config. Throws if it is malformed so that misconfigured
+ * proxies are caught on startup rather than when feeds are fetched.
+ */
+export const parseProxyPoolsConfig = (
+  raw: string | undefined,
+): ProxyPoolsConfig => {
+  if (!raw?.trim()) {
+    return {
+      pools: {},
+      hostRules: [],
+    };
+  }
+
+  let parsed: Partial<ProxyPoolsConfig>;
+
+  try {
+    parsed = JSON.parse(raw);
+  } catch (err) {
+    throw new Error(
+      `Proxy pools config is not valid JSON: ${(err as Error).message}`,
+    );
+  }
+
+  const pools = parsed?.pools || {};
+  const hostRules = parsed?.hostRules || [];
+  const fallbackPool = parsed?.fallbackPool;
+
+  if (typeof pools !== 'object' || Array.isArray(pools)) {
+    throw new Error(`Proxy pools must be an object of proxy urls by name`);
+  }
+
+  for (const [name, urls] of Object.entries(pools)) {
+    if (!isStringArray(urls) || !urls.length) {
+      throw new Error(`Proxy pool ${name} must be a non-empty array of urls`);
+    }
+
+    for (const url of urls) {
+      let protocol: string;
+
+      try {
+        protocol = new URL(url).protocol;
+      } catch (err) {
+        throw new Error(`Proxy pool ${name} has an invalid url`);
+      }
+
+      if (!SUPPORTED_PROXY_PROTOCOLS.includes(protocol)) {
+        throw new Error(
+          `Proxy pool ${name} has a url with unsupported protocol ${protocol}`,
+        );
+      }
+    }
+  }
+
+  if (!Array.isArray(hostRules)) {
+    throw new Error(`Proxy host rules must be an array`);
+  }
+
+  for (const rule of hostRules) {
+    if (!isStringArray(rule?.hosts) || !rule.hosts.length) {
+      throw new Error(`Proxy host rules must have a non-empty array of hosts`);
+    }
+
+    if (!pools[rule.pool]) {
+      throw new Error(`Proxy host rule references unknown pool ${rule.pool}`);
+    }
+  }
+
+  if (fallbackPool !== undefined && !pools[fallbackPool]) {
+    throw new Error(`Proxy fallback pool ${fallbackPool} does not exist`);
+  }
+
+  return {
+    pools,
+    hostRules: hostRules.map((rule) => ({
+      hosts: rule.hosts.map((host) => host.toLowerCase()),
+      pool: rule.pool,
+    })),
+    fallbackPool,
+  };
+};
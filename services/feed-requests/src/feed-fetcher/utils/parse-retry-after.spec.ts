@@ -0,0 +1,28 @@
+import { parseRetryAfter } from './parse-retry-after';
+
+describe('parseRetryAfter', () => {
+  const referenceDate = new Date('2024-03-01T00:00:00.000Z');
+
+  it('returns null for empty values', () => {
+    expect(parseRetryAfter(undefined, referenceDate)).toBeNull();
+    expect(parseRetryAfter(null, referenceDate)).toBeNull();
+    expect(parseRetryAfter(' ', referenceDate)).toBeNull();
+  });
+
+  it('adds delays in seconds to the reference date', () => {
+    expect(parseRetryAfter('120', referenceDate)).toEqual(
+      new Date('2024-03-01T00:02:00.000Z'),
+    );
+  });
+
+  it('returns http dates', () => {
+    expect(
+      parseRetryAfter('Fri, 01 Mar 2024 01:00:00 GMT', referenceDate),
+    ).toEqual(new Date('2024-03-01T01:00:00.000Z'));
+  });
+
+  it('returns null for invalid values', () => {
+    expect(parseRetryAfter('-5', referenceDate)).toBeNull();
+    expect(parseRetryAfter('soon', referenceDate)).toBeNull();
+  });
+});
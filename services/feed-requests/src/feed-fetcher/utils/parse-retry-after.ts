@@ -0,0 +1,32 @@
+/**
+ * Parses the value of a Retry-After header, which is either a number of seconds or an HTTP date
+ *
+ * @returns The date after which requests may be retried, or null if the value is invalid
+ */
+export const parseRetryAfter = (
+  value: string | null | undefined,
+  referenceDate: Date,
+): Date | null => {
+  const trimmed = value?.trim();
+
+  if (!trimmed) {
+    return null;
+  }
+
+  if (/^\d+$/.test(trimmed)) {
+    return new Date(referenceDate.getTime() + Number(trimmed) * 1000);
+  }
+
+  // HTTP dates always have day and month names, which excludes other numbers that would parse
+  if (!/[a-z]/i.test(trimmed)) {
+    return null;
+  }
+
+  const date = new Date(trimmed);
+
+  if (isNaN(date.getTime())) {
+    return null;
+  }
+
+  return date;
+};
@@ -0,0 +1,45 @@
+import { redactHeadersForStorage } from './redact-headers-for-storage';
+
+describe('redactHeadersForStorage', () => {
+  it('returns undefined if there are no headers', () => {
+    expect(redactHeadersForStorage(undefined)).toBeUndefined();
+  });
+
+  it('removes empty headers', () => {
+    expect(
+      redactHeadersForStorage({
+        'if-none-match': '',
+        'if-modified-since': 'date',
+      }),
+    ).toEqual({
+      'if-modified-since': 'date',
+    });
+  });
+
+  it('redacts authorization and cookie headers regardless of case', () => {
+    expect(
+      redactHeadersForStorage({
+        Authorization: 'Basic abc',
+        cookie: 'session=abc',
+      }),
+    ).toEqual({
+      Authorization: 'SECRET',
+      cookie: 'SECRET',
+    });
+  });
+
+  it('redacts the given secret headers', () => {
+    expect(
+      redactHeadersForStorage(
+        {
+          'X-Api-Key': 'abc',
+          'if-none-match': 'etag',
+        },
+        ['x-api-key'],
+      ),
+    ).toEqual({
+      'X-Api-Key': 'SECRET',
+      'if-none-match': 'etag',
+    });
+  });
+});
@@ -0,0 +1,38 @@
+const ALWAYS_SECRET_HEADERS = [
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+];
+
+/**
+ * Removes empty headers and replaces the values of secret headers so that they are not persisted
+ * or logged. Headers given by callers are credentials of the feed, and are always secret.
+ */
+export const redactHeadersForStorage = (
+  headers?: Record<string, string>,
+  secretHeaderNames: string[] = [],
+) => {
+  if (!headers) {
+    return headers;
+  }
+
+  const secretNames = new Set(
+    [...ALWAYS_SECRET_HEADERS, ...secretHeaderNames].map((name) =>
+      name.toLowerCase(),
+    ),
+  );
+
+  const redacted: Record<string, string> = {};
+
+  for (const key in headers) {
+    if (!headers[key]) {
+      continue;
+    }
+
+    redacted[key] = secretNames.has(key.toLowerCase())
+      ? 'SECRET'
+      : headers[key];
+  }
+
+  return redacted;
+};
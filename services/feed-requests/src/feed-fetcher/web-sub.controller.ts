@@ -0,0 +1,154 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Header,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { NestFastifyApplication } from '@nestjs/platform-fastify';
+import logger from '../utils/logger';
+import { RequestStatus } from './constants';
+import { RequestSource } from './constants/request-source.constants';
+import { FeedFetcherService } from './feed-fetcher.service';
+import { HostRateLimiterService } from './host-rate-limiter.service';
+import { WebSubService } from './web-sub.service';
+
+const CALLBACK_PATH_REGEX = /^\/v1\/websub\/callback\//;
+
+/**
+ * Content pushed by WebSub hubs must be kept raw for its signature to be verified. Fastify only
+ * supports parsers for the whole app, so XML is still rejected by every other route.
+ */
+export const registerWebSubContentTypeParser = (
+  app: NestFastifyApplication,
+) => {
+  app
+    .getHttpAdapter()
+    .getInstance()
+    .addContentTypeParser(
+      /xml/,
+      { parseAs: 'buffer', bodyLimit: 10 * 1024 * 1024 },
+      (req, body, done) => {
+        if (!CALLBACK_PATH_REGEX.test(req.url)) {
+          const err = new Error(
+            `Unsupported Media Type: ${req.headers['content-type']}`,
+          );
+          err['statusCode'] = HttpStatus.UNSUPPORTED_MEDIA_TYPE;
+
+          return done(err, undefined);
+        }
+
+        done(null, body);
+      },
+    );
+};
+
+/**
+ * Callbacks for WebSub hubs. These are public since hubs cannot authenticate with an API key, so
+ * intents are verified against stored topics and pushed content against the subscription secret.
+ */
+@Controller({
+  version: '1',
+  path: 'websub',
+})
+export class WebSubController {
+  constructor(
+    private readonly webSubService: WebSubService,
+    private readonly feedFetcherService: FeedFetcherService,
+    private readonly hostRateLimiterService: HostRateLimiterService,
+  ) {}
+
+  @Get('callback/:id')
+  @Header('Content-Type', 'text/plain')
+  async verifyIntent(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('hub.mode') mode?: string,
+    @Query('hub.topic') topic?: string,
+    @Query('hub.challenge') challenge?: string,
+    @Query('hub.lease_seconds') leaseSeconds?: string,
+  ): Promise<string> {
+    const response = await this.webSubService.verifyIntent({
+      id,
+      mode,
+      topic,
+      challenge,
+      leaseSeconds,
+    });
+
+    if (response === null) {
+      throw new NotFoundException();
+    }
+
+    return response;
+  }
+
+  /**
+   * Hubs expect a successful status even if the content is ignored, otherwise they retry delivery.
+   *
+   * Hubs may only push the entries that changed, so pushed content is never saved as the response
+   * of the feed. It only triggers a fetch of the full feed.
+   */
+  @Post('callback/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async receiveContent(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: unknown,
+    @Headers('x-hub-signature') signature?: string,
+  ): Promise<void> {
+    if (!Buffer.isBuffer(body)) {
+      logger.debug(`Ignoring WebSub content with unsupported content type`, {
+        id,
+      });
+
+      return;
+    }
+
+    const subscription = await this.webSubService.getVerifiedPushSubscription({
+      id,
+      body,
+      signature,
+    });
+
+    if (!subscription) {
+      return;
+    }
+
+    const release = await this.hostRateLimiterService.acquire({
+      url: subscription.url,
+    });
+
+    if (!release) {
+      // Let the hub retry delivery later instead of missing the update until the next poll
+      throw new ServiceUnavailableException();
+    }
+
+    const { request } = await this.feedFetcherService
+      .fetchAndSaveResponse(subscription.url, {
+        lookupKey: undefined,
+        source: RequestSource.WebSub,
+        flushEntities: true,
+      })
+      .finally(release);
+
+    if (request.status === RequestStatus.THROTTLED_BY_HOST) {
+      this.hostRateLimiterService.pauseHost({
+        url: subscription.url,
+        retryAfter: request.response?.headers?.retryAfter,
+      });
+
+      throw new ServiceUnavailableException();
+    }
+
+    if (request.status === RequestStatus.OK) {
+      this.webSubService.emitPushReceived({ url: subscription.url });
+    }
+  }
+}
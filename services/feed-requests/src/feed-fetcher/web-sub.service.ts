@@ -0,0 +1,368 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@mikro-orm/nestjs';
+import { EntityRepository } from '@mikro-orm/postgresql';
+import { AmqpConnection } from '@golevelup/nestjs-rabbitmq';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import dayjs from 'dayjs';
+import logger from '../utils/logger';
+import { WebSubSubscriptionStatus } from './constants';
+import { WebSubSubscription } from './entities';
+
+const LINK_TAG_REGEX = /<(?:[a-z0-9_-]+:)?link\b[^>]*>/gi;
+
+const SUPPORTED_SIGNATURE_ALGORITHMS = ['sha1', 'sha256', 'sha384', 'sha512'];
+
+const getTagAttribute = (tag: string, name: string) => {
+  const match = new RegExp(
+    `\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`,
+    'i',
+  ).exec(tag);
+
+  const value = match?.[1] ?? match?.[2];
+
+  return value?.replace(/&amp;/g, '&').trim();
+};
+
+@Injectable()
+export class WebSubService {
+  callbackBaseUrl?: string;
+  feedRequestTimeoutMs: number;
+
+  /**
+   * Hubs may grant a shorter lease than what is requested
+   */
+  static REQUESTED_LEASE_SECONDS = 60 * 60 * 24 * 10;
+  static LEASE_RENEWAL_WINDOW_HOURS = 24;
+  static PENDING_VERIFICATION_RETRY_HOURS = 24;
+  static DENIED_RETRY_DAYS = 7;
+  /**
+   * Feeds with active leases are still polled at this interval in case the hub misses updates
+   */
+  static RECONCILIATION_POLL_HOURS = 24;
+
+  constructor(
+    @InjectRepository(WebSubSubscription)
+    private readonly subscriptionRepo: EntityRepository<WebSubSubscription>,
+    private readonly configService: ConfigService,
+    private readonly amqpConnection: AmqpConnection,
+  ) {
+    this.callbackBaseUrl = this.configService
+      .get<string>('FEED_REQUESTS_WEBSUB_CALLBACK_BASE_URL')
+      ?.replace(/\/$/, '');
+    this.feedRequestTimeoutMs = this.configService.getOrThrow(
+      'FEED_REQUESTS_REQUEST_TIMEOUT_MS',
+    );
+  }
+
+  async hasActiveLease({ url }: { url: string }): Promise<boolean> {
+    if (!this.callbackBaseUrl) {
+      return false;
+    }
+
+    const found = await this.subscriptionRepo.findOne(
+      {
+        url,
+        status: WebSubSubscriptionStatus.Active,
+        leaseExpiresAt: {
+          $gt: new Date(),
+        },
+      },
+      {
+        fields: ['id'],
+      },
+    );
+
+    return !!found;
+  }
+
+  /**
+   * Subscribes to the hub advertised by the feed if there is no subscription yet, or if the
+   * current one needs renewal. Polling continues as usual until the hub verifies the subscription.
+   */
+  async maybeSubscribe({
+    url,
+    responseText,
+  }: {
+    url: string;
+    responseText: string;
+  }): Promise<void> {
+    if (!this.callbackBaseUrl) {
+      return;
+    }
+
+    const existing = await this.subscriptionRepo.findOne({ url });
+
+    if (existing && !this.shouldResubscribe(existing)) {
+      return;
+    }
+
+    const links = this.getHubLinks(responseText);
+
+    if (!links) {
+      if (existing) {
+        logger.info(
+          `Feed ${url} no longer advertises a WebSub hub, removing subscription`,
+        );
+
+        await this.subscriptionRepo.getEntityManager().removeAndFlush(existing);
+      }
+
+      return;
+    }
+
+    const subscription = existing || new WebSubSubscription();
+    const hubChanged = !!existing && existing.hubUrl !== links.hubUrl;
+
+    subscription.url = url;
+    subscription.topicUrl = links.topicUrl || url;
+    subscription.hubUrl = links.hubUrl;
+
+    if (!existing || hubChanged) {
+      subscription.secret = randomBytes(32).toString('hex');
+    }
+
+    if (subscription.status !== WebSubSubscriptionStatus.Active || hubChanged) {
+      subscription.status = WebSubSubscriptionStatus.Pending;
+    }
+
+    // Explicitly set so that retries are spaced out even if nothing else changed
+    subscription.updatedAt = new Date();
+
+    await this.subscriptionRepo
+      .getEntityManager()
+      .persistAndFlush(subscription);
+
+    const accepted = await this.sendSubscriptionRequest(subscription);
+
+    if (!accepted && subscription.status === WebSubSubscriptionStatus.Pending) {
+      subscription.status = WebSubSubscriptionStatus.Denied;
+
+      await this.subscriptionRepo.getEntityManager().flush();
+    }
+  }
+
+  /**
+   * Returns the challenge to echo back to the hub, or null if the intent cannot be verified
+   */
+  async verifyIntent({
+    id,
+    mode,
+    topic,
+    challenge,
+    leaseSeconds,
+  }: {
+    id: string;
+    mode?: string;
+    topic?: string;
+    challenge?: string;
+    leaseSeconds?: string;
+  }): Promise<string | null> {
+    const subscription = await this.subscriptionRepo.findOne({ id });
+
+    if (!subscription || topic !== subscription.topicUrl) {
+      return null;
+    }
+
+    if (mode === 'denied') {
+      logger.info(`WebSub hub denied subscription to ${subscription.url}`, {
+        hubUrl: subscription.hubUrl,
+      });
+
+      subscription.status = WebSubSubscriptionStatus.Denied;
+      await this.subscriptionRepo.getEntityManager().flush();
+
+      return '';
+    }
+
+    if (mode !== 'subscribe' || !challenge) {
+      return null;
+    }
+
+    const grantedLeaseSeconds =
+      Number(leaseSeconds) || WebSubService.REQUESTED_LEASE_SECONDS;
+
+    subscription.status = WebSubSubscriptionStatus.Active;
+    subscription.leaseExpiresAt = dayjs()
+      .add(grantedLeaseSeconds, 'seconds')
+      .toDate();
+
+    await this.subscriptionRepo.getEntityManager().flush();
+
+    return challenge;
+  }
+
+  /**
+   * Returns the subscription that pushed content belongs to, or null if the content should be
+   * ignored because the subscription is unknown or the signature does not match.
+   */
+  async getVerifiedPushSubscription({
+    id,
+    body,
+    signature,
+  }: {
+    id: string;
+    body: Buffer;
+    signature: string | undefined;
+  }): Promise<WebSubSubscription | null> {
+    const subscription = await this.subscriptionRepo.findOne({ id });
+
+    if (subscription?.status !== WebSubSubscriptionStatus.Active) {
+      return null;
+    }
+
+    if (!this.isValidSignature(body, subscription.secret, signature)) {
+      logger.debug(
+        `Ignoring WebSub content of ${subscription.url} with invalid signature`,
+      );
+
+      return null;
+    }
+
+    subscription.lastPushedAt = new Date();
+
+    return subscription;
+  }
+
+  emitPushReceived({ url }: { url: string }) {
+    try {
+      this.amqpConnection.publish<{
+        data: { url: string };
+      }>('', 'url.push.received', {
+        data: {
+          url,
+        },
+      });
+    } catch (err) {
+      logger.error(`Failed to publish push received event: ${url}`, {
+        stack: (err as Error).stack,
+        url,
+      });
+    }
+  }
+
+  shouldResubscribe(subscription: WebSubSubscription, now = new Date()) {
+    if (subscription.status === WebSubSubscriptionStatus.Pending) {
+      return dayjs(subscription.updatedAt)
+        .add(WebSubService.PENDING_VERIFICATION_RETRY_HOURS, 'hours')
+        .isBefore(now);
+    }
+
+    if (subscription.status === WebSubSubscriptionStatus.Denied) {
+      return dayjs(subscription.updatedAt)
+        .add(WebSubService.DENIED_RETRY_DAYS, 'days')
+        .isBefore(now);
+    }
+
+    return (
+      !subscription.leaseExpiresAt ||
+      dayjs(subscription.leaseExpiresAt)
+        .subtract(WebSubService.LEASE_RENEWAL_WINDOW_HOURS, 'hours')
+        .isBefore(now)
+    );
+  }
+
+  getHubLinks(text: string): { hubUrl: string; topicUrl?: string } | null {
+    let hubUrl: string | undefined;
+    let topicUrl: string | undefined;
+
+    for (const [tag] of text.matchAll(LINK_TAG_REGEX)) {
+      const rels = getTagAttribute(tag, 'rel')?.toLowerCase().split(/\s+/);
+      const href = getTagAttribute(tag, 'href');
+
+      if (!rels || !href) {
+        continue;
+      }
+
+      if (!hubUrl && rels.includes('hub')) {
+        hubUrl = href;
+      } else if (!topicUrl && rels.includes('self')) {
+        topicUrl = href;
+      }
+    }
+
+    if (!hubUrl || !/^https?:\/\//i.test(hubUrl)) {
+      return null;
+    }
+
+    return {
+      hubUrl,
+      topicUrl,
+    };
+  }
+
+  isValidSignature(
+    body: Buffer,
+    secret: string,
+    signature: string | undefined,
+  ): boolean {
+    const [algorithm, digest] = signature?.split('=') || [];
+
+    if (
+      !algorithm ||
+      !digest ||
+      !SUPPORTED_SIGNATURE_ALGORITHMS.includes(algorithm.toLowerCase())
+    ) {
+      return false;
+    }
+
+    const expected = createHmac(algorithm.toLowerCase(), secret)
+      .update(body)
+      .digest();
+    const received = Buffer.from(digest, 'hex');
+
+    return (
+      expected.length === received.length && timingSafeEqual(expected, received)
+    );
+  }
+
+  private async sendSubscriptionRequest(
+    subscription: WebSubSubscription,
+  ): Promise<boolean> {
+    const controller = new AbortController();
+
+    const timer = setTimeout(() => {
+      controller.abort();
+    }, this.feedRequestTimeoutMs);
+
+    try {
+      const res = await fetch(subscription.hubUrl, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({
+          'hub.mode': 'subscribe',
+          'hub.topic': subscription.topicUrl,
+          'hub.callback': `${this.callbackBaseUrl}/v1/websub/callback/${subscription.id}`,
+          'hub.secret': subscription.secret,
+          'hub.lease_seconds': String(WebSubService.REQUESTED_LEASE_SECONDS),
+        }).toString(),
+        signal: controller.signal,
+      });
+
+      if (!res.ok) {
+        logger.debug(
+          `WebSub hub rejected subscription to ${subscription.topicUrl} with status ${res.status}`,
+          {
+            hubUrl: subscription.hubUrl,
+          },
+        );
+      }
+
+      return res.ok;
+    } catch (err) {
+      logger.debug(
+        `Failed to send WebSub subscription request for ${subscription.topicUrl}`,
+        {
+          hubUrl: subscription.hubUrl,
+          stack: (err as Error).stack,
+        },
+      );
+
+      return false;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
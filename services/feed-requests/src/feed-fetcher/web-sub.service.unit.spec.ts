@@ -0,0 +1,177 @@
+import { createHmac } from 'crypto';
+import dayjs from 'dayjs';
+import { WebSubSubscriptionStatus } from './constants';
+import { WebSubSubscription } from './entities';
+import { WebSubService } from './web-sub.service';
+
+jest.mock('../utils/logger');
+
+describe('WebSubService', () => {
+  let service: WebSubService;
+  const em = {
+    flush: jest.fn(),
+    persistAndFlush: jest.fn(),
+  };
+  const subscriptionRepo = {
+    findOne: jest.fn(),
+    getEntityManager: () => em,
+  };
+  const configService = {
+    get: jest.fn(),
+    getOrThrow: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    configService.get.mockReturnValue('https://callback.com/');
+    service = new WebSubService(
+      subscriptionRepo as never,
+      configService as never,
+      {} as never,
+    );
+  });
+
+  it('removes trailing slashes from the callback base url', () => {
+    expect(service.callbackBaseUrl).toEqual('https://callback.com');
+  });
+
+  describe('getHubLinks', () => {
+    it('returns the hub and self links of atom feeds', () => {
+      const text = `<feed xmlns="http://www.w3.org/2005/Atom">
+        <link rel="hub" href="https://hub.com/?a=1&amp;b=2" />
+        <link rel='self' href='https://feed.com/feed.xml'/>
+      </feed>`;
+
+      expect(service.getHubLinks(text)).toEqual({
+        hubUrl: 'https://hub.com/?a=1&b=2',
+        topicUrl: 'https://feed.com/feed.xml',
+      });
+    });
+
+    it('returns the hub and self links of rss feeds', () => {
+      const text = `<rss><channel>
+        <link>https://feed.com</link>
+        <atom:link href="https://feed.com/rss" rel="self" type="application/rss+xml" />
+        <atom:link href="https://hub.com" rel="hub" />
+      </channel></rss>`;
+
+      expect(service.getHubLinks(text)).toEqual({
+        hubUrl: 'https://hub.com',
+        topicUrl: 'https://feed.com/rss',
+      });
+    });
+
+    it('returns null if there is no hub', () => {
+      const text = `<feed><link rel="self" href="https://feed.com" /></feed>`;
+
+      expect(service.getHubLinks(text)).toBeNull();
+    });
+
+    it('returns null if the hub is not an http url', () => {
+      const text = `<feed><link rel="hub" href="javascript:alert(1)" /></feed>`;
+
+      expect(service.getHubLinks(text)).toBeNull();
+    });
+  });
+
+  describe('isValidSignature', () => {
+    const body = Buffer.from('<feed></feed>');
+    const secret = 'secret';
+
+    it('returns true for matching signatures', () => {
+      const digest = createHmac('sha256', secret).update(body).digest('hex');
+
+      expect(service.isValidSignature(body, secret, `sha256=${digest}`)).toBe(
+        true,
+      );
+    });
+
+    it('returns false for mismatched signatures', () => {
+      const digest = createHmac('sha1', 'other').update(body).digest('hex');
+
+      expect(service.isValidSignature(body, secret, `sha1=${digest}`)).toBe(
+        false,
+      );
+    });
+
+    it('returns false for missing or unsupported signatures', () => {
+      expect(service.isValidSignature(body, secret, undefined)).toBe(false);
+      expect(service.isValidSignature(body, secret, 'md5=abc')).toBe(false);
+    });
+  });
+
+  describe('shouldResubscribe', () => {
+    const now = new Date();
+
+    it('returns true if an active lease is about to expire', () => {
+      const subscription = {
+        status: WebSubSubscriptionStatus.Active,
+        leaseExpiresAt: dayjs(now).add(1, 'hour').toDate(),
+      } as WebSubSubscription;
+
+      expect(service.shouldResubscribe(subscription, now)).toBe(true);
+    });
+
+    it('returns false if an active lease is not about to expire', () => {
+      const subscription = {
+        status: WebSubSubscriptionStatus.Active,
+        leaseExpiresAt: dayjs(now).add(5, 'days').toDate(),
+      } as WebSubSubscription;
+
+      expect(service.shouldResubscribe(subscription, now)).toBe(false);
+    });
+
+    it('waits before retrying denied subscriptions', () => {
+      const subscription = {
+        status: WebSubSubscriptionStatus.Denied,
+        updatedAt: dayjs(now).subtract(1, 'day').toDate(),
+      } as WebSubSubscription;
+
+      expect(service.shouldResubscribe(subscription, now)).toBe(false);
+
+      subscription.updatedAt = dayjs(now).subtract(8, 'days').toDate();
+
+      expect(service.shouldResubscribe(subscription, now)).toBe(true);
+    });
+  });
+
+  describe('verifyIntent', () => {
+    it('activates the subscription with the granted lease', async () => {
+      const subscription = {
+        topicUrl: 'https://feed.com/feed.xml',
+        status: WebSubSubscriptionStatus.Pending,
+      } as WebSubSubscription;
+      subscriptionRepo.findOne.mockResolvedValue(subscription);
+
+      const result = await service.verifyIntent({
+        id: 'id',
+        mode: 'subscribe',
+        topic: subscription.topicUrl,
+        challenge: 'challenge',
+        leaseSeconds: '3600',
+      });
+
+      expect(result).toEqual('challenge');
+      expect(subscription.status).toEqual(WebSubSubscriptionStatus.Active);
+      expect(
+        dayjs(subscription.leaseExpiresAt).diff(new Date(), 'minutes'),
+      ).toBeGreaterThanOrEqual(59);
+      expect(em.flush).toHaveBeenCalled();
+    });
+
+    it('returns null if the topic does not match', async () => {
+      subscriptionRepo.findOne.mockResolvedValue({
+        topicUrl: 'https://feed.com/feed.xml',
+      });
+
+      const result = await service.verifyIntent({
+        id: 'id',
+        mode: 'subscribe',
+        topic: 'https://other.com',
+        challenge: 'challenge',
+      });
+
+      expect(result).toBeNull();
+    });
+  });
+});
@@ -16,6 +16,10 @@ import { RequestContext } from '@mikro-orm/core';
 import { MicroserviceOptions, Transport } from '@nestjs/microservices';
 import { join } from 'path';
 import compression from '@fastify/compress';
+import { AmqpConnection } from '@golevelup/nestjs-rabbitmq';
+import config from './config';
+import { startMetricsServer, trackQueueBacklog } from '@monitorss/metrics';
+import { registerWebSubContentTypeParser } from './feed-fetcher/web-sub.controller';
 
 async function startApi() {
   const app = await NestFactory.create<NestFastifyApplication>(
@@ -27,6 +31,8 @@ async function startApi() {
     encodings: ['gzip', 'deflate'],
   });
 
+  registerWebSubContentTypeParser(app);
+
   const microservice =
     await NestFactory.createMicroservice<MicroserviceOptions>(
       AppModule.forApi(),
@@ -84,6 +90,13 @@ async function startService() {
   const orm = app.get(MikroORM);
   await app.init();
 
+  trackQueueBacklog({
+    name: 'feed_requests_queue_messages',
+    channel: app.get(AmqpConnection).channel,
+    queues: ['url.fetch', 'url.fetch-batch'],
+    logger,
+  });
+
   setInterval(() => {
     tryDbConnection(orm).catch(() => process.exit(1));
   }, 60000);
@@ -104,6 +117,12 @@ async function bootstrap() {
     await startApi();
     await startService();
   }
+
+  const metricsPort = config().FEED_REQUESTS_METRICS_PORT;
+
+  if (metricsPort) {
+    startMetricsServer({ port: metricsPort, logger });
+  }
 }
 
 async function tryDbConnection(orm: MikroORM, currentTries = 0) {
@@ -0,0 +1,14 @@
+import { Counter, Histogram } from 'prom-client';
+
+export const fetchDurationHistogram = new Histogram({
+  name: 'feed_requests_fetch_duration_seconds',
+  help: 'Duration of feed fetches, labelled by the resulting request status',
+  labelNames: ['status'],
+  buckets: [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 15, 30],
+});
+
+export const messageHandlerErrorsCounter = new Counter({
+  name: 'feed_requests_message_handler_errors_total',
+  help: 'Number of errors thrown while handling broker messages',
+  labelNames: ['queue'],
+});
@@ -0,0 +1,31 @@
+import { register } from 'prom-client';
+import { RequestStatus } from '../feed-fetcher/constants';
+import { fetchDurationHistogram, messageHandlerErrorsCounter } from './metrics';
+
+describe('metrics', () => {
+  afterEach(() => {
+    register.resetMetrics();
+  });
+
+  it('labels fetch durations by request status', async () => {
+    fetchDurationHistogram.startTimer()({ status: RequestStatus.OK });
+
+    await expect(
+      register.getSingleMetricAsString('feed_requests_fetch_duration_seconds'),
+    ).resolves.toContain(
+      `feed_requests_fetch_duration_seconds_count{status="${RequestStatus.OK}"} 1`,
+    );
+  });
+
+  it('labels message handler errors by queue', async () => {
+    messageHandlerErrorsCounter.inc({ queue: 'url.fetch' });
+
+    await expect(
+      register.getSingleMetricAsString(
+        'feed_requests_message_handler_errors_total',
+      ),
+    ).resolves.toContain(
+      'feed_requests_message_handler_errors_total{queue="url.fetch"} 1',
+    );
+  });
+});
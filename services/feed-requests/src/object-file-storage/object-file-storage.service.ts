@@ -2,6 +2,7 @@ import {
   S3Client,
   PutObjectCommand,
   GetObjectCommand,
+  DeleteObjectCommand,
   NoSuchKey,
 } from '@aws-sdk/client-s3';
 import { Injectable } from '@nestjs/common';
@@ -21,6 +22,15 @@ export class ObjectFileStorageService {
     );
   }
 
+  async deleteFeedHtmlContent({ key }: { key: string }) {
+    await this.s3Client.send(
+      new DeleteObjectCommand({
+        Bucket: FEED_RESPONSE_BUCKET,
+        Key: key,
+      }),
+    );
+  }
+
   async getFeedHtmlContent({ key }: { key: string }) {
     try {
       const response = await this.s3Client.send(
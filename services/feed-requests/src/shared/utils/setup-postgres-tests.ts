@@ -45,6 +45,10 @@ export async function setupPostgresTests(
         timezone: 'UTC',
         schema: postgresSchema,
         allowGlobalContext: true,
+        // Raw queries use unqualified table names
+        driverOptions: {
+          searchPath: [postgresSchema],
+        },
       }),
     ],
   });
@@ -0,0 +1,19 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20240416120000 extends Migration {
+
+  async up(): Promise<void> {
+    this.addSql('alter table "delivery_record" drop constraint if exists "delivery_record_content_type_check";');
+
+    this.addSql('alter table "delivery_record" alter column "content_type" type text using ("content_type"::text);');
+    this.addSql('alter table "delivery_record" add constraint "delivery_record_content_type_check" check ("content_type" in (\'discord-article-message\', \'discord-thread-creation\', \'http-webhook-request\', \'slack-message\', \'matrix-message\'));');
+  }
+
+  async down(): Promise<void> {
+    this.addSql('alter table "delivery_record" drop constraint if exists "delivery_record_content_type_check";');
+
+    this.addSql('alter table "delivery_record" alter column "content_type" type text using ("content_type"::text);');
+    this.addSql('alter table "delivery_record" add constraint "delivery_record_content_type_check" check ("content_type" in (\'discord-article-message\', \'discord-thread-creation\', \'http-webhook-request\'));');
+  }
+
+}
@@ -0,0 +1,14 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20240420120000 extends Migration {
+
+  async up(): Promise<void> {
+    this.addSql('create table "queued_article" ("id" serial primary key, "feed_id" varchar(255) not null, "medium_id" varchar(255) not null, "article" jsonb not null, "created_at" timestamptz(0) not null);');
+    this.addSql('create index "queued_article_feed_id_created_at_index" on "queued_article" ("feed_id", "created_at");');
+  }
+
+  async down(): Promise<void> {
+    this.addSql('drop table if exists "queued_article" cascade;');
+  }
+
+}
@@ -0,0 +1,19 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20240422120000 extends Migration {
+
+  async up(): Promise<void> {
+    this.addSql('create table "feed_article_content" ("id" serial primary key, "feed_id" varchar(255) not null, "article_id_hash" varchar(255) not null, "content_hash" varchar(255) not null, "content" jsonb not null, "updated_at" timestamptz(0) not null);');
+    this.addSql('alter table "feed_article_content" add constraint "feed_article_content_unique" unique ("feed_id", "article_id_hash");');
+
+    this.addSql('alter table "delivery_record" add column "discord_message_id" text null default null, add column "discord_channel_id" text null default null;');
+  }
+
+  async down(): Promise<void> {
+    this.addSql('drop table if exists "feed_article_content" cascade;');
+
+    this.addSql('alter table "delivery_record" drop column "discord_message_id";');
+    this.addSql('alter table "delivery_record" drop column "discord_channel_id";');
+  }
+
+}
@@ -0,0 +1,13 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20240424120000 extends Migration {
+
+  async up(): Promise<void> {
+    this.addSql('alter table "delivery_record" add column "discord_thread_id" text null default null;');
+  }
+
+  async down(): Promise<void> {
+    this.addSql('alter table "delivery_record" drop column "discord_thread_id";');
+  }
+
+}
@@ -0,0 +1,14 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20240426120000 extends Migration {
+
+  async up(): Promise<void> {
+    this.addSql('alter table "delivery_record" add column "fetched_at" timestamptz(0) null default null, add column "delivered_at" timestamptz(0) null default null;');
+  }
+
+  async down(): Promise<void> {
+    this.addSql('alter table "delivery_record" drop column "fetched_at";');
+    this.addSql('alter table "delivery_record" drop column "delivered_at";');
+  }
+
+}
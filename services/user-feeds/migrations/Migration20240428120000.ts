@@ -0,0 +1,14 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20240428120000 extends Migration {
+
+  async up(): Promise<void> {
+    this.addSql('create table "feed_publish_cadence" ("id" serial primary key, "feed_id" varchar(255) not null, "unchanged_fetch_streak" int not null default 0, "new_article_fetch_ratio" real not null default 0, "fetch_count" int not null default 0, "last_new_article_at" timestamptz(0) null default null, "activity_level" text check ("activity_level" in (\'busy\', \'normal\', \'idle\', \'dormant\')) not null default \'normal\', "activity_level_emitted_at" timestamptz(0) null default null, "created_at" timestamptz(0) not null, "updated_at" timestamptz(0) not null);');
+    this.addSql('alter table "feed_publish_cadence" add constraint "feed_publish_cadence_feed_id_unique" unique ("feed_id");');
+  }
+
+  async down(): Promise<void> {
+    this.addSql('drop table if exists "feed_publish_cadence" cascade;');
+  }
+
+}
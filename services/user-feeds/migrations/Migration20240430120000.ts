@@ -0,0 +1,13 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20240430120000 extends Migration {
+
+  async up(): Promise<void> {
+    this.addSql('alter table "queued_article" add column "fetched_at" timestamptz(0) null default null;');
+  }
+
+  async down(): Promise<void> {
+    this.addSql('alter table "queued_article" drop column "fetched_at";');
+  }
+
+}
@@ -10,13 +10,29 @@ import {
   RelationalExpressionLeft,
   RelationalExpressionOperator,
   RelationalExpressionRight,
+  RelationalStringExpression,
+  RelationalNumberExpression,
+  RelationalDateExpression,
+  RelationalListExpression,
 } from "./types";
 import vm from "node:vm";
-import { validateLogicalExpression } from "./utils";
+import {
+  parseFilterDate,
+  parseFilterNumber,
+  validateLogicalExpression,
+} from "./utils";
 import { FiltersRegexEvalException } from "../shared/exceptions";
 
 const REGEX_TIMEOUT_MS = 5000;
 
+const ORDERED_OPERATOR_DESCRIPTIONS: Record<string, string> = {
+  [RelationalExpressionOperator.Eq]: "equal to",
+  [RelationalExpressionOperator.Gt]: "greater than",
+  [RelationalExpressionOperator.Gte]: "greater than or equal to",
+  [RelationalExpressionOperator.Lt]: "less than",
+  [RelationalExpressionOperator.Lte]: "less than or equal to",
+};
+
 interface FilterResult {
   result: boolean;
   explainBlocked: Array<{
@@ -144,7 +160,9 @@ export class ArticleFiltersService {
           {
             message: "Reference value does not exist",
             referenceValue: null,
-            filterInput: right.value,
+            filterInput: Array.isArray(right.value)
+              ? right.value.join(", ")
+              : right.value,
           },
         ],
       };
@@ -157,80 +175,301 @@ export class ArticleFiltersService {
       valueToCompareAgainst = "";
     }
 
-    if (right.type === RelationalExpressionRight.String) {
-      let val = false;
+    let val = false;
 
-      switch (expression.op) {
-        case RelationalExpressionOperator.Eq: {
-          val = valueToCompareAgainst === right.value;
+    switch (right.type) {
+      case RelationalExpressionRight.String: {
+        val = this.evaluateStringExpression(
+          expression as RelationalStringExpression,
+          valueToCompareAgainst,
+          explainBlocked
+        );
 
-          if (!val) {
-            explainBlocked.push({
-              message: "Reference value does not match filter input",
-              referenceValue: valueToCompareAgainst,
-              filterInput: right.value,
-            });
-          }
+        break;
+      }
 
-          break;
-        }
+      case RelationalExpressionRight.Number: {
+        val = this.evaluateNumberExpression(
+          expression as RelationalNumberExpression,
+          valueToCompareAgainst,
+          explainBlocked
+        );
 
-        case RelationalExpressionOperator.Contains: {
-          val = valueToCompareAgainst
-            .toLowerCase()
-            .includes(right.value.toLowerCase());
-
-          if (!val) {
-            explainBlocked.push({
-              message: "Reference value does not contain filter input",
-              referenceValue: valueToCompareAgainst,
-              filterInput: right.value,
-            });
-          }
+        break;
+      }
+
+      case RelationalExpressionRight.Date: {
+        val = this.evaluateDateExpression(
+          expression as RelationalDateExpression,
+          this.getReferenceDate(referenceObject, left.value),
+          valueToCompareAgainst,
+          explainBlocked
+        );
+
+        break;
+      }
+
+      case RelationalExpressionRight.List: {
+        val = this.evaluateListExpression(
+          expression as RelationalListExpression,
+          valueToCompareAgainst,
+          explainBlocked
+        );
+
+        break;
+      }
+
+      default:
+        throw new InvalidExpressionException(
+          `Unknown right type ${
+            right["type"]
+          } in relational expression ${JSON.stringify(expression)}`
+        );
+    }
 
-          break;
+    if (expression.not) {
+      return {
+        result: !val,
+        explainBlocked,
+      };
+    }
+
+    return { result: val, explainBlocked };
+  }
+
+  private evaluateStringExpression(
+    expression: RelationalStringExpression,
+    valueToCompareAgainst: string,
+    explainBlocked: FilterResult["explainBlocked"]
+  ): boolean {
+    const { right } = expression;
+    let val = false;
+
+    switch (expression.op) {
+      case RelationalExpressionOperator.Eq: {
+        val = valueToCompareAgainst === right.value;
+
+        if (!val) {
+          explainBlocked.push({
+            message: "Reference value does not match filter input",
+            referenceValue: valueToCompareAgainst,
+            filterInput: right.value,
+          });
         }
 
-        case RelationalExpressionOperator.Matches: {
-          val = this.testRegex(right.value, valueToCompareAgainst);
+        break;
+      }
 
-          if (!val) {
-            explainBlocked.push({
-              message: "Reference value does not match regex",
-              referenceValue: valueToCompareAgainst,
-              filterInput: right.value,
-            });
-          }
+      case RelationalExpressionOperator.Contains: {
+        val = valueToCompareAgainst
+          .toLowerCase()
+          .includes(right.value.toLowerCase());
 
-          break;
+        if (!val) {
+          explainBlocked.push({
+            message: "Reference value does not contain filter input",
+            referenceValue: valueToCompareAgainst,
+            filterInput: right.value,
+          });
         }
 
-        default: {
-          throw new InvalidExpressionException(
-            `Unknown right operator "${
-              expression.op
-            }" of string-type right operand in relational expression ${JSON.stringify(
-              expression
-            )}.`
-          );
+        break;
+      }
+
+      case RelationalExpressionOperator.Matches: {
+        val = this.testRegex(right.value, valueToCompareAgainst);
+
+        if (!val) {
+          explainBlocked.push({
+            message: "Reference value does not match regex",
+            referenceValue: valueToCompareAgainst,
+            filterInput: right.value,
+          });
         }
+
+        break;
       }
 
-      if (expression.not) {
-        return {
-          result: !val,
-          explainBlocked,
-        };
+      default: {
+        throw new InvalidExpressionException(
+          `Unknown right operator "${
+            expression["op"]
+          }" of string-type right operand in relational expression ${JSON.stringify(
+            expression
+          )}.`
+        );
       }
+    }
 
-      return { result: val, explainBlocked };
-    } else {
+    return val;
+  }
+
+  private evaluateNumberExpression(
+    expression: RelationalNumberExpression,
+    valueToCompareAgainst: string,
+    explainBlocked: FilterResult["explainBlocked"]
+  ): boolean {
+    const { right } = expression;
+    const referenceNumber = parseFilterNumber(valueToCompareAgainst);
+    const inputNumber = parseFilterNumber(right.value);
+
+    if (inputNumber === null) {
+      throw new InvalidExpressionException(
+        `Invalid number "${
+          right.value
+        }" of number-type right operand in relational expression ${JSON.stringify(
+          expression
+        )}.`
+      );
+    }
+
+    if (referenceNumber === null) {
+      explainBlocked.push({
+        message: "Reference value is not a number",
+        referenceValue: valueToCompareAgainst,
+        filterInput: right.value,
+      });
+
+      return false;
+    }
+
+    const val = this.compareOrderedValues(
+      expression,
+      referenceNumber,
+      inputNumber
+    );
+
+    if (!val) {
+      explainBlocked.push({
+        message: `Reference value is not ${
+          ORDERED_OPERATOR_DESCRIPTIONS[expression.op]
+        } filter input`,
+        referenceValue: valueToCompareAgainst,
+        filterInput: right.value,
+      });
+    }
+
+    return val;
+  }
+
+  private evaluateDateExpression(
+    expression: RelationalDateExpression,
+    referenceDate: Date | null,
+    valueToCompareAgainst: string,
+    explainBlocked: FilterResult["explainBlocked"]
+  ): boolean {
+    const { right } = expression;
+    const inputDate = parseFilterDate(right.value);
+
+    if (!inputDate) {
       throw new InvalidExpressionException(
-        `Unknown right type ${
-          right["type"]
-        } in relational expression ${JSON.stringify(expression)}`
+        `Invalid date "${
+          right.value
+        }" of date-type right operand in relational expression ${JSON.stringify(
+          expression
+        )}.`
       );
     }
+
+    if (!referenceDate) {
+      explainBlocked.push({
+        message: "Reference value is not a date",
+        referenceValue: valueToCompareAgainst,
+        filterInput: right.value,
+      });
+
+      return false;
+    }
+
+    const val = this.compareOrderedValues(
+      expression,
+      referenceDate.getTime(),
+      inputDate.getTime()
+    );
+
+    if (!val) {
+      explainBlocked.push({
+        message: `Reference date is not ${
+          ORDERED_OPERATOR_DESCRIPTIONS[expression.op]
+        } filter input (${inputDate.toISOString()})`,
+        referenceValue: valueToCompareAgainst,
+        filterInput: right.value,
+      });
+    }
+
+    return val;
+  }
+
+  private evaluateListExpression(
+    expression: RelationalListExpression,
+    valueToCompareAgainst: string,
+    explainBlocked: FilterResult["explainBlocked"]
+  ): boolean {
+    const { right } = expression;
+    const normalizedReference = valueToCompareAgainst.trim().toLowerCase();
+
+    const val = right.value
+      .map((item) => item.trim().toLowerCase())
+      .some((item) => !!item && item === normalizedReference);
+
+    if (!val) {
+      explainBlocked.push({
+        message: "Reference value is not in filter input list",
+        referenceValue: valueToCompareAgainst,
+        filterInput: right.value.join(", "),
+      });
+    }
+
+    return val;
+  }
+
+  private compareOrderedValues(
+    expression: RelationalNumberExpression | RelationalDateExpression,
+    reference: number,
+    input: number
+  ) {
+    switch (expression.op) {
+      case RelationalExpressionOperator.Eq:
+        return reference === input;
+      case RelationalExpressionOperator.Gt:
+        return reference > input;
+      case RelationalExpressionOperator.Gte:
+        return reference >= input;
+      case RelationalExpressionOperator.Lt:
+        return reference < input;
+      case RelationalExpressionOperator.Lte:
+        return reference <= input;
+      default:
+        throw new InvalidExpressionException(
+          `Unknown right operator "${
+            expression["op"]
+          }" of ordered right operand in relational expression ${JSON.stringify(
+            expression
+          )}.`
+        );
+    }
+  }
+
+  /**
+   * Flattened dates may be formatted with a custom date format that cannot be parsed back, so the
+   * raw date of the article is preferred if there is one.
+   */
+  private getReferenceDate(article: Article, fieldName: string): Date | null {
+    const rawValue = (article.raw as unknown as Record<string, unknown>)[
+      fieldName
+    ];
+
+    if (rawValue instanceof Date && !isNaN(rawValue.getTime())) {
+      return rawValue;
+    }
+
+    const flattenedValue = article.flattened[fieldName];
+
+    if (!flattenedValue) {
+      return null;
+    }
+
+    return parseFilterDate(flattenedValue);
   }
 
   private testRegex(inputRegex: string, reference: string) {
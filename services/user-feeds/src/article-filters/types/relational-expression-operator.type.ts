@@ -2,4 +2,9 @@ export enum RelationalExpressionOperator {
   Eq = "EQ",
   Contains = "CONTAINS",
   Matches = "MATCHES",
+  Gt = "GT",
+  Gte = "GTE",
+  Lt = "LT",
+  Lte = "LTE",
+  InList = "IN_LIST",
 }
@@ -1,3 +1,6 @@
 export enum RelationalExpressionRight {
   String = "STRING",
+  Number = "NUMBER",
+  Date = "DATE",
+  List = "LIST",
 }
@@ -3,21 +3,65 @@ import { RelationalExpressionLeft } from "./relational-expression-left.type";
 import { RelationalExpressionOperator } from "./relational-expression-operator.type";
 import { RelationalExpressionRight } from "./relational-expression-right.type";
 
-export interface RelationalStringExpression {
+interface BaseRelationalExpression {
   type: ExpressionType.Relational;
-  op:
-    | RelationalExpressionOperator.Eq
-    | RelationalExpressionOperator.Contains
-    | RelationalExpressionOperator.Matches;
   not?: boolean;
   left: {
     type: RelationalExpressionLeft;
     value: string;
   };
+}
+
+export interface RelationalStringExpression extends BaseRelationalExpression {
+  op:
+    | RelationalExpressionOperator.Eq
+    | RelationalExpressionOperator.Contains
+    | RelationalExpressionOperator.Matches;
   right: {
     type: RelationalExpressionRight.String;
     value: string;
   };
 }
 
-export type RelationalExpression = RelationalStringExpression;
+export interface RelationalNumberExpression extends BaseRelationalExpression {
+  op:
+    | RelationalExpressionOperator.Eq
+    | RelationalExpressionOperator.Gt
+    | RelationalExpressionOperator.Gte
+    | RelationalExpressionOperator.Lt
+    | RelationalExpressionOperator.Lte;
+  right: {
+    type: RelationalExpressionRight.Number;
+    value: string;
+  };
+}
+
+export interface RelationalDateExpression extends BaseRelationalExpression {
+  op:
+    | RelationalExpressionOperator.Gt
+    | RelationalExpressionOperator.Gte
+    | RelationalExpressionOperator.Lt
+    | RelationalExpressionOperator.Lte;
+  right: {
+    type: RelationalExpressionRight.Date;
+    /**
+     * Either an absolute date (such as an ISO 8601 timestamp), or a date relative to the current
+     * time such as "now", "now-6h" or "now-2d".
+     */
+    value: string;
+  };
+}
+
+export interface RelationalListExpression extends BaseRelationalExpression {
+  op: RelationalExpressionOperator.InList;
+  right: {
+    type: RelationalExpressionRight.List;
+    value: string[];
+  };
+}
+
+export type RelationalExpression =
+  | RelationalStringExpression
+  | RelationalNumberExpression
+  | RelationalDateExpression
+  | RelationalListExpression;
@@ -1 +1,3 @@
 export * from "./validate-filter-expression";
+export * from "./parse-filter-date";
+export * from "./parse-filter-number";
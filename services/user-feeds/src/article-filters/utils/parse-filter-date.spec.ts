@@ -0,0 +1,30 @@
+import { parseFilterDate } from "./parse-filter-date";
+
+describe("parseFilterDate", () => {
+  const referenceDate = new Date("2024-01-10T12:00:00.000Z");
+
+  it("returns the reference date for now", () => {
+    expect(parseFilterDate("now", referenceDate)).toEqual(referenceDate);
+  });
+
+  it.each([
+    { input: "now-6h", expected: "2024-01-10T06:00:00.000Z" },
+    { input: "now - 30m", expected: "2024-01-10T11:30:00.000Z" },
+    { input: "now-2d", expected: "2024-01-08T12:00:00.000Z" },
+    { input: "now+1w", expected: "2024-01-17T12:00:00.000Z" },
+  ])("parses relative date $input", ({ input, expected }) => {
+    expect(parseFilterDate(input, referenceDate)?.toISOString()).toEqual(
+      expected
+    );
+  });
+
+  it("parses absolute dates", () => {
+    expect(parseFilterDate("2024-01-01T00:00:00Z")?.toISOString()).toEqual(
+      "2024-01-01T00:00:00.000Z"
+    );
+  });
+
+  it.each(["", "now-6y", "not a date"])("returns null for %s", (input) => {
+    expect(parseFilterDate(input, referenceDate)).toBeNull();
+  });
+});
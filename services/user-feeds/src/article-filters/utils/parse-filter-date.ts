@@ -0,0 +1,53 @@
+import dayjs from "dayjs";
+
+const RELATIVE_DATE_REGEX = /^now(?:\s*([+-])\s*(\d+)\s*([smhdw]))?$/i;
+
+const RELATIVE_DATE_UNITS = {
+  s: "second",
+  m: "minute",
+  h: "hour",
+  d: "day",
+  w: "week",
+} as const;
+
+/**
+ * Parses either an absolute date, or a date relative to the reference date in the form of
+ * "now", "now-6h", "now+1d" etc. Returns null if the input is not a valid date.
+ */
+export const parseFilterDate = (
+  input: string,
+  referenceDate = new Date()
+): Date | null => {
+  const trimmed = input.trim();
+  const relativeMatch = trimmed.match(RELATIVE_DATE_REGEX);
+
+  if (relativeMatch) {
+    const [, sign, amount, unit] = relativeMatch;
+    const reference = dayjs(referenceDate);
+
+    if (!sign) {
+      return reference.toDate();
+    }
+
+    const dayjsUnit =
+      RELATIVE_DATE_UNITS[
+        unit.toLowerCase() as keyof typeof RELATIVE_DATE_UNITS
+      ];
+
+    return sign === "-"
+      ? reference.subtract(Number(amount), dayjsUnit).toDate()
+      : reference.add(Number(amount), dayjsUnit).toDate();
+  }
+
+  if (!trimmed) {
+    return null;
+  }
+
+  const parsed = dayjs(trimmed);
+
+  if (!parsed.isValid()) {
+    return null;
+  }
+
+  return parsed.toDate();
+};
@@ -0,0 +1,19 @@
+/**
+ * Parses numbers that may be formatted with thousands separators, such as "1,000". Returns null
+ * if the input is not a valid number.
+ */
+export const parseFilterNumber = (input: string): number | null => {
+  const normalized = input.trim().replace(/,/g, "");
+
+  if (!normalized) {
+    return null;
+  }
+
+  const parsed = Number(normalized);
+
+  if (!Number.isFinite(parsed)) {
+    return null;
+  }
+
+  return parsed;
+};
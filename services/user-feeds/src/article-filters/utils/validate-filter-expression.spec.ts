@@ -80,10 +80,91 @@ describe("validateRelationalRight", () => {
     const errors = validateRelationalRight(right);
 
     expect(errors).toEqual([
-      "Expected root.type to be one of STRING but got notStringOrRegExp",
+      "Expected root.type to be one of STRING,NUMBER,DATE,LIST but got notStringOrRegExp",
     ]);
   });
 
+  describe("NUMBER type", () => {
+    it("should return an error if value is not a numeric string", () => {
+      const right = {
+        type: RelationalExpressionRight.Number,
+        value: "abc",
+      };
+
+      const errors = validateRelationalRight(right);
+
+      expect(errors).toEqual([
+        "Expected root.value to be a numeric string but got abc",
+      ]);
+    });
+
+    it("should return an empty array if value is a numeric string", () => {
+      const right = {
+        type: RelationalExpressionRight.Number,
+        value: "1,000.5",
+      };
+
+      const errors = validateRelationalRight(right);
+
+      expect(errors).toEqual([]);
+    });
+  });
+
+  describe("DATE type", () => {
+    it("should return an error if value is not a date string", () => {
+      const right = {
+        type: RelationalExpressionRight.Date,
+        value: "yesterday-ish",
+      };
+
+      const errors = validateRelationalRight(right);
+
+      expect(errors).toEqual([
+        "Expected root.value to be a date string but got yesterday-ish",
+      ]);
+    });
+
+    it.each(["2024-01-01T00:00:00Z", "now", "now-6h"])(
+      "should return an empty array if value is %s",
+      (value) => {
+        const right = {
+          type: RelationalExpressionRight.Date,
+          value,
+        };
+
+        const errors = validateRelationalRight(right);
+
+        expect(errors).toEqual([]);
+      }
+    );
+  });
+
+  describe("LIST type", () => {
+    it("should return an error if value is not an array of strings", () => {
+      const right = {
+        type: RelationalExpressionRight.List,
+        value: ["a", 1],
+      };
+
+      const errors = validateRelationalRight(right);
+
+      expect(errors).toEqual([
+        "Expected root.value to be an array of strings but got a,1",
+      ]);
+    });
+
+    it("should return an error if value is empty", () => {
+      const right = {
+        type: RelationalExpressionRight.List,
+        value: [],
+      };
+
+      const errors = validateRelationalRight(right);
+
+      expect(errors).toEqual(["Expected root.value to have at least one item"]);
+    });
+  });
+
   describe("STRING type", () => {
     it("should return an error if value is not a string", () => {
       const right = {
@@ -230,6 +311,27 @@ describe("validateRelationalExpression", () => {
     ]);
   });
 
+  it("should return an error if op is not supported by the right type", () => {
+    const expression = {
+      type: ExpressionType.Relational,
+      left: {
+        type: RelationalExpressionLeft.Article,
+        value: "value",
+      },
+      op: RelationalExpressionOperator.Gt,
+      right: {
+        type: RelationalExpressionRight.String,
+        value: "value",
+      },
+    };
+
+    const errors = validateRelationalExpression(expression);
+
+    expect(errors).toEqual([
+      "Expected root.op to be one of EQ,CONTAINS,MATCHES for right type STRING but got GT",
+    ]);
+  });
+
   it("should return an empty array if expression is valid", () => {
     const expression = {
       type: ExpressionType.Relational,
@@ -6,6 +6,33 @@ import {
   RelationalExpressionOperator,
   RelationalExpressionRight,
 } from "../types";
+import { parseFilterDate } from "./parse-filter-date";
+import { parseFilterNumber } from "./parse-filter-number";
+
+const OPERATORS_BY_RIGHT_TYPE: Record<
+  RelationalExpressionRight,
+  RelationalExpressionOperator[]
+> = {
+  [RelationalExpressionRight.String]: [
+    RelationalExpressionOperator.Eq,
+    RelationalExpressionOperator.Contains,
+    RelationalExpressionOperator.Matches,
+  ],
+  [RelationalExpressionRight.Number]: [
+    RelationalExpressionOperator.Eq,
+    RelationalExpressionOperator.Gt,
+    RelationalExpressionOperator.Gte,
+    RelationalExpressionOperator.Lt,
+    RelationalExpressionOperator.Lte,
+  ],
+  [RelationalExpressionRight.Date]: [
+    RelationalExpressionOperator.Gt,
+    RelationalExpressionOperator.Gte,
+    RelationalExpressionOperator.Lt,
+    RelationalExpressionOperator.Lte,
+  ],
+  [RelationalExpressionRight.List]: [RelationalExpressionOperator.InList],
+};
 
 export function validateRelationalLeft(
   left: Record<string, any>,
@@ -46,6 +73,37 @@ export function validateRelationalRight(
         `Expected ${currentPath}value to be a string but got ${right.value}`,
       ];
     }
+  } else if (right.type === RelationalExpressionRight.Number) {
+    if (
+      typeof right.value !== "string" ||
+      parseFilterNumber(right.value) === null
+    ) {
+      return [
+        `Expected ${currentPath}value to be a numeric string but got ${right.value}`,
+      ];
+    }
+  } else if (right.type === RelationalExpressionRight.Date) {
+    if (
+      typeof right.value !== "string" ||
+      parseFilterDate(right.value) === null
+    ) {
+      return [
+        `Expected ${currentPath}value to be a date string but got ${right.value}`,
+      ];
+    }
+  } else if (right.type === RelationalExpressionRight.List) {
+    if (
+      !Array.isArray(right.value) ||
+      right.value.some((item) => typeof item !== "string")
+    ) {
+      return [
+        `Expected ${currentPath}value to be an array of strings but got ${right.value}`,
+      ];
+    }
+
+    if (!right.value.length) {
+      return [`Expected ${currentPath}value to have at least one item`];
+    }
   } else {
     return [
       `Expected ${currentPath}type to be one of ${Object.values(
@@ -102,7 +160,22 @@ export function validateRelationalExpression(
     `${currentPath}right.`
   );
 
-  return [...leftErrors, ...rightErrors];
+  if (rightErrors.length) {
+    return [...leftErrors, ...rightErrors];
+  }
+
+  const allowedOperators =
+    OPERATORS_BY_RIGHT_TYPE[right.type as RelationalExpressionRight];
+
+  if (!allowedOperators.includes(op)) {
+    return [
+      ...leftErrors,
+      `Expected ${currentPath}op to be one of ${allowedOperators} for right` +
+        ` type ${right.type} but got ${op}`,
+    ];
+  }
+
+  return leftErrors;
 }
 
 export function validateLogicalExpression(
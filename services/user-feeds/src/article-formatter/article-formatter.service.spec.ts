@@ -522,6 +522,68 @@ Centro comercial Moctezuma   Francisco Chang   Mexico
     });
   });
 
+  describe("formatValueForSlack", () => {
+    it("formats links with the slack syntax", () => {
+      const value = 'Say <a href="https://example.com">Hello World</a> to me';
+
+      const result = service.formatValueForSlack(value);
+
+      expect(result.value).toEqual(
+        "Say <https://example.com|Hello World> to me"
+      );
+    });
+
+    it("does not add link text if the href is the same as the text", () => {
+      const value =
+        'Say <a href="https://example.com">https://example.com</a> to me';
+
+      const result = service.formatValueForSlack(value);
+
+      expect(result.value).toEqual("Say <https://example.com> to me");
+    });
+
+    it("formats bold, italic and strikethrough text", () => {
+      const value = "<strong>bold</strong> <em>italic</em> <s>strike</s>";
+
+      const result = service.formatValueForSlack(value);
+
+      expect(result.value).toEqual("*bold* _italic_ ~strike~");
+    });
+
+    it("excludes images if strip images is true", () => {
+      const value = 'hello <img src="https://example.com/image.png" /> world';
+
+      const result = service.formatValueForSlack(value, {
+        stripImages: true,
+        formatTables: false,
+        disableImageLinkPreviews: false,
+        customPlaceholders: [],
+      });
+
+      expect(result.value).toEqual("hello world");
+    });
+  });
+
+  describe("formatValueForMatrix", () => {
+    it("removes markup", () => {
+      const value = "<strong>bold</strong> and <em>italic</em>";
+
+      const result = service.formatValueForMatrix(value);
+
+      expect(result.value).toEqual("bold and italic");
+    });
+
+    it("includes the link after the text", () => {
+      const value = 'Say <a href="https://example.com">Hello World</a> to me';
+
+      const result = service.formatValueForMatrix(value);
+
+      expect(result.value).toEqual(
+        "Say Hello World (https://example.com) to me"
+      );
+    });
+  });
+
   describe("applySplit", () => {
     it("does not apply split if split is not enabled", () => {
       const result = service.applySplit("hello world", {
@@ -22,13 +22,50 @@ export class ArticleFormatterService {
   ): Promise<{
     article: ArticleDiscordFormatted;
     customPlaceholderPreviews: Array<Array<string>>;
+  }> {
+    return this.formatArticle(article, options, (value) =>
+      this.formatValueForDiscord(value, options)
+    );
+  }
+
+  async formatArticleForSlack(
+    article: Article,
+    options: Omit<FormatOptions, "split">
+  ): Promise<{
+    article: Article;
+    customPlaceholderPreviews: Array<Array<string>>;
+  }> {
+    return this.formatArticle(article, options, (value) =>
+      this.formatValueForSlack(value, options)
+    );
+  }
+
+  async formatArticleForMatrix(
+    article: Article,
+    options: Omit<FormatOptions, "split">
+  ): Promise<{
+    article: Article;
+    customPlaceholderPreviews: Array<Array<string>>;
+  }> {
+    return this.formatArticle(article, options, (value) =>
+      this.formatValueForMatrix(value, options)
+    );
+  }
+
+  private async formatArticle(
+    article: Article,
+    options: Omit<FormatOptions, "split">,
+    formatValue: (value: string) => { value: string }
+  ): Promise<{
+    article: Article;
+    customPlaceholderPreviews: Array<Array<string>>;
   }> {
     const flattened: Article["flattened"] = {
       ...article.flattened,
     };
 
     Object.keys(flattened).map((key) => {
-      const { value } = this.formatValueForDiscord(flattened[key], options);
+      const { value } = formatValue(flattened[key]);
 
       flattened[key] = value;
     });
@@ -382,6 +419,191 @@ export class ArticleFormatterService {
     };
   }
 
+  /**
+   * Slack uses its own "mrkdwn" syntax, where links are written as <url|text> and single
+   * asterisks denote bold text.
+   */
+  formatValueForSlack(
+    value: string,
+    options?: Omit<FormatOptions, "split">
+  ): { value: string } {
+    const imageSelector: SelectorDefinition = {
+      selector: "img",
+      format: "images",
+    };
+
+    const htmlToTextOptions: HtmlToTextOptions = {
+      wordwrap: false,
+      formatters: {
+        wrapInline: (elem, walk, builder, formatOptions) => {
+          const wrapper = formatOptions.wrapper as string;
+
+          builder.addLiteral(wrapper);
+          walk(elem.children, builder);
+          builder.addLiteral(wrapper);
+        },
+        images: (elem, walk, builder) => {
+          const src = (elem.attribs?.src || "").trim();
+
+          if (src) {
+            builder.addInline(src);
+          }
+        },
+        anchors: (elem, walk, builder, formatOptions) => {
+          const href = elem.attribs?.href;
+
+          if (!href) {
+            walk(elem.children, builder);
+
+            return;
+          }
+
+          if (
+            elem.children.length === 1 &&
+            elem.children[0].type === "text" &&
+            elem.children[0].data !== href
+          ) {
+            builder.addLiteral(`<${href}|`);
+            walk(elem.children, builder);
+            builder.addLiteral(">");
+          } else if (
+            elem.children.length === 1 &&
+            elem.children[0].type === "text"
+          ) {
+            builder.addLiteral(`<${href}>`);
+          } else {
+            builder.options.formatters.anchor?.(
+              elem,
+              walk,
+              builder,
+              formatOptions
+            );
+          }
+        },
+        blockCode: (elem, walk, builder, formatOptions) => {
+          builder.openBlock(formatOptions);
+          builder.addInline("```");
+          walk(elem.children, builder);
+          builder.addInline("```");
+          builder.closeBlock(formatOptions);
+        },
+      },
+      selectors: [
+        imageSelector,
+        {
+          selector: "strong",
+          format: "wrapInline",
+          options: { wrapper: "*" },
+        },
+        {
+          selector: "b",
+          format: "wrapInline",
+          options: { wrapper: "*" },
+        },
+        {
+          selector: "em",
+          format: "wrapInline",
+          options: { wrapper: "_" },
+        },
+        {
+          selector: "i",
+          format: "wrapInline",
+          options: { wrapper: "_" },
+        },
+        {
+          selector: "s",
+          format: "wrapInline",
+          options: { wrapper: "~" },
+        },
+        {
+          selector: "code",
+          format: "wrapInline",
+          options: { wrapper: "`" },
+        },
+        {
+          selector: "a",
+          format: "anchors",
+          options: { ignoreHref: true },
+        },
+        {
+          selector: "ul",
+          options: { itemPrefix: "• " },
+        },
+        {
+          selector: "pre",
+          format: "blockCode",
+        },
+      ],
+    };
+
+    if (options?.formatTables) {
+      htmlToTextOptions.selectors?.push({
+        selector: "table",
+        format: "dataTable",
+        options: {
+          maxColumnWidth: 60,
+        },
+      });
+    }
+
+    if (options?.stripImages) {
+      imageSelector.format = "skip";
+    }
+
+    return {
+      value: convert(value, htmlToTextOptions).trim(),
+    };
+  }
+
+  /**
+   * Matrix messages are delivered as plain text bodies, so all markup is removed.
+   */
+  formatValueForMatrix(
+    value: string,
+    options?: Omit<FormatOptions, "split">
+  ): { value: string } {
+    const htmlToTextOptions: HtmlToTextOptions = {
+      wordwrap: false,
+      selectors: [
+        {
+          selector: "img",
+          format: options?.stripImages ? "skip" : "image",
+          options: { linkBrackets: false },
+        },
+        {
+          selector: "a",
+          options: { linkBrackets: ["(", ")"], hideLinkHrefIfSameAsText: true },
+        },
+        {
+          selector: "h1",
+          options: { uppercase: false },
+        },
+        {
+          selector: "h2",
+          options: { uppercase: false },
+        },
+        {
+          selector: "h3",
+          options: { uppercase: false },
+        },
+      ],
+    };
+
+    if (options?.formatTables) {
+      htmlToTextOptions.selectors?.push({
+        selector: "table",
+        format: "dataTable",
+        options: {
+          maxColumnWidth: 60,
+        },
+      });
+    }
+
+    return {
+      value: convert(value, htmlToTextOptions).trim(),
+    };
+  }
+
   applySplit(
     text: string,
     splitOptions?: FormatOptions["split"] & {
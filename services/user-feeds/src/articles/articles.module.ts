@@ -3,13 +3,21 @@ import { Module } from "@nestjs/common";
 import { ArticleParserModule } from "../article-parser/article-parser.module";
 import { FeedFetcherModule } from "../feed-fetcher/feed-fetcher.module";
 import { ArticlesService } from "./articles.service";
-import { FeedArticleCustomComparison, FeedArticleField } from "./entities";
+import {
+  FeedArticleContent,
+  FeedArticleCustomComparison,
+  FeedArticleField,
+} from "./entities";
 
 @Module({
   controllers: [],
   providers: [ArticlesService],
   imports: [
-    MikroOrmModule.forFeature([FeedArticleField, FeedArticleCustomComparison]),
+    MikroOrmModule.forFeature([
+      FeedArticleField,
+      FeedArticleCustomComparison,
+      FeedArticleContent,
+    ]),
     ArticleParserModule,
     FeedFetcherModule,
   ],
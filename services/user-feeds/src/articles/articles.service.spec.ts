@@ -4,7 +4,11 @@ import {
   teardownIntegrationTests,
 } from "../shared/utils/setup-integration-tests";
 import { ArticlesService } from "./articles.service";
-import { FeedArticleCustomComparison, FeedArticleField } from "./entities";
+import {
+  FeedArticleContent,
+  FeedArticleCustomComparison,
+  FeedArticleField,
+} from "./entities";
 import { EntityManager, EntityRepository } from "@mikro-orm/core";
 import { randomUUID } from "crypto";
 import { readFileSync } from "fs";
@@ -54,7 +58,11 @@ describe("ArticlesService", () => {
         ],
       },
       {
-        models: [FeedArticleField, FeedArticleCustomComparison],
+        models: [
+          FeedArticleField,
+          FeedArticleCustomComparison,
+          FeedArticleContent,
+        ],
       }
     );
 
@@ -328,6 +336,91 @@ describe("ArticlesService", () => {
     });
   });
 
+  describe("getUpdatedArticles", () => {
+    const createArticle = (flattened: Record<string, string>): Article => ({
+      flattened: {
+        id: "1",
+        idHash: "hash-1",
+        ...flattened,
+      },
+      raw: {} as never,
+      injectArticleContent: async () => undefined,
+    });
+
+    it("does not return articles that were not seen before", async () => {
+      const result = await service.getUpdatedArticles(
+        feedId,
+        [createArticle({ title: "Outage" })],
+        ["title"]
+      );
+
+      expect(result).toHaveLength(0);
+    });
+
+    it("does not return articles whose tracked fields did not change", async () => {
+      await service.getUpdatedArticles(
+        feedId,
+        [createArticle({ title: "Outage", description: "a" })],
+        ["title"]
+      );
+
+      const result = await service.getUpdatedArticles(
+        feedId,
+        [createArticle({ title: "Outage", description: "b" })],
+        ["title"]
+      );
+
+      expect(result).toHaveLength(0);
+    });
+
+    it("returns articles whose tracked fields changed", async () => {
+      await service.getUpdatedArticles(
+        feedId,
+        [createArticle({ title: "Outage" })],
+        ["title"]
+      );
+
+      const result = await service.getUpdatedArticles(
+        feedId,
+        [createArticle({ title: "Resolved" })],
+        ["title"]
+      );
+
+      expect(result).toHaveLength(1);
+      expect(result[0].update).toEqual({
+        previousContent: {
+          title: "Outage",
+        },
+        changedFields: ["title"],
+      });
+      expect(result[0].flattened["updated::fields"]).toEqual("title");
+      expect(result[0].flattened["updated::diff"]).toEqual(
+        "title:\n- Outage\n+ Resolved"
+      );
+    });
+
+    it("only returns an update once per change", async () => {
+      await service.getUpdatedArticles(
+        feedId,
+        [createArticle({ title: "Outage" })],
+        ["title"]
+      );
+      await service.getUpdatedArticles(
+        feedId,
+        [createArticle({ title: "Resolved" })],
+        ["title"]
+      );
+
+      const result = await service.getUpdatedArticles(
+        feedId,
+        [createArticle({ title: "Resolved" })],
+        ["title"]
+      );
+
+      expect(result).toHaveLength(0);
+    });
+  });
+
   describe("hasPriorArticlesStored", () => {
     it("returns true correctly", async () => {
       const feedId = randomUUID();
@@ -356,6 +449,7 @@ describe("ArticlesService", () => {
         dateFormat: undefined,
         dateTimezone: undefined,
         disableImageLinkPreviews: undefined,
+        dateLocale: undefined,
       },
       useParserRules: [],
     };
@@ -385,6 +479,47 @@ describe("ArticlesService", () => {
         service.getArticlesFromXml(invalidFeed, options)
       ).rejects.toThrow(InvalidFeedException);
     });
+
+    it("returns the articles of a json feed", async () => {
+      const jsonFeed = JSON.stringify({
+        version: "https://jsonfeed.org/version/1.1",
+        title: "feed",
+        items: [
+          { id: "1", title: "first" },
+          { id: "2", title: "second" },
+        ],
+      });
+
+      const result = await service.getArticlesFromXml(jsonFeed, options);
+
+      expect(result.articles.map(({ flattened }) => flattened.id)).toEqual([
+        "1",
+        "2",
+      ]);
+    });
+
+    it("returns the articles of a json api at the items path", async () => {
+      const json = JSON.stringify({
+        data: {
+          posts: [{ id: 1 }, { id: 2 }],
+        },
+      });
+
+      const result = await service.getArticlesFromXml(json, {
+        ...options,
+        jsonOptions: {
+          itemsPath: "data.posts",
+        },
+      });
+
+      expect(result.articles).toHaveLength(2);
+    });
+
+    it("rejects if a json body has no items", async () => {
+      await expect(
+        service.getArticlesFromXml(JSON.stringify({ foo: "bar" }), options)
+      ).rejects.toThrow(InvalidFeedException);
+    });
   });
 
   describe("storeArticles", () => {
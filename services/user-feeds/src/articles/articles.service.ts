@@ -1,9 +1,20 @@
 import { InjectRepository } from "@mikro-orm/nestjs";
 import { EntityRepository } from "@mikro-orm/postgresql";
 import { Injectable } from "@nestjs/common";
-import { FeedArticleCustomComparison, FeedArticleField } from "./entities";
+import {
+  FeedArticleContent,
+  FeedArticleCustomComparison,
+  FeedArticleField,
+} from "./entities";
 import FeedParser, { Item } from "feedparser";
-import { ArticleIDResolver } from "./utils";
+import {
+  ArticleIDResolver,
+  getArticleContentDiff,
+  getArticleIdFromOptions,
+  getRawArticlesFromHtml,
+  getRawArticlesFromJson,
+  isJsonFeedBody,
+} from "./utils";
 import { FeedParseTimeoutException, InvalidFeedException } from "./exceptions";
 import { getNestedPrimitiveValue } from "./utils/get-nested-primitive-value";
 import {
@@ -11,11 +22,20 @@ import {
   MikroORM,
   UniqueConstraintViolationException,
 } from "@mikro-orm/core";
-import { Article, UserFeedFormatOptions } from "../shared/types";
+import {
+  Article,
+  FeedRequestLookupDetails,
+  UserFeedArticleIdOptions,
+  UserFeedEditTrackingOptions,
+  UserFeedFormatOptions,
+  UserFeedHtmlScrapeOptions,
+  UserFeedJsonOptions,
+} from "../shared/types";
 import { ArticleParserService } from "../article-parser/article-parser.service";
 import { UserFeedDateCheckOptions } from "../shared/types/user-feed-date-check-options.type";
 import dayjs from "dayjs";
 import logger from "../shared/utils/logger";
+import { feedParseDurationHistogram } from "../metrics";
 import { PostProcessParserRule } from "../article-parser/constants";
 import { createHash } from "crypto";
 import { FeedFetcherService } from "../feed-fetcher/feed-fetcher.service";
@@ -34,6 +54,10 @@ interface FetchFeedArticleOptions {
       cssSelector: string; // run it through parsers service, and then discord formatter
     }>;
   }>;
+  jsonOptions?: UserFeedJsonOptions | null;
+  htmlScrapeOptions?: UserFeedHtmlScrapeOptions | null;
+  articleIdOptions?: UserFeedArticleIdOptions | null;
+  requestLookupDetails?: FeedRequestLookupDetails | null;
 }
 
 @Injectable()
@@ -43,6 +67,8 @@ export class ArticlesService {
     private readonly articleFieldRepo: EntityRepository<FeedArticleField>,
     @InjectRepository(FeedArticleCustomComparison)
     private readonly articleCustomComparisonRepo: EntityRepository<FeedArticleCustomComparison>,
+    @InjectRepository(FeedArticleContent)
+    private readonly articleContentRepo: EntityRepository<FeedArticleContent>,
     private readonly articleParserService: ArticleParserService,
     private readonly orm: MikroORM,
     private readonly feedFetcherService: FeedFetcherService
@@ -50,10 +76,18 @@ export class ArticlesService {
 
   async fetchFeedArticles(
     url: string,
-    { formatOptions, articleInjections }: FetchFeedArticleOptions
+    {
+      formatOptions,
+      articleInjections,
+      jsonOptions,
+      htmlScrapeOptions,
+      articleIdOptions,
+      requestLookupDetails,
+    }: FetchFeedArticleOptions
   ) {
     const response = await this.feedFetcherService.fetch(url, {
       executeFetchIfNotInCache: true,
+      lookupDetails: requestLookupDetails,
     });
 
     if (!response.body) {
@@ -64,17 +98,32 @@ export class ArticlesService {
       formatOptions,
       useParserRules: getParserRules({ url }),
       articleInjections,
+      jsonOptions,
+      htmlScrapeOptions,
+      articleIdOptions,
+      url,
     });
   }
 
   async fetchFeedArticle(
     url: string,
     id: string,
-    { formatOptions, articleInjections }: FetchFeedArticleOptions
+    {
+      formatOptions,
+      articleInjections,
+      jsonOptions,
+      htmlScrapeOptions,
+      articleIdOptions,
+      requestLookupDetails,
+    }: FetchFeedArticleOptions
   ) {
     const result = await this.fetchFeedArticles(url, {
       formatOptions,
       articleInjections,
+      jsonOptions,
+      htmlScrapeOptions,
+      articleIdOptions,
+      requestLookupDetails,
     });
 
     if (!result) {
@@ -98,12 +147,39 @@ export class ArticlesService {
     return article;
   }
 
+  async fetchFeedArticleByIdHash(
+    url: string,
+    idHash: string,
+    options: FetchFeedArticleOptions
+  ) {
+    const result = await this.fetchFeedArticles(url, options);
+
+    if (!result) {
+      throw new Error(`Request for ${url} is still pending`);
+    }
+
+    return (
+      result.articles.find((article) => article.flattened.idHash === idHash) ||
+      null
+    );
+  }
+
   async fetchRandomFeedArticle(
     url: string,
-    { formatOptions }: FetchFeedArticleOptions
+    {
+      formatOptions,
+      jsonOptions,
+      htmlScrapeOptions,
+      articleIdOptions,
+      requestLookupDetails,
+    }: FetchFeedArticleOptions
   ) {
     const result = await this.fetchFeedArticles(url, {
       formatOptions,
+      jsonOptions,
+      htmlScrapeOptions,
+      articleIdOptions,
+      requestLookupDetails,
     });
 
     if (!result) {
@@ -133,6 +209,11 @@ export class ArticlesService {
       debug,
       useParserRules,
       articleInjections,
+      jsonOptions,
+      htmlScrapeOptions,
+      url,
+      editTracking,
+      articleIdOptions,
     }: {
       id: string;
       blockingComparisons: string[];
@@ -142,13 +223,32 @@ export class ArticlesService {
       debug?: boolean;
       useParserRules: PostProcessParserRule[] | undefined;
       articleInjections?: ArticleInjection[];
+      jsonOptions?: UserFeedJsonOptions | null;
+      htmlScrapeOptions?: UserFeedHtmlScrapeOptions | null;
+      url?: string;
+      editTracking?: UserFeedEditTrackingOptions | null;
+      articleIdOptions?: UserFeedArticleIdOptions | null;
     }
   ) {
-    const { articles } = await this.getArticlesFromXml(feedXml, {
-      formatOptions,
-      useParserRules,
-      articleInjections,
-    });
+    const endParseTimer = feedParseDurationHistogram.startTimer();
+    let articles: Article[];
+
+    try {
+      ({ articles } = await this.getArticlesFromXml(feedXml, {
+        formatOptions,
+        useParserRules,
+        articleInjections,
+        jsonOptions,
+        htmlScrapeOptions,
+        articleIdOptions,
+        url,
+      }));
+      endParseTimer({ result: "success" });
+    } catch (err) {
+      endParseTimer({ result: "error" });
+
+      throw err;
+    }
 
     logger.debug(`Found articles:`, {
       titles: articles.map((a) => a.raw.title),
@@ -169,6 +269,11 @@ export class ArticlesService {
     }
 
     const priorArticlesStored = await this.hasPriorArticlesStored(id);
+    const updatedArticles = await this.getUpdatedArticles(
+      id,
+      articles,
+      editTracking?.fields || []
+    );
 
     if (!priorArticlesStored) {
       await this.storeArticles(id, articles, {
@@ -257,10 +362,23 @@ export class ArticlesService {
       ...articlesPassedComparisons,
     ].reverse();
 
-    const articlesPostDateCheck = this.filterArticlesBasedOnDateChecks(
-      articlesPreCheck,
-      dateChecks
-    );
+    /**
+     * Updated articles were already delivered once, so they are exempt from date checks. Articles
+     * that are already being delivered again due to passing comparisons are not duplicated.
+     */
+    const articlesToUpdate = updatedArticles
+      .filter(
+        (article) =>
+          !articlesPreCheck.find(
+            (a) => a.flattened.idHash === article.flattened.idHash
+          )
+      )
+      .reverse();
+
+    const articlesPostDateCheck = [
+      ...this.filterArticlesBasedOnDateChecks(articlesPreCheck, dateChecks),
+      ...articlesToUpdate,
+    ];
 
     if (debug) {
       logger.datadog(
@@ -318,6 +436,92 @@ export class ArticlesService {
     });
   }
 
+  /**
+   * Compare the edit-tracked fields of articles against their stored snapshots. Articles without
+   * a snapshot have one stored, and articles whose fields have changed are returned with the
+   * update details and the "updated::" placeholders so that they can be delivered again.
+   */
+  async getUpdatedArticles(
+    feedId: string,
+    articles: Article[],
+    fields: string[]
+  ): Promise<Article[]> {
+    if (!articles.length || !fields.length) {
+      return [];
+    }
+
+    const storedContents = await this.articleContentRepo.find({
+      feed_id: feedId,
+      article_id_hash: {
+        $in: articles.map((article) => article.flattened.idHash),
+      },
+    });
+
+    const updatedArticles: Article[] = [];
+
+    articles.forEach((article) => {
+      const content = fields.reduce<Record<string, string>>((acc, field) => {
+        acc[field] = getNestedPrimitiveValue(article.flattened, field) || "";
+
+        return acc;
+      }, {});
+      const contentHash = sha1
+        .copy()
+        .update(JSON.stringify(content))
+        .digest("hex");
+
+      const storedContent = storedContents.find(
+        (c) => c.article_id_hash === article.flattened.idHash
+      );
+
+      if (!storedContent) {
+        this.articleContentRepo.persist(
+          new FeedArticleContent({
+            feed_id: feedId,
+            article_id_hash: article.flattened.idHash,
+            content_hash: contentHash,
+            content,
+          })
+        );
+
+        return;
+      }
+
+      if (storedContent.content_hash === contentHash) {
+        return;
+      }
+
+      const changedFields = fields.filter(
+        (field) => (storedContent.content[field] || "") !== content[field]
+      );
+
+      updatedArticles.push({
+        ...article,
+        flattened: {
+          ...article.flattened,
+          "updated::fields": changedFields.join(", "),
+          "updated::diff": getArticleContentDiff(
+            storedContent.content,
+            content,
+            changedFields
+          ),
+        },
+        update: {
+          previousContent: storedContent.content,
+          changedFields,
+        },
+      });
+
+      storedContent.content = content;
+      storedContent.content_hash = contentHash;
+      storedContent.updated_at = new Date();
+    });
+
+    await this.articleContentRepo.flush();
+
+    return updatedArticles;
+  }
+
   async hasPriorArticlesStored(feedId: string) {
     const result = await this.articleFieldRepo.findOne(
       {
@@ -332,6 +536,22 @@ export class ArticlesService {
     return !!result;
   }
 
+  async getLatestStoredArticleDate(feedId: string): Promise<Date | null> {
+    const result = await this.articleFieldRepo.findOne(
+      {
+        feed_id: feedId,
+      },
+      {
+        fields: ["created_at"],
+        orderBy: {
+          created_at: "DESC",
+        },
+      }
+    );
+
+    return result?.created_at || null;
+  }
+
   async storeArticles(
     feedId: string,
     articles: Article[],
@@ -540,10 +760,25 @@ export class ArticlesService {
       formatOptions: UserFeedFormatOptions;
       useParserRules: PostProcessParserRule[] | undefined;
       articleInjections?: Array<ArticleInjection>;
+      jsonOptions?: UserFeedJsonOptions | null;
+      htmlScrapeOptions?: UserFeedHtmlScrapeOptions | null;
+      articleIdOptions?: UserFeedArticleIdOptions | null;
+      /**
+       * The URL the body was fetched from, used to resolve relative links of scraped pages
+       */
+      url?: string;
     }
   ): Promise<{
     articles: Article[];
   }> {
+    if (options.htmlScrapeOptions) {
+      return this.getArticlesFromHtml(xml, options.htmlScrapeOptions, options);
+    }
+
+    if (isJsonFeedBody(xml)) {
+      return this.getArticlesFromJson(xml, options);
+    }
+
     const feedparser = new FeedParser({});
     const idResolver = new ArticleIDResolver();
     const rawArticles: FeedParser.Item[] = [];
@@ -582,78 +817,169 @@ export class ArticlesService {
       feedparser.on("end", async () => {
         clearTimeout(timeout);
 
-        if (rawArticles.length === 0) {
-          return resolve({ articles: [] });
+        try {
+          resolve({
+            articles: await this.mapRawArticles(
+              rawArticles,
+              idResolver,
+              options
+            ),
+          });
+        } catch (err) {
+          reject(err);
         }
+      });
+    });
 
-        clearTimeout(timeout);
-        const idType = idResolver.getIDType();
+    feedparser.write(xml);
+    feedparser.end();
 
-        if (!idType) {
-          return reject(
-            new Error("No ID type found when parsing articles for feed")
-          );
-        }
+    return promise;
+  }
 
-        const mappedArticles: Article[] = await Promise.all(
-          rawArticles.map(async (rawArticle) => {
-            const id = ArticleIDResolver.getIDTypeValue(
-              rawArticle as never,
-              idType
-            );
-
-            const { flattened, injectArticleContent } =
-              await this.articleParserService.flatten(rawArticle as never, {
-                formatOptions: options.formatOptions,
-                useParserRules: options.useParserRules,
-                articleInjections: options.articleInjections,
-              });
-
-            return {
-              flattened: {
-                ...flattened,
-                id,
-                idHash: sha1.copy().update(id).digest("hex"),
-              },
-              raw: rawArticle,
-              injectArticleContent,
-            };
-          })
-        );
+  /**
+   * Parse JSON Feed documents and arbitrary JSON APIs into the same article shape as XML feeds.
+   */
+  private async getArticlesFromJson(
+    json: string,
+    options: {
+      formatOptions: UserFeedFormatOptions;
+      useParserRules: PostProcessParserRule[] | undefined;
+      articleInjections?: Array<ArticleInjection>;
+      jsonOptions?: UserFeedJsonOptions | null;
+      articleIdOptions?: UserFeedArticleIdOptions | null;
+    }
+  ): Promise<{
+    articles: Article[];
+  }> {
+    const idResolver = new ArticleIDResolver();
+    const rawArticles = getRawArticlesFromJson(json, {
+      itemsPath: options.jsonOptions?.itemsPath,
+    });
 
-        // check for duplicate id hashes
-        const idHashes = new Set<string>();
+    rawArticles.forEach((rawArticle) => idResolver.recordArticle(rawArticle));
 
-        for (const article of mappedArticles) {
-          const idHash = article.flattened.idHash;
+    return {
+      articles: await this.mapRawArticles(
+        rawArticles as never[],
+        idResolver,
+        options
+      ),
+    };
+  }
 
-          if (!idHash) {
-            return reject(new Error("Some articles are missing id hash"));
-          }
+  /**
+   * Scrape an HTML page into articles by the CSS selectors of the feed.
+   */
+  private async getArticlesFromHtml(
+    html: string,
+    htmlScrapeOptions: UserFeedHtmlScrapeOptions,
+    options: {
+      formatOptions: UserFeedFormatOptions;
+      useParserRules: PostProcessParserRule[] | undefined;
+      articleInjections?: Array<ArticleInjection>;
+      articleIdOptions?: UserFeedArticleIdOptions | null;
+      url?: string;
+    }
+  ): Promise<{
+    articles: Article[];
+  }> {
+    const idResolver = new ArticleIDResolver();
+    const rawArticles = getRawArticlesFromHtml(
+      html,
+      htmlScrapeOptions,
+      options.url
+    );
 
-          if (idHashes.has(article.flattened.idHash)) {
-            logger.warn(
-              `Feed has duplicate article id hash: ${article.flattened.idHash}`,
-              {
-                id: article.flattened.id,
-                idHash,
-              }
-            );
-          }
+    rawArticles.forEach((rawArticle) => idResolver.recordArticle(rawArticle));
 
-          idHashes.add(article.flattened.idHash);
-        }
+    return {
+      articles: await this.mapRawArticles(
+        rawArticles as never[],
+        idResolver,
+        options
+      ),
+    };
+  }
 
-        resolve({
-          articles: mappedArticles,
-        });
-      });
-    });
+  private async mapRawArticles(
+    rawArticles: FeedParser.Item[],
+    idResolver: ArticleIDResolver,
+    options: {
+      formatOptions: UserFeedFormatOptions;
+      useParserRules: PostProcessParserRule[] | undefined;
+      articleInjections?: Array<ArticleInjection>;
+      articleIdOptions?: UserFeedArticleIdOptions | null;
+    }
+  ): Promise<Article[]> {
+    if (rawArticles.length === 0) {
+      return [];
+    }
 
-    feedparser.write(xml);
-    feedparser.end();
+    const idType = idResolver.getIDType();
 
-    return promise;
+    if (!idType) {
+      throw new Error("No ID type found when parsing articles for feed");
+    }
+
+    const mappedArticles: Article[] = await Promise.all(
+      rawArticles.map(async (rawArticle) => {
+        const resolvedId = ArticleIDResolver.getIDTypeValue(
+          rawArticle as never,
+          idType
+        );
+
+        const { flattened, injectArticleContent } =
+          await this.articleParserService.flatten(rawArticle as never, {
+            formatOptions: options.formatOptions,
+            useParserRules: options.useParserRules,
+            articleInjections: options.articleInjections,
+          });
+
+        const id =
+          (options.articleIdOptions &&
+            getArticleIdFromOptions(options.articleIdOptions, {
+              raw: rawArticle as never,
+              flattened,
+            })) ||
+          resolvedId;
+
+        return {
+          flattened: {
+            ...flattened,
+            id,
+            idHash: sha1.copy().update(id).digest("hex"),
+          },
+          raw: rawArticle,
+          injectArticleContent,
+        };
+      })
+    );
+
+    // check for duplicate id hashes
+    const idHashes = new Set<string>();
+
+    for (const article of mappedArticles) {
+      const idHash = article.flattened.idHash;
+
+      if (!idHash) {
+        throw new Error("Some articles are missing id hash");
+      }
+
+      if (idHashes.has(article.flattened.idHash)) {
+        logger.warn(
+          `Feed has duplicate article id hash: ${article.flattened.idHash}`,
+          {
+            id: article.flattened.id,
+            idHash,
+          }
+        );
+      }
+
+      idHashes.add(article.flattened.idHash);
+    }
+
+    return mappedArticles;
   }
 
   async checkBlockingComparisons(
@@ -753,5 +1079,9 @@ export class ArticlesService {
     await this.articleCustomComparisonRepo.nativeDelete({
       feed_id: feedId,
     });
+
+    await this.articleContentRepo.nativeDelete({
+      feed_id: feedId,
+    });
   }
 }
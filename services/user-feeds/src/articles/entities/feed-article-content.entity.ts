@@ -0,0 +1,39 @@
+import { Entity, Property, PrimaryKey, Unique } from "@mikro-orm/core";
+
+/**
+ * Snapshot of the edit-tracked fields of an article, used to detect changes to articles that
+ * were already seen.
+ */
+@Entity()
+@Unique({
+  properties: ["feed_id", "article_id_hash"],
+  name: "feed_article_content_unique",
+})
+export class FeedArticleContent {
+  @PrimaryKey()
+  id: number;
+
+  @Property()
+  feed_id: string;
+
+  @Property()
+  article_id_hash: string;
+
+  @Property()
+  content_hash: string;
+
+  @Property({
+    type: "json",
+  })
+  content: Record<string, string>;
+
+  @Property()
+  updated_at: Date = new Date();
+
+  constructor(data: Omit<FeedArticleContent, "id" | "updated_at">) {
+    this.feed_id = data.feed_id;
+    this.article_id_hash = data.article_id_hash;
+    this.content_hash = data.content_hash;
+    this.content = data.content;
+  }
+}
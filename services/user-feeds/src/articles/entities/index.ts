@@ -1,2 +1,3 @@
 export * from "./feed-article-custom-comparison.entity";
 export * from "./feed-article-field.entity";
+export * from "./feed-article-content.entity";
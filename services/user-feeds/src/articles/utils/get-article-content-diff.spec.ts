@@ -0,0 +1,49 @@
+import { getArticleContentDiff } from "./get-article-content-diff";
+
+describe("getArticleContentDiff", () => {
+  it("returns removed and added lines of changed fields", () => {
+    const diff = getArticleContentDiff(
+      {
+        title: "Outage",
+        description: "Investigating\nAPI is down",
+      },
+      {
+        title: "Outage",
+        description: "Resolved\nAPI is down",
+      },
+      ["description"]
+    );
+
+    expect(diff).toEqual("description:\n- Investigating\n+ Resolved");
+  });
+
+  it("separates multiple fields with blank lines", () => {
+    const diff = getArticleContentDiff(
+      {
+        title: "Outage",
+        description: "Investigating",
+      },
+      {
+        title: "Resolved outage",
+        description: "Resolved",
+      },
+      ["title", "description"]
+    );
+
+    expect(diff).toEqual(
+      "title:\n- Outage\n+ Resolved outage\n\ndescription:\n- Investigating\n+ Resolved"
+    );
+  });
+
+  it("handles fields that did not previously exist", () => {
+    const diff = getArticleContentDiff(
+      {},
+      {
+        description: "New content",
+      },
+      ["description"]
+    );
+
+    expect(diff).toEqual("description:\n+ New content");
+  });
+});
@@ -0,0 +1,31 @@
+const getLines = (value?: string) =>
+  (value || "")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => !!line);
+
+/**
+ * Line-based diff of the changed fields of an article, where removed lines are prefixed with "-"
+ * and added lines are prefixed with "+".
+ */
+export const getArticleContentDiff = (
+  previousContent: Record<string, string>,
+  currentContent: Record<string, string>,
+  fields: string[]
+) => {
+  return fields
+    .map((field) => {
+      const previousLines = getLines(previousContent[field]);
+      const currentLines = getLines(currentContent[field]);
+
+      const removedLines = previousLines
+        .filter((line) => !currentLines.includes(line))
+        .map((line) => `- ${line}`);
+      const addedLines = currentLines
+        .filter((line) => !previousLines.includes(line))
+        .map((line) => `+ ${line}`);
+
+      return [`${field}:`, ...removedLines, ...addedLines].join("\n");
+    })
+    .join("\n\n");
+};
@@ -0,0 +1,76 @@
+import { UserFeedArticleIdType } from "../../shared/types";
+import { getArticleIdFromOptions } from "./get-article-id-from-options";
+
+describe("getArticleIdFromOptions", () => {
+  const raw = {
+    guid: "guid-1",
+    title: "Title",
+    link: "https://example.com/post?utm_source=rss",
+    pubdate: new Date("2024-01-01T00:00:00.000Z"),
+    image: {
+      url: "https://example.com/image.png",
+    },
+  };
+  const flattened = {
+    title: "Title",
+    author: "Author",
+    link: "https://example.com/post?utm_source=rss",
+  };
+
+  it("returns the value of a raw field", () => {
+    expect(
+      getArticleIdFromOptions(
+        { type: UserFeedArticleIdType.Field, field: "guid" },
+        { raw, flattened }
+      )
+    ).toEqual("guid-1");
+  });
+
+  it("returns an empty string for missing or non-primitive raw fields", () => {
+    expect(
+      getArticleIdFromOptions(
+        { type: UserFeedArticleIdType.Field, field: "image" },
+        { raw, flattened }
+      )
+    ).toEqual("");
+    expect(
+      getArticleIdFromOptions(
+        { type: UserFeedArticleIdType.Field, field: "missing" },
+        { raw, flattened }
+      )
+    ).toEqual("");
+  });
+
+  it("combines the values of placeholders", () => {
+    expect(
+      getArticleIdFromOptions(
+        {
+          type: UserFeedArticleIdType.Placeholders,
+          placeholders: ["title", "author"],
+        },
+        { raw, flattened }
+      )
+    ).toEqual("TitleAuthor");
+  });
+
+  it("returns an empty string if no placeholders have values", () => {
+    expect(
+      getArticleIdFromOptions(
+        {
+          type: UserFeedArticleIdType.Placeholders,
+          placeholders: ["missing"],
+        },
+        { raw, flattened }
+      )
+    ).toEqual("");
+  });
+
+  it("returns the normalized link", () => {
+    expect(
+      getArticleIdFromOptions(
+        { type: UserFeedArticleIdType.NormalizedLink },
+        { raw, flattened }
+      )
+    ).toEqual("https://example.com/post");
+  });
+});
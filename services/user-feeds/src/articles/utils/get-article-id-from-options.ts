@@ -0,0 +1,50 @@
+import {
+  UserFeedArticleIdOptions,
+  UserFeedArticleIdType,
+} from "../../shared/types";
+import { normalizeArticleLink } from "./normalize-article-link";
+
+/**
+ * Get the ID of an article according to the strategy pinned by the user. Returns an empty string
+ * if the article has no value for the strategy, in which case the automatic ID should be used.
+ */
+export const getArticleIdFromOptions = (
+  options: UserFeedArticleIdOptions,
+  {
+    raw,
+    flattened,
+  }: {
+    raw: Record<string, unknown>;
+    flattened: Record<string, string>;
+  }
+): string => {
+  if (options.type === UserFeedArticleIdType.Field) {
+    if (!options.field) {
+      return "";
+    }
+
+    const value = raw[options.field];
+
+    if (
+      value instanceof Date ||
+      typeof value === "string" ||
+      typeof value === "number"
+    ) {
+      return String(value);
+    }
+
+    return "";
+  }
+
+  if (options.type === UserFeedArticleIdType.Placeholders) {
+    const values = (options.placeholders || []).map(
+      (placeholder) => flattened[placeholder] || ""
+    );
+
+    return values.some((value) => !!value) ? values.join("") : "";
+  }
+
+  return normalizeArticleLink(
+    (raw.link as string | undefined) || flattened.link
+  );
+};
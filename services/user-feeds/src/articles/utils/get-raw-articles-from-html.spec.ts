@@ -0,0 +1,94 @@
+import { InvalidFeedException } from "../exceptions";
+import { getRawArticlesFromHtml } from "./get-raw-articles-from-html";
+
+describe("getRawArticlesFromHtml", () => {
+  const html = `
+    <html>
+      <body>
+        <ul class="changelog">
+          <li class="entry">
+            <h2>Version 2.0</h2>
+            <a class="permalink" href="/changelog/2.0">Read more</a>
+            <time datetime="2024-02-01T00:00:00Z">February 1st</time>
+            <div class="body"><p>Second release</p></div>
+          </li>
+          <li class="entry">
+            <h2>Version 1.0</h2>
+            <a class="permalink" href="https://example.com/changelog/1.0">Read more</a>
+            <time>2024-01-01T00:00:00Z</time>
+          </li>
+        </ul>
+      </body>
+    </html>
+  `;
+
+  it("returns an article for every item", () => {
+    const articles = getRawArticlesFromHtml(
+      html,
+      {
+        itemSelector: ".entry",
+        titleSelector: "h2",
+        linkSelector: ".permalink",
+        dateSelector: "time",
+        descriptionSelector: ".body",
+      },
+      "https://example.com/changelog"
+    );
+
+    expect(articles).toEqual([
+      {
+        guid: "https://example.com/changelog/2.0",
+        title: "Version 2.0",
+        link: "https://example.com/changelog/2.0",
+        description: "<p>Second release</p>",
+        pubdate: new Date("2024-02-01T00:00:00Z"),
+      },
+      {
+        guid: "https://example.com/changelog/1.0",
+        title: "Version 1.0",
+        link: "https://example.com/changelog/1.0",
+        description: undefined,
+        pubdate: new Date("2024-01-01T00:00:00Z"),
+      },
+    ]);
+  });
+
+  it("uses the first anchor and the item text if there are no selectors", () => {
+    const articles = getRawArticlesFromHtml(
+      `<div><a class="item" href="https://example.com/a">A</a></div>`,
+      {
+        itemSelector: ".item",
+      }
+    );
+
+    expect(articles).toEqual([
+      {
+        guid: "https://example.com/a",
+        title: "A",
+        link: "https://example.com/a",
+        description: undefined,
+        pubdate: null,
+      },
+    ]);
+  });
+
+  it("parses pages with stray closing tags", () => {
+    const articles = getRawArticlesFromHtml(
+      `<div><span class="item"><a href="https://example.com/a">A</a></div></span>`,
+      {
+        itemSelector: ".item",
+      }
+    );
+
+    expect(articles).toHaveLength(1);
+    expect(articles[0].link).toEqual("https://example.com/a");
+  });
+
+  it("throws if no items match", () => {
+    expect(() =>
+      getRawArticlesFromHtml(html, {
+        itemSelector: ".does-not-exist",
+      })
+    ).toThrow(InvalidFeedException);
+  });
+});
@@ -0,0 +1,92 @@
+import { HTMLElement, parse } from "node-html-parser";
+import { UserFeedHtmlScrapeOptions } from "../../shared/types";
+import { InvalidFeedException } from "../exceptions";
+
+const getElement = (item: HTMLElement, selector?: string | null) => {
+  if (!selector) {
+    return null;
+  }
+
+  return item.querySelector(selector);
+};
+
+const resolveUrl = (href: string, baseUrl?: string) => {
+  try {
+    return new URL(href, baseUrl).href;
+  } catch (err) {
+    return href;
+  }
+};
+
+const getLink = (
+  item: HTMLElement,
+  options: UserFeedHtmlScrapeOptions,
+  baseUrl?: string
+) => {
+  const linkElement =
+    getElement(item, options.linkSelector) ||
+    (item.tagName === "A" ? item : item.querySelector("a"));
+
+  const href = linkElement?.getAttribute("href")?.trim();
+
+  if (!href) {
+    return undefined;
+  }
+
+  return resolveUrl(href, baseUrl);
+};
+
+const getDate = (item: HTMLElement, selector?: string | null) => {
+  const dateElement = getElement(item, selector);
+
+  if (!dateElement) {
+    return null;
+  }
+
+  const value =
+    dateElement.getAttribute("datetime") || dateElement.textContent.trim();
+  const date = new Date(value);
+
+  if (isNaN(date.getTime())) {
+    return null;
+  }
+
+  return date;
+};
+
+/**
+ * Build feedparser-like raw articles from the elements of an HTML page that match the item
+ * selector. The link is used as the guid since pages rarely have stable IDs of their own.
+ *
+ * Pages are often not strictly valid HTML, so the page is only considered invalid if nothing
+ * matches the item selector.
+ */
+export const getRawArticlesFromHtml = (
+  html: string,
+  options: UserFeedHtmlScrapeOptions,
+  baseUrl?: string
+): Array<Record<string, unknown>> => {
+  const items = parse(html).querySelectorAll(options.itemSelector);
+
+  if (!items.length) {
+    throw new InvalidFeedException("Invalid feed");
+  }
+
+  return items
+    .map((item) => {
+      const link = getLink(item, options, baseUrl);
+      const title = (
+        getElement(item, options.titleSelector) || item
+      ).textContent.trim();
+      const descriptionElement = getElement(item, options.descriptionSelector);
+
+      return {
+        guid: link,
+        title: title || undefined,
+        link,
+        description: descriptionElement?.innerHTML.trim() || undefined,
+        pubdate: getDate(item, options.dateSelector),
+      };
+    })
+    .filter((article) => article.title || article.link);
+};
@@ -0,0 +1,147 @@
+import { InvalidFeedException } from "../exceptions";
+import {
+  getRawArticlesFromJson,
+  isJsonFeedBody,
+} from "./get-raw-articles-from-json";
+
+describe("isJsonFeedBody", () => {
+  it.each(["{}", "[]", "  \n{}"])("returns true for %j", (body) => {
+    expect(isJsonFeedBody(body)).toEqual(true);
+  });
+
+  it.each(["<rss></rss>", '<?xml version="1.0"?>'])(
+    "returns false for %j",
+    (body) => {
+      expect(isJsonFeedBody(body)).toEqual(false);
+    }
+  );
+});
+
+describe("getRawArticlesFromJson", () => {
+  it("maps json feed items to feed parser fields", () => {
+    const body = JSON.stringify({
+      version: "https://jsonfeed.org/version/1.1",
+      title: "feed",
+      items: [
+        {
+          id: "id-1",
+          url: "https://example.com/1",
+          external_url: "https://other.com/1",
+          title: "title",
+          content_html: "<p>content</p>",
+          summary: "summary",
+          image: "https://example.com/image.png",
+          date_published: "2024-01-01T00:00:00Z",
+          authors: [{ name: "author" }],
+          tags: ["a", "b"],
+          attachments: [
+            {
+              url: "https://example.com/file.mp3",
+              mime_type: "audio/mpeg",
+              size_in_bytes: 100,
+            },
+          ],
+        },
+      ],
+    });
+
+    const [article] = getRawArticlesFromJson(body);
+
+    expect(article).toMatchObject({
+      guid: "id-1",
+      title: "title",
+      link: "https://example.com/1",
+      origlink: "https://other.com/1",
+      description: "<p>content</p>",
+      summary: "summary",
+      pubdate: new Date("2024-01-01T00:00:00Z"),
+      date: new Date("2024-01-01T00:00:00Z"),
+      author: "author",
+      categories: ["a", "b"],
+      image: { url: "https://example.com/image.png" },
+      enclosures: [
+        {
+          url: "https://example.com/file.mp3",
+          type: "audio/mpeg",
+          length: "100",
+        },
+      ],
+    });
+  });
+
+  it("falls back to content_text and the 1.0 author field", () => {
+    const body = JSON.stringify({
+      version: "https://jsonfeed.org/version/1",
+      items: [
+        {
+          id: 1,
+          content_text: "text",
+          author: { name: "author" },
+        },
+      ],
+    });
+
+    const [article] = getRawArticlesFromJson(body);
+
+    expect(article).toMatchObject({
+      guid: "1",
+      description: "text",
+      author: "author",
+    });
+  });
+
+  it("returns items at the items path of arbitrary json", () => {
+    const body = JSON.stringify({
+      data: {
+        posts: [
+          { id: 1, name: "first", createdAt: "2024-01-01T00:00:00Z" },
+          { guid: "guid", name: "second" },
+        ],
+      },
+    });
+
+    const articles = getRawArticlesFromJson(body, {
+      itemsPath: "data.posts",
+    });
+
+    expect(articles).toEqual([
+      {
+        id: 1,
+        guid: "1",
+        name: "first",
+        createdAt: "2024-01-01T00:00:00Z",
+        pubdate: new Date("2024-01-01T00:00:00Z"),
+      },
+      { guid: "guid", name: "second" },
+    ]);
+  });
+
+  it("returns items of a root array", () => {
+    const body = JSON.stringify([{ title: "a" }, { title: "b" }]);
+
+    expect(getRawArticlesFromJson(body)).toEqual([
+      { title: "a" },
+      { title: "b" },
+    ]);
+  });
+
+  it("throws for invalid json", () => {
+    expect(() => getRawArticlesFromJson("{ invalid")).toThrow(
+      InvalidFeedException
+    );
+  });
+
+  it("throws if the items path does not point to an array of objects", () => {
+    const body = JSON.stringify({ data: { posts: "foo" } });
+
+    expect(() =>
+      getRawArticlesFromJson(body, { itemsPath: "data.posts" })
+    ).toThrow(InvalidFeedException);
+  });
+
+  it("throws if there are no items", () => {
+    expect(() => getRawArticlesFromJson(JSON.stringify({ foo: 1 }))).toThrow(
+      InvalidFeedException
+    );
+  });
+});
@@ -0,0 +1,184 @@
+import objectPath from "object-path";
+import { InvalidFeedException } from "../exceptions";
+
+const JSON_FEED_VERSION_PREFIX = "https://jsonfeed.org/version/";
+
+/**
+ * Common date keys of arbitrary JSON APIs, used to populate "pubdate" so that the article ID
+ * resolution and date checks behave the same as they do for XML feeds.
+ */
+const JSON_API_DATE_KEYS = [
+  "pubdate",
+  "date_published",
+  "datePublished",
+  "published",
+  "published_at",
+  "publishedAt",
+  "created_at",
+  "createdAt",
+  "date",
+];
+
+interface JsonFeedAuthor {
+  name?: string;
+  url?: string;
+  avatar?: string;
+}
+
+interface JsonFeedAttachment {
+  url?: string;
+  mime_type?: string;
+  title?: string;
+  size_in_bytes?: number;
+}
+
+interface JsonFeedItem {
+  id?: string | number;
+  url?: string;
+  external_url?: string;
+  title?: string;
+  content_html?: string;
+  content_text?: string;
+  summary?: string;
+  image?: string;
+  banner_image?: string;
+  date_published?: string;
+  date_modified?: string;
+  author?: JsonFeedAuthor;
+  authors?: JsonFeedAuthor[];
+  tags?: string[];
+  attachments?: JsonFeedAttachment[];
+}
+
+/**
+ * Whether a response body should be parsed as JSON instead of XML.
+ */
+export const isJsonFeedBody = (body: string) => {
+  const trimmed = body.trimStart();
+
+  return trimmed.startsWith("{") || trimmed.startsWith("[");
+};
+
+const parseDate = (value: unknown) => {
+  if (typeof value !== "string" && typeof value !== "number") {
+    return null;
+  }
+
+  const date = new Date(value);
+
+  if (isNaN(date.getTime())) {
+    return null;
+  }
+
+  return date;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+/**
+ * Map a JSON Feed item to the same keys that feedparser produces for RSS/Atom items.
+ */
+const mapJsonFeedItem = (item: JsonFeedItem): Record<string, unknown> => {
+  const authors = item.authors || (item.author ? [item.author] : []);
+  const pubdate = parseDate(item.date_published);
+
+  return {
+    guid: item.id != null ? String(item.id) : undefined,
+    title: item.title,
+    link: item.url,
+    origlink: item.external_url,
+    description: item.content_html || item.content_text,
+    summary: item.summary,
+    pubdate,
+    date: parseDate(item.date_modified) || pubdate,
+    author: authors[0]?.name,
+    categories: item.tags || [],
+    image: item.image ? { url: item.image } : {},
+    enclosures: (item.attachments || []).map((attachment) => ({
+      url: attachment.url,
+      type: attachment.mime_type,
+      title: attachment.title,
+      length:
+        attachment.size_in_bytes != null
+          ? String(attachment.size_in_bytes)
+          : undefined,
+    })),
+  };
+};
+
+/**
+ * Items of arbitrary JSON APIs are kept as-is, with "guid" and "pubdate" aliased from their
+ * common equivalents if they do not already exist.
+ */
+const mapJsonApiItem = (
+  item: Record<string, unknown>
+): Record<string, unknown> => {
+  const mapped = { ...item };
+
+  if (mapped.guid == null && mapped.id != null) {
+    mapped.guid = String(mapped.id);
+  }
+
+  const dateKey = JSON_API_DATE_KEYS.find((key) => parseDate(item[key]));
+
+  if (dateKey) {
+    mapped.pubdate = parseDate(item[dateKey]);
+  }
+
+  return mapped;
+};
+
+/**
+ * Get the raw articles of a JSON Feed 1.x document, or of an arbitrary JSON API response whose
+ * items are found at the dot-separated itemsPath (or at the root if the root is an array).
+ */
+export const getRawArticlesFromJson = (
+  body: string,
+  options?: {
+    itemsPath?: string | null;
+  }
+): Array<Record<string, unknown>> => {
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(body);
+  } catch (err) {
+    throw new InvalidFeedException("Invalid feed");
+  }
+
+  const itemsPath = options?.itemsPath?.trim();
+
+  if (
+    !itemsPath &&
+    isPlainObject(parsed) &&
+    typeof parsed.version === "string" &&
+    parsed.version.startsWith(JSON_FEED_VERSION_PREFIX)
+  ) {
+    const items = parsed.items;
+
+    if (!Array.isArray(items)) {
+      throw new InvalidFeedException("Invalid feed");
+    }
+
+    return items
+      .filter(isPlainObject)
+      .map((item) => mapJsonFeedItem(item as JsonFeedItem));
+  }
+
+  let items: unknown;
+
+  if (itemsPath) {
+    items = isPlainObject(parsed) ? objectPath.get(parsed, itemsPath) : null;
+  } else if (Array.isArray(parsed)) {
+    items = parsed;
+  } else if (isPlainObject(parsed)) {
+    items = parsed.items;
+  }
+
+  if (!Array.isArray(items) || !items.every(isPlainObject)) {
+    throw new InvalidFeedException("Invalid feed");
+  }
+
+  return items.map(mapJsonApiItem);
+};
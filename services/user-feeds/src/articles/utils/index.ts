@@ -1 +1,6 @@
 export * from "./article-id-resolver";
+export * from "./get-raw-articles-from-json";
+export * from "./get-raw-articles-from-html";
+export * from "./get-article-content-diff";
+export * from "./normalize-article-link";
+export * from "./get-article-id-from-options";
@@ -0,0 +1,30 @@
+import { normalizeArticleLink } from "./normalize-article-link";
+
+describe("normalizeArticleLink", () => {
+  it("removes tracking parameters and fragments", () => {
+    expect(
+      normalizeArticleLink(
+        "https://example.com/post/1?utm_source=rss&utm_medium=feed&fbclid=abc#comments"
+      )
+    ).toEqual("https://example.com/post/1");
+  });
+
+  it("keeps other parameters in a consistent order", () => {
+    expect(
+      normalizeArticleLink(
+        "https://example.com/post?page=2&id=1&utm_campaign=a"
+      )
+    ).toEqual("https://example.com/post?id=1&page=2");
+  });
+
+  it("lowercases the host and removes trailing slashes", () => {
+    expect(normalizeArticleLink("https://EXAMPLE.com/post/1/")).toEqual(
+      "https://example.com/post/1"
+    );
+  });
+
+  it("returns an empty string for invalid links", () => {
+    expect(normalizeArticleLink("not a link")).toEqual("");
+    expect(normalizeArticleLink(undefined)).toEqual("");
+  });
+});
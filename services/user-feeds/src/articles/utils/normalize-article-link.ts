@@ -0,0 +1,56 @@
+const TRACKING_PARAM_PREFIXES = ["utm_", "mc_", "pk_", "hsa_"];
+
+const TRACKING_PARAMS = new Set([
+  "fbclid",
+  "gclid",
+  "dclid",
+  "msclkid",
+  "yclid",
+  "igshid",
+  "ref",
+  "ref_src",
+  "_ga",
+  "_hsenc",
+  "_hsmi",
+  "cmpid",
+  "ncid",
+  "sr_share",
+]);
+
+const isTrackingParam = (name: string) => {
+  const lowercased = name.toLowerCase();
+
+  return (
+    TRACKING_PARAMS.has(lowercased) ||
+    TRACKING_PARAM_PREFIXES.some((prefix) => lowercased.startsWith(prefix))
+  );
+};
+
+/**
+ * Normalize a link so that the same article gets the same link across fetches, regardless of
+ * tracking parameters that some feeds rotate. Returns an empty string for invalid links.
+ */
+export const normalizeArticleLink = (link?: string | null) => {
+  if (!link) {
+    return "";
+  }
+
+  let url: URL;
+
+  try {
+    url = new URL(link.trim());
+  } catch (err) {
+    return "";
+  }
+
+  const keptParams = Array.from(url.searchParams.entries())
+    .filter(([name]) => !isTrackingParam(name))
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  url.hash = "";
+  url.search = new URLSearchParams(keptParams).toString();
+
+  const pathname = url.pathname.replace(/\/+$/, "");
+
+  return `${url.protocol}//${url.host}${pathname}${url.search}`;
+};
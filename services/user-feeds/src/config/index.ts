@@ -56,6 +56,7 @@ export function config(options?: {
     USER_FEEDS_REDIS_DISABLE_CLUSTER:
       process.env.USER_FEEDS_REDIS_DISABLE_CLUSTER === "true",
     USER_FEEDS_REDIS_URI: process.env.USER_FEEDS_REDIS_URI as string,
+    USER_FEEDS_METRICS_PORT: process.env.USER_FEEDS_METRICS_PORT,
   } as const;
 
   if (!options?.skipValidation) {
@@ -69,6 +69,10 @@ export class EnvironmentVariables {
 
   @IsString()
   USER_FEEDS_REDIS_URI: string;
+
+  @IsNumberString()
+  @IsOptional()
+  USER_FEEDS_METRICS_PORT?: string;
 }
 
 export function validateConfig(
@@ -13,6 +13,10 @@ import {
 import { DeliveryRecordService } from "./delivery-record.service";
 import { DeliveryRecord } from "./entities";
 import dayjs from "dayjs";
+import {
+  DeliveryAnalyticsCategory,
+  DeliveryAnalyticsInterval,
+} from "../feeds/constants";
 
 describe("DeliveryRecordService", () => {
   let service: DeliveryRecordService;
@@ -239,6 +243,47 @@ describe("DeliveryRecordService", () => {
         ])
       );
     });
+
+    it("stores the fetch times of articles that were fetched separately", async () => {
+      const fetchedAt = dayjs().subtract(1, "hour").startOf("second").toDate();
+      const queuedFetchedAt = dayjs()
+        .subtract(1, "day")
+        .startOf("second")
+        .toDate();
+      const articleStates: ArticleDeliveryState[] = [
+        {
+          id: "id-1",
+          mediumId: "medium-id",
+          status: ArticleDeliveryStatus.Sent,
+          articleIdHash: "hash",
+        },
+        {
+          id: "id-2",
+          mediumId: "medium-id",
+          status: ArticleDeliveryStatus.Sent,
+          articleIdHash: "queued-hash",
+        },
+      ];
+      await service.store("feed-id", articleStates, true, {
+        fetchedAt,
+        fetchedAtByArticleIdHash: new Map([["queued-hash", queuedFetchedAt]]),
+      });
+
+      const records = await deliveryRecordRepo.findAll();
+
+      expect(records).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            id: "id-1",
+            fetched_at: fetchedAt,
+          }),
+          expect.objectContaining({
+            id: "id-2",
+            fetched_at: queuedFetchedAt,
+          }),
+        ])
+      );
+    });
   });
 
   describe("updateDeliveryStatus", () => {
@@ -298,6 +343,54 @@ describe("DeliveryRecordService", () => {
     });
   });
 
+  describe("getDiscordMessagesOfRemovedArticles", () => {
+    it("returns messages of removed articles delivered after current articles", async () => {
+      const feedId = "feed-id";
+      const createRecord = (
+        id: string,
+        articleIdHash: string,
+        hoursAgo: number
+      ) =>
+        new DeliveryRecord(
+          {
+            id,
+            feed_id: feedId,
+            status: ArticleDeliveryStatus.Sent,
+            medium_id: "1",
+            article_id_hash: articleIdHash,
+            discord_message_id: `message-${id}`,
+            discord_channel_id: "channel",
+          },
+          {
+            created_at: dayjs().subtract(hoursAgo, "hour").toDate(),
+          }
+        );
+
+      await deliveryRecordRepo.persistAndFlush([
+        // Naturally dropped off the feed
+        createRecord("1", "old-hash", 3),
+        createRecord("2", "current-hash", 2),
+        createRecord("3", "removed-hash", 1),
+      ]);
+
+      const messages = await service.getDiscordMessagesOfRemovedArticles({
+        feedId,
+        currentArticleIdHashes: ["current-hash"],
+      });
+
+      expect(messages).toEqual([
+        {
+          deliveryId: "3",
+          mediumId: "1",
+          articleIdHash: "removed-hash",
+          messageId: "message-3",
+          channelId: "channel",
+          threadId: null,
+        },
+      ]);
+    });
+  });
+
   describe("countDeliveriesInPastTimeframe", () => {
     it("returns the correct number of sent and rejected deliveries", async () => {
       const feedId = "feed-id";
@@ -455,4 +548,93 @@ describe("DeliveryRecordService", () => {
 
     expect(count).toBe(2);
   });
+
+  describe("getDeliveryAnalytics", () => {
+    it("returns bucketed counts, latency and rejection reasons", async () => {
+      const feedId = "feed-id";
+      const fetchedAt = dayjs().subtract(2, "hour").toDate();
+      const createdAt = dayjs().subtract(1, "hour").toDate();
+
+      await deliveryRecordRepo.persistAndFlush([
+        new DeliveryRecord(
+          {
+            id: "1",
+            feed_id: feedId,
+            status: ArticleDeliveryStatus.Sent,
+            medium_id: "1",
+            fetched_at: fetchedAt,
+            delivered_at: dayjs(fetchedAt).add(1, "second").toDate(),
+          },
+          { created_at: createdAt }
+        ),
+        new DeliveryRecord(
+          {
+            id: "2",
+            feed_id: feedId,
+            status: ArticleDeliveryStatus.Sent,
+            medium_id: "1",
+            fetched_at: fetchedAt,
+            delivered_at: dayjs(fetchedAt).add(3, "second").toDate(),
+          },
+          { created_at: createdAt }
+        ),
+        new DeliveryRecord(
+          {
+            id: "3",
+            feed_id: feedId,
+            status: ArticleDeliveryStatus.Rejected,
+            medium_id: "1",
+            error_code: ArticleDeliveryErrorCode.ThirdPartyForbidden,
+          },
+          { created_at: createdAt }
+        ),
+        new DeliveryRecord(
+          {
+            id: "4",
+            feed_id: feedId,
+            status: ArticleDeliveryStatus.MediumRateLimitedByUser,
+            medium_id: "1",
+          },
+          { created_at: createdAt }
+        ),
+        new DeliveryRecord(
+          {
+            id: "5",
+            feed_id: "other-feed-id",
+            status: ArticleDeliveryStatus.Sent,
+            medium_id: "1",
+          },
+          { created_at: createdAt }
+        ),
+      ]);
+
+      const result = await service.getDeliveryAnalytics({
+        feedId,
+        startDate: dayjs().subtract(1, "day").toDate(),
+        endDate: new Date(),
+        interval: DeliveryAnalyticsInterval.Day,
+      });
+
+      expect(result.buckets).toHaveLength(1);
+      expect(result.buckets[0].mediumId).toEqual("1");
+      expect(result.buckets[0].counts).toEqual({
+        [DeliveryAnalyticsCategory.Sent]: 2,
+        [DeliveryAnalyticsCategory.PendingDelivery]: 0,
+        [DeliveryAnalyticsCategory.FilteredOut]: 0,
+        [DeliveryAnalyticsCategory.RateLimited]: 1,
+        [DeliveryAnalyticsCategory.Failed]: 1,
+      });
+      expect(result.latency).toEqual({
+        medianMs: 2000,
+        mediums: [{ mediumId: "1", medianMs: 2000 }],
+      });
+      expect(result.topRejectionReasons).toEqual([
+        {
+          category: DeliveryAnalyticsCategory.Failed,
+          errorCode: ArticleDeliveryErrorCode.ThirdPartyForbidden,
+          count: 1,
+        },
+      ]);
+    });
+  });
 });
@@ -1,5 +1,5 @@
 import { InjectRepository } from "@mikro-orm/nestjs";
-import { EntityRepository } from "@mikro-orm/postgresql";
+import { EntityRepository, SqlEntityManager } from "@mikro-orm/postgresql";
 import { Injectable } from "@nestjs/common";
 import {
   ArticleDeliveryErrorCode,
@@ -9,11 +9,40 @@ import {
 import { DeliveryRecord } from "./entities";
 import dayjs from "dayjs";
 import { MikroORM } from "@mikro-orm/core";
-import { GetUserFeedDeliveryRecordsOutputDto } from "../feeds/dto";
+import {
+  GetUserFeedDeliveryAnalyticsOutputDto,
+  GetUserFeedDeliveryRecordsOutputDto,
+} from "../feeds/dto";
 import { DeliveryLogStatus } from "../feeds/constants/delivery-log-status.constants";
+import {
+  DeliveryAnalyticsCategory,
+  DeliveryAnalyticsInterval,
+} from "../feeds/constants";
 
-const { Failed, Rejected, Sent, PendingDelivery, FilteredOut } =
-  ArticleDeliveryStatus;
+const {
+  Failed,
+  Rejected,
+  Sent,
+  PendingDelivery,
+  FilteredOut,
+  RateLimited,
+  MediumRateLimitedByUser,
+} = ArticleDeliveryStatus;
+
+const ANALYTICS_CATEGORY_BY_STATUS: Record<
+  ArticleDeliveryStatus,
+  DeliveryAnalyticsCategory
+> = {
+  [Sent]: DeliveryAnalyticsCategory.Sent,
+  [PendingDelivery]: DeliveryAnalyticsCategory.PendingDelivery,
+  [FilteredOut]: DeliveryAnalyticsCategory.FilteredOut,
+  [RateLimited]: DeliveryAnalyticsCategory.RateLimited,
+  [MediumRateLimitedByUser]: DeliveryAnalyticsCategory.RateLimited,
+  [Failed]: DeliveryAnalyticsCategory.Failed,
+  [Rejected]: DeliveryAnalyticsCategory.Failed,
+};
+
+const MAX_REJECTION_REASONS = 5;
 
 @Injectable()
 export class DeliveryRecordService {
@@ -26,8 +55,19 @@ export class DeliveryRecordService {
   async store(
     feedId: string,
     articleStates: ArticleDeliveryState[],
-    flush = true
+    flush = true,
+    meta?: {
+      /**
+       * When the feed containing the articles was fetched
+       */
+      fetchedAt?: Date;
+      /**
+       * Overrides fetchedAt for articles that were fetched at different times
+       */
+      fetchedAtByArticleIdHash?: Map<string, Date>;
+    }
   ) {
+    const now = new Date();
     const records = articleStates.map((articleState) => {
       const { status: articleStatus } = articleState;
 
@@ -44,6 +84,10 @@ export class DeliveryRecordService {
           parent: articleState.parent
             ? ({ id: articleState.parent } as never)
             : null,
+          discord_message_id: articleState.discord?.messageId,
+          discord_channel_id: articleState.discord?.channelId,
+          discord_thread_id: articleState.discord?.threadId,
+          delivered_at: now,
         });
       } else if (articleStatus === Failed || articleStatus === Rejected) {
         record = new DeliveryRecord({
@@ -70,6 +114,7 @@ export class DeliveryRecordService {
             : null,
           content_type: articleState.contentType,
           article_id_hash: articleState.articleIdHash,
+          discord_thread_id: articleState.discord?.threadId,
         });
       } else if (articleStatus === FilteredOut) {
         record = new DeliveryRecord({
@@ -90,6 +135,11 @@ export class DeliveryRecordService {
         });
       }
 
+      record.fetched_at =
+        meta?.fetchedAtByArticleIdHash?.get(articleState.articleIdHash) ||
+        meta?.fetchedAt ||
+        null;
+
       return record;
     });
 
@@ -108,9 +158,18 @@ export class DeliveryRecordService {
       internalMessage?: string;
       externalDetail?: string;
       articleId?: string;
+      discordMessageId?: string;
+      discordChannelId?: string;
     }
   ) {
-    const { status, errorCode, internalMessage, externalDetail } = details;
+    const {
+      status,
+      errorCode,
+      internalMessage,
+      externalDetail,
+      discordMessageId,
+      discordChannelId,
+    } = details;
 
     const record = await this.recordRepo.findOneOrFail(id);
 
@@ -119,11 +178,178 @@ export class DeliveryRecordService {
     record.internal_message = internalMessage;
     record.external_detail = externalDetail;
 
+    if (status === Sent) {
+      record.delivered_at = new Date();
+    }
+
+    if (discordMessageId) {
+      record.discord_message_id = discordMessageId;
+      record.discord_channel_id = discordChannelId;
+    }
+
     await this.recordRepo.persistAndFlush(record);
 
     return record;
   }
 
+  /**
+   * The most recently sent Discord message of an article within a medium
+   */
+  async getLatestDiscordMessage({
+    mediumId,
+    articleIdHash,
+  }: {
+    mediumId: string;
+    articleIdHash: string;
+  }) {
+    const record = await this.recordRepo.findOne(
+      {
+        medium_id: mediumId,
+        article_id_hash: articleIdHash,
+        discord_message_id: {
+          $ne: null,
+        },
+      },
+      {
+        orderBy: {
+          created_at: "DESC",
+        },
+        fields: [
+          "discord_message_id",
+          "discord_channel_id",
+          "discord_thread_id",
+        ],
+      }
+    );
+
+    if (!record?.discord_message_id || !record.discord_channel_id) {
+      return null;
+    }
+
+    return {
+      messageId: record.discord_message_id,
+      channelId: record.discord_channel_id,
+      threadId: record.discord_thread_id,
+    };
+  }
+
+  /**
+   * All Discord messages that were created by a delivery, including those of its child deliveries
+   */
+  async getDiscordMessagesOfDelivery({
+    feedId,
+    deliveryId,
+  }: {
+    feedId: string;
+    deliveryId: string;
+  }) {
+    const record = await this.recordRepo.findOne({
+      id: deliveryId,
+      feed_id: feedId,
+    });
+
+    if (!record) {
+      return null;
+    }
+
+    const children = await this.recordRepo.find({
+      feed_id: feedId,
+      parent: record.id,
+    });
+
+    return {
+      record,
+      messages: [record, ...children]
+        .filter((r) => r.discord_message_id && r.discord_channel_id)
+        .map(this.formatDiscordMessage),
+    };
+  }
+
+  /**
+   * Discord messages of articles that are no longer in the feed. Since feeds naturally drop
+   * older articles, only articles that were delivered after the earliest delivery of an article
+   * that is still in the feed are considered to be removed.
+   */
+  async getDiscordMessagesOfRemovedArticles({
+    feedId,
+    currentArticleIdHashes,
+  }: {
+    feedId: string;
+    currentArticleIdHashes: string[];
+  }) {
+    if (!currentArticleIdHashes.length) {
+      return [];
+    }
+
+    const earliestCurrentRecord = await this.recordRepo.findOne(
+      {
+        feed_id: feedId,
+        article_id_hash: {
+          $in: currentArticleIdHashes,
+        },
+        status: Sent,
+      },
+      {
+        orderBy: {
+          created_at: "ASC",
+        },
+        fields: ["created_at"],
+      }
+    );
+
+    if (!earliestCurrentRecord) {
+      return [];
+    }
+
+    const records = await this.recordRepo.find({
+      feed_id: feedId,
+      article_id_hash: {
+        $nin: currentArticleIdHashes,
+      },
+      discord_message_id: {
+        $ne: null,
+      },
+      created_at: {
+        $gt: earliestCurrentRecord.created_at,
+      },
+    });
+
+    return records
+      .filter((r) => r.discord_channel_id)
+      .map(this.formatDiscordMessage);
+  }
+
+  /**
+   * Clear the stored Discord message so that it is not acted upon again once it has been removed
+   */
+  async clearDiscordMessages(deliveryIds: string[]) {
+    if (!deliveryIds.length) {
+      return;
+    }
+
+    await this.recordRepo.nativeUpdate(
+      {
+        id: {
+          $in: deliveryIds,
+        },
+      },
+      {
+        discord_message_id: null,
+      }
+    );
+  }
+
+  private formatDiscordMessage(record: DeliveryRecord) {
+    return {
+      deliveryId: record.id,
+      mediumId: record.medium_id,
+      articleIdHash: record.article_id_hash,
+      messageId: record.discord_message_id as string,
+      channelId: record.discord_channel_id as string,
+      threadId: record.discord_thread_id,
+    };
+  }
+
   async countDeliveriesInPastTimeframe(
     { mediumId, feedId }: { mediumId?: string; feedId?: string },
     secondsInPast: number
@@ -165,6 +391,130 @@ export class DeliveryRecordService {
     return Number(query.count);
   }
 
+  /**
+   * Aggregates the top-level deliveries of a feed into time buckets per medium. Child deliveries
+   * (such as additional messages of the same article) are excluded so that each article is only
+   * counted once.
+   */
+  async getDeliveryAnalytics({
+    feedId,
+    startDate,
+    endDate,
+    interval,
+  }: {
+    feedId: string;
+    startDate: Date;
+    endDate: Date;
+    interval: DeliveryAnalyticsInterval;
+  }): Promise<GetUserFeedDeliveryAnalyticsOutputDto["result"]> {
+    const connection = (this.orm.em as SqlEntityManager).getConnection("read");
+    const baseParams = [feedId, startDate, endDate];
+    const baseWhere = `feed_id = ? AND parent_id IS NULL AND created_at >= ? AND created_at < ?`;
+    const latencyExpression =
+      `percentile_cont(0.5) WITHIN GROUP ` +
+      `(ORDER BY EXTRACT(EPOCH FROM (delivered_at - fetched_at)) * 1000)`;
+    const latencyWhere =
+      `${baseWhere} AND status = ? ` +
+      `AND delivered_at IS NOT NULL AND fetched_at IS NOT NULL`;
+
+    const bucketRows: Array<{
+      bucket: Date;
+      medium_id: string;
+      status: ArticleDeliveryStatus;
+      count: string;
+    }> = await connection.execute(
+      `SELECT date_trunc(?, created_at) AS bucket, medium_id, status, COUNT(*) AS count
+      FROM delivery_record
+      WHERE ${baseWhere}
+      GROUP BY bucket, medium_id, status
+      ORDER BY bucket ASC`,
+      [interval, ...baseParams]
+    );
+
+    const latencyRows: Array<{
+      medium_id: string | null;
+      median_ms: number | null;
+    }> = await connection.execute(
+      `SELECT NULL AS medium_id, ${latencyExpression} AS median_ms
+      FROM delivery_record
+      WHERE ${latencyWhere}
+      UNION ALL
+      SELECT medium_id, ${latencyExpression} AS median_ms
+      FROM delivery_record
+      WHERE ${latencyWhere}
+      GROUP BY medium_id`,
+      [...baseParams, Sent, ...baseParams, Sent]
+    );
+
+    const rejectionRows: Array<{
+      status: ArticleDeliveryStatus;
+      error_code: string | null;
+      count: string;
+    }> = await connection.execute(
+      `SELECT status, error_code, COUNT(*) AS count
+      FROM delivery_record
+      WHERE ${baseWhere} AND status IN (?, ?)
+      GROUP BY status, error_code
+      ORDER BY count DESC
+      LIMIT ?`,
+      [...baseParams, Rejected, Failed, MAX_REJECTION_REASONS]
+    );
+
+    const bucketsByKey = new Map<
+      string,
+      GetUserFeedDeliveryAnalyticsOutputDto["result"]["buckets"][number]
+    >();
+
+    bucketRows.forEach((row) => {
+      const timestamp = new Date(row.bucket).toISOString();
+      const key = `${timestamp}:${row.medium_id}`;
+      let bucket = bucketsByKey.get(key);
+
+      if (!bucket) {
+        bucket = {
+          timestamp,
+          mediumId: row.medium_id,
+          counts: {
+            [DeliveryAnalyticsCategory.Sent]: 0,
+            [DeliveryAnalyticsCategory.PendingDelivery]: 0,
+            [DeliveryAnalyticsCategory.FilteredOut]: 0,
+            [DeliveryAnalyticsCategory.RateLimited]: 0,
+            [DeliveryAnalyticsCategory.Failed]: 0,
+          },
+        };
+        bucketsByKey.set(key, bucket);
+      }
+
+      bucket.counts[ANALYTICS_CATEGORY_BY_STATUS[row.status]] += Number(
+        row.count
+      );
+    });
+
+    const formatMedian = (value: number | null) =>
+      value === null ? null : Math.round(Number(value));
+
+    const overallLatency = latencyRows.find((row) => row.medium_id === null);
+
+    return {
+      interval,
+      buckets: Array.from(bucketsByKey.values()),
+      latency: {
+        medianMs: formatMedian(overallLatency?.median_ms ?? null),
+        mediums: latencyRows
+          .filter((row) => row.medium_id !== null)
+          .map((row) => ({
+            mediumId: row.medium_id as string,
+            medianMs: formatMedian(row.median_ms),
+          })),
+      },
+      topRejectionReasons: rejectionRows.map((row) => ({
+        category: ANALYTICS_CATEGORY_BY_STATUS[row.status],
+        errorCode: row.error_code,
+        count: Number(row.count),
+      })),
+    };
+  }
+
   async getDeliveryLogs({
     limit,
     feedId,
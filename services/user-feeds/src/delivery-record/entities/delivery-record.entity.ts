@@ -89,6 +89,53 @@ export class DeliveryRecord {
   })
   article_id_hash?: string | null;
 
+  /**
+   * Set once Discord has accepted the message, so that it may later be edited
+   */
+  @Property({
+    nullable: true,
+    default: null,
+    type: "text",
+  })
+  discord_message_id?: string | null;
+
+  @Property({
+    nullable: true,
+    default: null,
+    type: "text",
+  })
+  discord_channel_id?: string | null;
+
+  /**
+   * Set if the message was sent within a thread (such as forum posts), since webhook messages
+   * within threads may only be modified by referencing the thread
+   */
+  @Property({
+    nullable: true,
+    default: null,
+    type: "text",
+  })
+  discord_thread_id?: string | null;
+
+  /**
+   * When the feed that contained the article was fetched, used to measure delivery latency
+   */
+  @Property({
+    nullable: true,
+    default: null,
+  })
+  fetched_at?: Date | null;
+
+  /**
+   * When the article was accepted by the medium. This may be later than the creation date for
+   * deliveries that are sent asynchronously.
+   */
+  @Property({
+    nullable: true,
+    default: null,
+  })
+  delivered_at?: Date | null;
+
   constructor(
     data: Omit<DeliveryRecord, "created_at">,
     overrides?: {
@@ -105,6 +152,11 @@ export class DeliveryRecord {
     this.content_type = data.content_type;
     this.external_detail = data.external_detail;
     this.article_id_hash = data.article_id_hash;
+    this.discord_message_id = data.discord_message_id;
+    this.discord_channel_id = data.discord_channel_id;
+    this.discord_thread_id = data.discord_thread_id;
+    this.fetched_at = data.fetched_at;
+    this.delivered_at = data.delivered_at;
 
     if (overrides?.created_at) {
       this.created_at = overrides.created_at;
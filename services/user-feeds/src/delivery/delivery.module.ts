@@ -1,17 +1,31 @@
+import { MikroOrmModule } from "@mikro-orm/nestjs";
 import { Module } from "@nestjs/common";
 import { ArticleFiltersModule } from "../article-filters/article-filters.module";
 import { ArticleFormatterModule } from "../article-formatter/article-formatter.module";
 import { ArticleRateLimitModule } from "../article-rate-limit/article-rate-limit.module";
+import { DeliveryRecordModule } from "../delivery-record/delivery-record.module";
 import { DeliveryService } from "./delivery.service";
+import { QueuedArticle } from "./entities";
 import { DiscordMediumService } from "./mediums/discord-medium.service";
+import { HttpWebhookMediumService } from "./mediums/http-webhook-medium.service";
+import { MatrixMediumService } from "./mediums/matrix-medium.service";
+import { SlackMediumService } from "./mediums/slack-medium.service";
 
 @Module({
   controllers: [],
-  providers: [DeliveryService, DiscordMediumService],
+  providers: [
+    DeliveryService,
+    DiscordMediumService,
+    HttpWebhookMediumService,
+    SlackMediumService,
+    MatrixMediumService,
+  ],
   imports: [
     ArticleFiltersModule,
     ArticleRateLimitModule,
     ArticleFormatterModule,
+    DeliveryRecordModule,
+    MikroOrmModule.forFeature([QueuedArticle]),
   ],
   exports: [DeliveryService],
 })
@@ -1,6 +1,8 @@
+import { getRepositoryToken } from "@mikro-orm/nestjs";
 import { Test, TestingModule } from "@nestjs/testing";
 import { ArticleFiltersService } from "../article-filters/article-filters.service";
 import { ArticleRateLimitService } from "../article-rate-limit/article-rate-limit.service";
+import { DeliveryRecordService } from "../delivery-record/delivery-record.service";
 import {
   Article,
   ArticleDeliveryErrorCode,
@@ -9,7 +11,11 @@ import {
 } from "../shared";
 import logger from "../shared/utils/logger";
 import { DeliveryService } from "./delivery.service";
+import { QueuedArticle } from "./entities";
 import { DiscordMediumService } from "./mediums/discord-medium.service";
+import { HttpWebhookMediumService } from "./mediums/http-webhook-medium.service";
+import { MatrixMediumService } from "./mediums/matrix-medium.service";
+import { SlackMediumService } from "./mediums/slack-medium.service";
 import { ArticleDeliveryState, ArticleDeliveryStatus } from "./types";
 
 jest.mock("../shared/utils/logger");
@@ -37,6 +43,27 @@ describe("DeliveryService", () => {
           provide: DiscordMediumService,
           useValue: discordMediumService,
         },
+        {
+          provide: HttpWebhookMediumService,
+          useValue: {
+            deliverArticle: jest.fn(),
+            formatArticle: jest.fn(),
+          },
+        },
+        {
+          provide: SlackMediumService,
+          useValue: {
+            deliverArticle: jest.fn(),
+            formatArticle: jest.fn(),
+          },
+        },
+        {
+          provide: MatrixMediumService,
+          useValue: {
+            deliverArticle: jest.fn(),
+            formatArticle: jest.fn(),
+          },
+        },
         {
           provide: ArticleFiltersService,
           useValue: articleFiltersService,
@@ -45,6 +72,20 @@ describe("DeliveryService", () => {
           provide: ArticleRateLimitService,
           useValue: articleRateLimitService,
         },
+        {
+          provide: DeliveryRecordService,
+          useValue: {
+            getLatestDiscordMessage: jest.fn(),
+          },
+        },
+        {
+          provide: getRepositoryToken(QueuedArticle),
+          useValue: {
+            find: jest.fn(),
+            persist: jest.fn(),
+            nativeDelete: jest.fn(),
+          },
+        },
       ],
     }).compile();
 
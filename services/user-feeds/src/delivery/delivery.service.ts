@@ -1,40 +1,276 @@
+import { InjectRepository } from "@mikro-orm/nestjs";
+import { EntityRepository } from "@mikro-orm/postgresql";
 import { Injectable } from "@nestjs/common";
+import { createHash, randomUUID } from "crypto";
 import { ArticleFiltersService } from "../article-filters/article-filters.service";
+import { FilterExpressionReference } from "../article-filters/types";
 import { ArticleRateLimitService } from "../article-rate-limit/article-rate-limit.service";
+import { replaceTemplateString } from "../articles/utils/replace-template-string";
+import { DeliveryRecordService } from "../delivery-record/delivery-record.service";
 import {
   Article,
   ArticleDeliveryErrorCode,
   FeedV2Event,
   MediumKey,
   MediumPayload,
+  UserFeedEditTrackingMode,
 } from "../shared";
 import { RegexEvalException } from "../shared/exceptions";
 import logger from "../shared/utils/logger";
+import { articleDeliveriesCounter } from "../metrics";
+import { QueuedArticle } from "./entities";
 import { DeliveryMedium } from "./mediums/delivery-medium.interface";
 import { DiscordMediumService } from "./mediums/discord-medium.service";
+import { HttpWebhookMediumService } from "./mediums/http-webhook-medium.service";
+import { MatrixMediumService } from "./mediums/matrix-medium.service";
+import { SlackMediumService } from "./mediums/slack-medium.service";
 import { ArticleDeliveryState, ArticleDeliveryStatus } from "./types";
+import { isWithinDeliveryWindow } from "./utils";
 
 interface LimitState {
   remaining: number;
   remainingInMedium: number;
 }
 
+interface MediumDelivery {
+  medium: MediumPayload;
+  articles: Article[];
+  asDigest?: boolean;
+}
+
+const DEFAULT_DIGEST_TEMPLATE = "{{digest::articles}}";
+
+const DEFAULT_UPDATE_TEMPLATE =
+  "Updated: {{title}}\n{{link}}\n\n{{updated::diff}}";
+
+const DEFAULT_DIGEST_ARTICLE_TEMPLATE = "{{title}}\n{{link}}";
+
+/**
+ * Queued articles had their content injected before they were queued
+ */
+const skipContentInjection = async () => undefined;
+
+const DIGEST_MEDIUM_KEYS = [
+  MediumKey.Discord,
+  MediumKey.Slack,
+  MediumKey.Matrix,
+];
+
 @Injectable()
 export class DeliveryService {
   constructor(
     private readonly discordMediumService: DiscordMediumService,
+    private readonly httpWebhookMediumService: HttpWebhookMediumService,
+    private readonly slackMediumService: SlackMediumService,
+    private readonly matrixMediumService: MatrixMediumService,
     private readonly articleFiltersService: ArticleFiltersService,
-    private readonly articleRateLimitService: ArticleRateLimitService
+    private readonly articleRateLimitService: ArticleRateLimitService,
+    private readonly deliveryRecordService: DeliveryRecordService,
+    @InjectRepository(QueuedArticle)
+    private readonly queuedArticleRepo: EntityRepository<QueuedArticle>
   ) {}
 
   private mediumServices: Record<MediumKey, DeliveryMedium> = {
     [MediumKey.Discord]: this.discordMediumService,
+    [MediumKey.HttpWebhook]: this.httpWebhookMediumService,
+    [MediumKey.Slack]: this.slackMediumService,
+    [MediumKey.Matrix]: this.matrixMediumService,
   };
 
   async deliver(
     event: FeedV2Event,
     articles: Article[]
   ): Promise<ArticleDeliveryState[]> {
+    const deliveries: MediumDelivery[] = [];
+
+    event.data.mediums.forEach((medium) => {
+      if (isWithinDeliveryWindow(medium.schedule)) {
+        deliveries.push({ medium, articles });
+
+        return;
+      }
+
+      this.queueArticles(event, medium, articles);
+    });
+
+    return this.deliverToMediums(event, deliveries);
+  }
+
+  /**
+   * Deliver the articles that were queued while the delivery windows of the event's mediums were
+   * closed. Queued articles of mediums that no longer exist are discarded.
+   */
+  async deliverQueuedArticles(event: FeedV2Event): Promise<{
+    deliveryStates: ArticleDeliveryState[];
+    /**
+     * Queued articles were fetched by earlier events, and so have their own fetch times
+     */
+    fetchedAtByArticleIdHash: Map<string, Date>;
+  }> {
+    const queuedArticles = await this.queuedArticleRepo.find(
+      {
+        feed_id: event.data.feed.id,
+      },
+      {
+        orderBy: {
+          id: "asc",
+        },
+      }
+    );
+
+    const fetchedAtByArticleIdHash = new Map<string, Date>();
+
+    if (!queuedArticles.length) {
+      return {
+        deliveryStates: [],
+        fetchedAtByArticleIdHash,
+      };
+    }
+
+    const idsToDelete: number[] = [];
+    const deliveriesByMediumId = new Map<string, MediumDelivery>();
+
+    queuedArticles.forEach((queuedArticle) => {
+      const medium = event.data.mediums.find(
+        (m) => m.id === queuedArticle.medium_id
+      );
+
+      if (!medium) {
+        idsToDelete.push(queuedArticle.id);
+
+        return;
+      }
+
+      if (!isWithinDeliveryWindow(medium.schedule)) {
+        return;
+      }
+
+      idsToDelete.push(queuedArticle.id);
+      fetchedAtByArticleIdHash.set(
+        queuedArticle.article.flattened.idHash,
+        queuedArticle.fetched_at || queuedArticle.created_at
+      );
+
+      const article: Article = {
+        flattened: queuedArticle.article.flattened,
+        raw: queuedArticle.article.raw,
+        injectArticleContent: skipContentInjection,
+      };
+
+      const existing = deliveriesByMediumId.get(medium.id);
+
+      if (existing) {
+        existing.articles.push(article);
+      } else {
+        deliveriesByMediumId.set(medium.id, {
+          medium,
+          articles: [article],
+          asDigest:
+            !!medium.schedule?.digest &&
+            DIGEST_MEDIUM_KEYS.includes(medium.key),
+        });
+      }
+    });
+
+    if (idsToDelete.length) {
+      await this.queuedArticleRepo.nativeDelete({
+        id: {
+          $in: idsToDelete,
+        },
+      });
+    }
+
+    return {
+      deliveryStates: await this.deliverToMediums(event, [
+        ...deliveriesByMediumId.values(),
+      ]),
+      fetchedAtByArticleIdHash,
+    };
+  }
+
+  async deleteQueuedArticlesOfFeed(feedId: string) {
+    await this.queuedArticleRepo.nativeDelete({
+      feed_id: feedId,
+    });
+  }
+
+  /**
+   * Delete the delivered Discord messages of articles that are no longer within the feed
+   *
+   * @returns The number of deliveries whose messages were deleted
+   */
+  async retractRemovedArticles(
+    event: FeedV2Event,
+    currentArticleIdHashes: string[]
+  ) {
+    const messages =
+      await this.deliveryRecordService.getDiscordMessagesOfRemovedArticles({
+        feedId: event.data.feed.id,
+        currentArticleIdHashes,
+      });
+
+    const retractedDeliveryIds: string[] = [];
+
+    for (const medium of event.data.mediums) {
+      if (medium.key !== MediumKey.Discord) {
+        continue;
+      }
+
+      const mediumMessages = messages.filter((m) => m.mediumId === medium.id);
+
+      if (!mediumMessages.length) {
+        continue;
+      }
+
+      const { failedMessageIds } =
+        await this.discordMediumService.deleteMessages(mediumMessages, {
+          webhook: medium.details.webhook,
+        });
+
+      retractedDeliveryIds.push(
+        ...mediumMessages
+          .filter((m) => !failedMessageIds.includes(m.messageId))
+          .map((m) => m.deliveryId)
+      );
+    }
+
+    await this.deliveryRecordService.clearDiscordMessages(retractedDeliveryIds);
+
+    return retractedDeliveryIds.length;
+  }
+
+  /**
+   * Persisted with the delivery records when the entity manager is flushed
+   */
+  private queueArticles(
+    event: FeedV2Event,
+    medium: MediumPayload,
+    articles: Article[]
+  ) {
+    const queuedArticles = articles.map(
+      (article) =>
+        new QueuedArticle({
+          feed_id: event.data.feed.id,
+          medium_id: medium.id,
+          article: {
+            flattened: article.flattened,
+            raw: article.raw,
+          },
+          fetched_at: new Date(event.timestamp),
+        })
+    );
+
+    this.queuedArticleRepo.persist(queuedArticles);
+  }
+
+  private async deliverToMediums(
+    event: FeedV2Event,
+    deliveries: MediumDelivery[]
+  ): Promise<ArticleDeliveryState[]> {
+    if (!deliveries.length) {
+      return [];
+    }
+
     let articleStates: ArticleDeliveryState[] = [];
     const underLimitInfo =
       await this.articleRateLimitService.getUnderLimitCheckFromInputLimits(
@@ -57,8 +293,8 @@ export class DeliveryService {
     };
 
     // Explicitly use for loop for track limit state
-    for (let i = 0; i < event.data.mediums.length; ++i) {
-      const medium = event.data.mediums[i];
+    for (let i = 0; i < deliveries.length; ++i) {
+      const { medium, articles, asDigest } = deliveries[i];
 
       const underLimitInfoOfMedium =
         await this.articleRateLimitService.getUnderLimitCheckFromInputLimits(
@@ -68,11 +304,17 @@ export class DeliveryService {
 
       limitState.remainingInMedium = underLimitInfoOfMedium.remaining;
 
-      const mediumStates = await this.deliverArticlesToMedium(
-        event,
-        articles,
-        medium,
-        limitState
+      const mediumStates = asDigest
+        ? await this.deliverDigestsToMedium(event, articles, medium, limitState)
+        : await this.deliverArticlesToMedium(
+            event,
+            articles,
+            medium,
+            limitState
+          );
+
+      mediumStates.forEach(({ status }) =>
+        articleDeliveriesCounter.inc({ medium: medium.key, status })
       );
 
       articleStates = articleStates.concat(mediumStates);
@@ -93,13 +335,20 @@ export class DeliveryService {
     for (let i = 0; i < articles.length; ++i) {
       const article = articles[i];
 
-      const articleStates = await this.sendArticleToMedium(
-        event,
-        article,
-        medium,
-        limitState,
-        `${medium.id}-${article.flattened.idHash}`
-      );
+      const articleStates = article.update
+        ? await this.sendArticleUpdateToMedium(
+            event,
+            article,
+            medium,
+            limitState
+          )
+        : await this.sendArticleToMedium(
+            event,
+            article,
+            medium,
+            limitState,
+            `${medium.id}-${article.flattened.idHash}`
+          );
 
       results.push(...articleStates);
     }
@@ -112,7 +361,11 @@ export class DeliveryService {
     article: Article,
     medium: MediumPayload,
     limitState: LimitState,
-    deliveryId: string
+    deliveryId: string,
+    deliverFormattedArticle?: (
+      formattedArticle: Article,
+      filterReferences: FilterExpressionReference
+    ) => Promise<ArticleDeliveryState[]>
   ): Promise<ArticleDeliveryState[]> {
     try {
       if (limitState.remaining <= 0 || limitState.remainingInMedium <= 0) {
@@ -164,53 +417,351 @@ export class DeliveryService {
         }
       }
 
-      const articleStates = await mediumService.deliverArticle(
-        formattedArticle,
-        {
-          deliveryId,
-          mediumId: medium.id,
-          deliverySettings: medium.details,
-          feedDetails: event.data.feed,
-          filterReferences: filterReferences,
-        }
-      );
+      const articleStates = deliverFormattedArticle
+        ? await deliverFormattedArticle(formattedArticle, filterReferences)
+        : await mediumService.deliverArticle(formattedArticle, {
+            deliveryId,
+            mediumId: medium.id,
+            deliverySettings: medium.details,
+            feedDetails: event.data.feed,
+            filterReferences: filterReferences,
+          });
 
       limitState.remaining--;
       limitState.remainingInMedium--;
 
       return articleStates;
     } catch (err) {
-      if (err instanceof RegexEvalException) {
-        return [
+      return [
+        this.getFailedState(event, err as Error, {
+          deliveryId,
+          medium,
+          articleIdHash: article.flattened.idHash,
+        }),
+      ];
+    }
+  }
+
+  /**
+   * Updated articles edit the originally sent Discord message if possible, and are otherwise sent
+   * as a follow-up message using the feed's edit tracking template.
+   */
+  private async sendArticleUpdateToMedium(
+    event: FeedV2Event,
+    article: Article,
+    medium: MediumPayload,
+    limitState: LimitState
+  ): Promise<ArticleDeliveryState[]> {
+    const editTracking = event.data.feed.editTracking;
+    const deliveryId = randomUUID();
+
+    return this.sendArticleToMedium(
+      event,
+      article,
+      medium,
+      limitState,
+      deliveryId,
+      async (formattedArticle, filterReferences) => {
+        const details = {
+          deliveryId,
+          mediumId: medium.id,
+          feedDetails: event.data.feed,
+          filterReferences,
+        };
+
+        if (
+          editTracking?.mode === UserFeedEditTrackingMode.Edit &&
+          medium.key === MediumKey.Discord
+        ) {
+          const message =
+            await this.deliveryRecordService.getLatestDiscordMessage({
+              mediumId: medium.id,
+              articleIdHash: article.flattened.idHash,
+            });
+
+          if (message) {
+            return this.discordMediumService.updateArticle(
+              formattedArticle,
+              {
+                ...details,
+                deliverySettings: medium.details,
+              },
+              message
+            );
+          }
+        }
+
+        return this.mediumServices[medium.key].deliverArticle(
+          formattedArticle,
           {
-            id: deliveryId,
-            mediumId: medium.id,
-            status: ArticleDeliveryStatus.Rejected,
-            articleIdHash: article.flattened.idHash,
-            errorCode: ArticleDeliveryErrorCode.ArticleProcessingError,
-            internalMessage: (err as Error).message,
-            externalDetail: JSON.stringify({
-              message: (err as Error).message,
+            ...details,
+            deliverySettings: this.getTemplateDeliverySettings(medium, {
+              template: editTracking?.template || DEFAULT_UPDATE_TEMPLATE,
             }),
-          },
-        ];
+          }
+        );
       }
+    );
+  }
 
-      logger.error(`Failed to deliver article to medium ${medium.key}`, {
-        event,
-        error: (err as Error).stack,
-      });
+  /**
+   * Collapse articles into as few messages as the digest's max articles allows. Every article
+   * still gets its own delivery state so that it is not delivered again.
+   */
+  private async deliverDigestsToMedium(
+    event: FeedV2Event,
+    articles: Article[],
+    medium: MediumPayload,
+    limitState: LimitState
+  ): Promise<ArticleDeliveryState[]> {
+    const digest = medium.schedule?.digest;
 
-      return [
-        {
-          id: deliveryId,
+    if (!digest) {
+      return this.deliverArticlesToMedium(event, articles, medium, limitState);
+    }
+
+    const results: ArticleDeliveryState[] = [];
+    const mediumService = this.mediumServices[medium.key];
+    const formattedArticles: Article[] = [];
+
+    for (let i = 0; i < articles.length; ++i) {
+      const article = articles[i];
+      const deliveryId = `${medium.id}-${article.flattened.idHash}`;
+
+      try {
+        const formattedArticle = await mediumService.formatArticle(article, {
+          ...medium.details.formatter,
+          customPlaceholders: medium.details.customPlaceholders,
+        });
+
+        if (medium.filters?.expression) {
+          const { result, explainBlocked } =
+            await this.articleFiltersService.evaluateExpression(
+              medium.filters.expression,
+              this.articleFiltersService.buildReferences({
+                article: formattedArticle,
+              })
+            );
+
+          if (!result) {
+            results.push({
+              id: deliveryId,
+              mediumId: medium.id,
+              status: ArticleDeliveryStatus.FilteredOut,
+              articleIdHash: article.flattened.idHash,
+              externalDetail: explainBlocked.length
+                ? JSON.stringify({
+                    explainBlocked,
+                  })
+                : null,
+            });
+
+            continue;
+          }
+        }
+
+        formattedArticles.push(formattedArticle);
+      } catch (err) {
+        results.push(
+          this.getFailedState(event, err as Error, {
+            deliveryId,
+            medium,
+            articleIdHash: article.flattened.idHash,
+          })
+        );
+      }
+    }
+
+    for (let i = 0; i < formattedArticles.length; i += digest.maxArticles) {
+      const chunk = formattedArticles.slice(i, i + digest.maxArticles);
+
+      if (limitState.remaining <= 0 || limitState.remainingInMedium <= 0) {
+        results.push(
+          ...chunk.map(
+            (article): ArticleDeliveryState => ({
+              id: `${medium.id}-${article.flattened.idHash}`,
+              mediumId: medium.id,
+              status:
+                limitState.remaining <= 0
+                  ? ArticleDeliveryStatus.RateLimited
+                  : ArticleDeliveryStatus.MediumRateLimitedByUser,
+              articleIdHash: article.flattened.idHash,
+            })
+          )
+        );
+
+        continue;
+      }
+
+      const digestArticle = this.buildDigestArticle(medium, chunk);
+      const deliveryId = `${medium.id}-${digestArticle.flattened.idHash}`;
+
+      try {
+        const digestStates = await mediumService.deliverArticle(digestArticle, {
+          deliveryId,
           mediumId: medium.id,
-          status: ArticleDeliveryStatus.Failed,
-          errorCode: ArticleDeliveryErrorCode.Internal,
-          internalMessage: (err as Error).message,
-          articleIdHash: article.flattened.idHash,
-        },
-      ];
+          deliverySettings: this.getTemplateDeliverySettings(medium, {
+            template: digest.template || DEFAULT_DIGEST_TEMPLATE,
+            asEmbed: digest.asEmbed,
+          }),
+          feedDetails: event.data.feed,
+          filterReferences: this.articleFiltersService.buildReferences({
+            article: digestArticle,
+          }),
+        });
+
+        limitState.remaining--;
+        limitState.remainingInMedium--;
+
+        const [firstArticle, ...otherArticles] = chunk;
+
+        // The digest itself is recorded against the first article of the chunk
+        results.push(
+          ...digestStates.map((state) => ({
+            ...state,
+            articleIdHash: firstArticle.flattened.idHash,
+          })),
+          ...otherArticles.map((article) => ({
+            id: `${medium.id}-${article.flattened.idHash}`,
+            mediumId: medium.id,
+            status: ArticleDeliveryStatus.Sent as const,
+            parent: deliveryId,
+            articleIdHash: article.flattened.idHash,
+          }))
+        );
+      } catch (err) {
+        results.push(
+          ...chunk.map((article) =>
+            this.getFailedState(event, err as Error, {
+              deliveryId: `${medium.id}-${article.flattened.idHash}`,
+              medium,
+              articleIdHash: article.flattened.idHash,
+            })
+          )
+        );
+      }
+    }
+
+    return results;
+  }
+
+  private buildDigestArticle(
+    medium: MediumPayload,
+    articles: Article[]
+  ): Article {
+    const articleTemplate =
+      medium.schedule?.digest?.articleTemplate ||
+      DEFAULT_DIGEST_ARTICLE_TEMPLATE;
+
+    const renderedArticles = articles.map(
+      (article) =>
+        replaceTemplateString(article.flattened, articleTemplate, {
+          supportFallbacks: medium.details.enablePlaceholderFallback,
+        }) || ""
+    );
+
+    const idHash = createHash("sha1")
+      .update(articles.map((article) => article.flattened.idHash).join(","))
+      .digest("hex");
+
+    return {
+      flattened: {
+        id: idHash,
+        idHash,
+        "digest::count": String(articles.length),
+        "digest::articles": renderedArticles.join("\n\n"),
+      },
+      raw: articles[0].raw,
+      injectArticleContent: skipContentInjection,
+    };
+  }
+
+  /**
+   * Replace the message content of a medium with a single template, for messages that are not
+   * regular article deliveries
+   */
+  private getTemplateDeliverySettings(
+    medium: MediumPayload,
+    { template, asEmbed }: { template: string; asEmbed?: boolean }
+  ): MediumPayload["details"] {
+    if (medium.key === MediumKey.Discord) {
+      return {
+        ...medium.details,
+        content: asEmbed ? "" : template,
+        embeds: asEmbed
+          ? [
+              {
+                description: template,
+                footer: null,
+                image: null,
+                thumbnail: null,
+                author: null,
+                timestamp: null,
+              },
+            ]
+          : [],
+        components: null,
+      };
+    }
+
+    if (medium.key === MediumKey.Slack) {
+      return {
+        ...medium.details,
+        headerText: null,
+        imageUrl: null,
+        content: template,
+      };
+    }
+
+    if (medium.key === MediumKey.Matrix) {
+      return {
+        ...medium.details,
+        content: template,
+      };
+    }
+
+    return medium.details;
+  }
+
+  private getFailedState(
+    event: FeedV2Event,
+    err: Error,
+    {
+      deliveryId,
+      medium,
+      articleIdHash,
+    }: {
+      deliveryId: string;
+      medium: MediumPayload;
+      articleIdHash: string;
+    }
+  ): ArticleDeliveryState {
+    if (err instanceof RegexEvalException) {
+      return {
+        id: deliveryId,
+        mediumId: medium.id,
+        status: ArticleDeliveryStatus.Rejected,
+        articleIdHash,
+        errorCode: ArticleDeliveryErrorCode.ArticleProcessingError,
+        internalMessage: err.message,
+        externalDetail: JSON.stringify({
+          message: err.message,
+        }),
+      };
     }
+
+    logger.error(`Failed to deliver article to medium ${medium.key}`, {
+      event,
+      error: err.stack,
+    });
+
+    return {
+      id: deliveryId,
+      mediumId: medium.id,
+      status: ArticleDeliveryStatus.Failed,
+      errorCode: ArticleDeliveryErrorCode.Internal,
+      internalMessage: err.message,
+      articleIdHash,
+    };
   }
 }
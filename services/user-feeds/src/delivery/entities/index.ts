@@ -0,0 +1 @@
+export * from "./queued-article.entity";
@@ -0,0 +1,54 @@
+import { Entity, Index, PrimaryKey, Property } from "@mikro-orm/core";
+import { Article } from "../../shared";
+
+/**
+ * Articles that arrived outside of a medium's delivery window, to be delivered once the window
+ * opens.
+ */
+@Entity()
+@Index({
+  properties: ["feed_id", "created_at"],
+  name: "queued_article_feed_id_created_at_index",
+})
+export class QueuedArticle {
+  @PrimaryKey({
+    autoincrement: true,
+  })
+  id: number;
+
+  @Property()
+  feed_id: string;
+
+  @Property()
+  medium_id: string;
+
+  @Property({
+    type: "json",
+  })
+  article: Pick<Article, "flattened" | "raw">;
+
+  /**
+   * When the feed containing the article was fetched. Null for articles queued before this was
+   * stored.
+   */
+  @Property({
+    nullable: true,
+    default: null,
+  })
+  fetched_at: Date | null;
+
+  @Property()
+  created_at: Date = new Date();
+
+  constructor(
+    data: Pick<
+      QueuedArticle,
+      "feed_id" | "medium_id" | "article" | "fetched_at"
+    >
+  ) {
+    this.feed_id = data.feed_id;
+    this.medium_id = data.medium_id;
+    this.article = data.article;
+    this.fetched_at = data.fetched_at;
+  }
+}
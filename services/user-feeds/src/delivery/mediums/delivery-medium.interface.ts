@@ -3,18 +3,20 @@ import { FormatOptions } from "../../article-formatter/types";
 import { Article, FeedV2Event, MediumPayload } from "../../shared";
 import { ArticleDeliveryState } from "../types";
 
-export interface DeliverArticleDetails {
+export interface DeliverArticleDetails<
+  DeliverySettings = MediumPayload["details"]
+> {
   deliveryId: string;
   mediumId: string;
   feedDetails: FeedV2Event["data"]["feed"];
-  deliverySettings: MediumPayload["details"];
+  deliverySettings: DeliverySettings;
   filterReferences: FilterExpressionReference;
 }
 
-export interface DeliveryMedium {
+export interface DeliveryMedium<DeliverySettings = MediumPayload["details"]> {
   deliverArticle(
     article: Article,
-    details: DeliverArticleDetails
+    details: DeliverArticleDetails<DeliverySettings>
   ): Promise<ArticleDeliveryState[]>;
   formatArticle(article: Article, options: FormatOptions): Promise<Article>;
 }
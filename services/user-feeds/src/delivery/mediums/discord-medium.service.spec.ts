@@ -7,6 +7,7 @@ import {
   Article,
   ArticleDeliveryContentType,
   ArticleDiscordFormatted,
+  DiscordMediumPayloadDetails,
 } from "../../shared";
 import {
   ArticleDeliveryState,
@@ -211,32 +212,33 @@ describe("DiscordMediumService", () => {
       raw: {} as never,
     };
 
-    const deliveryDetails: DeliverArticleDetails = {
-      filterReferences: mockFilterReference,
-      deliveryId: "delivery-id",
-      mediumId: "medium-id",
-      deliverySettings: {
-        mentions: {},
-        guildId: "guild-id",
-        channel: { id: "channel-1" },
-        webhook: {
-          id: "webhook-id-1",
-          token: "webhook-token-1",
+    const deliveryDetails: DeliverArticleDetails<DiscordMediumPayloadDetails> =
+      {
+        filterReferences: mockFilterReference,
+        deliveryId: "delivery-id",
+        mediumId: "medium-id",
+        deliverySettings: {
+          mentions: {},
+          guildId: "guild-id",
+          channel: { id: "channel-1" },
+          webhook: {
+            id: "webhook-id-1",
+            token: "webhook-token-1",
+          },
+          content: "content",
+          formatter: {
+            formatTables: false,
+            stripImages: false,
+          },
+          splitOptions: {},
         },
-        content: "content",
-        formatter: {
-          formatTables: false,
-          stripImages: false,
+        feedDetails: {
+          id: "feed-id",
+          blockingComparisons: [],
+          passingComparisons: [],
+          url: "url",
         },
-        splitOptions: {},
-      },
-      feedDetails: {
-        id: "feed-id",
-        blockingComparisons: [],
-        passingComparisons: [],
-        url: "url",
-      },
-    };
+      };
 
     it("returns the status of the result", async () => {
       const result = await service.deliverArticle(article, deliveryDetails);
@@ -251,41 +253,42 @@ describe("DiscordMediumService", () => {
     });
 
     it("sends embeds", async () => {
-      const detailsWithEmbeds: DeliverArticleDetails = {
-        ...deliveryDetails,
-        deliverySettings: {
-          ...deliveryDetails.deliverySettings,
-          embeds: [
-            {
-              author: {
-                name: "author-name",
-                iconUrl: "author-icon-url",
-              },
-              footer: {
-                text: "footer-text",
-                iconUrl: "footer-icon-url",
-              },
-              image: {
-                url: "image-url",
-              },
-              thumbnail: {
-                url: "thumbnail-url",
-              },
-              title: "title",
-              description: "description",
-              url: "url",
-              color: 123,
-              fields: [
-                {
-                  name: "name",
-                  value: "value",
-                  inline: true,
+      const detailsWithEmbeds: DeliverArticleDetails<DiscordMediumPayloadDetails> =
+        {
+          ...deliveryDetails,
+          deliverySettings: {
+            ...deliveryDetails.deliverySettings,
+            embeds: [
+              {
+                author: {
+                  name: "author-name",
+                  iconUrl: "author-icon-url",
                 },
-              ],
-            },
-          ],
-        },
-      };
+                footer: {
+                  text: "footer-text",
+                  iconUrl: "footer-icon-url",
+                },
+                image: {
+                  url: "image-url",
+                },
+                thumbnail: {
+                  url: "thumbnail-url",
+                },
+                title: "title",
+                description: "description",
+                url: "url",
+                color: 123,
+                fields: [
+                  {
+                    name: "name",
+                    value: "value",
+                    inline: true,
+                  },
+                ],
+              },
+            ],
+          },
+        };
 
       await service.deliverArticle(article, detailsWithEmbeds);
       const callBody = JSON.parse(producer.enqueue.mock.calls[0][1].body);
@@ -361,7 +364,7 @@ describe("DiscordMediumService", () => {
           },
           raw: {} as never,
         };
-        const details: DeliverArticleDetails = {
+        const details: DeliverArticleDetails<DiscordMediumPayloadDetails> = {
           ...deliveryDetails,
           deliverySettings: {
             ...deliveryDetails.deliverySettings,
@@ -420,7 +423,7 @@ describe("DiscordMediumService", () => {
           },
           raw: {} as never,
         };
-        const details: DeliverArticleDetails = {
+        const details: DeliverArticleDetails<DiscordMediumPayloadDetails> = {
           ...deliveryDetails,
           deliverySettings: {
             ...deliveryDetails.deliverySettings,
@@ -8,6 +8,7 @@ import {
   ArticleDeliveryContentType,
   ArticleDeliveryErrorCode,
   ArticleDiscordFormatted,
+  DiscordMediumPayloadDetails,
 } from "../../shared";
 import { JobResponse, RESTProducer } from "@synzen/discord-rest";
 import {
@@ -32,7 +33,9 @@ import {
 import dayjs from "dayjs";
 
 @Injectable()
-export class DiscordMediumService implements DeliveryMedium {
+export class DiscordMediumService
+  implements DeliveryMedium<DiscordMediumPayloadDetails>
+{
   static BASE_API_URL = "https://discord.com/api/v10";
   producer: RESTProducer;
 
@@ -77,6 +80,25 @@ export class DiscordMediumService implements DeliveryMedium {
     }/webhooks/${webhookId}/${webhookToken}?${urlQueries.toString()}`;
   }
 
+  private getWebhookMessageApiUrl(
+    webhookId: string,
+    webhookToken: string,
+    messageId: string,
+    queries?: {
+      threadId?: string | null;
+    }
+  ) {
+    const urlQueries = new URLSearchParams();
+
+    if (queries?.threadId) {
+      urlQueries.append("thread_id", queries.threadId);
+    }
+
+    return `${
+      DiscordMediumService.BASE_API_URL
+    }/webhooks/${webhookId}/${webhookToken}/messages/${messageId}?${urlQueries.toString()}`;
+  }
+
   private getForumApiUrl(channelId: string) {
     return `${DiscordMediumService.BASE_API_URL}/channels/${channelId}/threads`;
   }
@@ -322,7 +344,7 @@ export class DiscordMediumService implements DeliveryMedium {
 
   async deliverArticle(
     article: ArticleDiscordFormatted,
-    details: DeliverArticleDetails
+    details: DeliverArticleDetails<DiscordMediumPayloadDetails>
   ): Promise<ArticleDeliveryState[]> {
     const {
       deliverySettings: { channel, webhook },
@@ -395,6 +417,199 @@ export class DiscordMediumService implements DeliveryMedium {
     }
   }
 
+  /**
+   * Edit a previously delivered message with the current article content. If the content would
+   * be split into multiple messages, only the first one is edited.
+   */
+  async updateArticle(
+    article: ArticleDiscordFormatted,
+    details: DeliverArticleDetails<DiscordMediumPayloadDetails>,
+    {
+      messageId,
+      channelId,
+      threadId,
+    }: { messageId: string; channelId: string; threadId?: string | null }
+  ): Promise<ArticleDeliveryState[]> {
+    const {
+      deliverySettings: {
+        guildId,
+        webhook,
+        mentions,
+        placeholderLimits,
+        enablePlaceholderFallback,
+        components,
+      },
+      feedDetails: { id, url },
+      filterReferences,
+    } = details;
+
+    const apiUrl = webhook
+      ? this.getWebhookMessageApiUrl(webhook.id, webhook.token, messageId, {
+          // Messages within threads require the thread ID, which is the channel of the message
+          threadId:
+            threadId || (webhook.type || webhook.threadId ? channelId : null),
+        })
+      : `${this.getChannelApiUrl(channelId)}/${messageId}`;
+
+    const [body] = this.generateApiPayloads(article, {
+      embeds: details.deliverySettings.embeds,
+      content: details.deliverySettings.content,
+      splitOptions: details.deliverySettings.splitOptions,
+      filterReferences,
+      mentions,
+      placeholderLimits,
+      enablePlaceholderFallback,
+      components,
+    });
+
+    await this.producer.enqueue(
+      apiUrl,
+      {
+        method: "PATCH",
+        body: JSON.stringify(body),
+      },
+      {
+        id: details.deliveryId,
+        articleID: article.flattened.id,
+        feedURL: url,
+        ...(webhook
+          ? {
+              webhookId: webhook.id,
+            }
+          : {
+              channel: channelId,
+            }),
+        feedId: id,
+        guildId,
+        emitDeliveryResult: true,
+      }
+    );
+
+    return [
+      {
+        id: details.deliveryId,
+        status: ArticleDeliveryStatus.PendingDelivery,
+        mediumId: details.mediumId,
+        contentType: ArticleDeliveryContentType.DiscordArticleMessage,
+        articleIdHash: article.flattened.idHash,
+      },
+    ];
+  }
+
+  /**
+   * Re-render a previously delivered message with the current article content and medium
+   * settings. If the content would be split into multiple messages, only the first one is edited.
+   */
+  async rerenderMessage(
+    article: ArticleDiscordFormatted,
+    details: TestDiscordDeliveryDetails,
+    message: { messageId: string; channelId: string; threadId?: string | null }
+  ): Promise<{
+    apiPayload: Record<string, unknown>;
+    result: JobResponse<unknown> | JobResponseError;
+  }> {
+    const {
+      mediumDetails: {
+        webhook,
+        embeds,
+        content,
+        splitOptions,
+        mentions,
+        placeholderLimits,
+        enablePlaceholderFallback,
+        components,
+      },
+      filterReferences,
+    } = details;
+
+    const [body] = this.generateApiPayloads(article, {
+      embeds,
+      content,
+      splitOptions,
+      filterReferences,
+      mentions,
+      placeholderLimits,
+      enablePlaceholderFallback,
+      components,
+    });
+
+    const result = await this.producer.fetch(
+      this.getMessageApiUrl(message, webhook),
+      {
+        method: "PATCH",
+        body: JSON.stringify(body),
+      }
+    );
+
+    return {
+      apiPayload: body as Record<string, unknown>,
+      result,
+    };
+  }
+
+  /**
+   * Delete previously delivered messages. Messages that were already deleted on Discord's end
+   * are considered to be successfully deleted.
+   */
+  async deleteMessages(
+    messages: Array<{
+      messageId: string;
+      channelId: string;
+      threadId?: string | null;
+    }>,
+    { webhook }: { webhook?: { id: string; token: string } | null }
+  ): Promise<{ failedMessageIds: string[] }> {
+    const failedMessageIds: string[] = [];
+
+    for (const message of messages) {
+      const result = await this.producer.fetch(
+        this.getMessageApiUrl(message, webhook),
+        {
+          method: "DELETE",
+        }
+      );
+
+      if (result.state !== "success") {
+        throw new Error(
+          `Internal error occurred while deleting message ${message.messageId}: ${result.message}`
+        );
+      }
+
+      if (
+        (result.status < 200 || result.status >= 300) &&
+        result.status !== 404
+      ) {
+        failedMessageIds.push(message.messageId);
+      }
+    }
+
+    return {
+      failedMessageIds,
+    };
+  }
+
+  private getMessageApiUrl(
+    {
+      messageId,
+      channelId,
+      threadId,
+    }: { messageId: string; channelId: string; threadId?: string | null },
+    webhook?: { id: string; token: string } | null
+  ) {
+    if (webhook) {
+      return this.getWebhookMessageApiUrl(
+        webhook.id,
+        webhook.token,
+        messageId,
+        {
+          threadId,
+        }
+      );
+    }
+
+    return `${this.getChannelApiUrl(channelId)}/${messageId}`;
+  }
+
   private async deliverArticleToWebhookForum(
     article: Article,
     {
@@ -408,7 +623,7 @@ export class DiscordMediumService implements DeliveryMedium {
       name?: string;
       iconUrl?: string;
     },
-    details: DeliverArticleDetails
+    details: DeliverArticleDetails<DiscordMediumPayloadDetails>
   ): Promise<ArticleDeliveryState[]> {
     const {
       deliverySettings: {
@@ -526,6 +741,9 @@ export class DiscordMediumService implements DeliveryMedium {
           contentType: ArticleDeliveryContentType.DiscordArticleMessage,
           parent: details.deliveryId,
           articleIdHash: article.flattened.idHash,
+          discord: {
+            threadId,
+          },
         };
       })
     );
@@ -537,6 +755,12 @@ export class DiscordMediumService implements DeliveryMedium {
         mediumId: details.mediumId,
         contentType: ArticleDeliveryContentType.DiscordThreadCreation,
         articleIdHash: article.flattened.idHash,
+        // The starter message of forum threads shares the ID of the thread
+        discord: {
+          messageId: threadId,
+          channelId: threadId,
+          threadId,
+        },
       },
       ...additionalDeliveryStates,
     ];
@@ -545,7 +769,7 @@ export class DiscordMediumService implements DeliveryMedium {
   private async deliverArticleToChannelForum(
     article: Article,
     channelId: string,
-    details: DeliverArticleDetails
+    details: DeliverArticleDetails<DiscordMediumPayloadDetails>
   ): Promise<ArticleDeliveryState[]> {
     const {
       deliverySettings: {
@@ -643,6 +867,9 @@ export class DiscordMediumService implements DeliveryMedium {
           contentType: ArticleDeliveryContentType.DiscordArticleMessage,
           parent: details.deliveryId,
           articleIdHash: article.flattened.idHash,
+          discord: {
+            threadId,
+          },
         };
       })
     );
@@ -654,6 +881,12 @@ export class DiscordMediumService implements DeliveryMedium {
         mediumId: details.mediumId,
         contentType: ArticleDeliveryContentType.DiscordThreadCreation,
         articleIdHash: article.flattened.idHash,
+        // The starter message of forum threads shares the ID of the thread
+        discord: {
+          messageId: threadId,
+          channelId: threadId,
+          threadId,
+        },
       },
       ...additionalDeliveryStates,
     ];
@@ -662,7 +895,7 @@ export class DiscordMediumService implements DeliveryMedium {
   private async deliverArticleToChannel(
     article: Article,
     channelId: string,
-    details: DeliverArticleDetails
+    details: DeliverArticleDetails<DiscordMediumPayloadDetails>
   ): Promise<ArticleDeliveryState> {
     const {
       deliverySettings: {
@@ -732,7 +965,7 @@ export class DiscordMediumService implements DeliveryMedium {
       iconUrl?: string;
       threadId?: string | null;
     },
-    details: DeliverArticleDetails
+    details: DeliverArticleDetails<DiscordMediumPayloadDetails>
   ): Promise<ArticleDeliveryState> {
     const {
       deliverySettings: {
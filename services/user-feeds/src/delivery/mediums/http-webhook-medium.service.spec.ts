@@ -0,0 +1,256 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { createHmac } from "node:crypto";
+import { Interceptable, MockAgent, setGlobalDispatcher } from "undici";
+import { ArticleFormatterService } from "../../article-formatter/article-formatter.service";
+import {
+  Article,
+  ArticleDeliveryContentType,
+  ArticleDeliveryErrorCode,
+  HttpWebhookMediumPayloadDetails,
+} from "../../shared";
+import { ArticleDeliveryStatus } from "../types";
+import { DeliverArticleDetails } from "./delivery-medium.interface";
+import { HttpWebhookMediumService } from "./http-webhook-medium.service";
+
+// The dispatcher resolves hosts itself, so requests go through the global mock agent instead
+jest.mock("../utils/public-address-dispatcher", () => ({
+  publicAddressDispatcher: undefined,
+}));
+
+const webhookHost = "https://automation.example.com";
+const webhookPath = "/hooks/feeds";
+
+describe("HttpWebhookMediumService", () => {
+  let service: HttpWebhookMediumService;
+  let client: Interceptable;
+  const article: Article = {
+    flattened: {
+      id: "article-1",
+      idHash: "hash-1",
+      title: 'Some "quoted" title',
+      link: "https://example.com/1",
+    },
+    raw: {} as never,
+    injectArticleContent: jest.fn(),
+  };
+  const details: DeliverArticleDetails<HttpWebhookMediumPayloadDetails> = {
+    deliveryId: "delivery-id",
+    mediumId: "medium-id",
+    feedDetails: {
+      id: "feed-id",
+      url: "https://feed.com",
+      blockingComparisons: [],
+      passingComparisons: [],
+    },
+    filterReferences: {} as never,
+    deliverySettings: {
+      url: `${webhookHost}${webhookPath}`,
+      method: "POST",
+      headers: [],
+      bodyTemplate: JSON.stringify({
+        text: "{{title}}",
+        meta: {
+          links: ["{{link}}"],
+          count: 1,
+        },
+      }),
+      signingSecret: null,
+      retries: 0,
+      customPlaceholders: [],
+      formatter: {
+        stripImages: false,
+        formatTables: false,
+        disableImageLinkPreviews: false,
+      },
+      placeholderLimits: null,
+      enablePlaceholderFallback: false,
+    },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        HttpWebhookMediumService,
+        {
+          provide: ArticleFormatterService,
+          useValue: {
+            formatArticleForDiscord: jest.fn(),
+            applySplit: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<HttpWebhookMediumService>(HttpWebhookMediumService);
+
+    const agent = new MockAgent();
+    agent.disableNetConnect();
+    client = agent.get(webhookHost);
+
+    setGlobalDispatcher(agent);
+  });
+
+  describe("generateBody", () => {
+    it("replaces placeholders within string values of the template", () => {
+      const body = service.generateBody(article, details);
+
+      expect(JSON.parse(body)).toEqual({
+        text: 'Some "quoted" title',
+        meta: {
+          links: ["https://example.com/1"],
+          count: 1,
+        },
+      });
+    });
+
+    it("sends the flattened article if there is no template", () => {
+      const body = service.generateBody(article, {
+        ...details,
+        deliverySettings: {
+          ...details.deliverySettings,
+          bodyTemplate: null,
+        },
+      });
+
+      expect(JSON.parse(body)).toEqual({
+        feed: {
+          id: "feed-id",
+          url: "https://feed.com",
+        },
+        article: article.flattened,
+      });
+    });
+
+    it("throws if the template is not valid JSON", () => {
+      expect(() =>
+        service.generateBody(article, {
+          ...details,
+          deliverySettings: {
+            ...details.deliverySettings,
+            bodyTemplate: "{ invalid",
+          },
+        })
+      ).toThrow();
+    });
+  });
+
+  describe("deliverArticle", () => {
+    it("returns a sent state on a successful response", async () => {
+      client
+        .intercept({
+          path: webhookPath,
+          method: "POST",
+        })
+        .reply(200, "");
+
+      const result = await service.deliverArticle(article, details);
+
+      expect(result).toEqual([
+        {
+          id: details.deliveryId,
+          mediumId: details.mediumId,
+          articleIdHash: article.flattened.idHash,
+          status: ArticleDeliveryStatus.Sent,
+          contentType: ArticleDeliveryContentType.HttpWebhookRequest,
+        },
+      ]);
+    });
+
+    it("sends custom headers and a signature if a secret is set", async () => {
+      let receivedHeaders: Record<string, string> = {};
+      let receivedBody = "";
+
+      client
+        .intercept({
+          path: webhookPath,
+          method: "POST",
+        })
+        .reply(200, (opts) => {
+          receivedHeaders = opts.headers as Record<string, string>;
+          receivedBody = opts.body as string;
+
+          return "";
+        });
+
+      await service.deliverArticle(article, {
+        ...details,
+        deliverySettings: {
+          ...details.deliverySettings,
+          headers: [{ key: "Authorization", value: "Bearer token" }],
+          signingSecret: "secret",
+        },
+      });
+
+      const timestamp =
+        receivedHeaders[HttpWebhookMediumService.TIMESTAMP_HEADER];
+      const expectedSignature = createHmac("sha256", "secret")
+        .update(`${timestamp}.${receivedBody}`)
+        .digest("hex");
+
+      expect(receivedHeaders.authorization).toEqual("Bearer token");
+      expect(
+        receivedHeaders[HttpWebhookMediumService.DELIVERY_ID_HEADER]
+      ).toEqual(details.deliveryId);
+      expect(
+        receivedHeaders[HttpWebhookMediumService.SIGNATURE_HEADER]
+      ).toEqual(`sha256=${expectedSignature}`);
+    });
+
+    it("retries on server errors", async () => {
+      client
+        .intercept({
+          path: webhookPath,
+          method: "POST",
+        })
+        .reply(503, "");
+      client
+        .intercept({
+          path: webhookPath,
+          method: "POST",
+        })
+        .reply(200, "");
+
+      const result = await service.deliverArticle(article, {
+        ...details,
+        deliverySettings: {
+          ...details.deliverySettings,
+          retries: 1,
+        },
+      });
+
+      expect(result[0].status).toEqual(ArticleDeliveryStatus.Sent);
+    });
+
+    it("returns a rejected state on a not found response", async () => {
+      client
+        .intercept({
+          path: webhookPath,
+          method: "POST",
+        })
+        .reply(404, "not found");
+
+      const result = await service.deliverArticle(article, details);
+
+      expect(result[0]).toMatchObject({
+        status: ArticleDeliveryStatus.Rejected,
+        errorCode: ArticleDeliveryErrorCode.ThirdPartyNotFound,
+      });
+    });
+
+    it("returns a failed state if server errors persist", async () => {
+      client
+        .intercept({
+          path: webhookPath,
+          method: "POST",
+        })
+        .reply(500, "");
+
+      const result = await service.deliverArticle(article, details);
+
+      expect(result[0]).toMatchObject({
+        status: ArticleDeliveryStatus.Failed,
+        errorCode: ArticleDeliveryErrorCode.ThirdPartyInternal,
+      });
+    });
+  });
+});
@@ -0,0 +1,216 @@
+import {
+  DeliverArticleDetails,
+  DeliveryMedium,
+} from "./delivery-medium.interface";
+import { Injectable } from "@nestjs/common";
+import { createHmac } from "node:crypto";
+import {
+  Article,
+  ArticleDeliveryContentType,
+  ArticleDeliveryErrorCode,
+  ArticleDiscordFormatted,
+  HttpWebhookMediumPayloadDetails,
+} from "../../shared";
+import { ArticleDeliveryState, ArticleDeliveryStatus } from "../types";
+import logger from "../../shared/utils/logger";
+import { ArticleFormatterService } from "../../article-formatter/article-formatter.service";
+import { FormatOptions } from "../../article-formatter/types";
+import {
+  getDeliveryStateFromHttpResponse,
+  HttpDeliveryResponse,
+  renderArticleTemplate,
+  sendHttpDeliveryRequest,
+} from "../utils";
+
+@Injectable()
+export class HttpWebhookMediumService
+  implements DeliveryMedium<HttpWebhookMediumPayloadDetails>
+{
+  static SIGNATURE_HEADER = "x-monitorss-signature";
+  static TIMESTAMP_HEADER = "x-monitorss-timestamp";
+  static DELIVERY_ID_HEADER = "x-monitorss-delivery-id";
+
+  constructor(
+    private readonly articleFormatterService: ArticleFormatterService
+  ) {}
+
+  async formatArticle(
+    article: Article,
+    options: FormatOptions
+  ): Promise<ArticleDiscordFormatted> {
+    const { article: formatted } =
+      await this.articleFormatterService.formatArticleForDiscord(
+        article,
+        options
+      );
+
+    return formatted;
+  }
+
+  async deliverArticle(
+    article: Article,
+    details: DeliverArticleDetails<HttpWebhookMediumPayloadDetails>
+  ): Promise<ArticleDeliveryState[]> {
+    const { deliveryId, mediumId } = details;
+    const articleIdHash = article.flattened.idHash;
+    let body: string;
+
+    try {
+      body = this.generateBody(article, details);
+    } catch (err) {
+      return [
+        {
+          id: deliveryId,
+          mediumId,
+          status: ArticleDeliveryStatus.Rejected,
+          articleIdHash,
+          errorCode: ArticleDeliveryErrorCode.ArticleProcessingError,
+          internalMessage: (err as Error).message,
+          externalDetail: JSON.stringify({
+            message: (err as Error).message,
+          }),
+        },
+      ];
+    }
+
+    let response: HttpDeliveryResponse;
+
+    try {
+      response = await this.sendRequest(body, details);
+    } catch (err) {
+      logger.error(
+        `Failed to deliver article ${article.flattened.id} to HTTP webhook`,
+        {
+          deliveryId,
+          mediumId,
+          err: (err as Error).stack,
+        }
+      );
+
+      return [
+        {
+          id: deliveryId,
+          mediumId,
+          status: ArticleDeliveryStatus.Failed,
+          errorCode: ArticleDeliveryErrorCode.ThirdPartyInternal,
+          internalMessage: (err as Error).message,
+          articleIdHash,
+        },
+      ];
+    }
+
+    return [
+      getDeliveryStateFromHttpResponse(response, {
+        deliveryId,
+        mediumId,
+        articleIdHash,
+        contentType: ArticleDeliveryContentType.HttpWebhookRequest,
+        responseType: "HTTP_WEBHOOK_RESPONSE",
+        requestBody: JSON.parse(body),
+      }),
+    ];
+  }
+
+  /**
+   * The body template is parsed before placeholders are replaced so that article content never
+   * needs to be escaped to produce valid JSON.
+   */
+  generateBody(
+    article: Article,
+    {
+      deliverySettings: {
+        bodyTemplate,
+        placeholderLimits,
+        enablePlaceholderFallback,
+      },
+      feedDetails,
+    }: Pick<
+      DeliverArticleDetails<HttpWebhookMediumPayloadDetails>,
+      "deliverySettings" | "feedDetails"
+    >
+  ): string {
+    if (!bodyTemplate) {
+      return JSON.stringify({
+        feed: {
+          id: feedDetails.id,
+          url: feedDetails.url,
+        },
+        article: article.flattened,
+      });
+    }
+
+    let parsedTemplate: unknown;
+
+    try {
+      parsedTemplate = JSON.parse(bodyTemplate);
+    } catch (err) {
+      throw new Error(
+        `Body template is not valid JSON: ${(err as Error).message}`
+      );
+    }
+
+    const replaceValues = (value: unknown): unknown => {
+      if (typeof value === "string") {
+        return renderArticleTemplate(article, value, {
+          articleFormatterService: this.articleFormatterService,
+          placeholderLimits,
+          enablePlaceholderFallback,
+        });
+      }
+
+      if (Array.isArray(value)) {
+        return value.map(replaceValues);
+      }
+
+      if (value && typeof value === "object") {
+        return Object.fromEntries(
+          Object.entries(value).map(([key, val]) => [key, replaceValues(val)])
+        );
+      }
+
+      return value;
+    };
+
+    return JSON.stringify(replaceValues(parsedTemplate));
+  }
+
+  generateSignature(secret: string, timestamp: string, body: string) {
+    const hmac = createHmac("sha256", secret)
+      .update(`${timestamp}.${body}`)
+      .digest("hex");
+
+    return `sha256=${hmac}`;
+  }
+
+  private async sendRequest(
+    body: string,
+    {
+      deliveryId,
+      deliverySettings: { url, method, headers, signingSecret, retries },
+    }: DeliverArticleDetails<HttpWebhookMediumPayloadDetails>
+  ): Promise<HttpDeliveryResponse> {
+    const requestHeaders: Record<string, string> = {};
+
+    headers?.forEach(({ key, value }) => {
+      requestHeaders[key.toLowerCase()] = value;
+    });
+
+    requestHeaders["content-type"] = "application/json";
+    requestHeaders[HttpWebhookMediumService.DELIVERY_ID_HEADER] = deliveryId;
+
+    if (signingSecret) {
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+
+      requestHeaders[HttpWebhookMediumService.TIMESTAMP_HEADER] = timestamp;
+      requestHeaders[HttpWebhookMediumService.SIGNATURE_HEADER] =
+        this.generateSignature(signingSecret, timestamp, body);
+    }
+
+    return sendHttpDeliveryRequest(url, {
+      method,
+      headers: requestHeaders,
+      body,
+      retries,
+    });
+  }
+}
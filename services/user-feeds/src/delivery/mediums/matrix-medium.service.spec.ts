@@ -0,0 +1,129 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { Interceptable, MockAgent, setGlobalDispatcher } from "undici";
+import { ArticleFormatterService } from "../../article-formatter/article-formatter.service";
+import {
+  Article,
+  ArticleDeliveryContentType,
+  ArticleDeliveryErrorCode,
+  MatrixMediumPayloadDetails,
+} from "../../shared";
+import { ArticleDeliveryStatus } from "../types";
+import { DeliverArticleDetails } from "./delivery-medium.interface";
+import { MatrixMediumService } from "./matrix-medium.service";
+
+// The dispatcher resolves hosts itself, so requests go through the global mock agent instead
+jest.mock("../utils/public-address-dispatcher", () => ({
+  publicAddressDispatcher: undefined,
+}));
+
+const homeserverUrl = "https://matrix.example.com";
+const roomId = "!room:example.com";
+const sendPath =
+  `/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}` +
+  `/send/m.room.message/delivery-id`;
+
+describe("MatrixMediumService", () => {
+  let service: MatrixMediumService;
+  let client: Interceptable;
+  const article: Article = {
+    flattened: {
+      id: "article-1",
+      idHash: "hash-1",
+      title: "Article title",
+    },
+    raw: {} as never,
+    injectArticleContent: jest.fn(),
+  };
+  const details: DeliverArticleDetails<MatrixMediumPayloadDetails> = {
+    deliveryId: "delivery-id",
+    mediumId: "medium-id",
+    feedDetails: {
+      id: "feed-id",
+      url: "https://feed.com",
+      blockingComparisons: [],
+      passingComparisons: [],
+    },
+    filterReferences: {} as never,
+    deliverySettings: {
+      homeserverUrl: `${homeserverUrl}/`,
+      roomId,
+      accessToken: "access-token",
+      msgtype: "m.notice",
+      content: "New: {{title}}",
+      customPlaceholders: [],
+      formatter: {
+        stripImages: false,
+        formatTables: false,
+        disableImageLinkPreviews: false,
+      },
+      placeholderLimits: null,
+      enablePlaceholderFallback: false,
+    },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [MatrixMediumService, ArticleFormatterService],
+    }).compile();
+
+    service = module.get<MatrixMediumService>(MatrixMediumService);
+
+    const agent = new MockAgent();
+    agent.disableNetConnect();
+    client = agent.get(homeserverUrl);
+
+    setGlobalDispatcher(agent);
+  });
+
+  describe("deliverArticle", () => {
+    it("sends the message with the delivery id as the transaction id", async () => {
+      let receivedBody = "";
+      let receivedHeaders: Record<string, string> = {};
+
+      client
+        .intercept({
+          path: sendPath,
+          method: "PUT",
+        })
+        .reply(200, (opts) => {
+          receivedBody = opts.body as string;
+          receivedHeaders = opts.headers as Record<string, string>;
+
+          return JSON.stringify({ event_id: "$event" });
+        });
+
+      const result = await service.deliverArticle(article, details);
+
+      expect(JSON.parse(receivedBody)).toEqual({
+        msgtype: "m.notice",
+        body: "New: Article title",
+      });
+      expect(receivedHeaders.authorization).toEqual("Bearer access-token");
+      expect(result).toEqual([
+        {
+          id: details.deliveryId,
+          mediumId: details.mediumId,
+          articleIdHash: article.flattened.idHash,
+          status: ArticleDeliveryStatus.Sent,
+          contentType: ArticleDeliveryContentType.MatrixMessage,
+        },
+      ]);
+    });
+
+    it("returns a rejected state if the user is not in the room", async () => {
+      client
+        .intercept({
+          path: sendPath,
+          method: "PUT",
+        })
+        .reply(403, JSON.stringify({ errcode: "M_FORBIDDEN" }));
+
+      const result = await service.deliverArticle(article, details);
+
+      expect(result[0]).toMatchObject({
+        status: ArticleDeliveryStatus.Rejected,
+        errorCode: ArticleDeliveryErrorCode.ThirdPartyForbidden,
+      });
+    });
+  });
+});
@@ -0,0 +1,186 @@
+import {
+  DeliverArticleDetails,
+  DeliveryMedium,
+} from "./delivery-medium.interface";
+import { Injectable } from "@nestjs/common";
+import { randomUUID } from "node:crypto";
+import {
+  Article,
+  ArticleDeliveryContentType,
+  ArticleDeliveryErrorCode,
+  MatrixMediumPayloadDetails,
+} from "../../shared";
+import {
+  ArticleDeliveryState,
+  ArticleDeliveryStatus,
+  MatrixMessageApiPayload,
+} from "../types";
+import logger from "../../shared/utils/logger";
+import { ArticleFormatterService } from "../../article-formatter/article-formatter.service";
+import { FormatOptions } from "../../article-formatter/types";
+import {
+  getDeliveryStateFromHttpResponse,
+  HttpDeliveryResponse,
+  renderArticleTemplate,
+  sendHttpDeliveryRequest,
+} from "../utils";
+
+@Injectable()
+export class MatrixMediumService
+  implements DeliveryMedium<MatrixMediumPayloadDetails>
+{
+  static RETRIES = 2;
+
+  constructor(
+    private readonly articleFormatterService: ArticleFormatterService
+  ) {}
+
+  /**
+   * The transaction ID makes retried requests idempotent on the homeserver.
+   */
+  private getSendMessageApiUrl(
+    homeserverUrl: string,
+    roomId: string,
+    transactionId: string
+  ) {
+    const baseUrl = homeserverUrl.replace(/\/+$/, "");
+
+    return (
+      `${baseUrl}/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}` +
+      `/send/m.room.message/${encodeURIComponent(transactionId)}`
+    );
+  }
+
+  async formatArticle(
+    article: Article,
+    options: FormatOptions
+  ): Promise<Article> {
+    const { article: formatted } =
+      await this.articleFormatterService.formatArticleForMatrix(
+        article,
+        options
+      );
+
+    return formatted;
+  }
+
+  async deliverTestArticle(
+    article: Article,
+    {
+      mediumDetails,
+    }: {
+      mediumDetails: MatrixMediumPayloadDetails;
+    }
+  ): Promise<{
+    apiPayload: MatrixMessageApiPayload;
+    result: HttpDeliveryResponse;
+  }> {
+    const apiPayload = this.generateApiPayload(article, mediumDetails);
+
+    const result = await this.sendMessage(apiPayload, mediumDetails, {
+      transactionId: randomUUID(),
+      retries: 0,
+    });
+
+    return {
+      apiPayload,
+      result,
+    };
+  }
+
+  async deliverArticle(
+    article: Article,
+    details: DeliverArticleDetails<MatrixMediumPayloadDetails>
+  ): Promise<ArticleDeliveryState[]> {
+    const { deliveryId, mediumId, deliverySettings } = details;
+    const articleIdHash = article.flattened.idHash;
+    const apiPayload = this.generateApiPayload(article, deliverySettings);
+
+    try {
+      const response = await this.sendMessage(apiPayload, deliverySettings, {
+        transactionId: deliveryId,
+        retries: MatrixMediumService.RETRIES,
+      });
+
+      return [
+        getDeliveryStateFromHttpResponse(response, {
+          deliveryId,
+          mediumId,
+          articleIdHash,
+          contentType: ArticleDeliveryContentType.MatrixMessage,
+          responseType: "MATRIX_RESPONSE",
+          requestBody: apiPayload,
+        }),
+      ];
+    } catch (err) {
+      logger.error(
+        `Failed to deliver article ${article.flattened.id} to Matrix room`,
+        {
+          deliveryId,
+          mediumId,
+          roomId: deliverySettings.roomId,
+          err: (err as Error).stack,
+        }
+      );
+
+      return [
+        {
+          id: deliveryId,
+          mediumId,
+          status: ArticleDeliveryStatus.Failed,
+          errorCode: ArticleDeliveryErrorCode.ThirdPartyInternal,
+          internalMessage: (err as Error).message,
+          articleIdHash,
+        },
+      ];
+    }
+  }
+
+  generateApiPayload(
+    article: Article,
+    {
+      msgtype,
+      content,
+      placeholderLimits,
+      enablePlaceholderFallback,
+    }: Pick<
+      MatrixMediumPayloadDetails,
+      "msgtype" | "content" | "placeholderLimits" | "enablePlaceholderFallback"
+    >
+  ): MatrixMessageApiPayload {
+    return {
+      msgtype,
+      body: renderArticleTemplate(article, content, {
+        articleFormatterService: this.articleFormatterService,
+        placeholderLimits,
+        enablePlaceholderFallback,
+      }),
+    };
+  }
+
+  private async sendMessage(
+    apiPayload: MatrixMessageApiPayload,
+    {
+      homeserverUrl,
+      roomId,
+      accessToken,
+    }: Pick<
+      MatrixMediumPayloadDetails,
+      "homeserverUrl" | "roomId" | "accessToken"
+    >,
+    { transactionId, retries }: { transactionId: string; retries: number }
+  ) {
+    return sendHttpDeliveryRequest(
+      this.getSendMessageApiUrl(homeserverUrl, roomId, transactionId),
+      {
+        method: "PUT",
+        headers: {
+          "content-type": "application/json",
+          authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify(apiPayload),
+        retries,
+      }
+    );
+  }
+}
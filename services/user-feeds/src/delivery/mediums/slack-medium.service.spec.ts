@@ -0,0 +1,168 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { Interceptable, MockAgent, setGlobalDispatcher } from "undici";
+import { ArticleFormatterService } from "../../article-formatter/article-formatter.service";
+import {
+  Article,
+  ArticleDeliveryContentType,
+  ArticleDeliveryErrorCode,
+  SlackMediumPayloadDetails,
+} from "../../shared";
+import { ArticleDeliveryStatus } from "../types";
+import { DeliverArticleDetails } from "./delivery-medium.interface";
+import { SlackMediumService } from "./slack-medium.service";
+
+// The dispatcher resolves hosts itself, so requests go through the global mock agent instead
+jest.mock("../utils/public-address-dispatcher", () => ({
+  publicAddressDispatcher: undefined,
+}));
+
+const webhookHost = "https://hooks.slack.com";
+const webhookPath = "/services/T000/B000/XXXX";
+
+describe("SlackMediumService", () => {
+  let service: SlackMediumService;
+  let client: Interceptable;
+  const article: Article = {
+    flattened: {
+      id: "article-1",
+      idHash: "hash-1",
+      title: "Article title",
+      description: "Article description",
+      image: "https://example.com/image.png",
+    },
+    raw: {} as never,
+    injectArticleContent: jest.fn(),
+  };
+  const deliverySettings: SlackMediumPayloadDetails = {
+    webhookUrl: `${webhookHost}${webhookPath}`,
+    headerText: "{{title}}",
+    content: "{{description}}",
+    imageUrl: "{{image}}",
+    customPlaceholders: [],
+    formatter: {
+      stripImages: false,
+      formatTables: false,
+      disableImageLinkPreviews: true,
+    },
+    placeholderLimits: null,
+    enablePlaceholderFallback: false,
+  };
+  const details: DeliverArticleDetails<SlackMediumPayloadDetails> = {
+    deliveryId: "delivery-id",
+    mediumId: "medium-id",
+    feedDetails: {
+      id: "feed-id",
+      url: "https://feed.com",
+      blockingComparisons: [],
+      passingComparisons: [],
+    },
+    filterReferences: {} as never,
+    deliverySettings,
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [SlackMediumService, ArticleFormatterService],
+    }).compile();
+
+    service = module.get<SlackMediumService>(SlackMediumService);
+
+    const agent = new MockAgent();
+    agent.disableNetConnect();
+    client = agent.get(webhookHost);
+
+    setGlobalDispatcher(agent);
+  });
+
+  describe("generateApiPayload", () => {
+    it("generates header, section and image blocks", () => {
+      const payload = service.generateApiPayload(article, deliverySettings);
+
+      expect(payload).toEqual({
+        text: "Article description",
+        blocks: [
+          {
+            type: "header",
+            text: {
+              type: "plain_text",
+              text: "Article title",
+              emoji: true,
+            },
+          },
+          {
+            type: "section",
+            text: {
+              type: "mrkdwn",
+              text: "Article description",
+            },
+          },
+          {
+            type: "image",
+            image_url: "https://example.com/image.png",
+            alt_text: "Article title",
+          },
+        ],
+        unfurl_links: false,
+        unfurl_media: false,
+      });
+    });
+
+    it("splits long content into multiple sections", () => {
+      const payload = service.generateApiPayload(
+        {
+          ...article,
+          flattened: {
+            ...article.flattened,
+            description: "a".repeat(SlackMediumService.SECTION_TEXT_LIMIT + 10),
+          },
+        },
+        {
+          ...deliverySettings,
+          headerText: null,
+          imageUrl: null,
+        }
+      );
+
+      expect(payload.blocks).toHaveLength(2);
+    });
+  });
+
+  describe("deliverArticle", () => {
+    it("returns a sent state on a successful response", async () => {
+      client
+        .intercept({
+          path: webhookPath,
+          method: "POST",
+        })
+        .reply(200, "ok");
+
+      const result = await service.deliverArticle(article, details);
+
+      expect(result).toEqual([
+        {
+          id: details.deliveryId,
+          mediumId: details.mediumId,
+          articleIdHash: article.flattened.idHash,
+          status: ArticleDeliveryStatus.Sent,
+          contentType: ArticleDeliveryContentType.SlackMessage,
+        },
+      ]);
+    });
+
+    it("returns a rejected state if the channel is archived", async () => {
+      client
+        .intercept({
+          path: webhookPath,
+          method: "POST",
+        })
+        .reply(410, "channel_is_archived");
+
+      const result = await service.deliverArticle(article, details);
+
+      expect(result[0]).toMatchObject({
+        status: ArticleDeliveryStatus.Rejected,
+        errorCode: ArticleDeliveryErrorCode.ThirdPartyNotFound,
+      });
+    });
+  });
+});
@@ -0,0 +1,217 @@
+import {
+  DeliverArticleDetails,
+  DeliveryMedium,
+} from "./delivery-medium.interface";
+import { Injectable } from "@nestjs/common";
+import {
+  Article,
+  ArticleDeliveryContentType,
+  ArticleDeliveryErrorCode,
+  SlackMediumPayloadDetails,
+} from "../../shared";
+import {
+  ArticleDeliveryState,
+  ArticleDeliveryStatus,
+  SlackBlock,
+  SlackMessageApiPayload,
+} from "../types";
+import logger from "../../shared/utils/logger";
+import { ArticleFormatterService } from "../../article-formatter/article-formatter.service";
+import { FormatOptions } from "../../article-formatter/types";
+import {
+  getDeliveryStateFromHttpResponse,
+  HttpDeliveryResponse,
+  renderArticleTemplate,
+  sendHttpDeliveryRequest,
+} from "../utils";
+
+@Injectable()
+export class SlackMediumService
+  implements DeliveryMedium<SlackMediumPayloadDetails>
+{
+  static HEADER_TEXT_LIMIT = 150;
+  static SECTION_TEXT_LIMIT = 3000;
+  static RETRIES = 2;
+
+  constructor(
+    private readonly articleFormatterService: ArticleFormatterService
+  ) {}
+
+  async formatArticle(
+    article: Article,
+    options: FormatOptions
+  ): Promise<Article> {
+    const { article: formatted } =
+      await this.articleFormatterService.formatArticleForSlack(
+        article,
+        options
+      );
+
+    return formatted;
+  }
+
+  async deliverTestArticle(
+    article: Article,
+    {
+      mediumDetails,
+    }: {
+      mediumDetails: SlackMediumPayloadDetails;
+    }
+  ): Promise<{
+    apiPayload: SlackMessageApiPayload;
+    result: HttpDeliveryResponse;
+  }> {
+    const apiPayload = this.generateApiPayload(article, mediumDetails);
+
+    const result = await sendHttpDeliveryRequest(mediumDetails.webhookUrl, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+      },
+      body: JSON.stringify(apiPayload),
+      retries: 0,
+    });
+
+    return {
+      apiPayload,
+      result,
+    };
+  }
+
+  async deliverArticle(
+    article: Article,
+    details: DeliverArticleDetails<SlackMediumPayloadDetails>
+  ): Promise<ArticleDeliveryState[]> {
+    const { deliveryId, mediumId, deliverySettings } = details;
+    const articleIdHash = article.flattened.idHash;
+    const apiPayload = this.generateApiPayload(article, deliverySettings);
+
+    try {
+      const response = await sendHttpDeliveryRequest(
+        deliverySettings.webhookUrl,
+        {
+          method: "POST",
+          headers: {
+            "content-type": "application/json",
+          },
+          body: JSON.stringify(apiPayload),
+          retries: SlackMediumService.RETRIES,
+        }
+      );
+
+      return [
+        getDeliveryStateFromHttpResponse(response, {
+          deliveryId,
+          mediumId,
+          articleIdHash,
+          contentType: ArticleDeliveryContentType.SlackMessage,
+          responseType: "SLACK_RESPONSE",
+          requestBody: apiPayload,
+        }),
+      ];
+    } catch (err) {
+      logger.error(
+        `Failed to deliver article ${article.flattened.id} to Slack webhook`,
+        {
+          deliveryId,
+          mediumId,
+          err: (err as Error).stack,
+        }
+      );
+
+      return [
+        {
+          id: deliveryId,
+          mediumId,
+          status: ArticleDeliveryStatus.Failed,
+          errorCode: ArticleDeliveryErrorCode.ThirdPartyInternal,
+          internalMessage: (err as Error).message,
+          articleIdHash,
+        },
+      ];
+    }
+  }
+
+  generateApiPayload(
+    article: Article,
+    {
+      headerText,
+      content,
+      imageUrl,
+      formatter,
+      placeholderLimits,
+      enablePlaceholderFallback,
+    }: Pick<
+      SlackMediumPayloadDetails,
+      | "headerText"
+      | "content"
+      | "imageUrl"
+      | "formatter"
+      | "placeholderLimits"
+      | "enablePlaceholderFallback"
+    >
+  ): SlackMessageApiPayload {
+    const renderOptions = {
+      articleFormatterService: this.articleFormatterService,
+      placeholderLimits,
+      enablePlaceholderFallback,
+    };
+    const blocks: SlackBlock[] = [];
+
+    const header = renderArticleTemplate(article, headerText, renderOptions);
+
+    if (header) {
+      blocks.push({
+        type: "header",
+        text: {
+          type: "plain_text",
+          text: this.articleFormatterService.applySplit(header, {
+            limit: SlackMediumService.HEADER_TEXT_LIMIT,
+            appendChar: "...",
+            isEnabled: true,
+            includeAppendInFirstPart: true,
+          })[0],
+          emoji: true,
+        },
+      });
+    }
+
+    const text = renderArticleTemplate(article, content, renderOptions);
+
+    if (text) {
+      const sections = this.articleFormatterService.applySplit(text, {
+        limit: SlackMediumService.SECTION_TEXT_LIMIT,
+        isEnabled: true,
+      });
+
+      sections
+        .filter((section) => !!section)
+        .forEach((section) => {
+          blocks.push({
+            type: "section",
+            text: {
+              type: "mrkdwn",
+              text: section,
+            },
+          });
+        });
+    }
+
+    const image = renderArticleTemplate(article, imageUrl, renderOptions);
+
+    if (image) {
+      blocks.push({
+        type: "image",
+        image_url: image,
+        alt_text: header || "Article image",
+      });
+    }
+
+    return {
+      text: text || header,
+      blocks,
+      unfurl_links: !formatter.disableImageLinkPreviews,
+      unfurl_media: !formatter.disableImageLinkPreviews,
+    };
+  }
+}
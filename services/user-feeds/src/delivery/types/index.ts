@@ -2,3 +2,5 @@ export * from "./discord-details.type";
 export * from "../../shared/types/delivery-state.type";
 export * from "./discord-message-api-payload.type";
 export * from "./test-discord-delivery-details.type";
+export * from "./slack-message-api-payload.type";
+export * from "./matrix-message-api-payload.type";
@@ -0,0 +1,4 @@
+export interface MatrixMessageApiPayload {
+  msgtype: "m.text" | "m.notice";
+  body: string;
+}
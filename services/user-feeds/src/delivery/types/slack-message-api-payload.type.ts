@@ -0,0 +1,28 @@
+export interface SlackMessageApiPayload {
+  text: string;
+  blocks: SlackBlock[];
+  unfurl_links?: boolean;
+  unfurl_media?: boolean;
+}
+
+export type SlackBlock =
+  | {
+      type: "header";
+      text: {
+        type: "plain_text";
+        text: string;
+        emoji?: boolean;
+      };
+    }
+  | {
+      type: "section";
+      text: {
+        type: "mrkdwn";
+        text: string;
+      };
+    }
+  | {
+      type: "image";
+      image_url: string;
+      alt_text: string;
+    };
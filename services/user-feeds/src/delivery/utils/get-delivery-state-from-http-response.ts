@@ -0,0 +1,76 @@
+import {
+  ArticleDeliveryContentType,
+  ArticleDeliveryErrorCode,
+} from "../../shared";
+import { ArticleDeliveryState, ArticleDeliveryStatus } from "../types";
+import { HttpDeliveryResponse } from "./send-http-delivery-request";
+
+export const getDeliveryStateFromHttpResponse = (
+  { statusCode, body }: HttpDeliveryResponse,
+  {
+    deliveryId,
+    mediumId,
+    articleIdHash,
+    contentType,
+    responseType,
+    requestBody,
+  }: {
+    deliveryId: string;
+    mediumId: string;
+    articleIdHash: string;
+    contentType: ArticleDeliveryContentType;
+    /**
+     * Used by the client to display the rejected response.
+     */
+    responseType: string;
+    requestBody: unknown;
+  }
+): ArticleDeliveryState => {
+  const baseState = {
+    id: deliveryId,
+    mediumId,
+    articleIdHash,
+  };
+
+  if (statusCode >= 200 && statusCode < 300) {
+    return {
+      ...baseState,
+      status: ArticleDeliveryStatus.Sent,
+      contentType,
+    };
+  }
+
+  const internalMessage = `Status: ${statusCode}, Body: ${body}`;
+
+  if (statusCode === 429 || statusCode >= 500) {
+    return {
+      ...baseState,
+      status: ArticleDeliveryStatus.Failed,
+      errorCode: ArticleDeliveryErrorCode.ThirdPartyInternal,
+      internalMessage,
+    };
+  }
+
+  let errorCode = ArticleDeliveryErrorCode.ThirdPartyBadRequest;
+
+  if (statusCode === 401 || statusCode === 403) {
+    errorCode = ArticleDeliveryErrorCode.ThirdPartyForbidden;
+  } else if (statusCode === 404 || statusCode === 410) {
+    errorCode = ArticleDeliveryErrorCode.ThirdPartyNotFound;
+  }
+
+  return {
+    ...baseState,
+    status: ArticleDeliveryStatus.Rejected,
+    errorCode,
+    internalMessage,
+    externalDetail: JSON.stringify({
+      type: responseType,
+      data: {
+        statusCode,
+        responseBody: body,
+        requestBody,
+      },
+    }),
+  };
+};
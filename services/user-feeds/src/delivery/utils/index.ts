@@ -0,0 +1,5 @@
+export * from "./send-http-delivery-request";
+export * from "./get-delivery-state-from-http-response";
+export * from "./render-article-template";
+export * from "./is-within-delivery-window";
+export * from "./is-private-or-reserved-address";
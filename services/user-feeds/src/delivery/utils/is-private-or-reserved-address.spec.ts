@@ -0,0 +1,30 @@
+import { isPrivateOrReservedAddress } from "./is-private-or-reserved-address";
+
+describe("isPrivateOrReservedAddress", () => {
+  it("returns true for private and reserved addresses", () => {
+    [
+      "127.0.0.1",
+      "10.1.2.3",
+      "172.16.0.1",
+      "192.168.1.1",
+      "169.254.169.254",
+      "0.0.0.0",
+      "::1",
+      "fd00::1",
+      "fe80::1",
+      "::ffff:127.0.0.1",
+    ].forEach((address) => {
+      expect(isPrivateOrReservedAddress(address)).toEqual(true);
+    });
+  });
+
+  it("returns false for public addresses", () => {
+    ["1.1.1.1", "8.8.8.8", "2606:4700:4700::1111"].forEach((address) => {
+      expect(isPrivateOrReservedAddress(address)).toEqual(false);
+    });
+  });
+
+  it("returns false for hostnames", () => {
+    expect(isPrivateOrReservedAddress("example.com")).toEqual(false);
+  });
+});
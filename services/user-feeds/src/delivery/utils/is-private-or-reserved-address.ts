@@ -0,0 +1,51 @@
+import { BlockList, isIP } from "net";
+
+const blockList = new BlockList();
+
+[
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+].forEach(([address, prefix]) =>
+  blockList.addSubnet(address as string, prefix as number, "ipv4")
+);
+
+[
+  ["::", 128],
+  ["::1", 128],
+  // NAT64 addresses could otherwise reach private IPv4 addresses. IPv4-mapped addresses are
+  // already checked against the IPv4 subnets.
+  ["64:ff9b::", 96],
+  ["2001:db8::", 32],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+].forEach(([address, prefix]) =>
+  blockList.addSubnet(address as string, prefix as number, "ipv6")
+);
+
+/**
+ * Whether an IP address is loopback, private, link-local (which includes cloud metadata
+ * endpoints) or otherwise reserved, and so must never be requested on behalf of users.
+ * Hostnames that are not IP addresses are never considered private.
+ */
+export const isPrivateOrReservedAddress = (address: string) => {
+  const family = isIP(address);
+
+  if (!family) {
+    return false;
+  }
+
+  return blockList.check(address, family === 6 ? "ipv6" : "ipv4");
+};
@@ -0,0 +1,99 @@
+import { MediumSchedule } from "../../shared";
+import { isWithinDeliveryWindow } from "./is-within-delivery-window";
+
+describe("isWithinDeliveryWindow", () => {
+  const baseSchedule: MediumSchedule = {
+    timezone: null,
+    quietHours: null,
+    weekdaysOnly: false,
+    digest: null,
+  };
+
+  it("returns true if there is no schedule", () => {
+    expect(isWithinDeliveryWindow(null)).toEqual(true);
+  });
+
+  it("returns false on weekends if only weekdays are allowed", () => {
+    // Saturday
+    const date = new Date("2024-01-06T12:00:00Z");
+
+    expect(
+      isWithinDeliveryWindow({ ...baseSchedule, weekdaysOnly: true }, date)
+    ).toEqual(false);
+  });
+
+  it("returns true on weekdays if only weekdays are allowed", () => {
+    // Monday
+    const date = new Date("2024-01-08T12:00:00Z");
+
+    expect(
+      isWithinDeliveryWindow({ ...baseSchedule, weekdaysOnly: true }, date)
+    ).toEqual(true);
+  });
+
+  it("evaluates weekdays in the schedule timezone", () => {
+    // Monday 01:00 UTC is still Sunday in New York
+    const date = new Date("2024-01-08T01:00:00Z");
+
+    expect(
+      isWithinDeliveryWindow(
+        { ...baseSchedule, weekdaysOnly: true, timezone: "America/New_York" },
+        date
+      )
+    ).toEqual(false);
+  });
+
+  it.each([
+    { time: "09:59", expected: true },
+    { time: "10:00", expected: false },
+    { time: "11:59", expected: false },
+    { time: "12:00", expected: true },
+  ])(
+    "returns $expected at $time for same-day quiet hours",
+    ({ time, expected }) => {
+      const date = new Date(`2024-01-08T${time}:00Z`);
+
+      expect(
+        isWithinDeliveryWindow(
+          { ...baseSchedule, quietHours: { start: "10:00", end: "12:00" } },
+          date
+        )
+      ).toEqual(expected);
+    }
+  );
+
+  it.each([
+    { time: "21:59", expected: true },
+    { time: "22:00", expected: false },
+    { time: "03:00", expected: false },
+    { time: "07:00", expected: true },
+  ])(
+    "returns $expected at $time for overnight quiet hours",
+    ({ time, expected }) => {
+      const date = new Date(`2024-01-08T${time}:00Z`);
+
+      expect(
+        isWithinDeliveryWindow(
+          { ...baseSchedule, quietHours: { start: "22:00", end: "07:00" } },
+          date
+        )
+      ).toEqual(expected);
+    }
+  );
+
+  it("evaluates quiet hours in the schedule timezone", () => {
+    // 12:00 UTC is 07:00 in New York
+    const date = new Date("2024-01-08T12:00:00Z");
+
+    expect(
+      isWithinDeliveryWindow(
+        {
+          ...baseSchedule,
+          timezone: "America/New_York",
+          quietHours: { start: "22:00", end: "08:00" },
+        },
+        date
+      )
+    ).toEqual(false);
+  });
+});
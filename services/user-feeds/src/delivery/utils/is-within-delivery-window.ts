@@ -0,0 +1,51 @@
+import dayjs from "dayjs";
+import timezone from "dayjs/plugin/timezone";
+import utc from "dayjs/plugin/utc";
+import { MediumSchedule } from "../../shared";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+const getMinutesOfDay = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+
+  return hours * 60 + minutes;
+};
+
+/**
+ * Whether articles may currently be delivered to a medium with the given schedule.
+ */
+export const isWithinDeliveryWindow = (
+  schedule: MediumSchedule | null | undefined,
+  date = new Date()
+) => {
+  if (!schedule) {
+    return true;
+  }
+
+  const now = dayjs(date).tz(schedule.timezone || "UTC");
+  const dayOfWeek = now.day();
+
+  if (schedule.weekdaysOnly && (dayOfWeek === 0 || dayOfWeek === 6)) {
+    return false;
+  }
+
+  if (!schedule.quietHours) {
+    return true;
+  }
+
+  const start = getMinutesOfDay(schedule.quietHours.start);
+  const end = getMinutesOfDay(schedule.quietHours.end);
+  const current = now.hour() * 60 + now.minute();
+
+  if (start === end) {
+    return true;
+  }
+
+  const isQuiet =
+    start < end
+      ? current >= start && current < end
+      : current >= start || current < end;
+
+  return !isQuiet;
+};
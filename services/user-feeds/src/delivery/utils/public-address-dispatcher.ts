@@ -0,0 +1,40 @@
+import { Agent } from "undici";
+import { lookup, LookupOptions } from "dns";
+import { LookupFunction } from "net";
+import { isPrivateOrReservedAddress } from "./is-private-or-reserved-address";
+
+/**
+ * Resolved addresses are checked right before connecting, so that hostnames cannot be pointed at
+ * private addresses after they were validated
+ */
+const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  // Sockets may request every address of the host at once to try them in turn
+  lookup(hostname, options as LookupOptions, (err, address, family) => {
+    if (err) {
+      return callback(err, address as string, family);
+    }
+
+    const addresses = Array.isArray(address) ? address : [{ address }];
+    const privateAddress = addresses.find((a) =>
+      isPrivateOrReservedAddress(a.address)
+    );
+
+    if (privateAddress) {
+      return callback(
+        new Error(
+          `Host ${hostname} resolves to the private or reserved address ${privateAddress.address}`
+        ),
+        address as string,
+        family
+      );
+    }
+
+    callback(null, address as string, family);
+  });
+};
+
+export const publicAddressDispatcher = new Agent({
+  connect: {
+    lookup: lookupPublicAddress,
+  },
+});
@@ -0,0 +1,37 @@
+import { ArticleFormatterService } from "../../article-formatter/article-formatter.service";
+import { replaceTemplateString } from "../../articles/utils/replace-template-string";
+import { Article, DiscordMediumPayloadDetails } from "../../shared";
+
+export const renderArticleTemplate = (
+  article: Article,
+  template: string | null | undefined,
+  {
+    articleFormatterService,
+    placeholderLimits,
+    enablePlaceholderFallback,
+  }: {
+    articleFormatterService: ArticleFormatterService;
+    placeholderLimits: DiscordMediumPayloadDetails["placeholderLimits"];
+    enablePlaceholderFallback: boolean;
+  }
+): string => {
+  return (
+    replaceTemplateString(article.flattened, template, {
+      supportFallbacks: enablePlaceholderFallback,
+      split: {
+        func: (str, { limit, appendString }) => {
+          return articleFormatterService.applySplit(str, {
+            appendChar: appendString,
+            limit,
+            isEnabled: true,
+            includeAppendInFirstPart: true,
+          })[0];
+        },
+        limits: placeholderLimits?.map((r) => ({
+          key: r.placeholder,
+          ...r,
+        })),
+      },
+    }) || ""
+  );
+};
@@ -0,0 +1,112 @@
+import { request } from "undici";
+import pRetry from "p-retry";
+import { isPrivateOrReservedAddress } from "./is-private-or-reserved-address";
+import { publicAddressDispatcher } from "./public-address-dispatcher";
+
+const REQUEST_TIMEOUT_MS = 15000;
+/**
+ * Responses are only kept for delivery records and error detection, so the rest is not read
+ */
+const MAX_RESPONSE_BYTES = 64 * 1024;
+/**
+ * Deliveries of a feed are sent one after another, so a failing host must not hold up the rest
+ * for long. Deliveries that still fail are recorded as failed instead.
+ */
+const MAX_RETRIES = 2;
+
+export interface HttpDeliveryResponse {
+  statusCode: number;
+  body: string;
+}
+
+class RetryableStatusException extends Error {
+  constructor(public readonly response: HttpDeliveryResponse) {
+    super(`Received retryable status code ${response.statusCode}`);
+  }
+}
+
+/**
+ * Breaking out of the loop destroys the stream, so the rest of the body is never downloaded
+ */
+const readResponseBody = async (body: AsyncIterable<Buffer>) => {
+  const chunks: Buffer[] = [];
+  let byteLength = 0;
+
+  for await (const chunk of body) {
+    chunks.push(chunk);
+    byteLength += chunk.length;
+
+    if (byteLength >= MAX_RESPONSE_BYTES) {
+      break;
+    }
+  }
+
+  return Buffer.concat(chunks).subarray(0, MAX_RESPONSE_BYTES).toString();
+};
+
+/**
+ * Rate limited and server error responses are retried, at most MAX_RETRIES times. If retries are
+ * exhausted, the last response is returned. Network errors are thrown after retries are exhausted.
+ *
+ * Requests to private or reserved addresses are rejected, and only the first MAX_RESPONSE_BYTES
+ * of responses are read.
+ */
+export const sendHttpDeliveryRequest = async (
+  url: string,
+  {
+    method,
+    headers,
+    body,
+    retries,
+  }: {
+    method: "POST" | "PUT" | "PATCH";
+    headers: Record<string, string>;
+    body: string;
+    retries: number;
+  }
+): Promise<HttpDeliveryResponse> => {
+  // IP addresses are connected to without a lookup, so they are checked upfront
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, "");
+
+  if (isPrivateOrReservedAddress(hostname)) {
+    throw new Error(
+      `Requests to the private or reserved address ${hostname} are not allowed`
+    );
+  }
+
+  try {
+    return await pRetry(
+      async () => {
+        const { statusCode, body: responseBody } = await request(url, {
+          method,
+          body,
+          headers,
+          headersTimeout: REQUEST_TIMEOUT_MS,
+          bodyTimeout: REQUEST_TIMEOUT_MS,
+          dispatcher: publicAddressDispatcher,
+        });
+
+        const response = {
+          statusCode,
+          body: await readResponseBody(responseBody),
+        };
+
+        if (statusCode === 429 || statusCode >= 500) {
+          throw new RetryableStatusException(response);
+        }
+
+        return response;
+      },
+      {
+        retries: Math.min(retries, MAX_RETRIES),
+        randomize: true,
+      }
+    );
+  } catch (err) {
+    if (err instanceof RetryableStatusException) {
+      return err.response;
+    }
+
+    throw err;
+  }
+};
@@ -10,6 +10,7 @@ import { ResponseHashModule } from "../response-hash/response-hash.module";
 import { MikroOrmModule } from "@mikro-orm/nestjs";
 import { FeedRetryRecord } from "./entities";
 import { CacheStorageModule } from "../cache-storage/cache-storage.module";
+import { FeedPublishCadenceModule } from "../feed-publish-cadence/feed-publish-cadence.module";
 
 @Module({
   controllers: [],
@@ -38,6 +39,7 @@ export class FeedEventHandlerModule {
         MessageBrokerModule.forRoot(),
         ResponseHashModule,
         CacheStorageModule,
+        FeedPublishCadenceModule,
       ],
     };
   }
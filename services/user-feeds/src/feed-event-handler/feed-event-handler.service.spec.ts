@@ -24,7 +24,7 @@ import {
   FeedRequestInternalException,
   FeedRequestParseException,
 } from "../feed-fetcher/exceptions";
-import { FeedDeletedEvent } from "./types";
+import { FeedArticleIdsResetEvent, FeedDeletedEvent } from "./types";
 
 jest.mock("../shared/utils/logger");
 
@@ -42,6 +42,7 @@ describe("FeedEventHandlerService", () => {
   };
   const deliveryService = {
     deliver: jest.fn(),
+    deliverQueuedArticles: jest.fn(),
   };
   const deliveryRecordService = {
     store: jest.fn(),
@@ -55,6 +56,10 @@ describe("FeedEventHandlerService", () => {
     jest.resetAllMocks();
     jest.spyOn(console, "log").mockImplementation();
     jest.spyOn(console, "error").mockImplementation();
+    deliveryService.deliverQueuedArticles.mockResolvedValue({
+      deliveryStates: [],
+      fetchedAtByArticleIdHash: new Map(),
+    });
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         FeedEventHandlerService,
@@ -592,4 +597,26 @@ describe("FeedEventHandlerService", () => {
       expect(articlesService.deleteInfoForFeed).toHaveBeenCalledWith("feed-id");
     });
   });
+
+  describe("onFeedArticleIdsReset", () => {
+    it("does not delete info if event validation failed", async () => {
+      await service.onFeedArticleIdsReset({ invalid: "data" } as never);
+
+      expect(articlesService.deleteInfoForFeed).not.toHaveBeenCalled();
+    });
+
+    it("deletes stored articles of the feed on a valid event", async () => {
+      const event: FeedArticleIdsResetEvent = {
+        data: {
+          feed: {
+            id: "feed-id",
+          },
+        },
+      };
+
+      await service.onFeedArticleIdsReset(event);
+
+      expect(articlesService.deleteInfoForFeed).toHaveBeenCalledWith("feed-id");
+    });
+  });
 });
@@ -12,6 +12,7 @@ import {
   FeedV2Event,
   feedV2EventSchema,
   FeedRejectedDisabledCode,
+  FeedResponseRequestStatus,
 } from "../shared";
 import { RabbitSubscribe, AmqpConnection } from "@golevelup/nestjs-rabbitmq";
 import {
@@ -29,8 +30,11 @@ import {
   FeedRequestParseException,
   FeedRequestTimedOutException,
 } from "../feed-fetcher/exceptions";
-import { FeedDeletedEvent } from "./types";
-import { feedDeletedEventSchema } from "./schemas";
+import { FeedArticleIdsResetEvent, FeedDeletedEvent } from "./types";
+import {
+  feedArticleIdsResetEventSchema,
+  feedDeletedEventSchema,
+} from "./schemas";
 import { InvalidFeedException } from "../articles/exceptions";
 import pRetry from "p-retry";
 import { ResponseHashService } from "../response-hash/response-hash.service";
@@ -40,6 +44,15 @@ import { InjectRepository } from "@mikro-orm/nestjs";
 import { EntityRepository } from "@mikro-orm/postgresql";
 import { z } from "zod";
 import { CacheStorageService } from "../cache-storage/cache-storage.service";
+import { messageHandlerErrorsCounter } from "../metrics";
+import { FeedPublishCadenceService } from "../feed-publish-cadence/feed-publish-cadence.service";
+
+/**
+ * Fraction of a feed's daily article limit that must be used before backend-api is told that the
+ * limit is being approached
+ */
+const ARTICLE_DAILY_LIMIT_ALERT_RATIO = 0.8;
+
 @Injectable()
 export class FeedEventHandlerService {
   constructor(
@@ -53,6 +66,7 @@ export class FeedEventHandlerService {
     @InjectRepository(FeedRetryRecord)
     private readonly feedRetryRecordRepo: EntityRepository<FeedRetryRecord>,
     private readonly cacheStorageService: CacheStorageService,
+    private readonly feedPublishCadenceService: FeedPublishCadenceService,
     private readonly orm: MikroORM // Required for @UseRequestContext()
   ) {}
 
@@ -104,6 +118,9 @@ export class FeedEventHandlerService {
         success: true,
       });
     } catch (err) {
+      messageHandlerErrorsCounter.inc({
+        queue: MessageBrokerQueue.FeedDeliverArticles,
+      });
       this.logEventFinish(event, {
         success: false,
       });
@@ -126,6 +143,9 @@ export class FeedEventHandlerService {
         await this.handleArticleDeliveryResult(result);
       });
     } catch (err) {
+      messageHandlerErrorsCounter.inc({
+        queue: MessageBrokerQueue.FeedArticleDeliveryResult,
+      });
       logger.warn(`Failed to handle article delivery result`, {
         err: (err as Error).stack,
         result,
@@ -149,6 +169,9 @@ export class FeedEventHandlerService {
 
       await this.handleFeedDeletedEvent(data);
     } catch (err) {
+      messageHandlerErrorsCounter.inc({
+        queue: MessageBrokerQueue.FeedDeleted,
+      });
       logger.error(`Failed to handle feed deleted event`, {
         event,
         detail: err instanceof z.ZodError ? err.issues : (err as Error).stack,
@@ -156,6 +179,32 @@ export class FeedEventHandlerService {
     }
   }
 
+  @RabbitSubscribe({
+    queue: MessageBrokerQueue.FeedArticleIdsReset,
+    createQueueIfNotExists: true,
+    queueOptions: {
+      durable: true,
+    },
+    allowNonJsonMessages: true,
+  })
+  async onFeedArticleIdsReset(event: FeedArticleIdsResetEvent): Promise<void> {
+    logger.debug(`Received feed article ids reset event`, { event });
+
+    try {
+      const data = await feedArticleIdsResetEventSchema.parse(event);
+
+      await this.handleFeedArticleIdsResetEvent(data);
+    } catch (err) {
+      messageHandlerErrorsCounter.inc({
+        queue: MessageBrokerQueue.FeedArticleIdsReset,
+      });
+      logger.error(`Failed to handle feed article ids reset event`, {
+        event,
+        detail: err instanceof z.ZodError ? err.issues : (err as Error).stack,
+      });
+    }
+  }
+
   @UseRequestContext()
   private async handleArticleDeliveryResult({
     result,
@@ -276,9 +325,13 @@ export class FeedEventHandlerService {
         articleId,
       });
     } else {
+      const message = result.body as { id?: string; channel_id?: string };
+
       await this.deliveryRecordService.updateDeliveryStatus(deliveryRecordId, {
         status: ArticleDeliveryStatus.Sent,
         articleId,
+        discordMessageId: message?.id,
+        discordChannelId: message?.channel_id,
       });
     }
   }
@@ -288,7 +341,16 @@ export class FeedEventHandlerService {
     this.debugLog(
       `Handling event for feed ${event.data.feed.id} with url ${event.data.feed.url}`,
       {
-        event,
+        event: {
+          ...event,
+          data: {
+            ...event.data,
+            feed: {
+              ...event.data.feed,
+              requestLookupDetails: undefined,
+            },
+          },
+        },
       },
       event.debug
     );
@@ -300,6 +362,8 @@ export class FeedEventHandlerService {
         },
       } = event;
 
+      await this.deliverQueuedArticles(event);
+
       this.debugLog(
         `Debug ${event.data.feed.id}: Fetching feed XML from ${url}`,
         {},
@@ -323,6 +387,7 @@ export class FeedEventHandlerService {
       try {
         response = await this.feedFetcherService.fetchWithGrpc(url, {
           hashToCompare: lastHashSaved || undefined,
+          lookupDetails: event.data.feed.requestLookupDetails,
         });
       } catch (err) {
         if (
@@ -347,14 +412,21 @@ export class FeedEventHandlerService {
 
       if (!response || !response.body) {
         this.debugLog(
-          `Debug ${event.data.feed.id}: no response body. is pending request or` +
-            ` matched hash`,
+          `Debug ${event.data.feed.id}: no response body. is pending request,` +
+            ` matched hash or not modified`,
           {
             response,
           },
           event.debug
         );
 
+        if (
+          response?.requestStatus === FeedResponseRequestStatus.MatchedHash ||
+          response?.requestStatus === FeedResponseRequestStatus.NotModified
+        ) {
+          await this.recordPublishCadence(event, { hasNewArticles: false });
+        }
+
         return;
       }
 
@@ -381,6 +453,11 @@ export class FeedEventHandlerService {
           debug: event.debug,
           useParserRules: getParserRules({ url: event.data.feed.url }),
           articleInjections: event.data.feed.articleInjections,
+          jsonOptions: event.data.feed.jsonOptions,
+          htmlScrapeOptions: event.data.feed.htmlScrapeOptions,
+          url: event.data.feed.url,
+          editTracking: event.data.feed.editTracking,
+          articleIdOptions: event.data.feed.articleIdOptions,
         }
       );
 
@@ -409,6 +486,10 @@ export class FeedEventHandlerService {
 
       // END TEMPORARY
 
+      if (event.data.feed.retractRemovedArticles) {
+        await this.retractRemovedArticles(event, response.body);
+      }
+
       if (!articles.length) {
         this.debugLog(
           `Debug ${event.data.feed.id}: Ignoring feed event due to no` +
@@ -422,6 +503,8 @@ export class FeedEventHandlerService {
           hash: response.bodyHash,
         });
 
+        await this.recordPublishCadence(event, { hasNewArticles: false });
+
         return;
       }
 
@@ -445,7 +528,10 @@ export class FeedEventHandlerService {
       await this.deliveryRecordService.store(
         event.data.feed.id,
         deliveryStates,
-        false
+        false,
+        {
+          fetchedAt: new Date(event.timestamp),
+        }
       );
 
       try {
@@ -467,6 +553,10 @@ export class FeedEventHandlerService {
         }
       }
 
+      await this.emitArticleDailyLimitApproaching(event);
+
+      await this.recordPublishCadence(event, { hasNewArticles: true });
+
       await this.responseHashService.set({
         feedId: event.data.feed.id,
         hash: response.bodyHash,
@@ -553,13 +643,197 @@ export class FeedEventHandlerService {
 
     await this.articlesService.deleteInfoForFeed(id);
 
+    await this.deliveryService.deleteQueuedArticlesOfFeed(id);
+
     await this.responseHashService.remove({
       feedId: id,
     });
 
+    await this.feedPublishCadenceService.remove({
+      feedId: id,
+    });
+
     logger.debug(`Deleted feed info for feed ${id}`);
   }
 
+  /**
+   * Stored articles are identified by the ID strategy that was in effect when they were seen, so
+   * they are cleared when the strategy changes. The next run then re-seeds the feed without
+   * delivering anything instead of treating every article as new.
+   */
+  @UseRequestContext()
+  async handleFeedArticleIdsResetEvent(data: FeedArticleIdsResetEvent) {
+    const {
+      data: {
+        feed: { id },
+      },
+    } = data;
+
+    await this.articlesService.deleteInfoForFeed(id);
+
+    // Force the next run to parse the feed even if its content has not changed
+    await this.responseHashService.remove({
+      feedId: id,
+    });
+
+    logger.debug(`Reset stored article ids for feed ${id}`);
+  }
+
+  /**
+   * Queued articles are delivered regardless of whether the feed itself has changed, since
+   * delivery windows open independently of feed updates.
+   */
+  private async deliverQueuedArticles(event: FeedV2Event) {
+    const { deliveryStates, fetchedAtByArticleIdHash } =
+      await this.deliveryService.deliverQueuedArticles(event);
+
+    if (!deliveryStates.length) {
+      return;
+    }
+
+    this.debugLog(
+      `Debug ${event.data.feed.id}: Delivered ${deliveryStates.length} queued articles`,
+      {},
+      event.debug
+    );
+
+    await this.deliveryRecordService.store(
+      event.data.feed.id,
+      deliveryStates,
+      false,
+      {
+        fetchedAtByArticleIdHash,
+      }
+    );
+
+    await this.orm.em.flush();
+  }
+
+  private async emitArticleDailyLimitApproaching(event: FeedV2Event) {
+    const { articleDayLimit } = event.data;
+
+    try {
+      const deliveriesInPastDay =
+        await this.deliveryRecordService.countDeliveriesInPastTimeframe(
+          { feedId: event.data.feed.id },
+          86400
+        );
+
+      if (
+        deliveriesInPastDay <
+        articleDayLimit * ARTICLE_DAILY_LIMIT_ALERT_RATIO
+      ) {
+        return;
+      }
+
+      this.amqpConnection.publish(
+        "",
+        MessageBrokerQueue.FeedArticleDailyLimitApproaching,
+        {
+          data: {
+            feed: {
+              id: event.data.feed.id,
+            },
+            articleDayLimit,
+            deliveriesInPastDay,
+          },
+        }
+      );
+    } catch (err) {
+      logger.error(
+        `Failed to check daily article limit usage of feed ${event.data.feed.id}`,
+        {
+          error: (err as Error).stack,
+        }
+      );
+    }
+  }
+
+  /**
+   * Publishes the activity level of the feed so that backend-api can adapt how often the feed is
+   * fetched
+   */
+  private async recordPublishCadence(
+    event: FeedV2Event,
+    { hasNewArticles }: { hasNewArticles: boolean }
+  ) {
+    try {
+      const { cadence, shouldEmitActivityLevel } =
+        await this.feedPublishCadenceService.recordFetch({
+          feedId: event.data.feed.id,
+          hasNewArticles,
+          fetchedAt: new Date(event.timestamp),
+        });
+
+      if (!shouldEmitActivityLevel) {
+        return;
+      }
+
+      this.amqpConnection.publish(
+        "",
+        MessageBrokerQueue.FeedActivityLevelChanged,
+        {
+          data: {
+            feed: {
+              id: event.data.feed.id,
+            },
+            activityLevel: cadence.activity_level,
+            unchangedFetchStreak: cadence.unchanged_fetch_streak,
+            lastNewArticleAt:
+              cadence.last_new_article_at?.toISOString() || null,
+          },
+        }
+      );
+    } catch (err) {
+      logger.error(
+        `Failed to record publish cadence of feed ${event.data.feed.id}`,
+        {
+          error: (err as Error).stack,
+        }
+      );
+    }
+  }
+
+  private async retractRemovedArticles(event: FeedV2Event, feedXml: string) {
+    try {
+      const { articles } = await this.articlesService.getArticlesFromXml(
+        feedXml,
+        {
+          formatOptions: {
+            dateFormat: event.data.feed.formatOptions?.dateFormat,
+            dateTimezone: event.data.feed.formatOptions?.dateTimezone,
+            disableImageLinkPreviews:
+              event.data.feed.formatOptions?.disableImageLinkPreviews,
+            dateLocale: event.data.feed.formatOptions?.dateLocale,
+          },
+          useParserRules: getParserRules({ url: event.data.feed.url }),
+          jsonOptions: event.data.feed.jsonOptions,
+          htmlScrapeOptions: event.data.feed.htmlScrapeOptions,
+          articleIdOptions: event.data.feed.articleIdOptions,
+          url: event.data.feed.url,
+        }
+      );
+
+      const retractedCount = await this.deliveryService.retractRemovedArticles(
+        event,
+        articles.map((a) => a.flattened.idHash)
+      );
+
+      this.debugLog(
+        `Debug ${event.data.feed.id}: Retracted ${retractedCount} removed articles`,
+        {},
+        event.debug
+      );
+    } catch (err) {
+      logger.error(
+        `Failed to retract removed articles of feed ${event.data.feed.id}`,
+        {
+          error: (err as Error).stack,
+        }
+      );
+    }
+  }
+
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   private debugLog(message: string, data: any, enable?: boolean) {
     if (enable) {
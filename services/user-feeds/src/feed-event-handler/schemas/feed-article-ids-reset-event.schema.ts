@@ -0,0 +1,9 @@
+import { z } from "zod";
+
+export const feedArticleIdsResetEventSchema = z.object({
+  data: z.object({
+    feed: z.object({
+      id: z.string(),
+    }),
+  }),
+});
@@ -1 +1,2 @@
 export * from "./feed-deleted-event.schema";
+export * from "./feed-article-ids-reset-event.schema";
@@ -0,0 +1,7 @@
+export interface FeedArticleIdsResetEvent {
+  data: {
+    feed: {
+      id: string;
+    };
+  };
+}
@@ -1,2 +1,3 @@
 export * from "./article-delivery-result.type";
 export * from "./feed-deleted-event.type";
+export * from "./feed-article-ids-reset-event.type";
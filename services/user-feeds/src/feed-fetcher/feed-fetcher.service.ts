@@ -2,7 +2,11 @@ import { Inject, Injectable, OnModuleInit } from "@nestjs/common";
 import { ConfigService } from "@nestjs/config";
 import { Dispatcher, request } from "undici";
 import BodyReadable from "undici/types/readable";
-import { FeedResponseRequestStatus, GrpcError } from "../shared";
+import {
+  FeedRequestLookupDetails,
+  FeedResponseRequestStatus,
+  GrpcError,
+} from "../shared";
 import {
   FeedFetchGrpcException,
   FeedRequestBadStatusCodeException,
@@ -45,6 +49,7 @@ export class FeedFetcherService implements OnModuleInit {
     options?: {
       executeFetchIfNotInCache?: boolean;
       retries?: number;
+      lookupDetails?: FeedRequestLookupDetails | null;
     }
   ) {
     const serviceUrl = this.SERVICE_HOST;
@@ -60,6 +65,8 @@ export class FeedFetcherService implements OnModuleInit {
               url,
               executeFetchIfNotExists:
                 options?.executeFetchIfNotInCache ?? false,
+              lookupKey: options?.lookupDetails?.key,
+              headers: options?.lookupDetails?.headers,
             }),
             headers: {
               "content-type": "application/json",
@@ -92,12 +99,15 @@ export class FeedFetcherService implements OnModuleInit {
       executeFetchIfNotInCache?: boolean;
       retries?: number;
       hashToCompare?: string;
+      lookupDetails?: FeedRequestLookupDetails | null;
     }
   ) {
     const payload = {
       url,
       executeFetchIfNotExists: options?.executeFetchIfNotInCache ?? false,
       hashToCompare: options?.hashToCompare || undefined,
+      lookupKey: options?.lookupDetails?.key,
+      headers: options?.lookupDetails?.headers,
     };
 
     try {
@@ -119,7 +129,10 @@ export class FeedFetcherService implements OnModuleInit {
         grpcErrorMessage: typedErr.message,
         code: typedErr.code,
         details: typedErr.details,
-        payload,
+        payload: {
+          ...payload,
+          headers: undefined,
+        },
       });
 
       throw new FeedFetchGrpcException(typedErr.message);
@@ -176,7 +189,8 @@ export class FeedFetcherService implements OnModuleInit {
 
     if (
       requestStatus === FeedResponseRequestStatus.Pending ||
-      requestStatus === FeedResponseRequestStatus.MatchedHash
+      requestStatus === FeedResponseRequestStatus.MatchedHash ||
+      requestStatus === FeedResponseRequestStatus.NotModified
     ) {
       return {
         requestStatus,
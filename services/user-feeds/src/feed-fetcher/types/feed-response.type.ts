@@ -8,6 +8,10 @@ interface FeedResponseMatchedHash {
   requestStatus: FeedResponseRequestStatus.MatchedHash;
 }
 
+interface FeedResponseNotModified {
+  requestStatus: FeedResponseRequestStatus.NotModified;
+}
+
 interface FeedResponseFetchError {
   requestStatus: FeedResponseRequestStatus.FetchError;
 }
@@ -46,4 +50,5 @@ export type FeedResponse =
   | FeedResponseSuccess
   | FeedResponseFetchError
   | FeedResponseBadStatusCodeError
-  | FeedResponseMatchedHash;
+  | FeedResponseMatchedHash
+  | FeedResponseNotModified;
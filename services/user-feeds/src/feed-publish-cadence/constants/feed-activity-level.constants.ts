@@ -0,0 +1,6 @@
+export enum FeedActivityLevel {
+  Busy = "busy",
+  Normal = "normal",
+  Idle = "idle",
+  Dormant = "dormant",
+}
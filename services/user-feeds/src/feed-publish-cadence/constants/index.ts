@@ -0,0 +1 @@
+export * from "./feed-activity-level.constants";
@@ -0,0 +1,76 @@
+import { Entity, Enum, PrimaryKey, Property, Unique } from "@mikro-orm/core";
+import { FeedActivityLevel } from "../constants";
+
+@Entity()
+@Unique({
+  name: "feed_publish_cadence_feed_id_unique",
+  properties: ["feed_id"],
+})
+export class FeedPublishCadence {
+  @PrimaryKey({
+    autoincrement: true,
+  })
+  id!: number;
+
+  @Property()
+  feed_id: string;
+
+  /**
+   * Number of consecutive fetches that found no new articles, including fetches where the
+   * response hash matched the previous response
+   */
+  @Property({
+    default: 0,
+  })
+  unchanged_fetch_streak: number;
+
+  /**
+   * Exponential moving average of the share of fetches that found new articles
+   */
+  @Property({
+    type: "float",
+    default: 0,
+  })
+  new_article_fetch_ratio: number;
+
+  @Property({
+    default: 0,
+  })
+  fetch_count: number;
+
+  @Property({
+    nullable: true,
+    default: null,
+  })
+  last_new_article_at: Date | null;
+
+  @Enum({
+    items: () => FeedActivityLevel,
+    default: FeedActivityLevel.Normal,
+  })
+  activity_level: FeedActivityLevel;
+
+  @Property({
+    nullable: true,
+    default: null,
+  })
+  activity_level_emitted_at: Date | null;
+
+  @Property()
+  created_at: Date = new Date();
+
+  @Property()
+  updated_at: Date = new Date();
+
+  constructor(
+    data: Omit<FeedPublishCadence, "id" | "created_at" | "updated_at">
+  ) {
+    this.feed_id = data.feed_id;
+    this.unchanged_fetch_streak = data.unchanged_fetch_streak;
+    this.new_article_fetch_ratio = data.new_article_fetch_ratio;
+    this.fetch_count = data.fetch_count;
+    this.last_new_article_at = data.last_new_article_at;
+    this.activity_level = data.activity_level;
+    this.activity_level_emitted_at = data.activity_level_emitted_at;
+  }
+}
@@ -0,0 +1 @@
+export * from "./feed-publish-cadence.entity";
@@ -0,0 +1,12 @@
+import { MikroOrmModule } from "@mikro-orm/nestjs";
+import { Module } from "@nestjs/common";
+import { FeedPublishCadence } from "./entities";
+import { FeedPublishCadenceService } from "./feed-publish-cadence.service";
+
+@Module({
+  imports: [MikroOrmModule.forFeature([FeedPublishCadence])],
+  controllers: [],
+  providers: [FeedPublishCadenceService],
+  exports: [FeedPublishCadenceService],
+})
+export class FeedPublishCadenceModule {}
@@ -0,0 +1,100 @@
+import { MikroORM } from "@mikro-orm/core";
+import { Injectable } from "@nestjs/common";
+import dayjs from "dayjs";
+import { FeedActivityLevel } from "./constants";
+import { FeedPublishCadence } from "./entities";
+import { getFeedActivityLevel } from "./utils";
+
+/**
+ * How much weight the latest fetch has on the moving average of fetches with new articles
+ */
+const NEW_ARTICLE_FETCH_RATIO_SMOOTHING = 0.1;
+/**
+ * Non-normal activity levels are re-published periodically so that the backend can recover
+ * its adaptive refresh rates after resets, such as supporter benefit changes
+ */
+const ACTIVITY_LEVEL_REEMIT_HOURS = 24;
+
+@Injectable()
+export class FeedPublishCadenceService {
+  constructor(private readonly orm: MikroORM) {}
+
+  async recordFetch({
+    feedId,
+    hasNewArticles,
+    fetchedAt = new Date(),
+  }: {
+    feedId: string;
+    hasNewArticles: boolean;
+    fetchedAt?: Date;
+  }): Promise<{
+    cadence: FeedPublishCadence;
+    shouldEmitActivityLevel: boolean;
+  }> {
+    let cadence = await this.orm.em.findOne(FeedPublishCadence, {
+      feed_id: feedId,
+    });
+
+    if (!cadence) {
+      cadence = new FeedPublishCadence({
+        feed_id: feedId,
+        unchanged_fetch_streak: 0,
+        new_article_fetch_ratio: 0,
+        fetch_count: 0,
+        last_new_article_at: null,
+        activity_level: FeedActivityLevel.Normal,
+        activity_level_emitted_at: null,
+      });
+
+      this.orm.em.persist(cadence);
+    }
+
+    cadence.fetch_count += 1;
+    cadence.unchanged_fetch_streak = hasNewArticles
+      ? 0
+      : cadence.unchanged_fetch_streak + 1;
+    cadence.new_article_fetch_ratio +=
+      NEW_ARTICLE_FETCH_RATIO_SMOOTHING *
+      ((hasNewArticles ? 1 : 0) - cadence.new_article_fetch_ratio);
+
+    if (hasNewArticles) {
+      cadence.last_new_article_at = fetchedAt;
+    }
+
+    const activityLevel = getFeedActivityLevel({
+      fetchCount: cadence.fetch_count,
+      unchangedFetchStreak: cadence.unchanged_fetch_streak,
+      newArticleFetchRatio: cadence.new_article_fetch_ratio,
+      lastNewArticleAt: cadence.last_new_article_at,
+      trackedSince: cadence.created_at,
+      now: fetchedAt,
+    });
+
+    const shouldEmitActivityLevel =
+      activityLevel !== cadence.activity_level ||
+      (activityLevel !== FeedActivityLevel.Normal &&
+        (!cadence.activity_level_emitted_at ||
+          dayjs(fetchedAt).diff(cadence.activity_level_emitted_at, "hour") >=
+            ACTIVITY_LEVEL_REEMIT_HOURS));
+
+    cadence.activity_level = activityLevel;
+    cadence.updated_at = new Date();
+
+    if (shouldEmitActivityLevel) {
+      cadence.activity_level_emitted_at = fetchedAt;
+    }
+
+    await this.orm.em.flush();
+
+    return {
+      cadence,
+      shouldEmitActivityLevel,
+    };
+  }
+
+  async remove({ feedId }: { feedId: string }) {
+    await this.orm.em.nativeDelete(FeedPublishCadence, {
+      feed_id: feedId,
+    });
+  }
+}
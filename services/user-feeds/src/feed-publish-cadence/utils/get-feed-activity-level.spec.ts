@@ -0,0 +1,80 @@
+import dayjs from "dayjs";
+import { FeedActivityLevel } from "../constants";
+import { getFeedActivityLevel } from "./get-feed-activity-level";
+
+describe("getFeedActivityLevel", () => {
+  const now = new Date("2024-05-01T00:00:00.000Z");
+  const baseInput = {
+    fetchCount: 100,
+    unchangedFetchStreak: 50,
+    newArticleFetchRatio: 0.1,
+    lastNewArticleAt: dayjs(now).subtract(1, "hour").toDate(),
+    trackedSince: dayjs(now).subtract(60, "day").toDate(),
+    now,
+  };
+
+  it("returns normal if there are not enough fetches", () => {
+    const result = getFeedActivityLevel({
+      ...baseInput,
+      fetchCount: 5,
+      unchangedFetchStreak: 5,
+      lastNewArticleAt: null,
+    });
+
+    expect(result).toEqual(FeedActivityLevel.Normal);
+  });
+
+  it("returns busy if most fetches have new articles", () => {
+    const result = getFeedActivityLevel({
+      ...baseInput,
+      unchangedFetchStreak: 0,
+      newArticleFetchRatio: 0.6,
+    });
+
+    expect(result).toEqual(FeedActivityLevel.Busy);
+  });
+
+  it("returns normal if new articles were recently found", () => {
+    const result = getFeedActivityLevel(baseInput);
+
+    expect(result).toEqual(FeedActivityLevel.Normal);
+  });
+
+  it("returns normal if the unchanged streak is too short", () => {
+    const result = getFeedActivityLevel({
+      ...baseInput,
+      unchangedFetchStreak: 3,
+      lastNewArticleAt: dayjs(now).subtract(30, "day").toDate(),
+    });
+
+    expect(result).toEqual(FeedActivityLevel.Normal);
+  });
+
+  it("returns idle if there have been no new articles for a few days", () => {
+    const result = getFeedActivityLevel({
+      ...baseInput,
+      lastNewArticleAt: dayjs(now).subtract(3, "day").toDate(),
+    });
+
+    expect(result).toEqual(FeedActivityLevel.Idle);
+  });
+
+  it("returns dormant if there have been no new articles for weeks", () => {
+    const result = getFeedActivityLevel({
+      ...baseInput,
+      lastNewArticleAt: dayjs(now).subtract(20, "day").toDate(),
+    });
+
+    expect(result).toEqual(FeedActivityLevel.Dormant);
+  });
+
+  it("uses the tracking start date if no new articles were ever found", () => {
+    const result = getFeedActivityLevel({
+      ...baseInput,
+      lastNewArticleAt: null,
+      trackedSince: dayjs(now).subtract(20, "day").toDate(),
+    });
+
+    expect(result).toEqual(FeedActivityLevel.Dormant);
+  });
+});
@@ -0,0 +1,54 @@
+import dayjs from "dayjs";
+import { FeedActivityLevel } from "../constants";
+
+/**
+ * Fewer fetches than this are not enough to judge how often a feed publishes
+ */
+const MIN_FETCHES_TO_CLASSIFY = 10;
+const BUSY_NEW_ARTICLE_FETCH_RATIO = 0.5;
+const IDLE_AFTER_DAYS = 2;
+const DORMANT_AFTER_DAYS = 14;
+
+export const getFeedActivityLevel = ({
+  fetchCount,
+  unchangedFetchStreak,
+  newArticleFetchRatio,
+  lastNewArticleAt,
+  trackedSince,
+  now = new Date(),
+}: {
+  fetchCount: number;
+  unchangedFetchStreak: number;
+  newArticleFetchRatio: number;
+  lastNewArticleAt: Date | null;
+  trackedSince: Date;
+  now?: Date;
+}): FeedActivityLevel => {
+  if (fetchCount < MIN_FETCHES_TO_CLASSIFY) {
+    return FeedActivityLevel.Normal;
+  }
+
+  if (newArticleFetchRatio >= BUSY_NEW_ARTICLE_FETCH_RATIO) {
+    return FeedActivityLevel.Busy;
+  }
+
+  if (unchangedFetchStreak < MIN_FETCHES_TO_CLASSIFY) {
+    return FeedActivityLevel.Normal;
+  }
+
+  const daysSinceLastNewArticle = dayjs(now).diff(
+    lastNewArticleAt || trackedSince,
+    "day",
+    true
+  );
+
+  if (daysSinceLastNewArticle >= DORMANT_AFTER_DAYS) {
+    return FeedActivityLevel.Dormant;
+  }
+
+  if (daysSinceLastNewArticle >= IDLE_AFTER_DAYS) {
+    return FeedActivityLevel.Idle;
+  }
+
+  return FeedActivityLevel.Normal;
+};
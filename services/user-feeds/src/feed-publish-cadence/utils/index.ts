@@ -0,0 +1 @@
+export * from "./get-feed-activity-level";
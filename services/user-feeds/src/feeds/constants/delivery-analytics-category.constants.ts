@@ -0,0 +1,23 @@
+export enum DeliveryAnalyticsCategory {
+  Sent = "SENT",
+  PendingDelivery = "PENDING_DELIVERY",
+  FilteredOut = "FILTERED_OUT",
+  RateLimited = "RATE_LIMITED",
+  Failed = "FAILED",
+}
+
+export enum DeliveryAnalyticsInterval {
+  Hour = "hour",
+  Day = "day",
+}
+
+/**
+ * Longer ranges would aggregate too many delivery records at once
+ */
+export const DELIVERY_ANALYTICS_MAX_RANGE_DAYS: Record<
+  DeliveryAnalyticsInterval,
+  number
+> = {
+  [DeliveryAnalyticsInterval.Hour]: 7,
+  [DeliveryAnalyticsInterval.Day]: 90,
+};
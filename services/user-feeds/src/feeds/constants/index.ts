@@ -1,3 +1,4 @@
 export * from "./test-delivery-status.constants";
 export * from "./test-delivery-medium.constants";
 export * from "./get-user-feed-articles-filter-return-type.type";
+export * from "./delivery-analytics-category.constants";
@@ -1,3 +1,5 @@
 export enum TestDeliveryMedium {
   Discord = "discord",
+  Slack = "slack",
+  Matrix = "matrix",
 }
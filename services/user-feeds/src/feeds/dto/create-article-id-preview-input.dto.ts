@@ -0,0 +1,75 @@
+import { Type } from "class-transformer";
+import {
+  IsArray,
+  IsEnum,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  ValidateIf,
+  ValidateNested,
+} from "class-validator";
+import { UserFeedArticleIdType } from "../../shared";
+import {
+  HtmlScrapeOptionsDto,
+  JsonOptionsDto,
+  RequestLookupDetailsDto,
+} from "./get-user-feed-articles-input.dto";
+
+class ArticleIdOptionsDto {
+  @IsEnum(UserFeedArticleIdType)
+  type: UserFeedArticleIdType;
+
+  @IsString()
+  @IsNotEmpty()
+  @ValidateIf((v) => v.type === UserFeedArticleIdType.Field)
+  field?: string | null;
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  @ValidateIf((v) => v.type === UserFeedArticleIdType.Placeholders)
+  placeholders?: string[] | null;
+}
+
+export class CreateArticleIdPreviewInputDto {
+  @IsString()
+  @IsNotEmpty()
+  url: string;
+
+  @IsObject()
+  @IsOptional()
+  @Type(() => JsonOptionsDto)
+  @ValidateNested()
+  @ValidateIf((v) => v.jsonOptions !== null)
+  jsonOptions?: JsonOptionsDto | null;
+
+  @IsObject()
+  @IsOptional()
+  @Type(() => HtmlScrapeOptionsDto)
+  @ValidateNested()
+  @ValidateIf((v) => v.htmlScrapeOptions !== null)
+  htmlScrapeOptions?: HtmlScrapeOptionsDto | null;
+
+  @IsObject()
+  @IsOptional()
+  @Type(() => RequestLookupDetailsDto)
+  @ValidateNested()
+  @ValidateIf((v) => v.requestLookupDetails !== null)
+  requestLookupDetails?: RequestLookupDetailsDto | null;
+
+  /**
+   * The strategy the feed currently uses. Omit to compare against automatically resolved IDs.
+   */
+  @IsObject()
+  @IsOptional()
+  @Type(() => ArticleIdOptionsDto)
+  @ValidateNested()
+  @ValidateIf((v) => v.currentArticleIdOptions !== null)
+  currentArticleIdOptions?: ArticleIdOptionsDto | null;
+
+  @IsObject()
+  @Type(() => ArticleIdOptionsDto)
+  @ValidateNested()
+  articleIdOptions: ArticleIdOptionsDto;
+}
@@ -0,0 +1,22 @@
+import { GetFeedArticlesRequestStatus } from "../../shared";
+
+class SampleArticleDto {
+  title?: string;
+  currentId: string;
+  proposedId: string;
+}
+
+class ResultDto {
+  requestStatus: GetFeedArticlesRequestStatus;
+  response?: {
+    statusCode?: number;
+  };
+  totalArticles: number;
+  collisionCount: number;
+  changedIdCount: number;
+  sampleArticles: SampleArticleDto[];
+}
+
+export class CreateArticleIdPreviewOutputDto {
+  result: ResultDto;
+}
@@ -1,8 +1,15 @@
-import { DiscordMessageApiPayload } from "../../delivery/types";
+import {
+  DiscordMessageApiPayload,
+  MatrixMessageApiPayload,
+  SlackMessageApiPayload,
+} from "../../delivery/types";
 import { TestDeliveryStatus } from "../constants";
 
 export class CreatePreviewOutputDto {
   status: TestDeliveryStatus;
-  messages?: DiscordMessageApiPayload[];
+  messages?:
+    | DiscordMessageApiPayload[]
+    | SlackMessageApiPayload[]
+    | MatrixMessageApiPayload[];
   customPlaceholderPreviews?: string[][];
 }
@@ -0,0 +1,8 @@
+class ResultDto {
+  deletedCount: number;
+  failedMessageIds: string[];
+}
+
+export class DeleteDeliveryMessageOutputDto {
+  result: ResultDto;
+}
@@ -53,6 +53,49 @@ class FormatterDto {
   articleInjections?: ArticleInjectionDto[] | null;
 }
 
+export class JsonOptionsDto {
+  @IsString()
+  @IsOptional()
+  @ValidateIf((v) => v.itemsPath !== null)
+  itemsPath?: string | null;
+}
+
+export class HtmlScrapeOptionsDto {
+  @IsString()
+  @IsNotEmpty()
+  itemSelector: string;
+
+  @IsString()
+  @IsOptional()
+  @ValidateIf((v) => v.titleSelector !== null)
+  titleSelector?: string | null;
+
+  @IsString()
+  @IsOptional()
+  @ValidateIf((v) => v.linkSelector !== null)
+  linkSelector?: string | null;
+
+  @IsString()
+  @IsOptional()
+  @ValidateIf((v) => v.dateSelector !== null)
+  dateSelector?: string | null;
+
+  @IsString()
+  @IsOptional()
+  @ValidateIf((v) => v.descriptionSelector !== null)
+  descriptionSelector?: string | null;
+}
+
+export class RequestLookupDetailsDto {
+  @IsString()
+  @IsNotEmpty()
+  key: string;
+
+  @IsObject()
+  @IsOptional()
+  headers?: Record<string, string>;
+}
+
 class FiltersDto {
   @IsEnum(GetUserFeedArticlesFilterReturnType)
   returnType: GetUserFeedArticlesFilterReturnType;
@@ -115,4 +158,28 @@ export class GetUserFeedArticlesInputDto {
   @Type(() => FormatterDto)
   @ValidateNested()
   formatter: FormatterDto;
+
+  @IsObject()
+  @IsOptional()
+  @Type(() => JsonOptionsDto)
+  @ValidateNested()
+  @ValidateIf((v) => v.jsonOptions !== null)
+  jsonOptions?: JsonOptionsDto | null;
+
+  @IsObject()
+  @IsOptional()
+  @Type(() => HtmlScrapeOptionsDto)
+  @ValidateNested()
+  @ValidateIf((v) => v.htmlScrapeOptions !== null)
+  htmlScrapeOptions?: HtmlScrapeOptionsDto | null;
+
+  /**
+   * Set for feeds that must be fetched with their own request headers, such as credentials
+   */
+  @IsObject()
+  @IsOptional()
+  @Type(() => RequestLookupDetailsDto)
+  @ValidateNested()
+  @ValidateIf((v) => v.requestLookupDetails !== null)
+  requestLookupDetails?: RequestLookupDetailsDto | null;
 }
@@ -0,0 +1,65 @@
+import { Type } from "class-transformer";
+import {
+  IsDate,
+  IsEnum,
+  IsOptional,
+  Validate,
+  ValidationArguments,
+  ValidatorConstraint,
+  ValidatorConstraintInterface,
+} from "class-validator";
+import {
+  DeliveryAnalyticsInterval,
+  DELIVERY_ANALYTICS_MAX_RANGE_DAYS,
+} from "../constants";
+
+@ValidatorConstraint({ name: "IsWithinMaxAnalyticsRange", async: false })
+class IsWithinMaxAnalyticsRange implements ValidatorConstraintInterface {
+  validate(startDate: Date, { object }: ValidationArguments) {
+    const { endDate, interval } =
+      object as GetUserFeedDeliveryAnalyticsInputDto;
+    const maxDays =
+      DELIVERY_ANALYTICS_MAX_RANGE_DAYS[
+        interval || DeliveryAnalyticsInterval.Day
+      ];
+
+    if (
+      !maxDays ||
+      !(startDate instanceof Date) ||
+      !(endDate instanceof Date)
+    ) {
+      return true;
+    }
+
+    const rangeMs = endDate.getTime() - startDate.getTime();
+
+    // Invalid dates are already rejected by IsDate
+    return isNaN(rangeMs) || rangeMs <= maxDays * 24 * 60 * 60 * 1000;
+  }
+
+  defaultMessage({ object }: ValidationArguments) {
+    const interval =
+      (object as GetUserFeedDeliveryAnalyticsInputDto).interval ||
+      DeliveryAnalyticsInterval.Day;
+
+    return (
+      `Date range must be at most ` +
+      `${DELIVERY_ANALYTICS_MAX_RANGE_DAYS[interval]} days for the ${interval} interval`
+    );
+  }
+}
+
+export class GetUserFeedDeliveryAnalyticsInputDto {
+  @IsDate()
+  @Type(() => Date)
+  @Validate(IsWithinMaxAnalyticsRange)
+  startDate: Date;
+
+  @IsDate()
+  @Type(() => Date)
+  endDate: Date;
+
+  @IsEnum(DeliveryAnalyticsInterval)
+  @IsOptional()
+  interval?: DeliveryAnalyticsInterval;
+}
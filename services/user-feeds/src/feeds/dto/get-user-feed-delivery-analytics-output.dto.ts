@@ -0,0 +1,37 @@
+import {
+  DeliveryAnalyticsCategory,
+  DeliveryAnalyticsInterval,
+} from "../constants";
+
+class DeliveryAnalyticsBucketDto {
+  timestamp: string;
+  mediumId: string;
+  counts: Record<DeliveryAnalyticsCategory, number>;
+}
+
+class MediumLatencyDto {
+  mediumId: string;
+  medianMs: number | null;
+}
+
+class LatencyDto {
+  medianMs: number | null;
+  mediums: MediumLatencyDto[];
+}
+
+class RejectionReasonDto {
+  category: DeliveryAnalyticsCategory;
+  errorCode: string | null;
+  count: number;
+}
+
+class ResultDto {
+  interval: DeliveryAnalyticsInterval;
+  buckets: DeliveryAnalyticsBucketDto[];
+  latency: LatencyDto;
+  topRejectionReasons: RejectionReasonDto[];
+}
+
+export class GetUserFeedDeliveryAnalyticsOutputDto {
+  result: ResultDto;
+}
@@ -7,3 +7,8 @@ export * from "./create-feed-filter-validation-output.dto";
 export * from "./get-user-feed-article-properties-output.dto";
 export * from "./create-preview-output.dto";
 export * from "./get-user-feed-delivery-records-output.dto";
+export * from "./delete-delivery-message-output.dto";
+export * from "./get-user-feed-delivery-analytics-input.dto";
+export * from "./get-user-feed-delivery-analytics-output.dto";
+export * from "./create-article-id-preview-input.dto";
+export * from "./create-article-id-preview-output.dto";
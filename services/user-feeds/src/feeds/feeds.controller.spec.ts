@@ -45,6 +45,8 @@ describe("FeedController", () => {
     controller = new FeedsController(
       feedsService as never,
       discordMediumService as never,
+      {} as never,
+      {} as never,
       feedFetcherService as never,
       articleFormatterService as never,
       articleFiltersService as never,
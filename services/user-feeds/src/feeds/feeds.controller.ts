@@ -15,12 +15,15 @@ import {
   Param,
 } from "@nestjs/common";
 import { z } from "zod";
+import { articleInjectionSchema } from "../article-parser/constants";
 import { ArticleFiltersService } from "../article-filters/article-filters.service";
 import { ArticleFormatterService } from "../article-formatter/article-formatter.service";
 import { ArticlesService } from "../articles/articles.service";
 import { InvalidFeedException } from "../articles/exceptions";
 import { DeliveryRecordService } from "../delivery-record/delivery-record.service";
 import { DiscordMediumService } from "../delivery/mediums/discord-medium.service";
+import { MatrixMediumService } from "../delivery/mediums/matrix-medium.service";
+import { SlackMediumService } from "../delivery/mediums/slack-medium.service";
 import { DiscordEmbed } from "../delivery/types";
 import {
   FeedArticleNotFoundException,
@@ -29,30 +32,49 @@ import {
   FeedRequestParseException,
   FeedRequestTimedOutException,
 } from "../feed-fetcher/exceptions";
+import { getParserRules } from "../feed-event-handler/utils";
 import { FeedFetcherService } from "../feed-fetcher/feed-fetcher.service";
 import {
   Article,
   discordMediumPayloadDetailsSchema,
   discordMediumTestPayloadDetailsSchema,
+  feedV2EventSchemaArticleIdOptions,
   feedV2EventSchemaDateChecks,
   feedV2EventSchemaFormatOptions,
+  feedV2EventSchemaHtmlScrapeOptions,
+  feedV2EventSchemaJsonOptions,
+  feedV2EventSchemaRequestLookupDetails,
   GetFeedArticlesRequestStatus,
+  matrixMediumPayloadDetailsSchema,
+  slackMediumPayloadDetailsSchema,
   TransformValidationPipe,
+  FeedRequestLookupDetails,
   UserFeedFormatOptions,
+  UserFeedHtmlScrapeOptions,
+  UserFeedJsonOptions,
 } from "../shared";
 import {
   CustomPlaceholderRegexEvalException,
   FiltersRegexEvalException,
 } from "../shared/exceptions";
 import { ApiGuard } from "../shared/guards";
-import { TestDeliveryMedium, TestDeliveryStatus } from "./constants";
 import {
+  DeliveryAnalyticsInterval,
+  TestDeliveryMedium,
+  TestDeliveryStatus,
+} from "./constants";
+import {
+  CreateArticleIdPreviewInputDto,
+  CreateArticleIdPreviewOutputDto,
   CreateFeedFilterValidationInputDto,
   CreateFeedFilterValidationOutputDto,
   CreatePreviewOutputDto,
   CreateTestArticleOutputDto,
+  DeleteDeliveryMessageOutputDto,
   GetUserFeedArticlesInputDto,
   GetUserFeedArticlesOutputDto,
+  GetUserFeedDeliveryAnalyticsInputDto,
+  GetUserFeedDeliveryAnalyticsOutputDto,
   GetUserFeedDeliveryRecordsOutputDto,
 } from "./dto";
 import { FeedsService } from "./feeds.service";
@@ -65,6 +87,8 @@ export class FeedsController {
   constructor(
     private readonly feedsService: FeedsService,
     private readonly discordMediumService: DiscordMediumService,
+    private readonly slackMediumService: SlackMediumService,
+    private readonly matrixMediumService: MatrixMediumService,
     private readonly feedFetcherService: FeedFetcherService,
     private readonly articleFormatterService: ArticleFormatterService,
     private readonly articleFiltersService: ArticleFiltersService,
@@ -100,6 +124,9 @@ export class FeedsController {
       filters,
       selectProperties,
       formatter,
+      jsonOptions,
+      htmlScrapeOptions,
+      requestLookupDetails,
     }: GetUserFeedArticlesInputDto
   ): Promise<GetUserFeedArticlesOutputDto> {
     try {
@@ -111,6 +138,9 @@ export class FeedsController {
           dateLocale: formatter.options.dateLocale,
         },
         articleInjections: formatter.articleInjections || [],
+        jsonOptions,
+        htmlScrapeOptions,
+        requestLookupDetails,
       });
 
       if (!fetchResult) {
@@ -241,6 +271,124 @@ export class FeedsController {
     }
   }
 
+  @Post("article-id-preview")
+  @UseGuards(ApiGuard)
+  @HttpCode(HttpStatus.OK)
+  async createArticleIdPreview(
+    @Body(TransformValidationPipe)
+    {
+      url,
+      jsonOptions,
+      htmlScrapeOptions,
+      currentArticleIdOptions,
+      articleIdOptions,
+      requestLookupDetails,
+    }: CreateArticleIdPreviewInputDto
+  ): Promise<CreateArticleIdPreviewOutputDto> {
+    const emptyResult = {
+      totalArticles: 0,
+      collisionCount: 0,
+      changedIdCount: 0,
+      sampleArticles: [],
+    };
+
+    try {
+      const response = await this.feedFetcherService.fetch(url, {
+        executeFetchIfNotInCache: true,
+        lookupDetails: requestLookupDetails,
+      });
+
+      if (!response.body) {
+        return {
+          result: {
+            requestStatus: GetFeedArticlesRequestStatus.Pending,
+            ...emptyResult,
+          },
+        };
+      }
+
+      const parseOptions = {
+        formatOptions: {
+          dateFormat: undefined,
+          dateTimezone: undefined,
+          disableImageLinkPreviews: false,
+          dateLocale: undefined,
+        },
+        useParserRules: getParserRules({ url }),
+        jsonOptions,
+        htmlScrapeOptions,
+        url,
+      };
+
+      // Parse the same response twice so that articles are compared in the same order
+      const { articles: currentArticles } =
+        await this.articlesService.getArticlesFromXml(response.body, {
+          ...parseOptions,
+          articleIdOptions: currentArticleIdOptions,
+        });
+
+      const { articles: proposedArticles } =
+        await this.articlesService.getArticlesFromXml(response.body, {
+          ...parseOptions,
+          articleIdOptions,
+        });
+
+      return {
+        result: {
+          requestStatus: GetFeedArticlesRequestStatus.Success,
+          ...this.feedsService.summarizeArticleIdPreview({
+            currentArticles,
+            proposedArticles,
+          }),
+        },
+      };
+    } catch (err) {
+      if (
+        err instanceof FeedRequestParseException ||
+        err instanceof InvalidFeedException
+      ) {
+        return {
+          result: {
+            requestStatus: GetFeedArticlesRequestStatus.ParseError,
+            ...emptyResult,
+          },
+        };
+      }
+
+      if (err instanceof FeedRequestFetchException) {
+        return {
+          result: {
+            requestStatus: GetFeedArticlesRequestStatus.FetchError,
+            ...emptyResult,
+          },
+        };
+      }
+
+      if (err instanceof FeedRequestBadStatusCodeException) {
+        return {
+          result: {
+            requestStatus: GetFeedArticlesRequestStatus.BadStatusCode,
+            response: {
+              statusCode: err.statusCode,
+            },
+            ...emptyResult,
+          },
+        };
+      }
+
+      if (err instanceof FeedRequestTimedOutException) {
+        return {
+          result: {
+            requestStatus: GetFeedArticlesRequestStatus.TimedOut,
+            ...emptyResult,
+          },
+        };
+      }
+
+      throw err;
+    }
+  }
+
   @Post("test")
   @UseGuards(ApiGuard)
   async sendTestArticle(
@@ -260,6 +408,18 @@ export class FeedsController {
               .optional()
               .nullable()
               .default(null),
+            jsonOptions: feedV2EventSchemaJsonOptions
+              .optional()
+              .nullable()
+              .default(null),
+            htmlScrapeOptions: feedV2EventSchemaHtmlScrapeOptions
+              .optional()
+              .nullable()
+              .default(null),
+            requestLookupDetails: feedV2EventSchemaRequestLookupDetails
+              .optional()
+              .nullable()
+              .default(null),
           }),
           article: z
             .object({
@@ -295,6 +455,9 @@ export class FeedsController {
             withType.feed.url,
             {
               formatOptions,
+              jsonOptions: withType.feed.jsonOptions,
+              htmlScrapeOptions: withType.feed.htmlScrapeOptions,
+              requestLookupDetails: withType.feed.requestLookupDetails,
             }
           );
         } else {
@@ -303,6 +466,9 @@ export class FeedsController {
             withType.article.id,
             {
               formatOptions,
+              jsonOptions: withType.feed.jsonOptions,
+              htmlScrapeOptions: withType.feed.htmlScrapeOptions,
+              requestLookupDetails: withType.feed.requestLookupDetails,
             }
           );
         }
@@ -374,6 +540,86 @@ export class FeedsController {
             `Unhandled Discord API status code when sending test article: ${result.status}`
           );
         }
+      } else if (type === TestDeliveryMedium.Slack) {
+        const { mediumDetails } = await z
+          .object({
+            mediumDetails: slackMediumPayloadDetailsSchema,
+          })
+          .parse(payload);
+
+        const article = await this.fetchTestArticle(withType, {
+          dateFormat: withType.feed.formatOptions?.dateFormat,
+          dateTimezone: withType.feed.formatOptions?.dateTimezone,
+          disableImageLinkPreviews:
+            mediumDetails.formatter.disableImageLinkPreviews,
+          dateLocale: withType.feed.formatOptions?.dateLocale,
+        });
+
+        if (!article) {
+          return {
+            status: TestDeliveryStatus.NoArticles,
+          };
+        }
+
+        const { article: formattedArticle } =
+          await this.articleFormatterService.formatArticleForSlack(article, {
+            ...mediumDetails.formatter,
+            customPlaceholders: mediumDetails.customPlaceholders,
+          });
+
+        const { result, apiPayload } =
+          await this.slackMediumService.deliverTestArticle(formattedArticle, {
+            mediumDetails,
+          });
+
+        return {
+          status: this.getTestDeliveryStatus(result.statusCode),
+          apiPayload: apiPayload as unknown as Record<string, unknown>,
+          apiResponse: {
+            statusCode: result.statusCode,
+            body: result.body,
+          },
+        };
+      } else if (type === TestDeliveryMedium.Matrix) {
+        const { mediumDetails } = await z
+          .object({
+            mediumDetails: matrixMediumPayloadDetailsSchema,
+          })
+          .parse(payload);
+
+        const article = await this.fetchTestArticle(withType, {
+          dateFormat: withType.feed.formatOptions?.dateFormat,
+          dateTimezone: withType.feed.formatOptions?.dateTimezone,
+          disableImageLinkPreviews:
+            mediumDetails.formatter.disableImageLinkPreviews,
+          dateLocale: withType.feed.formatOptions?.dateLocale,
+        });
+
+        if (!article) {
+          return {
+            status: TestDeliveryStatus.NoArticles,
+          };
+        }
+
+        const { article: formattedArticle } =
+          await this.articleFormatterService.formatArticleForMatrix(article, {
+            ...mediumDetails.formatter,
+            customPlaceholders: mediumDetails.customPlaceholders,
+          });
+
+        const { result, apiPayload } =
+          await this.matrixMediumService.deliverTestArticle(formattedArticle, {
+            mediumDetails,
+          });
+
+        return {
+          status: this.getTestDeliveryStatus(result.statusCode),
+          apiPayload: { ...apiPayload },
+          apiResponse: {
+            statusCode: result.statusCode,
+            body: result.body,
+          },
+        };
       } else {
         throw new Error(`Unhandled medium type: ${type}`);
       }
@@ -410,6 +656,18 @@ export class FeedsController {
               .optional()
               .nullable()
               .default(null),
+            jsonOptions: feedV2EventSchemaJsonOptions
+              .optional()
+              .nullable()
+              .default(null),
+            htmlScrapeOptions: feedV2EventSchemaHtmlScrapeOptions
+              .optional()
+              .nullable()
+              .default(null),
+            requestLookupDetails: feedV2EventSchemaRequestLookupDetails
+              .optional()
+              .nullable()
+              .default(null),
           }),
           article: z.object({
             id: z.string(),
@@ -443,6 +701,9 @@ export class FeedsController {
           withType.article.id,
           {
             formatOptions,
+            jsonOptions: withType.feed.jsonOptions,
+            htmlScrapeOptions: withType.feed.htmlScrapeOptions,
+            requestLookupDetails: withType.feed.requestLookupDetails,
           }
         );
 
@@ -502,6 +763,102 @@ export class FeedsController {
             ? customPlaceholderPreviews
             : undefined,
         };
+      } else if (type === TestDeliveryMedium.Slack) {
+        const { mediumDetails } = await z
+          .object({
+            mediumDetails: slackMediumPayloadDetailsSchema,
+          })
+          .parse(payload);
+
+        const article = await this.articlesService.fetchFeedArticle(
+          withType.feed.url,
+          withType.article.id,
+          {
+            formatOptions: {
+              dateFormat: withType.feed.formatOptions?.dateFormat,
+              dateTimezone: withType.feed.formatOptions?.dateTimezone,
+              disableImageLinkPreviews:
+                mediumDetails.formatter.disableImageLinkPreviews,
+              dateLocale: withType.feed.formatOptions?.dateLocale,
+            },
+            jsonOptions: withType.feed.jsonOptions,
+            htmlScrapeOptions: withType.feed.htmlScrapeOptions,
+            requestLookupDetails: withType.feed.requestLookupDetails,
+          }
+        );
+
+        if (!article) {
+          return {
+            status: TestDeliveryStatus.NoArticles,
+          };
+        }
+
+        const { article: formattedArticle, customPlaceholderPreviews } =
+          await this.articleFormatterService.formatArticleForSlack(article, {
+            ...mediumDetails.formatter,
+            customPlaceholders: mediumDetails.customPlaceholders,
+          });
+
+        return {
+          status: TestDeliveryStatus.Success,
+          messages: [
+            this.slackMediumService.generateApiPayload(
+              formattedArticle,
+              mediumDetails
+            ),
+          ],
+          customPlaceholderPreviews: includeCustomPlaceholderPreviews
+            ? customPlaceholderPreviews
+            : undefined,
+        };
+      } else if (type === TestDeliveryMedium.Matrix) {
+        const { mediumDetails } = await z
+          .object({
+            mediumDetails: matrixMediumPayloadDetailsSchema,
+          })
+          .parse(payload);
+
+        const article = await this.articlesService.fetchFeedArticle(
+          withType.feed.url,
+          withType.article.id,
+          {
+            formatOptions: {
+              dateFormat: withType.feed.formatOptions?.dateFormat,
+              dateTimezone: withType.feed.formatOptions?.dateTimezone,
+              disableImageLinkPreviews:
+                mediumDetails.formatter.disableImageLinkPreviews,
+              dateLocale: withType.feed.formatOptions?.dateLocale,
+            },
+            jsonOptions: withType.feed.jsonOptions,
+            htmlScrapeOptions: withType.feed.htmlScrapeOptions,
+            requestLookupDetails: withType.feed.requestLookupDetails,
+          }
+        );
+
+        if (!article) {
+          return {
+            status: TestDeliveryStatus.NoArticles,
+          };
+        }
+
+        const { article: formattedArticle, customPlaceholderPreviews } =
+          await this.articleFormatterService.formatArticleForMatrix(article, {
+            ...mediumDetails.formatter,
+            customPlaceholders: mediumDetails.customPlaceholders,
+          });
+
+        return {
+          status: TestDeliveryStatus.Success,
+          messages: [
+            this.matrixMediumService.generateApiPayload(
+              formattedArticle,
+              mediumDetails
+            ),
+          ],
+          customPlaceholderPreviews: includeCustomPlaceholderPreviews
+            ? customPlaceholderPreviews
+            : undefined,
+        };
       } else {
         throw new Error(`Unhandled medium type: ${type}`);
       }
@@ -534,6 +891,54 @@ export class FeedsController {
     }
   }
 
+  private async fetchTestArticle(
+    {
+      feed,
+      article,
+    }: {
+      feed: {
+        url: string;
+        jsonOptions?: UserFeedJsonOptions | null;
+        htmlScrapeOptions?: UserFeedHtmlScrapeOptions | null;
+        requestLookupDetails?: FeedRequestLookupDetails | null;
+      };
+      article: { id: string } | null;
+    },
+    formatOptions: UserFeedFormatOptions
+  ): Promise<Article | null> {
+    if (!article) {
+      return this.articlesService.fetchRandomFeedArticle(feed.url, {
+        formatOptions,
+        jsonOptions: feed.jsonOptions,
+        htmlScrapeOptions: feed.htmlScrapeOptions,
+        requestLookupDetails: feed.requestLookupDetails,
+      });
+    }
+
+    return this.articlesService.fetchFeedArticle(feed.url, article.id, {
+      formatOptions,
+      jsonOptions: feed.jsonOptions,
+      htmlScrapeOptions: feed.htmlScrapeOptions,
+      requestLookupDetails: feed.requestLookupDetails,
+    });
+  }
+
+  private getTestDeliveryStatus(statusCode: number): TestDeliveryStatus {
+    if (statusCode >= 200 && statusCode < 300) {
+      return TestDeliveryStatus.Success;
+    } else if (statusCode === 429) {
+      return TestDeliveryStatus.TooManyRequests;
+    } else if (statusCode >= 500) {
+      return TestDeliveryStatus.ThirdPartyInternalError;
+    } else if (statusCode === 401 || statusCode === 403) {
+      return TestDeliveryStatus.MissingApplicationPermission;
+    } else if (statusCode === 404 || statusCode === 410) {
+      return TestDeliveryStatus.MissingChannel;
+    }
+
+    return TestDeliveryStatus.BadPayload;
+  }
+
   @Get("/:feedId/delivery-count")
   async getDeliveryCount(
     @Query("timeWindowSec", ParseIntPipe) timeWindowSec: number,
@@ -554,6 +959,35 @@ export class FeedsController {
     };
   }
 
+  @Get("/:feedId/latest-article-date")
+  async getLatestArticleDate(@Param("feedId") feedId: string) {
+    const date = await this.articlesService.getLatestStoredArticleDate(feedId);
+
+    return {
+      result: {
+        date: date ? date.toISOString() : null,
+      },
+    };
+  }
+
+  @Get("/:feedId/delivery-analytics")
+  async getDeliveryAnalytics(
+    @Param("feedId") feedId: string,
+    @Query(TransformValidationPipe)
+    { startDate, endDate, interval }: GetUserFeedDeliveryAnalyticsInputDto
+  ): Promise<GetUserFeedDeliveryAnalyticsOutputDto> {
+    const result = await this.deliveryRecordService.getDeliveryAnalytics({
+      feedId,
+      startDate,
+      endDate,
+      interval: interval || DeliveryAnalyticsInterval.Day,
+    });
+
+    return {
+      result,
+    };
+  }
+
   @Get("/:feedId/delivery-logs")
   async getDeliveryLogs(
     @Param("feedId") feedId: string,
@@ -572,4 +1006,195 @@ export class FeedsController {
       },
     };
   }
+
+  @Post("/:feedId/delivery-logs/:deliveryId/delete-message")
+  @UseGuards(ApiGuard)
+  @HttpCode(HttpStatus.OK)
+  async deleteDeliveryMessage(
+    @Param("feedId") feedId: string,
+    @Param("deliveryId") deliveryId: string,
+    @Body() payload: Record<string, unknown>
+  ): Promise<DeleteDeliveryMessageOutputDto> {
+    try {
+      const { mediumId, webhook } = z
+        .object({
+          mediumId: z.string(),
+          webhook: z
+            .object({
+              id: z.string(),
+              token: z.string(),
+            })
+            .nullable()
+            .optional()
+            .default(null),
+        })
+        .parse(payload);
+
+      const delivery =
+        await this.deliveryRecordService.getDiscordMessagesOfDelivery({
+          feedId,
+          deliveryId,
+        });
+
+      if (!delivery || delivery.record.medium_id !== mediumId) {
+        throw new NotFoundException(`Delivery ${deliveryId} not found`);
+      }
+
+      const { failedMessageIds } =
+        await this.discordMediumService.deleteMessages(delivery.messages, {
+          webhook,
+        });
+
+      const deletedMessages = delivery.messages.filter(
+        (m) => !failedMessageIds.includes(m.messageId)
+      );
+
+      await this.deliveryRecordService.clearDiscordMessages(
+        deletedMessages.map((m) => m.deliveryId)
+      );
+
+      return {
+        result: {
+          deletedCount: deletedMessages.length,
+          failedMessageIds,
+        },
+      };
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        throw new BadRequestException(err.errors);
+      }
+
+      throw err;
+    }
+  }
+
+  @Post("/:feedId/delivery-logs/:deliveryId/re-render")
+  @UseGuards(ApiGuard)
+  @HttpCode(HttpStatus.OK)
+  async rerenderDeliveryMessage(
+    @Param("feedId") feedId: string,
+    @Param("deliveryId") deliveryId: string,
+    @Body() payload: Record<string, unknown>
+  ): Promise<CreateTestArticleOutputDto> {
+    try {
+      const { mediumId, feed, mediumDetails } = z
+        .object({
+          mediumId: z.string(),
+          feed: z.object({
+            url: z.string(),
+            formatOptions: feedV2EventSchemaFormatOptions
+              .optional()
+              .nullable()
+              .default(null),
+            articleInjections: z.array(articleInjectionSchema).optional(),
+            jsonOptions: feedV2EventSchemaJsonOptions
+              .optional()
+              .nullable()
+              .default(null),
+            htmlScrapeOptions: feedV2EventSchemaHtmlScrapeOptions
+              .optional()
+              .nullable()
+              .default(null),
+            requestLookupDetails: feedV2EventSchemaRequestLookupDetails
+              .optional()
+              .nullable()
+              .default(null),
+            articleIdOptions: feedV2EventSchemaArticleIdOptions
+              .optional()
+              .nullable()
+              .default(null),
+          }),
+          mediumDetails: discordMediumTestPayloadDetailsSchema,
+        })
+        .parse(payload);
+
+      const delivery =
+        await this.deliveryRecordService.getDiscordMessagesOfDelivery({
+          feedId,
+          deliveryId,
+        });
+
+      // Only the first message of a delivery holds the start of the article content
+      const message = delivery?.messages.find(
+        (m) => m.deliveryId === deliveryId
+      );
+
+      if (
+        !delivery?.record.article_id_hash ||
+        delivery.record.medium_id !== mediumId ||
+        !message
+      ) {
+        throw new NotFoundException(
+          `No Discord message was found for delivery ${deliveryId}`
+        );
+      }
+
+      const article = await this.articlesService.fetchFeedArticleByIdHash(
+        feed.url,
+        delivery.record.article_id_hash,
+        {
+          formatOptions: {
+            dateFormat: feed.formatOptions?.dateFormat,
+            dateTimezone: feed.formatOptions?.dateTimezone,
+            disableImageLinkPreviews:
+              mediumDetails.formatter.disableImageLinkPreviews,
+            dateLocale: feed.formatOptions?.dateLocale,
+          },
+          articleInjections: feed.articleInjections,
+          jsonOptions: feed.jsonOptions,
+          htmlScrapeOptions: feed.htmlScrapeOptions,
+          requestLookupDetails: feed.requestLookupDetails,
+          articleIdOptions: feed.articleIdOptions,
+        }
+      );
+
+      // The article may have since been removed from the feed
+      if (!article) {
+        return {
+          status: TestDeliveryStatus.NoArticles,
+        };
+      }
+
+      const { article: formattedArticle } =
+        await this.articleFormatterService.formatArticleForDiscord(article, {
+          ...mediumDetails.formatter,
+          customPlaceholders: mediumDetails.customPlaceholders,
+        });
+
+      const filterReferences = await this.articleFiltersService.buildReferences(
+        {
+          article,
+        }
+      );
+
+      const { result, apiPayload } =
+        await this.discordMediumService.rerenderMessage(
+          formattedArticle,
+          {
+            mediumDetails,
+            filterReferences,
+          },
+          message
+        );
+
+      if (result.state !== "success") {
+        throw new Error(
+          `Internal error occurred while re-rendering message` +
+            ` ${message.messageId}: (status: ${result.state}, message: ${result.message}`
+        );
+      }
+
+      return {
+        status: this.getTestDeliveryStatus(result.status),
+        apiPayload,
+        apiResponse: result.body,
+      };
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        throw new BadRequestException(err.errors);
+      }
+
+      throw err;
+    }
+  }
 }
@@ -3,6 +3,8 @@ import { FeedsService } from "./feeds.service";
 import { FeedsController } from "./feeds.controller";
 import { ArticleRateLimitModule } from "../article-rate-limit/article-rate-limit.module";
 import { DiscordMediumService } from "../delivery/mediums/discord-medium.service";
+import { SlackMediumService } from "../delivery/mediums/slack-medium.service";
+import { MatrixMediumService } from "../delivery/mediums/matrix-medium.service";
 import { FeedFetcherModule } from "../feed-fetcher/feed-fetcher.module";
 import { ArticleFiltersModule } from "../article-filters/article-filters.module";
 import { ArticleFormatterModule } from "../article-formatter/article-formatter.module";
@@ -11,7 +13,12 @@ import { ArticlesModule } from "../articles/articles.module";
 
 @Module({
   controllers: [FeedsController],
-  providers: [FeedsService, DiscordMediumService],
+  providers: [
+    FeedsService,
+    DiscordMediumService,
+    SlackMediumService,
+    MatrixMediumService,
+  ],
   imports: [
     ArticleRateLimitModule,
     FeedFetcherModule,
@@ -1,6 +1,7 @@
 import { Test, TestingModule } from "@nestjs/testing";
 import { ArticleFiltersService } from "../article-filters/article-filters.service";
 import { ArticleRateLimitService } from "../article-rate-limit/article-rate-limit.service";
+import { Article } from "../shared";
 import { GetUserFeedArticlesFilterReturnType } from "./constants";
 import { FeedsService } from "./feeds.service";
 import { QueryForArticlesInput } from "./types";
@@ -380,4 +381,60 @@ describe("FeedsService", () => {
       ]);
     });
   });
+
+  describe("summarizeArticleIdPreview", () => {
+    const createArticle = (id: string, title = ""): Article => ({
+      flattened: {
+        id,
+        idHash: `${id}-hash`,
+        title,
+      },
+      raw: {} as never,
+      injectArticleContent: jest.fn(),
+    });
+
+    it("counts articles whose ids changed", () => {
+      const result = service.summarizeArticleIdPreview({
+        currentArticles: [createArticle("1"), createArticle("2")],
+        proposedArticles: [createArticle("1"), createArticle("3")],
+      });
+
+      expect(result.totalArticles).toEqual(2);
+      expect(result.changedIdCount).toEqual(1);
+      expect(result.collisionCount).toEqual(0);
+    });
+
+    it("counts every article that shares an id with another", () => {
+      const result = service.summarizeArticleIdPreview({
+        currentArticles: [
+          createArticle("1"),
+          createArticle("2"),
+          createArticle("3"),
+        ],
+        proposedArticles: [
+          createArticle("a"),
+          createArticle("a"),
+          createArticle("b"),
+        ],
+      });
+
+      expect(result.collisionCount).toEqual(2);
+    });
+
+    it("returns sample articles with their current and proposed ids", () => {
+      const result = service.summarizeArticleIdPreview({
+        currentArticles: [createArticle("1", "title 1"), createArticle("2")],
+        proposedArticles: [createArticle("a", "title 1"), createArticle("b")],
+        sampleSize: 1,
+      });
+
+      expect(result.sampleArticles).toEqual([
+        {
+          title: "title 1",
+          currentId: "1",
+          proposedId: "a",
+        },
+      ]);
+    });
+  });
 });
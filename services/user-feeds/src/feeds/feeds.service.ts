@@ -5,7 +5,11 @@ import { ArticleRateLimitService } from "../article-rate-limit/article-rate-limi
 import { Article } from "../shared";
 import { getNumbersInRange } from "../shared/utils/get-numbers-in-range";
 import { GetUserFeedArticlesFilterReturnType } from "./constants";
-import { QueryForArticlesInput, QueryForArticlesOutput } from "./types";
+import {
+  QueryForArticlesInput,
+  QueryForArticlesOutput,
+  SummarizeArticleIdPreviewOutput,
+} from "./types";
 
 @Injectable()
 export class FeedsService {
@@ -155,6 +159,49 @@ export class FeedsService {
     };
   }
 
+  /**
+   * Compare the IDs of the same articles parsed with the current and proposed ID strategies. Both
+   * lists must be parsed from the same feed response so that articles are in the same order.
+   */
+  summarizeArticleIdPreview({
+    currentArticles,
+    proposedArticles,
+    sampleSize = 10,
+  }: {
+    currentArticles: Article[];
+    proposedArticles: Article[];
+    sampleSize?: number;
+  }): SummarizeArticleIdPreviewOutput {
+    const idHashCounts = new Map<string, number>();
+
+    for (const article of proposedArticles) {
+      const { idHash } = article.flattened;
+      idHashCounts.set(idHash, (idHashCounts.get(idHash) || 0) + 1);
+    }
+
+    const collisionCount = proposedArticles.filter(
+      (article) => (idHashCounts.get(article.flattened.idHash) || 0) > 1
+    ).length;
+
+    const changedIdCount = proposedArticles.filter(
+      (article, index) =>
+        article.flattened.idHash !== currentArticles[index]?.flattened.idHash
+    ).length;
+
+    return {
+      totalArticles: proposedArticles.length,
+      collisionCount,
+      changedIdCount,
+      sampleArticles: proposedArticles
+        .slice(0, sampleSize)
+        .map((article, index) => ({
+          title: article.flattened.title || undefined,
+          currentId: currentArticles[index]?.flattened.id || "",
+          proposedId: article.flattened.id,
+        })),
+    };
+  }
+
   private queryForArticleProperties(
     articles: Article[],
     requestedProperties?: string[]
@@ -1,2 +1,3 @@
 export * from "./query-for-articles-input";
 export * from "./query-for-articles-output";
+export * from "./summarize-article-id-preview-output";
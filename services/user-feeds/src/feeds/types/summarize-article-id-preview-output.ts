@@ -0,0 +1,18 @@
+export interface SummarizeArticleIdPreviewOutput {
+  totalArticles: number;
+  /**
+   * Number of articles that share their ID with at least one other article under the proposed
+   * strategy. These articles would be treated as one and only the first would be delivered.
+   */
+  collisionCount: number;
+  /**
+   * Number of articles whose ID would change, which also determines how many articles would be
+   * considered new if the feed was not re-seeded
+   */
+  changedIdCount: number;
+  sampleArticles: Array<{
+    title?: string;
+    currentId: string;
+    proposedId: string;
+  }>;
+}
@@ -2,6 +2,8 @@ import "source-map-support/register";
 import { setupFeedListener } from "./setup-feed-listener";
 import { setupHttpApi } from "./setup-http-api";
 import logger from "./shared/utils/logger";
+import { config } from "./config";
+import { startMetricsServer } from "@monitorss/metrics";
 
 async function bootstrap() {
   try {
@@ -13,6 +15,12 @@ async function bootstrap() {
       await setupFeedListener();
       await setupHttpApi();
     }
+
+    const metricsPort = config().USER_FEEDS_METRICS_PORT;
+
+    if (metricsPort) {
+      startMetricsServer({ port: Number(metricsPort), logger });
+    }
   } catch (err) {
     logger.error(`Failed to start service`, {
       error: (err as Error).stack,
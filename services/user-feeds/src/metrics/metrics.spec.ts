@@ -0,0 +1,51 @@
+import { register } from "prom-client";
+import { MessageBrokerQueue } from "../shared";
+import { ArticleDeliveryStatus } from "../shared/types/delivery-state.type";
+import {
+  articleDeliveriesCounter,
+  feedParseDurationHistogram,
+  messageHandlerErrorsCounter,
+} from "./metrics";
+
+describe("metrics", () => {
+  afterEach(() => {
+    register.resetMetrics();
+  });
+
+  it("labels article deliveries by medium and status", async () => {
+    articleDeliveriesCounter.inc({
+      medium: "discord",
+      status: ArticleDeliveryStatus.Sent,
+    });
+
+    await expect(
+      register.getSingleMetricAsString("user_feeds_article_deliveries_total")
+    ).resolves.toContain(
+      'user_feeds_article_deliveries_total{medium="discord",status="sent"} 1'
+    );
+  });
+
+  it("labels feed parse durations by result", async () => {
+    feedParseDurationHistogram.startTimer()({ result: "success" });
+
+    await expect(
+      register.getSingleMetricAsString("user_feeds_feed_parse_duration_seconds")
+    ).resolves.toContain(
+      'user_feeds_feed_parse_duration_seconds_count{result="success"} 1'
+    );
+  });
+
+  it("labels message handler errors by queue", async () => {
+    messageHandlerErrorsCounter.inc({
+      queue: MessageBrokerQueue.FeedDeliverArticles,
+    });
+
+    await expect(
+      register.getSingleMetricAsString(
+        "user_feeds_message_handler_errors_total"
+      )
+    ).resolves.toContain(
+      `user_feeds_message_handler_errors_total{queue="${MessageBrokerQueue.FeedDeliverArticles}"} 1`
+    );
+  });
+});
@@ -0,0 +1,20 @@
+import { Counter, Histogram } from "prom-client";
+
+export const feedParseDurationHistogram = new Histogram({
+  name: "user_feeds_feed_parse_duration_seconds",
+  help: "Duration of parsing fetched feeds into articles for delivery",
+  labelNames: ["result"],
+  buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+});
+
+export const articleDeliveriesCounter = new Counter({
+  name: "user_feeds_article_deliveries_total",
+  help: "Number of article deliveries attempted, labelled by medium and delivery status",
+  labelNames: ["medium", "status"],
+});
+
+export const messageHandlerErrorsCounter = new Counter({
+  name: "user_feeds_message_handler_errors_total",
+  help: "Number of errors thrown while handling broker messages",
+  labelNames: ["queue"],
+});
@@ -2,6 +2,9 @@ import { MikroORM } from "@mikro-orm/core";
 import { NestFactory } from "@nestjs/core";
 import { AppModule } from "./app.module";
 import logger from "./shared/utils/logger";
+import { AmqpConnection } from "@golevelup/nestjs-rabbitmq";
+import { trackQueueBacklog } from "@monitorss/metrics";
+import { MessageBrokerQueue } from "./shared";
 
 export async function setupFeedListener() {
   const app = await NestFactory.createApplicationContext(
@@ -12,6 +15,17 @@ export async function setupFeedListener() {
 
   const orm = app.get(MikroORM);
 
+  trackQueueBacklog({
+    name: "user_feeds_queue_messages",
+    channel: app.get(AmqpConnection).channel,
+    queues: [
+      MessageBrokerQueue.FeedDeliverArticles,
+      MessageBrokerQueue.FeedArticleDeliveryResult,
+      MessageBrokerQueue.FeedDeleted,
+    ],
+    logger,
+  });
+
   setInterval(() => {
     tryDbConnection(orm).catch(() => process.exit(1));
   }, 60000);
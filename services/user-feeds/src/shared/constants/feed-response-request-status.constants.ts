@@ -7,4 +7,5 @@ export enum FeedResponseRequestStatus {
   FetchError = "FETCH_ERROR",
   FetchTimeout = "FETCH_TIMEOUT",
   MatchedHash = "MATCHED_HASH",
+  NotModified = "NOT_MODIFIED",
 }
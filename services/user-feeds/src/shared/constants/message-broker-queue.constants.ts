@@ -3,5 +3,8 @@ export enum MessageBrokerQueue {
   FeedRejectedArticleDisableConnection = "feed.rejected-article.disable-connection",
   FeedRejectedDisableFeed = "feed.rejected.disable-feed",
   FeedArticleDeliveryResult = "feed.article-delivery-result",
+  FeedArticleDailyLimitApproaching = "feed.article-daily-limit-approaching",
+  FeedActivityLevelChanged = "feed.activity-level-changed",
   FeedDeleted = "feed.deleted",
+  FeedArticleIdsReset = "feed.article-ids-reset",
 }
@@ -1,4 +1,7 @@
 export enum ArticleDeliveryContentType {
   DiscordArticleMessage = "discord-article-message",
   DiscordThreadCreation = "discord-thread-creation",
+  HttpWebhookRequest = "http-webhook-request",
+  SlackMessage = "slack-message",
+  MatrixMessage = "matrix-message",
 }
@@ -1,8 +1,20 @@
 import FeedParser from "feedparser";
 import { FlattenedArticle } from "./flattened-article.type";
 
+export interface ArticleUpdate {
+  /**
+   * Values of the edit-tracked fields when the article was last seen
+   */
+  previousContent: Record<string, string>;
+  changedFields: string[];
+}
+
 export interface Article {
   flattened: FlattenedArticle;
   raw: FeedParser.Item;
   injectArticleContent: (targetRecord: Record<string, string>) => Promise<void>;
+  /**
+   * Set if this is a previously seen article whose edit-tracked fields have changed
+   */
+  update?: ArticleUpdate;
 }
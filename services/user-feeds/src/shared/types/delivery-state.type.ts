@@ -23,16 +23,28 @@ interface BaseArticleDeliveryState {
   articleIdHash: string;
 }
 
+/**
+ * IDs of the Discord message that was created by a delivery, if they are already known at the
+ * time of delivery
+ */
+interface ArticleDeliveryDiscordDetails {
+  messageId?: string | null;
+  channelId?: string | null;
+  threadId?: string | null;
+}
+
 interface ArticleDeliveryPendingDeliveryState extends BaseArticleDeliveryState {
   contentType: ArticleDeliveryContentType;
   status: ArticleDeliveryStatus.PendingDelivery;
   parent?: string;
+  discord?: ArticleDeliveryDiscordDetails;
 }
 
 interface ArticleDeliverySentState extends BaseArticleDeliveryState {
   status: ArticleDeliveryStatus.Sent;
   contentType?: ArticleDeliveryContentType;
   parent?: string;
+  discord?: ArticleDeliveryDiscordDetails;
 }
 
 interface ArticleDeliveryRateLimitState extends BaseArticleDeliveryState {
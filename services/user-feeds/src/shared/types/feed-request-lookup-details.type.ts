@@ -0,0 +1,12 @@
+/**
+ * Identifies requests that are specific to one feed, such as those made with the feed's own
+ * credentials. Their responses are stored under the key instead of the url so that they are
+ * never shared with other feeds.
+ */
+export interface FeedRequestLookupDetails {
+  key: string;
+  /**
+   * May contain decrypted credentials of the feed, and so must be omitted whenever this is logged
+   */
+  headers?: Record<string, string>;
+}
@@ -1,6 +1,17 @@
 import { MediumPayload, mediumPayloadSchema } from "./medium-payload.type";
 import { UserFeedDateCheckOptions } from "./user-feed-date-check-options.type";
 import { UserFeedFormatOptions } from "./user-feed-format-options.type";
+import { UserFeedJsonOptions } from "./user-feed-json-options.type";
+import { UserFeedHtmlScrapeOptions } from "./user-feed-html-scrape-options.type";
+import {
+  UserFeedEditTrackingMode,
+  UserFeedEditTrackingOptions,
+} from "./user-feed-edit-tracking-options.type";
+import {
+  UserFeedArticleIdOptions,
+  UserFeedArticleIdType,
+} from "./user-feed-article-id-options.type";
+import { FeedRequestLookupDetails } from "./feed-request-lookup-details.type";
 import { z } from "zod";
 import {
   ArticleInjection,
@@ -19,6 +30,15 @@ export interface FeedV2Event {
       formatOptions?: UserFeedFormatOptions;
       dateChecks?: UserFeedDateCheckOptions;
       articleInjections?: ArticleInjection[];
+      jsonOptions?: UserFeedJsonOptions | null;
+      htmlScrapeOptions?: UserFeedHtmlScrapeOptions | null;
+      editTracking?: UserFeedEditTrackingOptions | null;
+      articleIdOptions?: UserFeedArticleIdOptions | null;
+      requestLookupDetails?: FeedRequestLookupDetails | null;
+      /**
+       * Delete delivered Discord messages of articles that have since been removed from the feed
+       */
+      retractRemovedArticles?: boolean;
     };
     mediums: MediumPayload[];
     articleDayLimit: number;
@@ -35,6 +55,35 @@ export const feedV2EventSchemaDateChecks = z.object({
   oldArticleDateDiffMsThreshold: z.number().optional(),
 });
 
+export const feedV2EventSchemaJsonOptions = z.object({
+  itemsPath: z.string().nullable().optional(),
+});
+
+export const feedV2EventSchemaHtmlScrapeOptions = z.object({
+  itemSelector: z.string(),
+  titleSelector: z.string().nullable().optional(),
+  linkSelector: z.string().nullable().optional(),
+  dateSelector: z.string().nullable().optional(),
+  descriptionSelector: z.string().nullable().optional(),
+});
+
+export const feedV2EventSchemaEditTracking = z.object({
+  fields: z.array(z.string()).min(1),
+  mode: z.nativeEnum(UserFeedEditTrackingMode),
+  template: z.string().nullable().optional(),
+});
+
+export const feedV2EventSchemaArticleIdOptions = z.object({
+  type: z.nativeEnum(UserFeedArticleIdType),
+  field: z.string().nullable().optional(),
+  placeholders: z.array(z.string()).nullable().optional(),
+});
+
+export const feedV2EventSchemaRequestLookupDetails = z.object({
+  key: z.string(),
+  headers: z.record(z.string()).optional(),
+});
+
 export const feedV2EventSchema = z.object({
   data: z.object({
     feed: z.object({
@@ -45,6 +94,16 @@ export const feedV2EventSchema = z.object({
       formatOptions: feedV2EventSchemaFormatOptions.optional(),
       dateChecks: feedV2EventSchemaDateChecks.optional(),
       articleInjections: z.array(articleInjectionSchema).optional(),
+      jsonOptions: feedV2EventSchemaJsonOptions.nullable().optional(),
+      htmlScrapeOptions: feedV2EventSchemaHtmlScrapeOptions
+        .nullable()
+        .optional(),
+      editTracking: feedV2EventSchemaEditTracking.nullable().optional(),
+      articleIdOptions: feedV2EventSchemaArticleIdOptions.nullable().optional(),
+      requestLookupDetails: feedV2EventSchemaRequestLookupDetails
+        .nullable()
+        .optional(),
+      retractRemovedArticles: z.boolean().optional(),
     }),
     mediums: z.array(mediumPayloadSchema).min(1),
     articleDayLimit: z.number(),
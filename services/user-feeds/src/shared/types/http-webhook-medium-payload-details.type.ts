@@ -0,0 +1,39 @@
+import { z } from "zod";
+import { discordMediumPayloadDetailsSchema } from "./discord-medium-payload-details.type";
+
+export const httpWebhookMediumPayloadDetailsSchema = z.object({
+  url: z.string().url(),
+  method: z
+    .union([z.literal("POST"), z.literal("PUT"), z.literal("PATCH")])
+    .optional()
+    .default("POST"),
+  headers: z
+    .array(
+      z.object({
+        key: z.string(),
+        value: z.string(),
+      })
+    )
+    .optional()
+    .nullable()
+    .default([]),
+  /**
+   * A JSON document whose string values may contain article placeholders. If not specified, the
+   * flattened article is sent as-is.
+   */
+  bodyTemplate: z.string().optional().nullable().default(null),
+  /**
+   * If specified, requests are signed with an HMAC-SHA256 of the timestamp and body.
+   */
+  signingSecret: z.string().optional().nullable().default(null),
+  retries: z.number().int().min(0).max(2).optional().default(1),
+  customPlaceholders:
+    discordMediumPayloadDetailsSchema.shape.customPlaceholders,
+  formatter: discordMediumPayloadDetailsSchema.shape.formatter,
+  placeholderLimits: discordMediumPayloadDetailsSchema.shape.placeholderLimits,
+  enablePlaceholderFallback: z.boolean().optional().default(false),
+});
+
+export type HttpWebhookMediumPayloadDetails = z.infer<
+  typeof httpWebhookMediumPayloadDetailsSchema
+>;
@@ -3,10 +3,19 @@ export * from "./feed-v2-event.type";
 export * from "./medium-key.type";
 export * from "./base-medium-payload.type";
 export * from "./discord-medium-payload-details.type";
+export * from "./http-webhook-medium-payload-details.type";
+export * from "./slack-medium-payload-details.type";
+export * from "./matrix-medium-payload-details.type";
 export * from "./medium-payload.type";
+export * from "./medium-schedule.type";
 export * from "./delivery-state.type";
 export * from "./discord-medium-test-payload-details.type";
 export * from "./user-feed-format-options.type";
+export * from "./user-feed-json-options.type";
+export * from "./user-feed-html-scrape-options.type";
+export * from "./user-feed-edit-tracking-options.type";
+export * from "./user-feed-article-id-options.type";
 export * from "./flattened-article.type";
 export * from "./article-delivery-content-type.type";
 export * from "./article-discord-formatted.type";
+export * from "./feed-request-lookup-details.type";
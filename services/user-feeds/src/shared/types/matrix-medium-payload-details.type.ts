@@ -0,0 +1,22 @@
+import { z } from "zod";
+import { discordMediumPayloadDetailsSchema } from "./discord-medium-payload-details.type";
+
+export const matrixMediumPayloadDetailsSchema = z.object({
+  homeserverUrl: z.string().url(),
+  roomId: z.string(),
+  accessToken: z.string(),
+  msgtype: z
+    .union([z.literal("m.text"), z.literal("m.notice")])
+    .optional()
+    .default("m.text"),
+  content: z.string(),
+  customPlaceholders:
+    discordMediumPayloadDetailsSchema.shape.customPlaceholders,
+  formatter: discordMediumPayloadDetailsSchema.shape.formatter,
+  placeholderLimits: discordMediumPayloadDetailsSchema.shape.placeholderLimits,
+  enablePlaceholderFallback: z.boolean().optional().default(false),
+});
+
+export type MatrixMediumPayloadDetails = z.infer<
+  typeof matrixMediumPayloadDetailsSchema
+>;
@@ -2,6 +2,9 @@ import { z } from "zod";
 
 export enum MediumKey {
   Discord = "discord",
+  HttpWebhook = "http-webhook",
+  Slack = "slack",
+  Matrix = "matrix",
 }
 
 export const mediumKeySchema = z.nativeEnum(MediumKey);
@@ -1,25 +1,84 @@
 import { baseMediumpayloadSchema } from "./base-medium-payload.type";
-import { discordMediumPayloadDetailsSchema } from "./discord-medium-payload-details.type";
+import {
+  DiscordMediumPayloadDetails,
+  discordMediumPayloadDetailsSchema,
+} from "./discord-medium-payload-details.type";
+import {
+  HttpWebhookMediumPayloadDetails,
+  httpWebhookMediumPayloadDetailsSchema,
+} from "./http-webhook-medium-payload-details.type";
+import {
+  MatrixMediumPayloadDetails,
+  matrixMediumPayloadDetailsSchema,
+} from "./matrix-medium-payload-details.type";
 import { MediumFilters, mediumFiltersSchema } from "./medium-filters.type";
-import { MediumKey, mediumKeySchema } from "./medium-key.type";
+import { MediumKey } from "./medium-key.type";
 import {
   MediumRateLimit,
   mediumRateLimitSchema,
 } from "./medium-rate-limits.type";
+import { MediumSchedule, mediumScheduleSchema } from "./medium-schedule.type";
+import {
+  SlackMediumPayloadDetails,
+  slackMediumPayloadDetailsSchema,
+} from "./slack-medium-payload-details.type";
 import { z } from "zod";
 
-export const mediumPayloadSchema = baseMediumpayloadSchema.extend({
+const sharedMediumPayloadSchema = baseMediumpayloadSchema.extend({
   id: z.string(),
-  key: mediumKeySchema,
   filters: mediumFiltersSchema.optional().nullable(),
   rateLimits: z.array(mediumRateLimitSchema).optional().nullable(),
-  details: discordMediumPayloadDetailsSchema,
+  schedule: mediumScheduleSchema.optional().nullable(),
 });
 
-export type MediumPayload = {
+export const mediumPayloadSchema = z.discriminatedUnion("key", [
+  sharedMediumPayloadSchema.extend({
+    key: z.literal(MediumKey.Discord),
+    details: discordMediumPayloadDetailsSchema,
+  }),
+  sharedMediumPayloadSchema.extend({
+    key: z.literal(MediumKey.HttpWebhook),
+    details: httpWebhookMediumPayloadDetailsSchema,
+  }),
+  sharedMediumPayloadSchema.extend({
+    key: z.literal(MediumKey.Slack),
+    details: slackMediumPayloadDetailsSchema,
+  }),
+  sharedMediumPayloadSchema.extend({
+    key: z.literal(MediumKey.Matrix),
+    details: matrixMediumPayloadDetailsSchema,
+  }),
+]);
+
+interface SharedMediumPayload {
   id: string;
-  key: MediumKey.Discord;
   filters?: MediumFilters | null;
   rateLimits?: MediumRateLimit[] | null;
-  details: z.infer<typeof discordMediumPayloadDetailsSchema>;
-};
+  schedule?: MediumSchedule | null;
+}
+
+export interface DiscordMediumPayload extends SharedMediumPayload {
+  key: MediumKey.Discord;
+  details: DiscordMediumPayloadDetails;
+}
+
+export interface HttpWebhookMediumPayload extends SharedMediumPayload {
+  key: MediumKey.HttpWebhook;
+  details: HttpWebhookMediumPayloadDetails;
+}
+
+export interface SlackMediumPayload extends SharedMediumPayload {
+  key: MediumKey.Slack;
+  details: SlackMediumPayloadDetails;
+}
+
+export interface MatrixMediumPayload extends SharedMediumPayload {
+  key: MediumKey.Matrix;
+  details: MatrixMediumPayloadDetails;
+}
+
+export type MediumPayload =
+  | DiscordMediumPayload
+  | HttpWebhookMediumPayload
+  | SlackMediumPayload
+  | MatrixMediumPayload;
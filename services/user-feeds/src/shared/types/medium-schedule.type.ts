@@ -0,0 +1,47 @@
+import { z } from "zod";
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/);
+
+export const mediumScheduleSchema = z.object({
+  /**
+   * IANA timezone that the quiet hours and weekdays are evaluated in
+   */
+  timezone: z.string().optional().nullable().default(null),
+  /**
+   * Articles are not delivered between these times. The window may wrap past midnight.
+   */
+  quietHours: z
+    .object({
+      start: timeOfDaySchema,
+      end: timeOfDaySchema,
+    })
+    .optional()
+    .nullable()
+    .default(null),
+  weekdaysOnly: z.boolean().optional().default(false),
+  /**
+   * If enabled, articles that were queued outside of the window are delivered as a single
+   * message when the window opens instead of one message per article.
+   */
+  digest: z
+    .object({
+      /**
+       * The message content. Supports {{digest::count}} and {{digest::articles}}.
+       */
+      template: z.string().optional().nullable().default(null),
+      /**
+       * Rendered for every article and joined by new lines into {{digest::articles}}
+       */
+      articleTemplate: z.string().optional().nullable().default(null),
+      maxArticles: z.number().int().positive().optional().default(10),
+      /**
+       * Send the digest within an embed description for Discord mediums
+       */
+      asEmbed: z.boolean().optional().default(false),
+    })
+    .optional()
+    .nullable()
+    .default(null),
+});
+
+export type MediumSchedule = z.infer<typeof mediumScheduleSchema>;
@@ -0,0 +1,21 @@
+import { z } from "zod";
+import { discordMediumPayloadDetailsSchema } from "./discord-medium-payload-details.type";
+
+export const slackMediumPayloadDetailsSchema = z.object({
+  webhookUrl: z.string().url(),
+  /**
+   * Rendered as the header block. Slack only allows plain text within headers.
+   */
+  headerText: z.string().optional().nullable().default(null),
+  content: z.string(),
+  imageUrl: z.string().optional().nullable().default(null),
+  customPlaceholders:
+    discordMediumPayloadDetailsSchema.shape.customPlaceholders,
+  formatter: discordMediumPayloadDetailsSchema.shape.formatter,
+  placeholderLimits: discordMediumPayloadDetailsSchema.shape.placeholderLimits,
+  enablePlaceholderFallback: z.boolean().optional().default(false),
+});
+
+export type SlackMediumPayloadDetails = z.infer<
+  typeof slackMediumPayloadDetailsSchema
+>;
@@ -0,0 +1,24 @@
+export enum UserFeedArticleIdType {
+  /**
+   * A single property of the raw article, such as guid or link
+   */
+  Field = "field",
+  /**
+   * The combined values of any number of flattened article placeholders
+   */
+  Placeholders = "placeholders",
+  /**
+   * The article link without tracking query parameters and fragments
+   */
+  NormalizedLink = "normalized-link",
+}
+
+/**
+ * Pins how article IDs are determined instead of letting ArticleIDResolver pick one. Articles
+ * without a value for the chosen strategy fall back to the automatically resolved ID.
+ */
+export interface UserFeedArticleIdOptions {
+  type: UserFeedArticleIdType;
+  field?: string | null;
+  placeholders?: string[] | null;
+}
@@ -0,0 +1,20 @@
+export enum UserFeedEditTrackingMode {
+  /**
+   * Edit the originally sent message, falling back to a follow-up if it cannot be edited
+   */
+  Edit = "edit",
+  FollowUp = "follow-up",
+}
+
+export interface UserFeedEditTrackingOptions {
+  /**
+   * Article placeholders whose changes cause a previously seen article to be delivered again
+   */
+  fields: string[];
+  mode: UserFeedEditTrackingMode;
+  /**
+   * Content of follow-up messages. Supports {{updated::diff}} and {{updated::fields}} on top of
+   * the article placeholders.
+   */
+  template?: string | null;
+}
@@ -0,0 +1,13 @@
+export interface UserFeedHtmlScrapeOptions {
+  /**
+   * CSS selector of every element on the page that represents an article
+   */
+  itemSelector: string;
+  /**
+   * The following selectors are relative to each item element
+   */
+  titleSelector?: string | null;
+  linkSelector?: string | null;
+  dateSelector?: string | null;
+  descriptionSelector?: string | null;
+}
@@ -0,0 +1,7 @@
+export interface UserFeedJsonOptions {
+  /**
+   * Dot-separated path to the array of items within arbitrary JSON API responses. JSON Feed
+   * documents and root-level arrays do not need this.
+   */
+  itemsPath?: string | null;
+}